@@ -0,0 +1,108 @@
+/**
+ * Build artifact storage shared by the routes that collect them from the runner
+ */
+import { createHash } from 'crypto';
+import { db, query, transaction } from './db';
+import { sameArtifacts, type BuildArtifact } from '../../supabase/functions/_shared/attestation';
+
+/** An artifact as the runner sends it, content base64-encoded */
+export interface CollectedArtifact extends BuildArtifact {
+  size: number;
+  content: string;
+}
+
+export interface ArtifactCapture {
+  id: string;
+  artifacts: BuildArtifact[];
+  skipped: Array<{ path: string; reason: string }>;
+  /** Nothing changed since the latest capture, which is returned instead of a new one */
+  reused: boolean;
+}
+
+/** The project's artifact globs, or none when the user can't write to its captures. */
+export async function projectArtifactGlobs(userId: string, projectId: string): Promise<string[]> {
+  if (!(await db.isProjectMember(userId, projectId))) return [];
+  const { rows: [project] } = await query<{ artifact_globs: string[] }>(
+    'SELECT artifact_globs FROM projects WHERE id = $1',
+    [projectId],
+  );
+  return project?.artifact_globs || [];
+}
+
+/** Text blobs are stored as text, like snapshot content with the same hash would be. */
+function blobContent(bytes: Buffer): { content: string; encoding: 'utf8' | 'base64' } {
+  try {
+    return { content: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf8' };
+  } catch {
+    return { content: bytes.toString('base64'), encoding: 'base64' };
+  }
+}
+
+/**
+ * Store collected artifacts as content-addressed blobs and record them as a
+ * capture. When the files match the latest capture not yet tied to a build
+ * run, that capture is returned rather than a duplicate.
+ */
+export async function storeArtifacts({ projectId, userId, command, globs, collected, skipped = [] }: {
+  projectId: string;
+  userId: string;
+  command: string | null;
+  globs: string[];
+  collected: CollectedArtifact[];
+  skipped?: Array<{ path: string; reason: string }>;
+}): Promise<ArtifactCapture> {
+  const blobs = collected.map(artifact => {
+    const bytes = Buffer.from(artifact.content, 'base64');
+    const hash = createHash('sha256').update(bytes).digest('hex');
+    if (hash !== artifact.sha256) throw new Error(`Artifact ${artifact.path} does not match its hash`);
+    return { hash, size: bytes.length, ...blobContent(bytes) };
+  });
+  const artifacts = collected.map(({ path, sha256, size }) => ({ path, sha256, size }));
+
+  const { rows: [latest] } = await query<{ id: string; build_run_id: string | null }>(
+    'SELECT id, build_run_id FROM artifact_captures WHERE project_id = $1 ORDER BY created_at DESC LIMIT 1',
+    [projectId],
+  );
+  if (latest && !latest.build_run_id) {
+    const { rows } = await query<{ path: string; blob_hash: string }>(
+      'SELECT path, blob_hash FROM build_artifacts WHERE capture_id = $1',
+      [latest.id],
+    );
+    // Re-stamped as captured now, so a run that started after the last capture can still claim it
+    const { rowCount } = sameArtifacts(rows.map(r => ({ path: r.path, sha256: r.blob_hash })), artifacts)
+      ? await query('UPDATE artifact_captures SET created_at = now() WHERE id = $1 AND build_run_id IS NULL', [latest.id])
+      : { rowCount: 0 };
+    if (rowCount === 1) return { id: latest.id, artifacts, skipped, reused: true };
+  }
+
+  const id = await transaction(async client => {
+    for (const blob of blobs) {
+      await client.query(
+        `INSERT INTO ca_blobs (hash, byte_size, content, encoding) VALUES ($1, $2, $3, $4) ON CONFLICT (hash) DO NOTHING`,
+        [blob.hash, blob.size, blob.content, blob.encoding],
+      );
+    }
+    const { rows: [capture] } = await client.query<{ id: string }>(
+      `INSERT INTO artifact_captures (project_id, user_id, command, globs, file_count, total_bytes, skipped)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+      [
+        projectId, userId, command, globs, artifacts.length,
+        artifacts.reduce((sum, a) => sum + a.size, 0), JSON.stringify(skipped),
+      ],
+    );
+    for (const artifact of artifacts) {
+      await client.query(
+        'INSERT INTO build_artifacts (capture_id, path, blob_hash, byte_size) VALUES ($1, $2, $3, $4)',
+        [capture.id, artifact.path, artifact.sha256, artifact.size],
+      );
+    }
+    return capture.id;
+  });
+
+  await query(
+    `INSERT INTO project_events (project_id, actor_type, actor_id, event_type, payload) VALUES ($1, 'user', $2, 'artifacts.captured', $3)`,
+    [projectId, userId, JSON.stringify({ capture_id: id, command, files: artifacts.length, skipped: skipped.length })],
+  ).catch(() => undefined);
+
+  return { id, artifacts, skipped, reused: false };
+}
@@ -0,0 +1,409 @@
+/**
+ * MCP connections: transports for remote servers (Streamable HTTP and the
+ * older HTTP+SSE), stdio servers hosted in the project's runner session, and
+ * the stored connections API routes and the agent call tools through.
+ */
+import { createHash } from 'crypto';
+import { query } from './db';
+import { RUNNER_URL, runnerHeaders, openRunnerSession } from './runner';
+import { vaultKeyring, sealSecret, openSecret, type SealedSecret } from './vault';
+import {
+  CONNECTION_CLOSED, INTERNAL_ERROR, McpError, createMcpClient, createSseDecoder, parseJsonRpcMessages, discoverServer, callTool,
+  type JsonRpcMessage, type McpTransport, type McpRequester, type McpInitializeResult, type McpCallToolResult,
+  type McpToolDefinition, type McpTransportKind,
+} from '../../supabase/functions/_shared/mcp';
+import { connectionSecretsAad } from '../../supabase/functions/_shared/vault';
+import { isPrivateHost, resolveHostAddresses } from './web';
+
+const CLIENT_INFO = { name: 'started', version: '1.0.0' };
+/** How long an SSE server has to name its message endpoint */
+const SSE_ENDPOINT_TIMEOUT_MS = 10 * 1000;
+const MAX_REDIRECTS = 5;
+
+export interface McpConnection {
+  id: string;
+  project_id: string;
+  name: string;
+  transport: McpTransportKind;
+  command: string | null;
+  args: string[];
+  url: string | null;
+  status: 'pending' | 'connected' | 'error';
+  last_error: string | null;
+  server_info: Record<string, unknown> | null;
+  protocol_version: string | null;
+  capabilities: Record<string, unknown>;
+  instructions: string | null;
+  tools: McpToolDefinition[];
+  resources: unknown[];
+  resource_templates: unknown[];
+  prompts: unknown[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface McpConnectionSecrets {
+  headers: Record<string, string>;
+  env: Record<string, string>;
+}
+
+/** An initialized session with one server */
+export interface OpenConnection {
+  request: McpRequester;
+  initialize: McpInitializeResult;
+  close(): Promise<void>;
+}
+
+// ─── Transports ───
+
+/** Feed a text/event-stream body to `onEvent` until it ends. */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: { event: string; data: string }) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const textDecoder = new TextDecoder();
+  const decoder = createSseDecoder(onEvent);
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    decoder.push(textDecoder.decode(value, { stream: true }));
+  }
+  decoder.end();
+}
+
+function deliver(transport: McpTransport, data: string) {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    return;
+  }
+  for (const message of parseJsonRpcMessages(payload)) transport.onmessage?.(message);
+}
+
+/** Why a remote server URL can't be reached from here, or null when it can */
+export async function remoteServerUrlProblem(url: string): Promise<string | null> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return 'url must be an absolute URL';
+  }
+  if (target.protocol !== 'https:') return 'url must use https';
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  if (isPrivateHost(host)) return `${target.hostname} is a private address`;
+  const addresses = await resolveHostAddresses(host).catch(() => null);
+  if (!addresses) return `${target.hostname} doesn't resolve`;
+  if (addresses.some(isPrivateHost)) return `${target.hostname} resolves to a private address`;
+  return null;
+}
+
+/**
+ * fetch for a remote server. Redirects are followed by hand so every hop is
+ * checked, and never to another origin, which would carry the configured
+ * headers somewhere the user didn't send them.
+ */
+async function fetchRemote(url: string, init: RequestInit): Promise<Response> {
+  let current = url;
+  for (let hop = 0; ; hop++) {
+    const problem = await remoteServerUrlProblem(current);
+    if (problem) throw new McpError(INTERNAL_ERROR, `MCP server not allowed: ${problem}`);
+    const resp = await fetch(current, { ...init, redirect: 'manual' });
+    const location = resp.headers.get('location');
+    if (resp.status < 300 || resp.status >= 400 || !location) return resp;
+    const next = new URL(location, current);
+    if (next.origin !== new URL(current).origin) throw new McpError(INTERNAL_ERROR, 'MCP server redirected to another origin');
+    if (hop >= MAX_REDIRECTS) throw new McpError(INTERNAL_ERROR, 'MCP server redirected too many times');
+    current = next.toString();
+  }
+}
+
+/**
+ * Streamable HTTP: every message is a POST to one endpoint, answered with
+ * JSON, an SSE stream carrying the response, or 202 for notifications.
+ */
+export function createStreamableHttpTransport(url: string, headers: Record<string, string> = {}): McpTransport {
+  let sessionId: string | null = null;
+  let protocolVersion: string | null = null;
+
+  const requestHeaders = () => ({
+    ...headers,
+    ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+    ...(protocolVersion ? { 'MCP-Protocol-Version': protocolVersion } : {}),
+  });
+
+  const transport: McpTransport = {
+    async send(message: JsonRpcMessage) {
+      const resp = await fetchRemote(url, {
+        method: 'POST',
+        headers: { ...requestHeaders(), 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+        body: JSON.stringify(message),
+      });
+      sessionId = resp.headers.get('mcp-session-id') || sessionId;
+      if (resp.status === 202) return;
+      if (resp.status === 404 && sessionId) {
+        transport.onclose?.();
+        throw new McpError(CONNECTION_CLOSED, 'MCP session expired');
+      }
+      if (!resp.ok) throw new McpError(INTERNAL_ERROR, `MCP server returned ${resp.status}`);
+      const contentType = resp.headers.get('content-type') || '';
+      if (contentType.includes('text/event-stream') && resp.body) {
+        // The response arrives on the stream; don't hold up the send for it
+        readEventStream(resp.body, e => { if (e.event === 'message') deliver(transport, e.data); }).catch(() => undefined);
+      } else if (contentType.includes('application/json')) {
+        deliver(transport, await resp.text());
+      }
+    },
+    async close() {
+      if (!sessionId) return;
+      await fetchRemote(url, { method: 'DELETE', headers: requestHeaders() }).catch(() => undefined);
+    },
+    setProtocolVersion(version: string) {
+      protocolVersion = version;
+    },
+  };
+  return transport;
+}
+
+/**
+ * HTTP+SSE from protocol version 2024-11-05: a long-lived GET stream carries
+ * server messages, and its first `endpoint` event names where to POST ours.
+ */
+export function createSseTransport(url: string, headers: Record<string, string> = {}): McpTransport {
+  const abort = new AbortController();
+  let endpoint: string | null = null;
+
+  const transport: McpTransport = {
+    async start() {
+      const resp = await fetchRemote(url, { headers: { ...headers, Accept: 'text/event-stream' }, signal: abort.signal });
+      if (!resp.ok || !resp.body) throw new McpError(INTERNAL_ERROR, `MCP server returned ${resp.status}`);
+      const body = resp.body;
+
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new McpError(INTERNAL_ERROR, 'MCP server sent no endpoint event')), SSE_ENDPOINT_TIMEOUT_MS);
+        readEventStream(body, e => {
+          if (e.event === 'endpoint' && !endpoint) {
+            const target = new URL(e.data, url);
+            clearTimeout(timer);
+            // Never POST credentials somewhere the user didn't configure
+            if (target.origin !== new URL(url).origin) return reject(new McpError(INTERNAL_ERROR, 'MCP endpoint is on another origin'));
+            endpoint = target.toString();
+            resolve();
+          } else if (e.event === 'message') {
+            deliver(transport, e.data);
+          }
+        })
+          .catch(() => undefined)
+          .finally(() => {
+            clearTimeout(timer);
+            reject(new McpError(CONNECTION_CLOSED, 'MCP stream closed'));
+            transport.onclose?.();
+          });
+      });
+    },
+    async send(message: JsonRpcMessage) {
+      if (!endpoint) throw new McpError(CONNECTION_CLOSED, 'MCP transport not started');
+      const resp = await fetchRemote(endpoint, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+      });
+      if (!resp.ok) throw new McpError(INTERNAL_ERROR, `MCP server returned ${resp.status}`);
+    },
+    async close() {
+      abort.abort();
+    },
+  };
+  return transport;
+}
+
+/** A stdio server started (or reused) in the user's runner session for the project */
+async function openStdioConnection(
+  userId: string,
+  connection: McpConnection,
+  secrets: McpConnectionSecrets,
+): Promise<OpenConnection> {
+  if (!RUNNER_URL) throw new Error('stdio MCP servers need a runner; RUNNER_URL is not configured');
+  const headers = runnerHeaders(userId, connection.project_id);
+  const sessionId = await openRunnerSession(headers, { projectId: connection.project_id, userId });
+  const startResp = await fetch(`${RUNNER_URL}/v1/sessions/${sessionId}/mcp`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ name: connection.name, command: connection.command, args: connection.args, env: secrets.env }),
+  });
+  const started = await startResp.json().catch(() => null) as
+    { mcp_id?: string; initialize?: McpInitializeResult; error?: string; detail?: string } | null;
+  if (!startResp.ok || !started?.mcp_id || !started.initialize) {
+    throw new Error(started?.detail || started?.error || `Runner returned ${startResp.status}`);
+  }
+
+  const request: McpRequester = async (method, params) => {
+    const resp = await fetch(`${RUNNER_URL}/v1/sessions/${sessionId}/mcp/${started.mcp_id}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ method, params }),
+    });
+    const data = await resp.json().catch(() => null) as
+      { result?: unknown; error?: string | { code: number; message: string; data?: unknown }; detail?: string } | null;
+    if (data?.error && typeof data.error === 'object') throw new McpError(data.error.code, data.error.message, data.error.data);
+    if (!resp.ok || !data) throw new McpError(CONNECTION_CLOSED, String(data?.detail || data?.error || `Runner returned ${resp.status}`));
+    return data.result;
+  };
+  // The process stays up in the session for the next call
+  return { request, initialize: started.initialize, close: async () => undefined };
+}
+
+/** Connect and initialize. Remote servers get a fresh session per call; close it when done. */
+export async function openConnection(
+  userId: string,
+  connection: McpConnection,
+  secrets: McpConnectionSecrets,
+): Promise<OpenConnection> {
+  if (connection.transport === 'stdio') return openStdioConnection(userId, connection, secrets);
+  const transport = connection.transport === 'sse'
+    ? createSseTransport(connection.url || '', secrets.headers)
+    : createStreamableHttpTransport(connection.url || '', secrets.headers);
+  const client = createMcpClient(transport, { clientInfo: CLIENT_INFO });
+  const initialize = await client.connect();
+  return { request: client.request, initialize, close: () => client.close() };
+}
+
+// ─── Stored connections ───
+
+export const CONNECTION_COLUMNS = `id, project_id, name, transport, command, args, url, status, last_error, server_info,
+  protocol_version, capabilities, instructions, tools, resources, resource_templates, prompts, created_by, created_at, updated_at`;
+
+/** Columns of mcp_connection_secrets for a connection's sealed headers and environment, and their names */
+export function sealConnectionSecrets(projectId: string, connectionId: string, secrets: McpConnectionSecrets) {
+  return {
+    ...sealSecret(vaultKeyring(), connectionSecretsAad(projectId, connectionId), secrets),
+    header_names: Object.keys(secrets.headers).sort(),
+    env_names: Object.keys(secrets.env).sort(),
+  };
+}
+
+/** Seal a row stored before connection secrets were encrypted, clearing its plaintext */
+async function sealLegacySecrets(projectId: string, connectionId: string, secrets: McpConnectionSecrets) {
+  const sealed = sealConnectionSecrets(projectId, connectionId, secrets);
+  await query(
+    `UPDATE mcp_connection_secrets
+     SET key_version = $2, wrapped_key = $3, ciphertext = $4, header_names = $5, env_names = $6, headers = NULL, env = NULL
+     WHERE connection_id = $1 AND ciphertext IS NULL`,
+    [connectionId, sealed.key_version, sealed.wrapped_key, sealed.ciphertext, sealed.header_names, sealed.env_names],
+  );
+}
+
+/** A project's connection with its secrets, or null when it has none by that id. */
+export async function loadConnection(
+  projectId: string,
+  connectionId: string,
+): Promise<{ connection: McpConnection; secrets: McpConnectionSecrets } | null> {
+  const { rows: [row] } = await query<McpConnection & Partial<SealedSecret> & {
+    headers: Record<string, string> | null;
+    env: Record<string, string> | null;
+  }>(
+    `SELECT c.*, s.key_version, s.wrapped_key, s.ciphertext, s.headers, s.env
+     FROM mcp_connections c LEFT JOIN mcp_connection_secrets s ON s.connection_id = c.id
+     WHERE c.project_id = $1 AND c.id = $2`,
+    [projectId, connectionId],
+  );
+  if (!row) return null;
+  const { key_version: keyVersion, wrapped_key: wrappedKey, ciphertext, headers, env, ...connection } = row;
+  if (keyVersion && wrappedKey && ciphertext) {
+    const secrets = openSecret<McpConnectionSecrets>(
+      vaultKeyring(), connectionSecretsAad(projectId, connectionId), { key_version: keyVersion, wrapped_key: wrappedKey, ciphertext },
+    );
+    return { connection, secrets };
+  }
+  const secrets = { headers: headers || {}, env: env || {} };
+  if (headers || env) await sealLegacySecrets(projectId, connectionId, secrets);
+  return { connection, secrets };
+}
+
+/** Run `fn` against an open connection, closing it afterwards. */
+export async function withConnection<T>(
+  userId: string,
+  loaded: { connection: McpConnection; secrets: McpConnectionSecrets },
+  fn: (open: OpenConnection) => Promise<T>,
+): Promise<T> {
+  const open = await openConnection(userId, loaded.connection, loaded.secrets);
+  try {
+    return await fn(open);
+  } finally {
+    await open.close().catch(() => undefined);
+  }
+}
+
+/** Initialize the server and store what it offers; failures are recorded on the connection. */
+export async function refreshConnection(
+  userId: string,
+  loaded: { connection: McpConnection; secrets: McpConnectionSecrets },
+): Promise<McpConnection> {
+  try {
+    const { initialize, catalog } = await withConnection(userId, loaded, async open => ({
+      initialize: open.initialize,
+      catalog: await discoverServer(open.request, open.initialize.capabilities || {}),
+    }));
+    const { rows: [row] } = await query<McpConnection>(
+      `UPDATE mcp_connections
+       SET status = 'connected', last_error = NULL, server_info = $2, protocol_version = $3, capabilities = $4,
+           instructions = $5, tools = $6, resources = $7, resource_templates = $8, prompts = $9, updated_at = now()
+       WHERE id = $1 RETURNING ${CONNECTION_COLUMNS}`,
+      [
+        loaded.connection.id, JSON.stringify(initialize.serverInfo), initialize.protocolVersion,
+        JSON.stringify(initialize.capabilities || {}), initialize.instructions || null, JSON.stringify(catalog.tools),
+        JSON.stringify(catalog.resources), JSON.stringify(catalog.resourceTemplates), JSON.stringify(catalog.prompts),
+      ],
+    );
+    return row;
+  } catch (error) {
+    const { rows: [row] } = await query<McpConnection>(
+      `UPDATE mcp_connections SET status = 'error', last_error = $2, updated_at = now() WHERE id = $1 RETURNING ${CONNECTION_COLUMNS}`,
+      [loaded.connection.id, (error instanceof Error ? error.message : String(error)).slice(0, 1000)],
+    );
+    return row;
+  }
+}
+
+function auditHash(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value ?? null)).digest('hex');
+}
+
+/**
+ * Call a tool on a stored connection and record the call in the MCP audit
+ * log. Tools the server marks read-only are logged as reads, the rest as writes.
+ */
+export async function callConnectionTool({ userId, projectId, connectionId, toolName, input, agentRunId }: {
+  userId: string;
+  projectId: string;
+  connectionId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  agentRunId?: string | null;
+}): Promise<McpCallToolResult> {
+  const loaded = await loadConnection(projectId, connectionId);
+  if (!loaded) throw new Error('MCP connection not found');
+  const tool = loaded.connection.tools.find(t => t.name === toolName);
+  const risk = tool?.annotations?.readOnlyHint ? 'read' : 'write';
+  const audit = [projectId, userId, agentRunId || null, `mcp:${loaded.connection.name}`, toolName, risk, auditHash(input)];
+
+  const startedAt = Date.now();
+  try {
+    const result = await withConnection(userId, loaded, open => callTool(open.request, toolName, input));
+    await query(
+      `INSERT INTO mcp_audit_log (project_id, user_id, agent_run_id, server_key, tool_name, risk, input_hash, status, latency_ms, output_hash)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [...audit, result.isError ? 'error' : 'ok', Date.now() - startedAt, auditHash(result)],
+    ).catch(() => undefined);
+    return result;
+  } catch (error) {
+    await query(
+      `INSERT INTO mcp_audit_log (project_id, user_id, agent_run_id, server_key, tool_name, risk, input_hash, status, latency_ms, error)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, 'error', $8, $9)`,
+      [...audit, Date.now() - startedAt, error instanceof Error ? error.message : String(error)],
+    ).catch(() => undefined);
+    throw error;
+  }
+}
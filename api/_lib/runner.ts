@@ -0,0 +1,82 @@
+/**
+ * Runner service helpers shared by API routes that proxy to it
+ */
+
+export const RUNNER_URL = process.env.RUNNER_URL || process.env.VITE_RUNNER_URL;
+const RUNNER_SHARED_SECRET = process.env.RUNNER_SHARED_SECRET || '';
+/** Runner origin as browsers reach it, for terminal WebSockets; defaults to RUNNER_URL */
+export const RUNNER_PUBLIC_URL = process.env.RUNNER_PUBLIC_URL || RUNNER_URL;
+
+/** A runner call that failed with a status worth passing on to the client (e.g. 507 quota exceeded) */
+export class RunnerRequestError extends Error {
+  constructor(readonly status: number, readonly body: Record<string, unknown>) {
+    super(String(body.error || `Runner returned ${status}`));
+  }
+}
+
+export function runnerHeaders(userId: string, projectId?: string) {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'x-user-id': userId,
+  };
+  if (projectId) headers['x-project-id'] = projectId;
+  if (RUNNER_SHARED_SECRET) headers['Authorization'] = `Bearer ${RUNNER_SHARED_SECRET}`;
+  return headers;
+}
+
+/**
+ * Open (or reuse) the user's session for a project and sync any files sent
+ * along, so the runner workspace matches the IDE before the call.
+ */
+export async function openRunnerSession(
+  headers: Record<string, string>,
+  { projectId, runtimeType, userId, files, limits, ephemeral }: {
+    projectId: string;
+    runtimeType?: string;
+    userId: string;
+    files?: Array<{ path: string; content: string }>;
+    /** Requested `ResourceLimits`; the runner clamps them to its own */
+    limits?: Record<string, unknown>;
+    /** Start from an empty workspace nobody else shares; close it with `closeRunnerSession` */
+    ephemeral?: boolean;
+  },
+): Promise<string> {
+  const sessionResp = await fetch(`${RUNNER_URL}/v1/sessions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ project_id: projectId, runtime_type: runtimeType || 'node', user_id: userId, limits, ephemeral }),
+  });
+
+  if (!sessionResp.ok) {
+    const errText = await sessionResp.text();
+    throw new Error(errText.slice(0, 200));
+  }
+
+  const sessionData = await sessionResp.json() as { session_id: string };
+  const sessionId = sessionData.session_id;
+
+  if (Array.isArray(files) && files.length > 0) {
+    const syncResp = await fetch(`${RUNNER_URL}/v1/sessions/${sessionId}/sync`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ files }),
+    });
+    if (syncResp.status === 507) {
+      throw new RunnerRequestError(507, await syncResp.json().catch(() => ({ error: 'Workspace limit exceeded' })));
+    }
+  }
+
+  return sessionId;
+}
+
+/** Tear a session down; ephemeral sessions take their workspace with them. */
+export async function closeRunnerSession(headers: Record<string, string>, sessionId: string): Promise<void> {
+  await fetch(`${RUNNER_URL}/v1/sessions/${sessionId}`, { method: 'DELETE', headers }).catch(() => undefined);
+}
+
+/** The runner's environment fingerprint, or an empty object when it doesn't report one. */
+export async function getRunnerFingerprint(headers: Record<string, string>): Promise<Record<string, unknown>> {
+  const resp = await fetch(`${RUNNER_URL}/v1/fingerprint`, { headers }).catch(() => null);
+  if (!resp?.ok) return {};
+  return (await resp.json().catch(() => ({}))) as Record<string, unknown>;
+}
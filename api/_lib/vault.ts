@@ -0,0 +1,56 @@
+/**
+ * Envelope encryption for secrets the API stores, in the mcp-vault
+ * function's format: values are sealed with AES-256-GCM under a per-row data
+ * key that the current MCP_VAULT_KEYS key wraps. Each part is base64 of IV,
+ * ciphertext and tag, and both are bound to their row by the additional data.
+ */
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { parseVaultKeyring, vaultKey, type VaultKeyring } from '../../supabase/functions/_shared/vault';
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export interface SealedSecret {
+  key_version: number;
+  wrapped_key: string;
+  ciphertext: string;
+}
+
+export function vaultKeyring(): VaultKeyring {
+  return parseVaultKeyring(process.env.MCP_VAULT_KEYS);
+}
+
+/** AES-256-GCM key for a vault key version, derived from its secret */
+function keyEncryptionKey(ring: VaultKeyring, version: number): Buffer {
+  return createHash('sha256').update(vaultKey(ring, version)).digest();
+}
+
+function encrypt(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  return Buffer.concat([iv, cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]).toString('base64');
+}
+
+function decrypt(key: Buffer, text: string, aad: string): Buffer {
+  const bytes = Buffer.from(text, 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', key, bytes.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(bytes.subarray(bytes.length - TAG_BYTES));
+  return Buffer.concat([decipher.update(bytes.subarray(IV_BYTES, bytes.length - TAG_BYTES)), decipher.final()]);
+}
+
+/** Seal a JSON value under a new data key, wrapped by the current vault key */
+export function sealSecret(ring: VaultKeyring, aad: string, value: unknown): SealedSecret {
+  const dataKey = randomBytes(32);
+  return {
+    key_version: ring.current,
+    wrapped_key: encrypt(keyEncryptionKey(ring, ring.current), dataKey, aad),
+    ciphertext: encrypt(dataKey, Buffer.from(JSON.stringify(value)), aad),
+  };
+}
+
+export function openSecret<T>(ring: VaultKeyring, aad: string, sealed: SealedSecret): T {
+  const dataKey = decrypt(keyEncryptionKey(ring, sealed.key_version), sealed.wrapped_key, aad);
+  return JSON.parse(decrypt(dataKey, sealed.ciphertext, aad).toString('utf8')) as T;
+}
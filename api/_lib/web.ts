@@ -0,0 +1,56 @@
+/**
+ * Web tool helpers for API routes: the shared fetch/markdown engine plus the
+ * search provider picked from the environment.
+ */
+import { lookup } from 'dns/promises';
+import { createFixtureSearchProvider } from '../../supabase/functions/_shared/web';
+import type { WebSearchProvider, WebSearchResult } from '../../supabase/functions/_shared/web';
+
+export * from '../../supabase/functions/_shared/web';
+
+/** Brave Search API (https://api.search.brave.com) */
+export function createBraveSearchProvider(apiKey: string): WebSearchProvider {
+  return {
+    name: 'brave',
+    async search(query, limit) {
+      const url = `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=${limit}`;
+      const resp = await fetch(url, {
+        headers: { Accept: 'application/json', 'X-Subscription-Token': apiKey },
+      });
+      if (!resp.ok) throw new Error(`Search provider returned HTTP ${resp.status}`);
+      const data = await resp.json() as { web?: { results?: Array<{ title: string; url: string; description?: string }> } };
+      return (data.web?.results ?? []).slice(0, limit).map((r): WebSearchResult => ({
+        title: r.title,
+        url: r.url,
+        snippet: (r.description ?? '').replace(/<[^>]*>/g, ''),
+      }));
+    },
+  };
+}
+
+/**
+ * WEB_SEARCH_PROVIDER selects the provider: `brave` (needs BRAVE_SEARCH_API_KEY)
+ * or `fixture`, which serves WEB_SEARCH_FIXTURES (JSON: query → results) without
+ * touching the network. Defaults to brave when a key is set.
+ */
+export function getSearchProvider(): WebSearchProvider | null {
+  const provider = process.env.WEB_SEARCH_PROVIDER || (process.env.BRAVE_SEARCH_API_KEY ? 'brave' : '');
+  if (provider === 'brave' && process.env.BRAVE_SEARCH_API_KEY) {
+    return createBraveSearchProvider(process.env.BRAVE_SEARCH_API_KEY);
+  }
+  if (provider === 'fixture') {
+    return createFixtureSearchProvider(JSON.parse(process.env.WEB_SEARCH_FIXTURES || '{}'));
+  }
+  return null;
+}
+
+/** Every address a host resolves to, for fetchReadable's private-address check on each hop */
+export async function resolveHostAddresses(host: string): Promise<string[]> {
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  return addresses.map(a => a.address);
+}
+
+/** Comma-separated WEB_DENIED_DOMAINS, enforced on top of the caller's policy. */
+export function serverDeniedDomains(): string[] {
+  return (process.env.WEB_DENIED_DOMAINS || '').split(',').map(d => d.trim()).filter(Boolean);
+}
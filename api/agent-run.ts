@@ -5,6 +5,9 @@ import type { VercelRequest, VercelResponse } from './_lib/vercel-types';
 import { handleOptions } from './_lib/cors';
 import { requireAuth } from './_lib/auth';
 import { db, query } from './_lib/db';
+import { callConnectionTool } from './_lib/mcp';
+import { toolResultText } from '../supabase/functions/_shared/mcp';
+import { checkToolInput, describeToolInput, toolInputSchema, type JsonSchema } from '../supabase/functions/_shared/tool-schemas';
 
 const AGENT_SYSTEM_PROMPT = `You are Started Agent — an autonomous, full-stack AI coding agent operating inside Started.dev Cloud IDE.
 
@@ -25,7 +28,7 @@ CAPABILITIES
 - PATCH: Create/modify/delete files using unified diffs. You can create entire projects from scratch.
 - RUN: Execute shell commands (npm install, npm test, npm run build, etc.) for verification.
 - MCP_CALL: Invoke MCP tools (GitHub, Slack, databases, APIs, blockchain, etc.) for external data/actions.
-- FILE_OPS: Create new files with full content. Delete files by patching to /dev/null.
+- FILE_OPS: Create new files with full content. Delete files by patching to +++ /dev/null. Rename or move files with a git header (diff --git a/old b/new, rename from old, rename to new), optionally followed by hunks.
 - MULTI-FILE: Apply changes across multiple files in a single patch. Include ALL downstream updates.
 
 CODE QUALITY (mandatory)
@@ -485,11 +488,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       conversationHistory.push({ role: 'system', content: FLOW_INTELLIGENCE_PROMPT });
     }
 
-    if (mcp_tools && Array.isArray(mcp_tools) && mcp_tools.length > 0) {
-      const toolList = mcp_tools.map((t: { server: string; name: string; description: string }) => `- [${t.server}] ${t.name}: ${t.description}`).join('\n');
+    // Every tool carries its input schema; tools discovered on the project's MCP connections also carry the connection to call
+    const mcpToolList: Array<{ server: string; name: string; description: string; connection_id?: string; input_schema?: JsonSchema }> =
+      Array.isArray(mcp_tools) ? mcp_tools : [];
+    if (mcpToolList.length > 0) {
+      const toolList = mcpToolList.map(t => `- [${t.server}] ${t.name}: ${t.description}${t.input_schema ? ` Input: ${describeToolInput(t.input_schema)}` : ''}`).join('\n');
       conversationHistory.push({
         role: 'system',
-        content: `Available MCP Tools:\n${toolList}\n\nYou can use these tools by setting action to "mcp_call" with fields: "mcp_server", "mcp_tool", and "mcp_input".`,
+        content: `Available MCP Tools:\n${toolList}\n\nYou can use these tools by setting action to "mcp_call" with fields: "mcp_server", "mcp_tool", and "mcp_input". Fields marked * are required; mcp_input may only contain the fields listed.`,
       });
     }
 
@@ -656,22 +662,36 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       if (parsed.action === 'mcp_call' && parsed.mcp_tool) {
         let mcpResultText = 'MCP call failed: unknown error';
+        const connectionTool = project_id && mcpToolList.find(t => t.connection_id && t.server === parsed.mcp_server && t.name === parsed.mcp_tool);
+        const invalidInput = connectionTool ? null : checkToolInput(parsed.mcp_tool as string, parsed.mcp_input);
         try {
-          const mcpServer = (parsed.mcp_server || 'mcp-github') as string;
-          const mcpResp = await fetch(`${apiBase}/${mcpServer}`, {
-            method: 'POST',
-            headers: {
-              Authorization: authHeader,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ tool: parsed.mcp_tool, input: parsed.mcp_input || {} }),
-          });
-          const mcpData = await mcpResp.json();
-          if (mcpData?.ok === false) {
-            mcpResultText = `MCP tool \`${parsed.mcp_tool}\` failed: ${mcpData.error || 'unknown error'}`;
+          if (connectionTool) {
+            const result = await callConnectionTool({
+              userId: user.id, projectId: project_id, connectionId: connectionTool.connection_id as string, toolName: parsed.mcp_tool as string,
+              input: (parsed.mcp_input || {}) as Record<string, unknown>, agentRunId,
+            });
+            mcpResultText = `MCP tool \`${parsed.mcp_tool}\` ${result.isError ? 'failed' : 'succeeded'}. Result: ${toolResultText(result, 2000)}`;
+          } else if (invalidInput) {
+            // Rejected before dispatch: hand the issues and the expected input back so the next step can fix the call
+            mcpResultText = `MCP tool \`${parsed.mcp_tool}\` was not called: ${invalidInput.issues.map(i => i.message).join('; ')}. `
+              + `Expected input: ${describeToolInput(toolInputSchema(parsed.mcp_tool as string)!)}. Fix mcp_input and call it again.`;
           } else {
-            const result = mcpData?.result ?? mcpData;
-            mcpResultText = `MCP tool \`${parsed.mcp_tool}\` succeeded. Result: ${JSON.stringify(result).slice(0, 2000)}`;
+            const mcpServer = (parsed.mcp_server || 'mcp-github') as string;
+            const mcpResp = await fetch(`${apiBase}/${mcpServer}`, {
+              method: 'POST',
+              headers: {
+                Authorization: authHeader,
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({ tool: parsed.mcp_tool, input: parsed.mcp_input || {} }),
+            });
+            const mcpData = await mcpResp.json();
+            if (mcpData?.ok === false) {
+              mcpResultText = `MCP tool \`${parsed.mcp_tool}\` failed: ${mcpData.error || 'unknown error'}`;
+            } else {
+              const result = mcpData?.result ?? mcpData;
+              mcpResultText = `MCP tool \`${parsed.mcp_tool}\` succeeded. Result: ${JSON.stringify(result).slice(0, 2000)}`;
+            }
           }
         } catch (mcpErr) {
           mcpResultText = `MCP tool \`${parsed.mcp_tool}\` threw: ${mcpErr instanceof Error ? mcpErr.message : 'unknown'}`;
@@ -5,7 +5,7 @@
 import type { VercelRequest, VercelResponse } from './_lib/vercel-types';
 import { handleOptions } from './_lib/cors';
 import { requireAuth } from './_lib/auth';
-import { applyPatchToContent, buildContentFromNewFilePatch, parseUnifiedDiff } from './_lib/patch';
+import { applyPatchesToFiles, describePatchFailures, parseUnifiedDiff, rootPath } from './_lib/patch';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleOptions(req, res)) return;
@@ -18,49 +18,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (!user) return;
 
   try {
-    const { diff, files } = req.body || {};
+    const { diff, files, fuzz } = req.body || {};
     if (!diff || typeof diff !== 'string') {
       return res.status(400).json({ error: 'Missing diff' });
     }
 
     const fileList: Array<{ path: string; content: string }> = Array.isArray(files) ? files : [];
-    const fileMap = new Map(fileList.map(f => [f.path, f.content]));
+    const before = new Map(fileList.map(f => [rootPath(f.path), f.content]));
 
     const patches = parseUnifiedDiff(diff);
-    const results: Array<{ path: string; status: 'applied' | 'created' | 'failed'; error?: string }> = [];
-    const updatedFiles: Array<{ path: string; content: string }> = [];
+    const applied = applyPatchesToFiles(fileList, patches, typeof fuzz === 'number' ? { fuzz } : undefined);
+    const results = applied.results.map(r => r.status === 'failed' && !r.error
+      ? { ...r, error: describePatchFailures([r]) }
+      : r);
+    const updatedFiles = applied.files.filter(f => before.get(rootPath(f.path)) !== f.content);
 
-    for (const patch of patches) {
-      const oldPath = patch.oldFile.startsWith('a/') ? patch.oldFile.slice(2) : patch.oldFile;
-      const newPath = patch.newFile.startsWith('b/') ? patch.newFile.slice(2) : patch.newFile;
-
-      if (patch.oldFile === '/dev/null') {
-        const content = buildContentFromNewFilePatch(patch);
-        fileMap.set(newPath, content);
-        results.push({ path: newPath, status: 'created' });
-        updatedFiles.push({ path: newPath, content });
-        continue;
-      }
-
-      if (patch.newFile === '/dev/null') {
-        fileMap.delete(oldPath);
-        results.push({ path: oldPath, status: 'applied' });
-        continue;
-      }
-
-      const current = fileMap.get(oldPath) ?? '';
-      const updated = applyPatchToContent(current, patch);
-      if (updated === null) {
-        results.push({ path: oldPath, status: 'failed', error: 'Patch failed to apply' });
-        continue;
-      }
-
-      fileMap.set(newPath, updated);
-      results.push({ path: newPath, status: 'applied' });
-      updatedFiles.push({ path: newPath, content: updated });
-    }
-
-    return res.status(200).json({ success: true, results, updatedFiles });
+    return res.status(200).json({ success: applied.ok, results, updatedFiles });
   } catch (error) {
     return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });
   }
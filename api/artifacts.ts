@@ -0,0 +1,116 @@
+/**
+ * Build artifacts endpoint
+ * Lists a project's artifact captures, downloads captured files, captures
+ * the current runner workspace on demand and sets the project's artifact globs.
+ */
+import type { VercelRequest, VercelResponse } from './_lib/vercel-types';
+import { handleOptions } from './_lib/cors';
+import { requireAuth } from './_lib/auth';
+import { db, query } from './_lib/db';
+import { RUNNER_URL, RunnerRequestError, runnerHeaders, openRunnerSession } from './_lib/runner';
+import { projectArtifactGlobs, storeArtifacts, type CollectedArtifact } from './_lib/artifacts';
+import { validateArtifactGlobs } from '../supabase/functions/_shared/attestation';
+
+const MAX_CAPTURES = 20;
+
+async function listCaptures(projectId: string) {
+  const { rows: [project] } = await query<{ artifact_globs: string[] }>(
+    'SELECT artifact_globs FROM projects WHERE id = $1',
+    [projectId],
+  );
+  const { rows: captures } = await query(
+    `SELECT c.id, c.build_run_id, c.command, c.globs, c.file_count, c.total_bytes, c.skipped, c.created_at,
+            coalesce(jsonb_agg(jsonb_build_object('path', a.path, 'sha256', a.blob_hash, 'size', a.byte_size) ORDER BY a.path)
+              FILTER (WHERE a.path IS NOT NULL), '[]') AS artifacts
+     FROM artifact_captures c LEFT JOIN build_artifacts a ON a.capture_id = c.id
+     WHERE c.project_id = $1
+     GROUP BY c.id
+     ORDER BY c.created_at DESC
+     LIMIT $2`,
+    [projectId, MAX_CAPTURES],
+  );
+  return { globs: project?.artifact_globs || [], captures };
+}
+
+async function downloadArtifact(res: VercelResponse, projectId: string, hash: string) {
+  const { rows: [blob] } = await query<{ path: string; content: string; encoding: string }>(
+    `SELECT a.path, b.content, b.encoding
+     FROM build_artifacts a
+     JOIN artifact_captures c ON c.id = a.capture_id
+     JOIN ca_blobs b ON b.hash = a.blob_hash
+     WHERE c.project_id = $1 AND a.blob_hash = $2
+     LIMIT 1`,
+    [projectId, hash],
+  );
+  if (!blob) return res.status(404).json({ error: 'Artifact not found' });
+
+  const bytes = Buffer.from(blob.content, blob.encoding === 'base64' ? 'base64' : 'utf8');
+  const fileName = blob.path.split('/').pop() || 'artifact';
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'application/octet-stream');
+  res.setHeader('Content-Length', String(bytes.length));
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName.replace(/["\\\r\n]/g, '_')}"`);
+  res.setHeader('X-Artifact-Sha256', hash);
+  res.end(bytes);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleOptions(req, res)) return;
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  const projectId = (req.method === 'GET' ? req.query.project_id : req.body?.project_id) as string | undefined;
+  if (!projectId) return res.status(400).json({ error: 'Missing project_id' });
+  if (!(await db.isProjectMember(user.id, projectId))) return res.status(403).json({ error: 'Forbidden' });
+
+  if (req.method === 'GET') {
+    const hash = req.query.hash as string | undefined;
+    if (hash) return downloadArtifact(res, projectId, hash);
+    return res.status(200).json({ ok: true, ...(await listCaptures(projectId)) });
+  }
+
+  if (req.method === 'PUT') {
+    const { globs } = req.body || {};
+    const invalid = validateArtifactGlobs(globs);
+    if (invalid) return res.status(400).json({ error: invalid });
+    if (!(await db.isProjectOwner(user.id, projectId))) {
+      return res.status(403).json({ error: 'Only the project owner can change artifact globs' });
+    }
+    const cleaned = (globs as string[]).map(g => g.trim());
+    await query('UPDATE projects SET artifact_globs = $2 WHERE id = $1', [projectId, cleaned]);
+    return res.status(200).json({ ok: true, globs: cleaned });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Capture whatever the workspace holds now, e.g. after a build run outside the IDE terminal
+  if (!RUNNER_URL) {
+    return res.status(503).json({ error: 'runner_unavailable', detail: 'RUNNER_URL not configured' });
+  }
+  const globs = await projectArtifactGlobs(user.id, projectId);
+  if (globs.length === 0) return res.status(400).json({ error: 'Set artifact globs for this project first' });
+
+  try {
+    const headers = runnerHeaders(user.id, projectId);
+    const sessionId = await openRunnerSession(headers, { projectId, runtimeType: req.body?.runtime_type, userId: user.id });
+    const collectResp = await fetch(`${RUNNER_URL}/v1/sessions/${sessionId}/artifacts`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ globs }),
+    });
+    const data = await collectResp.json().catch(() => null) as
+      { artifacts?: CollectedArtifact[]; skipped?: Array<{ path: string; reason: string }>; error?: string } | null;
+    if (!collectResp.ok || !data?.artifacts) throw new Error(data?.error || `Runner returned ${collectResp.status}`);
+
+    const capture = await storeArtifacts({
+      projectId, userId: user.id, command: null, globs, collected: data.artifacts, skipped: data.skipped,
+    });
+    return res.status(200).json({ ok: true, capture });
+  } catch (error) {
+    if (error instanceof RunnerRequestError) return res.status(error.status).json(error.body);
+    return res.status(502).json({ error: 'runner_unavailable', detail: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Git tools endpoint
+ * Proxies git_status / git_diff / git_log / git_branch / git_checkout /
+ * git_commit to the runner workspace and returns its structured result.
+ */
+import type { VercelRequest, VercelResponse } from './_lib/vercel-types';
+import { handleOptions } from './_lib/cors';
+import { requireAuth } from './_lib/auth';
+import { RUNNER_URL, RunnerRequestError, runnerHeaders, openRunnerSession } from './_lib/runner';
+
+const GIT_TOOLS = new Set(['git_status', 'git_diff', 'git_log', 'git_branch', 'git_checkout', 'git_commit']);
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleOptions(req, res)) return;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  if (!RUNNER_URL) {
+    return res.status(503).json({ error: 'runner_unavailable', detail: 'RUNNER_URL not configured' });
+  }
+
+  try {
+    const { tool, input, project_id, runtime_type, files } = req.body || {};
+    if (!GIT_TOOLS.has(tool)) {
+      return res.status(400).json({ error: `Unsupported git tool: ${tool}` });
+    }
+    if (!project_id) {
+      return res.status(400).json({ error: 'Missing project_id' });
+    }
+
+    const headers = runnerHeaders(user.id, project_id);
+    const sessionId = await openRunnerSession(headers, { projectId: project_id, runtimeType: runtime_type, userId: user.id, files });
+
+    const gitResp = await fetch(`${RUNNER_URL}/v1/sessions/${sessionId}/git`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ tool, input: input || {} }),
+    });
+    const data = await gitResp.json().catch(() => null);
+    if (!data) {
+      return res.status(502).json({ error: 'runner_unavailable', detail: 'Invalid runner response' });
+    }
+
+    return res.status(gitResp.status).json(data);
+  } catch (error) {
+    if (error instanceof RunnerRequestError) return res.status(error.status).json(error.body);
+    return res.status(502).json({ error: 'runner_unavailable', detail: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * MCP connections endpoint
+ * Lists a project's external MCP servers, adds and removes them (project
+ * owner only), refreshes their tool, resource and prompt catalogs, and calls
+ * tools, reads resources and gets prompts on them.
+ */
+import type { VercelRequest, VercelResponse } from './_lib/vercel-types';
+import { handleOptions } from './_lib/cors';
+import { requireAuth } from './_lib/auth';
+import { db, query, transaction } from './_lib/db';
+import {
+  loadConnection, refreshConnection, withConnection, callConnectionTool, sealConnectionSecrets, remoteServerUrlProblem,
+  type McpConnection,
+} from './_lib/mcp';
+import {
+  McpError, validateMcpServerConfig, readResource, getPrompt, type McpServerConfig,
+} from '../supabase/functions/_shared/mcp';
+
+async function listConnections(projectId: string) {
+  const { rows } = await query<McpConnection & { header_names: string[]; env_names: string[] }>(
+    `SELECT c.*, coalesce(s.header_names, '{}') AS header_names, coalesce(s.env_names, '{}') AS env_names
+     FROM mcp_connections c LEFT JOIN mcp_connection_secrets s ON s.connection_id = c.id
+     WHERE c.project_id = $1
+     ORDER BY c.name`,
+    [projectId],
+  );
+  return rows;
+}
+
+async function addConnection(userId: string, projectId: string, config: McpServerConfig) {
+  const id = await transaction(async client => {
+    const { rows: [row] } = await client.query<{ id: string }>(
+      `INSERT INTO mcp_connections (project_id, name, transport, command, args, url, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (project_id, name) DO NOTHING
+       RETURNING id`,
+      [
+        projectId, config.name, config.transport, config.transport === 'stdio' ? config.command : null,
+        config.transport === 'stdio' ? config.args || [] : [], config.transport === 'stdio' ? null : config.url, userId,
+      ],
+    );
+    if (!row) return null;
+    const sealed = sealConnectionSecrets(projectId, row.id, { headers: config.headers || {}, env: config.env || {} });
+    await client.query(
+      `INSERT INTO mcp_connection_secrets (connection_id, key_version, wrapped_key, ciphertext, header_names, env_names)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [row.id, sealed.key_version, sealed.wrapped_key, sealed.ciphertext, sealed.header_names, sealed.env_names],
+    );
+    return row.id;
+  });
+  return id;
+}
+
+function errorDetail(error: unknown) {
+  if (error instanceof McpError) return { error: 'mcp_error', code: error.code, detail: error.message };
+  return { error: 'mcp_unavailable', detail: error instanceof Error ? error.message : String(error) };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleOptions(req, res)) return;
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  const projectId = (req.method === 'POST' ? req.body?.project_id : req.query.project_id) as string | undefined;
+  if (!projectId) return res.status(400).json({ error: 'Missing project_id' });
+  if (!(await db.isProjectMember(user.id, projectId))) return res.status(403).json({ error: 'Forbidden' });
+
+  if (req.method === 'GET') {
+    return res.status(200).json({ ok: true, connections: await listConnections(projectId) });
+  }
+
+  if (req.method === 'DELETE') {
+    if (!(await db.isProjectOwner(user.id, projectId))) {
+      return res.status(403).json({ error: 'Only the project owner can remove MCP servers' });
+    }
+    const { rowCount } = await query('DELETE FROM mcp_connections WHERE project_id = $1 AND id = $2', [projectId, req.query.id]);
+    if (!rowCount) return res.status(404).json({ error: 'MCP connection not found' });
+    return res.status(200).json({ ok: true });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { action, connection_id: connectionId } = req.body || {};
+
+  if (action === 'add') {
+    const config = req.body?.server as McpServerConfig;
+    const invalid = validateMcpServerConfig(config) ||
+      (config.transport === 'stdio' ? null : await remoteServerUrlProblem(String(config.url)));
+    if (invalid) return res.status(400).json({ error: invalid });
+    if (!(await db.isProjectOwner(user.id, projectId))) {
+      return res.status(403).json({ error: 'Only the project owner can add MCP servers' });
+    }
+    const id = await addConnection(user.id, projectId, config);
+    if (!id) return res.status(409).json({ error: `An MCP server named ${config.name} already exists` });
+    const connection = await refreshConnection(user.id, (await loadConnection(projectId, id))!);
+    return res.status(200).json({ ok: true, connection });
+  }
+
+  if (!connectionId) return res.status(400).json({ error: 'Missing connection_id' });
+  const loaded = await loadConnection(projectId, connectionId);
+  if (!loaded) return res.status(404).json({ error: 'MCP connection not found' });
+
+  try {
+    switch (action) {
+      case 'refresh':
+        return res.status(200).json({ ok: true, connection: await refreshConnection(user.id, loaded) });
+      case 'call_tool': {
+        const { tool, input } = req.body;
+        if (!tool) return res.status(400).json({ error: 'Missing tool' });
+        const result = await callConnectionTool({
+          userId: user.id, projectId, connectionId, toolName: tool, input: input || {}, agentRunId: req.body.agent_run_id,
+        });
+        return res.status(200).json({ ok: !result.isError, result });
+      }
+      case 'read_resource': {
+        if (!req.body.uri) return res.status(400).json({ error: 'Missing uri' });
+        const contents = await withConnection(user.id, loaded, open => readResource(open.request, req.body.uri));
+        return res.status(200).json({ ok: true, contents });
+      }
+      case 'get_prompt': {
+        if (!req.body.name) return res.status(400).json({ error: 'Missing name' });
+        const prompt = await withConnection(user.id, loaded, open => getPrompt(open.request, req.body.name, req.body.arguments || {}));
+        return res.status(200).json({ ok: true, prompt });
+      }
+      default:
+        return res.status(400).json({ error: `Unknown action: ${action}` });
+    }
+  } catch (error) {
+    return res.status(502).json(errorDetail(error));
+  }
+}
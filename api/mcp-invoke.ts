@@ -5,6 +5,8 @@ import type { VercelRequest, VercelResponse } from './_lib/vercel-types';
 import { handleOptions } from './_lib/cors';
 import { requireAuth } from './_lib/auth';
 import { db, query } from './_lib/db';
+import { evaluateMcpPermission, type McpPermissionRule, type McpRisk } from '../supabase/functions/_shared/mcp';
+import { checkToolInput, toolInputSchema } from '../supabase/functions/_shared/tool-schemas';
 
 const MORALIS_BASE = 'https://deep-index.moralis.io/api/v2';
 const HELIUS_BASE = 'https://api.helius.xyz/v0';
@@ -19,60 +21,15 @@ function stableHash(obj: unknown): string {
   return `fnv1a_${(h >>> 0).toString(16)}`;
 }
 
-interface JsonSchema {
-  type: 'object';
-  required?: string[];
-  properties: Record<string, { type: string }>;
-}
-
-function assertInput(schema: JsonSchema, input: Record<string, unknown>) {
-  if (typeof input !== 'object' || input === null) throw new Error('invalid_input:type');
-  for (const k of schema.required ?? []) {
-    if (!(k in input)) throw new Error(`invalid_input:missing:${k}`);
-  }
-  for (const [k, v] of Object.entries(schema.properties)) {
-    if (!(k in input)) continue;
-    const t = typeof input[k];
-    if (v.type === 'number' && t !== 'number') throw new Error(`invalid_input:type:${k}`);
-    if (v.type === 'string' && t !== 'string') throw new Error(`invalid_input:type:${k}`);
-    if (v.type === 'boolean' && t !== 'boolean') throw new Error(`invalid_input:type:${k}`);
-  }
-}
-
-type Effect = 'allow' | 'ask' | 'deny';
-type Risk = 'read' | 'simulate' | 'write';
+type Risk = McpRisk;
 
-async function evalPermission(args: { project_id: string; tool_name: string; risk: Risk }): Promise<{ effect: Effect; reason?: string }> {
+async function evalPermission(args: { project_id: string; tool_name: string; risk: Risk }) {
   const { project_id, tool_name, risk } = args;
-  const rules = await query(
+  const rules = await query<McpPermissionRule>(
     'SELECT rule_type, subject, effect, reason FROM mcp_permissions WHERE project_id = $1',
     [project_id]
   );
-  const list = (rules.rows ?? []) as Array<{ rule_type: string; subject: string; effect: Effect; reason?: string }>;
-
-  const toolRules = list.filter(r => r.rule_type === 'tool' && r.subject === tool_name);
-  const denyTool = toolRules.find(r => r.effect === 'deny');
-  if (denyTool) return { effect: 'deny', reason: denyTool.reason ?? 'Denied by tool rule' };
-  const allowTool = toolRules.find(r => r.effect === 'allow');
-  if (allowTool) return { effect: 'allow', reason: allowTool.reason ?? 'Allowed by tool rule' };
-
-  const riskRule = list.find(r => r.rule_type === 'risk' && r.subject === risk);
-  if (riskRule) return { effect: riskRule.effect as Effect, reason: riskRule.reason ?? `Rule matched risk=${risk}` };
-
-  const patterns = list.filter(r => r.rule_type === 'pattern');
-  for (const r of patterns) {
-    if (r.subject.startsWith('prefix:')) {
-      const pref = r.subject.slice('prefix:'.length);
-      if (tool_name.startsWith(pref)) return { effect: r.effect as Effect, reason: r.reason ?? `Matched prefix ${pref}` };
-    }
-    if (r.subject.startsWith('re:')) {
-      const re = new RegExp(r.subject.slice('re:'.length));
-      if (re.test(tool_name)) return { effect: r.effect as Effect, reason: r.reason ?? 'Matched regex' };
-    }
-  }
-
-  if (risk === 'read') return { effect: 'allow', reason: 'Default allow for read' };
-  return { effect: 'ask', reason: 'Default ask for simulate/write' };
+  return evaluateMcpPermission(rules.rows ?? [], tool_name, risk);
 }
 
 function moralisHeaders() {
@@ -136,73 +93,9 @@ async function heliusRPC(method: string, params: unknown[]) {
   return data?.result;
 }
 
-const moralisSchemas: Record<string, JsonSchema> = {
-  'moralis.getWalletTokenBalances': {
-    type: 'object', required: ['address', 'chain'],
-    properties: { address: { type: 'string' }, chain: { type: 'string' }, cursor: { type: 'string' } },
-  },
-  'moralis.getWalletNFTs': {
-    type: 'object', required: ['address', 'chain'],
-    properties: { address: { type: 'string' }, chain: { type: 'string' }, cursor: { type: 'string' }, limit: { type: 'number' } },
-  },
-  'moralis.getWalletTokenTransfers': {
-    type: 'object', required: ['address', 'chain'],
-    properties: { address: { type: 'string' }, chain: { type: 'string' }, cursor: { type: 'string' }, limit: { type: 'number' } },
-  },
-  'moralis.getTokenPrice': {
-    type: 'object', required: ['address', 'chain'],
-    properties: { address: { type: 'string' }, chain: { type: 'string' } },
-  },
-  'moralis.getNFTMetadata': {
-    type: 'object', required: ['address', 'token_id', 'chain'],
-    properties: { address: { type: 'string' }, token_id: { type: 'string' }, chain: { type: 'string' } },
-  },
-  'moralis.getContractEvents': {
-    type: 'object', required: ['address', 'chain', 'topic'],
-    properties: { address: { type: 'string' }, chain: { type: 'string' }, topic: { type: 'string' }, limit: { type: 'number' } },
-  },
-  'moralis.resolveAddress': {
-    type: 'object', required: ['address'],
-    properties: { address: { type: 'string' } },
-  },
-};
-
-const heliusSchemas: Record<string, JsonSchema> = {
-  'helius.getParsedTransaction': {
-    type: 'object', required: ['signature'],
-    properties: { signature: { type: 'string' } },
-  },
-  'helius.getAccountState': {
-    type: 'object', required: ['pubkey'],
-    properties: { pubkey: { type: 'string' } },
-  },
-  'helius.getProgramAccounts': {
-    type: 'object', required: ['programId'],
-    properties: { programId: { type: 'string' } },
-  },
-  'helius.getNFTMetadata': {
-    type: 'object', required: ['mint'],
-    properties: { mint: { type: 'string' } },
-  },
-  'helius.streamWalletActivity': {
-    type: 'object', required: ['wallet'],
-    properties: { wallet: { type: 'string' }, type: { type: 'string' }, cursor: { type: 'string' } },
-  },
-  'helius.getBalance': {
-    type: 'object', required: ['pubkey'],
-    properties: { pubkey: { type: 'string' } },
-  },
-  'helius.getTokenAccounts': {
-    type: 'object', required: ['owner'],
-    properties: { owner: { type: 'string' } },
-  },
-};
-
 async function invokeMoralisTool(args: { tool_name: string; input: Record<string, unknown>; config: Cfg }) {
   const { tool_name, input, config } = args;
-  const schema = moralisSchemas[tool_name];
-  if (!schema) throw new Error(`unknown_tool:${tool_name}`);
-  assertInput(schema, input);
+  if (!tool_name.startsWith('moralis.') || !toolInputSchema(tool_name)) throw new Error(`unknown_tool:${tool_name}`);
 
   const cfg = config ?? {};
   const maxPage = cfg.max_page_size ?? 100;
@@ -243,9 +136,7 @@ async function invokeMoralisTool(args: { tool_name: string; input: Record<string
 
 async function invokeHeliusTool(args: { tool_name: string; input: Record<string, unknown> }) {
   const { tool_name, input } = args;
-  const schema = heliusSchemas[tool_name];
-  if (!schema) throw new Error(`unknown_tool:${tool_name}`);
-  assertInput(schema, input);
+  if (!tool_name.startsWith('helius.') || !toolInputSchema(tool_name)) throw new Error(`unknown_tool:${tool_name}`);
 
   switch (tool_name) {
     case 'helius.getParsedTransaction':
@@ -309,6 +200,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const pms = pmsResult.rows[0];
   if (!pms || !pms.is_enabled) return res.status(403).json({ ok: false, error: 'server_disabled' });
 
+  const invalidInput = checkToolInput(tool_name, input);
+  if (invalidInput) return res.status(400).json(invalidInput);
+
   const perm = await evalPermission({ project_id, tool_name, risk: risk as Risk });
   const inputHash = stableHash({ project_id, server_key, tool_name, risk, input });
   const auditBase = { project_id, user_id: user.id, server_key, tool_name, risk, input_hash: inputHash };
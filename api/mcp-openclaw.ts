@@ -4,6 +4,7 @@
 import type { VercelRequest, VercelResponse } from './_lib/vercel-types';
 import { handleOptions } from './_lib/cors';
 import { requireAuth } from './_lib/auth';
+import { checkToolInput } from '../supabase/functions/_shared/tool-schemas';
 
 async function openclawFetch(baseUrl: string, path: string, apiKey: string, options: RequestInit = {}) {
   const url = `${baseUrl.replace(/\/+$/, '')}${path}`;
@@ -37,6 +38,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (!tool || !openclaw_url || !openclaw_api_key) {
       return res.status(400).json({ error: "missing 'tool', 'openclaw_url', or 'openclaw_api_key'" });
     }
+    const invalidInput = checkToolInput(tool, input);
+    if (invalidInput) return res.status(400).json(invalidInput);
 
     const baseUrl = openclaw_url as string;
     const apiKey = openclaw_api_key as string;
@@ -0,0 +1,157 @@
+/**
+ * Build replay endpoint
+ * Re-executes an attested build run from its input snapshot in a fresh
+ * runner workspace, compares exit code and log digests with the attestation
+ * and records the reproducibility verdict.
+ */
+import { createHash } from 'crypto';
+import type { VercelRequest, VercelResponse } from './_lib/vercel-types';
+import { handleOptions } from './_lib/cors';
+import { requireAuth } from './_lib/auth';
+import { db, query } from './_lib/db';
+import {
+  RUNNER_URL, RunnerRequestError, runnerHeaders, openRunnerSession, closeRunnerSession, getRunnerFingerprint,
+} from './_lib/runner';
+import { compareReplay, MAX_LOG_CHARS } from '../supabase/functions/_shared/attestation';
+
+/** Leaves the function's 60s limit room for checkout and bookkeeping */
+const REPLAY_TIMEOUT_S = 45;
+
+interface AttestedRun {
+  id: string;
+  project_id: string;
+  command: string;
+  input_snapshot_id: string | null;
+  exit_code: number | null;
+  attestation_hash: string;
+  runner_fingerprint: Record<string, unknown>;
+  logs_hashes: { stdout_hash?: string; stderr_hash?: string };
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+async function emitEvent(projectId: string, userId: string, eventType: string, payload: Record<string, unknown>) {
+  await query(
+    `INSERT INTO project_events (project_id, actor_type, actor_id, event_type, payload) VALUES ($1, 'user', $2, $3, $4)`,
+    [projectId, userId, eventType, JSON.stringify(payload)],
+  ).catch(() => undefined);
+}
+
+/** The attested run's `env`/`runtime_type`, when its runner recorded them, so the replay runs the same way. */
+function replayEnvironment(fingerprint: Record<string, unknown>) {
+  const env = fingerprint.env && typeof fingerprint.env === 'object' && !Array.isArray(fingerprint.env)
+    ? Object.fromEntries(Object.entries(fingerprint.env).filter(([, v]) => typeof v === 'string')) as Record<string, string>
+    : undefined;
+  const runtimeType = typeof fingerprint.runtime_type === 'string' ? fingerprint.runtime_type : undefined;
+  return { env, runtimeType };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleOptions(req, res)) return;
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  const buildRunId = (req.method === 'GET' ? req.query.build_run_id : req.body?.build_run_id) as string | undefined;
+  if (!buildRunId) return res.status(400).json({ error: 'Missing build_run_id' });
+
+  const { rows: [run] } = await query<AttestedRun>(
+    `SELECT br.id, br.project_id, br.command, br.input_snapshot_id, br.exit_code,
+            ba.attestation_hash, ba.runner_fingerprint, ba.logs_hashes
+     FROM build_runs br JOIN build_attestations ba ON ba.build_run_id = br.id
+     WHERE br.id = $1`,
+    [buildRunId],
+  );
+  if (!run) return res.status(404).json({ error: 'Attested run not found' });
+  if (!(await db.isProjectMember(user.id, run.project_id))) return res.status(403).json({ error: 'Forbidden' });
+
+  if (req.method === 'GET') {
+    const { rows } = await query(
+      'SELECT * FROM build_replays WHERE build_run_id = $1 ORDER BY created_at DESC LIMIT 20',
+      [buildRunId],
+    );
+    return res.status(200).json({ ok: true, replays: rows });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  if (!RUNNER_URL) {
+    return res.status(503).json({ error: 'runner_unavailable', detail: 'RUNNER_URL not configured' });
+  }
+  if (!run.input_snapshot_id) return res.status(400).json({ error: 'Run has no input snapshot to replay' });
+
+  const { rows: files } = await query<{ path: string; content: string }>(
+    `SELECT pi.path, b.content FROM ca_path_index pi JOIN ca_blobs b ON b.hash = pi.blob_hash
+     WHERE pi.snapshot_id = $1`,
+    [run.input_snapshot_id],
+  );
+  if (files.length === 0) return res.status(409).json({ error: 'Input snapshot is no longer stored' });
+
+  const { rows: [replay] } = await query<{ id: string }>(
+    'INSERT INTO build_replays (project_id, build_run_id, user_id) VALUES ($1, $2, $3) RETURNING id',
+    [run.project_id, run.id, user.id],
+  );
+  await emitEvent(run.project_id, user.id, 'replay.requested', {
+    build_run_id: run.id, replay_id: replay.id, attestation_hash: run.attestation_hash,
+  });
+
+  const headers = runnerHeaders(user.id, run.project_id);
+  const { env, runtimeType } = replayEnvironment(run.runner_fingerprint || {});
+  let sessionId: string | null = null;
+
+  try {
+    sessionId = await openRunnerSession(headers, {
+      projectId: run.project_id, runtimeType, userId: user.id, files, ephemeral: true,
+    });
+    const execResp = await fetch(`${RUNNER_URL}/v1/sessions/${sessionId}/exec`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ command: run.command, timeout_s: REPLAY_TIMEOUT_S, env }),
+    });
+    const data = await execResp.json().catch(() => null) as
+      { stdout?: string; stderr?: string; exit_code?: number; duration_ms?: number; error?: string } | null;
+    if (!execResp.ok || !data) throw new Error(data?.error || `Runner returned ${execResp.status}`);
+    const fingerprint = await getRunnerFingerprint(headers);
+
+    const outcome = {
+      exitCode: data.exit_code ?? null,
+      stdoutHash: sha256((data.stdout || '').slice(0, MAX_LOG_CHARS)),
+      stderrHash: sha256((data.stderr || '').slice(0, MAX_LOG_CHARS)),
+      runnerFingerprint: fingerprint,
+    };
+    const { verdict, mismatches, environmentDrift } = compareReplay({
+      exitCode: run.exit_code,
+      stdoutHash: run.logs_hashes?.stdout_hash || '',
+      stderrHash: run.logs_hashes?.stderr_hash || '',
+      runnerFingerprint: run.runner_fingerprint || {},
+    }, outcome);
+
+    const { rows: [row] } = await query(
+      `UPDATE build_replays SET status = 'done', verdict = $2, exit_code = $3, stdout_hash = $4, stderr_hash = $5,
+         duration_ms = $6, runner_fingerprint = $7, mismatches = $8, environment_drift = $9, finished_at = NOW()
+       WHERE id = $1 RETURNING *`,
+      [
+        replay.id, verdict, outcome.exitCode, outcome.stdoutHash, outcome.stderrHash, data.duration_ms ?? null,
+        JSON.stringify(fingerprint), JSON.stringify(mismatches), JSON.stringify(environmentDrift),
+      ],
+    );
+    await emitEvent(run.project_id, user.id, 'replay.done', {
+      build_run_id: run.id, replay_id: replay.id, verdict, mismatches, attestation_hash: run.attestation_hash,
+    });
+    return res.status(200).json({ ok: true, replay: row });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await query(
+      `UPDATE build_replays SET status = 'error', error = $2, finished_at = NOW() WHERE id = $1`,
+      [replay.id, message],
+    );
+    await emitEvent(run.project_id, user.id, 'replay.done', { build_run_id: run.id, replay_id: replay.id, error: message });
+    if (error instanceof RunnerRequestError) return res.status(error.status).json(error.body);
+    return res.status(502).json({ error: 'runner_unavailable', detail: message });
+  } finally {
+    if (sessionId) await closeRunnerSession(headers, sessionId);
+  }
+}
@@ -5,21 +5,27 @@
 import type { VercelRequest, VercelResponse } from './_lib/vercel-types';
 import { handleOptions } from './_lib/cors';
 import { requireAuth } from './_lib/auth';
-
-const RUNNER_URL = process.env.RUNNER_URL || process.env.VITE_RUNNER_URL;
-const RUNNER_SHARED_SECRET = process.env.RUNNER_SHARED_SECRET || '';
-
-function runnerHeaders(userId: string, projectId?: string) {
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'x-user-id': userId,
-  };
-  if (projectId) headers['x-project-id'] = projectId;
-  if (RUNNER_SHARED_SECRET) headers['Authorization'] = `Bearer ${RUNNER_SHARED_SECRET}`;
-  return headers;
+import { RUNNER_URL, RunnerRequestError, runnerHeaders, openRunnerSession } from './_lib/runner';
+import { projectArtifactGlobs, storeArtifacts, type CollectedArtifact } from './_lib/artifacts';
+
+type DoneEvent = Record<string, unknown>;
+
+function parseDoneEvent(segment: string): DoneEvent | null {
+  for (const line of segment.split('\n')) {
+    if (!line.startsWith('data: ')) continue;
+    try {
+      const parsed = JSON.parse(line.slice(6));
+      if (parsed?.type === 'done') return parsed;
+    } catch { /* not JSON */ }
+  }
+  return null;
 }
 
-async function pipeStream(resp: Response, res: VercelResponse) {
+/**
+ * Pipe the runner's SSE stream to the client. The `done` event goes through
+ * `finishDone` first, which can store what it carries and rewrite it.
+ */
+async function pipeStream(resp: Response, res: VercelResponse, finishDone: (event: DoneEvent) => Promise<DoneEvent>) {
   res.status(resp.status);
   res.setHeader('Content-Type', resp.headers.get('content-type') || 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache');
@@ -32,11 +38,21 @@ async function pipeStream(resp: Response, res: VercelResponse) {
   }
 
   const decoder = new TextDecoder();
+  let buffer = '';
   while (true) {
     const { done, value } = await reader.read();
     if (done) break;
-    res.write(decoder.decode(value));
+    buffer += decoder.decode(value, { stream: true });
+
+    let idx: number;
+    while ((idx = buffer.indexOf('\n\n')) !== -1) {
+      const segment = buffer.slice(0, idx + 2);
+      buffer = buffer.slice(idx + 2);
+      const doneEvent = parseDoneEvent(segment);
+      res.write(doneEvent ? `data: ${JSON.stringify(await finishDone(doneEvent))}\n\n` : segment);
+    }
   }
+  if (buffer) res.write(buffer);
   res.end();
 }
 
@@ -55,7 +71,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { command, cwd, timeout_s, project_id, runtime_type, files, env } = req.body || {};
+    const { command, cwd, timeout_s, project_id, runtime_type, files, env, limits } = req.body || {};
     if (!command || typeof command !== 'string') {
       return res.status(400).json({ error: 'Missing command' });
     }
@@ -66,37 +82,35 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const headers = runnerHeaders(user.id, project_id);
 
-    const sessionResp = await fetch(`${RUNNER_URL}/v1/sessions`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({ project_id, runtime_type: runtime_type || 'node', user_id: user.id }),
-    });
-
-    if (!sessionResp.ok) {
-      const errText = await sessionResp.text();
-      return res.status(502).json({ error: 'runner_unavailable', detail: errText.slice(0, 200) });
-    }
-
-    const sessionData = await sessionResp.json() as { session_id: string };
-    const sessionId = sessionData.session_id;
-
-    if (Array.isArray(files) && files.length > 0) {
-      await fetch(`${RUNNER_URL}/v1/sessions/${sessionId}/sync`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ files }),
-      });
-    }
+    const sessionId = await openRunnerSession(headers, { projectId: project_id, runtimeType: runtime_type, userId: user.id, files, limits });
+    const artifactGlobs = await projectArtifactGlobs(user.id, project_id);
 
     const execResp = await fetch(`${RUNNER_URL}/v1/sessions/${sessionId}/exec`, {
       method: 'POST',
       headers,
-      body: JSON.stringify({ command, cwd, timeout_s, env, stream: true, report_changed_files: true }),
+      body: JSON.stringify({
+        command, cwd, timeout_s, env, stream: true, report_changed_files: true,
+        collect_artifacts: artifactGlobs.length > 0 ? artifactGlobs : undefined,
+      }),
     });
 
+    // Collected files go to artifact storage; the client only sees what was stored
+    const captureArtifacts = async (collected: CollectedArtifact[] | undefined, skipped?: Array<{ path: string; reason: string }>) => {
+      if (!collected) return {};
+      try {
+        const capture = await storeArtifacts({ projectId: project_id, userId: user.id, command, globs: artifactGlobs, collected, skipped });
+        return { artifacts: capture.artifacts, artifactsSkipped: capture.skipped, artifactCaptureId: capture.id };
+      } catch (err) {
+        return { artifactsError: err instanceof Error ? err.message : 'Failed to store artifacts' };
+      }
+    };
+
     const contentType = execResp.headers.get('content-type') || '';
     if (contentType.includes('text/event-stream')) {
-      return pipeStream(execResp, res);
+      return pipeStream(execResp, res, async ({ artifacts, artifactsSkipped, ...event }) => ({
+        ...event,
+        ...(await captureArtifacts(artifacts as CollectedArtifact[] | undefined, artifactsSkipped as Array<{ path: string; reason: string }>)),
+      }));
     }
 
     const data = await execResp.json().catch(() => null);
@@ -112,8 +126,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       cwd: data.cwd || cwd || '/workspace',
       durationMs: data.duration_ms ?? data.durationMs ?? 0,
       changedFiles: data.changed_files || data.changedFiles,
+      limitExceeded: data.limit_exceeded || undefined,
+      ...(await captureArtifacts(data.artifacts, data.artifacts_skipped)),
     });
   } catch (error) {
+    if (error instanceof RunnerRequestError) return res.status(error.status).json(error.body);
     return res.status(502).json({ error: 'runner_unavailable', detail: error instanceof Error ? error.message : 'Unknown error' });
   }
 }
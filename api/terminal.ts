@@ -0,0 +1,56 @@
+/**
+ * Interactive terminal endpoint
+ * Opens a PTY in the user's runner workspace and returns the WebSocket URL
+ * the browser attaches to. The URL carries a per-terminal token, so the
+ * runner's shared secret never leaves the server.
+ */
+import type { VercelRequest, VercelResponse } from './_lib/vercel-types';
+import { handleOptions } from './_lib/cors';
+import { requireAuth } from './_lib/auth';
+import { RUNNER_URL, RUNNER_PUBLIC_URL, RunnerRequestError, runnerHeaders, openRunnerSession } from './_lib/runner';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleOptions(req, res)) return;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  if (!RUNNER_URL || !RUNNER_PUBLIC_URL) {
+    return res.status(503).json({ error: 'runner_unavailable', detail: 'RUNNER_URL not configured' });
+  }
+
+  try {
+    const { project_id, runtime_type, files, cols, rows, cwd, limits } = req.body || {};
+    if (!project_id) {
+      return res.status(400).json({ error: 'Missing project_id' });
+    }
+
+    const headers = runnerHeaders(user.id, project_id);
+    const sessionId = await openRunnerSession(headers, { projectId: project_id, runtimeType: runtime_type, userId: user.id, files, limits });
+
+    const ptyResp = await fetch(`${RUNNER_URL}/v1/sessions/${sessionId}/pty`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ cols, rows, cwd }),
+    });
+    const data = await ptyResp.json().catch(() => null) as { pty_id?: string; token?: string; error?: string } | null;
+    if (!data) {
+      return res.status(502).json({ error: 'runner_unavailable', detail: 'Invalid runner response' });
+    }
+    if (!ptyResp.ok || !data.pty_id || !data.token) {
+      return res.status(ptyResp.ok ? 502 : ptyResp.status).json({ error: data.error || 'Failed to open terminal' });
+    }
+
+    const url = new URL(`/v1/pty/${data.pty_id}`, RUNNER_PUBLIC_URL);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    url.searchParams.set('token', data.token);
+    return res.status(200).json({ session_id: sessionId, pty_id: data.pty_id, url: url.toString() });
+  } catch (error) {
+    if (error instanceof RunnerRequestError) return res.status(error.status).json(error.body);
+    return res.status(502).json({ error: 'runner_unavailable', detail: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
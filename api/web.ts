@@ -0,0 +1,92 @@
+/**
+ * Web tools endpoint
+ * web_fetch returns a page as size-capped markdown; web_search goes through
+ * the configured search provider. Both are cached per instance.
+ */
+import type { VercelRequest, VercelResponse } from './_lib/vercel-types';
+import { handleOptions } from './_lib/cors';
+import { requireAuth } from './_lib/auth';
+import {
+  createTtlCache, domainDecision, fetchReadable, formatSearchResults, getSearchProvider, resolveHostAddresses, serverDeniedDomains,
+  WEB_FETCH_MAX_CHARS, WEB_SEARCH_MAX_RESULTS,
+} from './_lib/web';
+import type { WebDomainPolicy, WebFetchResult, WebSearchResult } from './_lib/web';
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 15_000;
+
+const fetchCache = createTtlCache<WebFetchResult>(CACHE_TTL_MS);
+const searchCache = createTtlCache<WebSearchResult[]>(CACHE_TTL_MS);
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleOptions(req, res)) return;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireAuth(req, res);
+  if (!user) return;
+
+  const startedAt = Date.now();
+  try {
+    const { tool, input = {}, policy = {} } = req.body || {};
+    const domainPolicy: WebDomainPolicy = {
+      allowedDomains: Array.isArray(policy.allowedDomains) ? policy.allowedDomains : [],
+      deniedDomains: [...(Array.isArray(policy.deniedDomains) ? policy.deniedDomains : []), ...serverDeniedDomains()],
+    };
+
+    if (tool === 'web_fetch') {
+      const { url } = input;
+      if (!url || typeof url !== 'string') return res.status(400).json({ error: 'Missing url' });
+      if (domainDecision(url, domainPolicy) === 'deny') {
+        return res.status(403).json({ error: `Fetching ${url} is not allowed by the domain policy` });
+      }
+      const maxChars = Math.min(Number(input.max_chars) || WEB_FETCH_MAX_CHARS, WEB_FETCH_MAX_CHARS);
+      const key = `${url}\n${maxChars}`;
+      let page = fetchCache.get(key);
+      const cached = !!page;
+      if (!page) {
+        page = await fetchReadable(url, {
+          fetch, policy: domainPolicy, maxChars, resolveHost: resolveHostAddresses, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+        fetchCache.set(key, page);
+      } else if (domainDecision(page.url, domainPolicy) === 'deny') {
+        // The cache is shared across policies, so a hit that landed on a host this caller denies is refused
+        return res.status(403).json({ error: `Fetching ${page.url} is not allowed by the domain policy` });
+      }
+      const heading = page.title ? `# ${page.title}\n\nSource: ${page.url}\n\n` : `Source: ${page.url}\n\n`;
+      return res.status(200).json({
+        ok: true, url: page.url, title: page.title, truncated: page.truncated, cached,
+        content: heading + page.markdown, duration_ms: Date.now() - startedAt,
+      });
+    }
+
+    if (tool === 'web_search') {
+      const { query } = input;
+      if (!query || typeof query !== 'string') return res.status(400).json({ error: 'Missing query' });
+      const provider = getSearchProvider();
+      if (!provider) {
+        return res.status(503).json({ error: 'web_search_unavailable', detail: 'No search provider configured' });
+      }
+      const limit = Math.min(Number(input.limit) || WEB_SEARCH_MAX_RESULTS, WEB_SEARCH_MAX_RESULTS);
+      const key = `${provider.name}\n${limit}\n${query.trim().toLowerCase()}`;
+      let found = searchCache.get(key);
+      const cached = !!found;
+      if (!found) {
+        found = await provider.search(query, limit);
+        searchCache.set(key, found);
+      }
+      // Cached results are shared across users, so filter per request
+      const results = found.filter(r => domainDecision(r.url, domainPolicy) !== 'deny');
+      return res.status(200).json({
+        ok: true, results, cached,
+        content: formatSearchResults(query, results), duration_ms: Date.now() - startedAt,
+      });
+    }
+
+    return res.status(400).json({ error: `Unsupported web tool: ${tool}` });
+  } catch (error) {
+    return res.status(502).json({ error: error instanceof Error ? error.message : 'Web request failed' });
+  }
+}
@@ -1,22 +1,96 @@
 import cors from 'cors';
 import express from 'express';
 import morgan from 'morgan';
-import { spawn } from 'node:child_process';
+import { execFile, spawn } from 'node:child_process';
 import crypto from 'node:crypto';
 import fs from 'node:fs/promises';
+import os from 'node:os';
 import path from 'node:path';
+import pty from 'node-pty';
+import { WebSocketServer } from 'ws';
+// Shared with the IDE's local tool executor so search results match; Node 24 strips the types
+import { listFiles, grepFiles, createGlobMatcher } from '../../supabase/functions/_shared/search.ts';
+import { buildStructuredEdit, applyPatchesToFiles, describePatchFailures, serializePatch } from '../../supabase/functions/_shared/patch.ts';
+import {
+  GIT_STATUS_ARGS, GIT_NUMSTAT_ARGS, GIT_LOG_FORMAT, GIT_BRANCH_FORMAT,
+  parseStatus, parseNumstat, parseLog, parseBranches, isValidRefName, gitToolRefs, gitCheckoutArgs,
+} from '../../supabase/functions/_shared/git.ts';
+import {
+  PTY_DEFAULT_COLS, PTY_DEFAULT_ROWS, PTY_MAX_COLS, PTY_MAX_ROWS, PTY_SIGNAL_CHARS,
+  parseClientMessage, createScrollback,
+} from '../../supabase/functions/_shared/pty.ts';
+import {
+  DEFAULT_RESOURCE_LIMITS, clampLimits, cgroupSettings, isolationPrefix, parseCgroupEvents, classifyExit,
+} from '../../supabase/functions/_shared/limits.ts';
+import { MAX_ARTIFACT_BYTES, validateArtifactGlobs, selectArtifacts } from '../../supabase/functions/_shared/attestation.ts';
+import { DEFAULT_MAX_CONCURRENCY, HEARTBEAT_INTERVAL_MS, heartbeatSigningInput } from '../../supabase/functions/_shared/mesh.ts';
+import { CONNECTION_CLOSED, McpError, createMcpClient, createLineDecoder, encodeLine, validateMcpServerConfig } from '../../supabase/functions/_shared/mcp.ts';
 
 const app = express();
 
 const PORT = Number(process.env.PORT || 8787);
 const DATA_DIR = process.env.RUNNER_DATA_DIR || '/var/lib/started-runner';
+// The runner's own state, such as its mesh credentials; outside DATA_DIR, which holds the session workspaces
+const STATE_DIR = process.env.RUNNER_STATE_DIR || '/var/lib/started-runner-state';
 const SESSION_TTL_MS = Number(process.env.RUNNER_SESSION_TTL_MS || 30 * 60 * 1000);
 const CLEANUP_INTERVAL_MS = Number(process.env.RUNNER_CLEANUP_INTERVAL_MS || 5 * 60 * 1000);
 const PERSIST_WORKSPACES = (process.env.RUNNER_PERSIST_WORKSPACES || 'true') === 'true';
+// A draining runner keeps serving its sessions but refuses new ones, so the mesh schedules elsewhere
+let draining = (process.env.RUNNER_DRAINING || 'false') === 'true';
 const SHARED_SECRET = process.env.RUNNER_SHARED_SECRET || '';
+// Joining a runner mesh: the runner-mesh function's URL and a one-time token from create_enrollment_token.
+// Once enrolled the credentials live in RUNNER_STATE_DIR and the token is no longer needed.
+const MESH_URL = process.env.RUNNER_MESH_URL || '';
+const MESH_ENROLL_TOKEN = process.env.RUNNER_ENROLL_TOKEN || '';
+// How the mesh reaches this runner
+const MESH_BASE_URL = process.env.RUNNER_BASE_URL || '';
+const MESH_NODE_NAME = process.env.RUNNER_NODE_NAME || os.hostname();
+const MESH_REGION = process.env.RUNNER_REGION || '';
+const MESH_RUNTIMES = (process.env.RUNNER_RUNTIMES || 'node,python,shell').split(',').map(r => r.trim()).filter(Boolean);
+const MAX_CONCURRENCY = Number(process.env.RUNNER_MAX_CONCURRENCY || DEFAULT_MAX_CONCURRENCY);
+// { node_id, node_secret, private_key, mesh_url, heartbeat_interval_ms } once enrolled
+let meshNode = null;
 const RATE_LIMIT_PER_MIN = Number(process.env.RUNNER_RATE_LIMIT_PER_MIN || 60);
 const RATE_LIMIT_BURST = Number(process.env.RUNNER_RATE_LIMIT_BURST || 20);
 const MAX_OUTPUT_BYTES = Number(process.env.RUNNER_MAX_OUTPUT_BYTES || 5 * 1024 * 1024);
+const SEARCH_MAX_FILE_BYTES = Number(process.env.RUNNER_SEARCH_MAX_FILE_BYTES || 1024 * 1024);
+// Never part of the IDE file tree, so searching them would diverge from local results
+const SEARCH_IGNORED_DIRS = new Set(['.git', 'node_modules']);
+const ARTIFACT_MAX_BYTES = Number(process.env.RUNNER_ARTIFACT_MAX_BYTES || MAX_ARTIFACT_BYTES);
+const EDIT_TOOLS = new Set(['edit_file', 'create_file', 'delete_file', 'move_file']);
+const GIT_TIMEOUT_MS = Number(process.env.RUNNER_GIT_TIMEOUT_MS || 30 * 1000);
+// Used for agent commits when the workspace repo has no identity configured
+const GIT_AUTHOR_NAME = process.env.RUNNER_GIT_AUTHOR_NAME || 'Started Agent';
+const GIT_AUTHOR_EMAIL = process.env.RUNNER_GIT_AUTHOR_EMAIL || 'agent@started.dev';
+const PTY_SHELL = process.env.RUNNER_PTY_SHELL || 'bash';
+const PTY_TERM = process.env.RUNNER_PTY_TERM || 'xterm-256color';
+const PTY_SCROLLBACK_CHARS = Number(process.env.RUNNER_PTY_SCROLLBACK_CHARS || 256 * 1024);
+// How long a terminal with no attached client survives, so a reload can reattach
+const PTY_DETACHED_TTL_MS = Number(process.env.RUNNER_PTY_DETACHED_TTL_MS || 10 * 60 * 1000);
+const MCP_REQUEST_TIMEOUT_MS = Number(process.env.RUNNER_MCP_REQUEST_TIMEOUT_MS || 60 * 1000);
+// stderr kept per MCP server, to explain why one failed to start
+const MCP_STDERR_TAIL_CHARS = 4096;
+// What the API may ask of a stdio MCP server; the handshake is the runner's own
+const MCP_METHODS = new Set([
+  'ping', 'tools/list', 'tools/call', 'resources/list', 'resources/templates/list', 'resources/read', 'prompts/list', 'prompts/get',
+]);
+// Upper bounds for every session; a session may ask for less, never more
+const RUNNER_LIMITS = {
+  ...DEFAULT_RESOURCE_LIMITS,
+  cpuCount: Number(process.env.RUNNER_CPU_COUNT || DEFAULT_RESOURCE_LIMITS.cpuCount),
+  memoryMb: Number(process.env.RUNNER_MEMORY_MB || DEFAULT_RESOURCE_LIMITS.memoryMb),
+  timeoutS: Number(process.env.RUNNER_TIMEOUT_S || DEFAULT_RESOURCE_LIMITS.timeoutS),
+  diskMb: Number(process.env.RUNNER_DISK_MB || DEFAULT_RESOURCE_LIMITS.diskMb),
+  fileSizeMb: Number(process.env.RUNNER_FILE_SIZE_MB || DEFAULT_RESOURCE_LIMITS.fileSizeMb),
+  maxProcesses: Number(process.env.RUNNER_MAX_PROCESSES || DEFAULT_RESOURCE_LIMITS.maxProcesses),
+  // Sessions can still turn network off; false turns it off for all of them
+  networkEnabled: (process.env.RUNNER_NETWORK_ENABLED || 'true') === 'true',
+};
+// A delegated cgroup v2 directory the runner may create session cgroups under; without one,
+// processes are refused, since nothing else can hold a per-session process limit
+const CGROUP_ROOT = process.env.RUNNER_CGROUP_ROOT || '';
+const DISK_POLL_MS = Number(process.env.RUNNER_DISK_POLL_MS || 5000);
+const MB = 1024 * 1024;
 
 app.use(cors());
 app.use(express.json({ limit: '10mb' }));
@@ -30,9 +104,14 @@ const metrics = {
   totalErrors: 0,
   totalUploads: 0,
   totalSyncs: 0,
+  totalTerminals: 0,
 };
 
 const rateState = new Map();
+// Interactive terminals by id, across sessions; WebSocket upgrades look them up here
+const terminals = new Map();
+// stdio MCP servers by id, across sessions
+const mcpServers = new Map();
 
 const BLOCKED_COMMANDS = [
   /\brm\s+-rf\s+\/$/i,
@@ -62,6 +141,20 @@ function resolveWorkspacePath(workspacePath, filePath) {
   return resolved;
 }
 
+function normalizeWorkspacePath(filePath) {
+  const value = String(filePath || '');
+  return value.startsWith('/') ? value : `/${value}`;
+}
+
+// The runner-side twin of isProtectedPath in src/lib/tool-executor.ts. `..`
+// is refused outright, and .git is looked for in the resolved path so that
+// `/./.git` and the like are caught too.
+function isProtectedWorkspacePath(workspacePath, filePath) {
+  if (filePath.split('/').includes('..')) return true;
+  const relative = path.relative(workspacePath, resolveWorkspacePath(workspacePath, filePath));
+  return relative === '' || relative.split(path.sep)[0] === '.git';
+}
+
 function getRateKey(req) {
   const userId = req.headers['x-user-id'] || 'anonymous';
   const projectId = req.headers['x-project-id'] || 'default';
@@ -89,11 +182,24 @@ function rateLimit(req, res, next) {
   next();
 }
 
+function tokenMatches(token, expected) {
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// API routes present the shared secret; the mesh presents the credential it issued this node at enrollment
 function requireAuth(req, res, next) {
-  if (!SHARED_SECRET) return next();
+  // A runner told to enroll serves nothing until it has the node credential to check calls against
+  if (MESH_ENROLL_TOKEN && !meshNode) {
+    res.status(503).json({ error: 'Runner is not enrolled in the mesh yet' });
+    return;
+  }
+  const accepted = [SHARED_SECRET, meshNode?.node_secret].filter(Boolean);
+  if (accepted.length === 0) return next();
   const auth = req.headers.authorization || '';
   const token = auth.startsWith('Bearer ') ? auth.slice(7) : '';
-  if (!token || token !== SHARED_SECRET) {
+  if (!token || !accepted.some(expected => tokenMatches(token, expected))) {
     res.status(401).json({ error: 'Unauthorized' });
     return;
   }
@@ -104,27 +210,41 @@ async function ensureDir(dirPath) {
   await fs.mkdir(dirPath, { recursive: true });
 }
 
+// Environment for processes that run workspace code (git included, for hooks): the runner's
+// RUNNER_* settings, its secrets among them, stay out
+function workspaceEnv(env) {
+  const inherited = Object.fromEntries(Object.entries(process.env).filter(([key]) => !key.startsWith('RUNNER_')));
+  return { ...inherited, ...env };
+}
+
 function hashContent(content) {
   return crypto.createHash('sha256').update(content).digest('hex');
 }
 
 function getSessionByProject(projectId, userId) {
   for (const session of sessions.values()) {
-    if (session.projectId === projectId && session.userId === userId && session.status === 'ready') {
+    if (session.projectId === projectId && session.userId === userId && session.status === 'ready' && !session.ephemeral) {
       return session;
     }
   }
   return null;
 }
 
-function createSession({ projectId, runtimeType, userId }) {
+/**
+ * Ephemeral sessions get an empty workspace of their own that is never
+ * reused and is removed with the session, e.g. for replaying a build.
+ */
+function createSession({ projectId, runtimeType, userId, limits, ephemeral = false }) {
   const id = `session-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`;
-  const workspacePath = path.resolve(DATA_DIR, sanitizeSegment(projectId), sanitizeSegment(userId || 'user'));
+  const workspacePath = ephemeral
+    ? path.resolve(DATA_DIR, sanitizeSegment(projectId), '.ephemeral', id)
+    : path.resolve(DATA_DIR, sanitizeSegment(projectId), sanitizeSegment(userId || 'user'));
   const session = {
     id,
     projectId,
     runtimeType,
     userId,
+    ephemeral,
     workspacePath,
     cwd: workspacePath,
     status: 'ready',
@@ -132,6 +252,12 @@ function createSession({ projectId, runtimeType, userId }) {
     lastActivityAt: nowMs(),
     files: new Map(),
     activeProcess: null,
+    activeCgroup: null,
+    terminals: new Set(),
+    // stdio MCP servers by name
+    mcpServers: new Map(),
+    limits: clampLimits(limits, RUNNER_LIMITS),
+    cgroup: null,
   };
   sessions.set(id, session);
   metrics.totalSessions += 1;
@@ -197,8 +323,550 @@ async function listChangedFiles(session) {
   return changed;
 }
 
+async function listWorkspaceFiles(session, { withContent }) {
+  const files = [];
+  const queue = [session.workspacePath];
+
+  while (queue.length) {
+    const current = queue.pop();
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!SEARCH_IGNORED_DIRS.has(entry.name)) queue.push(fullPath);
+      } else if (entry.isFile()) {
+        const relPath = '/' + path.relative(session.workspacePath, fullPath).replace(/\\/g, '/');
+        if (!withContent) {
+          files.push({ path: relPath, content: '' });
+          continue;
+        }
+        const stat = await fs.stat(fullPath);
+        if (stat.size > SEARCH_MAX_FILE_BYTES) continue;
+        files.push({ path: relPath, content: await fs.readFile(fullPath, 'utf8') });
+      }
+    }
+  }
+
+  return files;
+}
+
+// Files matching the artifact globs, read whole and hashed as raw bytes
+async function collectArtifacts(session, globs) {
+  const matches = createGlobMatcher(globs);
+  const candidates = [];
+  for (const file of await listWorkspaceFiles(session, { withContent: false })) {
+    if (!matches(file.path)) continue;
+    const stat = await fs.stat(resolveWorkspacePath(session.workspacePath, file.path));
+    candidates.push({ path: file.path, size: stat.size });
+  }
+
+  const { selected, skipped } = selectArtifacts(candidates, () => true, { maxBytes: ARTIFACT_MAX_BYTES });
+  const artifacts = [];
+  for (const file of selected) {
+    const bytes = await fs.readFile(resolveWorkspacePath(session.workspacePath, file.path));
+    artifacts.push({ path: file.path, sha256: hashContent(bytes), size: bytes.length, content: bytes.toString('base64') });
+  }
+  return { artifacts, skipped };
+}
+
+class GitError extends Error {
+  constructor(message, stderr) {
+    super(message);
+    this.stderr = stderr;
+  }
+}
+
+// Runs git without a shell; arguments never pass through command parsing
+function runGit(session, args, { env } = {}) {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, {
+      cwd: session.cwd,
+      env: workspaceEnv({ GIT_TERMINAL_PROMPT: '0', GIT_OPTIONAL_LOCKS: '0', ...env }),
+      maxBuffer: MAX_OUTPUT_BYTES,
+      timeout: GIT_TIMEOUT_MS,
+    }, (err, stdout, stderr) => {
+      if (err) {
+        const detail = String(stderr || '').trim() || err.message;
+        return reject(new GitError(`git ${args[0]} failed: ${detail.split('\n')[0]}`, String(stderr || '')));
+      }
+      resolve(String(stdout));
+    });
+  });
+}
+
+async function gitStatus(session) {
+  return parseStatus(await runGit(session, GIT_STATUS_ARGS));
+}
+
+async function gitDiff(session, { staged = false, paths = [] } = {}) {
+  const scope = [...(staged ? ['--cached'] : []), '--', ...paths];
+  const files = parseNumstat(await runGit(session, [...GIT_NUMSTAT_ARGS, ...scope]));
+  let patch = '';
+  let truncated = false;
+  try {
+    patch = await runGit(session, ['diff', '--no-color', ...scope]);
+  } catch (err) {
+    if (!String(err.message).includes('maxBuffer')) throw err;
+    truncated = true;
+  }
+  return {
+    staged,
+    files,
+    linesAdded: files.reduce((n, f) => n + f.added, 0),
+    linesRemoved: files.reduce((n, f) => n + f.removed, 0),
+    patch,
+    truncated,
+  };
+}
+
+async function gitLog(session, { ref, max_count: maxCount = 20, path: filePath } = {}) {
+  const count = Math.min(Math.max(Number(maxCount) || 20, 1), 200);
+  const args = ['log', GIT_LOG_FORMAT, `--max-count=${count}`, ...(ref ? [ref] : []), '--', ...(filePath ? [filePath] : [])];
+  return parseLog(await runGit(session, args));
+}
+
+async function gitIdentityEnv(session) {
+  const email = await runGit(session, ['config', 'user.email']).catch(() => '');
+  if (email.trim()) return {};
+  return {
+    GIT_AUTHOR_NAME, GIT_AUTHOR_EMAIL,
+    GIT_COMMITTER_NAME: GIT_AUTHOR_NAME, GIT_COMMITTER_EMAIL: GIT_AUTHOR_EMAIL,
+  };
+}
+
+async function runGitTool(session, tool, input) {
+  const badRef = gitToolRefs(tool, input).find(r => typeof r !== 'string' || !isValidRefName(r));
+  if (badRef !== undefined) throw new GitError(`Invalid ref name: ${badRef}`, '');
+  const paths = Array.isArray(input.paths) ? input.paths.map(String) : [];
+
+  switch (tool) {
+    case 'git_status':
+      return { tool, status: await gitStatus(session) };
+    case 'git_diff':
+      return { tool, diff: await gitDiff(session, { staged: Boolean(input.staged), paths }) };
+    case 'git_log':
+      return { tool, commits: await gitLog(session, input) };
+    case 'git_branch': {
+      if (input.create) await runGit(session, ['branch', input.create, ...(input.start_point ? [input.start_point] : [])]);
+      return { tool, branches: parseBranches(await runGit(session, ['for-each-ref', GIT_BRANCH_FORMAT, 'refs/heads'])) };
+    }
+    case 'git_checkout': {
+      if (!input.ref) throw new GitError('Missing ref', '');
+      await runGit(session, gitCheckoutArgs(input.ref, input.create === true));
+      return { tool, status: await gitStatus(session) };
+    }
+    case 'git_commit': {
+      if (!input.message || typeof input.message !== 'string') throw new GitError('Missing commit message', '');
+      if (input.all) await runGit(session, ['add', '-A']);
+      else if (paths.length > 0) await runGit(session, ['add', '--', ...paths]);
+      await runGit(session, ['commit', '-m', input.message], { env: await gitIdentityEnv(session) });
+      const [commit] = await gitLog(session, { max_count: 1 });
+      return { tool, commit, status: await gitStatus(session) };
+    }
+    default:
+      throw new GitError(`Unsupported git tool: ${tool}`, '');
+  }
+}
+
+// ─── Resource isolation ───
+
+function commandWorks(file, args) {
+  return new Promise(resolve => execFile(file, args, { timeout: 5000 }, err => resolve(!err)));
+}
+
+// Which enforcement mechanisms this host offers; anything missing is reported by /health
+async function detectIsolation() {
+  const support = {
+    cgroup: false,
+    prlimit: await commandWorks('prlimit', ['--version']),
+    unshare: await commandWorks('unshare', ['--net', '--map-root-user', 'true']),
+  };
+  if (CGROUP_ROOT) {
+    try {
+      await ensureDir(CGROUP_ROOT);
+      await fs.writeFile(path.join(CGROUP_ROOT, 'cgroup.subtree_control'), '+cpu +memory +pids');
+      support.cgroup = true;
+    } catch (err) {
+      console.warn(`cgroup limits disabled: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return support;
+}
+
+// Session cgroup carries the limits; each process gets a leaf under it so its
+// OOM and pids events can be read and it can be killed on its own
+async function ensureSessionCgroup(session) {
+  const dir = path.join(CGROUP_ROOT, session.id);
+  await ensureDir(dir);
+  for (const [file, value] of Object.entries(cgroupSettings(session.limits))) {
+    await fs.writeFile(path.join(dir, file), value);
+  }
+  await fs.writeFile(path.join(dir, 'cgroup.subtree_control'), '+cpu +memory +pids');
+  session.cgroup = dir;
+  return dir;
+}
+
+/** argv that runs `argv` under the session's limits, and the leaf cgroup it will join. */
+async function isolate(session, argv) {
+  let leaf = null;
+  if (isolation.cgroup) {
+    leaf = path.join(await ensureSessionCgroup(session), `proc-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`);
+    await ensureDir(leaf);
+  }
+  const wrapped = isolationPrefix(session.limits, {
+    cgroupProcs: leaf ? path.join(leaf, 'cgroup.procs') : undefined,
+    prlimit: isolation.prlimit,
+    unshare: isolation.unshare,
+  });
+  if (wrapped.violation) {
+    await releaseCgroup(leaf);
+    return { violation: wrapped.violation };
+  }
+  return { argv: [...wrapped.prefix, ...argv], leaf };
+}
+
+// Signal everything a process started: its cgroup for SIGKILL, else its process group
+async function killIsolated(proc, leaf, signal) {
+  if (leaf && signal === 'SIGKILL') {
+    try {
+      await fs.writeFile(path.join(leaf, 'cgroup.kill'), '1');
+      return;
+    } catch {
+      // cgroup.kill needs Linux 5.14; fall through
+    }
+  }
+  try {
+    process.kill(-proc.pid, signal);
+  } catch {
+    proc.kill(signal);
+  }
+}
+
+async function readCgroupEvents(leaf, file) {
+  if (!leaf) return {};
+  return parseCgroupEvents(await fs.readFile(path.join(leaf, file), 'utf8').catch(() => ''));
+}
+
+/** Read what the process ran into, then remove its leaf cgroup. */
+async function collectExit(leaf, { code, signal, timedOut = false, diskExceeded = false }, limits) {
+  const memory = await readCgroupEvents(leaf, 'memory.events');
+  const pids = await readCgroupEvents(leaf, 'pids.events');
+  await releaseCgroup(leaf);
+  // A shell reports a killed child as 128 + signal number rather than dying of it
+  const exitSignal = signal || (code > 128 ? signalName(code - 128) : null);
+  return {
+    exitCode: code ?? (signal ? 128 + (os.constants.signals[signal] || 0) : 1),
+    limitExceeded: classifyExit({ signal: exitSignal, timedOut, diskExceeded, oomKills: memory.oom_kill || 0, pidsMaxHits: pids.max || 0 }, limits),
+  };
+}
+
+function signalName(number) {
+  return Object.keys(os.constants.signals).find(name => os.constants.signals[name] === number) || null;
+}
+
+async function releaseCgroup(dir) {
+  if (!dir) return;
+  await fs.writeFile(path.join(dir, 'cgroup.kill'), '1').catch(() => {});
+  // Killed processes take a moment to leave the cgroup
+  for (let attempt = 0; attempt < 10; attempt++) {
+    try {
+      await fs.rmdir(dir);
+      return;
+    } catch (err) {
+      if (err?.code !== 'EBUSY') return;
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+}
+
+async function releaseSessionCgroup(session) {
+  if (!session.cgroup) return;
+  const leaves = await fs.readdir(session.cgroup, { withFileTypes: true }).catch(() => []);
+  for (const entry of leaves) {
+    if (entry.isDirectory()) await releaseCgroup(path.join(session.cgroup, entry.name));
+  }
+  await releaseCgroup(session.cgroup);
+  session.cgroup = null;
+}
+
+function workspaceUsageBytes(session) {
+  return new Promise(resolve => {
+    // du still prints a total when files vanish mid-walk and it exits non-zero
+    execFile('du', ['-sk', session.workspacePath], { timeout: 30 * 1000 }, (_err, stdout) => {
+      resolve((Number(String(stdout || '').split(/\s/)[0]) || 0) * 1024);
+    });
+  });
+}
+
+/** Poll workspace size while a process runs; calls `onExceeded` once if it passes the quota. */
+function watchDiskQuota(session, onExceeded) {
+  let checking = false;
+  const timer = setInterval(async () => {
+    if (checking) return;
+    checking = true;
+    if (await workspaceUsageBytes(session) > session.limits.diskMb * MB) {
+      clearInterval(timer);
+      onExceeded();
+    }
+    checking = false;
+  }, DISK_POLL_MS);
+  return () => clearInterval(timer);
+}
+
+/** Check files about to be written against the file size limit and the disk quota. */
+async function checkWriteLimits(session, files) {
+  const { diskMb, fileSizeMb } = session.limits;
+  let delta = 0;
+  for (const file of files) {
+    const size = Buffer.byteLength(file.content || '', 'utf8');
+    if (size > fileSizeMb * MB) {
+      return { kind: 'file_size', message: `${file.path} exceeds the file size limit (${fileSizeMb} MB)` };
+    }
+    const existing = await fs.stat(resolveWorkspacePath(session.workspacePath, file.path)).then(s => s.size, () => 0);
+    delta += size - existing;
+  }
+  if (delta > 0 && await workspaceUsageBytes(session) + delta > diskMb * MB) {
+    return { kind: 'disk_quota', message: `Workspace disk quota exceeded (${diskMb} MB)` };
+  }
+  return null;
+}
+
+// ─── Interactive terminals ───
+
+function sendTerminal(socket, message) {
+  if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function openTerminal(session, { argv, leaf }, { cols, rows }) {
+  const id = `pty-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`;
+  const term = pty.spawn(argv[0], argv.slice(1), {
+    name: PTY_TERM,
+    cols: Math.min(Number(cols) || PTY_DEFAULT_COLS, PTY_MAX_COLS),
+    rows: Math.min(Number(rows) || PTY_DEFAULT_ROWS, PTY_MAX_ROWS),
+    cwd: session.cwd,
+    env: workspaceEnv({ TERM: PTY_TERM, GIT_TERMINAL_PROMPT: '0' }),
+  });
+  const terminal = {
+    id,
+    token: crypto.randomBytes(24).toString('base64url'),
+    session,
+    term,
+    scrollback: createScrollback(PTY_SCROLLBACK_CHARS),
+    socket: null,
+    line: '',
+    exit: null,
+    detachTimer: null,
+  };
+  let diskExceeded = false;
+  const stopDiskWatch = watchDiskQuota(session, () => {
+    diskExceeded = true;
+    sendTerminal(terminal.socket, { type: 'error', message: `Workspace disk quota exceeded (${session.limits.diskMb} MB)` });
+    killIsolated(term, leaf, 'SIGKILL');
+  });
+
+  term.onData((data) => {
+    const offset = terminal.scrollback.append(data);
+    sendTerminal(terminal.socket, { type: 'output', data, offset });
+    markSessionActive(session);
+  });
+
+  term.onExit(async ({ exitCode: code, signal }) => {
+    stopDiskWatch();
+    const { exitCode, limitExceeded } = await collectExit(leaf, { code, signal: signal ? signalName(signal) : null, diskExceeded }, session.limits);
+    // Destroyed along with its session; nobody is left to report to
+    if (!terminals.has(id)) return;
+    let changedFiles = [];
+    try {
+      changedFiles = (await listChangedFiles(session)).filter(f => !f.path.startsWith('/.git/'));
+    } catch {
+      metrics.totalErrors += 1;
+    }
+    terminal.exit = { type: 'exit', exitCode, signal: signal ? signalName(signal) : null, changedFiles, ...(limitExceeded ? { limitExceeded } : {}) };
+    sendTerminal(terminal.socket, terminal.exit);
+    terminal.socket?.close(1000, 'exited');
+    scheduleTerminalCleanup(terminal);
+  });
+
+  terminals.set(id, terminal);
+  session.terminals.add(terminal);
+  metrics.totalTerminals += 1;
+  scheduleTerminalCleanup(terminal);
+  return terminal;
+}
+
+function scheduleTerminalCleanup(terminal) {
+  clearTimeout(terminal.detachTimer);
+  terminal.detachTimer = setTimeout(() => destroyTerminal(terminal), PTY_DETACHED_TTL_MS);
+}
+
+function destroyTerminal(terminal) {
+  clearTimeout(terminal.detachTimer);
+  if (!terminal.exit) terminal.term.kill('SIGHUP');
+  terminal.socket?.close(1000, 'closed');
+  terminals.delete(terminal.id);
+  terminal.session.terminals.delete(terminal);
+}
+
+function attachTerminal(terminal, socket, offset) {
+  // One client per terminal; a newer tab or a reconnect takes over
+  terminal.socket?.close(4000, 'replaced');
+  terminal.socket = socket;
+  clearTimeout(terminal.detachTimer);
+
+  sendTerminal(socket, { type: 'replay', ...terminal.scrollback.since(offset) });
+  if (terminal.exit) {
+    sendTerminal(socket, terminal.exit);
+    socket.close(1000, 'exited');
+    return;
+  }
+
+  socket.on('message', (raw) => {
+    const message = parseClientMessage(String(raw));
+    if (!message) return sendTerminal(socket, { type: 'error', message: 'Invalid terminal message' });
+    markSessionActive(terminal.session);
+    if (message.type === 'stdin') writeTerminalInput(terminal, socket, message.data);
+    else if (message.type === 'resize') terminal.term.resize(message.cols, message.rows);
+    else if (PTY_SIGNAL_CHARS[message.signal]) terminal.term.write(PTY_SIGNAL_CHARS[message.signal]);
+    else terminal.term.kill(message.signal);
+  });
+
+  socket.on('close', () => {
+    if (terminal.socket !== socket) return;
+    terminal.socket = null;
+    scheduleTerminalCleanup(terminal);
+  });
+}
+
+// Tracks the line being typed so BLOCKED_COMMANDS applies here as it does to exec.
+// Best effort: history recall and tab completion happen inside the shell.
+function writeTerminalInput(terminal, socket, data) {
+  let forward = '';
+  for (const ch of data) {
+    if (ch === '\r' || ch === '\n') {
+      if (isBlockedCommand(terminal.line)) {
+        forward += '\x15';
+        sendTerminal(socket, { type: 'error', message: 'Command blocked by runner policy' });
+      }
+      terminal.line = '';
+    } else if (ch === '\x7f' || ch === '\b') {
+      terminal.line = terminal.line.slice(0, -1);
+    } else if (ch === '\x03' || ch === '\x15') {
+      terminal.line = '';
+    } else if (ch >= ' ') {
+      terminal.line += ch;
+    }
+    forward += ch;
+  }
+  terminal.term.write(forward);
+}
+
+// A stdio MCP server speaks newline-delimited JSON-RPC on stdin and stdout
+function stdioTransport(child) {
+  const transport = {
+    async send(message) {
+      if (!child.stdin.writable) throw new McpError(CONNECTION_CLOSED, 'MCP server is not running');
+      child.stdin.write(encodeLine(message));
+    },
+    async close() {
+      child.stdin.end();
+    },
+  };
+  const decoder = createLineDecoder(message => transport.onmessage?.(message));
+  child.stdout.on('data', chunk => decoder.push(chunk.toString()));
+  child.on('close', () => transport.onclose?.());
+  return transport;
+}
+
+/** Start a stdio MCP server in the session workspace and run the initialize handshake. */
+async function startMcpServer(session, { name, command, args = [], env = {} }) {
+  const isolated = await isolate(session, [command, ...args]);
+  if (isolated.violation) throw Object.assign(new Error(isolated.violation.message), { violation: isolated.violation });
+  const { argv, leaf } = isolated;
+  const child = spawn(argv[0], argv.slice(1), {
+    cwd: session.workspacePath,
+    env: workspaceEnv(env),
+    detached: true,
+  });
+  const server = {
+    id: `mcp-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+    name,
+    configHash: hashContent(JSON.stringify({ command, args, env })),
+    session,
+    child,
+    leaf,
+    client: null,
+    initialize: null,
+    stderr: '',
+    exited: false,
+  };
+  child.stderr.on('data', chunk => {
+    server.stderr = (server.stderr + chunk.toString()).slice(-MCP_STDERR_TAIL_CHARS);
+  });
+  child.on('close', () => {
+    server.exited = true;
+    releaseCgroup(leaf).catch(() => {});
+  });
+  // A missing binary fails spawn itself; the close handler above still runs
+  child.on('error', () => {});
+
+  server.client = createMcpClient(stdioTransport(child), {
+    clientInfo: { name: 'started-runner', version: '1.0.0' },
+    timeoutMs: MCP_REQUEST_TIMEOUT_MS,
+  });
+  try {
+    server.initialize = await server.client.connect();
+  } catch (err) {
+    await killIsolated(child, leaf, 'SIGKILL');
+    const detail = server.stderr.trim().split('\n').slice(-5).join('\n');
+    throw new Error(`${err instanceof Error ? err.message : err}${detail ? `\n${detail}` : ''}`);
+  }
+  mcpServers.set(server.id, server);
+  session.mcpServers.set(name, server);
+  return server;
+}
+
+function stopMcpServer(server) {
+  mcpServers.delete(server.id);
+  if (server.session.mcpServers.get(server.name) === server) server.session.mcpServers.delete(server.name);
+  server.client.close().catch(() => {});
+  if (!server.exited) killIsolated(server.child, server.leaf, 'SIGTERM');
+}
+
+const isolation = await detectIsolation();
+
+// Load figures are what the runner mesh schedules on
+function healthReport() {
+  return {
+    ok: true,
+    uptimeMs: nowMs() - metrics.startedAt,
+    activeSessions: sessions.size,
+    busySessions: [...sessions.values()].filter(s => s.status === 'busy').length,
+    draining,
+    load: {
+      avg1: os.loadavg()[0],
+      cpus: os.cpus().length,
+      memFreeMb: Math.round(os.freemem() / MB),
+      memTotalMb: Math.round(os.totalmem() / MB),
+    },
+    isolation: { cgroups: isolation.cgroup, rlimits: isolation.prlimit, network_namespaces: isolation.unshare },
+    limits: RUNNER_LIMITS,
+  };
+}
+
+// What a build ran on; attestations record it and replays compare against it
+function fingerprintReport() {
+  return {
+    os: process.platform,
+    arch: process.arch,
+    os_release: os.release(),
+    node_version: process.version,
+    isolation: { cgroups: isolation.cgroup, rlimits: isolation.prlimit, network_namespaces: isolation.unshare },
+    limits: RUNNER_LIMITS,
+  };
+}
+
 app.get('/health', (_req, res) => {
-  res.json({ ok: true, uptimeMs: nowMs() - metrics.startedAt, activeSessions: sessions.size });
+  res.json(healthReport());
 });
 
 app.get('/metrics', (_req, res) => {
@@ -211,33 +879,58 @@ app.get('/metrics', (_req, res) => {
 
 app.use('/v1', rateLimit, requireAuth);
 
+app.get('/v1/fingerprint', (_req, res) => {
+  res.json(fingerprintReport());
+});
+
+app.post('/v1/drain', (req, res) => {
+  draining = req.body?.draining !== false;
+  res.json({ ok: true, draining, activeSessions: sessions.size });
+});
+
 app.post('/v1/sessions', async (req, res) => {
   try {
-    const { project_id, runtime_type, user_id } = req.body || {};
+    const { project_id, runtime_type, user_id, limits, ephemeral } = req.body || {};
     if (!project_id || !runtime_type) {
       return res.status(400).json({ error: 'Missing project_id or runtime_type' });
     }
 
-    const existing = getSessionByProject(project_id, user_id || 'user');
+    const existing = ephemeral ? null : getSessionByProject(project_id, user_id || 'user');
     if (existing) {
-      return res.json({ session_id: existing.id, workspace_path: existing.workspacePath });
+      // New limits apply to processes started from now on
+      if (limits) existing.limits = clampLimits(limits, RUNNER_LIMITS);
+      return res.json({ session_id: existing.id, workspace_path: existing.workspacePath, limits: existing.limits });
     }
+    if (draining) return res.status(503).json({ error: 'Runner is draining', code: 'draining' });
 
-    const session = createSession({ projectId: project_id, runtimeType: runtime_type, userId: user_id || 'user' });
+    const session = createSession({
+      projectId: project_id, runtimeType: runtime_type, userId: user_id || 'user', limits, ephemeral: Boolean(ephemeral),
+    });
     await ensureDir(session.workspacePath);
-    res.json({ session_id: session.id, workspace_path: session.workspacePath });
+    res.json({ session_id: session.id, workspace_path: session.workspacePath, limits: session.limits, ephemeral: session.ephemeral });
   } catch (err) {
     metrics.totalErrors += 1;
     res.status(500).json({ error: err instanceof Error ? err.message : 'Failed to create session' });
   }
 });
 
+app.get('/v1/sessions/:id', (req, res) => {
+  const session = sessions.get(req.params.id);
+  if (!session) return res.status(404).json({ error: 'Session not found' });
+  res.json({
+    session_id: session.id, project_id: session.projectId, status: session.status, cwd: session.cwd,
+    ephemeral: session.ephemeral, last_activity_at: session.lastActivityAt,
+  });
+});
+
 app.post('/v1/sessions/:id/upload', async (req, res) => {
   try {
     const session = sessions.get(req.params.id);
     if (!session) return res.status(404).json({ error: 'Session not found' });
     const files = req.body?.files || [];
     if (!Array.isArray(files)) return res.status(400).json({ error: 'Invalid files payload' });
+    const violation = await checkWriteLimits(session, files);
+    if (violation) return res.status(507).json({ error: violation.message, limit_exceeded: violation });
 
     let synced = 0;
     for (const file of files) {
@@ -263,6 +956,8 @@ app.post('/v1/sessions/:id/sync', async (req, res) => {
     if (!session) return res.status(404).json({ error: 'Session not found' });
     const files = req.body?.files || [];
     if (!Array.isArray(files)) return res.status(400).json({ error: 'Invalid files payload' });
+    const violation = await checkWriteLimits(session, files);
+    if (violation) return res.status(507).json({ error: violation.message, limit_exceeded: violation });
 
     let synced = 0;
     let skipped = 0;
@@ -309,12 +1004,226 @@ app.get('/v1/sessions/:id/fs', async (req, res) => {
   }
 });
 
+// Read-only agent tools (list_files, grep) against the workspace
+app.post('/v1/sessions/:id/search', async (req, res) => {
+  try {
+    const session = sessions.get(req.params.id);
+    if (!session) return res.status(404).json({ error: 'Session not found' });
+    const { tool, input = {} } = req.body || {};
+    const startedAt = nowMs();
+    markSessionActive(session);
+
+    if (tool === 'list_files') {
+      const files = await listWorkspaceFiles(session, { withContent: false });
+      return res.json({ ok: true, files: listFiles(files.map(f => f.path), input.glob), duration_ms: nowMs() - startedAt });
+    }
+    if (tool === 'grep') {
+      if (!input.pattern || typeof input.pattern !== 'string') return res.status(400).json({ error: 'Missing pattern' });
+      const files = await listWorkspaceFiles(session, { withContent: true });
+      let matches;
+      try {
+        matches = grepFiles(files, input);
+      } catch (err) {
+        return res.status(400).json({ error: err instanceof Error ? err.message : 'Invalid pattern' });
+      }
+      return res.json({ ok: true, matches, duration_ms: nowMs() - startedAt });
+    }
+    res.status(400).json({ error: `Unsupported search tool: ${tool}` });
+  } catch (err) {
+    metrics.totalErrors += 1;
+    res.status(500).json({ error: err instanceof Error ? err.message : 'Search failed' });
+  }
+});
+
+// Build outputs matching the project's artifact globs, base64-encoded
+app.post('/v1/sessions/:id/artifacts', async (req, res) => {
+  try {
+    const session = sessions.get(req.params.id);
+    if (!session) return res.status(404).json({ error: 'Session not found' });
+    const { globs } = req.body || {};
+    const invalid = validateArtifactGlobs(globs);
+    if (invalid) return res.status(400).json({ error: invalid });
+    markSessionActive(session);
+    res.json({ ok: true, ...(await collectArtifacts(session, globs)) });
+  } catch (err) {
+    metrics.totalErrors += 1;
+    res.status(500).json({ error: err instanceof Error ? err.message : 'Failed to collect artifacts' });
+  }
+});
+
+// Git tools against the session workspace, returning structured JSON
+app.post('/v1/sessions/:id/git', async (req, res) => {
+  const session = sessions.get(req.params.id);
+  if (!session) return res.status(404).json({ error: 'Session not found' });
+  const { tool, input = {} } = req.body || {};
+  const startedAt = nowMs();
+  markSessionActive(session);
+
+  try {
+    const result = await runGitTool(session, tool, input);
+    const body = { ok: true, result, duration_ms: nowMs() - startedAt };
+    // Checkout rewrites the worktree, so hand the new file contents back like exec does
+    if (tool === 'git_checkout') {
+      body.changed_files = (await listChangedFiles(session)).filter(f => !f.path.startsWith('/.git/'));
+    }
+    res.json(body);
+  } catch (err) {
+    if (err instanceof GitError) {
+      return res.status(400).json({ ok: false, error: err.message, stderr: err.stderr, duration_ms: nowMs() - startedAt });
+    }
+    metrics.totalErrors += 1;
+    res.status(500).json({ error: err instanceof Error ? err.message : 'Git command failed' });
+  }
+});
+
+// Structured file edits (edit_file, create_file, delete_file, move_file).
+// `dry_run` returns the diff for review without touching the workspace.
+app.post('/v1/sessions/:id/edit', async (req, res) => {
+  try {
+    const session = sessions.get(req.params.id);
+    if (!session) return res.status(404).json({ error: 'Session not found' });
+    const { tool, input = {}, dry_run: dryRun = false } = req.body || {};
+    if (!EDIT_TOOLS.has(tool)) return res.status(400).json({ error: `Unsupported edit tool: ${tool}` });
+    const startedAt = nowMs();
+    markSessionActive(session);
+
+    const touched = (tool === 'move_file' ? [input.from, input.to] : [input.path]).map(normalizeWorkspacePath);
+    if (touched.some(p => isProtectedWorkspacePath(session.workspacePath, p))) {
+      return res.status(400).json({ error: 'Edits to .git or the workspace root are not allowed' });
+    }
+    const before = [];
+    for (const filePath of touched) {
+      const fullPath = resolveWorkspacePath(session.workspacePath, filePath);
+      try {
+        const stat = await fs.stat(fullPath);
+        if (!stat.isFile()) continue;
+        const content = await fs.readFile(fullPath, 'utf8');
+        before.push({ path: filePath, content, ...(stat.mode & 0o111 ? { mode: '100755' } : {}) });
+      } catch (err) {
+        if (err?.code !== 'ENOENT') throw err;
+      }
+    }
+
+    const built = buildStructuredEdit(before, { tool, input });
+    if (!built.ok) return res.status(400).json({ ok: false, error: built.error });
+    const diff = serializePatch([built.patch]);
+    if (dryRun) return res.json({ ok: true, diff, duration_ms: nowMs() - startedAt });
+
+    const applied = applyPatchesToFiles(before, [built.patch]);
+    if (!applied.ok) {
+      return res.status(409).json({ ok: false, diff, results: applied.results, error: describePatchFailures(applied.results) });
+    }
+
+    const after = new Map(applied.files.map(f => [f.path, f]));
+    for (const file of before) {
+      if (after.has(file.path)) continue;
+      await fs.rm(resolveWorkspacePath(session.workspacePath, file.path), { force: true });
+      session.files.delete(file.path);
+    }
+    for (const file of applied.files) {
+      const fullPath = resolveWorkspacePath(session.workspacePath, file.path);
+      await ensureDir(path.dirname(fullPath));
+      await fs.writeFile(fullPath, file.content, 'utf8');
+      await fs.chmod(fullPath, file.mode === '100755' ? 0o755 : 0o644);
+      session.files.set(file.path, hashContent(file.content));
+    }
+
+    res.json({ ok: true, diff, results: applied.results, duration_ms: nowMs() - startedAt });
+  } catch (err) {
+    metrics.totalErrors += 1;
+    res.status(500).json({ error: err instanceof Error ? err.message : 'Edit failed' });
+  }
+});
+
+// Open an interactive PTY in the session cwd. The returned token authorizes the
+// WebSocket at /v1/pty/:ptyId, which browsers reach without the shared secret.
+app.post('/v1/sessions/:id/pty', async (req, res) => {
+  const session = sessions.get(req.params.id);
+  if (!session) return res.status(404).json({ error: 'Session not found' });
+  const { cols, rows, cwd } = req.body || {};
+  if (cwd) normalizeCwd(session, cwd);
+
+  try {
+    await ensureDir(session.cwd);
+    const isolated = await isolate(session, [PTY_SHELL]);
+    if (isolated.violation) return res.status(403).json({ error: isolated.violation.message, limit_exceeded: isolated.violation });
+    const terminal = openTerminal(session, isolated, { cols, rows });
+    markSessionActive(session);
+    res.json({ pty_id: terminal.id, token: terminal.token, cwd: session.cwd });
+  } catch (err) {
+    metrics.totalErrors += 1;
+    res.status(500).json({ error: err instanceof Error ? err.message : 'Failed to open terminal' });
+  }
+});
+
+app.delete('/v1/sessions/:id/pty/:ptyId', (req, res) => {
+  const terminal = terminals.get(req.params.ptyId);
+  if (!terminal || terminal.session.id !== req.params.id) return res.status(404).json({ error: 'Terminal not found' });
+  destroyTerminal(terminal);
+  res.json({ destroyed: true });
+});
+
+// Start a stdio MCP server in the session, or reuse the running one with the
+// same name and configuration. It lives until removed or the session ends.
+app.post('/v1/sessions/:id/mcp', async (req, res) => {
+  const session = sessions.get(req.params.id);
+  if (!session) return res.status(404).json({ error: 'Session not found' });
+  const { name, command, args, env } = req.body || {};
+  const invalid = validateMcpServerConfig({ name, transport: 'stdio', command, args, env });
+  if (invalid) return res.status(400).json({ error: invalid });
+  if (isBlockedCommand([command, ...(args || [])].join(' '))) {
+    return res.status(403).json({ error: 'Command blocked by runner policy' });
+  }
+
+  const existing = session.mcpServers.get(name);
+  if (existing && !existing.exited && existing.configHash === hashContent(JSON.stringify({ command, args: args || [], env: env || {} }))) {
+    markSessionActive(session);
+    return res.json({ mcp_id: existing.id, initialize: existing.initialize, reused: true });
+  }
+  if (existing) stopMcpServer(existing);
+
+  try {
+    await ensureDir(session.workspacePath);
+    const server = await startMcpServer(session, { name, command, args, env });
+    markSessionActive(session);
+    res.json({ mcp_id: server.id, initialize: server.initialize, reused: false });
+  } catch (err) {
+    if (err.violation) return res.status(403).json({ error: err.message, limit_exceeded: err.violation });
+    metrics.totalErrors += 1;
+    res.status(502).json({ error: 'mcp_start_failed', detail: err instanceof Error ? err.message : String(err) });
+  }
+});
+
+// Forward one JSON-RPC request to a running stdio MCP server
+app.post('/v1/sessions/:id/mcp/:mcpId', async (req, res) => {
+  const server = mcpServers.get(req.params.mcpId);
+  if (!server || server.session.id !== req.params.id) return res.status(404).json({ error: 'MCP server not found' });
+  const { method, params } = req.body || {};
+  if (!MCP_METHODS.has(method)) return res.status(400).json({ error: `Method not allowed: ${method}` });
+  if (server.exited) return res.status(410).json({ error: 'MCP server exited', detail: server.stderr.slice(-500) });
+
+  markSessionActive(server.session);
+  try {
+    res.json({ result: await server.client.request(method, params) });
+  } catch (err) {
+    if (err instanceof McpError) return res.json({ error: { code: err.code, message: err.message, data: err.data } });
+    res.status(500).json({ error: err instanceof Error ? err.message : 'MCP request failed' });
+  }
+});
+
+app.delete('/v1/sessions/:id/mcp/:mcpId', (req, res) => {
+  const server = mcpServers.get(req.params.mcpId);
+  if (!server || server.session.id !== req.params.id) return res.status(404).json({ error: 'MCP server not found' });
+  stopMcpServer(server);
+  res.json({ stopped: true });
+});
+
 app.post('/v1/sessions/:id/kill', async (req, res) => {
   const session = sessions.get(req.params.id);
   if (!session) return res.status(404).json({ error: 'Session not found' });
 
   if (session.activeProcess && !session.activeProcess.killed) {
-    session.activeProcess.kill('SIGTERM');
+    await killIsolated(session.activeProcess, session.activeCgroup, 'SIGTERM');
     session.activeProcess = null;
   }
 
@@ -328,10 +1237,13 @@ app.delete('/v1/sessions/:id', async (req, res) => {
   if (!session) return res.status(404).json({ error: 'Session not found' });
 
   if (session.activeProcess && !session.activeProcess.killed) {
-    session.activeProcess.kill('SIGTERM');
+    await killIsolated(session.activeProcess, session.activeCgroup, 'SIGTERM');
   }
+  for (const terminal of session.terminals) destroyTerminal(terminal);
+  for (const server of session.mcpServers.values()) stopMcpServer(server);
+  await releaseSessionCgroup(session);
 
-  if (!PERSIST_WORKSPACES) {
+  if (!PERSIST_WORKSPACES || session.ephemeral) {
     await fs.rm(session.workspacePath, { recursive: true, force: true });
   }
 
@@ -344,10 +1256,13 @@ app.post('/v1/sessions/:id/exec', async (req, res) => {
   const session = sessions.get(req.params.id);
   if (!session) return res.status(404).json({ error: 'Session not found' });
 
-  const { command, timeout_s, reset_cwd, env, stream, report_changed_files, cwd } = req.body || {};
+  const { command, timeout_s, reset_cwd, env, stream, report_changed_files, collect_artifacts, cwd } = req.body || {};
   if (!command || typeof command !== 'string') {
     return res.status(400).json({ error: 'Missing command' });
   }
+  const artifactGlobs = Array.isArray(collect_artifacts) && collect_artifacts.length > 0 ? collect_artifacts : null;
+  const invalidGlobs = artifactGlobs && validateArtifactGlobs(artifactGlobs);
+  if (invalidGlobs) return res.status(400).json({ error: invalidGlobs });
 
   if (isBlockedCommand(command)) {
     return res.status(403).json({ error: 'Command blocked by runner policy' });
@@ -360,16 +1275,26 @@ app.post('/v1/sessions/:id/exec', async (req, res) => {
     return res.json({ ok: true, stdout: '', stderr: '', exit_code: 0, cwd: session.cwd, duration_ms: 0 });
   }
 
+  const isolated = await isolate(session, ['/bin/sh', '-c', command]);
+  if (isolated.violation) {
+    const { message } = isolated.violation;
+    return res.json({ ok: false, stdout: '', stderr: message, exit_code: 1, cwd: session.cwd, duration_ms: 0, limit_exceeded: isolated.violation });
+  }
+  const { argv, leaf } = isolated;
+  const timeoutS = Math.min(Number(timeout_s) || session.limits.timeoutS, session.limits.timeoutS);
+
   const startedAt = nowMs();
   metrics.totalExecs += 1;
 
-  const child = spawn(command, {
+  // Own process group, so stopping it also stops whatever it started
+  const child = spawn(argv[0], argv.slice(1), {
     cwd: session.cwd,
-    env: { ...process.env, ...env },
-    shell: true,
+    env: workspaceEnv(env),
+    detached: true,
   });
 
   session.activeProcess = child;
+  session.activeCgroup = leaf;
   session.status = 'busy';
 
   let stdout = '';
@@ -408,23 +1333,32 @@ app.post('/v1/sessions/:id/exec', async (req, res) => {
     writeStream('stderr', text);
   });
 
-  let timeoutId = null;
-  if (timeout_s) {
-    timeoutId = setTimeout(() => {
-      if (!child.killed) child.kill('SIGTERM');
-      setTimeout(() => { if (!child.killed) child.kill('SIGKILL'); }, 5000);
-    }, timeout_s * 1000);
-  }
+  const running = () => child.exitCode === null && child.signalCode === null;
+  let timedOut = false;
+  let diskExceeded = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    killIsolated(child, leaf, 'SIGTERM');
+    setTimeout(() => { if (running()) killIsolated(child, leaf, 'SIGKILL'); }, 5000);
+  }, timeoutS * 1000);
+  const stopDiskWatch = watchDiskQuota(session, () => {
+    diskExceeded = true;
+    killIsolated(child, leaf, 'SIGKILL');
+  });
 
-  child.on('close', async (code) => {
-    if (timeoutId) clearTimeout(timeoutId);
+  child.on('close', async (code, signal) => {
+    clearTimeout(timeoutId);
+    stopDiskWatch();
     session.status = 'ready';
     session.activeProcess = null;
+    session.activeCgroup = null;
     markSessionActive(session);
 
     const durationMs = nowMs() - startedAt;
-    const exitCode = code ?? 1;
+    const { exitCode, limitExceeded } = await collectExit(leaf, { code, signal, timedOut, diskExceeded }, { ...session.limits, timeoutS });
     let changedFiles = [];
+    // Only successful runs have outputs worth keeping
+    let collected = { artifacts: undefined, skipped: undefined };
 
     if (report_changed_files) {
       try {
@@ -433,12 +1367,25 @@ app.post('/v1/sessions/:id/exec', async (req, res) => {
         metrics.totalErrors += 1;
       }
     }
+    if (artifactGlobs && exitCode === 0) {
+      try {
+        collected = await collectArtifacts(session, artifactGlobs);
+      } catch (err) {
+        metrics.totalErrors += 1;
+      }
+    }
 
     if (useStream) {
-      res.write(`data: ${JSON.stringify({ type: 'done', exitCode, cwd: session.cwd, durationMs, changedFiles })}\n\n`);
+      res.write(`data: ${JSON.stringify({
+        type: 'done', exitCode, cwd: session.cwd, durationMs, changedFiles, limitExceeded,
+        artifacts: collected.artifacts, artifactsSkipped: collected.skipped,
+      })}\n\n`);
       res.end();
     } else {
-      res.json({ ok: exitCode === 0, stdout, stderr, exit_code: exitCode, cwd: session.cwd, duration_ms: durationMs, changed_files: changedFiles });
+      res.json({
+        ok: exitCode === 0, stdout, stderr, exit_code: exitCode, cwd: session.cwd, duration_ms: durationMs,
+        changed_files: changedFiles, limit_exceeded: limitExceeded, artifacts: collected.artifacts, artifacts_skipped: collected.skipped,
+      });
     }
   });
 });
@@ -449,14 +1396,146 @@ setInterval(() => {
     if (session.lastActivityAt < cutoff) {
       session.status = 'expired';
       sessions.delete(session.id);
-      if (!PERSIST_WORKSPACES) {
+      for (const terminal of session.terminals) destroyTerminal(terminal);
+      for (const server of session.mcpServers.values()) stopMcpServer(server);
+      releaseSessionCgroup(session).catch(() => {});
+      if (!PERSIST_WORKSPACES || session.ephemeral) {
         fs.rm(session.workspacePath, { recursive: true, force: true }).catch(() => {});
       }
     }
   }
 }, CLEANUP_INTERVAL_MS);
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   // eslint-disable-next-line no-console
   console.log(`Runner service listening on ${PORT}`);
 });
+
+// ─── Mesh membership ───
+
+const MESH_CREDENTIALS_FILE = path.join(STATE_DIR, 'mesh-node.json');
+// Where nodes enrolled before STATE_DIR kept them, readable from any workspace
+const LEGACY_MESH_CREDENTIALS_FILE = path.join(DATA_DIR, 'mesh-node.json');
+
+function meshCapabilities() {
+  return { runtimes: MESH_RUNTIMES, maxConcurrency: MAX_CONCURRENCY, gpu: false };
+}
+
+async function saveMeshNode(node) {
+  await fs.mkdir(STATE_DIR, { recursive: true, mode: 0o700 });
+  await fs.chmod(STATE_DIR, 0o700);
+  await fs.writeFile(MESH_CREDENTIALS_FILE, JSON.stringify(node), { mode: 0o600 });
+}
+
+async function loadMeshNode() {
+  const legacy = await fs.readFile(LEGACY_MESH_CREDENTIALS_FILE, 'utf8').catch(() => null);
+  if (legacy) {
+    await saveMeshNode(JSON.parse(legacy));
+    await fs.rm(LEGACY_MESH_CREDENTIALS_FILE, { force: true });
+    console.warn(`Moved mesh credentials to ${STATE_DIR}; workspaces could read them before, so re-enroll this node to replace them`);
+  }
+  try {
+    return JSON.parse(await fs.readFile(MESH_CREDENTIALS_FILE, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// Trade the one-time token for a node id and the credential the mesh will call us with.
+// The private key never leaves this machine; the mesh only gets the public half.
+async function enrollInMesh() {
+  if (!MESH_BASE_URL) throw new Error('RUNNER_BASE_URL is required to enroll in the mesh');
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const resp = await fetch(MESH_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      action: 'enroll',
+      token: MESH_ENROLL_TOKEN,
+      name: MESH_NODE_NAME,
+      base_url: MESH_BASE_URL,
+      region: MESH_REGION || null,
+      public_key: Buffer.from(publicKey.export({ format: 'jwk' }).x, 'base64url').toString('base64'),
+      capabilities: meshCapabilities(),
+      fingerprint: fingerprintReport(),
+    }),
+  });
+  const data = await resp.json().catch(() => null);
+  if (!resp.ok || !data?.node_id || !data?.node_secret) {
+    throw new Error(data?.error || `Enrollment failed with ${resp.status}`);
+  }
+
+  const node = {
+    node_id: data.node_id,
+    node_secret: data.node_secret,
+    private_key: privateKey.export({ format: 'pem', type: 'pkcs8' }),
+    mesh_url: MESH_URL,
+    heartbeat_interval_ms: data.heartbeat_interval_ms,
+  };
+  await saveMeshNode(node);
+  return node;
+}
+
+async function sendHeartbeat(node) {
+  const body = JSON.stringify({
+    node_id: node.node_id,
+    timestamp: nowMs(),
+    health: healthReport(),
+    capabilities: meshCapabilities(),
+    fingerprint: fingerprintReport(),
+  });
+  const signature = crypto.sign(null, Buffer.from(heartbeatSigningInput(body)), crypto.createPrivateKey(node.private_key));
+  const resp = await fetch(node.mesh_url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'heartbeat', node_id: node.node_id, body, signature: signature.toString('base64') }),
+    signal: AbortSignal.timeout(10 * 1000),
+  });
+  if (!resp.ok) {
+    const data = await resp.json().catch(() => null);
+    throw new Error(data?.error || `Mesh returned ${resp.status}`);
+  }
+}
+
+async function joinMesh() {
+  const fromData = path.relative(path.resolve(DATA_DIR), path.resolve(STATE_DIR));
+  if (!fromData || (!fromData.startsWith('..') && !path.isAbsolute(fromData))) {
+    throw new Error('RUNNER_STATE_DIR must be outside RUNNER_DATA_DIR');
+  }
+  meshNode = await loadMeshNode();
+  if (!meshNode && MESH_URL && MESH_ENROLL_TOKEN) meshNode = await enrollInMesh();
+  if (!meshNode) return;
+
+  console.log(`Runner mesh node ${meshNode.node_id}`);
+  const beat = () => sendHeartbeat(meshNode).catch(err => {
+    console.warn(`Heartbeat failed: ${err instanceof Error ? err.message : err}`);
+  });
+  beat();
+  setInterval(beat, meshNode.heartbeat_interval_ms || HEARTBEAT_INTERVAL_MS);
+}
+
+joinMesh().catch(err => {
+  console.warn(`Not joining the runner mesh: ${err instanceof Error ? err.message : err}`);
+});
+
+// Terminal WebSockets: /v1/pty/:ptyId?token=...&offset=N, where offset is how
+// much output the client already has so a reconnect only replays the rest
+const wss = new WebSocketServer({ noServer: true, maxPayload: 1024 * 1024 });
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url || '/', 'http://runner');
+  const match = url.pathname.match(/^\/v1\/pty\/([\w-]+)$/);
+  const terminal = match ? terminals.get(match[1]) : null;
+  const token = Buffer.from(url.searchParams.get('token') || '');
+  const expected = Buffer.from(terminal?.token || '');
+
+  if (!terminal || token.length !== expected.length || !crypto.timingSafeEqual(token, expected)) {
+    socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+    socket.destroy();
+    return;
+  }
+
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    attachTerminal(terminal, ws, Number(url.searchParams.get('offset')) || 0);
+  });
+});
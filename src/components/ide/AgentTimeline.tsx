@@ -1,16 +1,27 @@
 import { useState, useMemo } from 'react';
-import { Brain, Play, Square, Clock, Zap, ChevronRight, ChevronDown, CheckCircle2, FileCode, Terminal, Loader2 } from 'lucide-react';
-import { AgentRun, AgentStep } from '@/types/agent';
+import { Brain, Play, Square, Clock, Zap, ChevronRight, ChevronDown, CheckCircle2, FileCode, Terminal, Loader2, Undo2, RotateCcw } from 'lucide-react';
+import { AgentRun, AgentStep, AgentFileChange } from '@/types/agent';
+import type { BuildReplay, ReplayVerdict } from '@/lib/api-client';
 import { Collapsible, CollapsibleTrigger, CollapsibleContent } from '@/components/ui/collapsible';
 
+const FILE_CHANGE_MARKS: Record<AgentFileChange['action'], string> = {
+  created: '+', modified: '~', deleted: '-', renamed: '»',
+};
+
 interface AgentTimelineProps {
   agentRun: AgentRun | null;
   onStop: () => void;
   onPause: () => void;
   onOpenFile?: (path: string) => void;
   onNewRun?: () => void;
+  onRevertPatch?: (patchId: string) => void;
+  canRevertPatch?: (patchId: string) => boolean;
+  /** Latest replay of an attested build, shown as the run's reproducibility verdict */
+  replay?: BuildReplay | null;
 }
 
+type PatchRevertProps = Pick<AgentTimelineProps, 'onRevertPatch' | 'canRevertPatch'>;
+
 // ─── Group steps by iteration ───
 
 interface IterationGroup {
@@ -47,11 +58,11 @@ function getIterationLabel(steps: AgentStep[]): string {
 
 // ─── Iteration Section ───
 
-function IterationSection({ group, isLatest, onOpenFile }: {
+function IterationSection({ group, isLatest, onOpenFile, ...revert }: {
   group: IterationGroup;
   isLatest: boolean;
   onOpenFile?: (path: string) => void;
-}) {
+} & PatchRevertProps) {
   const [open, setOpen] = useState(isLatest);
   const label = getIterationLabel(group.steps);
   const hasRunning = group.steps.some(s => s.status === 'running');
@@ -78,7 +89,7 @@ function IterationSection({ group, isLatest, onOpenFile }: {
       <CollapsibleContent>
         <div className="pl-5 space-y-0.5 pb-1">
           {group.steps.map((step) => (
-            <StepLine key={step.id} step={step} onOpenFile={onOpenFile} />
+            <StepLine key={step.id} step={step} onOpenFile={onOpenFile} {...revert} />
           ))}
         </div>
       </CollapsibleContent>
@@ -88,7 +99,10 @@ function IterationSection({ group, isLatest, onOpenFile }: {
 
 // ─── Individual Step Line ───
 
-function StepLine({ step, onOpenFile }: { step: AgentStep; onOpenFile?: (path: string) => void }) {
+function StepLine({ step, onOpenFile, onRevertPatch, canRevertPatch }: {
+  step: AgentStep;
+  onOpenFile?: (path: string) => void;
+} & PatchRevertProps) {
   const [expanded, setExpanded] = useState(false);
 
   if (step.type === 'think') {
@@ -141,9 +155,19 @@ function StepLine({ step, onOpenFile }: { step: AgentStep; onOpenFile?: (path: s
         <div className="flex items-center gap-1">
           <FileCode className="h-2.5 w-2.5 text-primary shrink-0" />
           <span className="text-[11px] font-semibold text-primary">Patch:</span>
-          <span className="text-[11px] text-muted-foreground truncate">
+          <span className="text-[11px] text-muted-foreground truncate flex-1">
             {step.label}
           </span>
+          {step.patchId && onRevertPatch && canRevertPatch?.(step.patchId) && (
+            <button
+              onClick={() => onRevertPatch(step.patchId!)}
+              className="flex items-center gap-0.5 text-[10px] text-muted-foreground hover:text-foreground transition-colors shrink-0"
+              title="Revert patch"
+            >
+              <Undo2 className="h-2.5 w-2.5" />
+              Revert
+            </button>
+          )}
         </div>
         {step.filesChanged && step.filesChanged.length > 0 && (
           <div className="ml-4 mt-0.5 space-y-0">
@@ -153,7 +177,7 @@ function StepLine({ step, onOpenFile }: { step: AgentStep; onOpenFile?: (path: s
                 onClick={() => onOpenFile?.(fc.path)}
                 className="block text-[10px] font-mono text-muted-foreground hover:text-foreground transition-colors"
               >
-                {fc.action === 'created' ? '+' : '~'} {fc.path}
+                {FILE_CHANGE_MARKS[fc.action]} {fc.from ? `${fc.from} → ${fc.path}` : fc.path}
               </button>
             ))}
           </div>
@@ -191,9 +215,53 @@ function StepLine({ step, onOpenFile }: { step: AgentStep; onOpenFile?: (path: s
   );
 }
 
+// ─── Reproducibility Verdict ───
+
+const VERDICT_STYLES: Record<ReplayVerdict, { label: string; className: string }> = {
+  reproducible: { label: 'Reproducible', className: 'text-ide-success' },
+  diverged: { label: 'Reproduced, logs differ', className: 'text-ide-warning' },
+  not_reproducible: { label: 'Not reproducible', className: 'text-ide-error' },
+};
+
+function ReplayVerdictLine({ replay }: { replay: BuildReplay }) {
+  if (replay.status === 'running') {
+    return (
+      <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
+        <Loader2 className="h-2.5 w-2.5 animate-spin" />
+        Replaying build in a fresh workspace...
+      </div>
+    );
+  }
+
+  if (replay.status === 'error' || !replay.verdict) {
+    return (
+      <div className="flex items-center gap-1 text-[10px] text-ide-error">
+        <RotateCcw className="h-2.5 w-2.5" />
+        <span className="truncate">Replay failed{replay.error ? `: ${replay.error}` : ''}</span>
+      </div>
+    );
+  }
+
+  const style = VERDICT_STYLES[replay.verdict];
+  return (
+    <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+      <span className={`flex items-center gap-1 font-medium ${style.className}`}>
+        <RotateCcw className="h-2.5 w-2.5" />
+        {style.label}
+      </span>
+      {replay.mismatches.length > 0 && <span>differs in {replay.mismatches.join(', ')}</span>}
+      {replay.environment_drift.length > 0 && (
+        <span className="truncate" title={replay.environment_drift.join(', ')}>
+          env drift: {replay.environment_drift.join(', ')}
+        </span>
+      )}
+    </div>
+  );
+}
+
 // ─── Main Component ───
 
-export function AgentTimeline({ agentRun, onStop, onPause, onOpenFile, onNewRun }: AgentTimelineProps) {
+export function AgentTimeline({ agentRun, onStop, onPause, onOpenFile, onNewRun, onRevertPatch, canRevertPatch, replay }: AgentTimelineProps) {
   const iterationGroups = useMemo(
     () => agentRun ? groupByIteration(agentRun.steps) : [],
     [agentRun?.steps]
@@ -287,6 +355,7 @@ export function AgentTimeline({ agentRun, onStop, onPause, onOpenFile, onNewRun
           </span>
           <span>{agentRun.steps.length} steps</span>
         </div>
+        {replay && <ReplayVerdictLine replay={replay} />}
       </div>
 
       {/* Iteration Groups */}
@@ -297,6 +366,8 @@ export function AgentTimeline({ agentRun, onStop, onPause, onOpenFile, onNewRun
             group={group}
             isLatest={idx === iterationGroups.length - 1}
             onOpenFile={onOpenFile}
+            onRevertPatch={onRevertPatch}
+            canRevertPatch={canRevertPatch}
           />
         ))}
 
@@ -1,7 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
-import { X, RefreshCw, Rocket, AlertTriangle, CheckCircle2, XCircle, Clock, Globe, Zap, Filter } from 'lucide-react';
+import { X, RefreshCw, Rocket, AlertTriangle, CheckCircle2, XCircle, Clock, Globe, Zap, Filter, Package, Download } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { toast } from '@/hooks/use-toast';
+import {
+  listArtifactsRemote, captureArtifactsRemote, setArtifactGlobsRemote, downloadArtifactRemote,
+  type ArtifactCapture, type BuildArtifact,
+} from '@/lib/api-client';
 
 interface Deployment {
   id: string;
@@ -39,6 +44,130 @@ const DEPLOY_PATTERNS = [
   /^make\s+(deploy|build|release)/,
 ];
 
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${bytes} B`;
+}
+
+/** Artifact globs, captured build outputs and their downloads. */
+function ArtifactsTab({ projectId, timeAgo }: { projectId: string; timeAgo: (date: Date) => string }) {
+  const [globsText, setGlobsText] = useState('');
+  const [captures, setCaptures] = useState<ArtifactCapture[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { globs, captures } = await listArtifactsRemote(projectId);
+      setGlobsText(globs.join('\n'));
+      setCaptures(captures);
+    } catch (err) {
+      toast({ title: 'Could not load artifacts', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+    }
+    setLoading(false);
+  }, [projectId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const saveGlobs = async () => {
+    setBusy(true);
+    try {
+      const globs = await setArtifactGlobsRemote(projectId, globsText.split('\n').map(g => g.trim()).filter(Boolean));
+      setGlobsText(globs.join('\n'));
+      toast({ title: globs.length > 0 ? 'Artifact globs saved' : 'Artifact capture turned off' });
+    } catch (err) {
+      toast({ title: 'Could not save globs', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+    }
+    setBusy(false);
+  };
+
+  const captureNow = async () => {
+    setBusy(true);
+    try {
+      const capture = await captureArtifactsRemote(projectId);
+      toast({
+        title: capture.reused ? 'Nothing changed since the last capture' : `Captured ${capture.artifacts.length} artifact(s)`,
+      });
+      await load();
+    } catch (err) {
+      toast({ title: 'Capture failed', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+    }
+    setBusy(false);
+  };
+
+  const download = async (artifact: BuildArtifact) => {
+    try {
+      const blob = await downloadArtifactRemote(projectId, artifact.sha256);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = artifact.path.split('/').pop() || 'artifact';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast({ title: 'Download failed', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="max-h-[380px] overflow-auto">
+      <div className="px-4 py-2.5 border-b border-border/50 space-y-1.5">
+        <p className="text-[10px] text-muted-foreground">
+          Files matching these globs are captured after each successful run, one per line (e.g. <code>dist/**</code>, <code>!**/*.map</code>).
+        </p>
+        <textarea
+          value={globsText}
+          onChange={e => setGlobsText(e.target.value)}
+          rows={2}
+          placeholder="dist/**"
+          className="w-full bg-input text-foreground text-xs font-mono px-2 py-1 rounded-sm border border-border outline-none resize-none"
+        />
+        <div className="flex items-center gap-2">
+          <button onClick={saveGlobs} disabled={busy} className="text-[10px] px-2 py-0.5 rounded-sm bg-primary/10 text-primary hover:bg-primary/20 disabled:opacity-50">
+            Save globs
+          </button>
+          <button onClick={captureNow} disabled={busy} className="text-[10px] px-2 py-0.5 rounded-sm bg-muted text-muted-foreground hover:text-foreground disabled:opacity-50">
+            Capture now
+          </button>
+        </div>
+      </div>
+      {loading && <p className="text-xs text-muted-foreground text-center py-8">Loading...</p>}
+      {!loading && captures.length === 0 && (
+        <p className="text-xs text-muted-foreground text-center py-8">No artifacts captured yet. Set globs and run a build.</p>
+      )}
+      {!loading && captures.map(capture => (
+        <div key={capture.id} className="px-4 py-2.5 border-b border-border/50">
+          <div className="flex items-center gap-2">
+            <Package className="h-3.5 w-3.5 text-primary shrink-0" />
+            <code className="text-xs font-mono text-foreground truncate">{capture.command || 'On-demand capture'}</code>
+            {capture.build_run_id && (
+              <span className="text-[9px] px-1 py-0.5 bg-ide-success/10 text-ide-success rounded-sm shrink-0">attested</span>
+            )}
+            <span className="text-[10px] text-muted-foreground ml-auto shrink-0">
+              {capture.file_count} files · {formatBytes(capture.total_bytes)} · {timeAgo(new Date(capture.created_at))}
+            </span>
+          </div>
+          {capture.artifacts.map(artifact => (
+            <div key={artifact.path} className="flex items-center gap-2 pl-5 mt-0.5 group">
+              <span className="text-[10px] font-mono text-muted-foreground truncate">{artifact.path}</span>
+              <span className="text-[9px] font-mono text-muted-foreground/60 shrink-0" title={artifact.sha256}>{artifact.sha256.slice(0, 12)}</span>
+              <span className="text-[9px] text-muted-foreground/60 shrink-0">{formatBytes(artifact.size)}</span>
+              <button onClick={() => download(artifact)} className="ml-auto p-0.5 hover:bg-muted rounded-sm opacity-0 group-hover:opacity-100" title="Download">
+                <Download className="h-3 w-3 text-muted-foreground" />
+              </button>
+            </div>
+          ))}
+          {capture.skipped.length > 0 && (
+            <p className="text-[10px] text-ide-warning pl-5 mt-0.5">{capture.skipped.length} matching file(s) left out: {capture.skipped[0].reason}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function CICDPanel({ projectId, onClose }: CICDPanelProps) {
   const [deployments, setDeployments] = useState<Deployment[]>([]);
   const [hookExecs, setHookExecs] = useState<HookExec[]>([]);
@@ -196,6 +325,9 @@ export function CICDPanel({ projectId, onClose }: CICDPanelProps) {
             <TabsTrigger value="webhooks" className="text-xs data-[state=active]:bg-muted gap-1">
               <Globe className="h-3 w-3" /> Webhook Delivery
             </TabsTrigger>
+            <TabsTrigger value="artifacts" className="text-xs data-[state=active]:bg-muted gap-1">
+              <Package className="h-3 w-3" /> Artifacts
+            </TabsTrigger>
           </TabsList>
 
           {/* Deployments Tab */}
@@ -307,6 +439,11 @@ export function CICDPanel({ projectId, onClose }: CICDPanelProps) {
               ))}
             </div>
           </TabsContent>
+
+          {/* Artifacts Tab */}
+          <TabsContent value="artifacts" className="mt-0">
+            <ArtifactsTab projectId={projectId} timeAgo={timeAgo} />
+          </TabsContent>
         </Tabs>
 
         {/* Footer */}
@@ -6,11 +6,15 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useIDE } from '@/contexts/IDEContext';
 import { ContextChip } from '@/types/ide';
+import type { ToolCall, ToolInput } from '@/types/tools';
 import { PermissionPrompt } from './PermissionPrompt';
 import { PatchPreviewPanel } from './PatchPreview';
 import { ToolCallDisplay } from './ToolCallDisplay';
 import { ModelSelector } from './ModelSelector';
 import { extractCommandsFromMessage } from '@/lib/patch-utils';
+import { evaluatePermission, webResultChip } from '@/lib/tool-executor';
+import { runWebToolRemote } from '@/lib/api-client';
+import { toast } from '@/hooks/use-toast';
 import { ChatHeader } from './chat/ChatHeader';
 import { AssistantMessage } from './chat/AssistantMessage';
 import { ActionCard } from './chat/ActionCard';
@@ -26,11 +30,11 @@ export function ChatPanel() {
   const {
     chatMessages, sendMessage, selectedText, activeTabId, getFileById, runs,
     toolCalls, pendingPatches, approveToolCall, denyToolCall, alwaysAllowTool, alwaysAllowCommand,
-    applyPatch, applyPatchAndRun, cancelPatch,
+    applyPatch, applyPatchAndRun, cancelPatch, revertPatch,
     startAgent, setActiveRightPanel, agentRun, runCommand,
     conversations, activeConversationId, switchConversation, newConversation, deleteConversation,
     selectedModel, setSelectedModel,
-    activeSkills,
+    activeSkills, permissionPolicy,
   } = useIDE();
   const [input, setInput] = useState('');
   const [chips, setChips] = useState<ContextChip[]>([]);
@@ -61,6 +65,18 @@ export function ChatPanel() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages, toolCalls, pendingPatches]);
 
+  // Attach finished web_fetch / web_search results to the next message
+  const attachedToolIds = useRef(new Set<string>());
+  useEffect(() => {
+    for (const tc of toolCalls) {
+      if (tc.status !== 'completed' || !tc.result || attachedToolIds.current.has(tc.id)) continue;
+      const chip = webResultChip(tc, tc.result);
+      if (!chip) continue;
+      attachedToolIds.current.add(tc.id);
+      setChips(prev => [...prev, chip]);
+    }
+  }, [toolCalls]);
+
   const addChip = (type: ContextChip['type']) => {
     hesitation.recordActivity();
     if (type === 'selection' && selectedText) {
@@ -88,12 +104,22 @@ export function ChatPanel() {
 
   const confirmChipDialog = () => {
     if (!chipDialog || !chipDialog.value.trim()) return;
-    if (chipDialog.type === 'url') {
-      setChips(prev => [...prev, { type: 'url', label: chipDialog.value.slice(0, 30), content: `[Fetch URL: ${chipDialog.value}]` }]);
-    } else {
-      setChips(prev => [...prev, { type: 'web', label: chipDialog.value.slice(0, 30), content: `[Web Search: ${chipDialog.value}]` }]);
-    }
+    const value = chipDialog.value.trim();
+    const call: ToolCall = chipDialog.type === 'url'
+      ? { id: `chip-${Date.now()}`, tool: 'web_fetch', input: { url: value }, status: 'approved', timestamp: new Date() }
+      : { id: `chip-${Date.now()}`, tool: 'web_search', input: { query: value }, status: 'approved', timestamp: new Date() };
     setChipDialog(null);
+    if (evaluatePermission(call, permissionPolicy) === 'deny') {
+      toast({ title: 'URL blocked', description: `${value} is not allowed by the domain policy`, variant: 'destructive' });
+      return;
+    }
+    runWebToolRemote(call.tool as 'web_fetch' | 'web_search', call.input as ToolInput['web_fetch'] | ToolInput['web_search'], permissionPolicy)
+      .then(result => {
+        const chip = webResultChip(call, result);
+        if (chip) setChips(prev => [...prev, chip]);
+        else toast({ title: call.tool === 'web_fetch' ? 'Fetch failed' : 'Search failed', description: result.error, variant: 'destructive' });
+      })
+      .catch(err => toast({ title: 'Web request failed', description: err instanceof Error ? err.message : String(err), variant: 'destructive' }));
   };
 
   const handleImageUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -302,6 +328,7 @@ export function ChatPanel() {
             key={patch.id} patch={patch}
             onApply={() => {}} onApplyAndRun={() => {}} onCancel={() => {}}
             onCopyPatch={() => navigator.clipboard.writeText(patch.raw)}
+            onRevert={() => revertPatch(patch.id)}
           />
         ))}
 
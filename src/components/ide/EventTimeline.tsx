@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import {
   Activity, FileCode, Play, Plug, Brain, Clock, Filter,
-  RefreshCw, Zap, GitMerge, CheckCircle, XCircle, Eye,
+  RefreshCw, Zap, GitMerge, CheckCircle, XCircle, Eye, RotateCcw, Package, Server,
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useIDE } from '@/contexts/IDEContext';
@@ -25,6 +25,18 @@ const EVENT_ICONS: Record<string, React.ReactNode> = {
   'mcp.call': <Plug className="h-3 w-3" />,
   'agent.step': <Brain className="h-3 w-3" />,
   'ref.merged': <GitMerge className="h-3 w-3" />,
+  'merge.conflicted': <XCircle className="h-3 w-3" />,
+  'merge.aborted': <XCircle className="h-3 w-3" />,
+  'ref.rebased': <GitMerge className="h-3 w-3" />,
+  'snapshot.cherry_picked': <GitMerge className="h-3 w-3" />,
+  'tag.created': <GitMerge className="h-3 w-3" />,
+  'git.imported': <GitMerge className="h-3 w-3" />,
+  'git.exported': <GitMerge className="h-3 w-3" />,
+  'snapshot.gc': <RefreshCw className="h-3 w-3" />,
+  'replay.requested': <RotateCcw className="h-3 w-3" />,
+  'replay.done': <RotateCcw className="h-3 w-3" />,
+  'artifacts.captured': <Package className="h-3 w-3" />,
+  'runner.failover': <Server className="h-3 w-3" />,
 };
 
 const EVENT_COLORS: Record<string, string> = {
@@ -35,12 +47,24 @@ const EVENT_COLORS: Record<string, string> = {
   'mcp.call': 'text-cyan-400 bg-cyan-500/10',
   'agent.step': 'text-pink-400 bg-pink-500/10',
   'ref.merged': 'text-indigo-400 bg-indigo-500/10',
+  'merge.conflicted': 'text-amber-400 bg-amber-500/10',
+  'merge.aborted': 'text-muted-foreground bg-muted',
+  'ref.rebased': 'text-indigo-400 bg-indigo-500/10',
+  'snapshot.cherry_picked': 'text-purple-400 bg-purple-500/10',
+  'tag.created': 'text-purple-400 bg-purple-500/10',
+  'git.imported': 'text-indigo-400 bg-indigo-500/10',
+  'git.exported': 'text-muted-foreground bg-muted',
+  'snapshot.gc': 'text-muted-foreground bg-muted',
+  'replay.requested': 'text-amber-400 bg-amber-500/10',
+  'replay.done': 'text-emerald-400 bg-emerald-500/10',
+  'artifacts.captured': 'text-primary bg-primary/10',
+  'runner.failover': 'text-amber-400 bg-amber-500/10',
 };
 
 const FILTER_OPTIONS = ['all', 'patch', 'run', 'mcp', 'agent', 'snapshot'] as const;
 
 export function EventTimeline() {
-  const { project } = useIDE();
+  const { project, buildReplay, replayBuild } = useIDE();
   const [events, setEvents] = useState<ProjectEvent[]>([]);
   const [filter, setFilter] = useState<typeof FILTER_OPTIONS[number]>('all');
   const [loading, setLoading] = useState(false);
@@ -121,6 +145,34 @@ export function EventTimeline() {
         return `Agent: ${e.payload.title || ''}`;
       case 'ref.merged':
         return `Merged: ${e.payload.source_ref} → ${e.payload.target_ref}`;
+      case 'merge.conflicted':
+        return `Merge conflicts: ${((e.payload.paths as string[]) || []).length} files`;
+      case 'merge.aborted':
+        return `Merge aborted: ${e.payload.source_ref} → ${e.payload.target_ref}`;
+      case 'ref.rebased':
+        return `Rebased: ${e.payload.source_ref} onto ${e.payload.onto_ref}`;
+      case 'snapshot.cherry_picked':
+        return `Cherry-picked onto ${e.payload.target_ref}`;
+      case 'tag.created':
+        return `Tagged: ${e.payload.tag_name}`;
+      case 'git.imported':
+        return `Imported ${e.payload.commits} git commit(s)`;
+      case 'git.exported':
+        return `Exported ${e.payload.ref_name} as a git bundle`;
+      case 'snapshot.gc':
+        return `Collected ${e.payload.snapshots} snapshot(s)`;
+      case 'replay.requested':
+        return 'Replaying attested build';
+      case 'replay.done':
+        return e.payload.error
+          ? 'Replay failed'
+          : `Replay: ${String(e.payload.verdict).replace(/_/g, ' ')}`;
+      case 'artifacts.captured':
+        return `Artifacts: ${e.payload.files} files`;
+      case 'runner.failover':
+        return `Runner failed over to ${e.payload.to_node_name || 'another node'}`;
+      case 'ref_rule.updated':
+        return `Ref rule: ${e.payload.pattern}${e.payload.protected ? ' (protected)' : ''}`;
       default:
         return e.event_type;
     }
@@ -204,6 +256,17 @@ export function EventTimeline() {
                           Attested
                         </span>
                       )}
+                      {event.event_type === 'run.done' && event.payload.attestation_hash && event.payload.build_run_id && (
+                        <button
+                          onClick={() => replayBuild(event.payload.build_run_id as string)}
+                          disabled={buildReplay?.status === 'running'}
+                          className="flex items-center gap-0.5 hover:text-foreground disabled:opacity-50"
+                          title="Re-run this build in a fresh workspace and compare with its attestation"
+                        >
+                          <RotateCcw className="h-2 w-2" />
+                          Replay
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
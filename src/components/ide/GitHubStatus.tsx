@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { GitBranch, Github, Loader2, ExternalLink } from 'lucide-react';
 import { callMCPTool } from '@/lib/mcp-client';
+import { useIDE } from '@/contexts/IDEContext';
+import { useMcpCredentials } from '@/hooks/use-mcp-credentials';
 
 interface GitHubStatusProps {
   className?: string;
@@ -15,51 +17,25 @@ interface RepoInfo {
 }
 
 export function GitHubStatus({ className }: GitHubStatusProps) {
+  const { project } = useIDE();
+  const { credentialFor } = useMcpCredentials(project.id);
   const [repo, setRepo] = useState<RepoInfo | null>(null);
   const [loading, setLoading] = useState(false);
-  const [connected, setConnected] = useState(false);
+  const credential = credentialFor('mcp-github');
+  const connected = !!credential;
+  const credentialVersion = credential ? `${credential.id}:${credential.updated_at}` : null;
 
+  // Refetch when the stored token is set, replaced or removed
   useEffect(() => {
-    const token = localStorage.getItem('github_pat');
-    if (!token) {
-      setConnected(false);
+    if (!credentialVersion) {
       setRepo(null);
       return;
     }
-    setConnected(true);
-    fetchCurrentRepo(token);
-  }, []);
-
-  // Listen for storage changes (token set/removed)
-  useEffect(() => {
-    const handler = () => {
-      const token = localStorage.getItem('github_pat');
-      if (token) {
-        setConnected(true);
-        fetchCurrentRepo(token);
-      } else {
-        setConnected(false);
-        setRepo(null);
-      }
-    };
-    window.addEventListener('storage', handler);
-    window.addEventListener('github-token-changed', handler);
-    return () => {
-      window.removeEventListener('storage', handler);
-      window.removeEventListener('github-token-changed', handler);
-    };
-  }, []);
-
-  const fetchCurrentRepo = async (token: string) => {
+    let cancelled = false;
     setLoading(true);
-    try {
-      const result = await callMCPTool({
-        tool: 'github_list_repos',
-        input: { per_page: 1 },
-        serverId: 'mcp-github',
-        githubToken: token,
-      });
-      if (result.ok && Array.isArray(result.result) && result.result.length > 0) {
+    callMCPTool({ tool: 'github_list_repos', input: { per_page: 1 }, serverId: 'mcp-github', projectId: project.id })
+      .then(result => {
+        if (cancelled || !result.ok || !Array.isArray(result.result) || result.result.length === 0) return;
         const r = result.result[0];
         setRepo({
           name: r.name,
@@ -68,12 +44,11 @@ export function GitHubStatus({ className }: GitHubStatusProps) {
           html_url: r.html_url,
           private: r.private,
         });
-      }
-    } catch {
-      // ignore
-    }
-    setLoading(false);
-  };
+      })
+      .catch(() => { /* ignore */ })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [project.id, credentialVersion]);
 
   if (!connected) return null;
 
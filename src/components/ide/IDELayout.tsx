@@ -40,12 +40,14 @@ export function IDELayout() {
   const {
     showChat, toggleChat, toggleOutput, showOutput, project, runCommand,
     openFile, files, theme, toggleTheme, sendMessage, selectedText,
-    agentRun, stopAgent, pauseAgent, clearAgentRun,
+    agentRun, stopAgent, pauseAgent, clearAgentRun, pendingPatches, revertPatch,
     activeRightPanel, setActiveRightPanel,
     mcpServers, toggleMCPServer,
     hooks, toggleHook, addHook, removeHook,
     webhookSecrets, hookExecutions, generateWebhookSecret, deleteWebhookSecret, refreshHookExecutions,
     snapshots, snapshotsLoading, loadSnapshots, createSnapshot, restoreSnapshot,
+    refs, tags, createTag, pendingMerge, mergeRef, resolveMerge, abortMerge, rebaseRef, exportGit, importGit,
+    storageUsage, collectGarbage, buildReplay,
     projects, switchProject, createProject, renameProject, deleteProject,
     collaborators, collabMessages, fileLocks, presenceUsers,
     isProjectOwner, inviteCollaborator, removeCollaborator, sendCollabMessage,
@@ -346,6 +348,11 @@ export function IDELayout() {
                       clearAgentRun();
                       setActiveRightPanel('chat');
                     }}
+                    onRevertPatch={revertPatch}
+                    canRevertPatch={(patchId) => pendingPatches.some(p =>
+                      p.id === patchId && !!p.inverse && (p.status === 'applied' || p.status === 'failed')
+                    )}
+                    replay={buildReplay}
                   />
                 )}
               </Panel>
@@ -384,9 +391,22 @@ export function IDELayout() {
         <SnapshotBrowser
           snapshots={snapshots}
           loading={snapshotsLoading}
+          refs={refs}
+          tags={tags}
+          pendingMerge={pendingMerge}
           onClose={() => setShowSnapshots(false)}
           onCreateSnapshot={(label) => createSnapshot(label)}
           onRestoreSnapshot={(id) => { restoreSnapshot(id); setShowSnapshots(false); }}
+          onMergeRef={mergeRef}
+          onRebaseRef={rebaseRef}
+          onCreateTag={createTag}
+          onExportGit={exportGit}
+          onImportGit={importGit}
+          storageUsage={storageUsage}
+          isOwner={isProjectOwner}
+          onCollectGarbage={collectGarbage}
+          onResolveMerge={resolveMerge}
+          onAbortMerge={abortMerge}
         />
       )}
       {showProjectSwitcher && (
@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { Plus, RefreshCw, Trash2, Check, ChevronRight, ChevronDown, Wrench, FileText, MessageSquare, Loader2 } from 'lucide-react';
+import { MCPServer, MCPConnection } from '@/types/agent';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { useIDE } from '@/contexts/IDEContext';
+import { callMCPTool } from '@/lib/mcp-client';
+import { validateMcpServerConfig, type McpServerConfig, type McpTransportKind } from '../../../supabase/functions/_shared/mcp';
+
+interface MCPConnectionsProps {
+  /** mcpServers entries built from the project's connections, for their on/off state */
+  servers: MCPServer[];
+  onToggleServer: (serverId: string) => void;
+}
+
+const TRANSPORTS: { value: McpTransportKind; label: string }[] = [
+  { value: 'stdio', label: 'stdio (runner)' },
+  { value: 'http', label: 'Streamable HTTP' },
+  { value: 'sse', label: 'HTTP + SSE' },
+];
+
+/** `KEY=value` lines for environment variables, `Name: value` lines for headers */
+function parseSecrets(text: string, separator: '=' | ':'): Record<string, string> {
+  const entries: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const at = line.indexOf(separator);
+    if (at <= 0) continue;
+    entries[line.slice(0, at).trim()] = line.slice(at + 1).trim();
+  }
+  return entries;
+}
+
+const STATUS_DOT: Record<MCPConnection['status'], string> = {
+  connected: 'bg-ide-success',
+  pending: 'bg-ide-warning',
+  error: 'bg-destructive',
+};
+
+export function MCPConnections({ servers, onToggleServer }: MCPConnectionsProps) {
+  const { project, mcpConnections, addMCPConnection, refreshMCPConnection, removeMCPConnection } = useIDE();
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [transport, setTransport] = useState<McpTransportKind>('stdio');
+  const [command, setCommand] = useState('');
+  const [url, setUrl] = useState('');
+  const [secrets, setSecrets] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const handleAdd = async () => {
+    const [cmd, ...args] = command.trim().split(/\s+/);
+    const server: McpServerConfig = transport === 'stdio'
+      ? { name: name.trim(), transport, command: cmd, args, env: parseSecrets(secrets, '=') }
+      : { name: name.trim(), transport, url: url.trim(), headers: parseSecrets(secrets, ':') };
+    const invalid = validateMcpServerConfig(server);
+    if (invalid) { setMessage({ ok: false, text: invalid }); return; }
+
+    setBusyId('new');
+    setMessage(null);
+    try {
+      const connection = await addMCPConnection(server);
+      setMessage(connection.status === 'connected'
+        ? { ok: true, text: `✓ ${connection.name}: ${connection.tools.length} tool(s)` }
+        : { ok: false, text: connection.last_error || `${connection.name} did not connect` });
+      setAdding(false);
+      setName(''); setCommand(''); setUrl(''); setSecrets('');
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : 'Failed to add server' });
+    }
+    setBusyId(null);
+  };
+
+  const run = async (connectionId: string, action: () => Promise<void>) => {
+    setBusyId(connectionId);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : 'Failed' });
+    }
+    setBusyId(null);
+  };
+
+  const handleTestTool = (server: MCPServer, toolName: string) => run(server.connectionId || '', async () => {
+    const result = await callMCPTool({ serverId: server.id, tool: toolName, input: {}, projectId: project.id });
+    setMessage(result.ok ? { ok: true, text: `✓ ${toolName} returned` } : { ok: false, text: result.error || 'Unknown error' });
+  });
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 px-2 py-1.5">
+        <span className="text-sm">🔌</span>
+        <span className="text-xs font-semibold text-foreground tracking-wide uppercase flex-1">Project MCP Servers</span>
+        <button
+          onClick={() => setAdding(a => !a)}
+          className="text-[10px] px-1.5 py-0.5 bg-primary/10 text-primary rounded-sm hover:bg-primary/20 flex items-center gap-0.5"
+        >
+          <Plus className="h-2.5 w-2.5" /> Add
+        </button>
+      </div>
+
+      {adding && (
+        <div className="mx-1 mb-2 p-2.5 border border-border rounded-md space-y-2">
+          <Input
+            placeholder="name, e.g. filesystem"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className="h-7 text-xs bg-background font-mono"
+          />
+          <div className="flex gap-1">
+            {TRANSPORTS.map(t => (
+              <button
+                key={t.value}
+                onClick={() => setTransport(t.value)}
+                className={`flex-1 px-2 py-1 text-[10px] rounded-sm transition-colors ${
+                  transport === t.value ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground hover:bg-accent'
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+          {transport === 'stdio' ? (
+            <Input
+              placeholder="npx -y @modelcontextprotocol/server-filesystem ."
+              value={command}
+              onChange={e => setCommand(e.target.value)}
+              className="h-7 text-xs bg-background font-mono"
+            />
+          ) : (
+            <Input
+              placeholder="https://mcp.example.com/mcp"
+              value={url}
+              onChange={e => setUrl(e.target.value)}
+              className="h-7 text-xs bg-background font-mono"
+            />
+          )}
+          <Textarea
+            placeholder={transport === 'stdio' ? 'Environment, one KEY=value per line' : 'Headers, one Name: value per line'}
+            value={secrets}
+            onChange={e => setSecrets(e.target.value)}
+            className="min-h-[48px] text-xs bg-background font-mono"
+          />
+          <Button size="sm" onClick={handleAdd} disabled={busyId === 'new' || !name.trim()} className="h-7 text-xs w-full gap-1.5">
+            {busyId === 'new' && <Loader2 className="h-3 w-3 animate-spin" />}
+            Connect
+          </Button>
+          <p className="text-[10px] text-muted-foreground">
+            stdio servers run in this project's runner session. Secrets are stored server-side and never sent back to the browser.
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-1 ml-1">
+        {mcpConnections.map(connection => {
+          const server = servers.find(s => s.connectionId === connection.id);
+          const isExpanded = expandedId === connection.id;
+          const busy = busyId === connection.id;
+
+          return (
+            <div key={connection.id} className="border border-border rounded-md overflow-hidden">
+              <div
+                className="flex items-center gap-3 px-3 py-2.5 cursor-pointer hover:bg-accent/30 transition-colors"
+                onClick={() => setExpandedId(isExpanded ? null : connection.id)}
+              >
+                <span className={`h-2 w-2 rounded-full shrink-0 ${STATUS_DOT[connection.status]}`} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-foreground">{connection.name}</span>
+                    <span className="text-[10px] px-1.5 py-0.5 bg-muted text-muted-foreground rounded-sm">{connection.transport}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {connection.status === 'error'
+                      ? connection.last_error
+                      : `${connection.server_info?.name || connection.command || connection.url} · ${connection.tools.length} tools`}
+                  </p>
+                </div>
+                <button
+                  onClick={e => { e.stopPropagation(); run(connection.id, () => refreshMCPConnection(connection.id)); }}
+                  disabled={busy}
+                  className="p-1 hover:bg-muted rounded-sm"
+                  title="Refresh"
+                >
+                  <RefreshCw className={`h-3 w-3 text-muted-foreground ${busy ? 'animate-spin' : ''}`} />
+                </button>
+                <button
+                  onClick={e => { e.stopPropagation(); run(connection.id, () => removeMCPConnection(connection.id)); }}
+                  disabled={busy}
+                  className="p-1 hover:bg-muted rounded-sm"
+                  title="Remove"
+                >
+                  <Trash2 className="h-3 w-3 text-muted-foreground" />
+                </button>
+                {server && (
+                  <button
+                    onClick={e => { e.stopPropagation(); onToggleServer(server.id); }}
+                    className={`px-2.5 py-1 text-xs rounded-sm transition-colors ${
+                      server.enabled
+                        ? 'bg-ide-success/10 text-ide-success hover:bg-ide-success/20'
+                        : 'bg-muted text-muted-foreground hover:bg-accent'
+                    }`}
+                  >
+                    {server.enabled ? <span className="flex items-center gap-1"><Check className="h-3 w-3" /> On</span> : 'Off'}
+                  </button>
+                )}
+                {isExpanded
+                  ? <ChevronDown className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                  : <ChevronRight className="h-3.5 w-3.5 text-muted-foreground shrink-0" />}
+              </div>
+
+              {isExpanded && (
+                <div className="px-3 pb-2.5 pt-0 border-t border-border">
+                  {connection.instructions && (
+                    <p className="mt-2 text-[10px] text-muted-foreground whitespace-pre-wrap">{connection.instructions}</p>
+                  )}
+                  <div className="text-[10px] uppercase tracking-wider text-muted-foreground font-semibold mt-2 mb-1">
+                    Tools ({connection.tools.length})
+                  </div>
+                  <div className="space-y-1">
+                    {connection.tools.map(tool => (
+                      <div key={tool.name} className="flex items-center gap-2 px-2 py-1 bg-muted/50 rounded-sm group">
+                        <Wrench className="h-3 w-3 text-muted-foreground shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <span className="text-xs font-mono text-foreground">{tool.name}</span>
+                          <p className="text-[10px] text-muted-foreground truncate">{tool.description}</p>
+                        </div>
+                        {server && (
+                          <button
+                            onClick={() => handleTestTool(server, tool.name)}
+                            disabled={busy}
+                            className="opacity-0 group-hover:opacity-100 text-[10px] px-1.5 py-0.5 bg-primary/10 text-primary rounded-sm hover:bg-primary/20 transition-all"
+                          >
+                            Test
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-3 mt-2 text-[10px] text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <FileText className="h-3 w-3" /> {connection.resources.length + connection.resource_templates.length} resources
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <MessageSquare className="h-3 w-3" /> {connection.prompts.length} prompts
+                    </span>
+                    {connection.protocol_version && <span>MCP {connection.protocol_version}</span>}
+                  </div>
+                  {(connection.header_names.length > 0 || connection.env_names.length > 0) && (
+                    <p className="mt-1 text-[10px] text-muted-foreground font-mono truncate">
+                      {[...connection.header_names, ...connection.env_names].join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {mcpConnections.length === 0 && !adding && (
+          <p className="px-2 text-[10px] text-muted-foreground">
+            Connect any MCP server over stdio, Streamable HTTP or SSE; its tools become available to chat and the agent.
+          </p>
+        )}
+      </div>
+
+      {message && (
+        <div className={`mt-2 mx-1 text-[10px] px-2 py-1.5 rounded-sm ${
+          message.ok ? 'bg-ide-success/10 text-ide-success' : 'bg-destructive/10 text-destructive'
+        }`}>
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+}
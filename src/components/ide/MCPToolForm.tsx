@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Loader2, Play } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { validateSchema, type JsonSchema, type SchemaIssue } from '../../../supabase/functions/_shared/tool-schemas';
+
+interface MCPToolFormProps {
+  schema: JsonSchema;
+  running: boolean;
+  /** Issues the last call came back with, e.g. from the server's own check */
+  issues?: SchemaIssue[];
+  onRun: (input: Record<string, unknown>) => void;
+  onCancel: () => void;
+}
+
+type FieldKind = 'text' | 'number' | 'boolean' | 'choice' | 'json';
+
+/** How a property is edited: scalars get their own control, anything structured is typed as JSON */
+function fieldKind(schema: JsonSchema): FieldKind {
+  if (schema.enum) return 'choice';
+  const type = Array.isArray(schema.type) ? undefined : schema.type;
+  if (type === 'string') return 'text';
+  if (type === 'number' || type === 'integer') return 'number';
+  if (type === 'boolean') return 'boolean';
+  return 'json';
+}
+
+function placeholderFor(schema: JsonSchema, kind: FieldKind): string {
+  if (schema.default !== undefined) return `Default: ${typeof schema.default === 'string' ? schema.default : JSON.stringify(schema.default)}`;
+  if (kind === 'json') return schema.type === 'array' ? '[ … ]' : '{ … }';
+  return schema.format ?? '';
+}
+
+/** The tool input for the values typed so far; empty fields are left out so the server's defaults apply */
+function buildInput(properties: [string, JsonSchema][], values: Record<string, string>): { input: Record<string, unknown>; parseIssues: SchemaIssue[] } {
+  const input: Record<string, unknown> = {};
+  const parseIssues: SchemaIssue[] = [];
+  for (const [name, property] of properties) {
+    const raw = values[name];
+    if (raw === undefined || raw === '') continue;
+    switch (fieldKind(property)) {
+      case 'number': input[name] = Number(raw); break;
+      case 'boolean': input[name] = raw === 'true'; break;
+      case 'json':
+        try {
+          input[name] = JSON.parse(raw);
+        } catch {
+          parseIssues.push({ path: name, code: 'type', message: `${name} must be valid JSON` });
+        }
+        break;
+      default: input[name] = raw;
+    }
+  }
+  return { input, parseIssues };
+}
+
+/** A form for a tool's input, generated from its input schema and checked against it before running */
+export function MCPToolForm({ schema, running, issues = [], onRun, onCancel }: MCPToolFormProps) {
+  const properties = Object.entries(schema.properties ?? {});
+  const required = new Set(schema.required ?? []);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [localIssues, setLocalIssues] = useState<SchemaIssue[]>([]);
+
+  const shown = localIssues.length > 0 ? localIssues : issues;
+  const issuesFor = (name: string) => shown.filter(i => i.path === name || i.path.startsWith(`${name}.`));
+  const inputIssues = shown.filter(i => !properties.some(([name]) => i.path === name || i.path.startsWith(`${name}.`)));
+
+  const set = (name: string, value: string) => {
+    setValues(v => ({ ...v, [name]: value }));
+    setLocalIssues(current => current.filter(i => i.path !== name && !i.path.startsWith(`${name}.`)));
+  };
+
+  const handleRun = () => {
+    const { input, parseIssues } = buildInput(properties, values);
+    const found = parseIssues.length > 0 ? parseIssues : validateSchema(schema, input);
+    setLocalIssues(found);
+    if (found.length === 0) onRun(input);
+  };
+
+  return (
+    <div className="mt-1 mb-1 ml-5 p-2 rounded-sm border border-border bg-background space-y-1.5">
+      {properties.map(([name, property]) => {
+        const kind = fieldKind(property);
+        const fieldIssues = issuesFor(name);
+        const invalid = fieldIssues.length > 0 ? 'border-destructive' : '';
+        return (
+          <div key={name}>
+            <label className="flex items-baseline gap-1 text-[10px] font-mono text-foreground">
+              {name}{required.has(name) && <span className="text-destructive">*</span>}
+              {property.description && <span className="font-sans text-muted-foreground truncate">— {property.description}</span>}
+            </label>
+            {kind === 'choice' || kind === 'boolean' ? (
+              <select
+                value={values[name] ?? ''}
+                onChange={e => set(name, e.target.value)}
+                className={`w-full bg-input text-foreground text-xs px-2 py-1 rounded-sm border border-border outline-none ${invalid}`}
+              >
+                <option value="">{placeholderFor(property, kind) || '—'}</option>
+                {(kind === 'boolean' ? ['true', 'false'] : (property.enum ?? []).map(String)).map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            ) : kind === 'json' ? (
+              <Textarea
+                value={values[name] ?? ''}
+                onChange={e => set(name, e.target.value)}
+                placeholder={placeholderFor(property, kind)}
+                rows={2}
+                className={`min-h-0 text-xs font-mono bg-background resize-none ${invalid}`}
+              />
+            ) : (
+              <Input
+                type={kind === 'number' ? 'number' : 'text'}
+                value={values[name] ?? ''}
+                onChange={e => set(name, e.target.value)}
+                placeholder={placeholderFor(property, kind)}
+                className={`h-7 text-xs bg-background font-mono ${invalid}`}
+              />
+            )}
+            {fieldIssues.map(i => (
+              <p key={`${i.path}:${i.code}`} className="text-[10px] text-destructive">{i.message}</p>
+            ))}
+          </div>
+        );
+      })}
+      {inputIssues.map(i => (
+        <p key={`${i.path}:${i.code}`} className="text-[10px] text-destructive">{i.message}</p>
+      ))}
+      <div className="flex items-center gap-2 pt-0.5">
+        <Button size="sm" className="h-6 text-[10px] px-2 gap-1" onClick={handleRun} disabled={running}>
+          {running ? <Loader2 className="h-3 w-3 animate-spin" /> : <Play className="h-3 w-3" />}
+          Run
+        </Button>
+        <button onClick={onCancel} className="text-[10px] text-muted-foreground hover:text-foreground">Cancel</button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,13 @@
 import { useState } from 'react';
-import { Check, X, Play, Copy, FileCode, ChevronDown, ChevronRight, AlertTriangle, Ban } from 'lucide-react';
-import { PatchPreview as PatchPreviewType, ParsedPatch, DiffLine } from '@/types/tools';
+import { Check, X, Play, Copy, FileCode, ChevronDown, ChevronRight, AlertTriangle, Ban, Undo2 } from 'lucide-react';
+import { PatchPreview as PatchPreviewType, ParsedPatch, PatchOperation, DiffLine, HunkResult } from '@/types/tools';
+
+const OPERATION_BADGES: Record<Exclude<PatchOperation, 'modify'>, { label: string; className: string }> = {
+  create: { label: 'NEW', className: 'bg-ide-success/15 text-ide-success' },
+  delete: { label: 'DELETED', className: 'bg-ide-error/15 text-ide-error' },
+  rename: { label: 'RENAMED', className: 'bg-ide-info/15 text-ide-info' },
+  copy: { label: 'COPIED', className: 'bg-ide-info/15 text-ide-info' },
+};
 
 interface PatchPreviewProps {
   patch: PatchPreviewType;
@@ -8,10 +15,11 @@ interface PatchPreviewProps {
   onApplyAndRun: (command: string) => void;
   onCancel: () => void;
   onCopyPatch: () => void;
+  onRevert?: () => void;
   suggestedCommand?: string;
 }
 
-export function PatchPreviewPanel({ patch, onApply, onApplyAndRun, onCancel, onCopyPatch, suggestedCommand }: PatchPreviewProps) {
+export function PatchPreviewPanel({ patch, onApply, onApplyAndRun, onCancel, onCopyPatch, onRevert, suggestedCommand }: PatchPreviewProps) {
   const [expandedFiles, setExpandedFiles] = useState<Set<number>>(new Set());
   const [showFullDiff, setShowFullDiff] = useState(false);
 
@@ -48,6 +56,19 @@ export function PatchPreviewPanel({ patch, onApply, onApplyAndRun, onCancel, onC
   };
 
   const totalStats = getTotalStats();
+  // Partially failed patches can still be reverted for the files that did apply
+  const canRevert = !!onRevert && !!patch.inverse && (patch.status === 'applied' || patch.status === 'failed');
+
+  const revertButton = canRevert && (
+    <button
+      onClick={onRevert}
+      className="flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground transition-colors"
+      title="Revert patch"
+    >
+      <Undo2 className="h-3 w-3" />
+      Revert
+    </button>
+  );
 
   // ─── Compact chip for applied/failed/cancelled ───
   if (patch.status !== 'preview' && !showFullDiff) {
@@ -55,6 +76,7 @@ export function PatchPreviewPanel({ patch, onApply, onApplyAndRun, onCancel, onC
       applied: { icon: <Check className="h-3 w-3" />, label: 'Applied', color: 'text-ide-success', bg: 'bg-ide-success/10', border: 'border-ide-success/20' },
       failed: { icon: <AlertTriangle className="h-3 w-3" />, label: 'Failed', color: 'text-ide-error', bg: 'bg-ide-error/10', border: 'border-ide-error/20' },
       cancelled: { icon: <Ban className="h-3 w-3" />, label: 'Cancelled', color: 'text-muted-foreground', bg: 'bg-muted/50', border: 'border-border' },
+      reverted: { icon: <Undo2 className="h-3 w-3" />, label: 'Reverted', color: 'text-muted-foreground', bg: 'bg-muted/50', border: 'border-border' },
     }[patch.status];
 
     if (!statusConfig) return null;
@@ -83,6 +105,7 @@ export function PatchPreviewPanel({ patch, onApply, onApplyAndRun, onCancel, onC
         >
           <ChevronRight className="h-3 w-3" />
         </button>
+        {revertButton}
         {patch.status === 'failed' && (
           <button
             onClick={onCopyPatch}
@@ -150,6 +173,7 @@ export function PatchPreviewPanel({ patch, onApply, onApplyAndRun, onCancel, onC
             </>
           )}
 
+          {revertButton}
           {patch.status !== 'preview' && (
             <button
               onClick={() => setShowFullDiff(false)}
@@ -173,7 +197,10 @@ export function PatchPreviewPanel({ patch, onApply, onApplyAndRun, onCancel, onC
         {patch.patches.map((p, fileIdx) => {
           const stats = getStats(p);
           const isExpanded = expandedFiles.has(fileIdx);
-          const isNewFile = p.oldFile === '/dev/null';
+          const displayPath = p.operation === 'delete' ? p.oldFile : p.newFile;
+          // results are recorded one per parsed patch, in order
+          const fileResult = patch.results?.[fileIdx];
+          const rejectedCount = fileResult?.hunks.filter(h => h.status === 'rejected').length ?? 0;
 
           return (
             <div key={fileIdx}>
@@ -188,10 +215,30 @@ export function PatchPreviewPanel({ patch, onApply, onApplyAndRun, onCancel, onC
                 )}
                 <FileCode className="h-3 w-3 text-ide-info" />
                 <span className="text-[11px] font-mono text-foreground">
-                  {p.newFile}
+                  {p.operation === 'rename' || p.operation === 'copy' ? `${p.oldFile} → ${p.newFile}` : displayPath}
                 </span>
-                {isNewFile && (
-                  <span className="text-[9px] px-1 py-0.5 bg-ide-success/15 text-ide-success rounded-sm font-semibold">NEW</span>
+                {p.operation !== 'modify' && (
+                  <span className={`text-[9px] px-1 py-0.5 rounded-sm font-semibold ${OPERATION_BADGES[p.operation].className}`}>
+                    {OPERATION_BADGES[p.operation].label}
+                  </span>
+                )}
+                {p.newMode && p.oldMode && p.newMode !== p.oldMode && (
+                  <span className="text-[9px] px-1 py-0.5 bg-muted text-muted-foreground rounded-sm font-mono">
+                    {p.oldMode} → {p.newMode}
+                  </span>
+                )}
+                {p.binary && (
+                  <span className="text-[9px] px-1 py-0.5 bg-muted text-muted-foreground rounded-sm font-semibold">BINARY</span>
+                )}
+                {rejectedCount > 0 && (
+                  <span className="text-[9px] px-1 py-0.5 bg-ide-error/15 text-ide-error rounded-sm font-semibold">
+                    {rejectedCount} REJECTED
+                  </span>
+                )}
+                {fileResult?.status === 'failed' && rejectedCount === 0 && fileResult.error && (
+                  <span className="text-[9px] px-1 py-0.5 bg-ide-error/15 text-ide-error rounded-sm font-semibold">
+                    {fileResult.error}
+                  </span>
                 )}
                 <span className="ml-auto text-[10px] text-muted-foreground">
                   <span className="text-ide-success">+{stats.adds}</span>
@@ -204,8 +251,9 @@ export function PatchPreviewPanel({ patch, onApply, onApplyAndRun, onCancel, onC
                 <div className="font-mono text-[11px] leading-[18px]">
                   {p.hunks.map((hunk, hunkIdx) => (
                     <div key={hunkIdx}>
-                      <div className="px-3 py-0.5 bg-ide-info/5 text-ide-info text-[10px]">
-                        @@ -{hunk.oldStart},{hunk.oldCount} +{hunk.newStart},{hunk.newCount} @@
+                      <div className="flex items-center gap-2 px-3 py-0.5 bg-ide-info/5 text-ide-info text-[10px]">
+                        <span>@@ -{hunk.oldStart},{hunk.oldCount} +{hunk.newStart},{hunk.newCount} @@</span>
+                        <HunkStatusBadge result={fileResult?.hunks.find(h => h.index === hunkIdx)} />
                       </div>
                       {hunk.lines.map((line, lineIdx) => (
                         <DiffLineRow key={lineIdx} line={line} />
@@ -222,6 +270,23 @@ export function PatchPreviewPanel({ patch, onApply, onApplyAndRun, onCancel, onC
   );
 }
 
+function HunkStatusBadge({ result }: { result?: HunkResult }) {
+  if (!result || result.status === 'applied') return null;
+
+  if (result.status === 'rejected') {
+    return (
+      <span className="text-ide-error truncate" title={result.reason}>
+        rejected{result.reason ? ` — ${result.reason}` : ''}
+      </span>
+    );
+  }
+
+  const parts: string[] = [];
+  if (result.offset !== 0) parts.push(`offset ${result.offset > 0 ? '+' : ''}${result.offset}`);
+  if (result.fuzz > 0) parts.push(`fuzz ${result.fuzz}`);
+  return <span className="text-ide-warning">applied at line {result.appliedAt} ({parts.join(', ')})</span>;
+}
+
 function DiffLineRow({ line }: { line: DiffLine }) {
   const config = {
     add: { prefix: '+', bg: 'bg-ide-success/8', text: 'text-ide-success', gutter: 'bg-ide-success/15' },
@@ -1,4 +1,4 @@
-import { Shield, ShieldAlert, ShieldCheck, ShieldX, Terminal, FileCode, Search, Globe } from 'lucide-react';
+import { Shield, ShieldAlert, ShieldCheck, ShieldX, Terminal, FileCode, FilePen, FilePlus, Trash2, GitBranch, GitCommitHorizontal, Search, Globe } from 'lucide-react';
 import { ToolCall } from '@/types/tools';
 import { describeToolCall, getToolRiskLevel } from '@/lib/tool-executor';
 
@@ -14,8 +14,17 @@ const toolIcons: Record<string, React.ReactNode> = {
   list_files: <Search className="h-4 w-4" />,
   grep: <Search className="h-4 w-4" />,
   apply_patch: <FileCode className="h-4 w-4" />,
+  edit_file: <FilePen className="h-4 w-4" />,
+  create_file: <FilePlus className="h-4 w-4" />,
+  delete_file: <Trash2 className="h-4 w-4" />,
+  move_file: <FileCode className="h-4 w-4" />,
   run_command: <Terminal className="h-4 w-4" />,
-  git_status: <Terminal className="h-4 w-4" />,
+  git_status: <GitBranch className="h-4 w-4" />,
+  git_diff: <GitBranch className="h-4 w-4" />,
+  git_log: <GitBranch className="h-4 w-4" />,
+  git_branch: <GitBranch className="h-4 w-4" />,
+  git_checkout: <GitBranch className="h-4 w-4" />,
+  git_commit: <GitCommitHorizontal className="h-4 w-4" />,
   web_fetch: <Globe className="h-4 w-4" />,
   web_search: <Globe className="h-4 w-4" />,
 };
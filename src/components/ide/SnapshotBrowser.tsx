@@ -1,26 +1,249 @@
-import { useState, useEffect } from 'react';
-import { X, Clock, RotateCcw, Save, Loader2, FileText } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { X, Clock, RotateCcw, Save, Loader2, FileText, GitMerge, GitBranch, AlertTriangle, Check, Shield, Tag, Download, Upload, HardDrive } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { hasConflictMarkers } from '@/lib/patch-utils';
+import type { MergeConflict, MergeConflictKind } from '@/lib/patch-utils';
 import type { Snapshot } from '@/hooks/use-file-snapshots';
+import type { CARef, CATag, GCResult, PendingMerge, StorageUsage } from '@/hooks/use-ca-snapshots';
 
 interface SnapshotBrowserProps {
   snapshots: Snapshot[];
   loading: boolean;
+  refs: CARef[];
+  tags: CATag[];
+  pendingMerge: PendingMerge | null;
   onClose: () => void;
   onCreateSnapshot: (label?: string) => void;
   onRestoreSnapshot: (snapshotId: string) => void;
+  onMergeRef: (refName: string) => void;
+  onRebaseRef: (refName: string) => void;
+  onCreateTag: (tagName: string, message?: string) => void;
+  onExportGit: (refName: string) => void;
+  onImportGit: (file: File) => void;
+  storageUsage: StorageUsage | null;
+  isOwner: boolean;
+  onCollectGarbage: (dryRun: boolean) => Promise<GCResult | null>;
+  onResolveMerge: (resolutions: Record<string, string | null>) => void;
+  onAbortMerge: () => void;
+}
+
+const CONFLICT_LABELS: Record<MergeConflictKind, string> = {
+  content: 'both modified',
+  add_add: 'both added',
+  modify_delete: 'deleted by them',
+  delete_modify: 'deleted by us',
+};
+
+/** What the ref's write rule restricts, as small badges. */
+function RefRuleBadges({ rule }: { rule: CARef['rule'] }) {
+  const badge = 'text-[9px] px-1 py-px rounded-sm';
+  return (
+    <>
+      {rule.protected && (
+        <span className={`${badge} flex items-center gap-0.5 bg-amber-500/10 text-amber-400`} title="Only accepts merges">
+          <Shield className="h-2 w-2" />
+          protected
+        </span>
+      )}
+      {rule.requirePassingBuild && (
+        <span className={`${badge} bg-muted text-muted-foreground`} title="Merges need a passing attested build">
+          build required
+        </span>
+      )}
+      {rule.minRole === 'owner' && (
+        <span className={`${badge} bg-muted text-muted-foreground`}>owner only</span>
+      )}
+    </>
+  );
+}
+
+/** Per-file conflict resolution for a merge that stopped on conflicts. */
+function MergeResolver({ merge, onResolve, onAbort }: {
+  merge: PendingMerge;
+  onResolve: (resolutions: Record<string, string | null>) => void;
+  onAbort: () => void;
+}) {
+  // Path → final content, or null to delete; absent while unresolved
+  const [resolutions, setResolutions] = useState<Record<string, string | null>>({});
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const resolve = (path: string, content: string | null) => {
+    setResolutions(prev => ({ ...prev, [path]: content }));
+    setEditing(null);
+  };
+
+  const startEdit = (conflict: MergeConflict) => {
+    setEditing(conflict.path);
+    setDraft(resolutions[conflict.path] ?? conflict.content);
+  };
+
+  const resolvedCount = merge.conflicts.filter(c => c.path in resolutions).length;
+  const complete = resolvedCount === merge.conflicts.length;
+
+  return (
+    <div className="p-2 space-y-1.5">
+      <div className="flex items-center gap-2 px-2 py-1.5 rounded-md bg-amber-500/10 text-amber-400 text-xs">
+        <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+        <span className="flex-1">
+          Merging <span className="font-mono">{merge.source_ref}</span> into <span className="font-mono">{merge.target_ref}</span>:{' '}
+          {resolvedCount}/{merge.conflicts.length} conflicts resolved
+        </span>
+      </div>
+
+      {merge.conflicts.map(conflict => {
+        const resolved = conflict.path in resolutions;
+        return (
+          <div key={conflict.path} className="border border-border rounded-md">
+            <div className="flex items-center gap-2 px-3 py-2">
+              {resolved
+                ? <Check className="h-3.5 w-3.5 text-ide-success shrink-0" />
+                : <AlertTriangle className="h-3.5 w-3.5 text-amber-400 shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <div className="text-xs font-mono text-foreground truncate">{conflict.path}</div>
+                <div className="text-[10px] text-muted-foreground">
+                  {CONFLICT_LABELS[conflict.kind]}
+                  {resolved && (resolutions[conflict.path] === null ? ' · will be deleted' : ' · resolved')}
+                </div>
+              </div>
+              <Button size="sm" variant="outline" className="h-6 text-[10px] px-2" onClick={() => resolve(conflict.path, conflict.ours)}>
+                {conflict.ours === null ? 'Delete' : 'Ours'}
+              </Button>
+              <Button size="sm" variant="outline" className="h-6 text-[10px] px-2" onClick={() => resolve(conflict.path, conflict.theirs)}>
+                {conflict.theirs === null ? 'Delete' : 'Theirs'}
+              </Button>
+              <Button size="sm" variant="outline" className="h-6 text-[10px] px-2" onClick={() => startEdit(conflict)}>
+                Edit
+              </Button>
+            </div>
+            {editing === conflict.path && (
+              <div className="px-3 pb-2 space-y-1.5">
+                <textarea
+                  value={draft}
+                  onChange={e => setDraft(e.target.value)}
+                  spellCheck={false}
+                  className="w-full h-48 p-2 text-[11px] font-mono bg-background border border-border rounded-sm resize-y"
+                />
+                <div className="flex items-center gap-1.5">
+                  {hasConflictMarkers(draft) && (
+                    <span className="flex-1 text-[10px] text-amber-400">Remove the conflict markers to resolve</span>
+                  )}
+                  <Button size="sm" variant="ghost" className="h-6 text-[10px] px-2 ml-auto" onClick={() => setEditing(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="h-6 text-[10px] px-2"
+                    disabled={hasConflictMarkers(draft)}
+                    onClick={() => resolve(conflict.path, draft)}
+                  >
+                    Mark resolved
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end gap-1.5 pt-1">
+        <Button size="sm" variant="outline" className="h-7 text-xs px-2.5" onClick={onAbort}>
+          Abort merge
+        </Button>
+        <Button size="sm" className="h-7 text-xs px-2.5 gap-1" disabled={!complete} onClick={() => onResolve(resolutions)}>
+          <GitMerge className="h-3 w-3" />
+          Complete merge
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${bytes} B`;
+}
+
+/** Project storage, with an owner-only cleanup that previews what it would remove first. */
+function StorageBar({ usage, isOwner, onCollect }: {
+  usage: StorageUsage;
+  isOwner: boolean;
+  onCollect: (dryRun: boolean) => Promise<GCResult | null>;
+}) {
+  const [preview, setPreview] = useState<GCResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (dryRun: boolean) => {
+    setBusy(true);
+    const result = await onCollect(dryRun);
+    setBusy(false);
+    setPreview(dryRun ? result : null);
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-2 border-t border-border text-[10px] text-muted-foreground">
+      <HardDrive className="h-3 w-3 shrink-0" />
+      <span className="flex-1 truncate">
+        {formatBytes(usage.project.blob_bytes)} in {usage.project.snapshots} snapshots
+        {usage.owner && ` · ${usage.owner.storage_mb} of ${usage.owner.limit_mb} MB on ${usage.owner.plan_key}`}
+      </span>
+      {isOwner && !preview && (
+        <Button size="sm" variant="ghost" disabled={busy} onClick={() => run(true)} className="h-5 text-[10px] px-1.5 shrink-0">
+          {busy ? <Loader2 className="h-2.5 w-2.5 animate-spin" /> : 'Clean up'}
+        </Button>
+      )}
+      {isOwner && preview && preview.snapshots === 0 && (
+        <button onClick={() => setPreview(null)} className="shrink-0 hover:text-foreground">Nothing to clean up</button>
+      )}
+      {isOwner && preview && preview.snapshots > 0 && (
+        <>
+          <span className="shrink-0">
+            Remove {preview.snapshots} snapshot(s) older than {preview.retention_days} days, reclaim {formatBytes(preview.reclaimed_bytes)}?
+          </span>
+          <Button size="sm" variant="destructive" disabled={busy} onClick={() => run(false)} className="h-5 text-[10px] px-1.5 shrink-0">
+            Collect
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setPreview(null)} className="h-5 text-[10px] px-1.5 shrink-0">
+            Cancel
+          </Button>
+        </>
+      )}
+    </div>
+  );
 }
 
 export function SnapshotBrowser({
   snapshots,
   loading,
+  refs,
+  tags,
+  pendingMerge,
   onClose,
   onCreateSnapshot,
   onRestoreSnapshot,
+  onMergeRef,
+  onRebaseRef,
+  onCreateTag,
+  onExportGit,
+  onImportGit,
+  storageUsage,
+  isOwner,
+  onCollectGarbage,
+  onResolveMerge,
+  onAbortMerge,
 }: SnapshotBrowserProps) {
   const [label, setLabel] = useState('');
   const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [tagName, setTagName] = useState('');
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const handleTag = () => {
+    if (!tagName.trim()) return;
+    onCreateTag(tagName.trim());
+    setTagName('');
+  };
 
   const handleCreate = () => {
     onCreateSnapshot(label.trim() || undefined);
@@ -46,7 +269,7 @@ export function SnapshotBrowser({
     <div className="fixed inset-0 z-50 flex items-center justify-center" onClick={onClose}>
       <div className="fixed inset-0 bg-background/60 backdrop-blur-sm" />
       <div
-        className="relative w-full max-w-md bg-popover border border-border rounded-lg shadow-2xl overflow-hidden animate-fade-in"
+        className={`relative w-full ${pendingMerge ? 'max-w-2xl' : 'max-w-md'} bg-popover border border-border rounded-lg shadow-2xl overflow-hidden animate-fade-in`}
         onClick={e => e.stopPropagation()}
       >
         {/* Header */}
@@ -80,6 +303,113 @@ export function SnapshotBrowser({
           </div>
         </div>
 
+        {pendingMerge && (
+          <div className="max-h-[450px] overflow-auto border-b border-border">
+            <MergeResolver
+              key={pendingMerge.id}
+              merge={pendingMerge}
+              onResolve={onResolveMerge}
+              onAbort={onAbortMerge}
+            />
+          </div>
+        )}
+
+        {/* Refs, with merge and rebase into main */}
+        {!pendingMerge && refs.length > 0 && (
+          <div className="px-2 py-2 border-b border-border space-y-1">
+            <div className="flex items-center justify-between px-2">
+              <span className="text-[10px] uppercase tracking-wider text-muted-foreground font-semibold">Branches</span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => importInput.current?.click()}
+                className="h-5 text-[10px] px-1.5 gap-1"
+                title="Import a git bundle or a .tar/.tar.gz of a repository as import/* branches"
+              >
+                <Upload className="h-2.5 w-2.5" />
+                Import git
+              </Button>
+              <input
+                ref={importInput}
+                type="file"
+                accept=".bundle,.tar,.tar.gz,.tgz"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) onImportGit(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            {refs.map(ref => (
+              <div key={ref.ref_name} className="flex items-center gap-3 px-3 py-1.5 rounded-md hover:bg-accent/30">
+                <GitBranch className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-xs font-mono text-foreground truncate">{ref.ref_name}</span>
+                    <RefRuleBadges rule={ref.rule} />
+                  </div>
+                  <div className="text-[10px] text-muted-foreground">{formatDate(ref.updated_at)}</div>
+                </div>
+                <button
+                  onClick={() => onExportGit(ref.ref_name)}
+                  className="p-1 hover:bg-muted rounded-sm shrink-0"
+                  title="Download history as a git bundle"
+                >
+                  <Download className="h-3 w-3 text-muted-foreground" />
+                </button>
+                {ref.ref_name !== 'main' && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => onRebaseRef(ref.ref_name)}
+                      className="h-6 text-[10px] px-2 shrink-0"
+                      title="Replay this branch's snapshots on top of main"
+                    >
+                      Rebase
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onMergeRef(ref.ref_name)}
+                      className="h-6 text-[10px] px-2 gap-1 shrink-0"
+                    >
+                      <GitMerge className="h-2.5 w-2.5" />
+                      Merge into main
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+
+            <div className="px-2 pt-1.5 text-[10px] uppercase tracking-wider text-muted-foreground font-semibold">
+              Tags
+            </div>
+            {tags.map(tag => (
+              <div key={tag.tag_name} className="flex items-center gap-3 px-3 py-1" title={tag.message || undefined}>
+                <Tag className="h-3 w-3 text-muted-foreground shrink-0" />
+                <span className="text-xs font-mono text-foreground truncate">{tag.tag_name}</span>
+                <span className="text-[10px] text-muted-foreground truncate flex-1">{tag.message}</span>
+                <span className="text-[10px] text-muted-foreground shrink-0">{formatDate(tag.created_at)}</span>
+              </div>
+            ))}
+            <div className="flex gap-1.5 px-2">
+              <Input
+                placeholder="Tag main (e.g. release-1.4)"
+                value={tagName}
+                onChange={e => setTagName(e.target.value)}
+                className="h-6 text-[11px] bg-background"
+                onKeyDown={e => e.key === 'Enter' && handleTag()}
+              />
+              <Button size="sm" variant="outline" onClick={handleTag} className="h-6 text-[10px] px-2 gap-1 shrink-0">
+                <Tag className="h-2.5 w-2.5" />
+                Tag
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Snapshot list */}
         <div className="max-h-[350px] overflow-auto p-2 space-y-1">
           {loading && (
@@ -123,6 +453,8 @@ export function SnapshotBrowser({
           ))}
         </div>
 
+        {storageUsage && <StorageBar usage={storageUsage} isOwner={isOwner} onCollect={onCollectGarbage} />}
+
         {/* Footer */}
         <div className="px-4 py-2.5 border-t border-border">
           <p className="text-[10px] text-muted-foreground">
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Plus, Copy, Trash2, KeyRound, Loader2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { useIDE } from '@/contexts/IDEContext';
+import { useMcpTokens, STARTED_MCP_URL } from '@/hooks/use-mcp-tokens';
+import { MCP_TOKEN_SCOPES, type McpTokenScope } from '../../../supabase/functions/_shared/mcp';
+
+const SCOPE_HINTS: Record<McpTokenScope, string> = {
+  read: 'files, snapshots, builds, events',
+  write: 'edit files, create snapshots',
+  exec: 'run commands on the runner',
+};
+
+/** Client config for the token just created, in the shape most MCP clients accept */
+function clientConfig(token: string) {
+  return JSON.stringify({
+    mcpServers: { started: { type: 'http', url: STARTED_MCP_URL, headers: { Authorization: `Bearer ${token}` } } },
+  }, null, 2);
+}
+
+export function StartedMCPEndpoint() {
+  const { project } = useIDE();
+  const { tokens, createToken, revokeToken } = useMcpTokens(project.id);
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<McpTokenScope[]>(['read']);
+  const [busy, setBusy] = useState(false);
+  const [created, setCreated] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: 'Copied to clipboard' });
+  };
+
+  const toggleScope = (scope: McpTokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setCreated(await createToken(name.trim(), scopes));
+      setAdding(false);
+      setName('');
+      setScopes(['read']);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create token');
+    }
+    setBusy(false);
+  };
+
+  const handleRevoke = async (tokenId: string) => {
+    try {
+      await revokeToken(tokenId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke token');
+    }
+  };
+
+  const active = tokens.filter(t => !t.revoked_at);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 px-2 py-1.5">
+        <span className="text-sm">🛰️</span>
+        <span className="text-xs font-semibold text-foreground tracking-wide uppercase flex-1">Started as an MCP Server</span>
+        <button
+          onClick={() => setAdding(a => !a)}
+          className="text-[10px] px-1.5 py-0.5 bg-primary/10 text-primary rounded-sm hover:bg-primary/20 flex items-center gap-0.5"
+        >
+          <Plus className="h-2.5 w-2.5" /> Token
+        </button>
+      </div>
+
+      <div className="mx-1 mb-2 flex items-center gap-1.5 px-2 py-1 bg-muted/50 rounded-sm">
+        <span className="flex-1 text-[10px] font-mono text-muted-foreground truncate">{STARTED_MCP_URL}</span>
+        <button onClick={() => copy(STARTED_MCP_URL)} className="p-1 hover:bg-muted rounded-sm" title="Copy endpoint">
+          <Copy className="h-3 w-3 text-muted-foreground" />
+        </button>
+      </div>
+
+      {adding && (
+        <div className="mx-1 mb-2 p-2.5 border border-border rounded-md space-y-2">
+          <Input
+            placeholder="token name, e.g. ci-bot"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className="h-7 text-xs bg-background font-mono"
+          />
+          <div className="space-y-1">
+            {MCP_TOKEN_SCOPES.map(scope => (
+              <label key={scope} className="flex items-center gap-2 text-xs cursor-pointer">
+                <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                <span className="font-mono text-foreground">{scope}</span>
+                <span className="text-[10px] text-muted-foreground">{SCOPE_HINTS[scope]}</span>
+              </label>
+            ))}
+          </div>
+          <Button size="sm" onClick={handleCreate} disabled={busy || !name.trim() || scopes.length === 0} className="h-7 text-xs w-full gap-1.5">
+            {busy && <Loader2 className="h-3 w-3 animate-spin" />}
+            Create token
+          </Button>
+          <p className="text-[10px] text-muted-foreground">
+            The token acts as you. Writes and commands follow this project's permission rules, and writes need an
+            allow rule before agents can make them.
+          </p>
+        </div>
+      )}
+
+      {created && (
+        <div className="mx-1 mb-2 p-2.5 border border-ide-success/40 rounded-md space-y-1.5">
+          <p className="text-[10px] text-ide-success">Copy this token now; it won't be shown again.</p>
+          <pre className="text-[10px] font-mono text-foreground bg-muted/50 rounded-sm p-2 overflow-x-auto">{clientConfig(created)}</pre>
+          <div className="flex gap-1.5">
+            <Button size="sm" variant="outline" onClick={() => copy(clientConfig(created))} className="h-6 text-[10px] flex-1">
+              Copy config
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setCreated(null)} className="h-6 text-[10px]">Done</Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-1 ml-1">
+        {active.map(token => (
+          <div key={token.id} className="flex items-center gap-2 px-3 py-2 border border-border rounded-md">
+            <KeyRound className="h-3 w-3 text-muted-foreground shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-medium text-foreground">{token.name}</span>
+                <span className="text-[10px] font-mono text-muted-foreground">{token.token_prefix}…</span>
+              </div>
+              <p className="text-[10px] text-muted-foreground truncate">
+                {token.scopes.join(', ')}
+                {' · '}
+                {token.last_used_at ? `used ${new Date(token.last_used_at).toLocaleString()}` : 'never used'}
+                {token.expires_at && ` · expires ${new Date(token.expires_at).toLocaleDateString()}`}
+              </p>
+            </div>
+            <button onClick={() => handleRevoke(token.id)} className="p-1 hover:bg-muted rounded-sm" title="Revoke">
+              <Trash2 className="h-3 w-3 text-muted-foreground" />
+            </button>
+          </div>
+        ))}
+        {active.length === 0 && !adding && (
+          <p className="px-2 text-[10px] text-muted-foreground">
+            Let CLI assistants and CI bots work on this project over MCP with a project token.
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-2 mx-1 text-[10px] px-2 py-1.5 rounded-sm bg-destructive/10 text-destructive">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,9 @@ import { PermissionPrompt } from './PermissionPrompt';
 import { RUNTIME_TEMPLATES } from '@/types/runner';
 import type { RuntimeType } from '@/types/runner';
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
+import { createTerminalScreen } from '@/lib/terminal-screen';
+import type { TerminalScreen } from '@/lib/terminal-screen';
+import type { TerminalConnection, TerminalStatus } from '@/lib/runner-client';
 
 interface TerminalTab {
   id: string;
@@ -13,8 +16,15 @@ interface TerminalTab {
   type: 'terminal' | 'output' | 'preview';
 }
 
+/** Interactive shell state of a terminal tab; 'unavailable' falls back to one-shot commands */
+type ShellState = TerminalStatus | 'unavailable';
+
+// text-xs monospace cell size, for sizing the runner PTY to the panel
+const CELL_WIDTH_PX = 7.2;
+const CELL_HEIGHT_PX = 20;
+
 export function TerminalPanel() {
-  const { runs, runCommand, showOutput, toggleOutput, runnerSession, killRunningProcess, sendErrorsToChat, project, setRuntimeType, pendingPermission, approvePermission, denyPermission, alwaysAllowPermission, runnerStatus } = useIDE();
+  const { runs, runCommand, showOutput, toggleOutput, runnerSession, killRunningProcess, openTerminal, sendErrorsToChat, project, setRuntimeType, pendingPermission, approvePermission, denyPermission, alwaysAllowPermission, runnerStatus } = useIDE();
   const [runtimeOpen, setRuntimeOpen] = useState(false);
 
   const [tabs, setTabs] = useState<TerminalTab[]>([
@@ -27,10 +37,17 @@ export function TerminalPanel() {
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [cmdHistory, setCmdHistory] = useState<string[]>([]);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [shellState, setShellState] = useState<Record<string, ShellState>>({});
+  const [screenVersion, setScreenVersion] = useState(0);
+  const connectionsRef = useRef(new Map<string, TerminalConnection>());
+  const screensRef = useRef(new Map<string, TerminalScreen>());
+  const sizeRef = useRef({ cols: 80, rows: 24 });
   const inputRef = useRef<HTMLInputElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
   const currentTab = tabs.find(t => t.id === activeTab);
+  const activeShell = shellState[activeTab];
+  const interactive = currentTab?.type === 'terminal' && (activeShell === 'open' || activeShell === 'reconnecting');
   const lastRun = runs[runs.length - 1];
   const isRunning = lastRun?.status === 'running';
   const hasErrors = lastRun && (lastRun.status === 'error' || (lastRun.exitCode && lastRun.exitCode !== 0));
@@ -54,7 +71,7 @@ export function TerminalPanel() {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [terminalHistory, runs]);
+  }, [terminalHistory, runs, screenVersion]);
 
   // Focus input when panel opens or tab switches
   useEffect(() => {
@@ -63,9 +80,87 @@ export function TerminalPanel() {
     }
   }, [showOutput, activeTab, currentTab?.type]);
 
+  const screenFor = (tabId: string) => {
+    let screen = screensRef.current.get(tabId);
+    if (!screen) {
+      screen = createTerminalScreen();
+      screensRef.current.set(tabId, screen);
+    }
+    return screen;
+  };
+
+  /** Start or reattach the runner shell for a terminal tab, optionally typing a first line into it. */
+  const attachShell = useCallback((tabId: string, firstLine?: string) => {
+    const screen = screenFor(tabId);
+    const redraw = () => setScreenVersion(v => v + 1);
+    const setState = (state: ShellState) => setShellState(prev => ({ ...prev, [tabId]: state }));
+    setState('connecting');
+
+    openTerminal(tabId, {
+      onOutput: data => { screen.write(data); redraw(); },
+      onReset: () => screen.clear(),
+      onExit: ({ exitCode, signal, limitExceeded }) => {
+        if (limitExceeded) screen.write(`\r\n⛔ ${limitExceeded.message}`);
+        screen.write(`\r\n[process exited with ${signal ? `signal ${signal}` : `code ${exitCode}`}]\r\n`);
+        connectionsRef.current.delete(tabId);
+        redraw();
+      },
+      onStatus: setState,
+      onError: message => { screen.write(`\r\n⚠ ${message}\r\n`); redraw(); },
+    }, sizeRef.current).then(connection => {
+      connectionsRef.current.set(tabId, connection);
+      if (firstLine) connection.write(`${firstLine}\r`);
+    }).catch(err => {
+      setState('unavailable');
+      setTerminalHistory(prev => ({
+        ...prev,
+        [tabId]: [...(prev[tabId] || []), `ℹ Interactive shell unavailable (${err instanceof Error ? err.message : 'runner error'}); commands run one at a time.`],
+      }));
+    });
+  }, [openTerminal]);
+
+  // Attach a shell when a terminal tab is first shown
+  useEffect(() => {
+    if (!showOutput || currentTab?.type !== 'terminal' || shellState[activeTab]) return;
+    attachShell(activeTab);
+  }, [showOutput, activeTab, currentTab?.type, shellState, attachShell]);
+
+  // Keep the runner PTY sized to the panel
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => {
+      const cols = Math.max(Math.floor(el.clientWidth / CELL_WIDTH_PX), 20);
+      const rows = Math.max(Math.floor(el.clientHeight / CELL_HEIGHT_PX), 5);
+      sizeRef.current = { cols, rows };
+      connectionsRef.current.get(activeTab)?.resize(cols, rows);
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [activeTab, showOutput]);
+
+  // Leave shells running on unmount so a remount or reload reattaches to them
+  useEffect(() => {
+    const connections = connectionsRef.current;
+    return () => connections.forEach(c => c.detach());
+  }, []);
+
 
   const handleRun = useCallback(() => {
     const cmd = commandInput.trim();
+
+    if (currentTab?.type === 'terminal' && (activeShell === 'exited' || activeShell === 'closed')) {
+      attachShell(activeTab, cmd || undefined);
+      setCommandInput('');
+      return;
+    }
+    if (interactive) {
+      if (cmd) setCmdHistory(prev => [...prev.filter(c => c !== cmd), cmd]);
+      setHistoryIndex(-1);
+      connectionsRef.current.get(activeTab)?.write(`${commandInput}\r`);
+      setCommandInput('');
+      return;
+    }
     if (!cmd) return;
 
     setCmdHistory(prev => [...prev.filter(c => c !== cmd), cmd]);
@@ -87,11 +182,11 @@ export function TerminalPanel() {
     runCommand(cmd);
     setCommandInput('');
     if (!showOutput) toggleOutput();
-  }, [commandInput, currentTab, activeTab, runCommand, showOutput, toggleOutput]);
+  }, [commandInput, currentTab, activeTab, activeShell, interactive, attachShell, runCommand, showOutput, toggleOutput]);
 
   // Append run output to terminal history
   useEffect(() => {
-    if (!lastRun || lastRun.status === 'running') return;
+    if (!lastRun || lastRun.status === 'running' || interactive) return;
     const activeTermTab = tabs.find(t => t.id === activeTab && t.type === 'terminal');
     if (activeTermTab && lastRun.logs) {
       const outputLines = lastRun.logs.split('\n').filter(l => !l.startsWith('$ '));
@@ -105,6 +200,15 @@ export function TerminalPanel() {
   }, [lastRun?.status]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    const connection = interactive ? connectionsRef.current.get(activeTab) : undefined;
+    if (connection && e.ctrlKey && (e.key === 'c' || e.key === 'd')) {
+      e.preventDefault();
+      // Ctrl-D only means EOF on an empty line, like in a real terminal
+      if (e.key === 'c') connection.signal('SIGINT');
+      else if (!commandInput) connection.write('\x04');
+      setCommandInput('');
+      return;
+    }
     if (e.key === 'Enter') {
       handleRun();
     } else if (e.key === 'ArrowUp') {
@@ -126,7 +230,7 @@ export function TerminalPanel() {
       }
     } else if (e.key === 'l' && e.ctrlKey) {
       e.preventDefault();
-      setTerminalHistory(prev => ({ ...prev, [activeTab]: [] }));
+      clearTerminal();
     }
   };
 
@@ -154,6 +258,14 @@ export function TerminalPanel() {
       return next;
     });
     if (id === 'preview') setPreviewUrl(null);
+    connectionsRef.current.get(id)?.close();
+    connectionsRef.current.delete(id);
+    screensRef.current.delete(id);
+    setShellState(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
     setTerminalHistory(prev => {
       const next = { ...prev };
       delete next[id];
@@ -164,6 +276,8 @@ export function TerminalPanel() {
   const clearTerminal = () => {
     if (currentTab?.type === 'terminal') {
       setTerminalHistory(prev => ({ ...prev, [activeTab]: [] }));
+      screensRef.current.get(activeTab)?.clear();
+      setScreenVersion(v => v + 1);
     }
   };
 
@@ -318,6 +432,18 @@ export function TerminalPanel() {
                       </div>
                     ))
                   )
+                ) : activeShell && activeShell !== 'unavailable' ? (
+                  <>
+                    {screenFor(activeTab).lines.map((line, i) => (
+                      <div key={i} className="leading-5 whitespace-pre-wrap break-all text-foreground/80">{line || '\u00a0'}</div>
+                    ))}
+                    {(activeShell === 'connecting' || activeShell === 'reconnecting') && (
+                      <div className="flex items-center gap-1.5 text-ide-warning mt-1">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        <span>{activeShell === 'connecting' ? 'Starting shell...' : 'Reconnecting...'}</span>
+                      </div>
+                    )}
+                  </>
                 ) : (
                   <>
                     {(terminalHistory[activeTab] || []).map((line, i) => (
@@ -369,24 +495,37 @@ export function TerminalPanel() {
 
               {/* Command input */}
               <div className="flex items-center gap-2 px-3 py-1.5 border-t border-border bg-muted/20">
-                {runnerSession && (
+                {runnerSession && !interactive && (
                   <span className="text-[10px] text-muted-foreground font-mono shrink-0">
                     <FolderOpen className="h-3 w-3 inline mr-1" />
                     {runnerSession.cwd}
                   </span>
                 )}
-                <span className="text-xs text-primary font-mono font-bold shrink-0">$</span>
+                <span className="text-xs text-primary font-mono font-bold shrink-0">{interactive ? '›' : '$'}</span>
                 <input
                   ref={inputRef}
                   value={commandInput}
                   onChange={e => setCommandInput(e.target.value)}
                   onKeyDown={handleKeyDown}
                   className="flex-1 bg-transparent text-sm font-mono text-foreground outline-none placeholder:text-muted-foreground/50"
-                  placeholder="Type a command... (node -e, python -c, ruby -e, php -r, go, rust, etc.)"
-                  disabled={isRunning}
+                  placeholder={
+                    interactive ? 'Type input for the shell... (Ctrl+C to interrupt, Ctrl+D for EOF)'
+                      : activeShell === 'exited' || activeShell === 'closed' ? 'Shell ended. Press Enter to start a new one.'
+                      : 'Type a command... (node -e, python -c, ruby -e, php -r, go, rust, etc.)'
+                  }
+                  disabled={isRunning && !interactive}
                   autoFocus
                 />
-                {isRunning ? (
+                {interactive ? (
+                  <button
+                    onClick={() => connectionsRef.current.get(activeTab)?.signal('SIGINT')}
+                    className="flex items-center gap-1 px-2 py-1 bg-ide-error/10 text-ide-error text-xs rounded-sm hover:bg-ide-error/20 transition-colors"
+                    title="Send Ctrl+C"
+                  >
+                    <Square className="h-3 w-3" />
+                    Ctrl+C
+                  </button>
+                ) : isRunning ? (
                   <button
                     onClick={() => killRunningProcess()}
                     className="flex items-center gap-1 px-2 py-1 bg-ide-error/10 text-ide-error text-xs rounded-sm hover:bg-ide-error/20 transition-colors"
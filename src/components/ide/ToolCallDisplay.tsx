@@ -1,5 +1,5 @@
-import { CheckCircle, XCircle, Loader2, Terminal, FileCode, Search, Globe, Clock, Shield } from 'lucide-react';
-import { ToolCall } from '@/types/tools';
+import { CheckCircle, XCircle, Loader2, Terminal, FileCode, FilePen, FilePlus, Trash2, GitBranch, GitCommitHorizontal, Search, Globe, Clock, Shield } from 'lucide-react';
+import { ToolCall, GrepLineData } from '@/types/tools';
 import { describeToolCall } from '@/lib/tool-executor';
 
 interface ToolCallDisplayProps {
@@ -20,8 +20,17 @@ const toolIcons: Record<string, React.ReactNode> = {
   list_files: <Search className="h-3 w-3" />,
   grep: <Search className="h-3 w-3" />,
   apply_patch: <FileCode className="h-3 w-3" />,
+  edit_file: <FilePen className="h-3 w-3" />,
+  create_file: <FilePlus className="h-3 w-3" />,
+  delete_file: <Trash2 className="h-3 w-3" />,
+  move_file: <FileCode className="h-3 w-3" />,
   run_command: <Terminal className="h-3 w-3" />,
-  git_status: <Terminal className="h-3 w-3" />,
+  git_status: <GitBranch className="h-3 w-3" />,
+  git_diff: <GitBranch className="h-3 w-3" />,
+  git_log: <GitBranch className="h-3 w-3" />,
+  git_branch: <GitBranch className="h-3 w-3" />,
+  git_checkout: <GitBranch className="h-3 w-3" />,
+  git_commit: <GitCommitHorizontal className="h-3 w-3" />,
   web_fetch: <Globe className="h-3 w-3" />,
   web_search: <Globe className="h-3 w-3" />,
 };
@@ -29,6 +38,8 @@ const toolIcons: Record<string, React.ReactNode> = {
 export function ToolCallDisplay({ toolCall }: ToolCallDisplayProps) {
   const status = statusConfig[toolCall.status];
   const description = describeToolCall(toolCall);
+  const matchLines = toolCall.result?.matches
+    ?.flatMap((m): GrepLineData[] => m.type === 'match' ? [m.data] : []);
 
   return (
     <div className="rounded-sm border border-border bg-muted/30 p-2 animate-fade-in">
@@ -55,15 +66,15 @@ export function ToolCallDisplay({ toolCall }: ToolCallDisplayProps) {
               {toolCall.result.files && (
                 <div>{toolCall.result.files.slice(0, 10).join('\n')}{toolCall.result.files.length > 10 ? `\n… +${toolCall.result.files.length - 10} more` : ''}</div>
               )}
-              {toolCall.result.matches && (
+              {matchLines && (
                 <div>
-                  {toolCall.result.matches.slice(0, 5).map((m, i) => (
+                  {matchLines.slice(0, 5).map((m, i) => (
                     <div key={i} className="text-muted-foreground">
-                      <span className="text-ide-info">{m.file}</span>:<span className="text-foreground">{m.line}</span> {m.text}
+                      <span className="text-ide-info">{m.path.text}</span>:<span className="text-foreground">{m.line_number}</span> {m.lines.text.trim()}
                     </div>
                   ))}
-                  {toolCall.result.matches.length > 5 && (
-                    <div>… +{toolCall.result.matches.length - 5} more matches</div>
+                  {matchLines.length > 5 && (
+                    <div>… +{matchLines.length - 5} more matches</div>
                   )}
                 </div>
               )}
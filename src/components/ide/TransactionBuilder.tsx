@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { WalletConnect } from './WalletConnect';
 import { callMCPTool } from '@/lib/mcp-client';
+import { useIDE } from '@/contexts/IDEContext';
+import { useMcpCredentials } from '@/hooks/use-mcp-credentials';
 import { Interface, parseEther, formatEther } from 'ethers';
 
 // ─── ABI Types ───
@@ -118,7 +120,10 @@ export function TransactionBuilder({ onClose }: TransactionBuilderProps) {
   const [sending, setSending] = useState(false);
   const [sendingIdx, setSendingIdx] = useState(-1);
 
-  const rpcUrl = localStorage.getItem('evm_rpc_url') || localStorage.getItem('evm_rpc_url_sim') || '';
+  const { project } = useIDE();
+  const { credentialFor } = useMcpCredentials(project.id);
+  // sim_ tools use the simulator's RPC URL, or the EVM RPC server's
+  const hasRpcUrl = !!credentialFor('mcp-tx-simulator') || !!credentialFor('mcp-evm-rpc');
 
   const activeCall = calls[activeCallIdx] || calls[0];
 
@@ -171,8 +176,7 @@ export function TransactionBuilder({ onClose }: TransactionBuilderProps) {
         tool: 'contract_get_abi',
         input: { address: addr },
         serverId: 'mcp-contract-intel',
-        etherscanKey: localStorage.getItem('etherscan_api_key') || undefined,
-        etherscanChain: localStorage.getItem('etherscan_chain') || 'ethereum',
+        projectId: project.id,
       });
       if (result.ok && result.result) {
         const abiData = (result.result as any).abi || result.result;
@@ -195,7 +199,7 @@ export function TransactionBuilder({ onClose }: TransactionBuilderProps) {
       setAbiError(err?.message || 'Failed to fetch ABI');
     }
     setFetchingABI(false);
-  }, [abiContractAddress, activeCall.contractAddress]);
+  }, [abiContractAddress, activeCall.contractAddress, project.id]);
 
   // ─── Build calldata using ethers ───
   const getCalldata = useCallback((call: BatchCall): string => {
@@ -217,7 +221,7 @@ export function TransactionBuilder({ onClose }: TransactionBuilderProps) {
         tool: 'sim_eth_call',
         input: { to: call.contractAddress, data, value: hexValue(call.ethValue) },
         serverId: 'mcp-tx-simulator',
-        evmRpcUrl: rpcUrl,
+        projectId: project.id,
       });
       updateCall(idx, { simResult: { ok: result.ok, data: result.ok ? result.result : result.error } });
       return result.ok;
@@ -225,7 +229,7 @@ export function TransactionBuilder({ onClose }: TransactionBuilderProps) {
       updateCall(idx, { simResult: { ok: false, data: err?.message || 'Simulation failed' } });
       return false;
     }
-  }, [calls, getCalldata, rpcUrl, updateCall]);
+  }, [calls, getCalldata, project.id, updateCall]);
 
   // ─── Simulate all ───
   const handleSimulateAll = useCallback(async () => {
@@ -250,13 +254,13 @@ export function TransactionBuilder({ onClose }: TransactionBuilderProps) {
         tool: 'sim_estimate_gas',
         input: { to: call.contractAddress, data, value: hexValue(call.ethValue) },
         serverId: 'mcp-tx-simulator',
-        evmRpcUrl: rpcUrl,
+        projectId: project.id,
       });
       updateCall(idx, { gasEstimate: result.ok ? result.result : { error: result.error } });
     } catch (err: any) {
       updateCall(idx, { gasEstimate: { error: err?.message } });
     }
-  }, [calls, getCalldata, rpcUrl, updateCall]);
+  }, [calls, getCalldata, project.id, updateCall]);
 
   // ─── Send single call ───
   const sendCall = useCallback(async (idx: number) => {
@@ -679,7 +683,7 @@ export function TransactionBuilder({ onClose }: TransactionBuilderProps) {
         <div className="px-4 py-2.5 border-t border-border shrink-0">
           <p className="text-[10px] text-muted-foreground">
             Calldata auto-encoded via ethers.js. Simulate before sending.
-            {rpcUrl ? '' : ' ⚠ No RPC URL — set one in MCP Config → TX Simulator.'}
+            {hasRpcUrl ? '' : ' ⚠ No RPC URL — set one in MCP Config → TX Simulator.'}
           </p>
         </div>
       </div>
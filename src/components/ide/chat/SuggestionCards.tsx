@@ -10,7 +10,7 @@ interface SuggestionCardsProps {
 }
 
 export function SuggestionCards({ inputLength, onSendMessage }: SuggestionCardsProps) {
-  const { runs, pendingPatches, agentRun } = useIDE();
+  const { runs, pendingPatches, agentRun, repoState } = useIDE();
 
   const suggestions = useMemo(() => {
     if (inputLength > 0) return [];
@@ -18,7 +18,7 @@ export function SuggestionCards({ inputLength, onSendMessage }: SuggestionCardsP
     const lastRun = runs[runs.length - 1];
     const signals: NBASignals = {
       hasPatch: pendingPatches.some(p => p.status === 'preview'),
-      diffDirty: pendingPatches.length > 0,
+      diffDirty: pendingPatches.length > 0 || !repoState.diffStatus.clean,
       lastRunFailed: lastRun?.status === 'error',
       lastRunOk: lastRun?.status === 'success',
       hasSuggestedCommands: false,
@@ -42,7 +42,7 @@ export function SuggestionCards({ inputLength, onSendMessage }: SuggestionCardsP
 
     const actions = [primary, ...secondary].filter(Boolean).slice(0, 2);
     return actions.map(a => ({ label: a!.label, key: a!.key }));
-  }, [inputLength, runs, pendingPatches, agentRun]);
+  }, [inputLength, runs, pendingPatches, agentRun, repoState]);
 
   if (suggestions.length === 0) return null;
 
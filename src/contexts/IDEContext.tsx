@@ -1,15 +1,22 @@
-import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react'; // stabilized
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef } from 'react'; // stabilized
 import { IDEFile, OpenTab, ChatMessage, RunResult, Project, ContextChip, Conversation } from '@/types/ide';
-import { ToolCall, ToolName, PatchPreview, ParsedPatch, PermissionPolicy, DEFAULT_PERMISSION_POLICY } from '@/types/tools';
+import { ToolCall, ToolName, ToolInput, ToolResult, GIT_TOOLS, PatchPreview, ParsedPatch, FilePatchResult, AppliedFileState, PermissionPolicy, DEFAULT_PERMISSION_POLICY } from '@/types/tools';
 import { supabase } from '@/integrations/supabase/client';
 import { RunnerSession, RuntimeType } from '@/types/runner';
-import { AgentRun, AgentStep, Hook, DEFAULT_HOOKS, MCPServer, BUILTIN_MCP_SERVERS, WebhookSecret, HookExecution } from '@/types/agent';
+import { AgentRun, AgentStep, AgentFileChange, Hook, DEFAULT_HOOKS, MCPServer, BUILTIN_MCP_SERVERS, WebhookSecret, HookExecution, MCPConnection, MCP_CONNECTION_SERVER_PREFIX, connectionToServer, enabledMCPTools } from '@/types/agent';
 import { useProjectHooks } from '@/hooks/use-project-hooks';
+import { useMcpConnections } from '@/hooks/use-mcp-connections';
+import type { McpServerConfig } from '../../supabase/functions/_shared/mcp';
 import { STARTED_SYSTEM_PROMPT } from '@/lib/started-prompt';
+import { DEFAULT_REPO_INPUTS, repoInputsFromGit } from '@/lib/policies/fsm';
+import type { FSMStateInputs } from '@/lib/policies/fsm';
 import { evaluatePermission, executeToolLocally } from '@/lib/tool-executor';
 import { getRunnerClient, IRunnerClient } from '@/lib/runner-client';
-import { parseUnifiedDiff, applyPatchToContent, extractDiffFromMessage, extractCommandsFromMessage, extractFileBlocksFromMessage } from '@/lib/patch-utils';
-import { streamChat, runCommandRemote, streamAgent, getAgentRunStatus, cancelAgentRun, PermissionRequest } from '@/lib/api-client';
+import type { TerminalConnection, TerminalHandlers } from '@/lib/runner-client';
+import { parseUnifiedDiff, serializePatch, invertPatches, applyPatchesToFiles, recordAppliedFiles, planRevert, describePatchFailures, extractDiffFromMessage, extractCommandsFromMessage, extractFileBlocksFromMessage } from '@/lib/patch-utils';
+import type { PatchFile } from '@/lib/patch-utils';
+import { streamChat, runCommandRemote, runWebToolRemote, runGitToolRemote, streamAgent, getAgentRunStatus, cancelAgentRun, replayBuildRemote, PermissionRequest } from '@/lib/api-client';
+import type { BuildReplay } from '@/lib/api-client';
 import { generateChatTitle } from '@/lib/chat-title';
 import { triggerEventHooks, isDeployCommand, isErrorExit } from '@/lib/event-hooks';
 import { detectRuntime } from '@/lib/detect-runtime';
@@ -22,6 +29,7 @@ import type { ProjectInfo } from '@/hooks/use-project-persistence';
 import { useFileSnapshots } from '@/hooks/use-file-snapshots';
 import type { Snapshot } from '@/hooks/use-file-snapshots';
 import { useCASnapshots } from '@/hooks/use-ca-snapshots';
+import type { CARef, CARefListing, CATag, GCResult, PendingMerge, StorageUsage } from '@/hooks/use-ca-snapshots';
 import { useCollaboration } from '@/hooks/use-collaboration';
 import type { Collaborator, CollabMessage, FileLock, PresenceUser } from '@/hooks/use-collaboration';
 
@@ -240,8 +248,11 @@ interface IDEContextType {
   applyPatch: (patchId: string) => void;
   applyPatchAndRun: (patchId: string, command: string) => void;
   cancelPatch: (patchId: string) => void;
+  revertPatch: (patchId: string) => void;
   runnerSession: RunnerSession | null;
   killRunningProcess: () => void;
+  /** Attach an interactive runner shell to a terminal tab; files the shell changed are merged back when it exits */
+  openTerminal: (key: string, handlers: TerminalHandlers, size?: { cols: number; rows: number }) => Promise<TerminalConnection>;
   sendErrorsToChat: () => void;
   theme: 'dark' | 'light';
   toggleTheme: () => void;
@@ -261,6 +272,11 @@ interface IDEContextType {
   refreshHookExecutions: () => void;
   mcpServers: MCPServer[];
   toggleMCPServer: (id: string) => void;
+  /** External MCP servers connected to the project; their tools appear in mcpServers */
+  mcpConnections: MCPConnection[];
+  addMCPConnection: (server: McpServerConfig) => Promise<MCPConnection>;
+  refreshMCPConnection: (connectionId: string) => Promise<void>;
+  removeMCPConnection: (connectionId: string) => Promise<void>;
   activeRightPanel: 'chat' | 'agent' | 'timeline' | 'protocol';
   setActiveRightPanel: (panel: 'chat' | 'agent' | 'timeline' | 'protocol') => void;
   snapshots: Snapshot[];
@@ -268,6 +284,21 @@ interface IDEContextType {
   loadSnapshots: () => void;
   createSnapshot: (label?: string) => void;
   restoreSnapshot: (snapshotId: string) => void;
+  refs: CARef[];
+  tags: CATag[];
+  createTag: (tagName: string, message?: string) => Promise<void>;
+  pendingMerge: PendingMerge | null;
+  mergeRef: (sourceRef: string) => Promise<void>;
+  resolveMerge: (resolutions: Record<string, string | null>) => Promise<void>;
+  abortMerge: () => Promise<void>;
+  rebaseRef: (sourceRef: string) => Promise<void>;
+  exportGit: (refName?: string) => Promise<void>;
+  importGit: (file: File) => Promise<void>;
+  storageUsage: StorageUsage | null;
+  collectGarbage: (dryRun: boolean) => Promise<GCResult | null>;
+  /** Latest build replay started from this session, while running and after */
+  buildReplay: BuildReplay | null;
+  replayBuild: (buildRunId: string) => Promise<void>;
   conversations: Conversation[];
   activeConversationId: string;
   switchConversation: (conversationId: string) => void;
@@ -299,6 +330,9 @@ interface IDEContextType {
   selectedModel: ModelId;
   setSelectedModel: (model: ModelId) => void;
   runnerStatus: RunnerStatus;
+  /** Git state of the runner workspace, as seen by the decision engine */
+  repoState: FSMStateInputs['repo'];
+  refreshRepoState: () => Promise<void>;
   activeSkills: string[];
   setActiveSkills: React.Dispatch<React.SetStateAction<string[]>>;
 }
@@ -308,8 +342,12 @@ const IDEContext = createContext<IDEContextType | null>(null);
 export function IDEProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
   const { projectId, loading: persistenceLoading, initialFiles, projects, saveFile, deleteFileFromDB, saveAllFiles, switchProject: switchProjectRaw, createProject: createProjectRaw, renameProject: renameProjectRaw, deleteProject: deleteProjectRaw } = useProjectPersistence(user);
-  const { snapshots, loading: snapshotsLoading, loadSnapshots, createSnapshot: createSnapshotRaw, getSnapshotFiles } = useFileSnapshots(projectId);
+  const { snapshots, loading: snapshotsLoading, loadSnapshots: loadFileSnapshots, createSnapshot: createSnapshotRaw, getSnapshotFiles } = useFileSnapshots(projectId);
   const caSnapshots = useCASnapshots(projectId);
+  const [refListing, setRefListing] = useState<CARefListing>({ refs: [], tags: [], role: null });
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [buildReplay, setBuildReplay] = useState<BuildReplay | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
   const collab = useCollaboration(projectId, user?.id || null, user?.email || null);
   const convPersistence = useConversationPersistence(projectId, user);
   const isProjectOwner = !!user && projects.some(p => p.id === projectId);
@@ -340,6 +378,7 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
   const [pendingPermission, setPendingPermission] = useState<(PermissionRequest & { runId: string }) | null>(null);
   const [selectedModel, setSelectedModel] = useState<ModelId>('started/started-ai');
   const [runnerStatus, setRunnerStatus] = useState<RunnerStatus>('disconnected');
+  const [repoState, setRepoState] = useState<FSMStateInputs['repo']>(DEFAULT_REPO_INPUTS);
   const [activeSkills, setActiveSkills] = useState<string[]>([]);
 
   // Agent state
@@ -497,7 +536,13 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
 
   // Hooks state (DB-backed)
   const projectHooks = useProjectHooks(projectId);
-  const [mcpServers, setMcpServers] = useState<MCPServer[]>(BUILTIN_MCP_SERVERS);
+  const [builtinMcpServers, setBuiltinMcpServers] = useState<MCPServer[]>(BUILTIN_MCP_SERVERS);
+  const mcpConnections = useMcpConnections(projectId);
+  const [disabledMcpConnections, setDisabledMcpConnections] = useState<Set<string>>(new Set());
+  const mcpServers = useMemo(() => [
+    ...builtinMcpServers,
+    ...mcpConnections.connections.map(c => connectionToServer(c, !disabledMcpConnections.has(c.id))),
+  ], [builtinMcpServers, mcpConnections.connections, disabledMcpConnections]);
   const [activeRightPanel, setActiveRightPanel] = useState<'chat' | 'agent' | 'timeline' | 'protocol'>('chat');
 
   const toggleTheme = useCallback(() => {
@@ -653,10 +698,84 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
     setOpenTabs(prev => prev.map(t => t.fileId === fileId ? { ...t, name: newName } : t));
   }, []);
 
+  // ─── Runner Workspace Sync ───
+
+  /** Merge files the runner rewrote (command output, checkouts) back into the IDE. */
+  const mergeRunnerFiles = useCallback((changedFiles: Array<{ path: string; content: string }>) => {
+    for (const changed of changedFiles) {
+      const existing = filesRef.current.find(f => f.path === changed.path);
+      if (existing) {
+        setFiles(prev => prev.map(f => f.path === changed.path ? { ...f, content: changed.content } : f));
+        saveFile(changed.path, changed.content);
+      } else {
+        // New file created by runner
+        const name = changed.path.split('/').pop() || changed.path;
+        const ext = name.split('.').pop() || '';
+        const parentPath = changed.path.split('/').slice(0, -1).join('/') || null;
+        const parentId = parentPath ? `folder-${parentPath}` : null;
+        const newFile: IDEFile = {
+          id: `f-${Date.now()}-${Math.random().toString(36).slice(2,5)}`,
+          name, path: changed.path, content: changed.content,
+          language: LANG_MAP[ext] || 'plaintext', parentId, isFolder: false,
+        };
+        setFiles(prev => [...prev, newFile]);
+        saveFile(changed.path, changed.content);
+      }
+    }
+    toast({ title: `${changedFiles.length} file(s) updated by runner` });
+  }, [saveFile]);
+
+  const workspaceFiles = useCallback(
+    () => filesRef.current.filter(f => !f.isFolder).map(f => ({ path: f.path, content: f.content })),
+    [],
+  );
+
+  /** Ask the runner for git status and diff stats and feed them to the decision engine. */
+  const refreshRepoState = useCallback(async () => {
+    const target = { projectId: project.id, runtimeType: project.runtimeType };
+    const status = await runGitToolRemote({ ...target, tool: 'git_status', input: {}, files: workspaceFiles() });
+    if (status.git?.tool !== 'git_status') return;
+    const diffs = await Promise.all([false, true].map(staged => runGitToolRemote({ ...target, tool: 'git_diff', input: { staged } })));
+    setRepoState(repoInputsFromGit(
+      status.git.status,
+      diffs.flatMap(d => d.git?.tool === 'git_diff' ? [d.git.diff] : []),
+    ));
+  }, [project.id, project.runtimeType, workspaceFiles]);
+
   // ─── Tool Execution ───
 
   const executeAndUpdateTool = useCallback((call: ToolCall) => {
     setToolCalls(prev => prev.map(tc => tc.id === call.id ? { ...tc, status: 'running' as const } : tc));
+    if (GIT_TOOLS.includes(call.tool)) {
+      runGitToolRemote({
+        tool: call.tool as 'git_status',
+        input: call.input as ToolInput['git_status'],
+        projectId: project.id,
+        runtimeType: project.runtimeType,
+        files: workspaceFiles(),
+      })
+        .catch((err): ToolResult => ({ ok: false, error: err instanceof Error ? err.message : 'Git request failed' }))
+        .then(result => {
+          setToolCalls(prev => prev.map(tc =>
+            tc.id === call.id
+              ? { ...tc, status: result.ok ? 'completed' as const : 'failed' as const, result }
+              : tc
+          ));
+          if (result.changedFiles?.length) mergeRunnerFiles(result.changedFiles);
+          if (result.ok && call.tool !== 'git_log' && call.tool !== 'git_branch') refreshRepoState().catch(() => {});
+        });
+      return;
+    }
+    if (call.tool === 'web_fetch' || call.tool === 'web_search') {
+      runWebToolRemote(call.tool, call.input as ToolInput['web_fetch'] | ToolInput['web_search'], permissionPolicy)
+        .catch((err): ToolResult => ({ ok: false, error: err instanceof Error ? err.message : 'Web request failed' }))
+        .then(result => setToolCalls(prev => prev.map(tc =>
+          tc.id === call.id
+            ? { ...tc, status: result.ok ? 'completed' as const : 'failed' as const, result }
+            : tc
+        )));
+      return;
+    }
     setTimeout(() => {
       const result = executeToolLocally(call, files);
       setToolCalls(prev => prev.map(tc =>
@@ -664,8 +783,18 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
           ? { ...tc, status: result.ok ? 'completed' as const : 'failed' as const, result }
           : tc
       ));
+      // File-editing tools hand back a diff; queue it so the user still reviews it
+      if (result.ok && result.diff) {
+        const patchPreview: PatchPreview = {
+          id: `patch-${Date.now()}`,
+          patches: parseUnifiedDiff(result.diff),
+          raw: result.diff,
+          status: 'preview',
+        };
+        setPendingPatches(prev => [...prev, patchPreview]);
+      }
     }, 300);
-  }, [files]);
+  }, [files, permissionPolicy, project.id, project.runtimeType, workspaceFiles, mergeRunnerFiles, refreshRepoState]);
 
   const approveToolCall = useCallback((id: string) => {
     const call = toolCalls.find(tc => tc.id === id);
@@ -698,81 +827,84 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
   /**
    * Shared helper that applies parsed patches to the file system.
    * Uses filesRef.current to avoid stale closures.
-   * Creates folders, new files, applies modifications, and persists to DB.
+   * Carries out creates, deletes, renames, copies and mode changes, keeping
+   * file ids (and so open tabs) across renames, and persists to DB.
+   * A file is only written when every hunk for that file applies.
+   * Returns the per-file results plus what's needed to revert the patch later.
    */
-  const autoApplyParsedPatches = useCallback((parsed: ParsedPatch[]): boolean => {
-    let allApplied = true;
-
-    for (const patch of parsed) {
-      const isNewFile = patch.oldFile === '/dev/null';
-      if (isNewFile) {
-        const newContent = patch.hunks
-          .flatMap(h => h.lines.filter(l => l.type === 'add').map(l => l.content))
-          .join('\n');
-        const filePath = patch.newFile.startsWith('/') ? patch.newFile : `/${patch.newFile}`;
-        const fileName = filePath.split('/').pop() || filePath;
-        const ext = fileName.split('.').pop() || '';
-
-        // Ensure parent folders exist
-        const parts = filePath.split('/').filter(Boolean);
-        setFiles(prev => {
-          const next = [...prev];
-          for (let i = 1; i < parts.length; i++) {
-            const folderPath = '/' + parts.slice(0, i).join('/');
-            if (!next.find(f => f.path === folderPath && f.isFolder)) {
-              const parentPath = i > 1 ? '/' + parts.slice(0, i - 1).join('/') : null;
-              const parentId = parentPath ? next.find(f => f.path === parentPath)?.id || null : null;
-              next.push({
-                id: `folder-${Date.now()}-${i}-${Math.random().toString(36).slice(2, 4)}`,
-                name: parts[i - 1],
-                path: folderPath,
-                content: '',
-                language: '',
-                parentId,
-                isFolder: true,
-              });
-            }
-          }
-          const parentPath = '/' + parts.slice(0, -1).join('/');
-          const parentFile = next.find(f => f.path === parentPath);
-          // Check if file already exists (overwrite)
-          const existingIdx = next.findIndex(f => f.path === filePath && !f.isFolder);
-          if (existingIdx >= 0) {
-            next[existingIdx] = { ...next[existingIdx], content: newContent };
-          } else {
-            const newFile: IDEFile = {
-              id: `file-${Date.now()}-${Math.random().toString(36).slice(2, 5)}`,
-              name: fileName,
-              path: filePath,
-              content: newContent,
-              language: LANG_MAP[ext] || 'plaintext',
-              parentId: parentFile?.id || null,
-              isFolder: false,
-            };
-            next.push(newFile);
-            // Open in tab
-            setOpenTabs(p => [...p, { fileId: newFile.id, name: newFile.name, path: newFile.path, isModified: false }]);
-            setActiveTabId(newFile.id);
-          }
-          return next;
-        });
-        saveFile(filePath, newContent);
-      } else {
-        // Modify existing file — use functional update to get latest state
-        const targetPath = patch.newFile.startsWith('/') ? patch.newFile : `/${patch.newFile}`;
-        setFiles(prev => {
-          const file = prev.find(f => f.path === targetPath);
-          if (!file) { allApplied = false; return prev; }
-          const newContent = applyPatchToContent(file.content, patch);
-          if (newContent === null) { allApplied = false; return prev; }
-          saveFile(targetPath, newContent);
-          return prev.map(f => f.path === targetPath ? { ...f, content: newContent } : f);
-        });
+  const autoApplyParsedPatches = useCallback((parsed: ParsedPatch[]): AppliedPatchSet => {
+    const before = filesRef.current.filter(f => !f.isFolder);
+    const beforeFiles = toPatchFiles(before);
+    const applied = applyPatchesToFiles(beforeFiles, parsed);
+    const { files: after, results } = applied;
+    const appliedPatches = parsed.filter((_, i) => results[i].status !== 'failed');
+    const outcome: AppliedPatchSet = {
+      results,
+      inverse: appliedPatches.length > 0 ? serializePatch(invertPatches(appliedPatches)) : undefined,
+      appliedFiles: recordAppliedFiles(beforeFiles, applied),
+    };
+
+    // Follow each file's id through the patch sequence so renames keep it
+    const idByPath = new Map(before.map(f => [f.path, f.id]));
+    for (const r of results) {
+      if (r.status === 'renamed') {
+        idByPath.set(r.path, idByPath.get(r.from!)!);
+        idByPath.delete(r.from!);
+      } else if (r.status === 'deleted') {
+        idByPath.delete(r.path);
+      } else if ((r.status === 'created' || r.status === 'copied') && !idByPath.has(r.path)) {
+        idByPath.set(r.path, `file-${Date.now()}-${Math.random().toString(36).slice(2, 5)}`);
       }
     }
 
-    return allApplied;
-  }, [saveFile]);
+    const beforeById = new Map(before.map(f => [f.id, f]));
+    const keptIds = new Set(after.map(f => idByPath.get(f.path)!));
+    const removed = before.filter(f => !keptIds.has(f.id));
+    const changed = after.filter(f => {
+      const prev = beforeById.get(idByPath.get(f.path)!);
+      return !prev || prev.path !== f.path || prev.content !== f.content || prev.mode !== f.mode;
+    });
+    if (removed.length === 0 && changed.length === 0) return outcome;
+
+    setFiles(prev => {
+      let next = prev.filter(f => f.isFolder || !removed.some(r => r.id === f.id));
+      for (const file of changed) {
+        const id = idByPath.get(file.path)!;
+        const name = file.path.split('/').pop() || file.path;
+        const existing = next.find(f => f.id === id);
+        const updated: IDEFile = {
+          ...(existing ?? { id, isFolder: false }),
+          name,
+          path: file.path,
+          content: file.content,
+          language: LANG_MAP[name.split('.').pop() || ''] || 'plaintext',
+          parentId: ensureParentFolders(next, file.path),
+          ...(file.mode ? { mode: file.mode } : {}),
+        };
+        next = existing ? next.map(f => f.id === id ? updated : f) : [...next, updated];
+      }
+      return next;
+    });
+
+    for (const file of removed) {
+      deleteFileFromDB(file.path);
+      closeTab(file.id);
+    }
+    for (const file of changed) {
+      const id = idByPath.get(file.path)!;
+      saveFile(file.path, file.content);
+      const prev = beforeById.get(id);
+      if (!prev) {
+        setOpenTabs(p => [...p, { fileId: id, name: file.path.split('/').pop() || file.path, path: file.path, isModified: false }]);
+        setActiveTabId(id);
+      } else if (prev.path !== file.path) {
+        deleteFileFromDB(prev.path);
+        setOpenTabs(p => p.map(t => t.fileId === id ? { ...t, name: file.path.split('/').pop() || file.path, path: file.path } : t));
+      }
+    }
+
+    return outcome;
+  }, [saveFile, deleteFileFromDB, closeTab]);
 
   /**
    * Auto-create files from code blocks with file-path headers.
@@ -828,13 +960,12 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
     const patchPreview = pendingPatches.find(p => p.id === patchId);
     if (!patchPreview) return false;
     try {
-      const allApplied = autoApplyParsedPatches(patchPreview.patches);
+      const applied = autoApplyParsedPatches(patchPreview.patches);
+      const error = describePatchFailures(applied.results);
       setPendingPatches(prev => prev.map(p =>
-        p.id === patchId
-          ? { ...p, status: allApplied ? 'applied' : 'failed', error: allApplied ? undefined : 'Some hunks could not be applied' }
-          : p
+        p.id === patchId ? { ...p, status: error ? 'failed' : 'applied', error, ...applied } : p
       ));
-      return allApplied;
+      return !error;
     } catch (err) {
       setPendingPatches(prev => prev.map(p =>
         p.id === patchId ? { ...p, status: 'failed' as const, error: err instanceof Error ? err.message : 'Unknown error' } : p
@@ -867,6 +998,31 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
     setPendingPatches(prev => prev.map(p => p.id === patchId ? { ...p, status: 'cancelled' as const } : p));
   }, []);
 
+  /**
+   * Undo a single applied patch by applying its recorded inverse.
+   * Files edited since are three-way merged; nothing is touched if any file conflicts.
+   */
+  const revertPatch = useCallback((patchId: string) => {
+    const patchPreview = pendingPatches.find(p => p.id === patchId);
+    if (!patchPreview?.inverse) return;
+
+    const current = toPatchFiles(filesRef.current.filter(f => !f.isFolder));
+    const plan = planRevert(current, parseUnifiedDiff(patchPreview.inverse), patchPreview.appliedFiles ?? []);
+    if (!plan.ok) {
+      toast({ title: 'Cannot revert patch', description: plan.conflicts.join('\n'), variant: 'destructive' });
+      return;
+    }
+
+    const { results } = autoApplyParsedPatches(plan.patches);
+    const error = describePatchFailures(results);
+    if (error) {
+      toast({ title: 'Revert partially failed', description: error, variant: 'destructive' });
+    }
+    setPendingPatches(prev => prev.map(p =>
+      p.id === patchId ? { ...p, status: error ? p.status : 'reverted' as const, error } : p
+    ));
+  }, [pendingPatches, autoApplyParsedPatches]);
+
   // ─── Messaging ───
 
   const sendMessage = useCallback((content: string, chips?: ChatMessage['contextChips']) => {
@@ -910,9 +1066,7 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
     const contextStr = contextParts.length > 0 ? contextParts.join('\n\n') : undefined;
 
     // Gather enabled MCP tools for AI context
-    const enabledMcpTools = mcpServers
-      .filter(s => s.enabled && s.authConfigured)
-      .flatMap(s => s.tools.map(t => ({ server: s.name, name: t.name, description: t.description })));
+    const enabledMcpTools = enabledMCPTools(mcpServers);
 
     const apiMessages = chatMessages
       .filter(m => m.role === 'user' || m.role === 'assistant')
@@ -951,10 +1105,11 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
             setPendingPatches(prev => [...prev, patchPreview]);
 
             // Auto-apply using consolidated helper
-            const success = autoApplyParsedPatches(parsed);
+            const applied = autoApplyParsedPatches(parsed);
+            const error = describePatchFailures(applied.results);
 
             setPendingPatches(prev => prev.map(p =>
-              p.id === patchId ? { ...p, status: success ? 'applied' : 'failed', error: success ? undefined : 'Some hunks could not be applied' } : p
+              p.id === patchId ? { ...p, status: error ? 'failed' : 'applied', error, ...applied } : p
             ));
           }
         }
@@ -1044,38 +1199,24 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
             ? {
                 ...r,
                 status: result.exitCode === 0 ? 'success' as const : 'error' as const,
-                logs: r.logs + `\n${result.exitCode === 0 ? '✓' : '✗'} Process exited with code ${result.exitCode}\n`,
+                logs: r.logs
+                  + (result.limitExceeded ? `\n⛔ ${result.limitExceeded.message}` : '')
+                  + `\n${result.exitCode === 0 ? '✓' : '✗'} Process exited with code ${result.exitCode}\n`
+                  + (result.artifacts?.length ? `↳ ${result.artifacts.length} artifact(s) captured\n` : ''),
                 exitCode: result.exitCode, cwd: result.cwd, durationMs: result.durationMs,
-                runnerUnavailable,
+                runnerUnavailable, limitExceeded: result.limitExceeded,
               }
             : r
         ));
 
         // Merge changed files back into IDE state
         if (result.changedFiles && result.changedFiles.length > 0) {
-          for (const changed of result.changedFiles) {
-            const existing = filesRef.current.find(f => f.path === changed.path);
-            if (existing) {
-              setFiles(prev => prev.map(f => f.path === changed.path ? { ...f, content: changed.content } : f));
-              saveFile(changed.path, changed.content);
-            } else {
-              // New file created by runner
-              const name = changed.path.split('/').pop() || changed.path;
-              const ext = name.split('.').pop() || '';
-              const parentPath = changed.path.split('/').slice(0, -1).join('/') || null;
-              const parentId = parentPath ? `folder-${parentPath}` : null;
-              const newFile: IDEFile = {
-                id: `f-${Date.now()}-${Math.random().toString(36).slice(2,5)}`,
-                name, path: changed.path, content: changed.content,
-                language: LANG_MAP[ext] || 'plaintext', parentId, isFolder: false,
-              };
-              setFiles(prev => [...prev, newFile]);
-              saveFile(changed.path, changed.content);
-            }
-          }
-          toast({ title: `${result.changedFiles.length} file(s) updated by runner` });
+          mergeRunnerFiles(result.changedFiles);
         }
 
+        // Commands like `git commit` move the repo; keep the decision engine current
+        if (/^git\s/.test(command.trim())) refreshRepoState().catch(() => {});
+
         // CI/CD: Auto-trigger event hooks
         if (result.exitCode === 0 && isDeployCommand(command)) {
           triggerEventHooks({
@@ -1141,7 +1282,22 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
         setPendingPermission({ ...req, runId: run.id });
       },
     });
-  }, [runnerSession, project.id, saveFile]);
+  }, [runnerSession, project.id, project.runtimeType, mergeRunnerFiles, refreshRepoState]);
+
+  const openTerminal = useCallback(async (key: string, handlers: TerminalHandlers, size?: { cols: number; rows: number }) => {
+    const connection = await runnerClientRef.current.openTerminal(
+      { key, projectId: project.id, runtimeType: project.runtimeType, files: workspaceFiles(), ...size },
+      {
+        ...handlers,
+        onExit: exit => {
+          if (exit.changedFiles.length > 0) mergeRunnerFiles(exit.changedFiles);
+          handlers.onExit?.(exit);
+        },
+      },
+    );
+    setRunnerStatus('connected');
+    return connection;
+  }, [project.id, project.runtimeType, workspaceFiles, mergeRunnerFiles]);
 
   // ─── Permission Approval/Deny Handlers ───
 
@@ -1221,9 +1377,7 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
     const presetKey = localStorage.getItem('default_agent_preset') || undefined;
 
     // Gather enabled MCP tools
-    const enabledMcpTools = mcpServers
-      .filter(s => s.enabled && s.authConfigured)
-      .flatMap(s => s.tools.map(t => ({ server: s.name, name: t.name, description: t.description })));
+    const enabledMcpTools = enabledMCPTools(mcpServers);
 
     streamAgent({
       goal,
@@ -1262,24 +1416,28 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
           setPendingPatches(prev => [...prev, patchPreview]);
 
           // Apply using consolidated helper
-          const success = autoApplyParsedPatches(parsed);
+          const applied = autoApplyParsedPatches(parsed);
+          const error = describePatchFailures(applied.results);
 
           // Track files changed and toast new files
-          const filesChanged = parsed.map(patch => {
-            const filePath = patch.newFile.startsWith('/') ? patch.newFile : `/${patch.newFile}`;
-            const action: 'created' | 'modified' = patch.oldFile === '/dev/null' ? 'created' : 'modified';
-            if (action === 'created') {
-              toast({ title: `📄 Created: ${filePath}` });
-            }
-            return { path: filePath, action };
-          });
+          const filesChanged: AgentFileChange[] = applied.results
+            .filter(r => r.status !== 'failed')
+            .map(r => {
+              if (r.status === 'created' || r.status === 'copied') {
+                toast({ title: `📄 Created: ${r.path}` });
+                return { path: r.path, action: 'created' };
+              }
+              if (r.status === 'deleted') return { path: r.path, action: 'deleted' };
+              if (r.status === 'renamed') return { path: r.path, action: 'renamed', from: r.from };
+              return { path: r.path, action: 'modified' };
+            });
 
           setAgentRun(prev => {
             if (!prev) return null;
             const steps = [...prev.steps];
             for (let i = steps.length - 1; i >= 0; i--) {
               if (steps[i].type === 'patch' && !steps[i].filesChanged) {
-                steps[i] = { ...steps[i], filesChanged };
+                steps[i] = { ...steps[i], filesChanged, patchId };
                 break;
               }
             }
@@ -1287,7 +1445,7 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
           });
 
           setPendingPatches(prev => prev.map(p =>
-            p.id === patchId ? { ...p, status: success ? 'applied' : 'failed', error: success ? undefined : 'Some hunks failed' } : p
+            p.id === patchId ? { ...p, status: error ? 'failed' : 'applied', error, ...applied } : p
           ));
 
           // Sync to CA snapshots after agent patch
@@ -1425,7 +1583,17 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
   const { hooks, toggleHook, addHook, removeHook, webhookSecrets, executions: hookExecutions, generateSecret: generateWebhookSecret, deleteSecret: deleteWebhookSecret, loadExecutions: refreshHookExecutions } = projectHooks;
 
   const toggleMCPServer = useCallback((id: string) => {
-    setMcpServers(prev => prev.map(s => s.id === id ? { ...s, enabled: !s.enabled } : s));
+    if (id.startsWith(MCP_CONNECTION_SERVER_PREFIX)) {
+      const connectionId = id.slice(MCP_CONNECTION_SERVER_PREFIX.length);
+      setDisabledMcpConnections(prev => {
+        const next = new Set(prev);
+        if (next.has(connectionId)) next.delete(connectionId);
+        else next.add(connectionId);
+        return next;
+      });
+      return;
+    }
+    setBuiltinMcpServers(prev => prev.map(s => s.id === id ? { ...s, enabled: !s.enabled } : s));
   }, []);
 
   // ─── Snapshots ───
@@ -1436,20 +1604,32 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
     caSnapshots.createCASnapshot(files, label || `Snapshot ${new Date().toLocaleString()}`);
   }, [files, createSnapshotRaw, caSnapshots]);
 
+  const loadSnapshots = useCallback(() => {
+    loadFileSnapshots();
+    caSnapshots.listRefs().then(setRefListing);
+    caSnapshots.getPendingMerge().then(setPendingMerge);
+    caSnapshots.getStorageUsage().then(setStorageUsage);
+  }, [loadFileSnapshots, caSnapshots]);
+
+  /** Replace every file in the editor, e.g. after a restore or merge. */
+  const replaceAllFiles = useCallback((ideFiles: IDEFile[]) => {
+    setFiles(ideFiles);
+    saveAllFiles(ideFiles);
+    const firstFile = ideFiles.find(f => !f.isFolder);
+    if (firstFile) {
+      setOpenTabs([{ fileId: firstFile.id, name: firstFile.name, path: firstFile.path, isModified: false }]);
+      setActiveTabId(firstFile.id);
+    } else {
+      setOpenTabs([]);
+      setActiveTabId(null);
+    }
+  }, [saveAllFiles]);
+
   const restoreSnapshot = useCallback(async (snapshotId: string) => {
     // Try CA checkout first
     const caFiles = await caSnapshots.checkoutSnapshot(snapshotId);
     if (caFiles && caFiles.length > 0) {
-      setFiles(caFiles);
-      saveAllFiles(caFiles);
-      const firstFile = caFiles.find(f => !f.isFolder);
-      if (firstFile) {
-        setOpenTabs([{ fileId: firstFile.id, name: firstFile.name, path: firstFile.path, isModified: false }]);
-        setActiveTabId(firstFile.id);
-      } else {
-        setOpenTabs([]);
-        setActiveTabId(null);
-      }
+      replaceAllFiles(caFiles);
       return;
     }
 
@@ -1458,19 +1638,177 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
     if (!snapshotFiles) return;
 
     const { buildIDEFilesFromRows } = await import('@/hooks/use-project-persistence');
-    const ideFiles = buildIDEFilesFromRows(snapshotFiles);
-    setFiles(ideFiles);
-    saveAllFiles(ideFiles);
+    replaceAllFiles(buildIDEFilesFromRows(snapshotFiles));
+  }, [caSnapshots, getSnapshotFiles, replaceAllFiles]);
 
-    const firstFile = ideFiles.find(f => !f.isFolder);
-    if (firstFile) {
-      setOpenTabs([{ fileId: firstFile.id, name: firstFile.name, path: firstFile.path, isModified: false }]);
-      setActiveTabId(firstFile.id);
-    } else {
-      setOpenTabs([]);
-      setActiveTabId(null);
+  const createTag = useCallback(async (tagName: string, message?: string) => {
+    try {
+      await caSnapshots.createTag(tagName, { message });
+      caSnapshots.listRefs().then(setRefListing);
+      toast({ title: `Tagged main as ${tagName}` });
+    } catch (err) {
+      toast({ title: 'Cannot create tag', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
     }
-  }, [caSnapshots, getSnapshotFiles, saveAllFiles]);
+  }, [caSnapshots]);
+
+  // ─── Merging refs into main ───
+
+  /** Load the merged main ref so the next auto-sync builds on it instead of overwriting it. */
+  const reloadMain = useCallback(async () => {
+    const mainFiles = await caSnapshots.checkoutMain();
+    if (mainFiles) replaceAllFiles(mainFiles);
+    caSnapshots.listRefs().then(setRefListing);
+  }, [caSnapshots, replaceAllFiles]);
+
+  const mergeRef = useCallback(async (sourceRef: string) => {
+    try {
+      const outcome = await caSnapshots.mergeRef(sourceRef);
+      if (outcome.status === 'conflicted') {
+        setPendingMerge({
+          id: outcome.merge_id,
+          source_ref: sourceRef,
+          target_ref: 'main',
+          conflicts: outcome.conflicts,
+          created_at: new Date().toISOString(),
+        });
+        toast({ title: `Merge conflicts in ${outcome.conflicts.length} file(s)`, description: `Resolve them to finish merging ${sourceRef}` });
+        return;
+      }
+      if (outcome.status === 'up_to_date') {
+        toast({ title: `main already contains ${sourceRef}` });
+        return;
+      }
+      await reloadMain();
+      toast({ title: `Merged ${sourceRef} into main`, description: outcome.status === 'fast_forward' ? 'Fast-forward' : undefined });
+    } catch (err) {
+      toast({ title: 'Merge failed', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+    }
+  }, [caSnapshots, reloadMain]);
+
+  const resolveMerge = useCallback(async (resolutions: Record<string, string | null>) => {
+    if (!pendingMerge) return;
+    try {
+      await caSnapshots.resolveMerge(pendingMerge.id, resolutions);
+      setPendingMerge(null);
+      await reloadMain();
+      toast({ title: `Merged ${pendingMerge.source_ref} into ${pendingMerge.target_ref}` });
+    } catch (err) {
+      toast({ title: 'Cannot complete merge', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+    }
+  }, [caSnapshots, pendingMerge, reloadMain]);
+
+  const abortMerge = useCallback(async () => {
+    if (!pendingMerge) return;
+    try {
+      await caSnapshots.abortMerge(pendingMerge.id);
+    } catch (err) {
+      console.warn('Abort merge failed:', err);
+    }
+    setPendingMerge(null);
+  }, [caSnapshots, pendingMerge]);
+
+  const rebaseRef = useCallback(async (sourceRef: string) => {
+    try {
+      const outcome = await caSnapshots.rebaseRef(sourceRef);
+      if (outcome.status === 'conflicted') {
+        toast({
+          title: `Cannot rebase ${sourceRef} onto main`,
+          description: `Conflicts in ${outcome.conflicts.map(c => c.path).join(', ')}; merge instead to resolve them`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      caSnapshots.listRefs().then(setRefListing);
+      toast({
+        title: outcome.status === 'up_to_date' ? `${sourceRef} is already up to date` : `Rebased ${sourceRef} onto main`,
+        description: outcome.skipped ? `${outcome.skipped} snapshot(s) already in main were dropped` : undefined,
+      });
+    } catch (err) {
+      toast({ title: 'Rebase failed', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+    }
+  }, [caSnapshots]);
+
+  // ─── Git import/export ───
+
+  const exportGit = useCallback(async (refName = 'main') => {
+    try {
+      const { bundle, commits, truncated } = await caSnapshots.exportGit(refName);
+      const url = URL.createObjectURL(bundle);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${project.name}-${refName.replace(/\//g, '-')}.bundle`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast({
+        title: `Exported ${commits} commit(s) from ${refName}`,
+        description: truncated ? 'Older history was left out; the oldest exported commit has no parent' : 'Clone it with git clone <file>.bundle',
+      });
+    } catch (err) {
+      toast({ title: 'Export failed', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+    }
+  }, [caSnapshots, project.name]);
+
+  const importGit = useCallback(async (file: File) => {
+    try {
+      const result = await caSnapshots.importGit(file);
+      caSnapshots.listRefs().then(setRefListing);
+      const notes = [
+        result.skipped_paths.length > 0 ? `${result.skipped_paths.length} binary or invalid file(s) skipped` : '',
+        result.skipped_refs.length > 0 ? `not moved: ${result.skipped_refs.map(r => r.ref_name).join(', ')}` : '',
+        result.truncated ? 'older history left out' : '',
+      ].filter(Boolean);
+      toast({
+        title: `Imported ${result.commits} commit(s) into ${result.refs.map(r => r.ref_name).join(', ') || 'no refs'}`,
+        description: notes.length > 0 ? notes.join('; ') : 'Merge an imported ref into main to bring it into the editor',
+      });
+    } catch (err) {
+      toast({ title: 'Import failed', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+    }
+  }, [caSnapshots]);
+
+  // ─── Snapshot garbage collection ───
+
+  const collectGarbage = useCallback(async (dryRun: boolean) => {
+    try {
+      const result = await caSnapshots.collectGarbage({ dryRun });
+      if (!dryRun) {
+        toast({
+          title: `Collected ${result.snapshots} snapshot(s)`,
+          description: `${(result.reclaimed_bytes / (1024 * 1024)).toFixed(2)} MB reclaimed`,
+        });
+        loadSnapshots();
+      }
+      return result;
+    } catch (err) {
+      toast({ title: 'Cleanup failed', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+      return null;
+    }
+  }, [caSnapshots, loadSnapshots]);
+
+  // ─── Build replays ───
+
+  const replayBuild = useCallback(async (buildRunId: string) => {
+    setBuildReplay({
+      id: '', build_run_id: buildRunId, status: 'running', verdict: null, exit_code: null, duration_ms: null,
+      mismatches: [], environment_drift: [], error: null, created_at: new Date().toISOString(), finished_at: null,
+    });
+    try {
+      const replay = await replayBuildRemote(buildRunId);
+      setBuildReplay(replay);
+      const drift = replay.environment_drift.length > 0 ? ` Environment differs in ${replay.environment_drift.join(', ')}.` : '';
+      toast({
+        title: replay.verdict === 'reproducible' ? 'Build reproduced'
+          : replay.verdict === 'diverged' ? 'Build reproduced with different logs'
+          : 'Build did not reproduce',
+        description: (replay.mismatches.length > 0 ? `Differs in ${replay.mismatches.join(', ')}.` : 'Exit code and logs match the attestation.') + drift,
+        variant: replay.verdict === 'not_reproducible' ? 'destructive' : undefined,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setBuildReplay(prev => prev && { ...prev, status: 'error', error: message });
+      toast({ title: 'Replay failed', description: message, variant: 'destructive' });
+    }
+  }, []);
 
   // ─── Project Switching ───
 
@@ -1541,16 +1879,23 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
       getFileById,
       toolCalls, pendingPatches, permissionPolicy,
       approveToolCall, denyToolCall, alwaysAllowTool, alwaysAllowCommand,
-      applyPatch, applyPatchAndRun, cancelPatch,
-      runnerSession, killRunningProcess,
+      applyPatch, applyPatchAndRun, cancelPatch, revertPatch,
+      runnerSession, killRunningProcess, openTerminal,
       sendErrorsToChat,
       theme, toggleTheme,
       agentRun, startAgent, stopAgent, pauseAgent, clearAgentRun: () => setAgentRun(null),
       hooks, toggleHook, addHook, removeHook,
       webhookSecrets, hookExecutions, generateWebhookSecret, deleteWebhookSecret, refreshHookExecutions,
       mcpServers, toggleMCPServer,
+      mcpConnections: mcpConnections.connections,
+      addMCPConnection: mcpConnections.addConnection,
+      refreshMCPConnection: mcpConnections.refreshConnection,
+      removeMCPConnection: mcpConnections.removeConnection,
       activeRightPanel, setActiveRightPanel,
       snapshots, snapshotsLoading, loadSnapshots, createSnapshot, restoreSnapshot,
+      refs: refListing.refs, tags: refListing.tags, createTag,
+      pendingMerge, mergeRef, resolveMerge, abortMerge, rebaseRef, exportGit, importGit,
+      storageUsage, collectGarbage, buildReplay, replayBuild,
       conversations: mergedConversations,
       activeConversationId, switchConversation, newConversation, deleteConversation,
       projects, switchProject, createProject, renameProject: renameProjectAction, deleteProject: deleteProjectAction,
@@ -1574,6 +1919,7 @@ export function IDEProvider({ children }: { children: React.ReactNode }) {
       alwaysAllowPermission,
       selectedModel, setSelectedModel,
       runnerStatus,
+      repoState, refreshRepoState,
       activeSkills, setActiveSkills,
     }}>
       {children}
@@ -1587,6 +1933,43 @@ export const useIDE = () => {
   return ctx;
 };
 
+// ─── File Tree Helpers ───
+
+/** Outcome of applying a patch set to the IDE files, stored on its PatchPreview. */
+interface AppliedPatchSet {
+  results: FilePatchResult[];
+  inverse?: string;
+  appliedFiles: AppliedFileState[];
+}
+
+function toPatchFiles(files: IDEFile[]): PatchFile[] {
+  return files.map(f => ({ path: f.path, content: f.content, ...(f.mode ? { mode: f.mode } : {}) }));
+}
+
+/** Add any missing parent folders of `path` to `files` (in place) and return the parent id. */
+function ensureParentFolders(files: IDEFile[], path: string): string | null {
+  const parts = path.split('/').filter(Boolean);
+  let parentId: string | null = null;
+  for (let i = 1; i < parts.length; i++) {
+    const folderPath = '/' + parts.slice(0, i).join('/');
+    let folder = files.find(f => f.path === folderPath && f.isFolder);
+    if (!folder) {
+      folder = {
+        id: `folder-${Date.now()}-${i}-${Math.random().toString(36).slice(2, 4)}`,
+        name: parts[i - 1],
+        path: folderPath,
+        content: '',
+        language: '',
+        parentId,
+        isFolder: true,
+      };
+      files.push(folder);
+    }
+    parentId = folder.id;
+  }
+  return parentId;
+}
+
 // ─── Hooks Evaluator ───
 
 function evaluateHooks(event: 'PreToolUse' | 'PostToolUse', call: ToolCall, hooks: Hook[]): 'allow' | 'deny' | 'pass' {
@@ -140,9 +140,9 @@ export const docsContent: Record<string, DocPage> = {
     blocks: [
       { type: "paragraph", text: "The Proof Zone ensures that every build is verifiable. When a runner executes a command, it produces a cryptographic attestation linking the input snapshot, output artifacts, command hash, and runner fingerprint." },
       { type: "heading", level: 2, id: "attestations", text: "Build Attestations" },
-      { type: "code", blocks: [{ language: "typescript", code: "interface BuildAttestation {\n  attestation_hash: string;\n  build_run_id: string;\n  snapshot_hash: string;\n  command_hash: string;\n  artifacts_hashes: string[];\n  runner_fingerprint: {\n    node_id: string;\n    trust_tier: string;\n    region: string;\n  };\n}" }] },
+      { type: "code", blocks: [{ language: "typescript", code: "interface BuildAttestation {\n  attestation_hash: string;   // sha256 of the canonical in-toto statement\n  build_run_id: string;\n  snapshot_hash: string;      // root_tree_hash of the input snapshot\n  command_hash: string;\n  artifacts_hashes: { path: string; sha256: string; size?: number }[];\n  runner_fingerprint: {\n    node_id: string;\n    trust_tier: string;\n    region: string;\n  };\n  statement: InTotoStatement;  // SLSA v1 provenance predicate\n  envelope: DsseEnvelope;      // statement signed with the project's Ed25519 key\n  key_id: string;\n}" }] },
       { type: "heading", level: 2, id: "verification", text: "Verification" },
-      { type: "paragraph", text: "Any party can verify a build by recomputing the attestation hash from its components. This enables trustless verification of build outputs without re-executing the build." },
+      { type: "paragraph", text: "Every attestation is signed with a per-project Ed25519 key. The verify_attestation action checks the signature and rebuilds the statement from the stored run, so a build can be trusted without re-executing it, and anyone holding the project's public key can check the envelope offline." },
     ],
   },
   snapshots: {
@@ -176,6 +176,8 @@ export const docsContent: Record<string, DocPage> = {
     headings: [
       { id: "how-it-works", title: "How It Works", level: 2 },
       { id: "session-management", title: "Session Management", level: 2 },
+      { id: "scheduling-failover", title: "Scheduling & Failover", level: 2 },
+      { id: "node-enrollment", title: "Node Enrollment", level: 2 },
       { id: "trust-tiers", title: "Trust Tiers", level: 2 },
     ],
     blocks: [
@@ -189,6 +191,14 @@ export const docsContent: Record<string, DocPage> = {
       ]},
       { type: "heading", level: 2, id: "session-management", text: "Session Management" },
       { type: "paragraph", text: "Long-running sessions maintain state between commands. Each project can have an active runner session that persists the working directory and environment." },
+      { type: "heading", level: 2, id: "scheduling-failover", text: "Scheduling & Failover" },
+      { type: "list", items: [
+        "**Load-aware placement** — Nodes report active sessions, CPU load and free memory on their health endpoint. New sessions go to a same-region node first, then to the least utilized one; full nodes are skipped.",
+        "**Draining** — A node that fails a health check, or that an operator drains, keeps serving its sessions but takes no new ones. Three failed checks in a row take it offline.",
+        "**Failover** — When a session's node is offline or no longer holds the session, it is reopened on another healthy node and its workspace is restored from the project's latest snapshot. A `runner.failover` event records the move.",
+      ]},
+      { type: "heading", level: 2, id: "node-enrollment", text: "Node Enrollment" },
+      { type: "paragraph", text: "Runners join the mesh with a one-time enrollment token. On first start a runner generates an Ed25519 key pair and registers the public key; from then on it sends a signed heartbeat every 20 seconds with its load, capabilities and environment fingerprint. The mesh calls each node back with a credential issued to that node alone, so one compromised runner can't impersonate another." },
       { type: "heading", level: 2, id: "trust-tiers", text: "Trust Tiers" },
       { type: "list", items: [
         "**Community** — Open runners with basic verification. Suitable for non-sensitive builds.",
@@ -204,6 +214,10 @@ export const docsContent: Record<string, DocPage> = {
     headings: [
       { id: "what-is-mcp", title: "What is MCP?", level: 2 },
       { id: "available-servers", title: "Available Servers", level: 2 },
+      { id: "tool-inputs", title: "Tool Inputs", level: 2 },
+      { id: "credentials", title: "Credentials", level: 2 },
+      { id: "connecting-servers", title: "Connecting Your Own Servers", level: 2 },
+      { id: "started-mcp-server", title: "Started as an MCP Server", level: 2 },
       { id: "permissions", title: "Permission Model", level: 2 },
     ],
     blocks: [
@@ -212,6 +226,22 @@ export const docsContent: Record<string, DocPage> = {
       { type: "paragraph", text: "MCP defines a typed interface for tools that agents can invoke. Each tool has an input schema, output schema, and a risk level. The agent selects and calls tools based on the current task, with permission checks enforced at every invocation." },
       { type: "heading", level: 2, id: "available-servers", text: "Available Servers" },
       { type: "code", blocks: [{ language: "typescript", code: "// Example MCP server categories\nconst categories = {\n  'Developer Tools': ['github', 'vercel', 'docker', 'aws', 'digitalocean'],\n  'Communication':   ['slack', 'discord', 'telegram', 'twilio', 'sendgrid'],\n  'Data & Analytics': ['airtable', 'google-sheets', 'postgres', 'notion'],\n  'Web3':            ['evm-rpc', 'solana', 'helius', 'moralis', 'coingecko'],\n  'AI & ML':         ['huggingface', 'perplexity', 'firecrawl'],\n};" }] },
+      { type: "heading", level: 2, id: "tool-inputs", text: "Tool Inputs" },
+      { type: "paragraph", text: "Every built-in tool declares its input as a JSON Schema: field types, which fields are required, allowed values, formats such as EVM and Solana addresses, and bounds on numbers and lists. The same schemas drive the Test forms in the MCP Servers panel, the tool list the agent sees, and the checks every gateway runs before a call reaches the provider, so a malformed call is rejected without spending an API request." },
+      { type: "paragraph", text: "A rejected call comes back with HTTP 400 and an invalid_input error that lists each problem by field. The agent is told what was wrong and what the tool expects, and retries with corrected input." },
+      { type: "code", blocks: [{ language: "json", code: "{\n  \"ok\": false,\n  \"code\": \"invalid_input\",\n  \"error\": \"Invalid input for github_list_issues: repo is required; state must be one of \\\"open\\\", \\\"closed\\\", \\\"all\\\"\",\n  \"tool\": \"github_list_issues\",\n  \"issues\": [\n    { \"path\": \"repo\", \"code\": \"required\", \"message\": \"repo is required\" },\n    { \"path\": \"state\", \"code\": \"enum\", \"message\": \"state must be one of \\\"open\\\", \\\"closed\\\", \\\"all\\\"\" }\n  ]\n}" }] },
+      { type: "heading", level: 2, id: "credentials", text: "Credentials" },
+      { type: "paragraph", text: "API tokens for the built-in servers belong to the project, not the browser. The project owner enters them once in the MCP Servers panel; they are encrypted with a key of their own, which is in turn wrapped by the vault key, and from then on tool calls name only the server. The vault fills the credentials in server-side, records when they were last used, and only does so for the roles the owner allows: owner and editors by default, optionally viewers." },
+      { type: "paragraph", text: "Replacing a credential or choosing Rotate key reseals it under a fresh data key. To rotate the vault key itself, add a higher version to the MCP_VAULT_KEYS secret (e.g. 2:new-secret,1:old-secret), call the mcp-vault function's rekey action with the service key, then drop the old version." },
+      { type: "paragraph", text: "GitHub, Slack, Notion, Jira, HubSpot, Salesforce, Google Sheets, Asana, LinkedIn, Airtable, monday.com and X can be connected with OAuth instead: when the deployment has an OAuth app for the provider, the panel shows Connect with the provider in place of the token fields. The authorization uses PKCE where the provider supports it, the tokens go into the vault like any other credential, expiring access tokens are refreshed before a call, and Disconnect revokes the grant with the provider." },
+      { type: "heading", level: 2, id: "connecting-servers", text: "Connecting Your Own Servers" },
+      { type: "paragraph", text: "Any spec-compliant MCP server can be connected to a project from the MCP Servers panel. stdio servers run as a process inside the project's runner session, under its resource limits; remote servers are reached over Streamable HTTP or the older HTTP+SSE transport. Started runs the initialize handshake, lists the server's tools, resources and prompts, and makes its tools available to chat and the agent alongside the built-in servers." },
+      { type: "code", blocks: [{ language: "bash", code: "# stdio: the command runs in the runner workspace\nnpx -y @modelcontextprotocol/server-filesystem .\n\n# Streamable HTTP\nhttps://mcp.example.com/mcp" }] },
+      { type: "paragraph", text: "Environment variables and headers, such as API tokens, are sealed with the same vault keys as built-in credentials and never sent back to the browser; only their names are shown. Refresh a server to pick up tools it added; every tool call is recorded in the MCP audit log." },
+      { type: "heading", level: 2, id: "started-mcp-server", text: "Started as an MCP Server" },
+      { type: "paragraph", text: "Other agents, such as CLI assistants and CI bots, can drive a project through Started's own Streamable HTTP endpoint. Create a project token in the MCP Servers panel and pick its scopes: read (files, snapshots, build attestations and the event timeline), write (edit files, create snapshots) and exec (run commands on the runner). The token acts as the member who created it and is shown only once." },
+      { type: "code", blocks: [{ language: "json", code: "{\n  \"mcpServers\": {\n    \"started\": {\n      \"type\": \"http\",\n      \"url\": \"https://<project-ref>.supabase.co/functions/v1/started-mcp\",\n      \"headers\": { \"Authorization\": \"Bearer smcp_…\" }\n    }\n  }\n}" }] },
+      { type: "paragraph", text: "External agents get the same guardrails as the in-IDE agent. Commands go through the project's command rules, file writes through its file pattern rules, and every tool through its MCP permission rules. Reads are allowed by default; writes and commands need an allow rule for the tool or the write risk. Every call is recorded in the MCP audit log." },
       { type: "heading", level: 2, id: "permissions", text: "Permission Model" },
       { type: "paragraph", text: "Every MCP tool call is gated by a permission system. Rules can allow or deny specific tools, servers, or risk levels. Permissions are configured per-project and audited in the MCP audit log." },
       { type: "callout", variant: "danger", title: "High-Risk Tools", text: "Tools marked as 'high' risk (e.g., deleting resources, sending money) require explicit user approval before execution." },
@@ -250,20 +280,26 @@ export const docsContent: Record<string, DocPage> = {
       { id: "what-are-attestations", title: "What Are Attestations?", level: 2 },
       { id: "schema", title: "Attestation Schema", level: 2 },
       { id: "verification-flow", title: "Verification Flow", level: 2 },
+      { id: "artifacts", title: "Build Artifacts", level: 2 },
+      { id: "replays", title: "Deterministic Replay", level: 2 },
     ],
     blocks: [
       { type: "paragraph", text: "Build attestations provide cryptographic proof that a specific build was executed correctly. They link the input snapshot, executed command, output artifacts, and runner environment into a single verifiable hash." },
       { type: "heading", level: 2, id: "what-are-attestations", text: "What Are Attestations?" },
       { type: "paragraph", text: "When a runner executes a build, it captures a fingerprint of the execution environment, hashes all inputs and outputs, and produces a signed attestation. This attestation can be independently verified without re-running the build." },
       { type: "heading", level: 2, id: "schema", text: "Attestation Schema" },
-      { type: "code", blocks: [{ language: "json", code: "{\n  \"attestation_hash\": \"sha256:abc123...\",\n  \"build_run_id\": \"uuid\",\n  \"snapshot_hash\": \"sha256:def456...\",\n  \"command_hash\": \"sha256:ghi789...\",\n  \"artifacts_hashes\": [\"sha256:jkl012...\"],\n  \"runner_fingerprint\": {\n    \"node_id\": \"runner-us-east-1\",\n    \"trust_tier\": \"official\",\n    \"region\": \"us-east-1\"\n  }\n}" }] },
+      { type: "code", blocks: [{ language: "json", code: "{\n  \"payloadType\": \"application/vnd.in-toto+json\",\n  \"payload\": \"<base64 statement>\",\n  \"signatures\": [{ \"keyid\": \"ed25519:3f9a...\", \"sig\": \"<base64>\" }]\n}\n\n// payload, decoded\n{\n  \"_type\": \"https://in-toto.io/Statement/v1\",\n  \"subject\": [{ \"name\": \"dist/app.js\", \"digest\": { \"sha256\": \"jkl012...\" } }],\n  \"predicateType\": \"https://slsa.dev/provenance/v1\",\n  \"predicate\": {\n    \"buildDefinition\": {\n      \"buildType\": \"https://started.dev/attestations/build/v1\",\n      \"externalParameters\": { \"command\": \"npm run build\", \"snapshot\": \"uuid\" },\n      \"internalParameters\": { \"projectId\": \"uuid\", \"runnerFingerprint\": { \"node_id\": \"runner-us-east-1\" }, \"exitCode\": 0, \"durationMs\": 4120 },\n      \"resolvedDependencies\": [{ \"name\": \"snapshot\", \"uri\": \"started:snapshot/uuid\", \"digest\": { \"sha256\": \"def456...\" } }]\n    },\n    \"runDetails\": {\n      \"builder\": { \"id\": \"https://started.dev/runners/build-attestation\" },\n      \"metadata\": { \"invocationId\": \"build-run-uuid\", \"finishedOn\": \"2026-02-16T10:12:45.000Z\" },\n      \"byproducts\": [{ \"name\": \"stdout\", \"digest\": { \"sha256\": \"...\" } }, { \"name\": \"stderr\", \"digest\": { \"sha256\": \"...\" } }]\n    }\n  }\n}" }] },
       { type: "heading", level: 2, id: "verification-flow", text: "Verification Flow" },
       { type: "list", ordered: true, items: [
-        "Retrieve the attestation record by build run ID.",
-        "Recompute the attestation hash from its components.",
-        "Compare the recomputed hash with the stored attestation hash.",
-        "If they match, the build is verified as authentic.",
+        "Retrieve the attestation's DSSE envelope by build run ID.",
+        "Check the Ed25519 signature over the envelope's pre-authentication encoding with the project's public key (get_signing_keys).",
+        "Rebuild the statement from the build run, the input snapshot's root tree hash, the log digests and the recorded artifacts.",
+        "If the signature holds and the statements match, the build is verified; verify_attestation does both and lists any mismatched fields.",
       ]},
+      { type: "heading", level: 2, id: "artifacts", text: "Build Artifacts" },
+      { type: "paragraph", text: "Projects declare artifact globs such as dist/** or target/release/* (with ! to exclude) in the CI/CD panel. After every successful run the runner collects the matching files, up to 1000 files and 50 MB, and they are stored as content-addressed blobs keyed by the sha256 of their bytes, so identical outputs cost nothing extra and a capture is only recorded when something changed. Captured files can be downloaded from the Artifacts tab, and complete_run accepts an artifact_capture_id so the attestation's artifacts_hashes and subjects are exactly the files the runner captured. A capture can back one run only, and only one taken after that run started." },
+      { type: "heading", level: 2, id: "replays", text: "Deterministic Replay" },
+      { type: "paragraph", text: "A verified attestation proves what ran, not that it would run the same way again. POST /api/replay with a build_run_id checks the input snapshot out into a fresh, ephemeral runner workspace, re-executes the attested command and compares the exit code and log digests with the attestation. The verdict is reproducible (everything matches), diverged (same exit code, different logs) or not_reproducible (different exit code); runner fingerprint fields that changed between the two runs are listed as environment drift. Ship mode takes the latest verdict into account." },
     ],
   },
   "api-reference": {
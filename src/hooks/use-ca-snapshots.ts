@@ -1,6 +1,8 @@
 import { useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import type { IDEFile } from '@/types/ide';
+import type { MergeConflict } from '@/lib/patch-utils';
+import type { ProjectRole, RefRule } from '../../supabase/functions/_shared/refs';
 import { buildIDEFilesFromRows } from '@/hooks/use-project-persistence';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
@@ -28,6 +30,87 @@ async function callSnapshotAPI(action: string, body: Record<string, unknown>) {
   return resp.json();
 }
 
+export interface CARef {
+  ref_name: string;
+  snapshot_id: string;
+  updated_at: string;
+  updated_by: string | null;
+  /** Write rule that applies to this ref */
+  rule: RefRule;
+}
+
+/** Annotated, immutable name for a snapshot. */
+export interface CATag {
+  tag_name: string;
+  snapshot_id: string;
+  message: string | null;
+  tagged_by: string | null;
+  created_at: string;
+}
+
+export interface CARefListing {
+  refs: CARef[];
+  tags: CATag[];
+  /** The caller's role in the project */
+  role: ProjectRole | null;
+}
+
+/** A merge that stopped on conflicts and is waiting to be resolved. */
+export interface PendingMerge {
+  id: string;
+  source_ref: string;
+  target_ref: string;
+  conflicts: MergeConflict[];
+  created_at: string;
+}
+
+export type MergeOutcome =
+  | { status: 'merged' | 'fast_forward' | 'up_to_date'; merged_snapshot_id: string }
+  | { status: 'conflicted'; merge_id: string; conflicts: MergeConflict[] };
+
+export type ReplayOutcome =
+  | { status: 'picked' | 'rebased' | 'empty' | 'up_to_date'; snapshot_id: string; replayed?: number; skipped?: number }
+  | { status: 'conflicted'; snapshot_id?: string; conflicts: MergeConflict[] };
+
+/** Result of importing a git bundle or repository tarball. */
+export interface GitImportResult {
+  commits: number;
+  refs: Array<{ ref_name: string; snapshot_id: string }>;
+  tags: string[];
+  /** Imported ref HEAD pointed at, when the import says */
+  head: string | null;
+  skipped_refs: Array<{ ref_name: string; reason: string }>;
+  skipped_tags: Array<{ tag_name: string; reason: string }>;
+  /** Binary files, submodules and invalid paths left out of the snapshots */
+  skipped_paths: string[];
+  truncated: boolean;
+}
+
+/** Content a project's snapshots reference, and its owner's usage against their plan. */
+export interface StorageUsage {
+  project: { snapshots: number; path_index_rows: number; blobs: number; blob_bytes: number };
+  owner: { storage_mb: number; limit_mb: number; plan_key: string } | null;
+}
+
+/** What a garbage collection removed, or with dry_run would remove. */
+export interface GCResult {
+  dry_run: boolean;
+  retention_days: number;
+  snapshots: number;
+  path_index_rows: number;
+  trees: number;
+  blobs: number;
+  reclaimed_bytes: number;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
 /**
  * Hook that provides content-addressed snapshot operations.
  * Wraps the snapshot-api edge function.
@@ -69,7 +152,7 @@ export function useCASnapshots(projectId: string | null) {
   const createCASnapshot = useCallback(async (files: IDEFile[], label?: string) => {
     if (!projectId) return;
     const nonFolders = files.filter(f => !f.isFolder);
-    const flatFiles = nonFolders.map(f => ({ path: f.path, content: f.content }));
+    const flatFiles = nonFolders.map(f => ({ path: f.path, content: f.content, ...(f.mode ? { mode: f.mode } : {}) }));
     try {
       const result = await callSnapshotAPI('create_snapshot', {
         project_id: projectId,
@@ -118,17 +201,110 @@ export function useCASnapshots(projectId: string | null) {
     }
   }, []);
 
-  /** List refs for the project. */
-  const listRefs = useCallback(async () => {
-    if (!projectId) return [];
+  /** List refs and tags for the project, with the rule that applies to each ref. */
+  const listRefs = useCallback(async (): Promise<CARefListing> => {
+    if (!projectId) return { refs: [], tags: [], role: null };
     try {
       const result = await callSnapshotAPI('list_refs', { project_id: projectId });
-      return result.refs || [];
+      return { refs: result.refs || [], tags: result.tags || [], role: result.role ?? null };
+    } catch {
+      return { refs: [], tags: [], role: null };
+    }
+  }, [projectId]);
+
+  /** Tag a snapshot (by default the head of main); tag names can't be reused. */
+  const createTag = useCallback(async (tagName: string, options: { snapshotId?: string; refName?: string; message?: string } = {}) => {
+    return callSnapshotAPI('create_tag', {
+      project_id: projectId,
+      tag_name: tagName,
+      snapshot_id: options.snapshotId,
+      ref_name: options.refName,
+      message: options.message,
+    });
+  }, [projectId]);
+
+  /** Three-way merge `sourceRef` into `targetRef`; conflicts leave a merge in progress. */
+  const mergeRef = useCallback(async (sourceRef: string, targetRef = 'main'): Promise<MergeOutcome> => {
+    return callSnapshotAPI('merge_ref', { project_id: projectId, source_ref: sourceRef, target_ref: targetRef });
+  }, [projectId]);
+
+  /** The merge into `targetRef` waiting on conflict resolution, if any. */
+  const getPendingMerge = useCallback(async (targetRef = 'main'): Promise<PendingMerge | null> => {
+    if (!projectId) return null;
+    try {
+      const result = await callSnapshotAPI('get_merge', { project_id: projectId, target_ref: targetRef });
+      return result.merge || null;
+    } catch {
+      return null;
+    }
+  }, [projectId]);
+
+  /** Finish a conflicted merge; each conflicted path maps to its final content, or null to delete it. */
+  const resolveMerge = useCallback(async (mergeId: string, resolutions: Record<string, string | null>): Promise<MergeOutcome> => {
+    return callSnapshotAPI('resolve_merge', { merge_id: mergeId, resolutions });
+  }, []);
+
+  const abortMerge = useCallback(async (mergeId: string) => {
+    await callSnapshotAPI('abort_merge', { merge_id: mergeId });
+  }, []);
+
+  /** Replay one snapshot's change onto `targetRef`. */
+  const cherryPick = useCallback(async (snapshotId: string, targetRef = 'main'): Promise<ReplayOutcome> => {
+    return callSnapshotAPI('cherry_pick', { project_id: projectId, snapshot_id: snapshotId, target_ref: targetRef });
+  }, [projectId]);
+
+  /** Replay `sourceRef`'s snapshots onto the current `ontoRef`; a conflict leaves the ref unchanged. */
+  const rebaseRef = useCallback(async (sourceRef: string, ontoRef = 'main'): Promise<ReplayOutcome> => {
+    return callSnapshotAPI('rebase_ref', { project_id: projectId, source_ref: sourceRef, onto_ref: ontoRef });
+  }, [projectId]);
+
+  /** Export a ref's snapshot history as a git bundle (`git clone file.bundle` reads it). */
+  const exportGit = useCallback(async (refName = 'main'): Promise<{ bundle: Blob; commits: number; truncated: boolean }> => {
+    const token = await getAuthToken();
+    const resp = await fetch(`${SUPABASE_URL}/functions/v1/snapshot-api`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ action: 'export_git', project_id: projectId, ref_name: refName }),
+    });
+    if (!resp.ok) {
+      const err = await resp.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(err.error || `HTTP ${resp.status}`);
+    }
+    return {
+      bundle: await resp.blob(),
+      commits: Number(resp.headers.get('X-Git-Commits') || 0),
+      truncated: resp.headers.get('X-Git-Truncated') === 'true',
+    };
+  }, [projectId]);
+
+  /** Import a git bundle or repository tarball as snapshots, with branches under `refPrefix`. */
+  const importGit = useCallback(async (file: Blob, refPrefix = 'import/'): Promise<GitImportResult> => {
+    const data = bytesToBase64(new Uint8Array(await file.arrayBuffer()));
+    return callSnapshotAPI('import_git', { project_id: projectId, data, ref_prefix: refPrefix });
+  }, [projectId]);
+
+  const getStorageUsage = useCallback(async (): Promise<StorageUsage | null> => {
+    if (!projectId) return null;
+    try {
+      const result = await callSnapshotAPI('storage_usage', { project_id: projectId });
+      return { project: result.project, owner: result.owner };
     } catch {
-      return [];
+      return null;
     }
   }, [projectId]);
 
+  /** Collect snapshots unreachable from refs, tags and the retention window; a dry run only reports. */
+  const collectGarbage = useCallback(async (options: { retentionDays?: number; dryRun?: boolean } = {}): Promise<GCResult> => {
+    return callSnapshotAPI('gc', {
+      project_id: projectId,
+      retention_days: options.retentionDays,
+      dry_run: options.dryRun ?? true,
+    });
+  }, [projectId]);
+
   return {
     checkoutMain,
     createCASnapshot,
@@ -136,5 +312,16 @@ export function useCASnapshots(projectId: string | null) {
     checkoutSnapshot,
     diffSnapshots,
     listRefs,
+    createTag,
+    mergeRef,
+    getPendingMerge,
+    resolveMerge,
+    abortMerge,
+    cherryPick,
+    rebaseRef,
+    exportGit,
+    importGit,
+    getStorageUsage,
+    collectGarbage,
   };
 }
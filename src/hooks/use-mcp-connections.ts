@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { MCPConnection } from '@/types/agent';
+import type { McpServerConfig } from '../../supabase/functions/_shared/mcp';
+import {
+  listMCPConnectionsRemote, addMCPConnectionRemote, refreshMCPConnectionRemote, removeMCPConnectionRemote,
+} from '@/lib/api-client';
+
+/** External MCP servers connected to the project, kept in step with the API. */
+export function useMcpConnections(projectId: string | null) {
+  const [connections, setConnections] = useState<MCPConnection[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!projectId) {
+      setConnections([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    listMCPConnectionsRemote(projectId)
+      .then(rows => { if (!cancelled) setConnections(rows); })
+      // No API configured (e.g. local dev without one); there's nothing to connect through
+      .catch(() => { if (!cancelled) setConnections([]); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  const upsert = (connection: MCPConnection) => {
+    setConnections(prev => {
+      const rest = prev.filter(c => c.id !== connection.id);
+      return [...rest, connection].sort((a, b) => a.name.localeCompare(b.name));
+    });
+  };
+
+  const addConnection = useCallback(async (server: McpServerConfig) => {
+    if (!projectId) throw new Error('No project open');
+    const connection = await addMCPConnectionRemote(projectId, server);
+    // The list carries secret names; a fresh connection has exactly the ones just sent
+    upsert({ ...connection, header_names: Object.keys(server.headers || {}), env_names: Object.keys(server.env || {}) });
+    return connection;
+  }, [projectId]);
+
+  const refreshConnection = useCallback(async (connectionId: string) => {
+    if (!projectId) return;
+    const connection = await refreshMCPConnectionRemote(projectId, connectionId);
+    setConnections(prev => prev.map(c => c.id === connectionId ? { ...c, ...connection } : c));
+  }, [projectId]);
+
+  const removeConnection = useCallback(async (connectionId: string) => {
+    if (!projectId) return;
+    await removeMCPConnectionRemote(projectId, connectionId);
+    setConnections(prev => prev.filter(c => c.id !== connectionId));
+  }, [projectId]);
+
+  return { connections, loading, addConnection, refreshConnection, removeConnection };
+}
@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { MCPCredential, MCPOAuthProvider } from '@/types/agent';
+import { callMcpVault } from '@/lib/mcp-client';
+import type { CredentialRole } from '../../supabase/functions/_shared/vault';
+
+/** Dispatched after any change so every open list of the project's credentials reloads */
+const CHANGED_EVENT = 'mcp-credentials-changed';
+
+interface OAuthCallback {
+  code: string | null;
+  state: string | null;
+  error: string | null;
+}
+
+/**
+ * The code and state MCPOAuthCallback posts back from the popup, or null
+ * when the popup is closed without finishing.
+ */
+function waitForOAuthCallback(popup: Window): Promise<OAuthCallback | null> {
+  return new Promise(resolve => {
+    let closedTimer: ReturnType<typeof setTimeout> | undefined;
+    const finish = (result: OAuthCallback | null) => {
+      window.removeEventListener('message', handler);
+      clearInterval(poll);
+      clearTimeout(closedTimer);
+      resolve(result);
+    };
+    const handler = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.type !== 'mcp-oauth-callback') return;
+      finish({ code: event.data.code, state: event.data.state, error: event.data.error });
+    };
+    const poll = setInterval(() => {
+      // The callback closes the popup right after posting, so give its message a moment to arrive
+      if (popup.closed && !closedTimer) closedTimer = setTimeout(() => finish(null), 1000);
+    }, 500);
+    window.addEventListener('message', handler);
+  });
+}
+
+/**
+ * The project's stored credentials for built-in MCP servers. Values go in
+ * once and are only ever used server-side, so the list carries field names,
+ * access and usage, and the caller's own role on the project.
+ */
+export function useMcpCredentials(projectId: string | null) {
+  const [credentials, setCredentials] = useState<MCPCredential[]>([]);
+  const [role, setRole] = useState<CredentialRole | null>(null);
+  const [oauthProviders, setOAuthProviders] = useState<MCPOAuthProvider[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const handler = () => setVersion(v => v + 1);
+    window.addEventListener(CHANGED_EVENT, handler);
+    return () => window.removeEventListener(CHANGED_EVENT, handler);
+  }, []);
+
+  useEffect(() => {
+    if (!projectId) {
+      setCredentials([]);
+      setRole(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    callMcpVault('list', { project_id: projectId })
+      .then(result => {
+        if (cancelled) return;
+        setCredentials(result.credentials);
+        setRole(result.role);
+      })
+      .catch(() => { if (!cancelled) setCredentials([]); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [projectId, version]);
+
+  useEffect(() => {
+    if (!projectId) {
+      setOAuthProviders([]);
+      return;
+    }
+    let cancelled = false;
+    callMcpVault('oauth_providers', { project_id: projectId })
+      .then(result => { if (!cancelled) setOAuthProviders(result.providers); })
+      .catch(() => { if (!cancelled) setOAuthProviders([]); });
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  const change = useCallback(async (action: string, body: Record<string, unknown>) => {
+    if (!projectId) throw new Error('No project open');
+    const result = await callMcpVault(action, { project_id: projectId, ...body });
+    window.dispatchEvent(new Event(CHANGED_EVENT));
+    return result;
+  }, [projectId]);
+
+  /** Store or replace a server's credentials */
+  const saveCredential = useCallback(
+    (serverId: string, fields: Record<string, string>) => change('set', { server_id: serverId, fields }),
+    [change],
+  );
+
+  /** Reseal under a fresh data key, with new values when given */
+  const rotateCredential = useCallback(
+    (serverId: string, fields?: Record<string, string>) => change('rotate', { server_id: serverId, fields }),
+    [change],
+  );
+
+  const setCredentialAccess = useCallback(
+    (serverId: string, allowedRoles: CredentialRole[]) => change('set_access', { server_id: serverId, allowed_roles: allowedRoles }),
+    [change],
+  );
+
+  const removeCredential = useCallback(
+    (serverId: string) => change('delete', { server_id: serverId }),
+    [change],
+  );
+
+  /**
+   * Authorize with the server's provider in a popup and store the tokens.
+   * Resolves to null when the popup is closed first.
+   */
+  const connectOAuth = useCallback(async (serverId: string) => {
+    if (!projectId) throw new Error('No project open');
+    // Opened before any await, while the click still allows popups
+    const popup = window.open('', 'mcp-oauth', 'width=600,height=700,popup=yes');
+    if (!popup) throw new Error('Allow popups for this site to connect');
+    try {
+      const { url } = await callMcpVault('oauth_start', {
+        project_id: projectId, server_id: serverId, origin: window.location.origin,
+      });
+      popup.location.href = url;
+    } catch (err) {
+      popup.close();
+      throw err;
+    }
+    const callback = await waitForOAuthCallback(popup);
+    if (!callback) return null;
+    if (callback.error || !callback.code || !callback.state) throw new Error(callback.error || 'Authorization failed');
+    return change('oauth_finish', { server_id: serverId, code: callback.code, state: callback.state });
+  }, [projectId, change]);
+
+  const oauthProviderFor = useCallback(
+    (serverId: string) => oauthProviders.find(p => p.server_id === serverId) ?? null,
+    [oauthProviders],
+  );
+
+  const credentialFor = useCallback(
+    (serverId: string) => credentials.find(c => c.server_id === serverId) ?? null,
+    [credentials],
+  );
+
+  return {
+    credentials, role, loading, credentialFor, saveCredential, rotateCredential, setCredentialAccess, removeCredential,
+    oauthProviders, oauthProviderFor, connectOAuth,
+  };
+}
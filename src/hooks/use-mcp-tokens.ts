@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { MCPToken } from '@/types/agent';
+import type { McpTokenScope } from '../../supabase/functions/_shared/mcp';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+/** The Streamable HTTP URL external MCP clients connect to */
+export const STARTED_MCP_URL = `${SUPABASE_URL}/functions/v1/started-mcp`;
+
+async function callStartedMCP(action: string, body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession();
+  const resp = await fetch(STARTED_MCP_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${data.session?.access_token || import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ action, ...body }),
+  });
+  const result = await resp.json().catch(() => ({ error: `HTTP ${resp.status}` }));
+  if (!resp.ok) throw new Error(result.error || `HTTP ${resp.status}`);
+  return result;
+}
+
+/** Tokens that let external agents drive the project over MCP. */
+export function useMcpTokens(projectId: string | null) {
+  const [tokens, setTokens] = useState<MCPToken[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!projectId) {
+      setTokens([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    callStartedMCP('list_tokens', { project_id: projectId })
+      .then(result => { if (!cancelled) setTokens(result.tokens); })
+      .catch(() => { if (!cancelled) setTokens([]); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  /** Resolves with the token value, which can't be fetched again */
+  const createToken = useCallback(async (name: string, scopes: McpTokenScope[], expiresInDays?: number) => {
+    if (!projectId) throw new Error('No project open');
+    const result = await callStartedMCP('create_token', {
+      project_id: projectId, name, scopes, expires_in_days: expiresInDays,
+    });
+    setTokens(prev => [result.record as MCPToken, ...prev]);
+    return result.token as string;
+  }, [projectId]);
+
+  const revokeToken = useCallback(async (tokenId: string) => {
+    if (!projectId) return;
+    await callStartedMCP('revoke_token', { project_id: projectId, token_id: tokenId });
+    setTokens(prev => prev.map(t => t.id === tokenId ? { ...t, revoked_at: new Date().toISOString() } : t));
+  }, [projectId]);
+
+  return { tokens, loading, createToken, revokeToken };
+}
@@ -233,6 +233,11 @@ export function useProjectPersistence(user: User | null) {
   const deleteFileFromDB = useCallback(async (path: string) => {
     const pid = projectIdRef.current;
     if (!pid) return;
+    // Drop any pending save so it can't resurrect the row
+    if (saveTimers.current[path]) {
+      clearTimeout(saveTimers.current[path]);
+      delete saveTimers.current[path];
+    }
     try {
       await supabase
         .from('project_files')
@@ -281,7 +286,7 @@ export function useProjectPersistence(user: User | null) {
 }
 
 /** Convert flat DB rows [{path, content}] into IDEFile[] with folder structure */
-export function buildIDEFilesFromRows(rows: { path: string; content: string }[]): IDEFile[] {
+export function buildIDEFilesFromRows(rows: { path: string; content: string; mode?: string }[]): IDEFile[] {
   const files: IDEFile[] = [];
   const folderPaths = new Set<string>();
 
@@ -327,6 +332,7 @@ export function buildIDEFilesFromRows(rows: { path: string; content: string }[])
       language: extLangMap[ext] || 'plaintext',
       parentId,
       isFolder: false,
+      ...(row.mode ? { mode: row.mode } : {}),
     });
   }
 
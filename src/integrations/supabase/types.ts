@@ -155,6 +155,7 @@ export type Database = {
           plan_key: string
           runner_minutes: number
           storage_mb: number
+          storage_measured_at: string | null
         }
         Insert: {
           id?: string
@@ -166,6 +167,7 @@ export type Database = {
           plan_key?: string
           runner_minutes?: number
           storage_mb?: number
+          storage_measured_at?: string | null
         }
         Update: {
           id?: string
@@ -177,15 +179,112 @@ export type Database = {
           plan_key?: string
           runner_minutes?: number
           storage_mb?: number
+          storage_measured_at?: string | null
         }
         Relationships: []
       }
+      artifact_captures: {
+        Row: {
+          build_run_id: string | null
+          command: string | null
+          created_at: string
+          file_count: number
+          globs: string[]
+          id: string
+          project_id: string
+          skipped: Json
+          total_bytes: number
+          user_id: string | null
+        }
+        Insert: {
+          build_run_id?: string | null
+          command?: string | null
+          created_at?: string
+          file_count?: number
+          globs?: string[]
+          id?: string
+          project_id: string
+          skipped?: Json
+          total_bytes?: number
+          user_id?: string | null
+        }
+        Update: {
+          build_run_id?: string | null
+          command?: string | null
+          created_at?: string
+          file_count?: number
+          globs?: string[]
+          id?: string
+          project_id?: string
+          skipped?: Json
+          total_bytes?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "artifact_captures_build_run_id_fkey"
+            columns: ["build_run_id"]
+            isOneToOne: false
+            referencedRelation: "build_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "artifact_captures_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attestation_signing_keys: {
+        Row: {
+          algorithm: string
+          created_at: string
+          encrypted_private_key: string
+          id: string
+          key_id: string
+          project_id: string
+          public_key: string
+          revoked_at: string | null
+        }
+        Insert: {
+          algorithm?: string
+          created_at?: string
+          encrypted_private_key: string
+          id?: string
+          key_id: string
+          project_id: string
+          public_key: string
+          revoked_at?: string | null
+        }
+        Update: {
+          algorithm?: string
+          created_at?: string
+          encrypted_private_key?: string
+          id?: string
+          key_id?: string
+          project_id?: string
+          public_key?: string
+          revoked_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attestation_signing_keys_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       billing_plans: {
         Row: {
           created_at: string
           features: Json
           included_mcp_calls: number
           included_runner_minutes: number
+          included_storage_mb: number
           included_tokens: number
           key: string
           max_concurrent_runs: number
@@ -197,6 +296,7 @@ export type Database = {
           features?: Json
           included_mcp_calls?: number
           included_runner_minutes?: number
+          included_storage_mb?: number
           included_tokens?: number
           key: string
           max_concurrent_runs?: number
@@ -208,6 +308,7 @@ export type Database = {
           features?: Json
           included_mcp_calls?: number
           included_runner_minutes?: number
+          included_storage_mb?: number
           included_tokens?: number
           key?: string
           max_concurrent_runs?: number
@@ -216,6 +317,42 @@ export type Database = {
         }
         Relationships: []
       }
+      build_artifacts: {
+        Row: {
+          blob_hash: string
+          byte_size: number
+          capture_id: string
+          path: string
+        }
+        Insert: {
+          blob_hash: string
+          byte_size: number
+          capture_id: string
+          path: string
+        }
+        Update: {
+          blob_hash?: string
+          byte_size?: number
+          capture_id?: string
+          path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "build_artifacts_blob_hash_fkey"
+            columns: ["blob_hash"]
+            isOneToOne: false
+            referencedRelation: "ca_blobs"
+            referencedColumns: ["hash"]
+          },
+          {
+            foreignKeyName: "build_artifacts_capture_id_fkey"
+            columns: ["capture_id"]
+            isOneToOne: false
+            referencedRelation: "artifact_captures"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       build_attestations: {
         Row: {
           artifacts_hashes: Json
@@ -223,10 +360,13 @@ export type Database = {
           build_run_id: string
           command_hash: string
           created_at: string
+          envelope: Json | null
           id: string
+          key_id: string | null
           logs_hashes: Json
           runner_fingerprint: Json
           snapshot_hash: string
+          statement: Json | null
         }
         Insert: {
           artifacts_hashes?: Json
@@ -234,10 +374,13 @@ export type Database = {
           build_run_id: string
           command_hash: string
           created_at?: string
+          envelope?: Json | null
           id?: string
+          key_id?: string | null
           logs_hashes?: Json
           runner_fingerprint?: Json
           snapshot_hash: string
+          statement?: Json | null
         }
         Update: {
           artifacts_hashes?: Json
@@ -245,10 +388,13 @@ export type Database = {
           build_run_id?: string
           command_hash?: string
           created_at?: string
+          envelope?: Json | null
           id?: string
+          key_id?: string | null
           logs_hashes?: Json
           runner_fingerprint?: Json
           snapshot_hash?: string
+          statement?: Json | null
         }
         Relationships: [
           {
@@ -341,18 +487,21 @@ export type Database = {
           byte_size: number
           content: string
           created_at: string
+          encoding: string
           hash: string
         }
         Insert: {
           byte_size: number
           content: string
           created_at?: string
+          encoding?: string
           hash: string
         }
         Update: {
           byte_size?: number
           content?: string
           created_at?: string
+          encoding?: string
           hash?: string
         }
         Relationships: []
@@ -759,6 +908,242 @@ export type Database = {
           },
         ]
       }
+      mcp_connection_secrets: {
+        Row: {
+          ciphertext: string | null
+          connection_id: string
+          env: Json | null
+          env_names: string[]
+          header_names: string[]
+          headers: Json | null
+          key_version: number | null
+          wrapped_key: string | null
+        }
+        Insert: {
+          ciphertext?: string | null
+          connection_id: string
+          env?: Json | null
+          env_names?: string[]
+          header_names?: string[]
+          headers?: Json | null
+          key_version?: number | null
+          wrapped_key?: string | null
+        }
+        Update: {
+          ciphertext?: string | null
+          connection_id?: string
+          env?: Json | null
+          env_names?: string[]
+          header_names?: string[]
+          headers?: Json | null
+          key_version?: number | null
+          wrapped_key?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mcp_connection_secrets_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: true
+            referencedRelation: "mcp_connections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mcp_connections: {
+        Row: {
+          args: string[]
+          capabilities: Json
+          command: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          instructions: string | null
+          last_error: string | null
+          name: string
+          project_id: string
+          prompts: Json
+          protocol_version: string | null
+          resource_templates: Json
+          resources: Json
+          server_info: Json | null
+          status: string
+          tools: Json
+          transport: string
+          updated_at: string
+          url: string | null
+        }
+        Insert: {
+          args?: string[]
+          capabilities?: Json
+          command?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          instructions?: string | null
+          last_error?: string | null
+          name: string
+          project_id: string
+          prompts?: Json
+          protocol_version?: string | null
+          resource_templates?: Json
+          resources?: Json
+          server_info?: Json | null
+          status?: string
+          tools?: Json
+          transport: string
+          updated_at?: string
+          url?: string | null
+        }
+        Update: {
+          args?: string[]
+          capabilities?: Json
+          command?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          instructions?: string | null
+          last_error?: string | null
+          name?: string
+          project_id?: string
+          prompts?: Json
+          protocol_version?: string | null
+          resource_templates?: Json
+          resources?: Json
+          server_info?: Json | null
+          status?: string
+          tools?: Json
+          transport?: string
+          updated_at?: string
+          url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mcp_connections_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mcp_credentials: {
+        Row: {
+          account_label: string | null
+          allowed_roles: string[]
+          auth_type: string
+          ciphertext: string
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          field_names: string[]
+          id: string
+          key_version: number
+          last_used_at: string | null
+          last_used_by: string | null
+          project_id: string
+          rotated_at: string | null
+          scopes: string[]
+          server_id: string
+          updated_at: string
+          updated_by: string | null
+          wrapped_key: string
+        }
+        Insert: {
+          account_label?: string | null
+          allowed_roles?: string[]
+          auth_type?: string
+          ciphertext: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          field_names?: string[]
+          id?: string
+          key_version: number
+          last_used_at?: string | null
+          last_used_by?: string | null
+          project_id: string
+          rotated_at?: string | null
+          scopes?: string[]
+          server_id: string
+          updated_at?: string
+          updated_by?: string | null
+          wrapped_key: string
+        }
+        Update: {
+          account_label?: string | null
+          allowed_roles?: string[]
+          auth_type?: string
+          ciphertext?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          field_names?: string[]
+          id?: string
+          key_version?: number
+          last_used_at?: string | null
+          last_used_by?: string | null
+          project_id?: string
+          rotated_at?: string | null
+          scopes?: string[]
+          server_id?: string
+          updated_at?: string
+          updated_by?: string | null
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mcp_credentials_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mcp_oauth_states: {
+        Row: {
+          code_verifier: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          project_id: string
+          redirect_uri: string
+          server_id: string
+          state_hash: string
+          user_id: string
+        }
+        Insert: {
+          code_verifier?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          project_id: string
+          redirect_uri: string
+          server_id: string
+          state_hash: string
+          user_id: string
+        }
+        Update: {
+          code_verifier?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          project_id?: string
+          redirect_uri?: string
+          server_id?: string
+          state_hash?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mcp_oauth_states_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       mcp_permissions: {
         Row: {
           created_at: string
@@ -833,47 +1218,6 @@ export type Database = {
         }
         Relationships: []
       }
-      mcp_tokens: {
-        Row: {
-          created_at: string
-          id: string
-          project_id: string
-          server_id: string
-          token_key: string
-          token_value: string
-          updated_at: string
-          user_id: string
-        }
-        Insert: {
-          created_at?: string
-          id?: string
-          project_id: string
-          server_id: string
-          token_key: string
-          token_value: string
-          updated_at?: string
-          user_id: string
-        }
-        Update: {
-          created_at?: string
-          id?: string
-          project_id?: string
-          server_id?: string
-          token_key?: string
-          token_value?: string
-          updated_at?: string
-          user_id?: string
-        }
-        Relationships: [
-          {
-            foreignKeyName: "mcp_tokens_project_id_fkey"
-            columns: ["project_id"]
-            isOneToOne: false
-            referencedRelation: "projects"
-            referencedColumns: ["id"]
-          },
-        ]
-      }
       mcp_tools: {
         Row: {
           created_at: string
@@ -1221,6 +1565,56 @@ export type Database = {
           },
         ]
       }
+      project_mcp_tokens: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          id: string
+          last_used_at: string | null
+          name: string
+          project_id: string
+          revoked_at: string | null
+          scopes: string[]
+          token_hash: string
+          token_prefix: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name: string
+          project_id: string
+          revoked_at?: string | null
+          scopes?: string[]
+          token_hash: string
+          token_prefix: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          project_id?: string
+          revoked_at?: string | null
+          scopes?: string[]
+          token_hash?: string
+          token_prefix?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_mcp_tokens_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_permissions: {
         Row: {
           created_at: string
@@ -1296,6 +1690,7 @@ export type Database = {
       }
       projects: {
         Row: {
+          artifact_globs: string[]
           created_at: string
           id: string
           memory_notes: Json | null
@@ -1304,6 +1699,7 @@ export type Database = {
           runner_session_id: string | null
         }
         Insert: {
+          artifact_globs?: string[]
           created_at?: string
           id?: string
           memory_notes?: Json | null
@@ -1312,6 +1708,7 @@ export type Database = {
           runner_session_id?: string | null
         }
         Update: {
+          artifact_globs?: string[]
           created_at?: string
           id?: string
           memory_notes?: Json | null
@@ -1321,15 +1718,66 @@ export type Database = {
         }
         Relationships: []
       }
+      runner_enrollment_tokens: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string
+          id: string
+          node_id: string | null
+          region: string | null
+          token_hash: string
+          trust_tier: string
+          used_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          expires_at: string
+          id?: string
+          node_id?: string | null
+          region?: string | null
+          token_hash: string
+          trust_tier?: string
+          used_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          id?: string
+          node_id?: string | null
+          region?: string | null
+          token_hash?: string
+          trust_tier?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "runner_enrollment_tokens_node_id_fkey"
+            columns: ["node_id"]
+            isOneToOne: false
+            referencedRelation: "runner_nodes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       runner_nodes: {
         Row: {
           base_url: string
           capabilities: Json
           created_at: string
+          enrolled_at: string | null
+          fingerprint: Json
+          health_failures: number
           id: string
           last_heartbeat: string | null
+          last_heartbeat_ts: number
+          load: Json
           name: string
+          owner_id: string | null
           pricing: Json
+          public_key: string | null
           region: string | null
           status: string
           trust_tier: string
@@ -1338,10 +1786,17 @@ export type Database = {
           base_url: string
           capabilities?: Json
           created_at?: string
+          enrolled_at?: string | null
+          fingerprint?: Json
+          health_failures?: number
           id?: string
           last_heartbeat?: string | null
+          last_heartbeat_ts?: number
+          load?: Json
           name: string
+          owner_id?: string | null
           pricing?: Json
+          public_key?: string | null
           region?: string | null
           status?: string
           trust_tier?: string
@@ -1350,10 +1805,17 @@ export type Database = {
           base_url?: string
           capabilities?: Json
           created_at?: string
+          enrolled_at?: string | null
+          fingerprint?: Json
+          health_failures?: number
           id?: string
           last_heartbeat?: string | null
+          last_heartbeat_ts?: number
+          load?: Json
           name?: string
+          owner_id?: string | null
           pricing?: Json
+          public_key?: string | null
           region?: string | null
           status?: string
           trust_tier?: string
@@ -1364,31 +1826,47 @@ export type Database = {
         Row: {
           created_at: string
           cwd: string | null
+          failed_over_from: string | null
           id: string
           project_id: string
           remote_session_id: string
+          restored_snapshot_id: string | null
           runner_node_id: string
+          status: string
           updated_at: string
         }
         Insert: {
           created_at?: string
           cwd?: string | null
+          failed_over_from?: string | null
           id?: string
           project_id: string
           remote_session_id: string
+          restored_snapshot_id?: string | null
           runner_node_id: string
+          status?: string
           updated_at?: string
         }
         Update: {
           created_at?: string
           cwd?: string | null
+          failed_over_from?: string | null
           id?: string
           project_id?: string
           remote_session_id?: string
+          restored_snapshot_id?: string | null
           runner_node_id?: string
+          status?: string
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "runner_sessions_failed_over_from_fkey"
+            columns: ["failed_over_from"]
+            isOneToOne: false
+            referencedRelation: "runner_nodes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "runner_sessions_project_id_fkey"
             columns: ["project_id"]
@@ -1396,6 +1874,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "runner_sessions_restored_snapshot_id_fkey"
+            columns: ["restored_snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "ca_snapshots"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "runner_sessions_runner_node_id_fkey"
             columns: ["runner_node_id"]
@@ -2,6 +2,12 @@
  * API Client for Started IDE
  * Uses Privy authentication and Vercel Functions
  */
+import type { FilePatchResult, PermissionPolicy, ToolInput, ToolResult, GitResult } from '@/types/tools';
+import { formatGitResult } from '../../supabase/functions/_shared/git';
+import type { PtyTicket } from '../../supabase/functions/_shared/pty';
+import type { LimitViolation } from '@/types/runner';
+import type { MCPConnection, MCPModelTool } from '@/types/agent';
+import type { McpServerConfig, McpCallToolResult, McpResourceContents, McpGetPromptResult } from '../../supabase/functions/_shared/mcp';
 
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
 
@@ -34,7 +40,7 @@ interface StreamChatOptions {
   context?: string;
   model?: string;
   skillContext?: string;
-  mcpTools?: Array<{ server: string; name: string; description: string }>;
+  mcpTools?: MCPModelTool[];
   onDelta: (text: string) => void;
   onDone: () => void;
   onError: (error: string) => void;
@@ -119,11 +125,12 @@ export async function streamChat({ messages, context, model, skillContext, mcpTo
 interface ApplyPatchRequest {
   diff: string;
   files: Array<{ path: string; content: string }>;
+  fuzz?: number;
 }
 
 interface ApplyPatchResult {
   success: boolean;
-  results: Array<{ path: string; status: 'applied' | 'created' | 'failed'; error?: string }>;
+  results: FilePatchResult[];
   updatedFiles?: Array<{ path: string; content: string }>;
   snapshot?: Array<{ path: string; content: string }>;
 }
@@ -145,6 +152,97 @@ export async function applyPatchRemote(request: ApplyPatchRequest): Promise<Appl
   return resp.json();
 }
 
+// ─── Web Tools ───
+
+/** Run web_fetch / web_search on the API; the domain policy is enforced there too. */
+export async function runWebToolRemote(
+  tool: 'web_fetch' | 'web_search',
+  input: ToolInput['web_fetch'] | ToolInput['web_search'],
+  policy?: Pick<PermissionPolicy, 'allowedDomains' | 'deniedDomains'>,
+): Promise<ToolResult> {
+  const headers = await getAuthHeaders();
+  const resp = await fetch(`${API_BASE}/web`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify({
+      tool,
+      input,
+      policy: policy ? { allowedDomains: policy.allowedDomains, deniedDomains: policy.deniedDomains } : undefined,
+    }),
+  });
+  const data = await resp.json().catch(() => ({ error: 'Unknown error' }));
+  if (!resp.ok) return { ok: false, error: data.detail || data.error || `HTTP ${resp.status}` };
+  return { ok: true, content: data.content, duration_ms: data.duration_ms };
+}
+
+// ─── Git Tools ───
+
+type GitToolName = 'git_status' | 'git_diff' | 'git_log' | 'git_branch' | 'git_checkout' | 'git_commit';
+
+interface RunGitToolOptions<T extends GitToolName> {
+  tool: T;
+  input: ToolInput[T];
+  projectId: string;
+  runtimeType?: string;
+  /** Synced to the runner workspace first so git sees the IDE's edits */
+  files?: Array<{ path: string; content: string }>;
+}
+
+/** Run a git tool in the runner workspace. */
+export async function runGitToolRemote<T extends GitToolName>({ tool, input, projectId, runtimeType, files }: RunGitToolOptions<T>): Promise<ToolResult> {
+  const headers = await getAuthHeaders();
+  const resp = await fetch(`${API_BASE}/git`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify({ tool, input, project_id: projectId, runtime_type: runtimeType, files }),
+  });
+  const data = await resp.json().catch(() => ({ error: 'Unknown error' }));
+  if (!resp.ok || !data.ok) {
+    return { ok: false, error: data.detail || data.error || `HTTP ${resp.status}`, stderr: data.stderr, duration_ms: data.duration_ms };
+  }
+  const result = data.result as GitResult;
+  return {
+    ok: true,
+    git: result,
+    content: formatGitResult(result),
+    changedFiles: data.changed_files,
+    duration_ms: data.duration_ms,
+  };
+}
+
+// ─── Interactive Terminals ───
+
+interface OpenTerminalOptions {
+  projectId: string;
+  runtimeType?: string;
+  files?: Array<{ path: string; content: string }>;
+  cols?: number;
+  rows?: number;
+  cwd?: string;
+}
+
+/** Start a PTY in the runner workspace and get the WebSocket URL to attach to it. */
+export async function openTerminalRemote({ projectId, runtimeType, files, cols, rows, cwd }: OpenTerminalOptions): Promise<PtyTicket> {
+  const headers = await getAuthHeaders();
+  const resp = await fetch(`${API_BASE}/terminal`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify({ project_id: projectId, runtime_type: runtimeType, files, cols, rows, cwd }),
+  });
+  const data = await resp.json().catch(() => ({ error: 'Unknown error' }));
+  if (!resp.ok) throw new Error(data.detail || data.error || `HTTP ${resp.status}`);
+  return { sessionId: data.session_id, ptyId: data.pty_id, url: data.url };
+}
+
 export interface PermissionRequest {
   command: string;
   reason: string;
@@ -159,7 +257,11 @@ interface RunCommandOptions {
   runtimeType?: string;
   files?: Array<{ path: string; content: string }>;
   onLog: (line: string) => void;
-  onDone: (result: { exitCode: number; cwd: string; durationMs: number; changedFiles?: Array<{ path: string; content: string }> }) => void;
+  onDone: (result: {
+    exitCode: number; cwd: string; durationMs: number; changedFiles?: Array<{ path: string; content: string }>; limitExceeded?: LimitViolation;
+    /** Files matching the project's artifact globs, stored after a successful run */
+    artifacts?: BuildArtifact[]; artifactCaptureId?: string;
+  }) => void;
   onError: (error: string) => void;
   onRequiresApproval?: (req: PermissionRequest) => void;
   signal?: AbortSignal;
@@ -195,7 +297,10 @@ export async function runCommandRemote({ command, cwd, timeoutS, projectId, runt
     }
     if (data.stderr) onLog(data.stderr);
     if (data.stdout) onLog(data.stdout);
-    onDone({ exitCode: data.exitCode ?? (data.ok ? 0 : 1), cwd: data.cwd || cwd || '/workspace', durationMs: data.durationMs ?? 0, changedFiles: data.changedFiles });
+    onDone({
+      exitCode: data.exitCode ?? (data.ok ? 0 : 1), cwd: data.cwd || cwd || '/workspace', durationMs: data.durationMs ?? 0,
+      changedFiles: data.changedFiles, limitExceeded: data.limitExceeded, artifacts: data.artifacts, artifactCaptureId: data.artifactCaptureId,
+    });
     return;
   }
 
@@ -223,7 +328,10 @@ export async function runCommandRemote({ command, cwd, timeoutS, projectId, runt
           if (parsed.type === 'stdout') onLog(parsed.data);
           else if (parsed.type === 'stderr') onLog(parsed.data);
           else if (parsed.type === 'done') {
-            onDone({ exitCode: parsed.exitCode, cwd: parsed.cwd, durationMs: parsed.durationMs, changedFiles: parsed.changedFiles });
+            onDone({
+              exitCode: parsed.exitCode, cwd: parsed.cwd, durationMs: parsed.durationMs, changedFiles: parsed.changedFiles,
+              limitExceeded: parsed.limitExceeded, artifacts: parsed.artifacts, artifactCaptureId: parsed.artifactCaptureId,
+            });
             return;
           }
         } catch { /* ignore */ }
@@ -232,6 +340,157 @@ export async function runCommandRemote({ command, cwd, timeoutS, projectId, runt
   }
 }
 
+// ─── Build Replays ───
+
+export type ReplayVerdict = 'reproducible' | 'diverged' | 'not_reproducible';
+
+export interface BuildReplay {
+  id: string;
+  build_run_id: string;
+  status: 'running' | 'done' | 'error';
+  verdict: ReplayVerdict | null;
+  exit_code: number | null;
+  duration_ms: number | null;
+  /** Which of exit_code, stdout and stderr differ from the attestation */
+  mismatches: string[];
+  /** Runner fingerprint fields that differ from the original run's */
+  environment_drift: string[];
+  error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+/** Re-run an attested build from its input snapshot in a fresh workspace and compare the outcome. */
+export async function replayBuildRemote(buildRunId: string): Promise<BuildReplay> {
+  const headers = await getAuthHeaders();
+  const resp = await fetch(`${API_BASE}/replay`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ build_run_id: buildRunId }),
+  });
+  const data = await resp.json().catch(() => ({ error: 'Unknown error' }));
+  if (!resp.ok || !data.ok) throw new Error(data.detail || data.error || `HTTP ${resp.status}`);
+  return data.replay;
+}
+
+// ─── Build Artifacts ───
+
+export interface BuildArtifact {
+  path: string;
+  sha256: string;
+  size: number;
+}
+
+export interface ArtifactCapture {
+  id: string;
+  build_run_id: string | null;
+  /** The run that produced the files, or null for an on-demand capture */
+  command: string | null;
+  globs: string[];
+  file_count: number;
+  total_bytes: number;
+  skipped: Array<{ path: string; reason: string }>;
+  artifacts: BuildArtifact[];
+  created_at: string;
+}
+
+async function artifactsRequest(method: 'GET' | 'POST' | 'PUT', params: Record<string, string>, body?: Record<string, unknown>) {
+  const headers = await getAuthHeaders();
+  const query = method === 'GET' ? `?${new URLSearchParams(params)}` : '';
+  return fetch(`${API_BASE}/artifacts${query}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: method === 'GET' ? undefined : JSON.stringify({ ...params, ...body }),
+  });
+}
+
+/** The project's artifact globs and its latest captures, newest first. */
+export async function listArtifactsRemote(projectId: string): Promise<{ globs: string[]; captures: ArtifactCapture[] }> {
+  const resp = await artifactsRequest('GET', { project_id: projectId });
+  const data = await resp.json().catch(() => ({ error: 'Unknown error' }));
+  if (!resp.ok) throw new Error(data.detail || data.error || `HTTP ${resp.status}`);
+  return { globs: data.globs, captures: data.captures };
+}
+
+/** Capture the files matching the project's globs from the runner workspace as it is now. */
+export async function captureArtifactsRemote(projectId: string): Promise<{ id: string; artifacts: BuildArtifact[]; reused: boolean }> {
+  const resp = await artifactsRequest('POST', { project_id: projectId });
+  const data = await resp.json().catch(() => ({ error: 'Unknown error' }));
+  if (!resp.ok) throw new Error(data.detail || data.error || `HTTP ${resp.status}`);
+  return data.capture;
+}
+
+export async function setArtifactGlobsRemote(projectId: string, globs: string[]): Promise<string[]> {
+  const resp = await artifactsRequest('PUT', { project_id: projectId }, { globs });
+  const data = await resp.json().catch(() => ({ error: 'Unknown error' }));
+  if (!resp.ok) throw new Error(data.error || `HTTP ${resp.status}`);
+  return data.globs;
+}
+
+export async function downloadArtifactRemote(projectId: string, sha256: string): Promise<Blob> {
+  const resp = await artifactsRequest('GET', { project_id: projectId, hash: sha256 });
+  if (!resp.ok) {
+    const data = await resp.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(data.error || `HTTP ${resp.status}`);
+  }
+  return resp.blob();
+}
+
+// ─── MCP Connections ───
+
+async function mcpConnectionsRequest(method: 'GET' | 'POST' | 'DELETE', params: Record<string, string>, body?: Record<string, unknown>) {
+  const headers = await getAuthHeaders();
+  const query = method === 'POST' ? '' : `?${new URLSearchParams(params)}`;
+  const resp = await fetch(`${API_BASE}/mcp-connections${query}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: method === 'POST' ? JSON.stringify({ ...params, ...body }) : undefined,
+  });
+  const data = await resp.json().catch(() => ({ error: 'Unknown error' }));
+  if (!resp.ok) throw new Error(data.detail || data.error || `HTTP ${resp.status}`);
+  return data;
+}
+
+export async function listMCPConnectionsRemote(projectId: string): Promise<MCPConnection[]> {
+  return (await mcpConnectionsRequest('GET', { project_id: projectId })).connections;
+}
+
+/** Add a server and run its first refresh; a server that can't be reached comes back with status 'error'. */
+export async function addMCPConnectionRemote(projectId: string, server: McpServerConfig): Promise<MCPConnection> {
+  return (await mcpConnectionsRequest('POST', { project_id: projectId }, { action: 'add', server })).connection;
+}
+
+/** Re-run the initialize handshake and list the server's tools, resources and prompts again. */
+export async function refreshMCPConnectionRemote(projectId: string, connectionId: string): Promise<MCPConnection> {
+  return (await mcpConnectionsRequest('POST', { project_id: projectId }, { action: 'refresh', connection_id: connectionId })).connection;
+}
+
+export async function removeMCPConnectionRemote(projectId: string, connectionId: string): Promise<void> {
+  await mcpConnectionsRequest('DELETE', { project_id: projectId, id: connectionId });
+}
+
+export async function callMCPConnectionToolRemote(
+  projectId: string,
+  connectionId: string,
+  tool: string,
+  input: Record<string, unknown>,
+): Promise<McpCallToolResult> {
+  return (await mcpConnectionsRequest('POST', { project_id: projectId }, { action: 'call_tool', connection_id: connectionId, tool, input })).result;
+}
+
+export async function readMCPResourceRemote(projectId: string, connectionId: string, uri: string): Promise<McpResourceContents[]> {
+  return (await mcpConnectionsRequest('POST', { project_id: projectId }, { action: 'read_resource', connection_id: connectionId, uri })).contents;
+}
+
+export async function getMCPPromptRemote(
+  projectId: string,
+  connectionId: string,
+  name: string,
+  args: Record<string, string> = {},
+): Promise<McpGetPromptResult> {
+  return (await mcpConnectionsRequest('POST', { project_id: projectId }, { action: 'get_prompt', connection_id: connectionId, name, arguments: args })).prompt;
+}
+
 // ─── Agent Polling (reconnection after browser close) ───
 
 export interface AgentRunStatus {
@@ -276,7 +535,7 @@ interface StreamAgentOptions {
   maxIterations?: number;
   presetKey?: string;
   model?: string;
-  mcpTools?: Array<{ server: string; name: string; description: string }>;
+  mcpTools?: MCPModelTool[];
   onStep: (step: AgentStepEvent, iteration: number) => void;
   onPatch: (diff: string, summary: string) => void;
   onRunCommand: (command: string, summary: string) => void;
@@ -1,4 +1,9 @@
-import { getAuthHeaders } from '@/lib/api-client';
+import { getAuthHeaders, callMCPConnectionToolRemote } from '@/lib/api-client';
+import { MCP_CONNECTION_SERVER_PREFIX } from '@/types/agent';
+import { supabase } from '@/integrations/supabase/client';
+import { toolResultText } from '../../supabase/functions/_shared/mcp';
+import { isVaultServer } from '../../supabase/functions/_shared/vault';
+import { checkToolInput, isToolInputErrorBody, type SchemaIssue, type ToolInputErrorBody } from '../../supabase/functions/_shared/tool-schemas';
 
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
 
@@ -73,6 +78,23 @@ async function handleWalletTool(tool: string, input: Record<string, unknown>): P
   }
 }
 
+function invalidInputResult(body: ToolInputErrorBody): MCPToolCallResult {
+  return { ok: false, error: body.error, code: body.code, issues: body.issues };
+}
+
+async function toolResult(resp: Response): Promise<MCPToolCallResult> {
+  if (!resp.ok) {
+    const data = await resp.json().catch(() => ({ error: 'Unknown error' }));
+    if (isToolInputErrorBody(data)) return invalidInputResult(data);
+    return { ok: false, error: data.error || `HTTP ${resp.status}` };
+  }
+
+  const data = await resp.json().catch(() => ({}));
+  if (data?.ok === false) return { ok: false, error: data.error || 'Unknown error' };
+  if (Object.prototype.hasOwnProperty.call(data, 'result')) return { ok: true, result: data.result };
+  return { ok: true, result: data };
+}
+
 async function callMcpServer(serverId: string, body: Record<string, unknown>): Promise<MCPToolCallResult> {
   const headers = await getAuthHeaders();
   const resp = await fetch(`${API_BASE}/${serverId}`, {
@@ -83,171 +105,88 @@ async function callMcpServer(serverId: string, body: Record<string, unknown>): P
     },
     body: JSON.stringify(body),
   });
+  return toolResult(resp);
+}
 
-  if (!resp.ok) {
-    const data = await resp.json().catch(() => ({ error: 'Unknown error' }));
-    return { ok: false, error: data.error || `HTTP ${resp.status}` };
-  }
+// ─── Credential vault ───
 
-  const data = await resp.json().catch(() => ({}));
-  if (data?.ok === false) return { ok: false, error: data.error || 'Unknown error' };
-  if (Object.prototype.hasOwnProperty.call(data, 'result')) return { ok: true, result: data.result };
-  return { ok: true, result: data };
+const MCP_VAULT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/mcp-vault`;
+
+async function fetchMcpVault(action: string, body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession();
+  return fetch(MCP_VAULT_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${data.session?.access_token || import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ action, ...body }),
+  });
+}
+
+/** Manage a project's stored MCP credentials; see the mcp-vault function for its actions */
+export async function callMcpVault(action: string, body: Record<string, unknown>) {
+  const resp = await fetchMcpVault(action, body);
+  const result = await resp.json().catch(() => ({ error: `HTTP ${resp.status}` }));
+  if (!resp.ok) throw new Error(result.error || `HTTP ${resp.status}`);
+  return result;
 }
 
 export interface MCPToolCallRequest {
   tool: string;
   input: Record<string, unknown>;
-  githubToken?: string;
-  vercelToken?: string;
-  supabaseToken?: string;
-  cloudflareToken?: string;
-  awsAccessKeyId?: string;
-  awsSecretAccessKey?: string;
-  awsRegion?: string;
-  stripeToken?: string;
-  slackToken?: string;
-  notionToken?: string;
-  n8nApiKey?: string;
-  n8nBaseUrl?: string;
-  telegramBotToken?: string;
-  googleApiKey?: string;
-  alphaVantageKey?: string;
-  cmcApiKey?: string;
-  hfToken?: string;
-  dockerHost?: string;
-  dockerApiKey?: string;
-  postgresUrl?: string;
-  doToken?: string;
-  twitterBearerToken?: string;
-  linkedinToken?: string;
-  twilioAccountSid?: string;
-  twilioAuthToken?: string;
-  zapierWebhookUrl?: string;
-  airtableToken?: string;
-  jiraEmail?: string;
-  jiraApiToken?: string;
-  jiraDomain?: string;
-  sfInstanceUrl?: string;
-  sfAccessToken?: string;
-  hubspotToken?: string;
-  mondayToken?: string;
-  asanaToken?: string;
-  discordBotToken?: string;
-  trelloApiKey?: string;
-  trelloToken?: string;
-  sendgridApiKey?: string;
-  // Web3 MCP
-  evmRpcUrl?: string;
-  etherscanKey?: string;
-  etherscanChain?: string;
-  solanaRpcUrl?: string;
-  tenderlyKey?: string;
-  tenderlyAccount?: string;
-  tenderlyProject?: string;
   serverId: string;
+  /** Built-in servers use the project's stored credentials; connected servers belong to it */
+  projectId?: string;
 }
 
 export interface MCPToolCallResult {
   ok: boolean;
   result?: unknown;
   error?: string;
+  /** Set when the call was rejected for its input; issues say which fields to fix */
+  code?: 'invalid_input';
+  issues?: SchemaIssue[];
 }
 
 export async function callMCPTool(req: MCPToolCallRequest): Promise<MCPToolCallResult> {
   const body: Record<string, unknown> = { tool: req.tool, input: req.input };
 
+  // ─── Project MCP connections: spoken to over MCP by the API ───
+  if (req.serverId.startsWith(MCP_CONNECTION_SERVER_PREFIX)) {
+    if (!req.projectId) return { ok: false, error: 'Open a project to use its MCP servers' };
+    try {
+      const result = await callMCPConnectionToolRemote(
+        req.projectId, req.serverId.slice(MCP_CONNECTION_SERVER_PREFIX.length), req.tool, req.input,
+      );
+      return result.isError ? { ok: false, result, error: toolResultText(result, 500) } : { ok: true, result };
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : 'MCP call failed' };
+    }
+  }
+
+  // ─── Built-in tools: checked against their input schema before anything runs ───
+  const invalidInput = checkToolInput(req.tool, req.input);
+  if (invalidInput) return invalidInputResult(invalidInput);
+
   // ─── Client-side wallet tools: execute in browser ───
   if (req.tool.startsWith('wallet_')) {
     return handleWalletTool(req.tool, req.input);
   }
 
-  // ─── Web3 Gateway: route Web3 tools through centralized gateway ───
-  const isWeb3Tool = /^(evm_|contract_|solana_|sim_)/.test(req.tool);
-  if (isWeb3Tool || req.serverId === 'mcp-web3-gateway') {
-    const gwBody: Record<string, unknown> = {
-      tool: req.tool,
-      input: req.input,
-      rpc_url: req.evmRpcUrl || req.solanaRpcUrl,
-      etherscan_key: req.etherscanKey,
-      chain: req.etherscanChain || 'ethereum',
-      tenderly_key: req.tenderlyKey,
-      tenderly_account: req.tenderlyAccount,
-      tenderly_project: req.tenderlyProject,
-    };
-    return callMcpServer('mcp-web3-gateway', gwBody);
-  }
-
-  // ─── Standard MCP routing ───
-  switch (req.serverId) {
-    case 'mcp-github': body.github_token = req.githubToken; break;
-    case 'mcp-vercel': body.vercel_token = req.vercelToken; break;
-    case 'mcp-supabase': body.supabase_token = req.supabaseToken; break;
-    case 'mcp-cloudflare': body.cloudflare_token = req.cloudflareToken; break;
-    case 'mcp-aws':
-      body.aws_access_key_id = req.awsAccessKeyId;
-      body.aws_secret_access_key = req.awsSecretAccessKey;
-      body.aws_region = req.awsRegion || 'us-east-1';
-      break;
-    case 'mcp-stripe': body.stripe_token = req.stripeToken; break;
-    case 'mcp-slack': body.slack_token = req.slackToken; break;
-    case 'mcp-notion': body.notion_token = req.notionToken; break;
-    case 'mcp-n8n':
-      body.n8n_api_key = req.n8nApiKey;
-      body.n8n_base_url = req.n8nBaseUrl;
-      break;
-    case 'mcp-telegram': body.telegram_bot_token = req.telegramBotToken; break;
-    case 'mcp-google-sheets': body.google_api_key = req.googleApiKey; break;
-    case 'mcp-alpha-vantage': body.alpha_vantage_key = req.alphaVantageKey; break;
-    case 'mcp-coinmarketcap': body.cmc_api_key = req.cmcApiKey; break;
-    case 'mcp-huggingface': body.hf_token = req.hfToken; break;
-    case 'mcp-docker':
-      body.docker_host = req.dockerHost;
-      body.docker_api_key = req.dockerApiKey;
-      break;
-    case 'mcp-postgres': body.postgres_url = req.postgresUrl; break;
-    case 'mcp-digitalocean': body.do_token = req.doToken; break;
-    case 'mcp-twitter': body.twitter_bearer_token = req.twitterBearerToken; break;
-    case 'mcp-linkedin': body.linkedin_token = req.linkedinToken; break;
-    case 'mcp-twilio':
-      body.twilio_account_sid = req.twilioAccountSid;
-      body.twilio_auth_token = req.twilioAuthToken;
-      break;
-    case 'mcp-zapier': body.zapier_webhook_url = req.zapierWebhookUrl; break;
-    case 'mcp-airtable': body.airtable_token = req.airtableToken; break;
-    case 'mcp-jira':
-      body.jira_email = req.jiraEmail;
-      body.jira_api_token = req.jiraApiToken;
-      body.jira_domain = req.jiraDomain;
-      break;
-    case 'mcp-salesforce':
-      body.sf_instance_url = req.sfInstanceUrl;
-      body.sf_access_token = req.sfAccessToken;
-      break;
-    case 'mcp-hubspot': body.hubspot_token = req.hubspotToken; break;
-    case 'mcp-monday': body.monday_token = req.mondayToken; break;
-    case 'mcp-asana': body.asana_token = req.asanaToken; break;
-    case 'mcp-discord': body.discord_bot_token = req.discordBotToken; break;
-    case 'mcp-trello':
-      body.trello_api_key = req.trelloApiKey;
-      body.trello_token = req.trelloToken;
-      break;
-    case 'mcp-sendgrid': body.sendgrid_api_key = req.sendgridApiKey; break;
-    // Web3 MCP servers (direct bypass — prefer gateway above)
-    case 'mcp-evm-rpc': body.rpc_url = req.evmRpcUrl; break;
-    case 'mcp-contract-intel':
-      body.etherscan_key = req.etherscanKey;
-      body.chain = req.etherscanChain || 'ethereum';
-      break;
-    case 'mcp-solana': body.rpc_url = req.solanaRpcUrl; break;
-    case 'mcp-tx-simulator':
-      body.rpc_url = req.evmRpcUrl;
-      body.tenderly_key = req.tenderlyKey;
-      body.tenderly_account = req.tenderlyAccount;
-      body.tenderly_project = req.tenderlyProject;
-      break;
-    // firecrawl and perplexity use server-side env vars, no client token needed
+  // ─── Built-in servers: the vault fills in the project's credentials server-side ───
+  // Web3 tools go through the centralized gateway
+  const serverId = /^(evm_|contract_|solana_|sim_)/.test(req.tool) ? 'mcp-web3-gateway' : req.serverId;
+  if (isVaultServer(serverId)) {
+    if (!req.projectId) return { ok: false, error: 'Open a project to use its MCP credentials' };
+    try {
+      return await toolResult(await fetchMcpVault('invoke', {
+        project_id: req.projectId, server_id: serverId, tool: req.tool, input: req.input,
+      }));
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : 'MCP call failed' };
+    }
   }
 
-  return callMcpServer(req.serverId, body);
+  return callMcpServer(serverId, body);
 }
@@ -1,4 +1,35 @@
-import { ParsedPatch, DiffHunk, DiffLine } from '@/types/tools';
+// Parsing, applying, inverting and serializing diffs lives in the shared
+// patch engine so the browser, API routes and edge functions agree.
+export {
+  parseUnifiedDiff,
+  serializePatch,
+  invertPatch,
+  invertPatches,
+  applyHunks,
+  applyPatchToContent,
+  applyPatchesToFiles,
+  buildContentFromNewFilePatch,
+  describePatchFailures,
+  rootPath,
+  diffHunks,
+  merge3,
+  hasConflictMarkers,
+  recordAppliedFiles,
+  planRevert,
+  buildStructuredEdit,
+} from '../../supabase/functions/_shared/patch';
+export type {
+  ApplyPatchOptions,
+  ApplyHunksResult,
+  ApplyToFilesResult,
+  PatchFile,
+  MergeResult,
+  MergeConflict,
+  MergeConflictKind,
+  RevertPlan,
+  StructuredEdit,
+  StructuredEditResult,
+} from '../../supabase/functions/_shared/patch';
 
 // ─── Types ───
 
@@ -8,98 +39,6 @@ export interface FileBlock {
   language: string;
 }
 
-/**
- * Parse a unified diff string into structured patches.
- */
-export function parseUnifiedDiff(raw: string): ParsedPatch[] {
-  const patches: ParsedPatch[] = [];
-  const lines = raw.split('\n');
-  let i = 0;
-
-  while (i < lines.length) {
-    if (lines[i]?.startsWith('---')) {
-      const oldFile = lines[i].replace(/^---\s+(a\/)?/, '').trim();
-      i++;
-      if (i >= lines.length || !lines[i]?.startsWith('+++')) {
-        i++;
-        continue;
-      }
-      const newFile = lines[i].replace(/^\+\+\+\s+(b\/)?/, '').trim();
-      i++;
-
-      const hunks: DiffHunk[] = [];
-
-      while (i < lines.length && !lines[i]?.startsWith('---')) {
-        if (lines[i]?.startsWith('@@')) {
-          const hunkMatch = lines[i].match(/@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
-          if (hunkMatch) {
-            const hunk: DiffHunk = {
-              oldStart: parseInt(hunkMatch[1], 10),
-              oldCount: parseInt(hunkMatch[2] ?? '1', 10),
-              newStart: parseInt(hunkMatch[3], 10),
-              newCount: parseInt(hunkMatch[4] ?? '1', 10),
-              lines: [],
-            };
-            i++;
-
-            while (i < lines.length && !lines[i]?.startsWith('@@') && !lines[i]?.startsWith('---')) {
-              const line = lines[i];
-              if (line.startsWith('+')) {
-                hunk.lines.push({ type: 'add', content: line.slice(1) });
-              } else if (line.startsWith('-')) {
-                hunk.lines.push({ type: 'remove', content: line.slice(1) });
-              } else if (line.startsWith(' ') || line === '') {
-                hunk.lines.push({ type: 'context', content: line.startsWith(' ') ? line.slice(1) : line });
-              } else {
-                break;
-              }
-              i++;
-            }
-
-            hunks.push(hunk);
-          } else {
-            i++;
-          }
-        } else {
-          i++;
-        }
-      }
-
-      if (hunks.length > 0) {
-        patches.push({ oldFile, newFile, hunks });
-      }
-    } else {
-      i++;
-    }
-  }
-
-  return patches;
-}
-
-/**
- * Apply a parsed patch to file content.
- * Returns the new content or null if the patch can't be applied.
- */
-export function applyPatchToContent(content: string, patch: ParsedPatch): string | null {
-  const lines = content.split('\n');
-  const sortedHunks = [...patch.hunks].sort((a, b) => b.oldStart - a.oldStart);
-
-  for (const hunk of sortedHunks) {
-    const startIdx = hunk.oldStart - 1;
-    const newLines: string[] = [];
-
-    for (const line of hunk.lines) {
-      if (line.type === 'add' || line.type === 'context') {
-        newLines.push(line.content);
-      }
-    }
-
-    lines.splice(startIdx, hunk.oldCount, ...newLines);
-  }
-
-  return lines.join('\n');
-}
-
 /**
  * Extract diff blocks from an AI response message.
  * Matches ```diff blocks AND code blocks with file-path headers.
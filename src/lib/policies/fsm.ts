@@ -2,6 +2,9 @@
 // Governs state transitions for the AI decision engine.
 // Each state maps to allowed events and their target states.
 
+import { summarizeDiff } from "../../../supabase/functions/_shared/git";
+import type { GitDiff, GitStatus } from "../../../supabase/functions/_shared/git";
+
 export const FSM_STATES = {
   S0_IDLE: "IDLE",
   S1_CONTEXT_GATHERING: "CONTEXT_GATHERING",
@@ -87,6 +90,20 @@ export interface FSMStateInputs {
   };
 }
 
+/** Repo inputs until the runner has reported real git state */
+export const DEFAULT_REPO_INPUTS: FSMStateInputs["repo"] = {
+  currentRef: "HEAD",
+  diffStatus: { clean: true, filesChanged: 0, linesAdded: 0, linesRemoved: 0 },
+};
+
+/** Repo inputs from the runner's git_status plus unstaged and staged git_diff results */
+export function repoInputsFromGit(status: GitStatus, diffs: GitDiff[]): FSMStateInputs["repo"] {
+  return {
+    currentRef: status.branch ?? status.head?.slice(0, 7) ?? "HEAD",
+    diffStatus: summarizeDiff(status, diffs),
+  };
+}
+
 /** Transition table: [currentState][event] -> nextState */
 export const FSM_TRANSITIONS: Record<string, Record<string, FSMState>> = {
   IDLE: {
@@ -119,6 +136,7 @@ export const FSM_TRANSITIONS: Record<string, Record<string, FSMState>> = {
     "permission.ask_triggered": "NEEDS_APPROVAL",
     "run.done_ok": "EVALUATING_RESULTS",
     "run.done_error": "EVALUATING_RESULTS",
+    "replay.done": "EVALUATING_RESULTS", // verdict decides between SHIP_READY and PLANNING
   },
   EVALUATING_RESULTS: {
     _ok_attestation: "SHIP_READY",
@@ -141,6 +159,7 @@ export const FSM_TRANSITIONS: Record<string, Record<string, FSMState>> = {
   },
   SHIP_READY: {
     "attestation.generated": "SHIP_READY",
+    "replay.requested": "RUNNING_COMMAND",
     "ship.requested": "DONE",
   },
   DONE: {
@@ -1,7 +1,7 @@
 // ─── Started AI Policy System ───
 // Central export for all policy modules.
 
-export { FSM_STATES, FSM_EVENTS, FSM_TRANSITIONS, FSM_INVARIANTS } from "./fsm";
+export { FSM_STATES, FSM_EVENTS, FSM_TRANSITIONS, FSM_INVARIANTS, DEFAULT_REPO_INPUTS, repoInputsFromGit } from "./fsm";
 export type { FSMState, FSMEvent, FSMStateInputs } from "./fsm";
 
 export {
@@ -14,7 +14,7 @@ export {
 export type { ActionKey, ConfidenceLevel, RiskLevel, NBASignals, ScoredAction, NBAPolicy } from "./nba";
 
 export { AGENT_RETROSPECTIVE_PROMPT, buildRetrospectiveInput } from "./retrospective";
-export { SHIP_MODE_PROMPT } from "./ship-mode";
+export { SHIP_MODE_PROMPT, buildShipModeInput } from "./ship-mode";
 
 export { validateNBAPolicy, nbaPolicySchema, actionKeySchema } from "./validate-policy";
 export type { ValidatedNBAPolicy } from "./validate-policy";
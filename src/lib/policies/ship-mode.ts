@@ -11,6 +11,8 @@ INPUTS
 - current ref/snapshot
 - diff vs main
 - latest build run + attestation status
+- replay verdict for that run (reproducible / diverged / not_reproducible), if replayed
+- artifacts the run produced (path + sha256), if captured
 - test/build results
 - deployment target (if known)
 
@@ -45,7 +47,8 @@ SHIP MODE FLOW (must follow)
      - Snapshot ID
      - Commands run
      - Exit codes
-     - Replay status (if available)
+     - Replay verdict (if available)
+     - Artifact digests (if captured), so the shipped files can be matched to the build
 
 OUTPUT FORMAT (strict JSON)
 {
@@ -54,7 +57,7 @@ OUTPUT FORMAT (strict JSON)
     "title": "concise imperative title",
     "summary": ["what", "why", "how"],
     "changes": [{"file": "path", "intent": "description"}],
-    "verification": {"commands": ["cmd"], "attestation_hash": "hash or null"},
+    "verification": {"commands": ["cmd"], "attestation_hash": "hash or null", "replay_verdict": "verdict or null", "artifacts": [{"path": "dist/app.js", "sha256": "hash"}]},
     "risk": {"areas": ["area"], "rollback_plan": "description"}
   },
   "actions": {
@@ -66,6 +69,58 @@ OUTPUT FORMAT (strict JSON)
 RULES
 - If tests failed: do not ship; route back to Fix Mode automatically.
 - If no tests exist: label verification as "limited" and raise risk.
+- If the replay verdict is not_reproducible: label verification as "limited" and raise risk; diverged logs alone are not a blocker.
 - Always include attestation evidence when available.
 - Be concise. Focus on shipping safely.
 - Never output anything outside the JSON structure.`;
+
+/** Artifacts listed individually in the input; the rest are counted */
+const MAX_SHIP_ARTIFACTS = 20;
+
+/** Build the ship mode input payload from the current ref and its latest verified run */
+export function buildShipModeInput(data: {
+  ref: string;
+  snapshotId: string | null;
+  diffSummary: { filesChanged: number; linesAdded: number; linesRemoved: number };
+  lastRun: { command: string; exitCode: number | null; attestationHash: string | null } | null;
+  replay: { verdict: string | null; mismatches: string[]; environmentDrift: string[]; error?: string | null } | null;
+  /** Files captured from the run, as recorded in its attestation */
+  artifacts?: Array<{ path: string; sha256: string; size?: number }>;
+  deployTarget?: string | null;
+}): string {
+  const run = data.lastRun
+    ? `\`${data.lastRun.command}\` → exit ${data.lastRun.exitCode ?? "?"}, attestation ${data.lastRun.attestationHash ?? "none"}`
+    : "None";
+  const replay = !data.replay
+    ? "Not replayed"
+    : data.replay.error
+    ? `Replay failed: ${data.replay.error}`
+    : [
+      `Verdict: ${data.replay.verdict}`,
+      data.replay.mismatches.length ? `Differs in: ${data.replay.mismatches.join(", ")}` : null,
+      data.replay.environmentDrift.length ? `Environment drift: ${data.replay.environmentDrift.join(", ")}` : null,
+    ].filter(Boolean).join("\n");
+  const artifacts = data.artifacts?.length
+    ? [
+      ...data.artifacts.slice(0, MAX_SHIP_ARTIFACTS).map((a) => `${a.path} sha256:${a.sha256}`),
+      data.artifacts.length > MAX_SHIP_ARTIFACTS ? `…and ${data.artifacts.length - MAX_SHIP_ARTIFACTS} more` : null,
+    ].filter(Boolean).join("\n")
+    : "None captured";
+
+  return `SHIP MODE INPUT:
+
+REF: ${data.ref}${data.snapshotId ? ` (snapshot ${data.snapshotId})` : ""}
+
+DIFF VS MAIN: ${data.diffSummary.filesChanged} files, +${data.diffSummary.linesAdded}/-${data.diffSummary.linesRemoved}
+
+LATEST BUILD RUN:
+${run}
+
+REPLAY:
+${replay}
+
+ARTIFACTS:
+${artifacts}
+
+DEPLOYMENT TARGET: ${data.deployTarget || "unknown"}`;
+}
@@ -1,11 +1,184 @@
 /**
  * RunnerClient — thin session-state wrapper.
  *
- * All real command execution is handled by `runCommandRemote` in api-client.ts.
- * This module only manages local session metadata (cwd tracking, status).
+ * One-shot command execution is handled by `runCommandRemote` in api-client.ts.
+ * This module manages local session metadata (cwd tracking, status) and the
+ * WebSocket connections of interactive terminals.
  */
 
 import { RunnerSession, RuntimeType } from '@/types/runner';
+import type { LimitViolation } from '@/types/runner';
+import { openTerminalRemote } from '@/lib/api-client';
+import type { PtyServerMessage, PtySignal, PtyTicket } from '../../supabase/functions/_shared/pty';
+
+// ─── Interactive Terminals ───
+
+export type TerminalStatus = 'connecting' | 'open' | 'reconnecting' | 'detached' | 'exited' | 'closed';
+
+export interface TerminalExit {
+  exitCode: number;
+  signal: string | null;
+  changedFiles: Array<{ path: string; content: string }>;
+  limitExceeded?: LimitViolation;
+}
+
+export interface TerminalHandlers {
+  onOutput: (data: string) => void;
+  /** Output was lost while disconnected; the replay that follows starts from the oldest scrollback */
+  onReset?: () => void;
+  onExit?: (exit: TerminalExit) => void;
+  onStatus?: (status: TerminalStatus) => void;
+  onError?: (message: string) => void;
+}
+
+export interface OpenTerminalOptions {
+  projectId: string;
+  runtimeType: RuntimeType;
+  /** Stable per terminal tab, so a page reload reattaches to the same shell */
+  key: string;
+  files?: Array<{ path: string; content: string }>;
+  cols?: number;
+  rows?: number;
+}
+
+const RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_MS = 500;
+// Close code the runner uses when another connection takes over the terminal
+const CLOSE_REPLACED = 4000;
+
+/**
+ * Client end of a runner PTY. Tracks how much output it has seen and, when
+ * the socket drops, reconnects with that offset so the runner replays only
+ * the missed scrollback.
+ */
+export class TerminalConnection {
+  status: TerminalStatus = 'connecting';
+  private socket: WebSocket | null = null;
+  private offset = 0;
+  private attempts = 0;
+  private size: { cols: number; rows: number } | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    readonly ticket: PtyTicket,
+    private handlers: TerminalHandlers,
+    private createSocket: (url: string) => WebSocket = url => new WebSocket(url),
+  ) {}
+
+  /** Resolves once attached; rejects if the runner refuses the first connection. */
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let opened = false;
+      const url = new URL(this.ticket.url);
+      url.searchParams.set('offset', String(this.offset));
+      const socket = this.createSocket(url.toString());
+      this.socket = socket;
+
+      socket.onopen = () => {
+        opened = true;
+        this.attempts = 0;
+        this.setStatus('open');
+        if (this.size) this.send({ type: 'resize', ...this.size });
+        resolve();
+      };
+      socket.onmessage = event => this.receive(JSON.parse(String(event.data)) as PtyServerMessage);
+      socket.onclose = event => {
+        if (this.socket !== socket) return;
+        this.socket = null;
+        if (!opened) {
+          if (this.status === 'connecting') this.setStatus('closed');
+          reject(new Error('Terminal is no longer available'));
+        } else if (this.status === 'open') {
+          if (event.code === CLOSE_REPLACED) this.setStatus('closed');
+          else this.scheduleReconnect();
+        }
+      };
+    });
+  }
+
+  write(data: string) {
+    this.send({ type: 'stdin', data });
+  }
+
+  resize(cols: number, rows: number) {
+    if (this.size?.cols === cols && this.size?.rows === rows) return;
+    this.size = { cols, rows };
+    this.send({ type: 'resize', cols, rows });
+  }
+
+  signal(signal: PtySignal) {
+    this.send({ type: 'signal', signal });
+  }
+
+  /** Hang up the shell and stop reconnecting. */
+  close() {
+    if (this.status === 'closed') return;
+    if (this.status !== 'exited') this.signal('SIGHUP');
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.setStatus('closed');
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /** Drop the socket but leave the shell running on the runner, to reattach later. */
+  detach() {
+    if (this.status === 'closed' || this.status === 'exited') return;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.setStatus('detached');
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private send(message: object) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private receive(message: PtyServerMessage) {
+    switch (message.type) {
+      case 'replay':
+        if (message.truncated) this.handlers.onReset?.();
+        this.offset = message.offset;
+        if (message.data) this.handlers.onOutput(message.data);
+        break;
+      case 'output':
+        this.offset = message.offset;
+        this.handlers.onOutput(message.data);
+        break;
+      case 'exit':
+        this.setStatus('exited');
+        this.handlers.onExit?.({
+          exitCode: message.exitCode,
+          signal: message.signal,
+          changedFiles: message.changedFiles ?? [],
+          limitExceeded: message.limitExceeded as LimitViolation | undefined,
+        });
+        break;
+      case 'error':
+        this.handlers.onError?.(message.message);
+        break;
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.status !== 'open' && this.status !== 'reconnecting') return;
+    if (this.attempts >= RECONNECT_ATTEMPTS) {
+      this.setStatus('closed');
+      this.handlers.onError?.('Lost connection to the terminal');
+      return;
+    }
+    this.setStatus('reconnecting');
+    const delay = RECONNECT_BASE_MS * 2 ** this.attempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.connect().catch(() => this.scheduleReconnect());
+    }, delay);
+  }
+
+  private setStatus(status: TerminalStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.handlers.onStatus?.(status);
+  }
+}
 
 // ─── Runner Client Interface ───
 
@@ -14,6 +187,8 @@ export interface IRunnerClient {
   killProcess(sessionId: string): Promise<void>;
   destroySession(sessionId: string): Promise<void>;
   getSession(sessionId: string): RunnerSession | undefined;
+  /** Attach to the terminal for `options.key`, starting a new shell if it is gone. */
+  openTerminal(options: OpenTerminalOptions, handlers: TerminalHandlers): Promise<TerminalConnection>;
 }
 
 // ─── Session Manager ───
@@ -54,6 +229,35 @@ export class RemoteRunnerClient implements IRunnerClient {
   getSession(sessionId: string): RunnerSession | undefined {
     return this.sessions.get(sessionId);
   }
+
+  async openTerminal({ key, ...options }: OpenTerminalOptions, handlers: TerminalHandlers): Promise<TerminalConnection> {
+    // Tickets live in sessionStorage so a reload in the same tab gets its shells back
+    const storageKey = `started:pty:${options.projectId}:${key}`;
+    const tracked: TerminalHandlers = {
+      ...handlers,
+      onStatus: status => {
+        if (status === 'exited' || status === 'closed') sessionStorage.removeItem(storageKey);
+        handlers.onStatus?.(status);
+      },
+    };
+
+    const stored = sessionStorage.getItem(storageKey);
+    if (stored) {
+      const connection = new TerminalConnection(JSON.parse(stored) as PtyTicket, tracked);
+      try {
+        await connection.connect();
+        return connection;
+      } catch {
+        // Expired or killed on the runner; start a fresh one
+      }
+    }
+
+    const ticket = await openTerminalRemote(options);
+    sessionStorage.setItem(storageKey, JSON.stringify(ticket));
+    const connection = new TerminalConnection(ticket, tracked);
+    await connection.connect();
+    return connection;
+  }
 }
 
 // ─── Singleton ───
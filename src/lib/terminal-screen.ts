@@ -0,0 +1,115 @@
+/**
+ * Terminal screen — turns raw PTY output into display lines.
+ *
+ * Handles what shells, prompts and progress bars actually emit (CR, LF,
+ * backspace, tabs, erase-in-line, clear-screen, cursor column moves) and
+ * drops colours and other escape sequences. Full-screen programs that move
+ * the cursor between rows are not emulated.
+ */
+
+export interface TerminalScreen {
+  write(chunk: string): void;
+  clear(): void;
+  readonly lines: readonly string[];
+}
+
+const ESC = '\x1b';
+
+export function createTerminalScreen(maxLines = 5000): TerminalScreen {
+  let lines: string[] = [''];
+  let col = 0;
+  // Escape sequence split across chunks
+  let pending = '';
+
+  const current = () => lines[lines.length - 1];
+  const setCurrent = (line: string) => { lines[lines.length - 1] = line; };
+
+  function put(text: string) {
+    const line = current().padEnd(col, ' ');
+    setCurrent(line.slice(0, col) + text + line.slice(col + text.length));
+    col += text.length;
+  }
+
+  function csi(params: string, final: string) {
+    const n = Number(params) || 0;
+    switch (final) {
+      case 'K':
+        if (n === 0) setCurrent(current().slice(0, col));
+        else if (n === 1) setCurrent(' '.repeat(col) + current().slice(col));
+        else setCurrent('');
+        break;
+      case 'J':
+        if (n >= 2) clear();
+        break;
+      case 'G':
+        col = Math.max(n, 1) - 1;
+        break;
+      case 'C':
+        col += Math.max(n, 1);
+        break;
+      case 'D':
+        col = Math.max(col - Math.max(n, 1), 0);
+        break;
+    }
+  }
+
+  function clear() {
+    lines = [''];
+    col = 0;
+  }
+
+  function write(chunk: string) {
+    const text = pending + chunk;
+    pending = '';
+
+    let i = 0;
+    while (i < text.length) {
+      const ch = text[i];
+
+      if (ch === ESC) {
+        const next = text[i + 1];
+        if (next === undefined) { pending = text.slice(i); break; }
+        if (next === '[') {
+          let j = i + 2;
+          while (j < text.length && (text.charCodeAt(j) < 0x40 || text.charCodeAt(j) > 0x7e)) j++;
+          if (j >= text.length) { pending = text.slice(i); break; }
+          csi(text.slice(i + 2, j), text[j]);
+          i = j + 1;
+        } else if (next === ']') {
+          // OSC (window title etc.), ends with BEL or ESC \
+          const bel = text.indexOf('\x07', i);
+          const st = text.indexOf(`${ESC}\\`, i);
+          const end = bel === -1 ? st : st === -1 ? bel : Math.min(bel, st);
+          if (end === -1) { pending = text.slice(i); break; }
+          i = end + (end === st ? 2 : 1);
+        } else {
+          i += 2;
+        }
+        continue;
+      }
+
+      if (ch === '\r') col = 0;
+      else if (ch === '\n') { lines.push(''); col = 0; }
+      else if (ch === '\b') col = Math.max(col - 1, 0);
+      else if (ch === '\t') put(' '.repeat(8 - (col % 8)));
+      else if (ch >= ' ' && ch !== '\x7f') {
+        let j = i + 1;
+        while (j < text.length && text[j] >= ' ' && text[j] !== ESC && text[j] !== '\x7f') j++;
+        put(text.slice(i, j));
+        i = j;
+        continue;
+      }
+      i++;
+    }
+
+    if (lines.length > maxLines) lines = lines.slice(lines.length - maxLines);
+  }
+
+  return {
+    write,
+    clear,
+    get lines() {
+      return lines;
+    },
+  };
+}
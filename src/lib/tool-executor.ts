@@ -1,5 +1,10 @@
-import { ToolName, ToolCall, ToolResult, PermissionPolicy, DEFAULT_PERMISSION_POLICY, PermissionDecision } from '@/types/tools';
-import { IDEFile } from '@/types/ide';
+import { ToolName, ToolCall, ToolResult, PermissionPolicy, DEFAULT_PERMISSION_POLICY, PermissionDecision, FILE_EDIT_TOOLS } from '@/types/tools';
+import { IDEFile, ContextChip } from '@/types/ide';
+import { buildStructuredEdit, serializePatch } from '../../supabase/functions/_shared/patch';
+import type { StructuredEdit } from '../../supabase/functions/_shared/patch';
+import { listFiles, grepFiles } from '../../supabase/functions/_shared/search';
+import type { GrepOptions } from '../../supabase/functions/_shared/search';
+import { domainDecision } from '../../supabase/functions/_shared/web';
 
 // ─── Web3 MCP Permission Policies ───
 
@@ -46,6 +51,18 @@ export function evaluateWeb3Permission(toolName: string): PermissionDecision {
   }
 }
 
+/** Paths the file-editing tools touch. */
+function editedPaths(call: ToolCall): string[] {
+  const input = call.input as Record<string, unknown>;
+  return call.tool === 'move_file' ? [input.from as string, input.to as string] : [input.path as string];
+}
+
+/** Escapes the project root or touches git internals. */
+function isProtectedPath(path: string): boolean {
+  const segments = (path || '').split('/').filter(s => s && s !== '.');
+  return segments.length === 0 || segments.includes('..') || segments[0] === '.git';
+}
+
 /**
  * Determines whether a tool call requires user permission.
  */
@@ -56,9 +73,21 @@ export function evaluatePermission(
   // Check denied tools first
   if (policy.deniedTools.includes(call.tool)) return 'deny';
 
+  // File edits never leave the project or rewrite .git, even when allowed
+  if (FILE_EDIT_TOOLS.includes(call.tool) && editedPaths(call).some(isProtectedPath)) return 'deny';
+
+  // Blocked and private hosts are denied even when web_fetch is allowed
+  if (call.tool === 'web_fetch') {
+    const domain = domainDecision((call.input as { url: string }).url, policy);
+    if (domain !== 'ask') return domain;
+  }
+
   // Check allowed tools (read-only tools)
   if (policy.allowedTools.includes(call.tool)) return 'allow';
 
+  // Listing branches is read-only; creating one still asks
+  if (call.tool === 'git_branch' && !(call.input as { create?: string }).create) return 'allow';
+
   // For run_command, check command prefix lists
   if (call.tool === 'run_command') {
     const cmd = (call.input as { command: string }).command.trim();
@@ -87,10 +116,20 @@ export function getToolRiskLevel(tool: ToolName): 'safe' | 'moderate' | 'dangero
     case 'list_files':
     case 'grep':
     case 'git_status':
+    case 'git_diff':
+    case 'git_log':
       return 'safe';
     case 'apply_patch':
+    case 'edit_file':
+    case 'create_file':
+    case 'move_file':
     case 'run_command':
+    case 'git_branch':
+    case 'git_checkout':
+    case 'git_commit':
       return 'moderate';
+    case 'delete_file':
+      return 'dangerous';
     case 'web_fetch':
     case 'web_search':
       return 'dangerous';
@@ -108,15 +147,33 @@ export function describeToolCall(call: ToolCall): string {
     case 'read_file':
       return `Read file: ${input.path}`;
     case 'list_files':
-      return `List files matching: ${input.glob}`;
+      return `List files matching: ${[input.glob ?? '*'].flat().join(' ')}`;
     case 'grep':
-      return `Search for "${input.pattern}"${input.paths_glob ? ` in ${input.paths_glob}` : ''}`;
+      return `Search for "${input.pattern}"${input.paths_glob ? ` in ${[input.paths_glob].flat().join(' ')}` : ''}`;
     case 'apply_patch':
       return `Apply code patch (unified diff)`;
+    case 'edit_file':
+      return `Edit ${input.path}${input.replace_all ? ' (all occurrences)' : ''}`;
+    case 'create_file':
+      return `${input.overwrite ? 'Overwrite' : 'Create'} file: ${input.path}`;
+    case 'delete_file':
+      return `Delete file: ${input.path}`;
+    case 'move_file':
+      return `Move ${input.from} → ${input.to}`;
     case 'run_command':
       return `Run: ${input.command}${input.cwd ? ` (in ${input.cwd})` : ''}`;
     case 'git_status':
       return `Check git status`;
+    case 'git_diff':
+      return `Show ${input.staged ? 'staged' : 'unstaged'} changes${Array.isArray(input.paths) && input.paths.length ? ` in ${input.paths.join(' ')}` : ''}`;
+    case 'git_log':
+      return `Show git log${input.ref ? ` for ${input.ref}` : ''}${input.path ? ` (${input.path})` : ''}`;
+    case 'git_branch':
+      return input.create ? `Create branch ${input.create}${input.start_point ? ` from ${input.start_point}` : ''}` : `List branches`;
+    case 'git_checkout':
+      return `${input.create ? 'Create and check out' : 'Check out'} ${input.ref}`;
+    case 'git_commit':
+      return `Commit: ${String(input.message ?? '').split('\n')[0]}`;
     case 'web_fetch':
       return `Fetch URL: ${input.url}`;
     case 'web_search':
@@ -148,29 +205,13 @@ export function executeToolLocally(
       }
 
       case 'list_files': {
-        const glob = (input.glob as string) || '*';
-        const matchedFiles = files
-          .filter(f => !f.isFolder)
-          .filter(f => {
-            if (glob === '*') return true;
-            return f.path.includes(glob.replace('*', '').replace('**/', ''));
-          })
-          .map(f => f.path);
+        const glob = input.glob as string | string[] | undefined;
+        const matchedFiles = listFiles(files.filter(f => !f.isFolder).map(f => f.path), glob);
         return { ok: true, files: matchedFiles, duration_ms: Date.now() - startTime };
       }
 
       case 'grep': {
-        const pattern = input.pattern as string;
-        const regex = new RegExp(pattern, 'gi');
-        const matches: Array<{ file: string; line: number; text: string }> = [];
-        for (const file of files.filter(f => !f.isFolder)) {
-          const lines = file.content.split('\n');
-          lines.forEach((line, idx) => {
-            if (regex.test(line)) {
-              matches.push({ file: file.path, line: idx + 1, text: line.trim() });
-            }
-          });
-        }
+        const matches = grepFiles(files.filter(f => !f.isFolder), call.input as GrepOptions);
         return { ok: true, matches, duration_ms: Date.now() - startTime };
       }
 
@@ -179,16 +220,34 @@ export function executeToolLocally(
         return { ok: true, content: 'Patch queued for preview', duration_ms: Date.now() - startTime };
       }
 
+      case 'edit_file':
+      case 'create_file':
+      case 'delete_file':
+      case 'move_file': {
+        // Build the equivalent diff; the caller queues it in PatchPreview for review
+        const patchFiles = files
+          .filter(f => !f.isFolder)
+          .map(f => ({ path: f.path, content: f.content, ...(f.mode ? { mode: f.mode } : {}) }));
+        const built = buildStructuredEdit(patchFiles, { tool: call.tool, input: call.input } as StructuredEdit);
+        if (built.ok === false) return { ok: false, error: built.error, duration_ms: Date.now() - startTime };
+        return { ok: true, content: 'Patch queued for preview', diff: serializePatch(built.patch), duration_ms: Date.now() - startTime };
+      }
+
       // Tools that require the real backend — return an error directing the caller
       case 'git_status':
-        return { ok: false, error: 'git_status requires the runner backend. Use the terminal instead.', duration_ms: Date.now() - startTime };
+      case 'git_diff':
+      case 'git_log':
+      case 'git_branch':
+      case 'git_checkout':
+      case 'git_commit':
+        return { ok: false, error: `${call.tool} must be routed through the runner. Use runGitToolRemote.`, duration_ms: Date.now() - startTime };
 
       case 'run_command':
         return { ok: false, error: 'run_command must be routed through the remote runner. Use runCommandRemote.', duration_ms: Date.now() - startTime };
 
       case 'web_fetch':
       case 'web_search':
-        return { ok: false, error: 'Web tools require backend integration (not available in local mode)', duration_ms: Date.now() - startTime };
+        return { ok: false, error: `${call.tool} must be routed through the API. Use runWebToolRemote.`, duration_ms: Date.now() - startTime };
 
       default:
         return { ok: false, error: `Unknown tool: ${call.tool}`, duration_ms: Date.now() - startTime };
@@ -201,3 +260,19 @@ export function executeToolLocally(
     };
   }
 }
+
+/**
+ * Turn a completed web_fetch / web_search call into a chat context chip.
+ */
+export function webResultChip(call: ToolCall, result: ToolResult): ContextChip | null {
+  if (!result.ok || !result.content) return null;
+  if (call.tool === 'web_fetch') {
+    const { url } = call.input as { url: string };
+    return { type: 'url', label: url.replace(/^https?:\/\//, '').slice(0, 30), content: result.content };
+  }
+  if (call.tool === 'web_search') {
+    const { query } = call.input as { query: string };
+    return { type: 'web', label: query.slice(0, 30), content: `Web search: ${query}\n\n${result.content}` };
+  }
+  return null;
+}
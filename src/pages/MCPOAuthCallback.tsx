@@ -1,14 +1,21 @@
 import { useEffect } from 'react';
 
-export default function GitHubCallback() {
+/**
+ * Where MCP OAuth providers redirect after authorization. The code goes back
+ * to the window that opened the popup, which finishes the connection.
+ */
+export default function MCPOAuthCallback() {
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
-    const code = params.get('code');
-    const state = params.get('state');
 
     if (window.opener) {
       window.opener.postMessage(
-        { type: 'github-oauth-callback', code, state },
+        {
+          type: 'mcp-oauth-callback',
+          code: params.get('code'),
+          state: params.get('state'),
+          error: params.get('error_description') || params.get('error'),
+        },
         window.location.origin
       );
       window.close();
@@ -18,7 +25,7 @@ export default function GitHubCallback() {
   return (
     <div className="flex items-center justify-center min-h-screen bg-background text-foreground">
       <div className="text-center space-y-2">
-        <div className="text-lg font-semibold">Connecting to GitHub...</div>
+        <div className="text-lg font-semibold">Connecting...</div>
         <p className="text-sm text-muted-foreground">This window will close automatically.</p>
       </div>
     </div>
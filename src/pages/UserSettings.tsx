@@ -21,6 +21,7 @@ interface BillingPlan {
   included_mcp_calls: number;
   included_runner_minutes: number;
   included_tokens: number;
+  included_storage_mb: number;
   max_projects: number;
   max_concurrent_runs: number;
   features: Record<string, unknown>;
@@ -252,7 +253,7 @@ function BillingTab({
       label: 'Storage',
       icon: <HardDrive className="h-4 w-4 text-ide-warning" />,
       used: Math.round(Number(usage?.storage_mb ?? 0)),
-      limit: 500,
+      limit: currentPlan.included_storage_mb,
       unit: 'MB',
     },
   ] : [];
@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import { webcrypto } from "crypto";
+import {
+  buildProvenanceStatement, canonicalJSON, compareStatements, createEnvelope, openEnvelope, verifyEnvelope,
+  preAuthEncoding, bytesToBase64, base64ToBytes, compareReplay, selectArtifacts, sameArtifacts, validateArtifactGlobs,
+  attestsPassingBuild,
+  AttestationFormatError, type BuildFacts,
+  type RunOutcome,
+} from "../../supabase/functions/_shared/attestation";
+
+const { subtle } = webcrypto;
+const ROOT = "a".repeat(64);
+const OUTPUT_ROOT = "b".repeat(64);
+
+const facts: BuildFacts = {
+  buildRunId: "run-1",
+  projectId: "project-1",
+  command: "npm test",
+  inputSnapshot: { id: "snap-in", rootTreeHash: ROOT },
+  outputSnapshot: null,
+  runnerFingerprint: { node_id: "runner-1", region: "us-east-1" },
+  logDigests: { stdout: "1".repeat(64), stderr: "2".repeat(64) },
+  artifacts: [
+    { path: "dist/b.js", sha256: "4".repeat(64), size: 20 },
+    { path: "dist/a.js", sha256: "3".repeat(64) },
+  ],
+  exitCode: 0,
+  durationMs: 1200,
+  startedAt: null,
+  finishedAt: "2026-02-16 10:12:45.5+00",
+};
+
+async function ed25519() {
+  const pair = await subtle.generateKey({ name: "Ed25519" }, false, ["sign", "verify"]) as CryptoKeyPair;
+  return {
+    sign: async (message: Uint8Array) => new Uint8Array(await subtle.sign("Ed25519", pair.privateKey, message)),
+    verify: async (keyId: string, signature: Uint8Array, message: Uint8Array) =>
+      keyId === "key-1" && subtle.verify("Ed25519", pair.publicKey, signature, message),
+  };
+}
+
+describe("provenance statements", () => {
+  it("binds the tree root, command, logs and artifacts", () => {
+    const statement = buildProvenanceStatement(facts);
+
+    expect(statement._type).toBe("https://in-toto.io/Statement/v1");
+    expect(statement.predicateType).toBe("https://slsa.dev/provenance/v1");
+    expect(statement.subject).toEqual([
+      { name: "dist/a.js", digest: { sha256: "3".repeat(64) } },
+      { name: "dist/b.js", digest: { sha256: "4".repeat(64) }, annotations: { size: 20 } },
+    ]);
+    const { buildDefinition, runDetails } = statement.predicate;
+    expect(buildDefinition.externalParameters).toEqual({ command: "npm test", snapshot: "snap-in" });
+    expect(buildDefinition.resolvedDependencies).toEqual([
+      { name: "snapshot", uri: "started:snapshot/snap-in", digest: { sha256: ROOT } },
+    ]);
+    expect(buildDefinition.internalParameters.runnerFingerprint).toEqual(facts.runnerFingerprint);
+    expect(runDetails.metadata).toEqual({ invocationId: "run-1", startedOn: undefined, finishedOn: "2026-02-16T10:12:45.500Z" });
+    expect(runDetails.byproducts.map(b => b.digest.sha256)).toEqual(["1".repeat(64), "2".repeat(64)]);
+  });
+
+  it("falls back to the output snapshot, then the logs, as subjects", () => {
+    const withSnapshot = buildProvenanceStatement({
+      ...facts, artifacts: [], outputSnapshot: { id: "snap-out", rootTreeHash: OUTPUT_ROOT },
+    });
+    expect(withSnapshot.subject).toEqual([
+      { name: "snapshot", uri: "started:snapshot/snap-out", digest: { sha256: OUTPUT_ROOT } },
+    ]);
+    const bare = buildProvenanceStatement({ ...facts, artifacts: [], inputSnapshot: null });
+    expect(bare.subject.map(s => s.name)).toEqual(["stdout", "stderr"]);
+    expect(bare.predicate.buildDefinition.resolvedDependencies).toEqual([]);
+  });
+
+  it("reports the paths where statements differ", () => {
+    const stored = JSON.parse(canonicalJSON(buildProvenanceStatement(facts)));
+    expect(compareStatements(stored, buildProvenanceStatement(facts))).toEqual([]);
+
+    const changed = buildProvenanceStatement({ ...facts, command: "npm run build", inputSnapshot: { id: "snap-in", rootTreeHash: OUTPUT_ROOT } });
+    expect(compareStatements(stored, changed)).toEqual([
+      "$.predicate.buildDefinition.externalParameters.command",
+      "$.predicate.buildDefinition.resolvedDependencies[0].digest.sha256",
+    ]);
+  });
+});
+
+describe("DSSE envelopes", () => {
+  it("encodes the pre-authentication message", () => {
+    const pae = preAuthEncoding("http://example.com/HelloWorld", new TextEncoder().encode("hello world"));
+    expect(new TextDecoder().decode(pae)).toBe("DSSEv1 29 http://example.com/HelloWorld 11 hello world");
+  });
+
+  it("round-trips base64", () => {
+    for (const text of ["", "a", "ab", "abc", "abcd", "ÿĀ binary"]) {
+      const bytes = new TextEncoder().encode(text);
+      expect(bytesToBase64(bytes)).toBe(Buffer.from(bytes).toString("base64"));
+      expect(new TextDecoder().decode(base64ToBytes(bytesToBase64(bytes)))).toBe(text);
+    }
+  });
+
+  it("signs with Ed25519 and detects tampering", async () => {
+    const key = await ed25519();
+    const statement = buildProvenanceStatement(facts);
+    const envelope = await createEnvelope(statement, "key-1", key.sign);
+
+    expect(envelope.payloadType).toBe("application/vnd.in-toto+json");
+    expect(compareStatements(openEnvelope(envelope), statement)).toEqual([]);
+    expect(await verifyEnvelope(envelope, key.verify)).toBe(true);
+
+    const forged = buildProvenanceStatement({ ...facts, exitCode: 1 });
+    const tampered = { ...envelope, payload: bytesToBase64(new TextEncoder().encode(canonicalJSON(forged))) };
+    expect(await verifyEnvelope(tampered, key.verify)).toBe(false);
+
+    const otherKey = { ...envelope, signatures: [{ ...envelope.signatures[0], keyid: "key-2" }] };
+    expect(await verifyEnvelope(otherKey, key.verify)).toBe(false);
+  });
+
+  it("says whether a statement attests a passing build of a snapshot", () => {
+    const expected = { buildRunId: "run-1", projectId: "project-1", snapshotId: "snap-in", rootTreeHash: ROOT };
+    expect(attestsPassingBuild(buildProvenanceStatement(facts), expected)).toBe(true);
+    expect(attestsPassingBuild(buildProvenanceStatement({ ...facts, exitCode: 1 }), expected)).toBe(false);
+    expect(attestsPassingBuild(buildProvenanceStatement({ ...facts, buildRunId: "run-2" }), expected)).toBe(false);
+    expect(attestsPassingBuild(buildProvenanceStatement(facts), { ...expected, projectId: "project-2" })).toBe(false);
+    expect(attestsPassingBuild(buildProvenanceStatement(facts), { ...expected, rootTreeHash: OUTPUT_ROOT })).toBe(false);
+    expect(attestsPassingBuild(buildProvenanceStatement({ ...facts, inputSnapshot: null }), expected)).toBe(false);
+  });
+
+  it("rejects envelopes that don't hold in-toto statements", () => {
+    expect(() => openEnvelope({ payloadType: "text/plain", payload: "", signatures: [] })).toThrow(AttestationFormatError);
+    const notStatement = bytesToBase64(new TextEncoder().encode("{\"_type\":\"other\"}"));
+    expect(() => openEnvelope({ payloadType: "application/vnd.in-toto+json", payload: notStatement, signatures: [] }))
+      .toThrow(AttestationFormatError);
+  });
+});
+
+describe("replays", () => {
+  const original: RunOutcome = {
+    exitCode: 0,
+    stdoutHash: "1".repeat(64),
+    stderrHash: "2".repeat(64),
+    runnerFingerprint: { os: "linux", node_version: "v20.11.0", limits: { cpu: 1 } },
+  };
+
+  it("is reproducible when exit code and logs match", () => {
+    const replay = { ...original, runnerFingerprint: { os: "linux", node_version: "v20.11.0", limits: { cpu: 1 }, arch: "x64" } };
+    expect(compareReplay(original, replay)).toEqual({ verdict: "reproducible", mismatches: [], environmentDrift: [] });
+  });
+
+  it("diverges on log changes and fails on a different exit code", () => {
+    const diverged = compareReplay(original, { ...original, stdoutHash: "3".repeat(64) });
+    expect(diverged.verdict).toBe("diverged");
+    expect(diverged.mismatches).toEqual(["stdout"]);
+
+    const failed = compareReplay(original, { ...original, exitCode: 1, stderrHash: "4".repeat(64) });
+    expect(failed.verdict).toBe("not_reproducible");
+    expect(failed.mismatches).toEqual(["exit_code", "stderr"]);
+  });
+
+  it("reports environment drift between runners", () => {
+    const replay = { ...original, runnerFingerprint: { os: "linux", node_version: "v22.1.0", limits: { cpu: 2 } } };
+    expect(compareReplay(original, replay).environmentDrift).toEqual(["limits", "node_version"]);
+  });
+});
+
+describe("artifacts", () => {
+  const files = [
+    { path: "/src/index.ts", size: 10 },
+    { path: "/dist/b.js", size: 40 },
+    { path: "/dist/a.js", size: 30 },
+    { path: "/dist/a.js.map", size: 5 },
+  ];
+  const inDist = (path: string) => path.startsWith("dist/") && !path.endsWith(".map");
+
+  it("selects matches in path order without the leading slash", () => {
+    expect(selectArtifacts(files, inDist)).toEqual({
+      selected: [{ path: "dist/a.js", size: 30 }, { path: "dist/b.js", size: 40 }],
+      skipped: [],
+    });
+  });
+
+  it("skips what doesn't fit the file or byte budget", () => {
+    expect(selectArtifacts(files, inDist, { maxBytes: 50 }).skipped).toEqual([
+      { path: "dist/b.js", reason: "over the 50 byte budget" },
+    ]);
+    expect(selectArtifacts(files, inDist, { maxFiles: 1 }).selected.map(f => f.path)).toEqual(["dist/a.js"]);
+  });
+
+  it("validates globs", () => {
+    expect(validateArtifactGlobs([])).toBeNull();
+    expect(validateArtifactGlobs(["dist/**", "!**/*.map"])).toBeNull();
+    expect(validateArtifactGlobs("dist/**")).toMatch(/array/);
+    expect(validateArtifactGlobs(["../secrets/*"])).toMatch(/outside/);
+    expect(validateArtifactGlobs(["!**/*.map"])).toMatch(/includes/);
+  });
+
+  it("compares captures by path and content", () => {
+    const a = [{ path: "dist/a.js", sha256: "3".repeat(64) }, { path: "dist/b.js", sha256: "4".repeat(64), size: 20 }];
+    expect(sameArtifacts(a, [...a].reverse())).toBe(true);
+    expect(sameArtifacts(a, [a[0], { path: "dist/b.js", sha256: "5".repeat(64) }])).toBe(false);
+    expect(sameArtifacts(a, a.slice(1))).toBe(false);
+  });
+});
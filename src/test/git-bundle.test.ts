@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import {
+  sha1, toHex, hashObject, inflateZlib, zlibStore, exportBundle, importRepository, readBundle, GitFormatError,
+} from "../../supabase/functions/_shared/git-bundle";
+
+// Fixtures were made with git itself: main has a merge of `feature`, which adds a
+// binary logo.png; v1 is an annotated tag on main. The bundle's pack uses deltas.
+const fixture = (name: string) => new Uint8Array(readFileSync(resolve(__dirname, "fixtures/git", name)));
+const MAIN = "6c6464596f6a82bd10716d9c994debc7ca1b4880";
+const FEATURE = "eed52edbedb9bbfbc574393f05b6de90dedcc06b";
+const bytes = (s: string) => new TextEncoder().encode(s);
+
+describe("git primitives", () => {
+  it("hashes like git", () => {
+    expect(toHex(sha1(bytes("abc")))).toBe("a9993e364706816aba3e25717850c26c9cd0d89d");
+    expect(toHex(sha1(bytes("a".repeat(1000))))).toBe("291e9a6c66994949b57ba5e650361e98fc36b1ba");
+    expect(hashObject("blob", bytes("hello\n"))).toBe("ce013625030ba8dba906f756967f9e9ca394464a");
+  });
+
+  it("round-trips zlib streams", () => {
+    const data = bytes("x".repeat(70000) + "end");
+    const stored = zlibStore(data);
+    const inflated = inflateZlib(stored);
+    expect(inflated.end).toBe(stored.length);
+    expect(new TextDecoder().decode(inflated.data)).toBe("x".repeat(70000) + "end");
+  });
+});
+
+describe("git import", () => {
+  it("reads a bundle with deltas, merges and annotated tags", () => {
+    const repo = importRepository(fixture("repo.bundle"));
+
+    expect(repo.branches).toEqual({ main: MAIN, feature: FEATURE });
+    expect(repo.tags).toEqual({ v1: { sha: MAIN, message: "First release" } });
+    expect(repo.commits.map(c => c.message.trim())).toEqual(["Initial commit", "Edit notes", "Add b", "Edit line 5", "Merge feature"]);
+    expect(repo.skipped).toEqual(["/logo.png"]);
+    expect(repo.truncated).toBe(false);
+
+    const merge = repo.commits[4];
+    expect(merge.parents).toHaveLength(2);
+    expect(merge.author).toEqual({ name: "Ada", email: "ada@example.com", time: 1700000400, tz: "+0000" });
+    expect(merge.files.map(f => f.path)).toEqual(["/notes.txt", "/run.sh", "/src/a.ts", "/src/b.ts"]);
+    expect(merge.files.find(f => f.path === "/run.sh")).toMatchObject({ mode: "100755" });
+    const notes = merge.files.find(f => f.path === "/notes.txt")!.content;
+    expect(notes).toContain("line five\n");
+    expect(notes).toContain("line one hundred\n");
+  });
+
+  it("reads a tarball of a repository, or of plain files", () => {
+    const repo = importRepository(fixture("repo.tar.gz"));
+    expect(repo.head).toBe("main");
+    expect(repo.branches.main).toBe(MAIN);
+    expect(repo.commits).toHaveLength(5);
+
+    const plain = importRepository(fixture("plain.tar.gz"));
+    expect(plain.commits).toHaveLength(1);
+    expect(plain.commits[0].files).toEqual([
+      { path: "/README.md", content: "hi\n" },
+      { path: "/src/x.ts", content: "x\n" },
+    ]);
+  });
+
+  it("keeps the newest commits when history is over the limit", () => {
+    const repo = importRepository(fixture("repo.bundle"), 2);
+    expect(repo.truncated).toBe(true);
+    // Ref tips are always kept
+    expect(repo.commits.map(c => c.message.trim())).toEqual(["Add b", "Edit line 5", "Merge feature"]);
+    expect(repo.commits[0].parents).toEqual([]);
+  });
+
+  it("rejects anything else", () => {
+    expect(() => importRepository(bytes("not a repo"))).toThrow(GitFormatError);
+  });
+});
+
+describe("git export", () => {
+  const author = { name: "Ada", email: "ada@example.com", time: 1700000000 };
+
+  it("writes snapshots as commits that read back identically", () => {
+    const { bundle, shas } = exportBundle(
+      [
+        // Newest first, as snapshots come out of the database; s0 was cut from the export
+        {
+          id: "s2", parentIds: ["s1"], author: { ...author, time: 1700000100 }, message: "Second",
+          files: [{ path: "/a.txt", content: "a\n" }, { path: "/bin/run", content: "echo\n", mode: "100755" }, { path: "/a-b/c.txt", content: "c\n" }],
+        },
+        { id: "s1", parentIds: ["s0"], author, message: "First", files: [{ path: "/a.txt", content: "a\n" }] },
+      ],
+      [{ name: "main", commitId: "s2" }],
+      [{ name: "v1", commitId: "s1", message: "Release", tagger: author }],
+    );
+
+    expect(readBundle(bundle).refs.map(r => r.name)).toEqual(["refs/heads/main", "refs/tags/v1", "HEAD"]);
+    const repo = importRepository(bundle);
+    expect(repo.branches).toEqual({ main: shas.get("s2") });
+    expect(repo.tags).toEqual({ v1: { sha: shas.get("s1"), message: "Release" } });
+    expect(repo.commits[0].parents).toEqual([]);
+    expect(repo.commits[1]).toMatchObject({
+      parents: [shas.get("s1")],
+      message: "Second\n",
+      files: [{ path: "/a-b/c.txt", content: "c\n" }, { path: "/a.txt", content: "a\n" }, { path: "/bin/run", content: "echo\n", mode: "100755" }],
+    });
+  });
+});
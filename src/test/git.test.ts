@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  GIT_STATUS_ARGS, parseStatus, parseNumstat, parseLog, parseBranches, isValidRefName, gitToolRefs, gitCheckoutArgs,
+  formatGitResult,
+} from "../../supabase/functions/_shared/git";
+import { repoInputsFromGit, DEFAULT_REPO_INPUTS } from "@/lib/policies/fsm";
+import { evaluatePermission } from "@/lib/tool-executor";
+import type { ToolCall, ToolName, ToolInput } from "@/types/tools";
+
+// Captured from git 2.x on a repo with a modified, an added binary, a renamed and an untracked file
+const HEAD = "1dda368b9701788de75027ec2e6e6647cb561468";
+const STATUS = [
+  `# branch.oid ${HEAD}`,
+  "# branch.head main",
+  "# branch.upstream origin/main",
+  "# branch.ab +2 -1",
+  "1 .M N... 100644 100644 100644 814f4a4 814f4a4 a.txt",
+  "1 A. N... 000000 100644 100644 0000000 badc806 bin.dat",
+  "2 R. N... 100644 100644 100644 587be6b 587be6b R100 c.txt",
+  "b.txt",
+  "? new file.txt",
+  "",
+].join("\0");
+
+const staged = { staged: true, files: parseNumstat("-\t-\tbin.dat\x000\t0\t\0b.txt\0c.txt\0"), linesAdded: 0, linesRemoved: 0, patch: "", truncated: false };
+const unstaged = { staged: false, files: parseNumstat("2\t1\ta.txt\0"), linesAdded: 2, linesRemoved: 1, patch: "", truncated: false };
+
+describe("git parsers", () => {
+  it("parses porcelain v2 status with renames and untracked paths", () => {
+    const status = parseStatus(STATUS);
+    expect(status).toMatchObject({ branch: "main", head: HEAD, upstream: "origin/main", ahead: 2, behind: 1, clean: false });
+    expect(status.files).toEqual([
+      { path: "a.txt", index: ".", worktree: "M", kind: "changed" },
+      { path: "bin.dat", index: "A", worktree: ".", kind: "changed" },
+      { path: "c.txt", from: "b.txt", index: "R", worktree: ".", kind: "renamed" },
+      { path: "new file.txt", index: "?", worktree: "?", kind: "untracked" },
+    ]);
+    expect(parseStatus("# branch.oid (initial)\0# branch.head (detached)\0")).toMatchObject({ branch: null, head: null, clean: true });
+  });
+
+  it("parses numstat including binary files and renames", () => {
+    expect(staged.files).toEqual([
+      { path: "bin.dat", added: 0, removed: 0, binary: true },
+      { path: "c.txt", from: "b.txt", added: 0, removed: 0, binary: false },
+    ]);
+  });
+
+  it("parses log and branch listings", () => {
+    const log = parseLog(`${HEAD}\x1f\x1fA\x1fa@b.c\x1f2026-10-19T09:21:26+00:00\x1ffirst commit\x1e\n`);
+    expect(log).toEqual([{
+      hash: HEAD, parents: [], author: { name: "A", email: "a@b.c" }, date: "2026-10-19T09:21:26+00:00", subject: "first commit",
+    }]);
+    expect(parseBranches(`*\x1fmain\x1f${HEAD}\x1f\n \x1ffeature/x\x1f${HEAD}\x1forigin/feature/x\n`)).toEqual([
+      { name: "main", current: true, head: HEAD, upstream: null },
+      { name: "feature/x", current: false, head: HEAD, upstream: "origin/feature/x" },
+    ]);
+  });
+
+  it("formats results as text", () => {
+    expect(formatGitResult({ tool: "git_status", status: parseStatus(STATUS) }).split("\n").slice(0, 2))
+      .toEqual(["On main → origin/main (+2 -1)", ".M a.txt"]);
+    expect(formatGitResult({ tool: "git_diff", diff: { ...staged, files: [] } })).toBe("No staged changes");
+  });
+});
+
+describe("repo inputs", () => {
+  it("summarizes status and both diffs for the decision engine", () => {
+    expect(DEFAULT_REPO_INPUTS.diffStatus.clean).toBe(true);
+    expect(repoInputsFromGit(parseStatus(STATUS), [unstaged, staged])).toEqual({
+      currentRef: "main",
+      diffStatus: { clean: false, filesChanged: 4, linesAdded: 2, linesRemoved: 1 },
+    });
+  });
+});
+
+describe("git tool permissions", () => {
+  const call = <T extends ToolName>(tool: T, input: ToolInput[T]): ToolCall =>
+    ({ id: "t", tool, input, status: "pending", timestamp: new Date() });
+
+  it("auto-allows read-only git tools and asks before changing the repo", () => {
+    expect(evaluatePermission(call("git_diff", { staged: true }))).toBe("allow");
+    expect(evaluatePermission(call("git_branch", {}))).toBe("allow");
+    expect(evaluatePermission(call("git_branch", { create: "feature" }))).toBe("ask");
+    expect(evaluatePermission(call("git_commit", { message: "wip", all: true }))).toBe("ask");
+  });
+
+  it("rejects ref names that could read as options or rev expressions", () => {
+    expect(["main", "feature/x-1", "v1.2.3"].every(isValidRefName)).toBe(true);
+    expect(["-f", "--orphan", "a..b", "x.lock", "a b", "HEAD~1", "@{u}", ".hidden", "a/"].some(isValidRefName)).toBe(false);
+  });
+});
+
+describe("git tools in a workspace", () => {
+  // Validates and runs git_checkout the way the runner does, against a real repository
+  const checkout = (cwd: string, input: { ref: string; create?: boolean }) => {
+    const badRef = gitToolRefs("git_checkout", input).find((r) => typeof r !== "string" || !isValidRefName(r));
+    if (badRef !== undefined) throw new Error(`Invalid ref name: ${badRef}`);
+    execFileSync("git", gitCheckoutArgs(input.ref, input.create === true), { cwd, stdio: "pipe" });
+    return parseStatus(execFileSync("git", GIT_STATUS_ARGS, { cwd, encoding: "utf8" }));
+  };
+
+  it("checks out a new branch with create: true and an existing one without", () => {
+    const cwd = mkdtempSync(join(tmpdir(), "git-tools-"));
+    try {
+      const git = (...args: string[]) => execFileSync("git", args, { cwd, stdio: "pipe" });
+      git("init", "-q", "-b", "main");
+      git("-c", "user.name=t", "-c", "user.email=t@example.com", "commit", "-q", "--allow-empty", "-m", "init");
+
+      expect(checkout(cwd, { ref: "feature/x", create: true }).branch).toBe("feature/x");
+      expect(checkout(cwd, { ref: "main", create: false }).branch).toBe("main");
+      expect(() => checkout(cwd, { ref: "-f", create: true })).toThrow("Invalid ref name: -f");
+    } finally {
+      rmSync(cwd, { recursive: true, force: true });
+    }
+  });
+
+  it("treats create as a ref name only for git_branch", () => {
+    expect(gitToolRefs("git_checkout", { ref: "feature", create: true })).toEqual(["feature"]);
+    expect(gitToolRefs("git_branch", { create: "feature", start_point: "main" })).toEqual(["feature", "main"]);
+    expect(gitToolRefs("git_log", { max_count: 5 })).toEqual([]);
+    expect(gitToolRefs("git_status", { ref: "ignored" })).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_RESOURCE_LIMITS, clampLimits, cgroupSettings, isolationPrefix, parseCgroupEvents, classifyExit,
+} from "../../supabase/functions/_shared/limits";
+
+const runner = { ...DEFAULT_RESOURCE_LIMITS, cpuCount: 2, networkEnabled: true };
+const exit = { signal: null, timedOut: false, diskExceeded: false, oomKills: 0, pidsMaxHits: 0 };
+
+describe("session limits", () => {
+  it("lets sessions lower limits but never raise them", () => {
+    const limits = clampLimits({ cpuCount: 0.5, memoryMb: 99999, maxProcesses: 10.8, diskMb: -1, networkEnabled: false }, runner);
+    expect(limits).toMatchObject({ cpuCount: 0.5, memoryMb: 2048, maxProcesses: 10, diskMb: 512, networkEnabled: false });
+    expect(clampLimits({ networkEnabled: true }, { ...runner, networkEnabled: false }).networkEnabled).toBe(false);
+    expect(clampLimits(undefined, runner)).toEqual(runner);
+  });
+
+  it("maps limits to cgroup v2 settings", () => {
+    expect(cgroupSettings({ ...runner, cpuCount: 1.5, memoryMb: 256, maxProcesses: 32 })).toEqual({
+      "cpu.max": "150000 100000",
+      "memory.max": String(256 * 1024 * 1024),
+      "memory.swap.max": "0",
+      "pids.max": "32",
+    });
+  });
+
+  it("wraps commands to join the cgroup, apply rlimits and drop network", () => {
+    const offline = { ...runner, fileSizeMb: 1, networkEnabled: false };
+    expect(isolationPrefix(offline, { cgroupProcs: "/cg/s/p/cgroup.procs", prlimit: true, unshare: true })).toEqual({
+      prefix: [
+        "/bin/sh", "-c", 'echo $$ > "$0" && exec "$@"', "/cg/s/p/cgroup.procs",
+        "prlimit", "--fsize=1048576", "--core=0", "--",
+        "unshare", "--net", "--map-root-user", "--",
+      ],
+    });
+    expect(isolationPrefix(runner, { cgroupProcs: "/cg/s/p/cgroup.procs", prlimit: false, unshare: false })).toEqual({
+      prefix: ["/bin/sh", "-c", 'echo $$ > "$0" && exec "$@"', "/cg/s/p/cgroup.procs"],
+    });
+    expect(isolationPrefix(offline, { prlimit: true, unshare: false })).toMatchObject({ violation: { kind: "network" } });
+  });
+
+  it("refuses without cgroups, since rlimits can't hold a per-session process limit", () => {
+    expect(isolationPrefix(runner, { prlimit: true, unshare: true })).toMatchObject({ violation: { kind: "pids" } });
+    expect(isolationPrefix(runner, { prlimit: false, unshare: true })).toMatchObject({ violation: { kind: "pids" } });
+  });
+});
+
+describe("exit classification", () => {
+  it("reads cgroup event counters", () => {
+    expect(parseCgroupEvents("low 0\nhigh 0\nmax 3\noom 1\noom_kill 1\n")).toEqual({ low: 0, high: 0, max: 3, oom: 1, oom_kill: 1 });
+  });
+
+  it("names the limit a process ran into", () => {
+    expect(classifyExit(exit, runner)).toBeNull();
+    expect(classifyExit({ ...exit, oomKills: 1 }, runner)).toEqual({
+      kind: "memory", message: "Memory limit exceeded (2048 MB); the process was OOM-killed",
+    });
+    expect(classifyExit({ ...exit, signal: "SIGXFSZ" }, runner)?.kind).toBe("file_size");
+    expect(classifyExit({ ...exit, pidsMaxHits: 2 }, runner)?.kind).toBe("pids");
+    // Stopping the process for disk or time also kills it, so those win over what the kill looks like
+    expect(classifyExit({ ...exit, diskExceeded: true, signal: "SIGKILL", oomKills: 1 }, runner)?.kind).toBe("disk_quota");
+    expect(classifyExit({ ...exit, timedOut: true, signal: "SIGTERM" }, runner)?.kind).toBe("timeout");
+    expect(classifyExit({ ...exit, signal: "SIGXCPU" }, runner)?.kind).toBe("timeout");
+  });
+});
@@ -0,0 +1,313 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createMcpClient, createLineDecoder, createSseDecoder, encodeLine, discoverServer, callTool, listTools, toolResultText,
+  validateMcpServerConfig, isJsonRpcRequest, McpError, METHOD_NOT_FOUND, CONNECTION_CLOSED, REQUEST_TIMEOUT,
+  INVALID_PARAMS, handleMcpMessage, evaluateMcpPermission, isMcpToken, validateMcpTokenScopes, readResource,
+  actingUserId, timingSafeEqual,
+  type JsonRpcMessage, type JsonRpcRequest, type McpTransport, type McpServerHandlers, type McpPermissionRule,
+} from "../../supabase/functions/_shared/mcp";
+import { createStreamableHttpTransport, createSseTransport, remoteServerUrlProblem } from "../../api/_lib/mcp";
+
+/** A transport wired to an in-process server that answers requests with `handle` */
+function fakeServer(handle: (request: JsonRpcRequest) => unknown, { protocolVersion = "2025-06-18" } = {}) {
+  const sent: JsonRpcMessage[] = [];
+  const transport: McpTransport = {
+    async send(message) {
+      sent.push(message);
+      if (!isJsonRpcRequest(message)) return;
+      let reply: JsonRpcMessage;
+      if (message.method === "initialize") {
+        reply = {
+          jsonrpc: "2.0", id: message.id,
+          result: { protocolVersion, capabilities: { tools: {}, prompts: {} }, serverInfo: { name: "fake", version: "1.0.0" } },
+        };
+      } else {
+        try {
+          const result = handle(message);
+          if (result === undefined) return;
+          reply = { jsonrpc: "2.0", id: message.id, result };
+        } catch (error) {
+          reply = { jsonrpc: "2.0", id: message.id, error: { code: METHOD_NOT_FOUND, message: (error as Error).message } };
+        }
+      }
+      queueMicrotask(() => transport.onmessage?.(reply));
+    },
+    async close() {
+      transport.onclose?.();
+    },
+  };
+  return { transport, sent };
+}
+
+const clientInfo = { name: "test", version: "0.0.0" };
+
+describe("createMcpClient", () => {
+  it("negotiates a version and confirms the handshake", async () => {
+    const { transport, sent } = fakeServer(() => ({}));
+    const client = createMcpClient(transport, { clientInfo });
+    const init = await client.connect();
+    expect(init.serverInfo.name).toBe("fake");
+    expect(sent.map((m) => "method" in m && m.method)).toEqual(["initialize", "notifications/initialized"]);
+    expect((sent[0] as JsonRpcRequest).params).toMatchObject({ protocolVersion: "2025-06-18", clientInfo });
+  });
+
+  it("refuses servers speaking a version it doesn't know", async () => {
+    const { transport } = fakeServer(() => ({}), { protocolVersion: "2023-01-01" });
+    await expect(createMcpClient(transport, { clientInfo }).connect()).rejects.toThrow(/unsupported protocol version/);
+  });
+
+  it("surfaces JSON-RPC errors as McpError", async () => {
+    const { transport } = fakeServer(() => { throw new Error("no such method"); });
+    const client = createMcpClient(transport, { clientInfo });
+    await client.connect();
+    const error = await client.request("resources/list").catch((e) => e);
+    expect(error).toBeInstanceOf(McpError);
+    expect(error).toMatchObject({ code: METHOD_NOT_FOUND, message: "no such method" });
+  });
+
+  it("times out and cancels requests the server never answers", async () => {
+    const { transport, sent } = fakeServer(() => undefined);
+    const client = createMcpClient(transport, { clientInfo, timeoutMs: 10 });
+    await client.connect();
+    await expect(client.request("tools/list")).rejects.toMatchObject({ code: REQUEST_TIMEOUT });
+    expect(sent.at(-1)).toMatchObject({ method: "notifications/cancelled", params: { reason: "timeout" } });
+  });
+
+  it("fails pending requests when the transport closes", async () => {
+    const { transport } = fakeServer(() => undefined);
+    const client = createMcpClient(transport, { clientInfo });
+    await client.connect();
+    const pending = client.request("tools/list");
+    transport.onclose?.();
+    await expect(pending).rejects.toMatchObject({ code: CONNECTION_CLOSED });
+  });
+
+  it("answers server pings and declines other server requests", async () => {
+    const { transport, sent } = fakeServer(() => ({}));
+    createMcpClient(transport, { clientInfo });
+    transport.onmessage?.({ jsonrpc: "2.0", id: "s1", method: "ping" });
+    transport.onmessage?.({ jsonrpc: "2.0", id: "s2", method: "sampling/createMessage" });
+    expect(sent).toEqual([
+      { jsonrpc: "2.0", id: "s1", result: {} },
+      expect.objectContaining({ id: "s2", error: expect.objectContaining({ code: METHOD_NOT_FOUND }) }),
+    ]);
+  });
+});
+
+describe("discovery and calls", () => {
+  const tools = Array.from({ length: 3 }, (_, i) => ({ name: `tool_${i}`, inputSchema: { type: "object" } }));
+
+  it("follows list cursors to the last page", async () => {
+    const { transport } = fakeServer((req) => {
+      const start = Number(req.params?.cursor || 0);
+      return { tools: tools.slice(start, start + 2), ...(start + 2 < tools.length ? { nextCursor: String(start + 2) } : {}) };
+    });
+    const client = createMcpClient(transport, { clientInfo });
+    await client.connect();
+    expect((await listTools(client.request)).map((t) => t.name)).toEqual(["tool_0", "tool_1", "tool_2"]);
+  });
+
+  it("only lists what the server's capabilities advertise", async () => {
+    const asked: string[] = [];
+    const { transport } = fakeServer((req) => {
+      asked.push(req.method);
+      return req.method === "tools/list" ? { tools } : { prompts: [{ name: "review" }] };
+    });
+    const client = createMcpClient(transport, { clientInfo });
+    const init = await client.connect();
+    const catalog = await discoverServer(client.request, init.capabilities);
+    expect(asked).toEqual(["tools/list", "prompts/list"]);
+    expect(catalog).toMatchObject({ resources: [], resourceTemplates: [], prompts: [{ name: "review" }] });
+  });
+
+  it("calls tools with their arguments", async () => {
+    const { transport, sent } = fakeServer(() => ({ content: [{ type: "text", text: "ok" }] }));
+    const client = createMcpClient(transport, { clientInfo });
+    await client.connect();
+    expect(await callTool(client.request, "echo", { value: 1 })).toEqual({ content: [{ type: "text", text: "ok" }] });
+    expect(sent.at(-1)).toMatchObject({ method: "tools/call", params: { name: "echo", arguments: { value: 1 } } });
+  });
+});
+
+describe("framing", () => {
+  it("splits stdio output into messages across chunks and skips log lines", () => {
+    const messages: JsonRpcMessage[] = [];
+    const decoder = createLineDecoder((m) => messages.push(m));
+    const line = encodeLine({ jsonrpc: "2.0", id: 1, result: {} });
+    decoder.push("server starting\n" + line.slice(0, 10));
+    decoder.push(line.slice(10) + encodeLine({ jsonrpc: "2.0", method: "notifications/progress" }));
+    expect(messages).toEqual([{ jsonrpc: "2.0", id: 1, result: {} }, { jsonrpc: "2.0", method: "notifications/progress" }]);
+  });
+
+  it("decodes SSE events split across chunks", () => {
+    const events: Array<{ event: string; data: string }> = [];
+    const decoder = createSseDecoder((e) => events.push(e));
+    decoder.push("event: endpoint\r\ndata: /messages?session=1\r\n\r\n: keep-alive\n\nda");
+    decoder.push("ta: {\"a\":1}\ndata: {\"b\":2}\n");
+    decoder.end();
+    expect(events).toEqual([
+      { event: "endpoint", data: "/messages?session=1", id: undefined },
+      { event: "message", data: "{\"a\":1}\n{\"b\":2}", id: undefined },
+    ]);
+  });
+});
+
+describe("toolResultText", () => {
+  it("joins text content and describes the rest", () => {
+    expect(toolResultText({
+      content: [{ type: "text", text: "hello" }, { type: "image", data: "AAAA", mimeType: "image/png" }],
+    })).toBe("hello\n[image image/png]");
+  });
+
+  it("falls back to structured content and truncates", () => {
+    expect(toolResultText({ content: [], structuredContent: { n: 1 } })).toBe("{\"n\":1}");
+    expect(toolResultText({ content: [{ type: "text", text: "abcdef" }] }, 3)).toBe("abc\n… (truncated)");
+  });
+});
+
+describe("validateMcpServerConfig", () => {
+  it("accepts stdio commands and https endpoints", () => {
+    expect(validateMcpServerConfig({ name: "fs", transport: "stdio", command: "npx", args: ["-y", "server"] })).toBeNull();
+    expect(validateMcpServerConfig({ name: "remote", transport: "http", url: "https://mcp.example.com/mcp" })).toBeNull();
+  });
+
+  it("rejects missing commands, plain http and non-string secrets", () => {
+    expect(validateMcpServerConfig({ name: "fs", transport: "stdio" })).toMatch(/command/);
+    expect(validateMcpServerConfig({ name: "remote", transport: "sse", url: "http://mcp.example.com" })).toMatch(/https/);
+    expect(validateMcpServerConfig({ name: "local", transport: "http", url: "http://localhost:3000/mcp" })).toMatch(/https/);
+    expect(validateMcpServerConfig({
+      name: "remote", transport: "http", url: "https://mcp.example.com", headers: { n: 1 } as never,
+    })).toMatch(/headers/);
+    expect(validateMcpServerConfig({ name: "bad name", transport: "stdio", command: "x" })).toMatch(/name/);
+  });
+});
+
+describe("remote transports", () => {
+  afterEach(() => vi.unstubAllGlobals());
+  const message: JsonRpcMessage = { jsonrpc: "2.0", method: "notifications/initialized" };
+
+  it("refuses servers on private addresses before connecting", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+    for (const url of ["https://127.0.0.1/mcp", "https://[::ffff:169.254.169.254]/", "https://10.0.0.2/sse", "https://localhost/mcp"]) {
+      expect(await remoteServerUrlProblem(url), url).toMatch(/private/);
+    }
+    await expect(createStreamableHttpTransport("https://192.168.1.10/mcp").send(message)).rejects.toThrow(/private address/);
+    await expect(createSseTransport("https://[fd00::1]/sse").start!()).rejects.toThrow(/private address/);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(await remoteServerUrlProblem("https://93.184.216.34/mcp")).toBeNull();
+  });
+
+  it("checks every redirect hop and keeps to the configured origin", async () => {
+    const fetch = vi.fn(async (url: string, init: RequestInit) => {
+      expect(init.redirect).toBe("manual");
+      if (url === "https://93.184.216.34/mcp") return new Response(null, { status: 307, headers: { location: "/v2/mcp" } });
+      return new Response(null, { status: 307, headers: { location: "https://10.0.0.1/mcp" } });
+    });
+    vi.stubGlobal("fetch", fetch);
+    await expect(createStreamableHttpTransport("https://93.184.216.34/mcp").send(message)).rejects.toThrow(/another origin/);
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual(["https://93.184.216.34/mcp", "https://93.184.216.34/v2/mcp"]);
+  });
+
+  it("doesn't echo the body of an error response", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("ami-id\ninstance-id", { status: 500 })));
+    const error = await createStreamableHttpTransport("https://93.184.216.34/mcp").send(message).catch((e: Error) => e);
+    expect((error as Error).message).toBe("MCP server returned 500");
+  });
+});
+
+describe("handleMcpMessage", () => {
+  const handlers: McpServerHandlers = {
+    serverInfo: { name: "started", version: "1.0.0" },
+    listTools: async () => [{ name: "read_file", inputSchema: { type: "object" } }],
+    callTool: async (name) => {
+      if (name === "boom") throw new Error("disk on fire");
+      if (name !== "read_file") throw new McpError(INVALID_PARAMS, `Unknown tool: ${name}`);
+      return { content: [{ type: "text", text: "contents" }] };
+    },
+    readResource: async (uri) => [{ uri, text: "hello" }],
+  };
+
+  /** A transport that hands every message straight to the server */
+  function loopback(server: McpServerHandlers): McpTransport {
+    const transport: McpTransport = {
+      async send(message) {
+        const reply = await handleMcpMessage(server, message);
+        if (reply) queueMicrotask(() => transport.onmessage?.(reply));
+      },
+      async close() {},
+    };
+    return transport;
+  }
+
+  it("serves the client end to end", async () => {
+    const client = createMcpClient(loopback(handlers), { clientInfo });
+    const init = await client.connect();
+    expect(init).toMatchObject({ protocolVersion: "2025-06-18", capabilities: { tools: {}, resources: {} } });
+    expect((await listTools(client.request)).map((t) => t.name)).toEqual(["read_file"]);
+    expect(toolResultText(await callTool(client.request, "read_file", { path: "/a" }))).toBe("contents");
+    expect(await readResource(client.request, "started://events")).toEqual([{ uri: "started://events", text: "hello" }]);
+  });
+
+  it("answers an older client in its own version", async () => {
+    const reply = await handleMcpMessage(handlers, {
+      jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-03-26" },
+    });
+    expect(reply?.result).toMatchObject({ protocolVersion: "2025-03-26" });
+  });
+
+  it("reports tool failures as results and protocol failures as errors", async () => {
+    expect(await handleMcpMessage(handlers, { jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "boom" } }))
+      .toEqual({ jsonrpc: "2.0", id: 1, result: { content: [{ type: "text", text: "disk on fire" }], isError: true } });
+    expect(await handleMcpMessage(handlers, { jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "nope" } }))
+      .toMatchObject({ id: 2, error: { code: INVALID_PARAMS } });
+    expect(await handleMcpMessage(handlers, { jsonrpc: "2.0", id: 3, method: "prompts/list" }))
+      .toMatchObject({ id: 3, error: { code: METHOD_NOT_FOUND } });
+  });
+
+  it("leaves notifications unanswered", async () => {
+    expect(await handleMcpMessage(handlers, { jsonrpc: "2.0", method: "notifications/initialized" })).toBeNull();
+  });
+});
+
+describe("evaluateMcpPermission", () => {
+  const rule = (rule_type: string, subject: string, effect: McpPermissionRule["effect"]): McpPermissionRule =>
+    ({ rule_type, subject, effect });
+
+  it("lets a tool deny beat a tool allow, and a tool allow beat the risk rule", () => {
+    expect(evaluateMcpPermission([rule("tool", "write_file", "allow"), rule("tool", "write_file", "deny")], "write_file", "write"))
+      .toMatchObject({ effect: "deny" });
+    expect(evaluateMcpPermission([rule("risk", "write", "deny"), rule("tool", "write_file", "allow")], "write_file", "write"))
+      .toMatchObject({ effect: "allow" });
+  });
+
+  it("falls back to patterns, then allows reads and asks for writes", () => {
+    expect(evaluateMcpPermission([rule("pattern", "prefix:list_", "deny")], "list_files", "read")).toMatchObject({ effect: "deny" });
+    expect(evaluateMcpPermission([rule("pattern", "re:(", "deny")], "read_file", "read")).toMatchObject({ effect: "allow" });
+    expect(evaluateMcpPermission([], "run_command", "write")).toMatchObject({ effect: "ask" });
+  });
+});
+
+describe("project tokens", () => {
+  it("recognises well-formed tokens only", () => {
+    expect(isMcpToken(`smcp_${"ab".repeat(32)}`)).toBe(true);
+    expect(isMcpToken(`smcp_${"ab".repeat(31)}`)).toBe(false);
+    expect(isMcpToken(`srn_${"ab".repeat(32)}`)).toBe(false);
+  });
+
+  it("validates scopes", () => {
+    expect(validateMcpTokenScopes(["read", "exec"])).toBeNull();
+    expect(validateMcpTokenScopes([])).toMatch(/at least one/);
+    expect(validateMcpTokenScopes(["read", "admin"])).toMatch(/admin/);
+  });
+
+  it("acts for the token's creator only on calls with the service key", () => {
+    expect(actingUserId("Bearer service-key", "user-1", "service-key")).toBe("user-1");
+    expect(actingUserId("Bearer service-kez", "user-1", "service-key")).toBeNull();
+    expect(actingUserId("Bearer user-jwt", "user-1", "service-key")).toBeNull();
+    expect(actingUserId("Bearer service-key", null, "service-key")).toBeNull();
+    expect(actingUserId("Bearer ", "user-1", undefined)).toBeNull();
+    expect(timingSafeEqual("abc", "abc")).toBe(true);
+    expect(timingSafeEqual("abc", "abcd")).toBe(false);
+  });
+});
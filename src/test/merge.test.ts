@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  findMergeBase, mergeFileSets, applyMergeResolutions, hasConflictMarkers, replaySnapshot,
+} from "../../supabase/functions/_shared/patch";
+
+const lines = (n: number, edit: Record<number, string> = {}) =>
+  Array.from({ length: n }, (_, i) => edit[i + 1] ?? `line ${i + 1}`).join("\n") + "\n";
+
+describe("merge base", () => {
+  // a ← b ← c ← m (merge of c and e)
+  //       ↖ d ← e ← f
+  const parents: Record<string, string[]> = { a: [], b: ["a"], c: ["b"], d: ["b"], e: ["d"], f: ["e"], m: ["c", "e"], x: [] };
+  const parentsOf = async (id: string) => parents[id] ?? [];
+
+  it("finds the nearest common ancestor across merge parents", async () => {
+    expect(await findMergeBase("c", "f", parentsOf)).toBe("b");
+    expect(await findMergeBase("m", "f", parentsOf)).toBe("e");
+    expect(await findMergeBase("b", "f", parentsOf)).toBe("b");
+    expect(await findMergeBase("f", "f", parentsOf)).toBe("f");
+    expect(await findMergeBase("c", "x", parentsOf)).toBeNull();
+  });
+});
+
+describe("snapshot merge", () => {
+  const base = [
+    { path: "/a.txt", content: lines(10) },
+    { path: "/gone.txt", content: "bye\n" },
+    { path: "/run.sh", content: "echo hi\n" },
+  ];
+
+  it("combines each side's changes path by path", () => {
+    const ours = [
+      { path: "/a.txt", content: lines(10, { 2: "ours" }) },
+      { path: "/run.sh", content: "echo hi\n", mode: "100755" },
+      { path: "/new-ours.txt", content: "o\n" },
+    ];
+    const theirs = [
+      { path: "/a.txt", content: lines(10, { 9: "theirs" }) },
+      { path: "/gone.txt", content: "bye\n" },
+      { path: "/run.sh", content: "echo hello\n" },
+      { path: "/new-theirs.txt", content: "t\n" },
+    ];
+    expect(mergeFileSets(base, ours, theirs)).toEqual({
+      files: [
+        { path: "/a.txt", content: lines(10, { 2: "ours", 9: "theirs" }) },
+        { path: "/new-ours.txt", content: "o\n" },
+        { path: "/new-theirs.txt", content: "t\n" },
+        { path: "/run.sh", content: "echo hello\n", mode: "100755" },
+      ],
+      conflicts: [],
+      ok: true,
+    });
+  });
+
+  it("reports overlapping edits, competing adds and edit/delete as conflicts", () => {
+    const ours = [{ path: "/a.txt", content: lines(10, { 5: "ours" }) }, { path: "/gone.txt", content: "still here\n" }, { path: "/b.txt", content: "ours\n" }];
+    const theirs = [{ path: "/a.txt", content: lines(10, { 5: "theirs" }) }, { path: "/run.sh", content: "echo hi\n" }, { path: "/b.txt", content: "theirs\n" }];
+    const merged = mergeFileSets(base, ours, theirs, { ours: "main", theirs: "agent/1" });
+
+    expect(merged.ok).toBe(false);
+    expect(merged.files).toEqual([]);
+    expect(merged.conflicts.map(c => [c.path, c.kind])).toEqual([
+      ["/a.txt", "content"], ["/b.txt", "add_add"], ["/gone.txt", "modify_delete"],
+    ]);
+    expect(merged.conflicts[0].content).toContain("<<<<<<< main\nours\n=======\ntheirs\n>>>>>>> agent/1\n");
+    expect(hasConflictMarkers(merged.conflicts[0].content)).toBe(true);
+    expect(merged.conflicts[2]).toMatchObject({ base: "bye\n", ours: "still here\n", theirs: null, content: "still here\n" });
+
+    expect(applyMergeResolutions(merged, { "/a.txt": lines(10, { 5: "both" }) })).toEqual({
+      ok: false, unresolved: ["/b.txt", "/gone.txt"],
+    });
+    const resolved = applyMergeResolutions(merged, { "/a.txt": lines(10, { 5: "both" }), "/b.txt": "theirs\n", "/gone.txt": null });
+    expect(resolved).toEqual({
+      ok: true,
+      files: [{ path: "/a.txt", content: lines(10, { 5: "both" }) }, { path: "/b.txt", content: "theirs\n" }],
+    });
+  });
+});
+
+describe("snapshot replay", () => {
+  const parent = [{ path: "/a.txt", content: lines(10) }];
+  const picked = [{ path: "/a.txt", content: lines(10, { 3: "agent" }) }, { path: "/b.txt", content: "b\n" }];
+
+  it("applies only the snapshot's own change onto a newer target", () => {
+    const main = [{ path: "/a.txt", content: lines(10, { 8: "main" }) }, { path: "/c.txt", content: "c\n" }];
+    expect(replaySnapshot(main, parent, picked)).toEqual({
+      ok: true,
+      empty: false,
+      files: [
+        { path: "/a.txt", content: lines(10, { 3: "agent", 8: "main" }) },
+        { path: "/b.txt", content: "b\n" },
+        { path: "/c.txt", content: "c\n" },
+      ],
+    });
+  });
+
+  it("flags changes the target already has, and conflicts", () => {
+    expect(replaySnapshot(picked, parent, picked)).toMatchObject({ ok: true, empty: true });
+    const main = [{ path: "/a.txt", content: lines(10, { 3: "main" }) }];
+    expect(replaySnapshot(main, parent, picked)).toMatchObject({ ok: false, conflicts: [{ path: "/a.txt", kind: "content" }] });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseNodeLoad, nextNodeStatus, nodeUtilization, rankNodes, isHeartbeatFresh, validateEnrollment, parseHeartbeat,
+  heartbeatSigningInput, HeartbeatError, HEARTBEAT_TTL_MS, HEARTBEAT_MAX_SKEW_MS,
+  type MeshNode,
+} from "../../supabase/functions/_shared/mesh";
+
+const NOW = Date.parse("2026-02-19T12:00:00Z");
+
+function node(id: string, overrides: Partial<MeshNode> = {}): MeshNode {
+  return {
+    id,
+    name: id,
+    base_url: `https://${id}.runners.test`,
+    region: "us-east",
+    trust_tier: "tier0",
+    capabilities: { runtimes: ["node"], maxConcurrency: 4 },
+    status: "active",
+    last_heartbeat: new Date(NOW - 1000).toISOString(),
+    load: { activeSessions: 0, loadAvg: 0, cpuCount: 4, memFreeMb: 8000, memTotalMb: 8000 },
+    health_failures: 0,
+    ...overrides,
+  };
+}
+
+describe("parseNodeLoad", () => {
+  it("reads the runner's /health response", () => {
+    expect(parseNodeLoad({
+      ok: true, activeSessions: 3, busySessions: 1, draining: false,
+      load: { avg1: 1.5, cpus: 4, memFreeMb: 2048, memTotalMb: 8192 },
+    })).toEqual({
+      activeSessions: 3, busySessions: 1, loadAvg: 1.5, cpuCount: 4, memFreeMb: 2048, memTotalMb: 8192, draining: false,
+    });
+  });
+
+  it("rejects responses that are not a healthy runner", () => {
+    expect(parseNodeLoad(null)).toBeNull();
+    expect(parseNodeLoad("ok")).toBeNull();
+    expect(parseNodeLoad({ ok: false })).toBeNull();
+  });
+
+  it("defaults load older runners don't report", () => {
+    const load = parseNodeLoad({ ok: true, activeSessions: 2 });
+    expect(load).toMatchObject({ activeSessions: 2, loadAvg: 0, cpuCount: 1, memTotalMb: 0, draining: false });
+  });
+});
+
+describe("nextNodeStatus", () => {
+  it("drains on the first failed check and goes offline after three", () => {
+    expect(nextNodeStatus(false, null, 0)).toEqual({ status: "draining", failures: 1 });
+    expect(nextNodeStatus(false, null, 1)).toEqual({ status: "draining", failures: 2 });
+    expect(nextNodeStatus(false, null, 2)).toEqual({ status: "offline", failures: 3 });
+  });
+
+  it("brings a node back after one good check unless it asked to drain", () => {
+    const load = parseNodeLoad({ ok: true })!;
+    expect(nextNodeStatus(true, load, 5)).toEqual({ status: "active", failures: 0 });
+    expect(nextNodeStatus(true, { ...load, draining: true }, 0)).toEqual({ status: "draining", failures: 0 });
+  });
+});
+
+describe("nodeUtilization", () => {
+  it("takes the most used of session slots, CPU and memory", () => {
+    expect(nodeUtilization(node("a", { load: { activeSessions: 2 } }))).toBe(0.5);
+    expect(nodeUtilization(node("b", { load: { loadAvg: 3, cpuCount: 4 } }))).toBe(0.75);
+    expect(nodeUtilization(node("c", { load: { memFreeMb: 1000, memTotalMb: 4000 } }))).toBe(0.75);
+  });
+
+  it("treats nodes that never reported load as idle", () => {
+    expect(nodeUtilization(node("a", { load: null }))).toBe(0);
+  });
+});
+
+describe("rankNodes", () => {
+  it("prefers the least utilized node", () => {
+    const busy = node("busy", { load: { activeSessions: 3 } });
+    const idle = node("idle", { load: { activeSessions: 1 } });
+    expect(rankNodes([busy, idle], {}, NOW).map((n) => n.id)).toEqual(["idle", "busy"]);
+  });
+
+  it("prefers the requested region over utilization", () => {
+    const far = node("far", { region: "eu-west" });
+    const near = node("near", { load: { activeSessions: 3 } });
+    expect(rankNodes([far, near], { region: "us-east" }, NOW).map((n) => n.id)).toEqual(["near", "far"]);
+  });
+
+  it("skips full, draining, stale and excluded nodes", () => {
+    const nodes = [
+      node("full", { load: { activeSessions: 4 } }),
+      node("draining", { status: "draining" }),
+      node("stale", { last_heartbeat: new Date(NOW - HEARTBEAT_TTL_MS - 1).toISOString() }),
+      node("failed"),
+      node("ok"),
+    ];
+    expect(rankNodes(nodes, { exclude_node_ids: ["failed"] }, NOW).map((n) => n.id)).toEqual(["ok"]);
+  });
+
+  it("never falls back to a node missing a required capability", () => {
+    const nodes = [node("a"), node("b", { trust_tier: "tier2" })];
+    expect(rankNodes(nodes, { required_capabilities: { runtimes: ["python"] } }, NOW)).toEqual([]);
+    expect(rankNodes(nodes, { trust_minimum: "tier0" }, NOW).map((n) => n.id)).toEqual(["a"]);
+  });
+});
+
+describe("isHeartbeatFresh", () => {
+  it("needs a heartbeat within the TTL", () => {
+    expect(isHeartbeatFresh({ last_heartbeat: null }, NOW)).toBe(false);
+    expect(isHeartbeatFresh({ last_heartbeat: new Date(NOW - 1000).toISOString() }, NOW)).toBe(true);
+  });
+});
+
+describe("validateEnrollment", () => {
+  const enrollment = {
+    token: "srn_abc",
+    name: "runner-1.us-east",
+    base_url: "https://runner-1.example.com",
+    public_key: "w6m7nKYSTLCL8lwsxFxnL4Rc+2sIf10/IENwul3NoA4=",
+  };
+
+  it("accepts a well-formed request", () => {
+    expect(validateEnrollment(enrollment)).toBeNull();
+  });
+
+  it("requires https except on localhost", () => {
+    expect(validateEnrollment({ ...enrollment, base_url: "http://runner-1.example.com" })).toMatch(/https/);
+    expect(validateEnrollment({ ...enrollment, base_url: "http://localhost:8787" })).toBeNull();
+    expect(validateEnrollment({ ...enrollment, base_url: "runner-1" })).toMatch(/absolute URL/);
+  });
+
+  it("rejects missing tokens, odd names and keys that aren't 32 bytes", () => {
+    expect(validateEnrollment({ ...enrollment, token: "" })).toMatch(/token/);
+    expect(validateEnrollment({ ...enrollment, name: "runner 1" })).toMatch(/name/);
+    expect(validateEnrollment({ ...enrollment, public_key: "c2hvcnQ=" })).toMatch(/public_key/);
+  });
+});
+
+describe("parseHeartbeat", () => {
+  const body = (overrides: Record<string, unknown> = {}) =>
+    JSON.stringify({ node_id: "node-1", timestamp: NOW, health: { ok: true }, ...overrides });
+  const context = { nodeId: "node-1", now: NOW, lastTimestamp: NOW - 20000 };
+
+  it("accepts a fresh heartbeat from the signing node", () => {
+    expect(parseHeartbeat(body(), context)).toMatchObject({ node_id: "node-1", timestamp: NOW });
+  });
+
+  it("rejects replays, skewed clocks and heartbeats for another node", () => {
+    expect(() => parseHeartbeat(body(), { ...context, lastTimestamp: NOW })).toThrow(/not newer/);
+    expect(() => parseHeartbeat(body({ timestamp: NOW - HEARTBEAT_MAX_SKEW_MS - 1 }), context)).toThrow(/too far/);
+    expect(() => parseHeartbeat(body({ node_id: "node-2" }), context)).toThrow(HeartbeatError);
+    expect(() => parseHeartbeat("{", context)).toThrow(/not JSON/);
+  });
+
+  it("binds signatures to the heartbeat protocol", () => {
+    expect(heartbeatSigningInput("{}")).toBe("started-runner-heartbeat.v1\n{}");
+  });
+});
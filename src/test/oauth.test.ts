@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import { createHash, randomBytes } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import {
+  OAUTH_PROVIDERS, OAuthError, oauthProvider, base64UrlEncode, createPkcePair, buildAuthorizeUrl, tokenRequest,
+  parseTokenResponse, exchangeCode, refreshTokens, revokeToken, needsRefresh, readPath, type OAuthProvider,
+} from "../../supabase/functions/_shared/oauth";
+import { requestFields } from "../../supabase/functions/_shared/vault";
+
+const CLIENT = { clientId: "client-1", clientSecret: "secret-1" };
+const REDIRECT = "http://localhost:8080/auth/mcp/callback";
+
+const sha256 = async (data: Uint8Array) => new Uint8Array(createHash("sha256").update(data).digest());
+
+/**
+ * A local authorization server: /authorize redirects straight back with a
+ * code, /token checks client auth, PKCE and redirect URI, /revoke records
+ * revoked tokens and /resources answers for valid access tokens.
+ */
+function mockAuthorizationServer() {
+  const codes = new Map<string, { challenge: string | null; redirectUri: string }>();
+  const accessTokens = new Set<string>();
+  const refreshTokens = new Set<string>();
+  const revoked: string[] = [];
+  let issued = 0;
+
+  const readBody = (req: IncomingMessage) => new Promise<string>((resolve) => {
+    let text = "";
+    req.on("data", (chunk) => { text += chunk; });
+    req.on("end", () => resolve(text));
+  });
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url!, "http://127.0.0.1");
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+    const text = await readBody(req);
+    const params: Record<string, string> = req.headers["content-type"]?.includes("json")
+      ? JSON.parse(text || "{}")
+      : Object.fromEntries(new URLSearchParams(text));
+    const basic = req.headers.authorization?.startsWith("Basic ")
+      ? Buffer.from(req.headers.authorization.slice(6), "base64").toString().split(":").map(decodeURIComponent)
+      : null;
+    const clientOk = basic
+      ? basic[0] === CLIENT.clientId && basic[1] === CLIENT.clientSecret
+      : params.client_id === CLIENT.clientId && params.client_secret === CLIENT.clientSecret;
+
+    const issue = () => {
+      issued++;
+      const access = `access-${issued}`;
+      const refresh = `refresh-${issued}`;
+      accessTokens.add(access);
+      refreshTokens.add(refresh);
+      return { access, refresh };
+    };
+
+    switch (url.pathname) {
+      case "/authorize": {
+        const code = `code-${codes.size + 1}`;
+        codes.set(code, { challenge: url.searchParams.get("code_challenge"), redirectUri: url.searchParams.get("redirect_uri")! });
+        const back = new URL(url.searchParams.get("redirect_uri")!);
+        back.searchParams.set("code", code);
+        back.searchParams.set("state", url.searchParams.get("state")!);
+        res.writeHead(302, { Location: back.toString() });
+        return res.end();
+      }
+      case "/token": {
+        if (!clientOk) return send(401, { error: "invalid_client" });
+        if (params.grant_type === "authorization_code") {
+          const pending = codes.get(params.code);
+          codes.delete(params.code);
+          if (!pending || pending.redirectUri !== params.redirect_uri) {
+            return send(400, { error: "invalid_grant", error_description: "Bad authorization code" });
+          }
+          if (pending.challenge) {
+            const expected = base64UrlEncode(createHash("sha256").update(params.code_verifier ?? "").digest());
+            if (expected !== pending.challenge) return send(400, { error: "invalid_grant", error_description: "PKCE verification failed" });
+          }
+          const { access, refresh } = issue();
+          return send(200, { access_token: access, refresh_token: refresh, expires_in: 3600, scope: "read write", team: { name: "Acme" } });
+        }
+        if (params.grant_type === "refresh_token") {
+          if (!refreshTokens.has(params.refresh_token)) return send(400, { error: "invalid_grant", error_description: "Refresh token revoked" });
+          // No rotation: the refresh token stays valid and isn't returned
+          const { access } = issue();
+          return send(200, { access_token: access, expires_in: 60 });
+        }
+        return send(400, { error: "unsupported_grant_type" });
+      }
+      case "/revoke": {
+        if (!clientOk) return send(401, { error: "invalid_client" });
+        revoked.push(params.token);
+        refreshTokens.delete(params.token);
+        accessTokens.delete(params.token);
+        res.writeHead(200);
+        return res.end();
+      }
+      case "/resources": {
+        const token = req.headers.authorization?.replace("Bearer ", "");
+        if (!token || !accessTokens.has(token)) return send(401, { error: "unauthorized" });
+        return send(200, [{ id: "cloud-1", name: "Acme Jira" }]);
+      }
+      default:
+        return send(404, { error: "not_found" });
+    }
+  });
+  return { server, revoked };
+}
+
+let auth: ReturnType<typeof mockAuthorizationServer>;
+let base = "";
+
+beforeAll(async () => {
+  auth = mockAuthorizationServer();
+  await new Promise<void>((resolve) => auth.server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(auth.server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => auth.server.close(resolve));
+});
+
+function provider(overrides: Partial<OAuthProvider> = {}): OAuthProvider {
+  return {
+    serverId: "mcp-test",
+    name: "Test",
+    authorizeUrl: `${base}/authorize`,
+    tokenUrl: `${base}/token`,
+    scopes: ["read", "write"],
+    pkce: true,
+    clientAuth: "body",
+    tokenField: "test_token",
+    labelPath: "team.name",
+    revocation: { url: `${base}/revoke`, style: "rfc7009" },
+    redirectPath: "/auth/mcp/callback",
+    clientIdEnv: "TEST_CLIENT_ID",
+    clientSecretEnv: "TEST_CLIENT_SECRET",
+    ...overrides,
+  };
+}
+
+/** Run the authorization step against the mock server and return the code from the redirect */
+async function authorize(p: OAuthProvider, codeChallenge?: string) {
+  const state = base64UrlEncode(randomBytes(16));
+  const resp = await fetch(buildAuthorizeUrl(p, { clientId: CLIENT.clientId, redirectUri: REDIRECT, state, codeChallenge }), { redirect: "manual" });
+  const location = new URL(resp.headers.get("location")!);
+  expect(location.searchParams.get("state")).toBe(state);
+  return location.searchParams.get("code")!;
+}
+
+describe("provider config", () => {
+  it("registers the SaaS servers, each storing the field its function reads", () => {
+    expect(oauthProvider("mcp-slack")?.tokenField).toBe("slack_token");
+    expect(oauthProvider("mcp-salesforce")?.responseFields).toEqual({ instance_url: "sf_instance_url" });
+    expect(oauthProvider("mcp-github")?.redirectPath).toBe("/auth/github/callback");
+    expect(oauthProvider("mcp-aws")).toBeNull();
+    expect(new Set(OAUTH_PROVIDERS.map((p) => p.serverId)).size).toBe(OAUTH_PROVIDERS.length);
+  });
+
+  it("builds the authorization URL with scopes, state and an S256 challenge", () => {
+    const url = new URL(buildAuthorizeUrl(oauthProvider("mcp-slack")!, { clientId: "c", redirectUri: REDIRECT, state: "s" }));
+    expect(url.searchParams.get("scope")).toBe("channels:read,channels:history,chat:write,users:read");
+    expect(url.searchParams.get("code_challenge")).toBeNull();
+
+    const google = new URL(buildAuthorizeUrl(oauthProvider("mcp-google-sheets")!, {
+      clientId: "c", redirectUri: REDIRECT, state: "s", codeChallenge: "abc",
+    }));
+    expect(google.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(google.searchParams.get("access_type")).toBe("offline");
+    expect(google.searchParams.get("response_type")).toBe("code");
+  });
+
+  it("sends client credentials as the provider expects", () => {
+    const form = tokenRequest(provider(), CLIENT, { grant_type: "refresh_token" });
+    expect(new URLSearchParams(form.body as string).get("client_secret")).toBe("secret-1");
+
+    const json = tokenRequest(provider({ clientAuth: "basic", tokenFormat: "json" }), CLIENT, { grant_type: "refresh_token" });
+    expect(JSON.parse(json.body as string)).toEqual({ grant_type: "refresh_token" });
+    expect((json.headers as Record<string, string>).Authorization).toBe(`Basic ${btoa("client-1:secret-1")}`);
+  });
+});
+
+describe("PKCE", () => {
+  it("derives the challenge from the verifier (RFC 7636 appendix B)", async () => {
+    const random = new Uint8Array([
+      116, 24, 223, 180, 151, 153, 224, 37, 79, 250, 96, 125, 216, 173, 187, 186,
+      22, 212, 37, 77, 105, 214, 191, 240, 91, 88, 5, 88, 83, 132, 141, 121,
+    ]);
+    expect(await createPkcePair(random, sha256)).toEqual({
+      verifier: "dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk",
+      challenge: "E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM",
+    });
+  });
+});
+
+describe("against a mock authorization server", () => {
+  it("exchanges a code with its PKCE verifier", async () => {
+    const p = provider();
+    const pkce = await createPkcePair(randomBytes(32), sha256);
+    const code = await authorize(p, pkce.challenge);
+    const tokens = await exchangeCode(p, CLIENT, { code, redirectUri: REDIRECT, codeVerifier: pkce.verifier }, fetch, 1_000);
+
+    expect(tokens.fields).toEqual({ test_token: tokens.accessToken });
+    expect(tokens.refreshToken).toMatch(/^refresh-/);
+    expect(tokens.expiresAt).toBe(1_000 + 3_600_000);
+    expect(tokens.scopes).toEqual(["read", "write"]);
+    expect(tokens.label).toBe("Acme");
+  });
+
+  it("rejects a wrong verifier, a reused code and bad client credentials", async () => {
+    const p = provider();
+    const pkce = await createPkcePair(randomBytes(32), sha256);
+    const code = await authorize(p, pkce.challenge);
+    await expect(exchangeCode(p, CLIENT, { code, redirectUri: REDIRECT, codeVerifier: "wrong" }, fetch, 0))
+      .rejects.toThrow(/PKCE verification failed/);
+    await expect(exchangeCode(p, CLIENT, { code, redirectUri: REDIRECT, codeVerifier: pkce.verifier }, fetch, 0))
+      .rejects.toMatchObject({ code: "invalid_grant" });
+
+    const other = await authorize(p, pkce.challenge);
+    await expect(exchangeCode(p, { ...CLIENT, clientSecret: "nope" }, { code: other, redirectUri: REDIRECT, codeVerifier: pkce.verifier }, fetch, 0))
+      .rejects.toThrow(OAuthError);
+  });
+
+  it("authenticates with HTTP Basic and a JSON body, and fills fields from a lookup", async () => {
+    const p = provider({
+      pkce: false, clientAuth: "basic", tokenFormat: "json", tokenField: "jira_access_token", labelPath: undefined,
+      lookup: { url: `${base}/resources`, fields: { "0.id": "jira_cloud_id" }, labelPath: "0.name" },
+    });
+    const tokens = await exchangeCode(p, CLIENT, { code: await authorize(p), redirectUri: REDIRECT }, fetch, 0);
+    expect(tokens.fields).toEqual({ jira_access_token: tokens.accessToken, jira_cloud_id: "cloud-1" });
+    expect(tokens.label).toBe("Acme Jira");
+  });
+
+  it("refreshes, keeping a refresh token the provider doesn't rotate", async () => {
+    const p = provider({ pkce: false });
+    const first = await exchangeCode(p, CLIENT, { code: await authorize(p), redirectUri: REDIRECT }, fetch, 0);
+    const next = await refreshTokens(p, CLIENT, first.refreshToken!, fetch, 5_000);
+    expect(next.accessToken).not.toBe(first.accessToken);
+    expect(next.refreshToken).toBe(first.refreshToken);
+    expect(next.expiresAt).toBe(65_000);
+  });
+
+  it("revokes, after which the refresh token is refused", async () => {
+    const p = provider({ pkce: false });
+    const tokens = await exchangeCode(p, CLIENT, { code: await authorize(p), redirectUri: REDIRECT }, fetch, 0);
+    expect(await revokeToken(p, CLIENT, tokens.refreshToken!, fetch)).toBe(true);
+    expect(auth.revoked).toContain(tokens.refreshToken);
+    await expect(refreshTokens(p, CLIENT, tokens.refreshToken!, fetch, 0)).rejects.toThrow(/Refresh token revoked/);
+    expect(await revokeToken(provider({ revocation: undefined }), CLIENT, "x", fetch)).toBe(false);
+  });
+});
+
+describe("token responses", () => {
+  it("treats Slack's ok: false and a 200 with an error as failures", () => {
+    const slack = oauthProvider("mcp-slack")!;
+    expect(() => parseTokenResponse(slack, 200, { ok: false, error: "invalid_code" }, 0)).toThrow(/invalid_code/);
+    expect(() => parseTokenResponse(oauthProvider("mcp-github")!, 200, { error: "bad_verification_code" }, 0))
+      .toThrow(OAuthError);
+    expect(() => parseTokenResponse(slack, 200, { ok: true }, 0)).toThrow(/no access token/);
+  });
+
+  it("keeps extra response fields and treats a missing expiry as none", () => {
+    const tokens = parseTokenResponse(
+      oauthProvider("mcp-salesforce")!, 200, { access_token: "00D!x", instance_url: "https://acme.my.salesforce.com" }, 0,
+    );
+    expect(tokens.fields).toEqual({ sf_access_token: "00D!x", sf_instance_url: "https://acme.my.salesforce.com" });
+    expect(tokens.expiresAt).toBeNull();
+    expect(readPath([{ id: 7 }], "0.id")).toBe("7");
+  });
+
+  it("refreshes shortly before expiry only", () => {
+    const expiresAt = new Date(100_000).toISOString();
+    expect(needsRefresh(null, 0)).toBe(false);
+    expect(needsRefresh(expiresAt, 10_000)).toBe(false);
+    expect(needsRefresh(expiresAt, 50_000)).toBe(true);
+  });
+
+  it("never forwards the sealed refresh token to a server", () => {
+    expect(requestFields({ slack_token: "xoxb", oauth_refresh_token: "r" })).toEqual({ slack_token: "xoxb" });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseUnifiedDiff, serializePatch, invertPatch, invertPatches, applyHunks, applyPatchesToFiles,
+  diffHunks, merge3, recordAppliedFiles, planRevert, buildStructuredEdit,
+} from "@/lib/patch-utils";
+import type { StructuredEdit } from "@/lib/patch-utils";
+import { evaluatePermission } from "@/lib/tool-executor";
+
+// Golden corpus: each fixtures/patch/<case>/ holds before.txt, patch.diff,
+// after.txt and optionally hunks.json with the expected per-hunk statuses.
+const fixtures = import.meta.glob("./fixtures/patch/*/*", { query: "?raw", import: "default", eager: true }) as Record<string, string>;
+
+const cases = new Map<string, Record<string, string>>();
+for (const [path, content] of Object.entries(fixtures)) {
+  const [, name, file] = path.match(/fixtures\/patch\/([^/]+)\/(.+)$/)!;
+  if (!cases.has(name)) cases.set(name, {});
+  cases.get(name)![file] = content;
+}
+
+describe("patch golden corpus", () => {
+  for (const [name, files] of cases) {
+    describe(name, () => {
+      const patches = parseUnifiedDiff(files["patch.diff"]);
+      const expectedStatuses: string[] | undefined = files["hunks.json"] ? JSON.parse(files["hunks.json"]) : undefined;
+
+      it("applies to produce after.txt", () => {
+        expect(patches).toHaveLength(1);
+        const result = applyHunks(files["before.txt"], patches[0].hunks);
+        expect(result.content).toBe(files["after.txt"]);
+        if (expectedStatuses) {
+          expect(result.hunks.map(h => h.status)).toEqual(expectedStatuses);
+        }
+      });
+
+      it("round-trips through serializePatch", () => {
+        expect(parseUnifiedDiff(serializePatch(patches))).toEqual(patches);
+      });
+
+      it("inverts back to before.txt", () => {
+        if (expectedStatuses?.includes("rejected")) return;
+        const inverse = invertPatch(patches[0]);
+        const result = applyHunks(files["after.txt"], inverse.hunks);
+        expect(result.ok).toBe(true);
+        expect(result.content).toBe(files["before.txt"]);
+      });
+    });
+  }
+});
+
+describe("git file operations", () => {
+  const files = [
+    { path: "/src/a.ts", content: "one\ntwo\nthree\n" },
+    { path: "/run.sh", content: "echo hi\n" },
+  ];
+
+  const apply = (diff: string) => {
+    const patches = parseUnifiedDiff(diff);
+    return { patches, ...applyPatchesToFiles(files, patches) };
+  };
+
+  it("renames with hunks", () => {
+    const { patches, files: out, results } = apply([
+      "diff --git a/src/a.ts b/src/b.ts",
+      "similarity index 80%",
+      "rename from src/a.ts",
+      "rename to src/b.ts",
+      "--- a/src/a.ts",
+      "+++ b/src/b.ts",
+      "@@ -1,3 +1,3 @@",
+      " one",
+      "-two",
+      "+TWO",
+      " three",
+    ].join("\n"));
+    expect(patches[0]).toMatchObject({ operation: "rename", similarity: 80 });
+    expect(results[0]).toMatchObject({ path: "/src/b.ts", status: "renamed", from: "/src/a.ts" });
+    expect(out.map(f => f.path)).toEqual(["/run.sh", "/src/b.ts"]);
+    expect(out.find(f => f.path === "/src/b.ts")!.content).toBe("one\nTWO\nthree\n");
+    expect(parseUnifiedDiff(serializePatch(patches))).toEqual(patches);
+  });
+
+  it("deletes, copies and changes mode", () => {
+    const { patches, files: out, results } = apply([
+      "diff --git a/src/a.ts b/src/a.ts",
+      "deleted file mode 100644",
+      "--- a/src/a.ts",
+      "+++ /dev/null",
+      "@@ -1,3 +0,0 @@",
+      "-one",
+      "-two",
+      "-three",
+      "diff --git a/run.sh b/bin/run.sh",
+      "similarity index 100%",
+      "copy from run.sh",
+      "copy to bin/run.sh",
+      "diff --git a/run.sh b/run.sh",
+      "old mode 100644",
+      "new mode 100755",
+    ].join("\n"));
+    expect(patches.map(p => p.operation)).toEqual(["delete", "copy", "modify"]);
+    expect(results.map(r => r.status)).toEqual(["deleted", "copied", "applied"]);
+    expect(out).toEqual([
+      { path: "/run.sh", content: "echo hi\n", mode: "100755" },
+      { path: "/bin/run.sh", content: "echo hi\n" },
+    ]);
+    expect(parseUnifiedDiff(serializePatch(patches))).toEqual(patches);
+  });
+
+  it("inverts a rename", () => {
+    const [patch] = parseUnifiedDiff("diff --git a/src/a.ts b/src/b.ts\nsimilarity index 100%\nrename from src/a.ts\nrename to src/b.ts\n");
+    expect(invertPatch(patch)).toMatchObject({ operation: "rename", oldFile: "src/b.ts", newFile: "src/a.ts" });
+  });
+
+  it("refuses binary content changes", () => {
+    const { ok, results } = apply("diff --git a/run.sh b/run.sh\nindex 1234567..89abcde 100644\nBinary files a/run.sh and b/run.sh differ\n");
+    expect(ok).toBe(false);
+    expect(results[0].error).toMatch(/Binary/);
+  });
+});
+
+describe("revert", () => {
+  const lines = (n: number, edit: Record<number, string> = {}) =>
+    Array.from({ length: n }, (_, i) => edit[i + 1] ?? `line ${i + 1}`).join("\n") + "\n";
+
+  const applyAndRecord = (before: string, after: string) => {
+    const files = [{ path: "/a.txt", content: before }];
+    const patches = [{ oldFile: "a.txt", newFile: "a.txt", operation: "modify" as const, hunks: diffHunks(before, after) }];
+    const applied = applyPatchesToFiles(files, patches);
+    return { inverse: invertPatches(patches), states: recordAppliedFiles(files, applied) };
+  };
+
+  it("diffHunks output applies and round-trips", () => {
+    const before = lines(40);
+    const after = lines(40, { 3: "changed", 30: "also changed" });
+    const hunks = diffHunks(before, after);
+    expect(hunks).toHaveLength(2);
+    expect(applyHunks(before, hunks).content).toBe(after);
+  });
+
+  it("merges non-overlapping edits and flags overlapping ones", () => {
+    expect(merge3(lines(5), lines(5, { 1: "ours" }), lines(5, { 5: "theirs" }))).toMatchObject({
+      content: lines(5, { 1: "ours", 5: "theirs" }),
+      ok: true,
+    });
+    expect(merge3(lines(5), lines(5, { 2: "ours" }), lines(5, { 2: "theirs" })).conflicts).toBe(1);
+  });
+
+  it("reverts with the plain inverse when nothing changed since", () => {
+    const { inverse, states } = applyAndRecord(lines(10), lines(10, { 5: "patched" }));
+    const plan = planRevert([{ path: "/a.txt", content: lines(10, { 5: "patched" }) }], inverse, states);
+    expect(plan.ok).toBe(true);
+    expect(plan.patches).toEqual(inverse);
+  });
+
+  it("three-way merges around later edits inside the same hunk", () => {
+    const { inverse, states } = applyAndRecord(lines(12), lines(12, { 5: "patched", 9: "patched" }));
+    // Line 7 sits inside the inverse hunk, so fuzz can't skip it
+    const current = lines(12, { 5: "patched", 7: "edited later", 9: "patched" });
+    expect(applyPatchesToFiles([{ path: "/a.txt", content: current }], inverse).ok).toBe(false);
+    const plan = planRevert([{ path: "/a.txt", content: current }], inverse, states);
+    expect(plan.ok).toBe(true);
+    const reverted = applyPatchesToFiles([{ path: "/a.txt", content: current }], plan.patches);
+    expect(reverted.files[0].content).toBe(lines(12, { 7: "edited later" }));
+  });
+
+  it("refuses to revert a line that was edited again", () => {
+    const { inverse, states } = applyAndRecord(lines(10), lines(10, { 5: "patched" }));
+    const plan = planRevert([{ path: "/a.txt", content: lines(10, { 5: "patched twice" }) }], inverse, states);
+    expect(plan.ok).toBe(false);
+    expect(plan.conflicts[0]).toMatch(/^\/a\.txt: /);
+  });
+});
+
+describe("structured edits", () => {
+  const files = [
+    { path: "/src/a.ts", content: "const a = 1;\nconst b = 1;\n" },
+    { path: "/run.sh", content: "echo hi\n", mode: "100755" },
+  ];
+
+  // Serialize and re-parse, as the IDE does when queueing the PatchPreview
+  const build = (edit: StructuredEdit) => {
+    const built = buildStructuredEdit(files, edit);
+    if (built.ok === false) throw new Error(built.error);
+    return applyPatchesToFiles(files, parseUnifiedDiff(serializePatch([built.patch])));
+  };
+
+  it("requires old_string to be unique unless replace_all is set", () => {
+    const edit = { tool: "edit_file" as const, input: { path: "/src/a.ts", old_string: "= 1", new_string: "= 2" } };
+    expect(buildStructuredEdit(files, edit)).toMatchObject({ ok: false, error: expect.stringMatching(/matches 2 times/) });
+    expect(build({ ...edit, input: { ...edit.input, replace_all: true } }).files[0].content).toBe("const a = 2;\nconst b = 2;\n");
+    expect(build({ tool: "edit_file", input: { path: "src/a.ts", old_string: "b = 1", new_string: "b = $&" } }).files[0].content)
+      .toBe("const a = 1;\nconst b = $&;\n");
+  });
+
+  it("creates, deletes and moves through git patches", () => {
+    expect(buildStructuredEdit(files, { tool: "create_file", input: { path: "/run.sh", content: "" } }).ok).toBe(false);
+    expect(build({ tool: "create_file", input: { path: "/docs/new.md", content: "# New\n" } }).files)
+      .toContainEqual({ path: "/docs/new.md", content: "# New\n", mode: "100644" });
+    expect(build({ tool: "delete_file", input: { path: "/run.sh" } }).files.map(f => f.path)).toEqual(["/src/a.ts"]);
+    const moved = build({ tool: "move_file", input: { from: "/run.sh", to: "/bin/run.sh" } });
+    expect(moved.results[0]).toMatchObject({ status: "renamed", from: "/run.sh" });
+    expect(moved.files).toContainEqual({ path: "/bin/run.sh", content: "echo hi\n", mode: "100755" });
+  });
+
+  it("denies edits outside the project or inside .git", () => {
+    const call = (input: StructuredEdit["input"], tool: StructuredEdit["tool"] = "edit_file") =>
+      ({ id: "t", tool, input, status: "pending" as const, timestamp: new Date() });
+    expect(evaluatePermission(call({ path: "/src/a.ts", old_string: "a", new_string: "b" }))).toBe("ask");
+    expect(evaluatePermission(call({ path: "/.git/config", old_string: "a", new_string: "b" }))).toBe("deny");
+    expect(evaluatePermission(call({ from: "/src/a.ts", to: "../a.ts" }, "move_file"))).toBe("deny");
+    expect(evaluatePermission(call({ path: "/x/../.git/hooks/pre-commit", content: "" }, "create_file"))).toBe("deny");
+    expect(evaluatePermission(call({ path: "/./.git/config", old_string: "a", new_string: "b" }))).toBe("deny");
+  });
+});
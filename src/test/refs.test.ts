@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { checkRefWrite, findRefRule, validateRefName, validateRefPattern, DEFAULT_REF_RULE } from "../../supabase/functions/_shared/refs";
+
+const rules = [
+  { pattern: "main", minRole: "editor" as const, protected: true, requirePassingBuild: true },
+  { pattern: "release/*", minRole: "owner" as const, protected: false, requirePassingBuild: false },
+  { pattern: "release/hotfix/*", minRole: "editor" as const, protected: false, requirePassingBuild: false },
+];
+
+describe("ref rules", () => {
+  it("picks the exact rule, then the longest matching prefix", () => {
+    expect(findRefRule(rules, "main").pattern).toBe("main");
+    expect(findRefRule(rules, "release/1.4").pattern).toBe("release/*");
+    expect(findRefRule(rules, "release/hotfix/x").pattern).toBe("release/hotfix/*");
+    expect(findRefRule(rules, "releases")).toBe(DEFAULT_REF_RULE);
+  });
+
+  it("enforces roles, merge-only refs and build requirements", () => {
+    expect(checkRefWrite(rules, "agent/1", null, "update")).toMatchObject({ ok: false, code: "not_member" });
+    expect(checkRefWrite(rules, "agent/1", "viewer", "update")).toMatchObject({ ok: false, code: "forbidden" });
+    expect(checkRefWrite(rules, "agent/1", "editor", "update")).toEqual({ ok: true });
+    expect(checkRefWrite(rules, "release/1.4", "editor", "update")).toMatchObject({
+      ok: false, code: "forbidden", message: "Only the project owner can update release/1.4",
+    });
+    expect(checkRefWrite(rules, "release/1.4", "owner", "update")).toEqual({ ok: true });
+
+    expect(checkRefWrite(rules, "main", "owner", "update")).toMatchObject({ ok: false, code: "protected" });
+    expect(checkRefWrite(rules, "main", "editor", "merge")).toMatchObject({ ok: false, code: "build_required" });
+    expect(checkRefWrite(rules, "main", "editor", "merge", true)).toEqual({ ok: true });
+  });
+
+  it("validates tag names and rule patterns", () => {
+    for (const name of ["release-1.4", "v2.0.1", "agent/run_7"]) expect(validateRefName(name)).toBeNull();
+    for (const name of ["", "../main", ".hidden", "a//b", "-x", "tag.", "has space", "x".repeat(101)]) {
+      expect(validateRefName(name)).not.toBeNull();
+    }
+    expect(validateRefPattern("release/*")).toBeNull();
+    expect(validateRefPattern("*")).not.toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { createGlobMatcher, expandBraces, listFiles, grepFiles } from "../../supabase/functions/_shared/search";
+import { executeToolLocally } from "@/lib/tool-executor";
+import type { IDEFile } from "@/types/ide";
+import type { ToolCall, ToolName, ToolInput } from "@/types/tools";
+
+const paths = [
+  "/src/index.ts",
+  "/src/lib/util.ts",
+  "/src/lib/util.test.ts",
+  "/src/App.tsx",
+  "/src/.hidden.ts",
+  "/README.md",
+  "/docs/guide.md",
+];
+
+describe("glob", () => {
+  it("expands braces and ranges", () => {
+    expect(expandBraces("src/{a,b{1..3}}.ts")).toEqual(["src/a.ts", "src/b1.ts", "src/b2.ts", "src/b3.ts"]);
+    expect(expandBraces("{single}.ts")).toEqual(["{single}.ts"]);
+  });
+
+  it("matches ** across directories and * within one", () => {
+    expect(listFiles(paths, "src/**/*.ts")).toEqual(["/src/index.ts", "/src/lib/util.test.ts", "/src/lib/util.ts"]);
+    expect(listFiles(paths, "src/*.ts")).toEqual(["/src/index.ts"]);
+    expect(listFiles(paths, "src/")).toEqual(["/src/App.tsx", "/src/index.ts", "/src/lib/util.test.ts", "/src/lib/util.ts"]);
+  });
+
+  it("matches slash-less patterns against the file name at any depth", () => {
+    expect(listFiles(paths, "*.md")).toEqual(["/README.md", "/docs/guide.md"]);
+    expect(listFiles(paths, "*.{ts,tsx}")).toHaveLength(4);
+  });
+
+  it("supports negation and leaves dotfiles out of wildcards", () => {
+    expect(listFiles(paths, ["**/*.ts", "!**/*.test.ts"])).toEqual(["/src/index.ts", "/src/lib/util.ts"]);
+    expect(createGlobMatcher(".*.ts")("/src/.hidden.ts")).toBe(true);
+    expect(createGlobMatcher("[!A-Z]*.tsx")("/src/App.tsx")).toBe(false);
+  });
+});
+
+describe("grep", () => {
+  const files = [
+    { path: "/a.ts", content: "one\nTwo\nthree\nfour two\nfive\n" },
+    { path: "/b.md", content: "two\n" },
+  ];
+
+  it("uses smart case, honours paths_glob and emits rg --json messages", () => {
+    const messages = grepFiles(files, { pattern: "two", paths_glob: "*.ts" });
+    expect(messages.map(m => m.type)).toEqual(["begin", "match", "match", "end", "summary"]);
+    expect(messages[2]).toEqual({
+      type: "match",
+      data: {
+        path: { text: "/a.ts" },
+        lines: { text: "four two\n" },
+        line_number: 4,
+        absolute_offset: 14,
+        submatches: [{ match: { text: "two" }, start: 5, end: 8 }],
+      },
+    });
+    expect(grepFiles(files, { pattern: "Two" }).filter(m => m.type === "match")).toHaveLength(1);
+    expect(grepFiles(files, { pattern: "two", case_sensitive: true, paths_glob: "*.ts" })
+      .filter(m => m.type === "match")).toHaveLength(1);
+  });
+
+  it("finds every matching line (no lastIndex skips) with context and max_count", () => {
+    const repeated = [{ path: "/x.txt", content: "a\na\nb\na\n" }];
+    expect(grepFiles(repeated, { pattern: "a" }).filter(m => m.type === "match")).toHaveLength(3);
+
+    const limited = grepFiles(files, { pattern: "two", paths_glob: "*.ts", max_count: 1, after_context: 1 });
+    expect(limited.flatMap(m => m.type === "match" || m.type === "context" ? [`${m.type}:${m.data.line_number}`] : []))
+      .toEqual(["match:2", "context:3"]);
+  });
+
+  it("treats fixed strings literally", () => {
+    const literal = [{ path: "/r.txt", content: "a.b\naxb\n" }];
+    expect(grepFiles(literal, { pattern: "a.b", fixed_strings: true }).filter(m => m.type === "match")).toHaveLength(1);
+  });
+});
+
+describe("executeToolLocally", () => {
+  const ideFiles: IDEFile[] = paths.map((path, i) => ({
+    id: `f${i}`, name: path.split("/").pop()!, path, content: `// ${path}\n`,
+    language: "typescript", parentId: null, isFolder: false,
+  }));
+  const call = <T extends ToolName>(tool: T, input: ToolInput[T]): ToolCall =>
+    ({ id: "t", tool, input, status: "approved", timestamp: new Date() });
+
+  it("runs list_files and grep through the shared engine", () => {
+    expect(executeToolLocally(call("list_files", { glob: "docs/**" }), ideFiles).files).toEqual(["/docs/guide.md"]);
+    const grep = executeToolLocally(call("grep", { pattern: "util", paths_glob: "!**/*.test.ts" }), ideFiles);
+    expect(grep.matches?.filter(m => m.type === "match")).toHaveLength(1);
+  });
+
+  it("reports invalid regexes as tool errors", () => {
+    expect(executeToolLocally(call("grep", { pattern: "(" }), ideFiles)).toMatchObject({ ok: false });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseClientMessage, createScrollback } from "../../supabase/functions/_shared/pty";
+import { createTerminalScreen } from "@/lib/terminal-screen";
+import { TerminalConnection } from "@/lib/runner-client";
+import type { TerminalStatus } from "@/lib/runner-client";
+
+/** Stand-in for the runner end of a PTY WebSocket. */
+class FakeSocket {
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  constructor(readonly url: string) {}
+  send(data: string) { this.sent.push(JSON.parse(data)); }
+  close() { this.readyState = 3; }
+  open() { this.readyState = 1; this.onopen?.(); }
+  receive(message: object) { this.onmessage?.({ data: JSON.stringify(message) }); }
+  drop(code = 1006) { this.readyState = 3; this.onclose?.({ code }); }
+}
+
+describe("pty protocol", () => {
+  it("accepts well-formed client messages only", () => {
+    expect(parseClientMessage('{"type":"stdin","data":"ls\\r"}')).toEqual({ type: "stdin", data: "ls\r" });
+    expect(parseClientMessage('{"type":"resize","cols":9999,"rows":30.7}')).toEqual({ type: "resize", cols: 500, rows: 30 });
+    expect(parseClientMessage('{"type":"signal","signal":"SIGINT"}')).toEqual({ type: "signal", signal: "SIGINT" });
+    for (const raw of ['{"type":"signal","signal":"SIGSTOP"}', '{"type":"resize","cols":0,"rows":5}', '{"type":"exec"}', "not json", "null"]) {
+      expect(parseClientMessage(raw)).toBeNull();
+    }
+  });
+
+  it("replays scrollback from an offset and flags dropped output", () => {
+    const scrollback = createScrollback(10);
+    scrollback.append("hello ");
+    expect(scrollback.append("world")).toBe(11);
+    expect(scrollback.since(6)).toEqual({ data: "world", offset: 11, truncated: false });
+    expect(scrollback.since(11)).toEqual({ data: "", offset: 11, truncated: false });
+    expect(scrollback.since(0)).toEqual({ data: "ello world", offset: 11, truncated: true });
+  });
+});
+
+describe("terminal screen", () => {
+  it("applies carriage returns, erase-line and clear, and drops colours", () => {
+    const screen = createTerminalScreen();
+    screen.write("\x1b]0;title\x07\x1b[32muser@box\x1b[0m$ ls\r\na.txt\tb.txt\r\n");
+    screen.write("50%\r80%\r\x1b[K100%\r\nab\bc\x1b");
+    screen.write("[1mD\x1b[0m");
+    expect(screen.lines).toEqual(["user@box$ ls", "a.txt   b.txt", "100%", "acD"]);
+    screen.write("\x1b[H\x1b[2Jfresh");
+    expect(screen.lines).toEqual(["fresh"]);
+  });
+});
+
+describe("TerminalConnection", () => {
+  const ticket = { sessionId: "s", ptyId: "pty-1", url: "wss://runner.test/v1/pty/pty-1?token=t" };
+
+  it("resumes from the last offset after a dropped connection", async () => {
+    vi.useFakeTimers();
+    const sockets: FakeSocket[] = [];
+    const output: string[] = [];
+    const statuses: TerminalStatus[] = [];
+    const connection = new TerminalConnection(
+      ticket,
+      { onOutput: d => output.push(d), onStatus: s => statuses.push(s) },
+      url => { const s = new FakeSocket(url); sockets.push(s); return s as unknown as WebSocket; },
+    );
+
+    const connected = connection.connect();
+    sockets[0].open();
+    await connected;
+    connection.resize(120, 40);
+    sockets[0].receive({ type: "replay", data: "$ ", offset: 2, truncated: false });
+    sockets[0].receive({ type: "output", data: "ls\r\n", offset: 6 });
+    connection.signal("SIGINT");
+    expect(sockets[0].sent).toEqual([{ type: "resize", cols: 120, rows: 40 }, { type: "signal", signal: "SIGINT" }]);
+
+    sockets[0].drop();
+    expect(connection.status).toBe("reconnecting");
+    await vi.advanceTimersByTimeAsync(500);
+    expect(new URL(sockets[1].url).searchParams.get("offset")).toBe("6");
+    sockets[1].open();
+    expect(sockets[1].sent).toEqual([{ type: "resize", cols: 120, rows: 40 }]);
+    sockets[1].receive({ type: "replay", data: "a.txt\r\n", offset: 13, truncated: false });
+    sockets[1].receive({ type: "exit", exitCode: 0, signal: null, changedFiles: [] });
+    sockets[1].drop(1000);
+
+    expect(output.join("")).toBe("$ ls\r\na.txt\r\n");
+    expect(statuses).toEqual(["open", "reconnecting", "open", "exited"]);
+    expect(sockets).toHaveLength(2);
+    vi.useRealTimers();
+  });
+
+  it("rejects when the runner refuses the first connection", async () => {
+    let socket: FakeSocket | undefined;
+    const connection = new TerminalConnection(ticket, { onOutput: () => {} }, url => (socket = new FakeSocket(url)) as unknown as WebSocket);
+    const connected = connection.connect();
+    socket?.drop();
+    await expect(connected).rejects.toThrow(/no longer available/);
+    expect(connection.status).toBe("closed");
+  });
+});
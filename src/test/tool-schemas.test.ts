@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { readdirSync, readFileSync } from "fs";
+import { resolve } from "path";
+import {
+  TOOL_INPUT_SCHEMAS, ToolInputError, validateSchema, assertToolInput, checkToolInput, toolInputSchema,
+  describeToolInput, isToolInputErrorBody, type JsonSchema,
+} from "../../supabase/functions/_shared/tool-schemas";
+import { BUILTIN_MCP_SERVERS } from "../types/mcp-servers";
+
+const codes = (schema: JsonSchema, value: unknown) => validateSchema(schema, value).map((i) => `${i.path}:${i.code}`);
+
+describe("validateSchema", () => {
+  const schema: JsonSchema = {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1, maxLength: 8 },
+      count: { type: "integer", minimum: 1, maximum: 10 },
+      state: { type: "string", enum: ["open", "closed"] },
+      tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+      owner: { type: "object", properties: { address: { type: "string", format: "evm-address" } }, required: ["address"] },
+    },
+    required: ["name"],
+    additionalProperties: false,
+  };
+
+  it("accepts a valid value", () => {
+    expect(validateSchema(schema, { name: "a", count: 3, state: "open", tags: ["x"] })).toEqual([]);
+  });
+
+  it("reports every failing keyword with its path", () => {
+    expect(codes(schema, { count: 0, state: "all", tags: ["x", 2, "z"], extra: true })).toEqual([
+      "name:required", "count:minimum", "state:enum", "tags:max_items", "tags.1:type", "extra:additional_property",
+    ]);
+    expect(codes(schema, { name: "", count: 1.5 })).toEqual(["name:min_length", "count:type"]);
+    expect(codes(schema, { name: "a", owner: { address: "0x12" } })).toEqual(["owner.address:format"]);
+    expect(codes(schema, { name: "a", owner: {} })).toEqual(["owner.address:required"]);
+  });
+
+  it("says what was expected", () => {
+    const [typeIssue] = validateSchema(schema, []);
+    expect(typeIssue.message).toBe("input must be object, not array");
+    const [extra] = validateSchema(schema, { name: "a", nmae: "b" });
+    expect(extra.message).toBe("nmae isn't a known field (expected name, count, state, tags, owner)");
+    const [state] = validateSchema(schema, { name: "a", state: "all" });
+    expect(state.message).toBe('state must be one of "open", "closed"');
+  });
+
+  it("checks anyOf, naming the fields an input needs", () => {
+    const either: JsonSchema = { type: "object", properties: { id: { type: "string" }, symbol: { type: "string" } }, anyOf: [{ required: ["id"] }, { required: ["symbol"] }] };
+    expect(validateSchema(either, { symbol: "BTC" })).toEqual([]);
+    expect(validateSchema(either, {})).toEqual([{ path: "", code: "any_of", message: "input needs id or symbol" }]);
+    expect(codes(TOOL_INPUT_SCHEMAS.do_get_droplet, { droplet_id: "123" })).toEqual([]);
+    expect(validateSchema(TOOL_INPUT_SCHEMAS.do_get_droplet, { droplet_id: "abc" })[0].message).toBe("droplet_id isn't valid (expected: Droplet id)");
+  });
+
+  it("checks formats", () => {
+    const format = (name: string, value: string) => validateSchema({ type: "string", format: name }, value).length === 0;
+    expect(format("evm-address", "0x" + "a".repeat(40))).toBe(true);
+    expect(format("evm-address", "0x" + "a".repeat(39))).toBe(false);
+    expect(format("solana-address", "So11111111111111111111111111111111111111112")).toBe(true);
+    expect(format("solana-address", "0OIl" + "1".repeat(40))).toBe(false);
+    expect(format("email", "dev@example.com")).toBe(true);
+    expect(format("date-time", "2026-10-19T09:30:00Z")).toBe(true);
+    expect(format("date", "19/10/2026")).toBe(false);
+    // Formats the validator doesn't know are accepted
+    expect(format("hostname", "anything")).toBe(true);
+  });
+});
+
+describe("tool input errors", () => {
+  it("throws a ToolInputError that serializes to the typed body", () => {
+    let caught: unknown;
+    try {
+      assertToolInput("github_list_issues", TOOL_INPUT_SCHEMAS.github_list_issues, { owner: "acme" });
+    } catch (err) {
+      caught = err;
+    }
+    expect(caught).toBeInstanceOf(ToolInputError);
+    const body = JSON.parse(JSON.stringify(caught));
+    expect(body).toEqual({
+      ok: false,
+      code: "invalid_input",
+      error: "Invalid input for github_list_issues: repo is required",
+      tool: "github_list_issues",
+      issues: [{ path: "repo", code: "required", message: "repo is required" }],
+    });
+    expect(isToolInputErrorBody(body)).toBe(true);
+    expect(isToolInputErrorBody({ ok: false, error: "Bad credentials" })).toBe(false);
+  });
+
+  it("checks built-in tools and lets unknown tools through", () => {
+    expect(checkToolInput("github_list_repos", undefined)).toBeNull();
+    expect(checkToolInput("github_list_repos", { per_page: 500 })?.issues).toEqual([
+      { path: "per_page", code: "maximum", message: "per_page must be at most 100" },
+    ]);
+    expect(checkToolInput("evm_get_balance", { address: "vitalik.eth" })?.issues.map((i) => i.code)).toEqual(["format"]);
+    expect(checkToolInput("my_server_tool", { anything: 1 })).toBeNull();
+    expect(toolInputSchema("toString")).toBeUndefined();
+  });
+});
+
+describe("describeToolInput", () => {
+  it("summarizes a schema in one line", () => {
+    expect(describeToolInput(TOOL_INPUT_SCHEMAS.github_list_issues)).toBe('owner*: string, repo*: string, state: "open"|"closed"|"all"');
+    expect(describeToolInput(TOOL_INPUT_SCHEMAS.cmc_info)).toBe("id: string, symbol: string (needs id or symbol)");
+    expect(describeToolInput(TOOL_INPUT_SCHEMAS.evm_get_balance)).toMatch(/^address\*: evm-address, block: /);
+    expect(describeToolInput({ type: "object", properties: {} })).toBe("no input");
+  });
+});
+
+describe("built-in tool catalogue", () => {
+  it("gives every built-in tool an object input schema", () => {
+    for (const server of BUILTIN_MCP_SERVERS) {
+      for (const tool of server.tools) {
+        expect(tool.inputSchema, tool.name).toBeDefined();
+        expect(tool.inputSchema.type, tool.name).toBe("object");
+        expect(validateSchema(tool.inputSchema, {}).every((i) => i.code === "required" || i.code === "any_of"), tool.name).toBe(true);
+      }
+    }
+  });
+
+  it("has a schema for every tool a server function implements", () => {
+    const functions = resolve(__dirname, "../../supabase/functions");
+    // The vault and web3 gateway switch on actions and server ids, not tool names
+    const routers = new Set(["mcp-vault", "mcp-web3-gateway"]);
+    for (const dir of readdirSync(functions).filter((d) => d.startsWith("mcp-") && !routers.has(d))) {
+      const source = readFileSync(resolve(functions, dir, "index.ts"), "utf8");
+      for (const [, tool] of source.matchAll(/case ["']([^"']+)["']:/g)) {
+        expect(toolInputSchema(tool), `${dir}: ${tool}`).toBeDefined();
+      }
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { webcrypto } from "crypto";
+import {
+  MCP_CREDENTIAL_SPECS, isVaultServer, credentialSources, normalizeCredentialFields, validateCredentialFields,
+  validateCredentialRoles, canUseCredential, parseVaultKeyring, vaultKey, credentialAad, connectionSecretsAad, VaultKeyError,
+  MAX_CREDENTIAL_VALUE,
+} from "../../supabase/functions/_shared/vault";
+import { sealSecret, openSecret } from "../../api/_lib/vault";
+
+const SECRET_A = "a".repeat(32);
+const SECRET_B = "b".repeat(40);
+
+describe("credential fields", () => {
+  it("names the body fields each server's function reads", () => {
+    expect(MCP_CREDENTIAL_SPECS["mcp-github"].fields.map((f) => f.name)).toEqual(["github_token"]);
+    expect(MCP_CREDENTIAL_SPECS["mcp-aws"].fields.map((f) => f.name))
+      .toEqual(["aws_access_key_id", "aws_secret_access_key", "aws_region"]);
+  });
+
+  it("routes built-in servers, keyless ones included, through the vault", () => {
+    expect(isVaultServer("mcp-slack")).toBe(true);
+    expect(isVaultServer("mcp-coingecko")).toBe(true);
+    expect(isVaultServer("mcp-openclaw")).toBe(false);
+    expect(isVaultServer("started-mcp")).toBe(false);
+  });
+
+  it("takes gateway credentials from the server each tool routes to", () => {
+    expect(credentialSources("mcp-github", "github_list_repos")).toEqual(["mcp-github"]);
+    expect(credentialSources("mcp-coingecko", "coingecko_price")).toEqual([]);
+    expect(credentialSources("mcp-web3-gateway", "contract_get_abi")).toEqual(["mcp-contract-intel"]);
+    expect(credentialSources("mcp-web3-gateway", "sim_eth_call")).toEqual(["mcp-tx-simulator", "mcp-evm-rpc"]);
+    expect(credentialSources("mcp-web3-gateway", "wallet_sign_message")).toEqual([]);
+  });
+
+  it("trims values, drops unknown and empty ones and applies fallbacks", () => {
+    expect(normalizeCredentialFields("mcp-aws", {
+      aws_access_key_id: " AKIA ", aws_secret_access_key: "secret", aws_region: "", extra: "x",
+    })).toEqual({ aws_access_key_id: "AKIA", aws_secret_access_key: "secret", aws_region: "us-east-1" });
+    expect(normalizeCredentialFields("mcp-docker", { docker_host: "http://localhost:2375", docker_api_key: " " }))
+      .toEqual({ docker_host: "http://localhost:2375" });
+  });
+
+  it("rejects unknown servers and fields, missing required ones and oversized values", () => {
+    expect(validateCredentialFields("mcp-github", { github_token: "ghp_x" })).toBeNull();
+    expect(validateCredentialFields("mcp-coingecko", {})).toMatch(/doesn't take credentials/);
+    expect(validateCredentialFields("mcp-github", null)).toMatch(/Missing/);
+    expect(validateCredentialFields("mcp-github", { github_token: "x", token: "y" })).toMatch(/Unknown field/);
+    expect(validateCredentialFields("mcp-github", { github_token: 1 })).toMatch(/must be a string/);
+    expect(validateCredentialFields("mcp-jira", { jira_api_token: "t", jira_email: "a@b.c" })).toMatch(/Jira Domain is required/);
+    expect(validateCredentialFields("mcp-github", { github_token: "x".repeat(MAX_CREDENTIAL_VALUE + 1) })).toMatch(/longer than/);
+  });
+
+  it("needs at least one value when every field is optional", () => {
+    expect(validateCredentialFields("mcp-solana", { rpc_url: "  " })).toMatch(/at least one value/);
+    expect(validateCredentialFields("mcp-solana", { rpc_url: "https://rpc.test" })).toBeNull();
+  });
+});
+
+describe("credential access", () => {
+  it("keeps the owner in every role list", () => {
+    expect(validateCredentialRoles(["owner", "editor"])).toBeNull();
+    expect(validateCredentialRoles(["editor"])).toMatch(/owner must keep access/);
+    expect(validateCredentialRoles(["owner", "admin"])).toMatch(/Unknown role: admin/);
+    expect(validateCredentialRoles("owner")).toMatch(/must be a list/);
+  });
+
+  it("lets members use a credential only when their role is allowed", () => {
+    expect(canUseCredential("editor", ["owner", "editor"])).toBe(true);
+    expect(canUseCredential("viewer", ["owner", "editor"])).toBe(false);
+    expect(canUseCredential(null, ["owner", "editor", "viewer"])).toBe(false);
+  });
+});
+
+describe("vault keys", () => {
+  it("treats the highest version as current", () => {
+    const ring = parseVaultKeyring(`1:${SECRET_A}, 2:${SECRET_B}`);
+    expect(ring.current).toBe(2);
+    expect(vaultKey(ring, 1)).toBe(SECRET_A);
+    expect(vaultKey(ring, 2)).toBe(SECRET_B);
+  });
+
+  it("keeps colons inside a secret", () => {
+    expect(vaultKey(parseVaultKeyring(`3:${SECRET_A}:tail`), 3)).toBe(`${SECRET_A}:tail`);
+  });
+
+  it("rejects missing, malformed, short and repeated keys", () => {
+    expect(() => parseVaultKeyring(undefined)).toThrow(VaultKeyError);
+    expect(() => parseVaultKeyring(" , ")).toThrow(/No vault keys/);
+    expect(() => parseVaultKeyring(SECRET_A)).toThrow(/Bad vault key version/);
+    expect(() => parseVaultKeyring(`0:${SECRET_A}`)).toThrow(/Bad vault key version/);
+    expect(() => parseVaultKeyring("1:short")).toThrow(/shorter than 32/);
+    expect(() => parseVaultKeyring(`1:${SECRET_A},1:${SECRET_B}`)).toThrow(/listed twice/);
+  });
+
+  it("refuses a version that was dropped from the ring", () => {
+    expect(() => vaultKey(parseVaultKeyring(`2:${SECRET_B}`), 1)).toThrow(/no longer configured/);
+  });
+
+  it("binds sealed values to their project and server", () => {
+    expect(credentialAad("p1", "mcp-github")).toBe("started-vault:v1:p1:mcp-github");
+    expect(credentialAad("p1", "mcp-github")).not.toBe(credentialAad("p2", "mcp-github"));
+  });
+});
+
+describe("connection secrets", () => {
+  const ring = parseVaultKeyring(`1:${SECRET_A},2:${SECRET_B}`);
+  const secrets = { headers: { Authorization: "Bearer sk-test" }, env: { API_KEY: "k" } };
+  const aad = connectionSecretsAad("p1", "c1");
+
+  it("seals under the current key and opens only for the same connection", () => {
+    const sealed = sealSecret(ring, aad, secrets);
+    expect(sealed.key_version).toBe(2);
+    expect(sealed.ciphertext).not.toContain("sk-test");
+    expect(openSecret(ring, aad, sealed)).toEqual(secrets);
+    expect(() => openSecret(ring, connectionSecretsAad("p1", "c2"), sealed)).toThrow();
+    expect(() => openSecret(parseVaultKeyring(`2:${"c".repeat(32)}`), aad, sealed)).toThrow();
+  });
+
+  it("uses the format the mcp-vault function opens with WebCrypto", async () => {
+    const sealed = sealSecret(ring, aad, secrets);
+    const additionalData = new TextEncoder().encode(aad);
+    const decrypt = async (key: Uint8Array, text: string) => {
+      const bytes = Buffer.from(text, "base64");
+      const cryptoKey = await webcrypto.subtle.importKey("raw", key, "AES-GCM", false, ["decrypt"]);
+      return new Uint8Array(await webcrypto.subtle.decrypt({ name: "AES-GCM", iv: bytes.subarray(0, 12), additionalData }, cryptoKey, bytes.subarray(12)));
+    };
+    const kek = new Uint8Array(await webcrypto.subtle.digest("SHA-256", new TextEncoder().encode(SECRET_B)));
+    const dataKey = await decrypt(kek, sealed.wrapped_key);
+    expect(JSON.parse(new TextDecoder().decode(await decrypt(dataKey, sealed.ciphertext)))).toEqual(secrets);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import {
+  htmlToMarkdown, domainDecision, fetchReadable, createFixtureSearchProvider, formatSearchResults, createTtlCache,
+} from "../../supabase/functions/_shared/web";
+import { evaluatePermission, webResultChip } from "@/lib/tool-executor";
+import { DEFAULT_PERMISSION_POLICY } from "@/types/tools";
+import type { ToolCall } from "@/types/tools";
+
+const policy = { allowedDomains: ["docs.example.com"], deniedDomains: ["evil.example.com"] };
+
+/** Fake fetch serving canned responses by URL. */
+function fakeFetch(routes: Record<string, { status?: number; body?: string; headers?: Record<string, string> }>) {
+  const requested: string[] = [];
+  const fn = (async (input: RequestInfo | URL) => {
+    const url = String(input);
+    requested.push(url);
+    const route = routes[url];
+    if (!route) return new Response("not found", { status: 404 });
+    return new Response(route.body ?? "", { status: route.status ?? 200, headers: route.headers ?? { "content-type": "text/html" } });
+  }) as typeof fetch;
+  return { fn, requested };
+}
+
+describe("htmlToMarkdown", () => {
+  it("keeps structure and drops page chrome", () => {
+    const { title, markdown } = htmlToMarkdown(`
+      <html><head><title>Guide &amp; Tips</title><script>alert(1)</script></head>
+      <body><nav>Menu</nav><main>
+        <h1>Install</h1>
+        <p>Run <code>npm i</code> then read <a href="/docs/api">the API</a>.</p>
+        <ul><li>One</li><li><strong>Two</strong></li></ul>
+        <pre><code class="language-ts">const a = 1;
+  const b = 2;</code></pre>
+      </main><footer>© 2026</footer></body></html>`, "https://docs.example.com/start");
+    expect(title).toBe("Guide & Tips");
+    expect(markdown).toBe([
+      "# Install",
+      "",
+      "Run `npm i` then read [the API](https://docs.example.com/docs/api).",
+      "",
+      "- One",
+      "- **Two**",
+      "",
+      "```ts\nconst a = 1;\n  const b = 2;\n```",
+    ].join("\n"));
+  });
+});
+
+describe("domain policy", () => {
+  it("denies private hosts and denied domains, allows listed ones", () => {
+    expect(domainDecision("https://docs.example.com/x", policy)).toBe("allow");
+    expect(domainDecision("https://api.docs.example.com/x", policy)).toBe("allow");
+    expect(domainDecision("https://a.evil.example.com/", policy)).toBe("deny");
+    expect(domainDecision("https://example.org/", policy)).toBe("ask");
+    for (const url of ["http://localhost:3000", "http://169.254.169.254/latest", "http://[::1]/", "http://10.1.2.3", "file:///etc/passwd"]) {
+      expect(domainDecision(url, policy)).toBe("deny");
+    }
+    // IPv4 inside IPv6 literals, which URL rewrites to hex groups, and the benchmark, multicast and reserved ranges
+    for (const url of [
+      "http://[::ffff:127.0.0.1]/", "http://[::ffff:169.254.169.254]/latest", "http://[0:0:0:0:0:ffff:a00:1]/",
+      "http://[::7f00:1]/", "http://[::127.0.0.1]/", "http://[64:ff9b::a9fe:a9fe]/", "http://[2002:a00:1::]/",
+      "http://[fe80::1%25eth0]/", "http://[ff02::1]/", "http://198.18.0.1/", "http://224.0.0.1/", "http://255.255.255.255/",
+    ]) {
+      expect(domainDecision(url, policy), url).toBe("deny");
+    }
+    for (const url of ["http://[::ffff:93.184.216.34]/", "http://[2606:4700::6810:84e5]/", "http://198.20.0.1/"]) {
+      expect(domainDecision(url, policy), url).toBe("ask");
+    }
+  });
+
+  it("is applied by evaluatePermission before allowedTools", () => {
+    const call = (url: string): ToolCall => ({ id: "t", tool: "web_fetch", input: { url }, status: "pending", timestamp: new Date() });
+    const merged = { ...DEFAULT_PERMISSION_POLICY, ...policy, allowedTools: [...DEFAULT_PERMISSION_POLICY.allowedTools, "web_fetch" as const] };
+    expect(evaluatePermission(call("https://example.org/"))).toBe("ask");
+    expect(evaluatePermission(call("https://docs.example.com/"), { ...DEFAULT_PERMISSION_POLICY, ...policy })).toBe("allow");
+    expect(evaluatePermission(call("http://localhost/"), merged)).toBe("deny");
+  });
+});
+
+describe("fetchReadable", () => {
+  it("follows redirects but re-checks each hop", async () => {
+    const { fn, requested } = fakeFetch({
+      "https://a.example.org/": { status: 302, headers: { location: "/b" } },
+      "https://a.example.org/b": { body: "<title>B</title><p>Hello</p>" },
+      "https://c.example.org/": { status: 301, headers: { location: "http://127.0.0.1/admin" } },
+    });
+    expect(await fetchReadable("https://a.example.org/", { fetch: fn })).toMatchObject({
+      url: "https://a.example.org/b", title: "B", markdown: "Hello", truncated: false,
+    });
+    await expect(fetchReadable("https://c.example.org/", { fetch: fn })).rejects.toThrow(/not allowed/);
+    expect(requested).not.toContain("http://127.0.0.1/admin");
+  });
+
+  it("refuses public names that resolve to private addresses, on every hop", async () => {
+    const addresses: Record<string, string[]> = {
+      "a.example.org": ["93.184.216.34"],
+      "rebind.example.org": ["93.184.216.35", "127.0.0.1"],
+      "metadata.example.org": ["169.254.169.254"],
+      "v6.example.org": ["::1"],
+    };
+    const resolveHost = async (host: string) => addresses[host] ?? [];
+    const { fn, requested } = fakeFetch({
+      "https://a.example.org/": { body: "<p>Public</p>" },
+      "https://a.example.org/hop": { status: 302, headers: { location: "https://metadata.example.org/latest" } },
+    });
+    expect(await fetchReadable("https://a.example.org/", { fetch: fn, resolveHost })).toMatchObject({ markdown: "Public" });
+    await expect(fetchReadable("https://rebind.example.org/", { fetch: fn, resolveHost })).rejects.toThrow(/private address/);
+    await expect(fetchReadable("https://v6.example.org/", { fetch: fn, resolveHost })).rejects.toThrow(/private address/);
+    await expect(fetchReadable("https://a.example.org/hop", { fetch: fn, resolveHost })).rejects.toThrow(/metadata\.example\.org resolves/);
+    expect(requested).not.toContain("https://rebind.example.org/");
+    expect(requested).not.toContain("https://metadata.example.org/latest");
+  });
+
+  it("caps the body and the markdown and refuses binary content", async () => {
+    const { fn } = fakeFetch({
+      "https://x.example.org/long": { body: "a".repeat(5000), headers: { "content-type": "text/plain" } },
+      "https://x.example.org/img": { body: "PNG", headers: { "content-type": "image/png" } },
+    });
+    const capped = await fetchReadable("https://x.example.org/long", { fetch: fn, maxBytes: 1000, maxChars: 100 });
+    expect(capped.truncated).toBe(true);
+    expect(capped.markdown).toBe(`${"a".repeat(100)}\n\n[…truncated]`);
+    await expect(fetchReadable("https://x.example.org/img", { fetch: fn })).rejects.toThrow(/content type/);
+  });
+});
+
+describe("web search", () => {
+  const provider = createFixtureSearchProvider({
+    "vite config": [
+      { title: "Configuring Vite", url: "https://vite.dev/config/", snippet: "Vite config reference" },
+      { title: "Vite plugins", url: "https://vite.dev/plugins/", snippet: "Official plugins" },
+    ],
+  });
+
+  it("serves fixtures by query, then by word match", async () => {
+    expect(await provider.search("  Vite   Config ", 1)).toHaveLength(1);
+    expect((await provider.search("official plugins", 5)).map(r => r.url)).toEqual(["https://vite.dev/plugins/"]);
+    expect(formatSearchResults("nothing", await provider.search("nothing", 5))).toBe('No results for "nothing".');
+  });
+
+  it("attaches results to chat as a web chip", async () => {
+    const content = formatSearchResults("vite config", await provider.search("vite config", 5));
+    const call: ToolCall = { id: "t", tool: "web_search", input: { query: "vite config" }, status: "completed", timestamp: new Date() };
+    expect(webResultChip(call, { ok: true, content })).toEqual({
+      type: "web",
+      label: "vite config",
+      content: `Web search: vite config\n\n1. [Configuring Vite](https://vite.dev/config/)\n   Vite config reference\n2. [Vite plugins](https://vite.dev/plugins/)\n   Official plugins`,
+    });
+    expect(webResultChip(call, { ok: false, error: "down" })).toBeNull();
+  });
+});
+
+describe("createTtlCache", () => {
+  it("expires entries and evicts the least recently used", () => {
+    let now = 0;
+    const cache = createTtlCache<number>(1000, 2, () => now);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe(1);
+    now = 1000;
+    expect(cache.get("c")).toBeUndefined();
+  });
+});
@@ -1,4 +1,9 @@
 import { ToolCall } from './tools';
+import type {
+  McpToolDefinition, McpResource, McpResourceTemplate, McpPrompt, McpImplementation, McpTransportKind, McpTokenScope,
+} from '../../supabase/functions/_shared/mcp';
+import type { CredentialRole } from '../../supabase/functions/_shared/vault';
+import type { JsonSchema } from '../../supabase/functions/_shared/tool-schemas';
 
 // ─── Agent Timeline ───
 
@@ -12,6 +17,8 @@ export interface AgentStep {
   status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
   toolCall?: ToolCall;
   filesChanged?: AgentFileChange[];
+  /** PatchPreview id for patch steps, so the step can be reverted */
+  patchId?: string;
   startedAt?: Date;
   completedAt?: Date;
   durationMs?: number;
@@ -20,7 +27,9 @@ export interface AgentStep {
 
 export interface AgentFileChange {
   path: string;
-  action: 'created' | 'modified';
+  action: 'created' | 'modified' | 'deleted' | 'renamed';
+  /** Previous path, for renames */
+  from?: string;
 }
 
 export interface AgentRun {
@@ -112,12 +121,121 @@ export interface MCPServer {
   requiresAuth: boolean;
   authConfigured: boolean;
   tools: MCPTool[];
+  /** Set for servers the project connected over MCP itself; their tools are called through the connection */
+  connectionId?: string;
 }
 
 export interface MCPTool {
   name: string;
   description: string;
-  inputSchema: Record<string, unknown>;
+  /** Built-in tools: their entry in TOOL_INPUT_SCHEMAS; connection tools: what the server advertised */
+  inputSchema: JsonSchema;
+}
+
+/** An external MCP server connected to a project, with what it offered at its last refresh */
+export interface MCPConnection {
+  id: string;
+  name: string;
+  transport: McpTransportKind;
+  command: string | null;
+  args: string[];
+  url: string | null;
+  status: 'pending' | 'connected' | 'error';
+  last_error: string | null;
+  server_info: McpImplementation | null;
+  protocol_version: string | null;
+  instructions: string | null;
+  tools: McpToolDefinition[];
+  resources: McpResource[];
+  resource_templates: McpResourceTemplate[];
+  prompts: McpPrompt[];
+  /** Names only; values never leave the API */
+  header_names: string[];
+  env_names: string[];
+  updated_at: string;
+}
+
+/** A token external agents use to reach the project through Started's own MCP endpoint */
+export interface MCPToken {
+  id: string;
+  name: string;
+  /** Enough of the token to recognise it; the rest is only shown when it's created */
+  token_prefix: string;
+  scopes: McpTokenScope[];
+  created_by: string;
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+/** A built-in server's stored credentials as members see them: which fields are set, not their values */
+export interface MCPCredential {
+  id: string;
+  server_id: string;
+  field_names: string[];
+  /** Pasted values, or tokens from an OAuth connection */
+  auth_type: 'token' | 'oauth';
+  /** OAuth only: granted scopes, the connected account and when the access token expires */
+  scopes: string[];
+  account_label: string | null;
+  expires_at: string | null;
+  /** Project roles whose tool calls may use them */
+  allowed_roles: CredentialRole[];
+  key_version: number;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+  rotated_at: string | null;
+  last_used_at: string | null;
+  last_used_by: string | null;
+}
+
+/** A built-in server that can be connected with OAuth instead of pasted credentials */
+export interface MCPOAuthProvider {
+  server_id: string;
+  name: string;
+  scopes: string[];
+}
+
+/** An enabled tool as the chat and agent prompts list it */
+export interface MCPModelTool {
+  server: string;
+  name: string;
+  description: string;
+  /** Connection tools only: the agent calls them through this connection */
+  connection_id?: string;
+  input_schema?: JsonSchema;
+}
+
+export function enabledMCPTools(servers: MCPServer[]): MCPModelTool[] {
+  return servers
+    .filter(s => s.enabled && s.authConfigured)
+    .flatMap(s => s.tools.map(t => ({
+      server: s.name,
+      name: t.name,
+      description: t.description,
+      input_schema: t.inputSchema,
+      ...(s.connectionId ? { connection_id: s.connectionId } : {}),
+    })));
+}
+
+/** Id prefix of MCPServer entries built from a connection */
+export const MCP_CONNECTION_SERVER_PREFIX = 'mcp-conn:';
+
+export function connectionToServer(connection: MCPConnection, enabled: boolean): MCPServer {
+  return {
+    id: `${MCP_CONNECTION_SERVER_PREFIX}${connection.id}`,
+    name: connection.name,
+    description: connection.server_info?.title || connection.server_info?.name || `${connection.transport} MCP server`,
+    icon: '🔌',
+    enabled,
+    requiresAuth: false,
+    authConfigured: true,
+    tools: connection.tools.map(t => ({ name: t.name, description: t.description || t.title || t.name, inputSchema: t.inputSchema as JsonSchema })),
+    connectionId: connection.id,
+  };
 }
 
 // MCP server definitions moved to src/types/mcp-servers.ts
@@ -1,3 +1,5 @@
+import type { LimitViolation } from './runner';
+
 export interface IDEFile {
   id: string;
   name: string;
@@ -6,6 +8,8 @@ export interface IDEFile {
   language: string;
   parentId: string | null;
   isFolder: boolean;
+  /** Git file mode, e.g. '100755'; absent means a regular '100644' file */
+  mode?: string;
   children?: IDEFile[];
 }
 
@@ -71,6 +75,8 @@ export interface RunResult {
   sessionId?: string;
   timestamp: Date;
   runnerUnavailable?: boolean;
+  /** The runner stopped the process for exceeding a session limit */
+  limitExceeded?: LimitViolation;
 }
 
 export interface Conversation {
@@ -1,4 +1,5 @@
 import { MCPServer } from './agent';
+import { TOOL_INPUT_SCHEMAS } from '../../supabase/functions/_shared/tool-schemas';
 
 export const BUILTIN_MCP_SERVERS: MCPServer[] = [
   {
@@ -10,13 +11,18 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'github_list_repos', description: 'List your repositories', inputSchema: { per_page: { type: 'number' } } },
-      { name: 'github_get_repo', description: 'Get repository details', inputSchema: { owner: { type: 'string' }, repo: { type: 'string' } } },
-      { name: 'github_get_file', description: 'Read file from repo', inputSchema: { owner: { type: 'string' }, repo: { type: 'string' }, path: { type: 'string' } } },
-      { name: 'github_list_issues', description: 'List issues', inputSchema: { owner: { type: 'string' }, repo: { type: 'string' } } },
-      { name: 'github_create_issue', description: 'Create an issue', inputSchema: { owner: { type: 'string' }, repo: { type: 'string' }, title: { type: 'string' } } },
-      { name: 'github_create_pr', description: 'Create pull request', inputSchema: { owner: { type: 'string' }, repo: { type: 'string' }, title: { type: 'string' }, head: { type: 'string' }, base: { type: 'string' } } },
-      { name: 'github_list_branches', description: 'List branches', inputSchema: { owner: { type: 'string' }, repo: { type: 'string' } } },
+      { name: 'github_list_repos', description: 'List your repositories', inputSchema: TOOL_INPUT_SCHEMAS.github_list_repos },
+      { name: 'github_get_repo', description: 'Get repository details', inputSchema: TOOL_INPUT_SCHEMAS.github_get_repo },
+      { name: 'github_get_file', description: 'Read file from repo', inputSchema: TOOL_INPUT_SCHEMAS.github_get_file },
+      { name: 'github_list_issues', description: 'List issues', inputSchema: TOOL_INPUT_SCHEMAS.github_list_issues },
+      { name: 'github_create_issue', description: 'Create an issue', inputSchema: TOOL_INPUT_SCHEMAS.github_create_issue },
+      { name: 'github_create_pr', description: 'Create pull request', inputSchema: TOOL_INPUT_SCHEMAS.github_create_pr },
+      { name: 'github_list_branches', description: 'List branches', inputSchema: TOOL_INPUT_SCHEMAS.github_list_branches },
+      { name: 'github_list_commits', description: 'List recent commits', inputSchema: TOOL_INPUT_SCHEMAS.github_list_commits },
+      { name: 'github_get_user', description: 'Get the authenticated user', inputSchema: TOOL_INPUT_SCHEMAS.github_get_user },
+      { name: 'github_create_repo', description: 'Create a repository', inputSchema: TOOL_INPUT_SCHEMAS.github_create_repo },
+      { name: 'github_push_file', description: 'Create or update a file', inputSchema: TOOL_INPUT_SCHEMAS.github_push_file },
+      { name: 'github_delete_file', description: 'Delete a file', inputSchema: TOOL_INPUT_SCHEMAS.github_delete_file },
     ],
   },
   {
@@ -28,15 +34,15 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'vercel_list_projects', description: 'List your Vercel projects', inputSchema: { limit: { type: 'number' } } },
-      { name: 'vercel_get_project', description: 'Get project details', inputSchema: { projectId: { type: 'string' } } },
-      { name: 'vercel_list_deployments', description: 'List deployments', inputSchema: { projectId: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'vercel_get_deployment', description: 'Get deployment details', inputSchema: { deploymentId: { type: 'string' } } },
-      { name: 'vercel_create_deployment', description: 'Create a deployment', inputSchema: { name: { type: 'string' }, target: { type: 'string' } } },
-      { name: 'vercel_list_domains', description: 'List project domains', inputSchema: { projectId: { type: 'string' } } },
-      { name: 'vercel_add_domain', description: 'Add domain to project', inputSchema: { projectId: { type: 'string' }, domain: { type: 'string' } } },
-      { name: 'vercel_list_env_vars', description: 'List environment variables', inputSchema: { projectId: { type: 'string' } } },
-      { name: 'vercel_create_env_var', description: 'Create environment variable', inputSchema: { projectId: { type: 'string' }, key: { type: 'string' }, value: { type: 'string' } } },
+      { name: 'vercel_list_projects', description: 'List your Vercel projects', inputSchema: TOOL_INPUT_SCHEMAS.vercel_list_projects },
+      { name: 'vercel_get_project', description: 'Get project details', inputSchema: TOOL_INPUT_SCHEMAS.vercel_get_project },
+      { name: 'vercel_list_deployments', description: 'List deployments', inputSchema: TOOL_INPUT_SCHEMAS.vercel_list_deployments },
+      { name: 'vercel_get_deployment', description: 'Get deployment details', inputSchema: TOOL_INPUT_SCHEMAS.vercel_get_deployment },
+      { name: 'vercel_create_deployment', description: 'Create a deployment', inputSchema: TOOL_INPUT_SCHEMAS.vercel_create_deployment },
+      { name: 'vercel_list_domains', description: 'List project domains', inputSchema: TOOL_INPUT_SCHEMAS.vercel_list_domains },
+      { name: 'vercel_add_domain', description: 'Add domain to project', inputSchema: TOOL_INPUT_SCHEMAS.vercel_add_domain },
+      { name: 'vercel_list_env_vars', description: 'List environment variables', inputSchema: TOOL_INPUT_SCHEMAS.vercel_list_env_vars },
+      { name: 'vercel_create_env_var', description: 'Create environment variable', inputSchema: TOOL_INPUT_SCHEMAS.vercel_create_env_var },
     ],
   },
   {
@@ -48,15 +54,15 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'supabase_list_projects', description: 'List all projects', inputSchema: {} },
-      { name: 'supabase_get_project', description: 'Get project details', inputSchema: { ref: { type: 'string' } } },
-      { name: 'supabase_list_tables', description: 'List public tables', inputSchema: { ref: { type: 'string' } } },
-      { name: 'supabase_get_table_schema', description: 'Get column schema for a table', inputSchema: { ref: { type: 'string' }, table: { type: 'string' } } },
-      { name: 'supabase_run_query', description: 'Run a read-only SQL query', inputSchema: { ref: { type: 'string' }, query: { type: 'string' } } },
-      { name: 'supabase_list_buckets', description: 'List storage buckets', inputSchema: { ref: { type: 'string' } } },
-      { name: 'supabase_list_users', description: 'List auth users', inputSchema: { ref: { type: 'string' } } },
-      { name: 'supabase_list_functions', description: 'List edge functions', inputSchema: { ref: { type: 'string' } } },
-      { name: 'supabase_get_function', description: 'Get edge function details', inputSchema: { ref: { type: 'string' }, slug: { type: 'string' } } },
+      { name: 'supabase_list_projects', description: 'List all projects', inputSchema: TOOL_INPUT_SCHEMAS.supabase_list_projects },
+      { name: 'supabase_get_project', description: 'Get project details', inputSchema: TOOL_INPUT_SCHEMAS.supabase_get_project },
+      { name: 'supabase_list_tables', description: 'List public tables', inputSchema: TOOL_INPUT_SCHEMAS.supabase_list_tables },
+      { name: 'supabase_get_table_schema', description: 'Get column schema for a table', inputSchema: TOOL_INPUT_SCHEMAS.supabase_get_table_schema },
+      { name: 'supabase_run_query', description: 'Run a read-only SQL query', inputSchema: TOOL_INPUT_SCHEMAS.supabase_run_query },
+      { name: 'supabase_list_buckets', description: 'List storage buckets', inputSchema: TOOL_INPUT_SCHEMAS.supabase_list_buckets },
+      { name: 'supabase_list_users', description: 'List auth users', inputSchema: TOOL_INPUT_SCHEMAS.supabase_list_users },
+      { name: 'supabase_list_functions', description: 'List edge functions', inputSchema: TOOL_INPUT_SCHEMAS.supabase_list_functions },
+      { name: 'supabase_get_function', description: 'Get edge function details', inputSchema: TOOL_INPUT_SCHEMAS.supabase_get_function },
     ],
   },
   {
@@ -68,19 +74,19 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'cf_verify_token', description: 'Verify API token', inputSchema: {} },
-      { name: 'cf_list_accounts', description: 'List accounts', inputSchema: {} },
-      { name: 'cf_list_workers', description: 'List Workers scripts', inputSchema: { account_id: { type: 'string' } } },
-      { name: 'cf_get_worker', description: 'Get Worker settings', inputSchema: { account_id: { type: 'string' }, script_name: { type: 'string' } } },
-      { name: 'cf_delete_worker', description: 'Delete a Worker', inputSchema: { account_id: { type: 'string' }, script_name: { type: 'string' } } },
-      { name: 'cf_list_kv_namespaces', description: 'List KV namespaces', inputSchema: { account_id: { type: 'string' } } },
-      { name: 'cf_create_kv_namespace', description: 'Create KV namespace', inputSchema: { account_id: { type: 'string' }, title: { type: 'string' } } },
-      { name: 'cf_list_kv_keys', description: 'List keys in a namespace', inputSchema: { account_id: { type: 'string' }, namespace_id: { type: 'string' } } },
-      { name: 'cf_get_kv_value', description: 'Read a KV value', inputSchema: { account_id: { type: 'string' }, namespace_id: { type: 'string' }, key_name: { type: 'string' } } },
-      { name: 'cf_put_kv_value', description: 'Write a KV value', inputSchema: { account_id: { type: 'string' }, namespace_id: { type: 'string' }, key_name: { type: 'string' }, value: { type: 'string' } } },
-      { name: 'cf_list_zones', description: 'List DNS zones', inputSchema: {} },
-      { name: 'cf_list_dns_records', description: 'List DNS records', inputSchema: { zone_id: { type: 'string' } } },
-      { name: 'cf_create_dns_record', description: 'Create DNS record', inputSchema: { zone_id: { type: 'string' }, type: { type: 'string' }, name: { type: 'string' }, content: { type: 'string' } } },
+      { name: 'cf_verify_token', description: 'Verify API token', inputSchema: TOOL_INPUT_SCHEMAS.cf_verify_token },
+      { name: 'cf_list_accounts', description: 'List accounts', inputSchema: TOOL_INPUT_SCHEMAS.cf_list_accounts },
+      { name: 'cf_list_workers', description: 'List Workers scripts', inputSchema: TOOL_INPUT_SCHEMAS.cf_list_workers },
+      { name: 'cf_get_worker', description: 'Get Worker settings', inputSchema: TOOL_INPUT_SCHEMAS.cf_get_worker },
+      { name: 'cf_delete_worker', description: 'Delete a Worker', inputSchema: TOOL_INPUT_SCHEMAS.cf_delete_worker },
+      { name: 'cf_list_kv_namespaces', description: 'List KV namespaces', inputSchema: TOOL_INPUT_SCHEMAS.cf_list_kv_namespaces },
+      { name: 'cf_create_kv_namespace', description: 'Create KV namespace', inputSchema: TOOL_INPUT_SCHEMAS.cf_create_kv_namespace },
+      { name: 'cf_list_kv_keys', description: 'List keys in a namespace', inputSchema: TOOL_INPUT_SCHEMAS.cf_list_kv_keys },
+      { name: 'cf_get_kv_value', description: 'Read a KV value', inputSchema: TOOL_INPUT_SCHEMAS.cf_get_kv_value },
+      { name: 'cf_put_kv_value', description: 'Write a KV value', inputSchema: TOOL_INPUT_SCHEMAS.cf_put_kv_value },
+      { name: 'cf_list_zones', description: 'List DNS zones', inputSchema: TOOL_INPUT_SCHEMAS.cf_list_zones },
+      { name: 'cf_list_dns_records', description: 'List DNS records', inputSchema: TOOL_INPUT_SCHEMAS.cf_list_dns_records },
+      { name: 'cf_create_dns_record', description: 'Create DNS record', inputSchema: TOOL_INPUT_SCHEMAS.cf_create_dns_record },
     ],
   },
   {
@@ -92,16 +98,16 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'aws_verify_credentials', description: 'Verify AWS credentials via STS', inputSchema: {} },
-      { name: 'aws_list_s3_buckets', description: 'List all S3 buckets', inputSchema: {} },
-      { name: 'aws_list_s3_objects', description: 'List objects in a bucket', inputSchema: { bucket: { type: 'string' }, prefix: { type: 'string' }, max_keys: { type: 'number' } } },
-      { name: 'aws_get_s3_object', description: 'Read an S3 object', inputSchema: { bucket: { type: 'string' }, key: { type: 'string' } } },
-      { name: 'aws_delete_s3_object', description: 'Delete an S3 object', inputSchema: { bucket: { type: 'string' }, key: { type: 'string' } } },
-      { name: 'aws_list_lambda_functions', description: 'List Lambda functions', inputSchema: {} },
-      { name: 'aws_get_lambda_function', description: 'Get Lambda function details', inputSchema: { function_name: { type: 'string' } } },
-      { name: 'aws_invoke_lambda', description: 'Invoke a Lambda function', inputSchema: { function_name: { type: 'string' }, payload: { type: 'object' } } },
-      { name: 'aws_list_hosted_zones', description: 'List Route 53 hosted zones', inputSchema: {} },
-      { name: 'aws_list_dns_records', description: 'List DNS records in a hosted zone', inputSchema: { hosted_zone_id: { type: 'string' } } },
+      { name: 'aws_verify_credentials', description: 'Verify AWS credentials via STS', inputSchema: TOOL_INPUT_SCHEMAS.aws_verify_credentials },
+      { name: 'aws_list_s3_buckets', description: 'List all S3 buckets', inputSchema: TOOL_INPUT_SCHEMAS.aws_list_s3_buckets },
+      { name: 'aws_list_s3_objects', description: 'List objects in a bucket', inputSchema: TOOL_INPUT_SCHEMAS.aws_list_s3_objects },
+      { name: 'aws_get_s3_object', description: 'Read an S3 object', inputSchema: TOOL_INPUT_SCHEMAS.aws_get_s3_object },
+      { name: 'aws_delete_s3_object', description: 'Delete an S3 object', inputSchema: TOOL_INPUT_SCHEMAS.aws_delete_s3_object },
+      { name: 'aws_list_lambda_functions', description: 'List Lambda functions', inputSchema: TOOL_INPUT_SCHEMAS.aws_list_lambda_functions },
+      { name: 'aws_get_lambda_function', description: 'Get Lambda function details', inputSchema: TOOL_INPUT_SCHEMAS.aws_get_lambda_function },
+      { name: 'aws_invoke_lambda', description: 'Invoke a Lambda function', inputSchema: TOOL_INPUT_SCHEMAS.aws_invoke_lambda },
+      { name: 'aws_list_hosted_zones', description: 'List Route 53 hosted zones', inputSchema: TOOL_INPUT_SCHEMAS.aws_list_hosted_zones },
+      { name: 'aws_list_dns_records', description: 'List DNS records in a hosted zone', inputSchema: TOOL_INPUT_SCHEMAS.aws_list_dns_records },
     ],
   },
   {
@@ -113,19 +119,19 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'stripe_list_customers', description: 'List customers', inputSchema: { limit: { type: 'number' } } },
-      { name: 'stripe_get_customer', description: 'Get customer details', inputSchema: { customer_id: { type: 'string' } } },
-      { name: 'stripe_create_customer', description: 'Create a customer', inputSchema: { email: { type: 'string' }, name: { type: 'string' } } },
-      { name: 'stripe_list_products', description: 'List products', inputSchema: { limit: { type: 'number' } } },
-      { name: 'stripe_create_product', description: 'Create a product', inputSchema: { name: { type: 'string' }, description: { type: 'string' } } },
-      { name: 'stripe_list_prices', description: 'List prices', inputSchema: { limit: { type: 'number' }, product: { type: 'string' } } },
-      { name: 'stripe_create_price', description: 'Create a price', inputSchema: { unit_amount: { type: 'number' }, currency: { type: 'string' }, product: { type: 'string' } } },
-      { name: 'stripe_list_subscriptions', description: 'List subscriptions', inputSchema: { limit: { type: 'number' }, customer: { type: 'string' } } },
-      { name: 'stripe_get_subscription', description: 'Get subscription details', inputSchema: { subscription_id: { type: 'string' } } },
-      { name: 'stripe_cancel_subscription', description: 'Cancel a subscription', inputSchema: { subscription_id: { type: 'string' } } },
-      { name: 'stripe_list_payment_intents', description: 'List payment intents', inputSchema: { limit: { type: 'number' } } },
-      { name: 'stripe_get_balance', description: 'Get account balance', inputSchema: {} },
-      { name: 'stripe_list_invoices', description: 'List invoices', inputSchema: { limit: { type: 'number' }, customer: { type: 'string' } } },
+      { name: 'stripe_list_customers', description: 'List customers', inputSchema: TOOL_INPUT_SCHEMAS.stripe_list_customers },
+      { name: 'stripe_get_customer', description: 'Get customer details', inputSchema: TOOL_INPUT_SCHEMAS.stripe_get_customer },
+      { name: 'stripe_create_customer', description: 'Create a customer', inputSchema: TOOL_INPUT_SCHEMAS.stripe_create_customer },
+      { name: 'stripe_list_products', description: 'List products', inputSchema: TOOL_INPUT_SCHEMAS.stripe_list_products },
+      { name: 'stripe_create_product', description: 'Create a product', inputSchema: TOOL_INPUT_SCHEMAS.stripe_create_product },
+      { name: 'stripe_list_prices', description: 'List prices', inputSchema: TOOL_INPUT_SCHEMAS.stripe_list_prices },
+      { name: 'stripe_create_price', description: 'Create a price', inputSchema: TOOL_INPUT_SCHEMAS.stripe_create_price },
+      { name: 'stripe_list_subscriptions', description: 'List subscriptions', inputSchema: TOOL_INPUT_SCHEMAS.stripe_list_subscriptions },
+      { name: 'stripe_get_subscription', description: 'Get subscription details', inputSchema: TOOL_INPUT_SCHEMAS.stripe_get_subscription },
+      { name: 'stripe_cancel_subscription', description: 'Cancel a subscription', inputSchema: TOOL_INPUT_SCHEMAS.stripe_cancel_subscription },
+      { name: 'stripe_list_payment_intents', description: 'List payment intents', inputSchema: TOOL_INPUT_SCHEMAS.stripe_list_payment_intents },
+      { name: 'stripe_get_balance', description: 'Get account balance', inputSchema: TOOL_INPUT_SCHEMAS.stripe_get_balance },
+      { name: 'stripe_list_invoices', description: 'List invoices', inputSchema: TOOL_INPUT_SCHEMAS.stripe_list_invoices },
     ],
   },
   {
@@ -137,16 +143,16 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'slack_list_channels', description: 'List channels', inputSchema: { limit: { type: 'number' }, types: { type: 'string' } } },
-      { name: 'slack_get_channel_info', description: 'Get channel details', inputSchema: { channel: { type: 'string' } } },
-      { name: 'slack_post_message', description: 'Post a message to a channel', inputSchema: { channel: { type: 'string' }, text: { type: 'string' } } },
-      { name: 'slack_update_message', description: 'Update a message', inputSchema: { channel: { type: 'string' }, ts: { type: 'string' }, text: { type: 'string' } } },
-      { name: 'slack_delete_message', description: 'Delete a message', inputSchema: { channel: { type: 'string' }, ts: { type: 'string' } } },
-      { name: 'slack_list_users', description: 'List workspace users', inputSchema: { limit: { type: 'number' } } },
-      { name: 'slack_get_user_info', description: 'Get user details', inputSchema: { user: { type: 'string' } } },
-      { name: 'slack_channel_history', description: 'Get channel message history', inputSchema: { channel: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'slack_set_topic', description: 'Set channel topic', inputSchema: { channel: { type: 'string' }, topic: { type: 'string' } } },
-      { name: 'slack_add_reaction', description: 'Add a reaction to a message', inputSchema: { channel: { type: 'string' }, timestamp: { type: 'string' }, name: { type: 'string' } } },
+      { name: 'slack_list_channels', description: 'List channels', inputSchema: TOOL_INPUT_SCHEMAS.slack_list_channels },
+      { name: 'slack_get_channel_info', description: 'Get channel details', inputSchema: TOOL_INPUT_SCHEMAS.slack_get_channel_info },
+      { name: 'slack_post_message', description: 'Post a message to a channel', inputSchema: TOOL_INPUT_SCHEMAS.slack_post_message },
+      { name: 'slack_update_message', description: 'Update a message', inputSchema: TOOL_INPUT_SCHEMAS.slack_update_message },
+      { name: 'slack_delete_message', description: 'Delete a message', inputSchema: TOOL_INPUT_SCHEMAS.slack_delete_message },
+      { name: 'slack_list_users', description: 'List workspace users', inputSchema: TOOL_INPUT_SCHEMAS.slack_list_users },
+      { name: 'slack_get_user_info', description: 'Get user details', inputSchema: TOOL_INPUT_SCHEMAS.slack_get_user_info },
+      { name: 'slack_channel_history', description: 'Get channel message history', inputSchema: TOOL_INPUT_SCHEMAS.slack_channel_history },
+      { name: 'slack_set_topic', description: 'Set channel topic', inputSchema: TOOL_INPUT_SCHEMAS.slack_set_topic },
+      { name: 'slack_add_reaction', description: 'Add a reaction to a message', inputSchema: TOOL_INPUT_SCHEMAS.slack_add_reaction },
     ],
   },
   {
@@ -158,16 +164,16 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'notion_search', description: 'Search pages and databases', inputSchema: { query: { type: 'string' }, page_size: { type: 'number' } } },
-      { name: 'notion_get_page', description: 'Get page properties', inputSchema: { page_id: { type: 'string' } } },
-      { name: 'notion_get_page_content', description: 'Get page block content', inputSchema: { block_id: { type: 'string' } } },
-      { name: 'notion_create_page', description: 'Create a new page', inputSchema: { parent: { type: 'object' }, properties: { type: 'object' } } },
-      { name: 'notion_update_page', description: 'Update page properties', inputSchema: { page_id: { type: 'string' }, properties: { type: 'object' } } },
-      { name: 'notion_query_database', description: 'Query a database', inputSchema: { database_id: { type: 'string' }, filter: { type: 'object' } } },
-      { name: 'notion_get_database', description: 'Get database schema', inputSchema: { database_id: { type: 'string' } } },
-      { name: 'notion_list_databases', description: 'List all databases', inputSchema: { page_size: { type: 'number' } } },
-      { name: 'notion_append_blocks', description: 'Append content blocks to a page', inputSchema: { block_id: { type: 'string' }, children: { type: 'array' } } },
-      { name: 'notion_delete_block', description: 'Delete a block', inputSchema: { block_id: { type: 'string' } } },
+      { name: 'notion_search', description: 'Search pages and databases', inputSchema: TOOL_INPUT_SCHEMAS.notion_search },
+      { name: 'notion_get_page', description: 'Get page properties', inputSchema: TOOL_INPUT_SCHEMAS.notion_get_page },
+      { name: 'notion_get_page_content', description: 'Get page block content', inputSchema: TOOL_INPUT_SCHEMAS.notion_get_page_content },
+      { name: 'notion_create_page', description: 'Create a new page', inputSchema: TOOL_INPUT_SCHEMAS.notion_create_page },
+      { name: 'notion_update_page', description: 'Update page properties', inputSchema: TOOL_INPUT_SCHEMAS.notion_update_page },
+      { name: 'notion_query_database', description: 'Query a database', inputSchema: TOOL_INPUT_SCHEMAS.notion_query_database },
+      { name: 'notion_get_database', description: 'Get database schema', inputSchema: TOOL_INPUT_SCHEMAS.notion_get_database },
+      { name: 'notion_list_databases', description: 'List all databases', inputSchema: TOOL_INPUT_SCHEMAS.notion_list_databases },
+      { name: 'notion_append_blocks', description: 'Append content blocks to a page', inputSchema: TOOL_INPUT_SCHEMAS.notion_append_blocks },
+      { name: 'notion_delete_block', description: 'Delete a block', inputSchema: TOOL_INPUT_SCHEMAS.notion_delete_block },
     ],
   },
   {
@@ -179,14 +185,14 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'n8n_list_workflows', description: 'List all workflows', inputSchema: { limit: { type: 'number' } } },
-      { name: 'n8n_get_workflow', description: 'Get workflow details', inputSchema: { workflow_id: { type: 'string' } } },
-      { name: 'n8n_activate_workflow', description: 'Activate a workflow', inputSchema: { workflow_id: { type: 'string' } } },
-      { name: 'n8n_deactivate_workflow', description: 'Deactivate a workflow', inputSchema: { workflow_id: { type: 'string' } } },
-      { name: 'n8n_list_executions', description: 'List workflow executions', inputSchema: { workflow_id: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'n8n_get_execution', description: 'Get execution details', inputSchema: { execution_id: { type: 'string' } } },
-      { name: 'n8n_trigger_webhook', description: 'Trigger a webhook URL', inputSchema: { webhook_url: { type: 'string' }, payload: { type: 'object' } } },
-      { name: 'n8n_list_credentials', description: 'List stored credentials', inputSchema: {} },
+      { name: 'n8n_list_workflows', description: 'List all workflows', inputSchema: TOOL_INPUT_SCHEMAS.n8n_list_workflows },
+      { name: 'n8n_get_workflow', description: 'Get workflow details', inputSchema: TOOL_INPUT_SCHEMAS.n8n_get_workflow },
+      { name: 'n8n_activate_workflow', description: 'Activate a workflow', inputSchema: TOOL_INPUT_SCHEMAS.n8n_activate_workflow },
+      { name: 'n8n_deactivate_workflow', description: 'Deactivate a workflow', inputSchema: TOOL_INPUT_SCHEMAS.n8n_deactivate_workflow },
+      { name: 'n8n_list_executions', description: 'List workflow executions', inputSchema: TOOL_INPUT_SCHEMAS.n8n_list_executions },
+      { name: 'n8n_get_execution', description: 'Get execution details', inputSchema: TOOL_INPUT_SCHEMAS.n8n_get_execution },
+      { name: 'n8n_trigger_webhook', description: 'Trigger a webhook URL', inputSchema: TOOL_INPUT_SCHEMAS.n8n_trigger_webhook },
+      { name: 'n8n_list_credentials', description: 'List stored credentials', inputSchema: TOOL_INPUT_SCHEMAS.n8n_list_credentials },
     ],
   },
   // ─── New MCP Servers ───
@@ -199,13 +205,13 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'telegram_get_me', description: 'Get bot info', inputSchema: {} },
-      { name: 'telegram_send_message', description: 'Send a message', inputSchema: { chat_id: { type: 'string' }, text: { type: 'string' }, parse_mode: { type: 'string' } } },
-      { name: 'telegram_get_updates', description: 'Get recent updates', inputSchema: { limit: { type: 'number' }, offset: { type: 'number' } } },
-      { name: 'telegram_get_chat', description: 'Get chat details', inputSchema: { chat_id: { type: 'string' } } },
-      { name: 'telegram_get_chat_members_count', description: 'Get chat member count', inputSchema: { chat_id: { type: 'string' } } },
-      { name: 'telegram_set_webhook', description: 'Set webhook URL', inputSchema: { url: { type: 'string' } } },
-      { name: 'telegram_delete_webhook', description: 'Delete webhook', inputSchema: {} },
+      { name: 'telegram_get_me', description: 'Get bot info', inputSchema: TOOL_INPUT_SCHEMAS.telegram_get_me },
+      { name: 'telegram_send_message', description: 'Send a message', inputSchema: TOOL_INPUT_SCHEMAS.telegram_send_message },
+      { name: 'telegram_get_updates', description: 'Get recent updates', inputSchema: TOOL_INPUT_SCHEMAS.telegram_get_updates },
+      { name: 'telegram_get_chat', description: 'Get chat details', inputSchema: TOOL_INPUT_SCHEMAS.telegram_get_chat },
+      { name: 'telegram_get_chat_members_count', description: 'Get chat member count', inputSchema: TOOL_INPUT_SCHEMAS.telegram_get_chat_members_count },
+      { name: 'telegram_set_webhook', description: 'Set webhook URL', inputSchema: TOOL_INPUT_SCHEMAS.telegram_set_webhook },
+      { name: 'telegram_delete_webhook', description: 'Delete webhook', inputSchema: TOOL_INPUT_SCHEMAS.telegram_delete_webhook },
     ],
   },
   {
@@ -217,12 +223,12 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'sheets_get_spreadsheet', description: 'Get spreadsheet metadata', inputSchema: { spreadsheet_id: { type: 'string' } } },
-      { name: 'sheets_get_values', description: 'Read cell values', inputSchema: { spreadsheet_id: { type: 'string' }, range: { type: 'string' } } },
-      { name: 'sheets_update_values', description: 'Update cell values', inputSchema: { spreadsheet_id: { type: 'string' }, range: { type: 'string' }, values: { type: 'array' } } },
-      { name: 'sheets_append_values', description: 'Append rows', inputSchema: { spreadsheet_id: { type: 'string' }, range: { type: 'string' }, values: { type: 'array' } } },
-      { name: 'sheets_clear_values', description: 'Clear cell range', inputSchema: { spreadsheet_id: { type: 'string' }, range: { type: 'string' } } },
-      { name: 'sheets_create_spreadsheet', description: 'Create new spreadsheet', inputSchema: { title: { type: 'string' } } },
+      { name: 'sheets_get_spreadsheet', description: 'Get spreadsheet metadata', inputSchema: TOOL_INPUT_SCHEMAS.sheets_get_spreadsheet },
+      { name: 'sheets_get_values', description: 'Read cell values', inputSchema: TOOL_INPUT_SCHEMAS.sheets_get_values },
+      { name: 'sheets_update_values', description: 'Update cell values', inputSchema: TOOL_INPUT_SCHEMAS.sheets_update_values },
+      { name: 'sheets_append_values', description: 'Append rows', inputSchema: TOOL_INPUT_SCHEMAS.sheets_append_values },
+      { name: 'sheets_clear_values', description: 'Clear cell range', inputSchema: TOOL_INPUT_SCHEMAS.sheets_clear_values },
+      { name: 'sheets_create_spreadsheet', description: 'Create new spreadsheet', inputSchema: TOOL_INPUT_SCHEMAS.sheets_create_spreadsheet },
     ],
   },
   {
@@ -234,13 +240,13 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: false,
     authConfigured: true,
     tools: [
-      { name: 'coingecko_ping', description: 'Check API status', inputSchema: {} },
-      { name: 'coingecko_price', description: 'Get price for coins', inputSchema: { ids: { type: 'string' }, vs_currencies: { type: 'string' } } },
-      { name: 'coingecko_coin_detail', description: 'Get coin details', inputSchema: { id: { type: 'string' } } },
-      { name: 'coingecko_market_chart', description: 'Get price chart data', inputSchema: { id: { type: 'string' }, vs_currency: { type: 'string' }, days: { type: 'number' } } },
-      { name: 'coingecko_trending', description: 'Get trending coins', inputSchema: {} },
-      { name: 'coingecko_markets', description: 'Get market listings', inputSchema: { vs_currency: { type: 'string' }, per_page: { type: 'number' }, page: { type: 'number' } } },
-      { name: 'coingecko_search', description: 'Search coins', inputSchema: { query: { type: 'string' } } },
+      { name: 'coingecko_ping', description: 'Check API status', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_ping },
+      { name: 'coingecko_price', description: 'Get price for coins', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_price },
+      { name: 'coingecko_coin_detail', description: 'Get coin details', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_coin_detail },
+      { name: 'coingecko_market_chart', description: 'Get price chart data', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_market_chart },
+      { name: 'coingecko_trending', description: 'Get trending coins', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_trending },
+      { name: 'coingecko_markets', description: 'Get market listings', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_markets },
+      { name: 'coingecko_search', description: 'Search coins', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_search },
     ],
   },
   {
@@ -252,13 +258,13 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'av_quote', description: 'Get stock quote', inputSchema: { symbol: { type: 'string' } } },
-      { name: 'av_search', description: 'Search symbols', inputSchema: { keywords: { type: 'string' } } },
-      { name: 'av_time_series_daily', description: 'Daily time series', inputSchema: { symbol: { type: 'string' }, outputsize: { type: 'string' } } },
-      { name: 'av_time_series_intraday', description: 'Intraday time series', inputSchema: { symbol: { type: 'string' }, interval: { type: 'string' } } },
-      { name: 'av_forex_rate', description: 'Get forex exchange rate', inputSchema: { from: { type: 'string' }, to: { type: 'string' } } },
-      { name: 'av_crypto_rating', description: 'Get crypto rating', inputSchema: { symbol: { type: 'string' } } },
-      { name: 'av_sma', description: 'Simple moving average', inputSchema: { symbol: { type: 'string' }, interval: { type: 'string' }, time_period: { type: 'number' } } },
+      { name: 'av_quote', description: 'Get stock quote', inputSchema: TOOL_INPUT_SCHEMAS.av_quote },
+      { name: 'av_search', description: 'Search symbols', inputSchema: TOOL_INPUT_SCHEMAS.av_search },
+      { name: 'av_time_series_daily', description: 'Daily time series', inputSchema: TOOL_INPUT_SCHEMAS.av_time_series_daily },
+      { name: 'av_time_series_intraday', description: 'Intraday time series', inputSchema: TOOL_INPUT_SCHEMAS.av_time_series_intraday },
+      { name: 'av_forex_rate', description: 'Get forex exchange rate', inputSchema: TOOL_INPUT_SCHEMAS.av_forex_rate },
+      { name: 'av_crypto_rating', description: 'Get crypto rating', inputSchema: TOOL_INPUT_SCHEMAS.av_crypto_rating },
+      { name: 'av_sma', description: 'Simple moving average', inputSchema: TOOL_INPUT_SCHEMAS.av_sma },
     ],
   },
   {
@@ -270,11 +276,11 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'cmc_listings', description: 'Top crypto listings', inputSchema: { limit: { type: 'number' }, convert: { type: 'string' } } },
-      { name: 'cmc_quotes', description: 'Get crypto quotes', inputSchema: { symbol: { type: 'string' }, id: { type: 'string' }, convert: { type: 'string' } } },
-      { name: 'cmc_info', description: 'Get crypto metadata', inputSchema: { symbol: { type: 'string' }, id: { type: 'string' } } },
-      { name: 'cmc_map', description: 'Map of all cryptos', inputSchema: { limit: { type: 'number' } } },
-      { name: 'cmc_global_metrics', description: 'Global market metrics', inputSchema: { convert: { type: 'string' } } },
+      { name: 'cmc_listings', description: 'Top crypto listings', inputSchema: TOOL_INPUT_SCHEMAS.cmc_listings },
+      { name: 'cmc_quotes', description: 'Get crypto quotes', inputSchema: TOOL_INPUT_SCHEMAS.cmc_quotes },
+      { name: 'cmc_info', description: 'Get crypto metadata', inputSchema: TOOL_INPUT_SCHEMAS.cmc_info },
+      { name: 'cmc_map', description: 'Map of all cryptos', inputSchema: TOOL_INPUT_SCHEMAS.cmc_map },
+      { name: 'cmc_global_metrics', description: 'Global market metrics', inputSchema: TOOL_INPUT_SCHEMAS.cmc_global_metrics },
     ],
   },
   {
@@ -286,12 +292,12 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: false,
     authConfigured: true,
     tools: [
-      { name: 'defi_protocols', description: 'List all DeFi protocols', inputSchema: {} },
-      { name: 'defi_protocol_tvl', description: 'Get protocol TVL history', inputSchema: { protocol: { type: 'string' } } },
-      { name: 'defi_tvl_chains', description: 'TVL by chain', inputSchema: {} },
-      { name: 'defi_global_tvl', description: 'Global TVL history', inputSchema: {} },
-      { name: 'defi_yields', description: 'Top yield pools', inputSchema: { limit: { type: 'number' } } },
-      { name: 'defi_stablecoins', description: 'Stablecoin market data', inputSchema: {} },
+      { name: 'defi_protocols', description: 'List all DeFi protocols', inputSchema: TOOL_INPUT_SCHEMAS.defi_protocols },
+      { name: 'defi_protocol_tvl', description: 'Get protocol TVL history', inputSchema: TOOL_INPUT_SCHEMAS.defi_protocol_tvl },
+      { name: 'defi_tvl_chains', description: 'TVL by chain', inputSchema: TOOL_INPUT_SCHEMAS.defi_tvl_chains },
+      { name: 'defi_global_tvl', description: 'Global TVL history', inputSchema: TOOL_INPUT_SCHEMAS.defi_global_tvl },
+      { name: 'defi_yields', description: 'Top yield pools', inputSchema: TOOL_INPUT_SCHEMAS.defi_yields },
+      { name: 'defi_stablecoins', description: 'Stablecoin market data', inputSchema: TOOL_INPUT_SCHEMAS.defi_stablecoins },
     ],
   },
   {
@@ -303,11 +309,11 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'hf_inference', description: 'Run model inference', inputSchema: { model: { type: 'string' }, inputs: { type: 'string' } } },
-      { name: 'hf_list_models', description: 'Search models', inputSchema: { search: { type: 'string' }, limit: { type: 'number' }, sort: { type: 'string' } } },
-      { name: 'hf_model_info', description: 'Get model details', inputSchema: { model_id: { type: 'string' } } },
-      { name: 'hf_text_generation', description: 'Generate text', inputSchema: { prompt: { type: 'string' }, model: { type: 'string' }, max_tokens: { type: 'number' } } },
-      { name: 'hf_text_classification', description: 'Classify text', inputSchema: { text: { type: 'string' }, model: { type: 'string' } } },
+      { name: 'hf_inference', description: 'Run model inference', inputSchema: TOOL_INPUT_SCHEMAS.hf_inference },
+      { name: 'hf_list_models', description: 'Search models', inputSchema: TOOL_INPUT_SCHEMAS.hf_list_models },
+      { name: 'hf_model_info', description: 'Get model details', inputSchema: TOOL_INPUT_SCHEMAS.hf_model_info },
+      { name: 'hf_text_generation', description: 'Generate text', inputSchema: TOOL_INPUT_SCHEMAS.hf_text_generation },
+      { name: 'hf_text_classification', description: 'Classify text', inputSchema: TOOL_INPUT_SCHEMAS.hf_text_classification },
     ],
   },
   {
@@ -319,14 +325,14 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'docker_list_containers', description: 'List containers', inputSchema: { all: { type: 'boolean' } } },
-      { name: 'docker_inspect_container', description: 'Inspect container', inputSchema: { container_id: { type: 'string' } } },
-      { name: 'docker_start_container', description: 'Start container', inputSchema: { container_id: { type: 'string' } } },
-      { name: 'docker_stop_container', description: 'Stop container', inputSchema: { container_id: { type: 'string' } } },
-      { name: 'docker_list_images', description: 'List images', inputSchema: {} },
-      { name: 'docker_list_networks', description: 'List networks', inputSchema: {} },
-      { name: 'docker_list_volumes', description: 'List volumes', inputSchema: {} },
-      { name: 'docker_system_info', description: 'Get system info', inputSchema: {} },
+      { name: 'docker_list_containers', description: 'List containers', inputSchema: TOOL_INPUT_SCHEMAS.docker_list_containers },
+      { name: 'docker_inspect_container', description: 'Inspect container', inputSchema: TOOL_INPUT_SCHEMAS.docker_inspect_container },
+      { name: 'docker_start_container', description: 'Start container', inputSchema: TOOL_INPUT_SCHEMAS.docker_start_container },
+      { name: 'docker_stop_container', description: 'Stop container', inputSchema: TOOL_INPUT_SCHEMAS.docker_stop_container },
+      { name: 'docker_list_images', description: 'List images', inputSchema: TOOL_INPUT_SCHEMAS.docker_list_images },
+      { name: 'docker_list_networks', description: 'List networks', inputSchema: TOOL_INPUT_SCHEMAS.docker_list_networks },
+      { name: 'docker_list_volumes', description: 'List volumes', inputSchema: TOOL_INPUT_SCHEMAS.docker_list_volumes },
+      { name: 'docker_system_info', description: 'Get system info', inputSchema: TOOL_INPUT_SCHEMAS.docker_system_info },
     ],
   },
   {
@@ -338,12 +344,12 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'pg_query', description: 'Run read-only SQL query', inputSchema: { query: { type: 'string' } } },
-      { name: 'pg_list_tables', description: 'List all tables', inputSchema: {} },
-      { name: 'pg_describe_table', description: 'Describe table columns', inputSchema: { table: { type: 'string' } } },
-      { name: 'pg_list_schemas', description: 'List schemas', inputSchema: {} },
-      { name: 'pg_table_sizes', description: 'Table sizes', inputSchema: { limit: { type: 'number' } } },
-      { name: 'pg_active_connections', description: 'Active connections', inputSchema: { limit: { type: 'number' } } },
+      { name: 'pg_query', description: 'Run read-only SQL query', inputSchema: TOOL_INPUT_SCHEMAS.pg_query },
+      { name: 'pg_list_tables', description: 'List all tables', inputSchema: TOOL_INPUT_SCHEMAS.pg_list_tables },
+      { name: 'pg_describe_table', description: 'Describe table columns', inputSchema: TOOL_INPUT_SCHEMAS.pg_describe_table },
+      { name: 'pg_list_schemas', description: 'List schemas', inputSchema: TOOL_INPUT_SCHEMAS.pg_list_schemas },
+      { name: 'pg_table_sizes', description: 'Table sizes', inputSchema: TOOL_INPUT_SCHEMAS.pg_table_sizes },
+      { name: 'pg_active_connections', description: 'Active connections', inputSchema: TOOL_INPUT_SCHEMAS.pg_active_connections },
     ],
   },
   {
@@ -355,14 +361,14 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'do_account', description: 'Get account info', inputSchema: {} },
-      { name: 'do_list_droplets', description: 'List droplets', inputSchema: { per_page: { type: 'number' } } },
-      { name: 'do_get_droplet', description: 'Get droplet details', inputSchema: { droplet_id: { type: 'string' } } },
-      { name: 'do_droplet_action', description: 'Perform droplet action', inputSchema: { droplet_id: { type: 'string' }, action_type: { type: 'string' } } },
-      { name: 'do_list_databases', description: 'List databases', inputSchema: {} },
-      { name: 'do_list_domains', description: 'List domains', inputSchema: {} },
-      { name: 'do_list_apps', description: 'List apps', inputSchema: {} },
-      { name: 'do_list_volumes', description: 'List volumes', inputSchema: {} },
+      { name: 'do_account', description: 'Get account info', inputSchema: TOOL_INPUT_SCHEMAS.do_account },
+      { name: 'do_list_droplets', description: 'List droplets', inputSchema: TOOL_INPUT_SCHEMAS.do_list_droplets },
+      { name: 'do_get_droplet', description: 'Get droplet details', inputSchema: TOOL_INPUT_SCHEMAS.do_get_droplet },
+      { name: 'do_droplet_action', description: 'Perform droplet action', inputSchema: TOOL_INPUT_SCHEMAS.do_droplet_action },
+      { name: 'do_list_databases', description: 'List databases', inputSchema: TOOL_INPUT_SCHEMAS.do_list_databases },
+      { name: 'do_list_domains', description: 'List domains', inputSchema: TOOL_INPUT_SCHEMAS.do_list_domains },
+      { name: 'do_list_apps', description: 'List apps', inputSchema: TOOL_INPUT_SCHEMAS.do_list_apps },
+      { name: 'do_list_volumes', description: 'List volumes', inputSchema: TOOL_INPUT_SCHEMAS.do_list_volumes },
     ],
   },
   {
@@ -374,12 +380,12 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'twitter_user_lookup', description: 'Lookup user by username', inputSchema: { username: { type: 'string' } } },
-      { name: 'twitter_user_tweets', description: 'Get user tweets', inputSchema: { user_id: { type: 'string' }, max_results: { type: 'number' } } },
-      { name: 'twitter_search_recent', description: 'Search recent tweets', inputSchema: { query: { type: 'string' }, max_results: { type: 'number' } } },
-      { name: 'twitter_get_tweet', description: 'Get tweet by ID', inputSchema: { tweet_id: { type: 'string' } } },
-      { name: 'twitter_user_followers', description: 'Get user followers', inputSchema: { user_id: { type: 'string' }, max_results: { type: 'number' } } },
-      { name: 'twitter_trending', description: 'Search trending topics', inputSchema: { query: { type: 'string' } } },
+      { name: 'twitter_user_lookup', description: 'Lookup user by username', inputSchema: TOOL_INPUT_SCHEMAS.twitter_user_lookup },
+      { name: 'twitter_user_tweets', description: 'Get user tweets', inputSchema: TOOL_INPUT_SCHEMAS.twitter_user_tweets },
+      { name: 'twitter_search_recent', description: 'Search recent tweets', inputSchema: TOOL_INPUT_SCHEMAS.twitter_search_recent },
+      { name: 'twitter_get_tweet', description: 'Get tweet by ID', inputSchema: TOOL_INPUT_SCHEMAS.twitter_get_tweet },
+      { name: 'twitter_user_followers', description: 'Get user followers', inputSchema: TOOL_INPUT_SCHEMAS.twitter_user_followers },
+      { name: 'twitter_trending', description: 'Search trending topics', inputSchema: TOOL_INPUT_SCHEMAS.twitter_trending },
     ],
   },
   {
@@ -391,11 +397,11 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'linkedin_me', description: 'Get your profile', inputSchema: {} },
-      { name: 'linkedin_create_post', description: 'Create a post', inputSchema: { author: { type: 'string' }, text: { type: 'string' }, visibility: { type: 'string' } } },
-      { name: 'linkedin_get_connections', description: 'Get connections', inputSchema: { start: { type: 'number' }, count: { type: 'number' } } },
-      { name: 'linkedin_company_info', description: 'Get company info', inputSchema: { organization_id: { type: 'string' } } },
-      { name: 'linkedin_company_posts', description: 'Get company posts', inputSchema: { organization_id: { type: 'string' }, count: { type: 'number' } } },
+      { name: 'linkedin_me', description: 'Get your profile', inputSchema: TOOL_INPUT_SCHEMAS.linkedin_me },
+      { name: 'linkedin_create_post', description: 'Create a post', inputSchema: TOOL_INPUT_SCHEMAS.linkedin_create_post },
+      { name: 'linkedin_get_connections', description: 'Get connections', inputSchema: TOOL_INPUT_SCHEMAS.linkedin_get_connections },
+      { name: 'linkedin_company_info', description: 'Get company info', inputSchema: TOOL_INPUT_SCHEMAS.linkedin_company_info },
+      { name: 'linkedin_company_posts', description: 'Get company posts', inputSchema: TOOL_INPUT_SCHEMAS.linkedin_company_posts },
     ],
   },
   {
@@ -407,14 +413,14 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'twilio_send_sms', description: 'Send an SMS message', inputSchema: { to: { type: 'string' }, from: { type: 'string' }, body: { type: 'string' } } },
-      { name: 'twilio_list_messages', description: 'List SMS messages', inputSchema: { limit: { type: 'number' } } },
-      { name: 'twilio_get_message', description: 'Get message details', inputSchema: { message_sid: { type: 'string' } } },
-      { name: 'twilio_list_phone_numbers', description: 'List your phone numbers', inputSchema: {} },
-      { name: 'twilio_get_phone_number', description: 'Get phone number details', inputSchema: { phone_sid: { type: 'string' } } },
-      { name: 'twilio_list_calls', description: 'List call logs', inputSchema: { limit: { type: 'number' } } },
-      { name: 'twilio_get_account', description: 'Get account info', inputSchema: {} },
-      { name: 'twilio_lookup_phone', description: 'Lookup phone number info', inputSchema: { phone_number: { type: 'string' } } },
+      { name: 'twilio_send_sms', description: 'Send an SMS message', inputSchema: TOOL_INPUT_SCHEMAS.twilio_send_sms },
+      { name: 'twilio_list_messages', description: 'List SMS messages', inputSchema: TOOL_INPUT_SCHEMAS.twilio_list_messages },
+      { name: 'twilio_get_message', description: 'Get message details', inputSchema: TOOL_INPUT_SCHEMAS.twilio_get_message },
+      { name: 'twilio_list_phone_numbers', description: 'List your phone numbers', inputSchema: TOOL_INPUT_SCHEMAS.twilio_list_phone_numbers },
+      { name: 'twilio_get_phone_number', description: 'Get phone number details', inputSchema: TOOL_INPUT_SCHEMAS.twilio_get_phone_number },
+      { name: 'twilio_list_calls', description: 'List call logs', inputSchema: TOOL_INPUT_SCHEMAS.twilio_list_calls },
+      { name: 'twilio_get_account', description: 'Get account info', inputSchema: TOOL_INPUT_SCHEMAS.twilio_get_account },
+      { name: 'twilio_lookup_phone', description: 'Lookup phone number info', inputSchema: TOOL_INPUT_SCHEMAS.twilio_lookup_phone },
     ],
   },
   {
@@ -426,11 +432,11 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'zapier_trigger_webhook', description: 'Trigger a Zap webhook', inputSchema: { payload: { type: 'object' } } },
-      { name: 'zapier_trigger_with_data', description: 'Trigger with structured data + metadata', inputSchema: { data: { type: 'object' }, metadata: { type: 'object' } } },
-      { name: 'zapier_validate_webhook', description: 'Validate a Zapier webhook URL', inputSchema: { webhook_url: { type: 'string' } } },
-      { name: 'zapier_trigger_catch_hook', description: 'Trigger a Catch Hook', inputSchema: { payload: { type: 'object' } } },
-      { name: 'zapier_multi_trigger', description: 'Trigger multiple webhooks at once', inputSchema: { webhook_urls: { type: 'array' }, payload: { type: 'object' } } },
+      { name: 'zapier_trigger_webhook', description: 'Trigger a Zap webhook', inputSchema: TOOL_INPUT_SCHEMAS.zapier_trigger_webhook },
+      { name: 'zapier_trigger_with_data', description: 'Trigger with structured data + metadata', inputSchema: TOOL_INPUT_SCHEMAS.zapier_trigger_with_data },
+      { name: 'zapier_validate_webhook', description: 'Validate a Zapier webhook URL', inputSchema: TOOL_INPUT_SCHEMAS.zapier_validate_webhook },
+      { name: 'zapier_trigger_catch_hook', description: 'Trigger a Catch Hook', inputSchema: TOOL_INPUT_SCHEMAS.zapier_trigger_catch_hook },
+      { name: 'zapier_multi_trigger', description: 'Trigger multiple webhooks at once', inputSchema: TOOL_INPUT_SCHEMAS.zapier_multi_trigger },
     ],
   },
   {
@@ -442,14 +448,14 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'airtable_list_bases', description: 'List all bases', inputSchema: {} },
-      { name: 'airtable_get_base_schema', description: 'Get tables and fields for a base', inputSchema: { base_id: { type: 'string' } } },
-      { name: 'airtable_list_records', description: 'List records in a table', inputSchema: { base_id: { type: 'string' }, table_id_or_name: { type: 'string' }, max_records: { type: 'number' }, view: { type: 'string' }, filter_formula: { type: 'string' } } },
-      { name: 'airtable_get_record', description: 'Get a single record', inputSchema: { base_id: { type: 'string' }, table_id_or_name: { type: 'string' }, record_id: { type: 'string' } } },
-      { name: 'airtable_create_records', description: 'Create new records', inputSchema: { base_id: { type: 'string' }, table_id_or_name: { type: 'string' }, records: { type: 'array' } } },
-      { name: 'airtable_update_records', description: 'Update existing records', inputSchema: { base_id: { type: 'string' }, table_id_or_name: { type: 'string' }, records: { type: 'array' } } },
-      { name: 'airtable_delete_records', description: 'Delete records', inputSchema: { base_id: { type: 'string' }, table_id_or_name: { type: 'string' }, record_ids: { type: 'array' } } },
-      { name: 'airtable_create_table', description: 'Create a new table', inputSchema: { base_id: { type: 'string' }, name: { type: 'string' }, fields: { type: 'array' } } },
+      { name: 'airtable_list_bases', description: 'List all bases', inputSchema: TOOL_INPUT_SCHEMAS.airtable_list_bases },
+      { name: 'airtable_get_base_schema', description: 'Get tables and fields for a base', inputSchema: TOOL_INPUT_SCHEMAS.airtable_get_base_schema },
+      { name: 'airtable_list_records', description: 'List records in a table', inputSchema: TOOL_INPUT_SCHEMAS.airtable_list_records },
+      { name: 'airtable_get_record', description: 'Get a single record', inputSchema: TOOL_INPUT_SCHEMAS.airtable_get_record },
+      { name: 'airtable_create_records', description: 'Create new records', inputSchema: TOOL_INPUT_SCHEMAS.airtable_create_records },
+      { name: 'airtable_update_records', description: 'Update existing records', inputSchema: TOOL_INPUT_SCHEMAS.airtable_update_records },
+      { name: 'airtable_delete_records', description: 'Delete records', inputSchema: TOOL_INPUT_SCHEMAS.airtable_delete_records },
+      { name: 'airtable_create_table', description: 'Create a new table', inputSchema: TOOL_INPUT_SCHEMAS.airtable_create_table },
     ],
   },
   {
@@ -461,18 +467,18 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'jira_list_projects', description: 'List all projects', inputSchema: {} },
-      { name: 'jira_get_project', description: 'Get project details', inputSchema: { project_key: { type: 'string' } } },
-      { name: 'jira_search_issues', description: 'Search issues with JQL', inputSchema: { jql: { type: 'string' }, max_results: { type: 'number' } } },
-      { name: 'jira_get_issue', description: 'Get issue details', inputSchema: { issue_key: { type: 'string' } } },
-      { name: 'jira_create_issue', description: 'Create an issue', inputSchema: { project_key: { type: 'string' }, summary: { type: 'string' }, issue_type: { type: 'string' }, description: { type: 'string' } } },
-      { name: 'jira_update_issue', description: 'Update issue fields', inputSchema: { issue_key: { type: 'string' }, fields: { type: 'object' } } },
-      { name: 'jira_transition_issue', description: 'Transition issue status', inputSchema: { issue_key: { type: 'string' }, transition_id: { type: 'string' } } },
-      { name: 'jira_get_transitions', description: 'Get available transitions', inputSchema: { issue_key: { type: 'string' } } },
-      { name: 'jira_add_comment', description: 'Add a comment', inputSchema: { issue_key: { type: 'string' }, body: { type: 'string' } } },
-      { name: 'jira_list_sprints', description: 'List sprints for a board', inputSchema: { board_id: { type: 'string' }, state: { type: 'string' } } },
-      { name: 'jira_get_sprint_issues', description: 'Get issues in a sprint', inputSchema: { sprint_id: { type: 'string' }, max_results: { type: 'number' } } },
-      { name: 'jira_assign_issue', description: 'Assign issue to user', inputSchema: { issue_key: { type: 'string' }, account_id: { type: 'string' } } },
+      { name: 'jira_list_projects', description: 'List all projects', inputSchema: TOOL_INPUT_SCHEMAS.jira_list_projects },
+      { name: 'jira_get_project', description: 'Get project details', inputSchema: TOOL_INPUT_SCHEMAS.jira_get_project },
+      { name: 'jira_search_issues', description: 'Search issues with JQL', inputSchema: TOOL_INPUT_SCHEMAS.jira_search_issues },
+      { name: 'jira_get_issue', description: 'Get issue details', inputSchema: TOOL_INPUT_SCHEMAS.jira_get_issue },
+      { name: 'jira_create_issue', description: 'Create an issue', inputSchema: TOOL_INPUT_SCHEMAS.jira_create_issue },
+      { name: 'jira_update_issue', description: 'Update issue fields', inputSchema: TOOL_INPUT_SCHEMAS.jira_update_issue },
+      { name: 'jira_transition_issue', description: 'Transition issue status', inputSchema: TOOL_INPUT_SCHEMAS.jira_transition_issue },
+      { name: 'jira_get_transitions', description: 'Get available transitions', inputSchema: TOOL_INPUT_SCHEMAS.jira_get_transitions },
+      { name: 'jira_add_comment', description: 'Add a comment', inputSchema: TOOL_INPUT_SCHEMAS.jira_add_comment },
+      { name: 'jira_list_sprints', description: 'List sprints for a board', inputSchema: TOOL_INPUT_SCHEMAS.jira_list_sprints },
+      { name: 'jira_get_sprint_issues', description: 'Get issues in a sprint', inputSchema: TOOL_INPUT_SCHEMAS.jira_get_sprint_issues },
+      { name: 'jira_assign_issue', description: 'Assign issue to user', inputSchema: TOOL_INPUT_SCHEMAS.jira_assign_issue },
     ],
   },
   {
@@ -484,17 +490,17 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'sf_query', description: 'Run a SOQL query', inputSchema: { soql: { type: 'string' } } },
-      { name: 'sf_get_record', description: 'Get a record by ID', inputSchema: { object_type: { type: 'string' }, record_id: { type: 'string' } } },
-      { name: 'sf_create_record', description: 'Create a record', inputSchema: { object_type: { type: 'string' }, fields: { type: 'object' } } },
-      { name: 'sf_update_record', description: 'Update a record', inputSchema: { object_type: { type: 'string' }, record_id: { type: 'string' }, fields: { type: 'object' } } },
-      { name: 'sf_delete_record', description: 'Delete a record', inputSchema: { object_type: { type: 'string' }, record_id: { type: 'string' } } },
-      { name: 'sf_describe_object', description: 'Describe object schema', inputSchema: { object_type: { type: 'string' } } },
-      { name: 'sf_list_objects', description: 'List all objects', inputSchema: {} },
-      { name: 'sf_search', description: 'SOSL search', inputSchema: { sosl: { type: 'string' } } },
-      { name: 'sf_list_leads', description: 'List recent leads', inputSchema: { limit: { type: 'number' } } },
-      { name: 'sf_list_contacts', description: 'List recent contacts', inputSchema: { limit: { type: 'number' } } },
-      { name: 'sf_list_opportunities', description: 'List recent opportunities', inputSchema: { limit: { type: 'number' } } },
+      { name: 'sf_query', description: 'Run a SOQL query', inputSchema: TOOL_INPUT_SCHEMAS.sf_query },
+      { name: 'sf_get_record', description: 'Get a record by ID', inputSchema: TOOL_INPUT_SCHEMAS.sf_get_record },
+      { name: 'sf_create_record', description: 'Create a record', inputSchema: TOOL_INPUT_SCHEMAS.sf_create_record },
+      { name: 'sf_update_record', description: 'Update a record', inputSchema: TOOL_INPUT_SCHEMAS.sf_update_record },
+      { name: 'sf_delete_record', description: 'Delete a record', inputSchema: TOOL_INPUT_SCHEMAS.sf_delete_record },
+      { name: 'sf_describe_object', description: 'Describe object schema', inputSchema: TOOL_INPUT_SCHEMAS.sf_describe_object },
+      { name: 'sf_list_objects', description: 'List all objects', inputSchema: TOOL_INPUT_SCHEMAS.sf_list_objects },
+      { name: 'sf_search', description: 'SOSL search', inputSchema: TOOL_INPUT_SCHEMAS.sf_search },
+      { name: 'sf_list_leads', description: 'List recent leads', inputSchema: TOOL_INPUT_SCHEMAS.sf_list_leads },
+      { name: 'sf_list_contacts', description: 'List recent contacts', inputSchema: TOOL_INPUT_SCHEMAS.sf_list_contacts },
+      { name: 'sf_list_opportunities', description: 'List recent opportunities', inputSchema: TOOL_INPUT_SCHEMAS.sf_list_opportunities },
     ],
   },
   {
@@ -506,19 +512,19 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'hubspot_list_contacts', description: 'List contacts', inputSchema: { limit: { type: 'number' } } },
-      { name: 'hubspot_get_contact', description: 'Get contact details', inputSchema: { contact_id: { type: 'string' } } },
-      { name: 'hubspot_create_contact', description: 'Create a contact', inputSchema: { properties: { type: 'object' } } },
-      { name: 'hubspot_update_contact', description: 'Update a contact', inputSchema: { contact_id: { type: 'string' }, properties: { type: 'object' } } },
-      { name: 'hubspot_list_deals', description: 'List deals', inputSchema: { limit: { type: 'number' } } },
-      { name: 'hubspot_get_deal', description: 'Get deal details', inputSchema: { deal_id: { type: 'string' } } },
-      { name: 'hubspot_create_deal', description: 'Create a deal', inputSchema: { properties: { type: 'object' } } },
-      { name: 'hubspot_update_deal', description: 'Update a deal', inputSchema: { deal_id: { type: 'string' }, properties: { type: 'object' } } },
-      { name: 'hubspot_list_companies', description: 'List companies', inputSchema: { limit: { type: 'number' } } },
-      { name: 'hubspot_create_company', description: 'Create a company', inputSchema: { properties: { type: 'object' } } },
-      { name: 'hubspot_list_pipelines', description: 'List pipelines', inputSchema: { object_type: { type: 'string' } } },
-      { name: 'hubspot_search', description: 'Search CRM objects', inputSchema: { object_type: { type: 'string' }, query: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'hubspot_list_owners', description: 'List owners', inputSchema: { limit: { type: 'number' } } },
+      { name: 'hubspot_list_contacts', description: 'List contacts', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_list_contacts },
+      { name: 'hubspot_get_contact', description: 'Get contact details', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_get_contact },
+      { name: 'hubspot_create_contact', description: 'Create a contact', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_create_contact },
+      { name: 'hubspot_update_contact', description: 'Update a contact', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_update_contact },
+      { name: 'hubspot_list_deals', description: 'List deals', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_list_deals },
+      { name: 'hubspot_get_deal', description: 'Get deal details', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_get_deal },
+      { name: 'hubspot_create_deal', description: 'Create a deal', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_create_deal },
+      { name: 'hubspot_update_deal', description: 'Update a deal', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_update_deal },
+      { name: 'hubspot_list_companies', description: 'List companies', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_list_companies },
+      { name: 'hubspot_create_company', description: 'Create a company', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_create_company },
+      { name: 'hubspot_list_pipelines', description: 'List pipelines', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_list_pipelines },
+      { name: 'hubspot_search', description: 'Search CRM objects', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_search },
+      { name: 'hubspot_list_owners', description: 'List owners', inputSchema: TOOL_INPUT_SCHEMAS.hubspot_list_owners },
     ],
   },
   {
@@ -530,16 +536,16 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'monday_list_boards', description: 'List boards', inputSchema: { limit: { type: 'number' } } },
-      { name: 'monday_get_board', description: 'Get board details', inputSchema: { board_id: { type: 'string' } } },
-      { name: 'monday_list_items', description: 'List items in a board', inputSchema: { board_id: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'monday_get_item', description: 'Get item details', inputSchema: { item_id: { type: 'string' } } },
-      { name: 'monday_create_item', description: 'Create an item', inputSchema: { board_id: { type: 'string' }, item_name: { type: 'string' }, group_id: { type: 'string' }, column_values: { type: 'object' } } },
-      { name: 'monday_update_item', description: 'Update item columns', inputSchema: { board_id: { type: 'string' }, item_id: { type: 'string' }, column_values: { type: 'object' } } },
-      { name: 'monday_delete_item', description: 'Delete an item', inputSchema: { item_id: { type: 'string' } } },
-      { name: 'monday_add_update', description: 'Add an update to an item', inputSchema: { item_id: { type: 'string' }, body: { type: 'string' } } },
-      { name: 'monday_list_groups', description: 'List groups in a board', inputSchema: { board_id: { type: 'string' } } },
-      { name: 'monday_create_group', description: 'Create a group', inputSchema: { board_id: { type: 'string' }, group_name: { type: 'string' } } },
+      { name: 'monday_list_boards', description: 'List boards', inputSchema: TOOL_INPUT_SCHEMAS.monday_list_boards },
+      { name: 'monday_get_board', description: 'Get board details', inputSchema: TOOL_INPUT_SCHEMAS.monday_get_board },
+      { name: 'monday_list_items', description: 'List items in a board', inputSchema: TOOL_INPUT_SCHEMAS.monday_list_items },
+      { name: 'monday_get_item', description: 'Get item details', inputSchema: TOOL_INPUT_SCHEMAS.monday_get_item },
+      { name: 'monday_create_item', description: 'Create an item', inputSchema: TOOL_INPUT_SCHEMAS.monday_create_item },
+      { name: 'monday_update_item', description: 'Update item columns', inputSchema: TOOL_INPUT_SCHEMAS.monday_update_item },
+      { name: 'monday_delete_item', description: 'Delete an item', inputSchema: TOOL_INPUT_SCHEMAS.monday_delete_item },
+      { name: 'monday_add_update', description: 'Add an update to an item', inputSchema: TOOL_INPUT_SCHEMAS.monday_add_update },
+      { name: 'monday_list_groups', description: 'List groups in a board', inputSchema: TOOL_INPUT_SCHEMAS.monday_list_groups },
+      { name: 'monday_create_group', description: 'Create a group', inputSchema: TOOL_INPUT_SCHEMAS.monday_create_group },
     ],
   },
   {
@@ -551,17 +557,17 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'asana_list_workspaces', description: 'List workspaces', inputSchema: {} },
-      { name: 'asana_list_projects', description: 'List projects', inputSchema: { workspace_gid: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'asana_get_project', description: 'Get project details', inputSchema: { project_gid: { type: 'string' } } },
-      { name: 'asana_list_tasks', description: 'List tasks', inputSchema: { project_gid: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'asana_get_task', description: 'Get task details', inputSchema: { task_gid: { type: 'string' } } },
-      { name: 'asana_create_task', description: 'Create a task', inputSchema: { name: { type: 'string' }, projects: { type: 'array' }, assignee: { type: 'string' }, due_on: { type: 'string' }, notes: { type: 'string' } } },
-      { name: 'asana_update_task', description: 'Update a task', inputSchema: { task_gid: { type: 'string' }, fields: { type: 'object' } } },
-      { name: 'asana_delete_task', description: 'Delete a task', inputSchema: { task_gid: { type: 'string' } } },
-      { name: 'asana_add_comment', description: 'Add a comment', inputSchema: { task_gid: { type: 'string' }, text: { type: 'string' } } },
-      { name: 'asana_list_sections', description: 'List project sections', inputSchema: { project_gid: { type: 'string' } } },
-      { name: 'asana_search_tasks', description: 'Search tasks', inputSchema: { workspace_gid: { type: 'string' }, text: { type: 'string' }, completed: { type: 'boolean' } } },
+      { name: 'asana_list_workspaces', description: 'List workspaces', inputSchema: TOOL_INPUT_SCHEMAS.asana_list_workspaces },
+      { name: 'asana_list_projects', description: 'List projects', inputSchema: TOOL_INPUT_SCHEMAS.asana_list_projects },
+      { name: 'asana_get_project', description: 'Get project details', inputSchema: TOOL_INPUT_SCHEMAS.asana_get_project },
+      { name: 'asana_list_tasks', description: 'List tasks', inputSchema: TOOL_INPUT_SCHEMAS.asana_list_tasks },
+      { name: 'asana_get_task', description: 'Get task details', inputSchema: TOOL_INPUT_SCHEMAS.asana_get_task },
+      { name: 'asana_create_task', description: 'Create a task', inputSchema: TOOL_INPUT_SCHEMAS.asana_create_task },
+      { name: 'asana_update_task', description: 'Update a task', inputSchema: TOOL_INPUT_SCHEMAS.asana_update_task },
+      { name: 'asana_delete_task', description: 'Delete a task', inputSchema: TOOL_INPUT_SCHEMAS.asana_delete_task },
+      { name: 'asana_add_comment', description: 'Add a comment', inputSchema: TOOL_INPUT_SCHEMAS.asana_add_comment },
+      { name: 'asana_list_sections', description: 'List project sections', inputSchema: TOOL_INPUT_SCHEMAS.asana_list_sections },
+      { name: 'asana_search_tasks', description: 'Search tasks', inputSchema: TOOL_INPUT_SCHEMAS.asana_search_tasks },
     ],
   },
   {
@@ -573,20 +579,20 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'discord_get_me', description: 'Get bot info', inputSchema: {} },
-      { name: 'discord_list_guilds', description: 'List servers', inputSchema: {} },
-      { name: 'discord_get_guild', description: 'Get server details', inputSchema: { guild_id: { type: 'string' } } },
-      { name: 'discord_list_channels', description: 'List channels', inputSchema: { guild_id: { type: 'string' } } },
-      { name: 'discord_get_channel', description: 'Get channel details', inputSchema: { channel_id: { type: 'string' } } },
-      { name: 'discord_create_channel', description: 'Create a channel', inputSchema: { guild_id: { type: 'string' }, name: { type: 'string' }, type: { type: 'number' }, topic: { type: 'string' } } },
-      { name: 'discord_delete_channel', description: 'Delete a channel', inputSchema: { channel_id: { type: 'string' } } },
-      { name: 'discord_send_message', description: 'Send a message', inputSchema: { channel_id: { type: 'string' }, content: { type: 'string' }, embeds: { type: 'array' } } },
-      { name: 'discord_get_messages', description: 'Get channel messages', inputSchema: { channel_id: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'discord_edit_message', description: 'Edit a message', inputSchema: { channel_id: { type: 'string' }, message_id: { type: 'string' }, content: { type: 'string' } } },
-      { name: 'discord_delete_message', description: 'Delete a message', inputSchema: { channel_id: { type: 'string' }, message_id: { type: 'string' } } },
-      { name: 'discord_add_reaction', description: 'Add a reaction', inputSchema: { channel_id: { type: 'string' }, message_id: { type: 'string' }, emoji: { type: 'string' } } },
-      { name: 'discord_list_members', description: 'List server members', inputSchema: { guild_id: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'discord_get_member', description: 'Get member details', inputSchema: { guild_id: { type: 'string' }, user_id: { type: 'string' } } },
+      { name: 'discord_get_me', description: 'Get bot info', inputSchema: TOOL_INPUT_SCHEMAS.discord_get_me },
+      { name: 'discord_list_guilds', description: 'List servers', inputSchema: TOOL_INPUT_SCHEMAS.discord_list_guilds },
+      { name: 'discord_get_guild', description: 'Get server details', inputSchema: TOOL_INPUT_SCHEMAS.discord_get_guild },
+      { name: 'discord_list_channels', description: 'List channels', inputSchema: TOOL_INPUT_SCHEMAS.discord_list_channels },
+      { name: 'discord_get_channel', description: 'Get channel details', inputSchema: TOOL_INPUT_SCHEMAS.discord_get_channel },
+      { name: 'discord_create_channel', description: 'Create a channel', inputSchema: TOOL_INPUT_SCHEMAS.discord_create_channel },
+      { name: 'discord_delete_channel', description: 'Delete a channel', inputSchema: TOOL_INPUT_SCHEMAS.discord_delete_channel },
+      { name: 'discord_send_message', description: 'Send a message', inputSchema: TOOL_INPUT_SCHEMAS.discord_send_message },
+      { name: 'discord_get_messages', description: 'Get channel messages', inputSchema: TOOL_INPUT_SCHEMAS.discord_get_messages },
+      { name: 'discord_edit_message', description: 'Edit a message', inputSchema: TOOL_INPUT_SCHEMAS.discord_edit_message },
+      { name: 'discord_delete_message', description: 'Delete a message', inputSchema: TOOL_INPUT_SCHEMAS.discord_delete_message },
+      { name: 'discord_add_reaction', description: 'Add a reaction', inputSchema: TOOL_INPUT_SCHEMAS.discord_add_reaction },
+      { name: 'discord_list_members', description: 'List server members', inputSchema: TOOL_INPUT_SCHEMAS.discord_list_members },
+      { name: 'discord_get_member', description: 'Get member details', inputSchema: TOOL_INPUT_SCHEMAS.discord_get_member },
     ],
   },
   {
@@ -598,19 +604,19 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'trello_list_boards', description: 'List your boards', inputSchema: {} },
-      { name: 'trello_get_board', description: 'Get board details', inputSchema: { board_id: { type: 'string' } } },
-      { name: 'trello_list_lists', description: 'List lists in a board', inputSchema: { board_id: { type: 'string' } } },
-      { name: 'trello_create_list', description: 'Create a list', inputSchema: { board_id: { type: 'string' }, name: { type: 'string' } } },
-      { name: 'trello_list_cards', description: 'List cards in a list', inputSchema: { list_id: { type: 'string' } } },
-      { name: 'trello_get_card', description: 'Get card details', inputSchema: { card_id: { type: 'string' } } },
-      { name: 'trello_create_card', description: 'Create a card', inputSchema: { list_id: { type: 'string' }, name: { type: 'string' }, desc: { type: 'string' } } },
-      { name: 'trello_update_card', description: 'Update a card', inputSchema: { card_id: { type: 'string' }, fields: { type: 'object' } } },
-      { name: 'trello_delete_card', description: 'Delete a card', inputSchema: { card_id: { type: 'string' } } },
-      { name: 'trello_move_card', description: 'Move card to another list', inputSchema: { card_id: { type: 'string' }, list_id: { type: 'string' } } },
-      { name: 'trello_add_comment', description: 'Add a comment to a card', inputSchema: { card_id: { type: 'string' }, text: { type: 'string' } } },
-      { name: 'trello_list_members', description: 'List board members', inputSchema: { board_id: { type: 'string' } } },
-      { name: 'trello_list_labels', description: 'List board labels', inputSchema: { board_id: { type: 'string' } } },
+      { name: 'trello_list_boards', description: 'List your boards', inputSchema: TOOL_INPUT_SCHEMAS.trello_list_boards },
+      { name: 'trello_get_board', description: 'Get board details', inputSchema: TOOL_INPUT_SCHEMAS.trello_get_board },
+      { name: 'trello_list_lists', description: 'List lists in a board', inputSchema: TOOL_INPUT_SCHEMAS.trello_list_lists },
+      { name: 'trello_create_list', description: 'Create a list', inputSchema: TOOL_INPUT_SCHEMAS.trello_create_list },
+      { name: 'trello_list_cards', description: 'List cards in a list', inputSchema: TOOL_INPUT_SCHEMAS.trello_list_cards },
+      { name: 'trello_get_card', description: 'Get card details', inputSchema: TOOL_INPUT_SCHEMAS.trello_get_card },
+      { name: 'trello_create_card', description: 'Create a card', inputSchema: TOOL_INPUT_SCHEMAS.trello_create_card },
+      { name: 'trello_update_card', description: 'Update a card', inputSchema: TOOL_INPUT_SCHEMAS.trello_update_card },
+      { name: 'trello_delete_card', description: 'Delete a card', inputSchema: TOOL_INPUT_SCHEMAS.trello_delete_card },
+      { name: 'trello_move_card', description: 'Move card to another list', inputSchema: TOOL_INPUT_SCHEMAS.trello_move_card },
+      { name: 'trello_add_comment', description: 'Add a comment to a card', inputSchema: TOOL_INPUT_SCHEMAS.trello_add_comment },
+      { name: 'trello_list_members', description: 'List board members', inputSchema: TOOL_INPUT_SCHEMAS.trello_list_members },
+      { name: 'trello_list_labels', description: 'List board labels', inputSchema: TOOL_INPUT_SCHEMAS.trello_list_labels },
     ],
   },
   {
@@ -622,18 +628,18 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'sendgrid_send_email', description: 'Send an email', inputSchema: { to: { type: 'string' }, from: { type: 'string' }, subject: { type: 'string' }, text: { type: 'string' }, html: { type: 'string' } } },
-      { name: 'sendgrid_list_contacts', description: 'List contacts', inputSchema: { page_size: { type: 'number' } } },
-      { name: 'sendgrid_search_contacts', description: 'Search contacts', inputSchema: { query: { type: 'string' } } },
-      { name: 'sendgrid_add_contacts', description: 'Add/update contacts', inputSchema: { contacts: { type: 'array' }, list_ids: { type: 'array' } } },
-      { name: 'sendgrid_delete_contacts', description: 'Delete contacts', inputSchema: { ids: { type: 'array' } } },
-      { name: 'sendgrid_list_lists', description: 'List contact lists', inputSchema: { page_size: { type: 'number' } } },
-      { name: 'sendgrid_create_list', description: 'Create a list', inputSchema: { name: { type: 'string' } } },
-      { name: 'sendgrid_delete_list', description: 'Delete a list', inputSchema: { list_id: { type: 'string' } } },
-      { name: 'sendgrid_list_templates', description: 'List email templates', inputSchema: { generations: { type: 'string' }, page_size: { type: 'number' } } },
-      { name: 'sendgrid_get_template', description: 'Get template details', inputSchema: { template_id: { type: 'string' } } },
-      { name: 'sendgrid_get_stats', description: 'Get email stats', inputSchema: { start_date: { type: 'string' }, end_date: { type: 'string' } } },
-      { name: 'sendgrid_list_senders', description: 'List verified senders', inputSchema: {} },
+      { name: 'sendgrid_send_email', description: 'Send an email', inputSchema: TOOL_INPUT_SCHEMAS.sendgrid_send_email },
+      { name: 'sendgrid_list_contacts', description: 'List contacts', inputSchema: TOOL_INPUT_SCHEMAS.sendgrid_list_contacts },
+      { name: 'sendgrid_search_contacts', description: 'Search contacts', inputSchema: TOOL_INPUT_SCHEMAS.sendgrid_search_contacts },
+      { name: 'sendgrid_add_contacts', description: 'Add/update contacts', inputSchema: TOOL_INPUT_SCHEMAS.sendgrid_add_contacts },
+      { name: 'sendgrid_delete_contacts', description: 'Delete contacts', inputSchema: TOOL_INPUT_SCHEMAS.sendgrid_delete_contacts },
+      { name: 'sendgrid_list_lists', description: 'List contact lists', inputSchema: TOOL_INPUT_SCHEMAS.sendgrid_list_lists },
+      { name: 'sendgrid_create_list', description: 'Create a list', inputSchema: TOOL_INPUT_SCHEMAS.sendgrid_create_list },
+      { name: 'sendgrid_delete_list', description: 'Delete a list', inputSchema: TOOL_INPUT_SCHEMAS.sendgrid_delete_list },
+      { name: 'sendgrid_list_templates', description: 'List email templates', inputSchema: TOOL_INPUT_SCHEMAS.sendgrid_list_templates },
+      { name: 'sendgrid_get_template', description: 'Get template details', inputSchema: TOOL_INPUT_SCHEMAS.sendgrid_get_template },
+      { name: 'sendgrid_get_stats', description: 'Get email stats', inputSchema: TOOL_INPUT_SCHEMAS.sendgrid_get_stats },
+      { name: 'sendgrid_list_senders', description: 'List verified senders', inputSchema: TOOL_INPUT_SCHEMAS.sendgrid_list_senders },
     ],
   },
   // ─── Blockchain & DeFi ───
@@ -646,14 +652,14 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'moralis.getWalletTokenBalances', description: 'Get ERC-20 token balances for a wallet', inputSchema: { address: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'moralis.getWalletNFTs', description: 'Get NFTs owned by a wallet', inputSchema: { address: { type: 'string' }, chain: { type: 'string' }, limit: { type: 'number' }, cursor: { type: 'string' } } },
-      { name: 'moralis.getWalletTokenTransfers', description: 'Get ERC-20 transfer history', inputSchema: { address: { type: 'string' }, chain: { type: 'string' }, limit: { type: 'number' }, cursor: { type: 'string' } } },
-      { name: 'moralis.getTokenPrice', description: 'Get current token price in USD', inputSchema: { address: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'moralis.getNFTMetadata', description: 'Get NFT token metadata', inputSchema: { address: { type: 'string' }, token_id: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'moralis.getContractEvents', description: 'Get contract event logs by topic', inputSchema: { address: { type: 'string' }, chain: { type: 'string' }, topic: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'moralis.getWalletHistory', description: 'Get full wallet transaction history', inputSchema: { address: { type: 'string' }, chain: { type: 'string' }, limit: { type: 'number' }, cursor: { type: 'string' } } },
-      { name: 'moralis.resolveENS', description: 'Reverse-resolve address to ENS name', inputSchema: { address: { type: 'string' } } },
+      { name: 'moralis.getWalletTokenBalances', description: 'Get ERC-20 token balances for a wallet', inputSchema: TOOL_INPUT_SCHEMAS['moralis.getWalletTokenBalances'] },
+      { name: 'moralis.getWalletNFTs', description: 'Get NFTs owned by a wallet', inputSchema: TOOL_INPUT_SCHEMAS['moralis.getWalletNFTs'] },
+      { name: 'moralis.getWalletTokenTransfers', description: 'Get ERC-20 transfer history', inputSchema: TOOL_INPUT_SCHEMAS['moralis.getWalletTokenTransfers'] },
+      { name: 'moralis.getTokenPrice', description: 'Get current token price in USD', inputSchema: TOOL_INPUT_SCHEMAS['moralis.getTokenPrice'] },
+      { name: 'moralis.getNFTMetadata', description: 'Get NFT token metadata', inputSchema: TOOL_INPUT_SCHEMAS['moralis.getNFTMetadata'] },
+      { name: 'moralis.getContractEvents', description: 'Get contract event logs by topic', inputSchema: TOOL_INPUT_SCHEMAS['moralis.getContractEvents'] },
+      { name: 'moralis.getWalletHistory', description: 'Get full wallet transaction history', inputSchema: TOOL_INPUT_SCHEMAS['moralis.getWalletHistory'] },
+      { name: 'moralis.resolveENS', description: 'Reverse-resolve address to ENS name', inputSchema: TOOL_INPUT_SCHEMAS['moralis.resolveENS'] },
     ],
   },
   {
@@ -665,13 +671,13 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'helius.getParsedTransaction', description: 'Parse a Solana transaction by signature', inputSchema: { signature: { type: 'string' } } },
-      { name: 'helius.getAccountState', description: 'Get current state of a Solana account', inputSchema: { pubkey: { type: 'string' } } },
-      { name: 'helius.getProgramAccounts', description: 'List accounts owned by a program', inputSchema: { programId: { type: 'string' }, filters: { type: 'array' } } },
-      { name: 'helius.getNFTMetadata', description: 'Get Solana NFT metadata by mint', inputSchema: { mint: { type: 'string' } } },
-      { name: 'helius.streamWalletActivity', description: 'Get recent wallet transaction activity', inputSchema: { wallet: { type: 'string' }, cursor: { type: 'string' } } },
-      { name: 'helius.getBalance', description: 'Get SOL balance for a pubkey', inputSchema: { pubkey: { type: 'string' } } },
-      { name: 'helius.getTokenAccounts', description: 'Get SPL token accounts for an owner', inputSchema: { owner: { type: 'string' } } },
+      { name: 'helius.getParsedTransaction', description: 'Parse a Solana transaction by signature', inputSchema: TOOL_INPUT_SCHEMAS['helius.getParsedTransaction'] },
+      { name: 'helius.getAccountState', description: 'Get current state of a Solana account', inputSchema: TOOL_INPUT_SCHEMAS['helius.getAccountState'] },
+      { name: 'helius.getProgramAccounts', description: 'List accounts owned by a program', inputSchema: TOOL_INPUT_SCHEMAS['helius.getProgramAccounts'] },
+      { name: 'helius.getNFTMetadata', description: 'Get Solana NFT metadata by mint', inputSchema: TOOL_INPUT_SCHEMAS['helius.getNFTMetadata'] },
+      { name: 'helius.streamWalletActivity', description: 'Get recent wallet transaction activity', inputSchema: TOOL_INPUT_SCHEMAS['helius.streamWalletActivity'] },
+      { name: 'helius.getBalance', description: 'Get SOL balance for a pubkey', inputSchema: TOOL_INPUT_SCHEMAS['helius.getBalance'] },
+      { name: 'helius.getTokenAccounts', description: 'Get SPL token accounts for an owner', inputSchema: TOOL_INPUT_SCHEMAS['helius.getTokenAccounts'] },
     ],
   },
   {
@@ -683,13 +689,17 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'evm_get_balance', description: 'Get ETH balance', inputSchema: { address: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'evm_get_block', description: 'Get block by number or tag', inputSchema: { block: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'evm_get_transaction', description: 'Get transaction by hash', inputSchema: { hash: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'evm_get_logs', description: 'Get event logs with filter', inputSchema: { address: { type: 'string' }, topics: { type: 'array' }, fromBlock: { type: 'string' }, toBlock: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'evm_call', description: 'Read-only contract call (eth_call)', inputSchema: { to: { type: 'string' }, data: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'evm_get_code', description: 'Get contract bytecode', inputSchema: { address: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'evm_chain_id', description: 'Get chain ID', inputSchema: { chain: { type: 'string' } } },
+      { name: 'evm_get_balance', description: 'Get ETH balance', inputSchema: TOOL_INPUT_SCHEMAS.evm_get_balance },
+      { name: 'evm_get_block', description: 'Get block by number or tag', inputSchema: TOOL_INPUT_SCHEMAS.evm_get_block },
+      { name: 'evm_get_transaction', description: 'Get transaction by hash', inputSchema: TOOL_INPUT_SCHEMAS.evm_get_transaction },
+      { name: 'evm_get_logs', description: 'Get event logs with filter', inputSchema: TOOL_INPUT_SCHEMAS.evm_get_logs },
+      { name: 'evm_call', description: 'Read-only contract call (eth_call)', inputSchema: TOOL_INPUT_SCHEMAS.evm_call },
+      { name: 'evm_get_code', description: 'Get contract bytecode', inputSchema: TOOL_INPUT_SCHEMAS.evm_get_code },
+      { name: 'evm_chain_id', description: 'Get chain ID', inputSchema: TOOL_INPUT_SCHEMAS.evm_chain_id },
+      { name: 'evm_block_number', description: 'Get latest block number', inputSchema: TOOL_INPUT_SCHEMAS.evm_block_number },
+      { name: 'evm_gas_price', description: 'Get current gas price', inputSchema: TOOL_INPUT_SCHEMAS.evm_gas_price },
+      { name: 'evm_estimate_gas', description: 'Estimate gas for a call', inputSchema: TOOL_INPUT_SCHEMAS.evm_estimate_gas },
+      { name: 'evm_get_transaction_receipt', description: 'Get transaction receipt', inputSchema: TOOL_INPUT_SCHEMAS.evm_get_transaction_receipt },
     ],
   },
   {
@@ -701,12 +711,18 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'solana_get_balance', description: 'Get SOL balance', inputSchema: { pubkey: { type: 'string' } } },
-      { name: 'solana_get_account_info', description: 'Get account info', inputSchema: { pubkey: { type: 'string' } } },
-      { name: 'solana_get_transaction', description: 'Get transaction details', inputSchema: { signature: { type: 'string' } } },
-      { name: 'solana_get_token_accounts', description: 'Get SPL token accounts', inputSchema: { owner: { type: 'string' } } },
-      { name: 'solana_get_signatures', description: 'Get recent signatures for address', inputSchema: { address: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'solana_get_nft_metadata', description: 'Get NFT token metadata', inputSchema: { mint: { type: 'string' } } },
+      { name: 'solana_get_balance', description: 'Get SOL balance', inputSchema: TOOL_INPUT_SCHEMAS.solana_get_balance },
+      { name: 'solana_get_account_info', description: 'Get account info', inputSchema: TOOL_INPUT_SCHEMAS.solana_get_account_info },
+      { name: 'solana_get_transaction', description: 'Get transaction details', inputSchema: TOOL_INPUT_SCHEMAS.solana_get_transaction },
+      { name: 'solana_get_token_accounts', description: 'Get SPL token accounts', inputSchema: TOOL_INPUT_SCHEMAS.solana_get_token_accounts },
+      { name: 'solana_get_signatures', description: 'Get recent signatures for address', inputSchema: TOOL_INPUT_SCHEMAS.solana_get_signatures },
+      { name: 'solana_get_nft_metadata', description: 'Get NFT token metadata', inputSchema: TOOL_INPUT_SCHEMAS.solana_get_nft_metadata },
+      { name: 'solana_get_program_accounts', description: 'List accounts owned by a program', inputSchema: TOOL_INPUT_SCHEMAS.solana_get_program_accounts },
+      { name: 'solana_get_slot', description: 'Get current slot', inputSchema: TOOL_INPUT_SCHEMAS.solana_get_slot },
+      { name: 'solana_get_block_height', description: 'Get block height', inputSchema: TOOL_INPUT_SCHEMAS.solana_get_block_height },
+      { name: 'solana_get_recent_blockhash', description: 'Get latest blockhash', inputSchema: TOOL_INPUT_SCHEMAS.solana_get_recent_blockhash },
+      { name: 'solana_get_supply', description: 'Get SOL supply', inputSchema: TOOL_INPUT_SCHEMAS.solana_get_supply },
+      { name: 'solana_get_epoch_info', description: 'Get epoch info', inputSchema: TOOL_INPUT_SCHEMAS.solana_get_epoch_info },
     ],
   },
   {
@@ -718,13 +734,13 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: false,
     authConfigured: true,
     tools: [
-      { name: 'coingecko_ping', description: 'Check API status', inputSchema: {} },
-      { name: 'coingecko_price', description: 'Get price for coins', inputSchema: { ids: { type: 'string' }, vs_currencies: { type: 'string' } } },
-      { name: 'coingecko_coin_detail', description: 'Get coin details', inputSchema: { id: { type: 'string' } } },
-      { name: 'coingecko_market_chart', description: 'Get price chart data', inputSchema: { id: { type: 'string' }, vs_currency: { type: 'string' }, days: { type: 'number' } } },
-      { name: 'coingecko_trending', description: 'Get trending coins', inputSchema: {} },
-      { name: 'coingecko_markets', description: 'Get market listings', inputSchema: { vs_currency: { type: 'string' }, per_page: { type: 'number' }, page: { type: 'number' } } },
-      { name: 'coingecko_search', description: 'Search coins', inputSchema: { query: { type: 'string' } } },
+      { name: 'coingecko_ping', description: 'Check API status', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_ping },
+      { name: 'coingecko_price', description: 'Get price for coins', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_price },
+      { name: 'coingecko_coin_detail', description: 'Get coin details', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_coin_detail },
+      { name: 'coingecko_market_chart', description: 'Get price chart data', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_market_chart },
+      { name: 'coingecko_trending', description: 'Get trending coins', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_trending },
+      { name: 'coingecko_markets', description: 'Get market listings', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_markets },
+      { name: 'coingecko_search', description: 'Search coins', inputSchema: TOOL_INPUT_SCHEMAS.coingecko_search },
     ],
   },
   {
@@ -736,11 +752,11 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'cmc_listings', description: 'Top crypto listings', inputSchema: { limit: { type: 'number' }, convert: { type: 'string' } } },
-      { name: 'cmc_quotes', description: 'Get crypto quotes', inputSchema: { symbol: { type: 'string' }, id: { type: 'string' }, convert: { type: 'string' } } },
-      { name: 'cmc_info', description: 'Get crypto metadata', inputSchema: { symbol: { type: 'string' }, id: { type: 'string' } } },
-      { name: 'cmc_map', description: 'Map of all cryptos', inputSchema: { limit: { type: 'number' } } },
-      { name: 'cmc_global_metrics', description: 'Global market metrics', inputSchema: { convert: { type: 'string' } } },
+      { name: 'cmc_listings', description: 'Top crypto listings', inputSchema: TOOL_INPUT_SCHEMAS.cmc_listings },
+      { name: 'cmc_quotes', description: 'Get crypto quotes', inputSchema: TOOL_INPUT_SCHEMAS.cmc_quotes },
+      { name: 'cmc_info', description: 'Get crypto metadata', inputSchema: TOOL_INPUT_SCHEMAS.cmc_info },
+      { name: 'cmc_map', description: 'Map of all cryptos', inputSchema: TOOL_INPUT_SCHEMAS.cmc_map },
+      { name: 'cmc_global_metrics', description: 'Global market metrics', inputSchema: TOOL_INPUT_SCHEMAS.cmc_global_metrics },
     ],
   },
   {
@@ -752,12 +768,12 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: false,
     authConfigured: true,
     tools: [
-      { name: 'defi_protocols', description: 'List all DeFi protocols', inputSchema: {} },
-      { name: 'defi_protocol_tvl', description: 'Get protocol TVL history', inputSchema: { protocol: { type: 'string' } } },
-      { name: 'defi_tvl_chains', description: 'TVL by chain', inputSchema: {} },
-      { name: 'defi_global_tvl', description: 'Global TVL history', inputSchema: {} },
-      { name: 'defi_yields', description: 'Top yield pools', inputSchema: { limit: { type: 'number' } } },
-      { name: 'defi_stablecoins', description: 'Stablecoin market data', inputSchema: {} },
+      { name: 'defi_protocols', description: 'List all DeFi protocols', inputSchema: TOOL_INPUT_SCHEMAS.defi_protocols },
+      { name: 'defi_protocol_tvl', description: 'Get protocol TVL history', inputSchema: TOOL_INPUT_SCHEMAS.defi_protocol_tvl },
+      { name: 'defi_tvl_chains', description: 'TVL by chain', inputSchema: TOOL_INPUT_SCHEMAS.defi_tvl_chains },
+      { name: 'defi_global_tvl', description: 'Global TVL history', inputSchema: TOOL_INPUT_SCHEMAS.defi_global_tvl },
+      { name: 'defi_yields', description: 'Top yield pools', inputSchema: TOOL_INPUT_SCHEMAS.defi_yields },
+      { name: 'defi_stablecoins', description: 'Stablecoin market data', inputSchema: TOOL_INPUT_SCHEMAS.defi_stablecoins },
     ],
   },
   {
@@ -769,11 +785,13 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'ci_decode_abi', description: 'Decode contract ABI from bytecode/address', inputSchema: { address: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'ci_verify_source', description: 'Get verified source code', inputSchema: { address: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'ci_analyze_contract', description: 'Static analysis of contract', inputSchema: { address: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'ci_decode_tx', description: 'Decode transaction input data', inputSchema: { tx_hash: { type: 'string' }, chain: { type: 'string' } } },
-      { name: 'ci_get_abi', description: 'Get ABI from verified contract', inputSchema: { address: { type: 'string' }, chain: { type: 'string' } } },
+      { name: 'contract_get_abi', description: 'Get ABI from verified contract', inputSchema: TOOL_INPUT_SCHEMAS.contract_get_abi },
+      { name: 'contract_get_source', description: 'Get verified source code', inputSchema: TOOL_INPUT_SCHEMAS.contract_get_source },
+      { name: 'contract_verified_status', description: 'Check verification and proxy status', inputSchema: TOOL_INPUT_SCHEMAS.contract_verified_status },
+      { name: 'contract_decode_calldata', description: 'Decode transaction calldata against an ABI', inputSchema: TOOL_INPUT_SCHEMAS.contract_decode_calldata },
+      { name: 'contract_get_creation_tx', description: 'Get contract creation transaction', inputSchema: TOOL_INPUT_SCHEMAS.contract_get_creation_tx },
+      { name: 'contract_get_events', description: 'Get contract event logs', inputSchema: TOOL_INPUT_SCHEMAS.contract_get_events },
+      { name: 'contract_get_transactions', description: 'List contract transactions', inputSchema: TOOL_INPUT_SCHEMAS.contract_get_transactions },
     ],
   },
   {
@@ -785,15 +803,15 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'sim_eth_call', description: 'Dry-run transaction via eth_call', inputSchema: { from: { type: 'string' }, to: { type: 'string' }, data: { type: 'string' }, value: { type: 'string' }, block: { type: 'string' } } },
-      { name: 'sim_estimate_gas', description: 'Estimate gas with cost breakdown', inputSchema: { from: { type: 'string' }, to: { type: 'string' }, data: { type: 'string' }, value: { type: 'string' } } },
-      { name: 'sim_trace_call', description: 'Trace call execution (requires archive node)', inputSchema: { from: { type: 'string' }, to: { type: 'string' }, data: { type: 'string' }, value: { type: 'string' }, block: { type: 'string' } } },
-      { name: 'sim_tenderly_simulate', description: 'Full simulation via Tenderly API', inputSchema: { from: { type: 'string' }, to: { type: 'string' }, data: { type: 'string' }, value: { type: 'string' }, chain_id: { type: 'number' }, save: { type: 'boolean' } } },
-      { name: 'sim_compare_gas', description: 'Compare gas costs of multiple calls', inputSchema: { calls: { type: 'array' } } },
-      { name: 'sim_decode_revert', description: 'Simulate and decode revert reason', inputSchema: { from: { type: 'string' }, to: { type: 'string' }, data: { type: 'string' }, value: { type: 'string' } } },
-      { name: 'wallet_send_transaction', description: 'Sign & send transaction via connected wallet (requires approval)', inputSchema: { to: { type: 'string' }, data: { type: 'string' }, value: { type: 'string' }, gas: { type: 'string' } } },
-      { name: 'wallet_sign_message', description: 'Sign a message with connected wallet', inputSchema: { message: { type: 'string' } } },
-      { name: 'wallet_get_address', description: 'Get connected wallet address and chain', inputSchema: {} },
+      { name: 'sim_eth_call', description: 'Dry-run transaction via eth_call', inputSchema: TOOL_INPUT_SCHEMAS.sim_eth_call },
+      { name: 'sim_estimate_gas', description: 'Estimate gas with cost breakdown', inputSchema: TOOL_INPUT_SCHEMAS.sim_estimate_gas },
+      { name: 'sim_trace_call', description: 'Trace call execution (requires archive node)', inputSchema: TOOL_INPUT_SCHEMAS.sim_trace_call },
+      { name: 'sim_tenderly_simulate', description: 'Full simulation via Tenderly API', inputSchema: TOOL_INPUT_SCHEMAS.sim_tenderly_simulate },
+      { name: 'sim_compare_gas', description: 'Compare gas costs of multiple calls', inputSchema: TOOL_INPUT_SCHEMAS.sim_compare_gas },
+      { name: 'sim_decode_revert', description: 'Simulate and decode revert reason', inputSchema: TOOL_INPUT_SCHEMAS.sim_decode_revert },
+      { name: 'wallet_send_transaction', description: 'Sign & send transaction via connected wallet (requires approval)', inputSchema: TOOL_INPUT_SCHEMAS.wallet_send_transaction },
+      { name: 'wallet_sign_message', description: 'Sign a message with connected wallet', inputSchema: TOOL_INPUT_SCHEMAS.wallet_sign_message },
+      { name: 'wallet_get_address', description: 'Get connected wallet address and chain', inputSchema: TOOL_INPUT_SCHEMAS.wallet_get_address },
     ],
   },
   // ─── AI & Search ───
@@ -806,11 +824,11 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'hf_inference', description: 'Run model inference', inputSchema: { model: { type: 'string' }, inputs: { type: 'string' } } },
-      { name: 'hf_list_models', description: 'Search models', inputSchema: { search: { type: 'string' }, limit: { type: 'number' }, sort: { type: 'string' } } },
-      { name: 'hf_model_info', description: 'Get model details', inputSchema: { model_id: { type: 'string' } } },
-      { name: 'hf_text_generation', description: 'Generate text', inputSchema: { prompt: { type: 'string' }, model: { type: 'string' }, max_tokens: { type: 'number' } } },
-      { name: 'hf_text_classification', description: 'Classify text', inputSchema: { text: { type: 'string' }, model: { type: 'string' } } },
+      { name: 'hf_inference', description: 'Run model inference', inputSchema: TOOL_INPUT_SCHEMAS.hf_inference },
+      { name: 'hf_list_models', description: 'Search models', inputSchema: TOOL_INPUT_SCHEMAS.hf_list_models },
+      { name: 'hf_model_info', description: 'Get model details', inputSchema: TOOL_INPUT_SCHEMAS.hf_model_info },
+      { name: 'hf_text_generation', description: 'Generate text', inputSchema: TOOL_INPUT_SCHEMAS.hf_text_generation },
+      { name: 'hf_text_classification', description: 'Classify text', inputSchema: TOOL_INPUT_SCHEMAS.hf_text_classification },
     ],
   },
   {
@@ -822,10 +840,10 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: false,
     authConfigured: true,
     tools: [
-      { name: 'firecrawl_scrape', description: 'Scrape a URL', inputSchema: { url: { type: 'string' }, formats: { type: 'array' } } },
-      { name: 'firecrawl_search', description: 'Search the web', inputSchema: { query: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'firecrawl_map', description: 'Map website URLs', inputSchema: { url: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'firecrawl_crawl', description: 'Crawl entire website', inputSchema: { url: { type: 'string' }, limit: { type: 'number' } } },
+      { name: 'firecrawl_scrape', description: 'Scrape a URL', inputSchema: TOOL_INPUT_SCHEMAS.firecrawl_scrape },
+      { name: 'firecrawl_search', description: 'Search the web', inputSchema: TOOL_INPUT_SCHEMAS.firecrawl_search },
+      { name: 'firecrawl_map', description: 'Map website URLs', inputSchema: TOOL_INPUT_SCHEMAS.firecrawl_map },
+      { name: 'firecrawl_crawl', description: 'Crawl entire website', inputSchema: TOOL_INPUT_SCHEMAS.firecrawl_crawl },
     ],
   },
   {
@@ -837,9 +855,9 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: false,
     authConfigured: true,
     tools: [
-      { name: 'perplexity_search', description: 'Search with AI', inputSchema: { query: { type: 'string' }, model: { type: 'string' }, recency: { type: 'string' } } },
-      { name: 'perplexity_research', description: 'Deep research', inputSchema: { query: { type: 'string' } } },
-      { name: 'perplexity_reason', description: 'Chain-of-thought reasoning', inputSchema: { query: { type: 'string' } } },
+      { name: 'perplexity_search', description: 'Search with AI', inputSchema: TOOL_INPUT_SCHEMAS.perplexity_search },
+      { name: 'perplexity_research', description: 'Deep research', inputSchema: TOOL_INPUT_SCHEMAS.perplexity_research },
+      { name: 'perplexity_reason', description: 'Chain-of-thought reasoning', inputSchema: TOOL_INPUT_SCHEMAS.perplexity_reason },
     ],
   },
   // ─── Self-hosted AI ───
@@ -852,23 +870,23 @@ export const BUILTIN_MCP_SERVERS: MCPServer[] = [
     requiresAuth: true,
     authConfigured: false,
     tools: [
-      { name: 'openclaw_status', description: 'Get OpenClaw instance status', inputSchema: {} },
-      { name: 'openclaw_get_config', description: 'Get instance configuration', inputSchema: {} },
-      { name: 'openclaw_list_skills', description: 'List installed skills', inputSchema: {} },
-      { name: 'openclaw_install_skill', description: 'Install a skill by name', inputSchema: { skill_name: { type: 'string' } } },
-      { name: 'openclaw_uninstall_skill', description: 'Uninstall a skill', inputSchema: { skill_name: { type: 'string' } } },
-      { name: 'openclaw_send_message', description: 'Send a message to OpenClaw', inputSchema: { message: { type: 'string' }, channel: { type: 'string' }, thread_id: { type: 'string' } } },
-      { name: 'openclaw_get_conversations', description: 'List recent conversations', inputSchema: { limit: { type: 'number' } } },
-      { name: 'openclaw_get_conversation', description: 'Get conversation details', inputSchema: { conversation_id: { type: 'string' } } },
-      { name: 'openclaw_run_task', description: 'Run an autonomous task', inputSchema: { goal: { type: 'string' }, max_steps: { type: 'number' } } },
-      { name: 'openclaw_list_tasks', description: 'List tasks', inputSchema: { limit: { type: 'number' }, status: { type: 'string' } } },
-      { name: 'openclaw_get_task', description: 'Get task details', inputSchema: { task_id: { type: 'string' } } },
-      { name: 'openclaw_cancel_task', description: 'Cancel a running task', inputSchema: { task_id: { type: 'string' } } },
-      { name: 'openclaw_search_memory', description: 'Search OpenClaw memory', inputSchema: { query: { type: 'string' }, limit: { type: 'number' } } },
-      { name: 'openclaw_add_memory', description: 'Add to OpenClaw memory', inputSchema: { content: { type: 'string' }, metadata: { type: 'object' } } },
-      { name: 'openclaw_list_channels', description: 'List connected channels', inputSchema: {} },
-      { name: 'openclaw_get_channel', description: 'Get channel details', inputSchema: { channel_id: { type: 'string' } } },
-      { name: 'openclaw_mcp_invoke', description: 'Invoke any OpenClaw skill via MCP', inputSchema: { mcp_tool: { type: 'string' }, mcp_input: { type: 'object' } } },
+      { name: 'openclaw_status', description: 'Get OpenClaw instance status', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_status },
+      { name: 'openclaw_get_config', description: 'Get instance configuration', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_get_config },
+      { name: 'openclaw_list_skills', description: 'List installed skills', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_list_skills },
+      { name: 'openclaw_install_skill', description: 'Install a skill by name', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_install_skill },
+      { name: 'openclaw_uninstall_skill', description: 'Uninstall a skill', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_uninstall_skill },
+      { name: 'openclaw_send_message', description: 'Send a message to OpenClaw', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_send_message },
+      { name: 'openclaw_get_conversations', description: 'List recent conversations', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_get_conversations },
+      { name: 'openclaw_get_conversation', description: 'Get conversation details', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_get_conversation },
+      { name: 'openclaw_run_task', description: 'Run an autonomous task', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_run_task },
+      { name: 'openclaw_list_tasks', description: 'List tasks', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_list_tasks },
+      { name: 'openclaw_get_task', description: 'Get task details', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_get_task },
+      { name: 'openclaw_cancel_task', description: 'Cancel a running task', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_cancel_task },
+      { name: 'openclaw_search_memory', description: 'Search OpenClaw memory', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_search_memory },
+      { name: 'openclaw_add_memory', description: 'Add to OpenClaw memory', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_add_memory },
+      { name: 'openclaw_list_channels', description: 'List connected channels', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_list_channels },
+      { name: 'openclaw_get_channel', description: 'Get channel details', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_get_channel },
+      { name: 'openclaw_mcp_invoke', description: 'Invoke any OpenClaw skill via MCP', inputSchema: TOOL_INPUT_SCHEMAS.openclaw_mcp_invoke },
     ],
   },
 ];
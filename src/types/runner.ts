@@ -1,3 +1,5 @@
+import type { LimitViolation } from '../../supabase/functions/_shared/limits';
+
 // ─── Runner Service Types ───
 
 export type RuntimeType = 'node' | 'python' | 'shell' | 'go' | 'rust' | 'c' | 'cpp' | 'php' | 'ruby' | 'java' | 'solidity' | 'dart' | 'swift' | 'kotlin' | 'r';
@@ -27,6 +29,8 @@ export interface ExecResult {
   exitCode: number;
   cwd: string;
   durationMs: number;
+  /** Set when the runner stopped or refused the process for exceeding a session limit */
+  limitExceeded?: LimitViolation;
 }
 
 export interface SessionCreateRequest {
@@ -45,30 +49,8 @@ export interface WorkspaceSyncRequest {
 
 // ─── Resource Limits ───
 
-export interface ResourceLimits {
-  cpuCount: number;
-  memoryMb: number;
-  timeoutS: number;
-  diskMb: number;
-  maxProcesses: number;
-  networkEnabled: boolean;
-  allowedDomains: string[];
-}
-
-export const DEFAULT_RESOURCE_LIMITS: ResourceLimits = {
-  cpuCount: 1,
-  memoryMb: 2048,
-  timeoutS: 600,
-  diskMb: 512,
-  maxProcesses: 64,
-  networkEnabled: false,
-  allowedDomains: [
-    'registry.npmjs.org',
-    'pypi.org',
-    'files.pythonhosted.org',
-    'github.com',
-  ],
-};
+export { DEFAULT_RESOURCE_LIMITS } from '../../supabase/functions/_shared/limits';
+export type { ResourceLimits, LimitKind, LimitViolation } from '../../supabase/functions/_shared/limits';
 
 // ─── Runtime Templates ───
 
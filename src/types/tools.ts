@@ -1,3 +1,15 @@
+import type {
+  ParsedPatch,
+  FilePatchResult,
+  AppliedFileState,
+  EditFileInput,
+  CreateFileInput,
+  DeleteFileInput,
+  MoveFileInput,
+} from '../../supabase/functions/_shared/patch';
+import type { GrepOptions, GrepMessage } from '../../supabase/functions/_shared/search';
+import type { GitResult } from '../../supabase/functions/_shared/git';
+
 // ─── Tool Definitions ───
 
 export type ToolName =
@@ -5,20 +17,40 @@ export type ToolName =
   | 'list_files'
   | 'grep'
   | 'apply_patch'
+  | 'edit_file'
+  | 'create_file'
+  | 'delete_file'
+  | 'move_file'
   | 'run_command'
   | 'git_status'
+  | 'git_diff'
+  | 'git_log'
+  | 'git_branch'
+  | 'git_checkout'
+  | 'git_commit'
   | 'web_fetch'
   | 'web_search';
 
 export interface ToolInput {
   read_file: { path: string };
-  list_files: { glob: string };
-  grep: { pattern: string; paths_glob?: string };
+  list_files: { glob: string | string[] };
+  grep: GrepOptions;
   apply_patch: { unified_diff: string };
+  edit_file: EditFileInput;
+  create_file: CreateFileInput;
+  delete_file: DeleteFileInput;
+  move_file: MoveFileInput;
   run_command: { command: string; cwd?: string; timeout_s?: number };
   git_status: Record<string, never>;
-  web_fetch: { url: string };
-  web_search: { query: string };
+  git_diff: { staged?: boolean; paths?: string[] };
+  git_log: { ref?: string; max_count?: number; path?: string };
+  // Lists branches, or creates `create` (from `start_point`) first
+  git_branch: { create?: string; start_point?: string };
+  git_checkout: { ref: string; create?: boolean };
+  // Stages `paths` (or everything with `all`) before committing
+  git_commit: { message: string; all?: boolean; paths?: string[] };
+  web_fetch: { url: string; max_chars?: number };
+  web_search: { query: string; limit?: number };
 }
 
 export interface ToolResult {
@@ -30,10 +62,23 @@ export interface ToolResult {
   duration_ms?: number;
   content?: string;
   files?: string[];
-  matches?: Array<{ file: string; line: number; text: string }>;
+  /** grep output as `rg --json` messages */
+  matches?: GrepMessage[];
+  /** Unified diff produced by a file-editing tool, queued for review in PatchPreview */
+  diff?: string;
+  /** Structured output of the git tools */
+  git?: GitResult;
+  /** Workspace files rewritten on the runner (e.g. by git_checkout) */
+  changedFiles?: Array<{ path: string; content: string }>;
   error?: string;
 }
 
+/** Tools served by the runner's git endpoint */
+export const GIT_TOOLS: ToolName[] = ['git_status', 'git_diff', 'git_log', 'git_branch', 'git_checkout', 'git_commit'];
+
+/** Tools that change files; they produce a diff for review instead of writing directly. */
+export const FILE_EDIT_TOOLS: ToolName[] = ['edit_file', 'create_file', 'delete_file', 'move_file'];
+
 export interface ToolCall {
   id: string;
   tool: ToolName;
@@ -61,11 +106,15 @@ export interface PermissionPolicy {
   allowedCommands: string[];
   // Command prefix denylist (high-risk)
   deniedCommands: string[];
+  // web_fetch hosts fetched without asking (subdomains included)
+  allowedDomains: string[];
+  // web_fetch hosts always blocked; private and loopback hosts always are
+  deniedDomains: string[];
 }
 
 export const DEFAULT_PERMISSION_POLICY: PermissionPolicy = {
   // Read-only tools are auto-approved
-  allowedTools: ['read_file', 'list_files', 'grep', 'git_status'],
+  allowedTools: ['read_file', 'list_files', 'grep', 'git_status', 'git_diff', 'git_log'],
   // No tools permanently blocked by default
   deniedTools: [],
   // Safe command prefixes
@@ -102,33 +151,48 @@ export const DEFAULT_PERMISSION_POLICY: PermissionPolicy = {
     'cat /etc/',
     'cat ~/.ssh',
   ],
+  allowedDomains: [],
+  deniedDomains: [],
 };
 
-// ─── Patch Types ───
+// ─── Search Types ───
 
-export interface DiffHunk {
-  oldStart: number;
-  oldCount: number;
-  newStart: number;
-  newCount: number;
-  lines: DiffLine[];
-}
+export type { GrepOptions, GrepMessage, GrepLineData } from '../../supabase/functions/_shared/search';
 
-export interface DiffLine {
-  type: 'context' | 'add' | 'remove';
-  content: string;
-}
+// ─── Git Types ───
 
-export interface ParsedPatch {
-  oldFile: string;
-  newFile: string;
-  hunks: DiffHunk[];
-}
+export type {
+  GitResult,
+  GitStatus,
+  GitStatusEntry,
+  GitDiff,
+  GitDiffFile,
+  GitLogEntry,
+  GitBranch,
+} from '../../supabase/functions/_shared/git';
+
+// ─── Patch Types ───
+
+export type {
+  DiffHunk,
+  DiffLine,
+  ParsedPatch,
+  PatchOperation,
+  HunkStatus,
+  HunkResult,
+  FilePatchResult,
+  AppliedFileState,
+} from '../../supabase/functions/_shared/patch';
 
 export interface PatchPreview {
   id: string;
   patches: ParsedPatch[];
   raw: string;
-  status: 'preview' | 'applied' | 'failed' | 'cancelled';
+  status: 'preview' | 'applied' | 'failed' | 'cancelled' | 'reverted';
   error?: string;
+  results?: FilePatchResult[];
+  /** Serialized inverse of the file patches that applied; reverting applies it */
+  inverse?: string;
+  /** Content of each patched file either side of the apply, for three-way reverts */
+  appliedFiles?: AppliedFileState[];
 }
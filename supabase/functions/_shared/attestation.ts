@@ -0,0 +1,426 @@
+/**
+ * Build provenance: in-toto statements carrying SLSA v1 provenance
+ * predicates, signed inside DSSE envelopes. Statements are built from the
+ * stored build run so they can be rebuilt later and compared field by field,
+ * and replays of a run are judged against its attested outcome. Also decides
+ * which workspace files a run's artifact capture keeps. Signing and
+ * signature checks are passed in as callbacks.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node (type stripping) and Deno.
+ */
+
+// ─── Types ───
+
+export const IN_TOTO_STATEMENT_TYPE = "https://in-toto.io/Statement/v1";
+export const SLSA_PROVENANCE_TYPE = "https://slsa.dev/provenance/v1";
+export const DSSE_PAYLOAD_TYPE = "application/vnd.in-toto+json";
+export const STARTED_BUILD_TYPE = "https://started.dev/attestations/build/v1";
+export const STARTED_BUILDER_ID = "https://started.dev/runners/build-attestation";
+
+export type DigestSet = Record<string, string>;
+
+export interface ResourceDescriptor {
+  name?: string;
+  uri?: string;
+  digest: DigestSet;
+  annotations?: Record<string, unknown>;
+}
+
+export interface SlsaProvenance {
+  buildDefinition: {
+    buildType: string;
+    externalParameters: { command: string; snapshot: string | null };
+    internalParameters: {
+      projectId: string;
+      runnerFingerprint: Record<string, unknown>;
+      exitCode: number | null;
+      durationMs: number | null;
+    };
+    resolvedDependencies: ResourceDescriptor[];
+  };
+  runDetails: {
+    builder: { id: string };
+    metadata: { invocationId: string; startedOn?: string; finishedOn?: string };
+    byproducts: ResourceDescriptor[];
+  };
+}
+
+export interface InTotoStatement {
+  _type: string;
+  subject: ResourceDescriptor[];
+  predicateType: string;
+  predicate: SlsaProvenance;
+}
+
+export interface DsseSignature {
+  keyid: string;
+  sig: string;
+}
+
+export interface DsseEnvelope {
+  payloadType: string;
+  payload: string;
+  signatures: DsseSignature[];
+}
+
+/** An output file of the build, by path relative to the project root. */
+export interface BuildArtifact {
+  path: string;
+  sha256: string;
+  size?: number;
+}
+
+/** Everything a statement says, as stored with the build run. */
+export interface BuildFacts {
+  buildRunId: string;
+  projectId: string;
+  command: string;
+  inputSnapshot: { id: string; rootTreeHash: string } | null;
+  outputSnapshot: { id: string; rootTreeHash: string } | null;
+  runnerFingerprint: Record<string, unknown>;
+  logDigests: { stdout: string; stderr: string };
+  artifacts: BuildArtifact[];
+  exitCode: number | null;
+  durationMs: number | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export class AttestationFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttestationFormatError";
+  }
+}
+
+// ─── Encoding ───
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/** JSON with object keys sorted, so equal values always serialize identically. */
+export function canonicalJSON(value: unknown): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) return "[" + value.map(canonicalJSON).join(",") + "]";
+  const obj = value as Record<string, unknown>;
+  const keys = Object.keys(obj).filter(k => obj[k] !== undefined).sort();
+  return "{" + keys.map(k => JSON.stringify(k) + ":" + canonicalJSON(obj[k])).join(",") + "}";
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    out += BASE64[(n >> 18) & 63] + BASE64[(n >> 12) & 63];
+    out += i + 1 < bytes.length ? BASE64[(n >> 6) & 63] : "=";
+    out += i + 2 < bytes.length ? BASE64[n & 63] : "=";
+  }
+  return out;
+}
+
+export function base64ToBytes(text: string): Uint8Array {
+  const clean = text.replace(/[\s=]/g, "").replace(/-/g, "+").replace(/_/g, "/");
+  const out = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let bits = 0, value = 0, o = 0;
+  for (const ch of clean) {
+    const v = BASE64.indexOf(ch);
+    if (v < 0) throw new AttestationFormatError("Invalid base64");
+    value = (value << 6) | v;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      out[o++] = (value >> bits) & 255;
+    }
+  }
+  return out.subarray(0, o);
+}
+
+/** DSSE pre-authentication encoding: what actually gets signed. */
+export function preAuthEncoding(payloadType: string, payload: Uint8Array): Uint8Array {
+  const type = encoder.encode(payloadType);
+  const header = encoder.encode(`DSSEv1 ${type.length} ${payloadType} ${payload.length} `);
+  const out = new Uint8Array(header.length + payload.length);
+  out.set(header);
+  out.set(payload, header.length);
+  return out;
+}
+
+// ─── Statements ───
+
+function toTimestamp(value: string | null): string | undefined {
+  if (!value) return undefined;
+  const time = new Date(value);
+  return Number.isNaN(time.getTime()) ? undefined : time.toISOString();
+}
+
+/**
+ * The provenance statement for a finished build. Subjects are the build's
+ * artifacts and output snapshot; a build that produced neither attests to
+ * its logs, since a statement needs at least one subject.
+ */
+export function buildProvenanceStatement(facts: BuildFacts): InTotoStatement {
+  const logs: ResourceDescriptor[] = [
+    { name: "stdout", digest: { sha256: facts.logDigests.stdout } },
+    { name: "stderr", digest: { sha256: facts.logDigests.stderr } },
+  ];
+
+  const subject: ResourceDescriptor[] = [...facts.artifacts]
+    .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+    .map(a => ({
+      name: a.path,
+      digest: { sha256: a.sha256 },
+      ...(a.size !== undefined ? { annotations: { size: a.size } } : {}),
+    }));
+  if (facts.outputSnapshot) {
+    subject.push({
+      name: "snapshot",
+      uri: `started:snapshot/${facts.outputSnapshot.id}`,
+      digest: { sha256: facts.outputSnapshot.rootTreeHash },
+    });
+  }
+
+  const resolvedDependencies: ResourceDescriptor[] = facts.inputSnapshot
+    ? [{
+      name: "snapshot",
+      uri: `started:snapshot/${facts.inputSnapshot.id}`,
+      digest: { sha256: facts.inputSnapshot.rootTreeHash },
+    }]
+    : [];
+
+  return {
+    _type: IN_TOTO_STATEMENT_TYPE,
+    subject: subject.length > 0 ? subject : logs,
+    predicateType: SLSA_PROVENANCE_TYPE,
+    predicate: {
+      buildDefinition: {
+        buildType: STARTED_BUILD_TYPE,
+        externalParameters: { command: facts.command, snapshot: facts.inputSnapshot?.id ?? null },
+        internalParameters: {
+          projectId: facts.projectId,
+          runnerFingerprint: facts.runnerFingerprint,
+          exitCode: facts.exitCode,
+          durationMs: facts.durationMs,
+        },
+        resolvedDependencies,
+      },
+      runDetails: {
+        builder: { id: STARTED_BUILDER_ID },
+        metadata: {
+          invocationId: facts.buildRunId,
+          startedOn: toTimestamp(facts.startedAt),
+          finishedOn: toTimestamp(facts.finishedAt),
+        },
+        byproducts: logs,
+      },
+    },
+  };
+}
+
+/**
+ * Paths where two statements differ, compared as canonical JSON. Empty when
+ * they say the same thing.
+ */
+export function compareStatements(actual: unknown, expected: unknown, path = "$"): string[] {
+  if (canonicalJSON(actual) === canonicalJSON(expected)) return [];
+  const isObject = (v: unknown) => v !== null && typeof v === "object";
+  if (!isObject(actual) || !isObject(expected) || Array.isArray(actual) !== Array.isArray(expected)) {
+    return [path];
+  }
+  if (Array.isArray(actual) && Array.isArray(expected)) {
+    if (actual.length !== expected.length) return [path];
+    return actual.flatMap((item, i) => compareStatements(item, expected[i], `${path}[${i}]`));
+  }
+  const a = actual as Record<string, unknown>;
+  const b = expected as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+  return keys.flatMap(k => compareStatements(a[k], b[k], `${path}.${k}`));
+}
+
+// ─── Envelopes ───
+
+/** Sign a statement. `sign` receives the pre-authentication encoding. */
+export async function createEnvelope(
+  statement: InTotoStatement,
+  keyId: string,
+  sign: (message: Uint8Array) => Promise<Uint8Array>,
+): Promise<DsseEnvelope> {
+  const payload = encoder.encode(canonicalJSON(statement));
+  const sig = await sign(preAuthEncoding(DSSE_PAYLOAD_TYPE, payload));
+  return {
+    payloadType: DSSE_PAYLOAD_TYPE,
+    payload: bytesToBase64(payload),
+    signatures: [{ keyid: keyId, sig: bytesToBase64(sig) }],
+  };
+}
+
+/** The statement inside an envelope, without checking signatures. */
+export function openEnvelope(envelope: DsseEnvelope): InTotoStatement {
+  if (!envelope || envelope.payloadType !== DSSE_PAYLOAD_TYPE || typeof envelope.payload !== "string") {
+    throw new AttestationFormatError("Not an in-toto DSSE envelope");
+  }
+  let statement: InTotoStatement;
+  try {
+    statement = JSON.parse(decoder.decode(base64ToBytes(envelope.payload)));
+  } catch {
+    throw new AttestationFormatError("Envelope payload is not JSON");
+  }
+  if (statement?._type !== IN_TOTO_STATEMENT_TYPE) {
+    throw new AttestationFormatError(`Unsupported statement type: ${statement?._type}`);
+  }
+  return statement;
+}
+
+/**
+ * Whether any signature on the envelope verifies. `verify` is called with
+ * the key id, raw signature and signed bytes, and should return false for
+ * keys it doesn't know.
+ */
+export async function verifyEnvelope(
+  envelope: DsseEnvelope,
+  verify: (keyId: string, signature: Uint8Array, message: Uint8Array) => Promise<boolean>,
+): Promise<boolean> {
+  const message = preAuthEncoding(envelope.payloadType, base64ToBytes(envelope.payload));
+  for (const { keyid, sig } of envelope.signatures || []) {
+    let signature: Uint8Array;
+    try {
+      signature = base64ToBytes(sig);
+    } catch {
+      continue;
+    }
+    if (await verify(keyid, signature, message)) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether a statement records run `buildRunId` of `projectId` building the
+ * snapshot `snapshotId` (root tree `rootTreeHash`) and exiting 0. Checks what
+ * was signed, not the run row, which the caller may have written itself.
+ */
+export function attestsPassingBuild(
+  statement: InTotoStatement,
+  expected: { buildRunId: string; projectId: string; snapshotId: string; rootTreeHash: string },
+): boolean {
+  const definition = statement?.predicate?.buildDefinition;
+  if (!definition || statement.predicate.runDetails?.metadata?.invocationId !== expected.buildRunId) return false;
+  if (definition.internalParameters?.projectId !== expected.projectId || definition.internalParameters.exitCode !== 0) return false;
+  return (definition.resolvedDependencies || []).some(d =>
+    d.uri === `started:snapshot/${expected.snapshotId}` && d.digest?.sha256 === expected.rootTreeHash);
+}
+
+// ─── Replay ───
+
+/** Characters of stdout/stderr kept with a build run; log digests cover exactly these. */
+export const MAX_LOG_CHARS = 10000;
+
+export type ReplayVerdict = "reproducible" | "diverged" | "not_reproducible";
+
+/** What a run produced, as attested or as observed when replaying it. */
+export interface RunOutcome {
+  exitCode: number | null;
+  stdoutHash: string;
+  stderrHash: string;
+  runnerFingerprint: Record<string, unknown>;
+}
+
+export interface ReplayComparison {
+  verdict: ReplayVerdict;
+  /** Outcome fields that differ: exit_code, stdout, stderr */
+  mismatches: string[];
+  /** Fingerprint keys both runners report, with different values */
+  environmentDrift: string[];
+}
+
+/**
+ * Compare a replay with the original run. Same exit code and logs is
+ * reproducible; same exit code with different logs (timestamps, timings)
+ * diverged; a different exit code is not reproducible.
+ */
+export function compareReplay(original: RunOutcome, replay: RunOutcome): ReplayComparison {
+  const mismatches: string[] = [];
+  if (original.exitCode !== replay.exitCode) mismatches.push("exit_code");
+  if (original.stdoutHash !== replay.stdoutHash) mismatches.push("stdout");
+  if (original.stderrHash !== replay.stderrHash) mismatches.push("stderr");
+
+  const environmentDrift = Object.keys(original.runnerFingerprint)
+    .filter(k => k in replay.runnerFingerprint)
+    .filter(k => canonicalJSON(original.runnerFingerprint[k]) !== canonicalJSON(replay.runnerFingerprint[k]))
+    .sort();
+
+  const verdict: ReplayVerdict = mismatches.includes("exit_code")
+    ? "not_reproducible"
+    : mismatches.length > 0 ? "diverged" : "reproducible";
+  return { verdict, mismatches, environmentDrift };
+}
+
+// ─── Artifacts ───
+
+/** Most files one capture, and so one attestation, records */
+export const MAX_ARTIFACTS = 1000;
+/** Total bytes one capture stores */
+export const MAX_ARTIFACT_BYTES = 50 * 1024 * 1024;
+export const MAX_ARTIFACT_GLOBS = 20;
+
+export interface ArtifactCandidate {
+  path: string;
+  size: number;
+}
+
+export interface ArtifactSelection {
+  /** Files to capture, in path order, with workspace-relative paths */
+  selected: ArtifactCandidate[];
+  /** Matching files left out, and why */
+  skipped: Array<{ path: string; reason: string }>;
+}
+
+/** Why a project's artifact globs can't be used, or null. An empty list turns capture off. */
+export function validateArtifactGlobs(globs: unknown): string | null {
+  if (!Array.isArray(globs)) return "Artifact globs must be an array";
+  if (globs.length > MAX_ARTIFACT_GLOBS) return `At most ${MAX_ARTIFACT_GLOBS} artifact globs`;
+  for (const glob of globs) {
+    if (typeof glob !== "string" || !glob.trim()) return "Artifact globs must be non-empty strings";
+    if (glob.split("/").includes("..")) return `Artifact glob ${glob} reaches outside the workspace`;
+  }
+  if (globs.length > 0 && globs.every((g: string) => g.trim().startsWith("!"))) {
+    return "Artifact globs need at least one pattern that includes files";
+  }
+  return null;
+}
+
+/**
+ * Pick the files a capture keeps: those `matches` accepts, in path order,
+ * until the file or byte budget runs out. Paths lose their leading `/` so
+ * they read the same as attestation subjects.
+ */
+export function selectArtifacts(
+  files: ArtifactCandidate[],
+  matches: (path: string) => boolean,
+  { maxFiles = MAX_ARTIFACTS, maxBytes = MAX_ARTIFACT_BYTES }: { maxFiles?: number; maxBytes?: number } = {},
+): ArtifactSelection {
+  const candidates = files
+    .map((f) => ({ path: f.path.replace(/^\/+/, ""), size: f.size }))
+    .filter((f) => matches(f.path))
+    .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+  const selected: ArtifactCandidate[] = [];
+  const skipped: ArtifactSelection["skipped"] = [];
+  let bytes = 0;
+  for (const file of candidates) {
+    if (selected.length >= maxFiles) skipped.push({ path: file.path, reason: `more than ${maxFiles} files` });
+    else if (bytes + file.size > maxBytes) skipped.push({ path: file.path, reason: `over the ${maxBytes} byte budget` });
+    else {
+      selected.push(file);
+      bytes += file.size;
+    }
+  }
+  return { selected, skipped };
+}
+
+/** Whether two captures hold the same files with the same content. */
+export function sameArtifacts(a: BuildArtifact[], b: BuildArtifact[]): boolean {
+  if (a.length !== b.length) return false;
+  const key = (list: BuildArtifact[]) => list.map((x) => `${x.path}\0${x.sha256}`).sort().join("\n");
+  return key(a) === key(b);
+}
@@ -0,0 +1,978 @@
+/**
+ * Git interoperability for content-addressed snapshots: git object
+ * encoding, packfiles, bundles and tarballs, so a ref's history can be
+ * exported as a real git bundle and a git repository imported back.
+ *
+ * Everything works on in-memory byte arrays; SHA-1, inflate and tar
+ * reading are implemented here rather than pulled from a runtime.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node (type stripping) and Deno.
+ */
+
+// ─── Types ───
+
+export type GitObjectType = "commit" | "tree" | "blob" | "tag";
+
+export interface GitObject {
+  type: GitObjectType;
+  data: Uint8Array;
+}
+
+export interface GitPerson {
+  name: string;
+  email: string;
+  /** Seconds since the epoch */
+  time: number;
+  /** e.g. "+0000" */
+  tz?: string;
+}
+
+/** A snapshot to write as a commit. Parents missing from the export are dropped. */
+export interface ExportCommit {
+  id: string;
+  parentIds: string[];
+  files: Array<{ path: string; content: string; mode?: string }>;
+  author: GitPerson;
+  message: string;
+}
+
+export interface ExportTag {
+  name: string;
+  commitId: string;
+  message: string | null;
+  tagger: GitPerson;
+}
+
+export interface ImportedCommit {
+  sha: string;
+  parents: string[];
+  author: GitPerson;
+  message: string;
+  files: Array<{ path: string; content: string; mode?: string }>;
+}
+
+export interface ImportedRepository {
+  /** Parents before children */
+  commits: ImportedCommit[];
+  /** Branch name → commit sha */
+  branches: Record<string, string>;
+  /** Tag name → commit sha and annotation */
+  tags: Record<string, { sha: string; message: string | null }>;
+  /** Branch HEAD pointed at, when known */
+  head: string | null;
+  /** Paths dropped because their content isn't text, or they are submodules */
+  skipped: string[];
+  /** History was cut at the commit limit; the oldest kept commits lost their parents */
+  truncated: boolean;
+}
+
+export class GitFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitFormatError";
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) {
+    out.set(p, off);
+    off += p.length;
+  }
+  return out;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (const b of bytes) hex += b.toString(16).padStart(2, "0");
+  return hex;
+}
+
+function fromHex(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+// ─── SHA-1 ───
+
+export function sha1(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array((((data.length + 8) >> 6) + 1) << 6);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(data.length / 0x20000000));
+  view.setUint32(padded.length - 4, (data.length * 8) >>> 0);
+
+  let h0 = 0x67452301, h1 = 0xefcdab89, h2 = 0x98badcfe, h3 = 0x10325476, h4 = 0xc3d2e1f0;
+  const w = new Uint32Array(80);
+  for (let off = 0; off < padded.length; off += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(off + i * 4);
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
+    }
+    let a = h0, b = h1, c = h2, d = h3, e = h4;
+    for (let i = 0; i < 80; i++) {
+      let f: number, k: number;
+      if (i < 20) { f = (b & c) | (~b & d); k = 0x5a827999; }
+      else if (i < 40) { f = b ^ c ^ d; k = 0x6ed9eba1; }
+      else if (i < 60) { f = (b & c) | (b & d) | (c & d); k = 0x8f1bbcdc; }
+      else { f = b ^ c ^ d; k = 0xca62c1d6; }
+      const t = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) | 0;
+      e = d; d = c; c = (b << 30) | (b >>> 2); b = a; a = t;
+    }
+    h0 = (h0 + a) | 0; h1 = (h1 + b) | 0; h2 = (h2 + c) | 0; h3 = (h3 + d) | 0; h4 = (h4 + e) | 0;
+  }
+
+  const out = new Uint8Array(20);
+  const outView = new DataView(out.buffer);
+  [h0, h1, h2, h3, h4].forEach((h, i) => outView.setUint32(i * 4, h >>> 0));
+  return out;
+}
+
+// ─── zlib ───
+
+function adler32(data: Uint8Array): number {
+  let a = 1, b = 0;
+  for (let i = 0; i < data.length;) {
+    // Largest run before the sums can overflow
+    const end = Math.min(i + 5552, data.length);
+    for (; i < end; i++) { a += data[i]; b += a; }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/** zlib stream of stored (uncompressed) deflate blocks; valid input for any inflater. */
+export function zlibStore(data: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [new Uint8Array([0x78, 0x01])];
+  let off = 0;
+  do {
+    const len = Math.min(65535, data.length - off);
+    const final = off + len >= data.length ? 1 : 0;
+    parts.push(new Uint8Array([final, len & 0xff, len >> 8, ~len & 0xff, (~len >> 8) & 0xff]));
+    parts.push(data.subarray(off, off + len));
+    off += len;
+  } while (off < data.length);
+  const check = adler32(data);
+  parts.push(new Uint8Array([check >>> 24, (check >> 16) & 0xff, (check >> 8) & 0xff, check & 0xff]));
+  return concatBytes(parts);
+}
+
+const LEN_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LEN_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+  return { counts, symbols };
+}
+
+let fixedTables: { lit: Huffman; dist: Huffman } | null = null;
+
+function fixedHuffman() {
+  if (!fixedTables) {
+    const lit = new Uint8Array(288);
+    lit.fill(8, 0, 144); lit.fill(9, 144, 256); lit.fill(7, 256, 280); lit.fill(8, 280, 288);
+    fixedTables = { lit: buildHuffman(lit), dist: buildHuffman(new Uint8Array(30).fill(5)) };
+  }
+  return fixedTables;
+}
+
+/**
+ * Inflate a raw deflate stream starting at `start`. Returns the output and
+ * the offset just past the compressed data, so streams packed back to back
+ * (as in a packfile) can be read one after another.
+ */
+export function inflateRaw(data: Uint8Array, start = 0, sizeHint = 0): { data: Uint8Array; end: number } {
+  let pos = start;
+  let bitBuf = 0;
+  let bitCnt = 0;
+  let out = new Uint8Array(Math.max(sizeHint, 1024));
+  let outLen = 0;
+
+  const bits = (n: number): number => {
+    while (bitCnt < n) {
+      if (pos >= data.length) throw new GitFormatError("Unexpected end of compressed data");
+      bitBuf |= data[pos++] << bitCnt;
+      bitCnt += 8;
+    }
+    const value = bitBuf & ((1 << n) - 1);
+    bitBuf >>>= n;
+    bitCnt -= n;
+    return value;
+  };
+
+  const ensure = (extra: number) => {
+    if (outLen + extra <= out.length) return;
+    const grown = new Uint8Array(Math.max(out.length * 2, outLen + extra));
+    grown.set(out.subarray(0, outLen));
+    out = grown;
+  };
+
+  const decode = (h: Huffman): number => {
+    let code = 0, first = 0, index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= bits(1);
+      const count = h.counts[len];
+      if (code - count < first) return h.symbols[index + (code - first)];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new GitFormatError("Invalid Huffman code");
+  };
+
+  let final = 0;
+  while (!final) {
+    final = bits(1);
+    const type = bits(2);
+
+    if (type === 0) {
+      // Stored block: skip to the byte boundary
+      bitBuf = 0;
+      bitCnt = 0;
+      if (pos + 4 > data.length) throw new GitFormatError("Unexpected end of compressed data");
+      const len = data[pos] | (data[pos + 1] << 8);
+      pos += 4;
+      if (pos + len > data.length) throw new GitFormatError("Unexpected end of compressed data");
+      ensure(len);
+      out.set(data.subarray(pos, pos + len), outLen);
+      outLen += len;
+      pos += len;
+      continue;
+    }
+    if (type === 3) throw new GitFormatError("Invalid deflate block type");
+
+    let lit: Huffman, dist: Huffman;
+    if (type === 1) {
+      ({ lit, dist } = fixedHuffman());
+    } else {
+      const nlen = bits(5) + 257;
+      const ndist = bits(5) + 1;
+      const ncode = bits(4) + 4;
+      const codeLengths = new Uint8Array(19);
+      for (let i = 0; i < ncode; i++) codeLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+      const lengthCode = buildHuffman(codeLengths);
+      const lengths = new Uint8Array(nlen + ndist);
+      for (let i = 0; i < nlen + ndist;) {
+        const sym = decode(lengthCode);
+        if (sym < 16) { lengths[i++] = sym; continue; }
+        let repeat: number, value = 0;
+        if (sym === 16) {
+          if (i === 0) throw new GitFormatError("Invalid code length repeat");
+          value = lengths[i - 1];
+          repeat = 3 + bits(2);
+        } else if (sym === 17) repeat = 3 + bits(3);
+        else repeat = 11 + bits(7);
+        if (i + repeat > nlen + ndist) throw new GitFormatError("Invalid code lengths");
+        lengths.fill(value, i, i + repeat);
+        i += repeat;
+      }
+      lit = buildHuffman(lengths.subarray(0, nlen));
+      dist = buildHuffman(lengths.subarray(nlen));
+    }
+
+    for (;;) {
+      const sym = decode(lit);
+      if (sym < 256) {
+        ensure(1);
+        out[outLen++] = sym;
+      } else if (sym === 256) {
+        break;
+      } else {
+        const li = sym - 257;
+        if (li >= LEN_BASE.length) throw new GitFormatError("Invalid length code");
+        const len = LEN_BASE[li] + bits(LEN_EXTRA[li]);
+        const di = decode(dist);
+        if (di >= DIST_BASE.length) throw new GitFormatError("Invalid distance code");
+        const distance = DIST_BASE[di] + bits(DIST_EXTRA[di]);
+        if (distance > outLen) throw new GitFormatError("Distance too far back");
+        ensure(len);
+        for (let i = 0; i < len; i++, outLen++) out[outLen] = out[outLen - distance];
+      }
+    }
+  }
+
+  return { data: out.slice(0, outLen), end: pos };
+}
+
+/** Inflate a zlib stream; `end` is just past its Adler-32 trailer. */
+export function inflateZlib(data: Uint8Array, start = 0, sizeHint = 0): { data: Uint8Array; end: number } {
+  const cmf = data[start];
+  const flg = data[start + 1];
+  if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flg) % 31 !== 0 || flg & 0x20) {
+    throw new GitFormatError("Not a zlib stream");
+  }
+  const raw = inflateRaw(data, start + 2, sizeHint);
+  return { data: raw.data, end: raw.end + 4 };
+}
+
+export function gunzip(data: Uint8Array): Uint8Array {
+  if (data[0] !== 0x1f || data[1] !== 0x8b || data[2] !== 8) throw new GitFormatError("Not a gzip file");
+  const flags = data[3];
+  let pos = 10;
+  if (flags & 4) pos += 2 + (data[pos] | (data[pos + 1] << 8));
+  if (flags & 8) while (data[pos++] !== 0);
+  if (flags & 16) while (data[pos++] !== 0);
+  if (flags & 2) pos += 2;
+  return inflateRaw(data, pos).data;
+}
+
+// ─── Objects ───
+
+export function hashObject(type: GitObjectType, data: Uint8Array): string {
+  return toHex(sha1(concatBytes([encoder.encode(`${type} ${data.length}\0`), data])));
+}
+
+function formatPerson(p: GitPerson): string {
+  const clean = (s: string) => s.replace(/[<>\n]/g, "").trim();
+  return `${clean(p.name) || "unknown"} <${clean(p.email)}> ${Math.floor(p.time)} ${p.tz || "+0000"}`;
+}
+
+function parsePerson(line: string): GitPerson {
+  const m = line.match(/^(.*?) ?<([^>]*)> (\d+) ([+-]\d{4})$/);
+  if (!m) return { name: line, email: "", time: 0 };
+  return { name: m[1], email: m[2], time: Number(m[3]), tz: m[4] };
+}
+
+function withNewline(message: string): string {
+  return message.endsWith("\n") ? message : `${message}\n`;
+}
+
+export function encodeCommit(c: { tree: string; parents: string[]; author: GitPerson; committer?: GitPerson; message: string }): Uint8Array {
+  const lines = [`tree ${c.tree}`, ...c.parents.map((p) => `parent ${p}`), `author ${formatPerson(c.author)}`, `committer ${formatPerson(c.committer ?? c.author)}`];
+  return encoder.encode(`${lines.join("\n")}\n\n${withNewline(c.message)}`);
+}
+
+export function parseCommit(data: Uint8Array): { tree: string; parents: string[]; author: GitPerson; message: string } {
+  const text = decoder.decode(data);
+  const split = text.indexOf("\n\n");
+  const headers = (split === -1 ? text : text.slice(0, split)).split("\n");
+  const message = split === -1 ? "" : text.slice(split + 2);
+  let tree = "";
+  const parents: string[] = [];
+  let author: GitPerson = { name: "", email: "", time: 0 };
+  for (const header of headers) {
+    if (header.startsWith("tree ")) tree = header.slice(5);
+    else if (header.startsWith("parent ")) parents.push(header.slice(7));
+    else if (header.startsWith("author ")) author = parsePerson(header.slice(7));
+  }
+  return { tree, parents, author, message };
+}
+
+export interface TreeEntry {
+  mode: string;
+  name: string;
+  sha: string;
+}
+
+/** Git sorts tree entries bytewise, with directories compared as if they ended in "/". */
+function treeSortKey(e: TreeEntry): string {
+  return e.mode === "40000" ? `${e.name}/` : e.name;
+}
+
+export function encodeTree(entries: TreeEntry[]): Uint8Array {
+  const sorted = [...entries].sort((a, b) => {
+    const ka = treeSortKey(a);
+    const kb = treeSortKey(b);
+    return ka < kb ? -1 : ka > kb ? 1 : 0;
+  });
+  return concatBytes(sorted.flatMap((e) => [encoder.encode(`${e.mode} ${e.name}\0`), fromHex(e.sha)]));
+}
+
+export function parseTree(data: Uint8Array): TreeEntry[] {
+  const entries: TreeEntry[] = [];
+  let pos = 0;
+  while (pos < data.length) {
+    const space = data.indexOf(0x20, pos);
+    const nul = data.indexOf(0, space);
+    if (space === -1 || nul === -1) throw new GitFormatError("Malformed tree object");
+    entries.push({
+      mode: decoder.decode(data.subarray(pos, space)),
+      name: decoder.decode(data.subarray(space + 1, nul)),
+      sha: toHex(data.subarray(nul + 1, nul + 21)),
+    });
+    pos = nul + 21;
+  }
+  return entries;
+}
+
+export function encodeTag(t: { object: string; name: string; tagger: GitPerson; message: string | null }): Uint8Array {
+  return encoder.encode(
+    `object ${t.object}\ntype commit\ntag ${t.name}\ntagger ${formatPerson(t.tagger)}\n\n${withNewline(t.message || t.name)}`,
+  );
+}
+
+function parseTag(data: Uint8Array): { object: string; message: string } {
+  const text = decoder.decode(data);
+  const split = text.indexOf("\n\n");
+  const object = text.match(/^object ([0-9a-f]{40})$/m)?.[1] ?? "";
+  return { object, message: split === -1 ? "" : text.slice(split + 2).trimEnd() };
+}
+
+// ─── Packfiles ───
+
+const PACK_TYPES: Record<number, GitObjectType> = { 1: "commit", 2: "tree", 3: "blob", 4: "tag" };
+const PACK_CODES: Record<GitObjectType, number> = { commit: 1, tree: 2, blob: 3, tag: 4 };
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+export function writePack(objects: GitObject[]): Uint8Array {
+  const header = new Uint8Array(12);
+  header.set(encoder.encode("PACK"));
+  const view = new DataView(header.buffer);
+  view.setUint32(4, 2);
+  view.setUint32(8, objects.length);
+  const parts: Uint8Array[] = [header];
+
+  for (const obj of objects) {
+    let size = obj.data.length;
+    const head: number[] = [(PACK_CODES[obj.type] << 4) | (size & 0x0f)];
+    size = Math.floor(size / 16);
+    while (size > 0) {
+      head[head.length - 1] |= 0x80;
+      head.push(size & 0x7f);
+      size = Math.floor(size / 128);
+    }
+    parts.push(new Uint8Array(head), zlibStore(obj.data));
+  }
+
+  const body = concatBytes(parts);
+  return concatBytes([body, sha1(body)]);
+}
+
+function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  let pos = 0;
+  const varint = () => {
+    let value = 0, shift = 0, byte: number;
+    do {
+      byte = delta[pos++];
+      value += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value;
+  };
+  if (varint() !== base.length) throw new GitFormatError("Delta base size mismatch");
+  const out = new Uint8Array(varint());
+  let outPos = 0;
+
+  while (pos < delta.length) {
+    const op = delta[pos++];
+    if (op & 0x80) {
+      let offset = 0, size = 0;
+      for (let i = 0; i < 4; i++) if (op & (1 << i)) offset += delta[pos++] * 2 ** (8 * i);
+      for (let i = 0; i < 3; i++) if (op & (0x10 << i)) size += delta[pos++] << (8 * i);
+      if (size === 0) size = 0x10000;
+      out.set(base.subarray(offset, offset + size), outPos);
+      outPos += size;
+    } else if (op) {
+      out.set(delta.subarray(pos, pos + op), outPos);
+      pos += op;
+      outPos += op;
+    } else {
+      throw new GitFormatError("Invalid delta opcode");
+    }
+  }
+  if (outPos !== out.length) throw new GitFormatError("Delta result size mismatch");
+  return out;
+}
+
+/** Read every object in a packfile, resolving deltas against objects in the same pack. */
+export function readPack(pack: Uint8Array, objects = new Map<string, GitObject>()): Map<string, GitObject> {
+  if (decoder.decode(pack.subarray(0, 4)) !== "PACK") throw new GitFormatError("Not a packfile");
+  const view = new DataView(pack.buffer, pack.byteOffset, pack.byteLength);
+  const version = view.getUint32(4);
+  if (version !== 2 && version !== 3) throw new GitFormatError(`Unsupported pack version ${version}`);
+  const count = view.getUint32(8);
+
+  type Entry = { type: number; data: Uint8Array; baseOffset?: number; baseSha?: string };
+  const entries = new Map<number, Entry>();
+  const order: number[] = [];
+  let pos = 12;
+
+  for (let n = 0; n < count; n++) {
+    const start = pos;
+    let byte = pack[pos++];
+    const type = (byte >> 4) & 7;
+    let size = byte & 0x0f;
+    let shift = 4;
+    while (byte & 0x80) {
+      byte = pack[pos++];
+      size += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    }
+
+    const entry: Entry = { type, data: new Uint8Array(0) };
+    if (type === OFS_DELTA) {
+      byte = pack[pos++];
+      let offset = byte & 0x7f;
+      while (byte & 0x80) {
+        byte = pack[pos++];
+        offset = (offset + 1) * 128 + (byte & 0x7f);
+      }
+      entry.baseOffset = start - offset;
+    } else if (type === REF_DELTA) {
+      entry.baseSha = toHex(pack.subarray(pos, pos + 20));
+      pos += 20;
+    } else if (!PACK_TYPES[type]) {
+      throw new GitFormatError(`Unknown pack object type ${type}`);
+    }
+
+    const inflated = inflateZlib(pack, pos, size);
+    entry.data = inflated.data;
+    pos = inflated.end;
+    entries.set(start, entry);
+    order.push(start);
+  }
+
+  const resolved = new Map<number, GitObject>();
+  const resolve = (offset: number): GitObject => {
+    const done = resolved.get(offset);
+    if (done) return done;
+    // Walk down to a non-delta base, then apply deltas back up
+    const chain: Entry[] = [];
+    let entry = entries.get(offset);
+    let base: GitObject | undefined;
+    while (entry && !base) {
+      if (entry.baseOffset !== undefined) {
+        chain.push(entry);
+        base = resolved.get(entry.baseOffset);
+        entry = base ? undefined : entries.get(entry.baseOffset);
+      } else if (entry.baseSha !== undefined) {
+        chain.push(entry);
+        base = objects.get(entry.baseSha);
+        if (!base) throw new GitFormatError(`Delta base ${entry.baseSha} is missing (thin packs are not supported)`);
+      } else {
+        base = { type: PACK_TYPES[entry.type], data: entry.data };
+      }
+    }
+    if (!base) throw new GitFormatError("Delta base is missing");
+    let obj = base;
+    for (let i = chain.length - 1; i >= 0; i--) obj = { type: obj.type, data: applyDelta(obj.data, chain[i].data) };
+    resolved.set(offset, obj);
+    return obj;
+  };
+
+  // REF_DELTA bases may appear later in the pack, so retry until nothing changes
+  let pending = order;
+  while (pending.length > 0) {
+    const next: number[] = [];
+    for (const offset of pending) {
+      const entry = entries.get(offset)!;
+      if (entry.baseSha !== undefined && !objects.has(entry.baseSha)) {
+        next.push(offset);
+        continue;
+      }
+      const obj = resolve(offset);
+      objects.set(hashObject(obj.type, obj.data), obj);
+    }
+    if (next.length === pending.length) resolve(next[0]);
+    pending = next;
+  }
+  return objects;
+}
+
+// ─── Bundles ───
+
+export function writeBundle(refs: Array<{ name: string; sha: string }>, pack: Uint8Array): Uint8Array {
+  const header = `# v2 git bundle\n${refs.map((r) => `${r.sha} ${r.name}\n`).join("")}\n`;
+  return concatBytes([encoder.encode(header), pack]);
+}
+
+export function readBundle(bundle: Uint8Array): { refs: Array<{ name: string; sha: string }>; objects: Map<string, GitObject> } {
+  let pos = 0;
+  const line = () => {
+    const nl = bundle.indexOf(0x0a, pos);
+    if (nl === -1) throw new GitFormatError("Truncated bundle header");
+    const text = decoder.decode(bundle.subarray(pos, nl));
+    pos = nl + 1;
+    return text;
+  };
+
+  const signature = line();
+  if (signature !== "# v2 git bundle" && signature !== "# v3 git bundle") throw new GitFormatError("Not a git bundle");
+  const refs: Array<{ name: string; sha: string }> = [];
+  const prerequisites: string[] = [];
+  for (let text = line(); text !== ""; text = line()) {
+    if (text.startsWith("@")) continue;
+    if (text.startsWith("-")) prerequisites.push(text.slice(1, 41));
+    else refs.push({ sha: text.slice(0, 40), name: text.slice(41) });
+  }
+  if (prerequisites.length > 0) {
+    throw new GitFormatError(`Bundle needs ${prerequisites.length} commit(s) it doesn't contain; export it with full history`);
+  }
+  return { refs, objects: readPack(bundle.subarray(pos)) };
+}
+
+// ─── Tarballs ───
+
+export interface TarEntry {
+  path: string;
+  type: "file" | "directory" | "symlink";
+  data: Uint8Array;
+  linkTarget?: string;
+  mode: number;
+}
+
+export function readTar(tar: Uint8Array): TarEntry[] {
+  const entries: TarEntry[] = [];
+  const str = (off: number, len: number) => {
+    const field = tar.subarray(off, off + len);
+    const nul = field.indexOf(0);
+    return decoder.decode(nul === -1 ? field : field.subarray(0, nul));
+  };
+  let pos = 0;
+  let longName: string | null = null;
+
+  while (pos + 512 <= tar.length) {
+    const header = pos;
+    if (tar.subarray(header, header + 512).every((b) => b === 0)) break;
+    const size = parseInt(str(header + 124, 12).trim() || "0", 8);
+    const typeflag = String.fromCharCode(tar[header + 156] || 48);
+    const prefix = str(header + 257, 6).startsWith("ustar") ? str(header + 345, 155) : "";
+    let path = longName ?? (prefix ? `${prefix}/${str(header, 100)}` : str(header, 100));
+    const data = tar.subarray(header + 512, header + 512 + size);
+    pos = header + 512 + Math.ceil(size / 512) * 512;
+
+    if (typeflag === "L") {
+      longName = decoder.decode(data).replace(/\0+$/, "");
+      continue;
+    }
+    if (typeflag === "x") {
+      const pax = decoder.decode(data).match(/(?:^|\n)\d+ path=([^\n]*)/);
+      if (pax) longName = pax[1];
+      continue;
+    }
+    longName = null;
+    path = path.replace(/^\.\//, "");
+    const mode = parseInt(str(header + 100, 8).trim() || "644", 8);
+    if (typeflag === "0" || typeflag === "7") entries.push({ path, type: "file", data, mode });
+    else if (typeflag === "5") entries.push({ path: path.replace(/\/$/, ""), type: "directory", data, mode });
+    else if (typeflag === "2") entries.push({ path, type: "symlink", data, linkTarget: str(header + 157, 100), mode });
+  }
+  return entries;
+}
+
+// ─── Export ───
+
+/** Depth-first order of `starts` and their ancestors in which every parent precedes its children. */
+export function parentsFirst(starts: string[], parentsOf: (id: string) => string[]): string[] {
+  const ordered: string[] = [];
+  const placed = new Set<string>();
+  for (const start of starts) {
+    const stack: Array<{ id: string; expanded: boolean }> = [{ id: start, expanded: false }];
+    while (stack.length > 0) {
+      const top = stack.pop()!;
+      if (placed.has(top.id)) continue;
+      if (top.expanded) {
+        placed.add(top.id);
+        ordered.push(top.id);
+        continue;
+      }
+      stack.push({ id: top.id, expanded: true });
+      for (const parent of parentsOf(top.id)) {
+        if (!placed.has(parent)) stack.push({ id: parent, expanded: false });
+      }
+    }
+  }
+  return ordered;
+}
+
+/** Whether bytes look like text we can store as a snapshot file. */
+function decodeText(data: Uint8Array): string | null {
+  if (data.includes(0)) return null;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+function fileMode(mode?: string): string {
+  return mode === "100755" || mode === "120000" ? mode : "100644";
+}
+
+/**
+ * Write snapshots as git commits, with refs for branch heads and annotated
+ * tags, and bundle them. The first branch becomes HEAD. Objects are stored uncompressed; `git gc` after
+ * cloning repacks them.
+ */
+export function exportBundle(
+  commits: ExportCommit[],
+  branches: Array<{ name: string; commitId: string }>,
+  tags: ExportTag[] = [],
+): { bundle: Uint8Array; shas: Map<string, string> } {
+  const objects = new Map<string, GitObject>();
+  const put = (type: GitObjectType, data: Uint8Array) => {
+    const sha = hashObject(type, data);
+    if (!objects.has(sha)) objects.set(sha, { type, data });
+    return sha;
+  };
+  const shas = new Map<string, string>();
+
+  const byId = new Map(commits.map((c) => [c.id, c]));
+  const order = parentsFirst(commits.map((c) => c.id), (id) => byId.get(id)!.parentIds.filter((p) => byId.has(p)));
+
+  for (const commit of order.map((id) => byId.get(id)!)) {
+    interface Dir { files: TreeEntry[]; dirs: Map<string, Dir> }
+    const root: Dir = { files: [], dirs: new Map() };
+    for (const f of commit.files) {
+      const parts = f.path.replace(/^\/+/, "").split("/").filter(Boolean);
+      const name = parts.pop();
+      if (!name) continue;
+      let dir = root;
+      for (const part of parts) {
+        if (!dir.dirs.has(part)) dir.dirs.set(part, { files: [], dirs: new Map() });
+        dir = dir.dirs.get(part)!;
+      }
+      dir.files.push({ mode: fileMode(f.mode), name, sha: put("blob", encoder.encode(f.content)) });
+    }
+    const writeDir = (dir: Dir): string => put("tree", encodeTree([
+      ...dir.files,
+      ...Array.from(dir.dirs, ([name, child]) => ({ mode: "40000", name, sha: writeDir(child) })),
+    ]));
+
+    const parents = commit.parentIds.map((id) => shas.get(id)).filter((sha): sha is string => Boolean(sha));
+    shas.set(commit.id, put("commit", encodeCommit({ tree: writeDir(root), parents, author: commit.author, message: commit.message })));
+  }
+
+  const refs = branches
+    .filter((b) => shas.has(b.commitId))
+    .map((b) => ({ name: `refs/heads/${b.name}`, sha: shas.get(b.commitId)! }));
+  for (const tag of tags) {
+    const object = shas.get(tag.commitId);
+    if (!object) continue;
+    refs.push({ name: `refs/tags/${tag.name}`, sha: put("tag", encodeTag({ object, name: tag.name, tagger: tag.tagger, message: tag.message })) });
+  }
+  // Lets `git clone` check out the first branch
+  if (refs.length > 0 && refs[0].name.startsWith("refs/heads/")) refs.push({ name: "HEAD", sha: refs[0].sha });
+
+  return { bundle: writeBundle(refs, writePack(Array.from(objects.values()))), shas };
+}
+
+// ─── Import ───
+
+/** Read a loose-object and packfile `.git` directory out of tar entries. */
+function readGitDir(entries: TarEntry[], gitDir: string) {
+  const objects = new Map<string, GitObject>();
+  const refs: Array<{ name: string; sha: string }> = [];
+  let headRef: string | null = null;
+  const files = new Map(entries.filter((e) => e.path.startsWith(gitDir)).map((e) => [e.path.slice(gitDir.length), e]));
+
+  for (const [path, entry] of files) {
+    if (/^objects\/pack\/[^/]+\.pack$/.test(path)) readPack(entry.data, objects);
+  }
+  for (const [path, entry] of files) {
+    const loose = path.match(/^objects\/([0-9a-f]{2})\/([0-9a-f]{38})$/);
+    if (!loose || objects.has(loose[1] + loose[2])) continue;
+    const raw = inflateZlib(entry.data).data;
+    const nul = raw.indexOf(0);
+    const [type] = decoder.decode(raw.subarray(0, nul)).split(" ");
+    objects.set(loose[1] + loose[2], { type: type as GitObjectType, data: raw.slice(nul + 1) });
+  }
+
+  const packed = files.get("packed-refs");
+  if (packed) {
+    for (const line of decoder.decode(packed.data).split("\n")) {
+      const m = line.match(/^([0-9a-f]{40}) (refs\/\S+)$/);
+      if (m) refs.push({ sha: m[1], name: m[2] });
+    }
+  }
+  for (const [path, entry] of files) {
+    if (entry.type !== "file" || !/^refs\/(heads|tags)\//.test(path)) continue;
+    const sha = decoder.decode(entry.data).trim();
+    if (/^[0-9a-f]{40}$/.test(sha)) {
+      const existing = refs.findIndex((r) => r.name === path);
+      if (existing !== -1) refs.splice(existing, 1);
+      refs.push({ name: path, sha });
+    }
+  }
+  const head = files.get("HEAD");
+  if (head) headRef = decoder.decode(head.data).match(/^ref: (refs\/heads\/\S+)/)?.[1] ?? null;
+
+  return { objects, refs, headRef };
+}
+
+/**
+ * Turn a git object store and its refs into commits with flat file lists,
+ * parents first. Keeps the newest `maxCommits` commits reachable from the refs.
+ */
+function collectHistory(
+  objects: Map<string, GitObject>,
+  refs: Array<{ name: string; sha: string }>,
+  headRef: string | null,
+  maxCommits: number,
+): ImportedRepository {
+  const branches: Record<string, string> = {};
+  const tags: ImportedRepository["tags"] = {};
+  const tips: string[] = [];
+
+  for (const ref of refs) {
+    let sha = ref.sha;
+    let message: string | null = null;
+    // Peel annotated tags down to their commit
+    for (let obj = objects.get(sha); obj?.type === "tag"; obj = objects.get(sha)) {
+      const tag = parseTag(obj.data);
+      message = tag.message;
+      sha = tag.object;
+    }
+    if (objects.get(sha)?.type !== "commit") continue;
+    if (ref.name.startsWith("refs/heads/")) branches[ref.name.slice(11)] = sha;
+    else if (ref.name.startsWith("refs/tags/")) tags[ref.name.slice(10)] = { sha, message };
+    else continue;
+    tips.push(sha);
+  }
+  if (tips.length === 0) throw new GitFormatError("No branches or tags found");
+
+  // Newest first by commit time, so a cut keeps recent history
+  const parsed = new Map<string, ReturnType<typeof parseCommit>>();
+  const seen = new Set(tips);
+  const queue = [...tips];
+  while (queue.length > 0) {
+    const sha = queue.pop()!;
+    const obj = objects.get(sha);
+    if (!obj || obj.type !== "commit") throw new GitFormatError(`Commit ${sha} is missing`);
+    const commit = parseCommit(obj.data);
+    parsed.set(sha, commit);
+    for (const parent of commit.parents) {
+      if (!seen.has(parent)) {
+        seen.add(parent);
+        queue.push(parent);
+      }
+    }
+  }
+  const kept = new Set(
+    [...parsed.keys()].sort((a, b) => parsed.get(b)!.author.time - parsed.get(a)!.author.time).slice(0, maxCommits),
+  );
+  for (const tip of tips) kept.add(tip);
+
+  const ordered = parentsFirst(tips, (sha) => parsed.get(sha)!.parents.filter((p) => kept.has(p)));
+
+  const skipped = new Set<string>();
+  const blobText = new Map<string, string | null>();
+  const treeFiles = new Map<string, ImportedCommit["files"]>();
+  const flatten = (treeSha: string, prefix: string): ImportedCommit["files"] => {
+    const key = `${prefix}\0${treeSha}`;
+    const cached = treeFiles.get(key);
+    if (cached) return cached;
+    const tree = objects.get(treeSha);
+    if (!tree) throw new GitFormatError(`Tree ${treeSha} is missing`);
+    const files: ImportedCommit["files"] = [];
+    for (const entry of parseTree(tree.data)) {
+      const path = `${prefix}/${entry.name}`;
+      if (entry.mode === "40000") {
+        files.push(...flatten(entry.sha, path));
+        continue;
+      }
+      if (entry.mode === "160000") {
+        skipped.add(path);
+        continue;
+      }
+      if (!blobText.has(entry.sha)) {
+        const blob = objects.get(entry.sha);
+        if (!blob) throw new GitFormatError(`Blob ${entry.sha} is missing`);
+        blobText.set(entry.sha, decodeText(blob.data));
+      }
+      const content = blobText.get(entry.sha);
+      if (content === null || content === undefined) {
+        skipped.add(path);
+        continue;
+      }
+      files.push({ path, content, ...(entry.mode !== "100644" ? { mode: entry.mode } : {}) });
+    }
+    treeFiles.set(key, files);
+    return files;
+  };
+
+  const commits = ordered.map((sha) => {
+    const c = parsed.get(sha)!;
+    return {
+      sha,
+      parents: c.parents.filter((p) => kept.has(p)),
+      author: c.author,
+      message: c.message,
+      files: flatten(c.tree, ""),
+    };
+  });
+
+  return {
+    commits,
+    branches,
+    tags,
+    head: headRef?.startsWith("refs/heads/") ? headRef.slice(11) : null,
+    skipped: [...skipped].sort(),
+    truncated: kept.size < parsed.size,
+  };
+}
+
+/**
+ * Read a git bundle, or a tarball (optionally gzipped) of a repository, into
+ * commits with their files. A tarball without a `.git` directory becomes a
+ * single commit of its files.
+ */
+export function importRepository(bytes: Uint8Array, maxCommits = 1000): ImportedRepository {
+  if (/^# v[23] git bundle\n/.test(decoder.decode(bytes.subarray(0, 16)))) {
+    const { refs, objects } = readBundle(bytes);
+    return collectHistory(objects, refs, null, maxCommits);
+  }
+
+  const tar = bytes[0] === 0x1f && bytes[1] === 0x8b ? gunzip(bytes) : bytes;
+  if (tar.length < 512 || decoder.decode(tar.subarray(257, 262)) !== "ustar") {
+    throw new GitFormatError("Expected a git bundle or a tar archive");
+  }
+  const entries = readTar(tar);
+
+  const head = entries.find((e) => /(^|\/)\.git\/HEAD$/.test(e.path));
+  if (head) {
+    const gitDir = head.path.slice(0, -"HEAD".length);
+    const { objects, refs, headRef } = readGitDir(entries, gitDir);
+    return collectHistory(objects, refs, headRef, maxCommits);
+  }
+
+  // Plain source tree: one commit, with a shared top-level folder stripped
+  const files = entries.filter((e) => e.type !== "directory");
+  const tops = new Set(files.map((e) => e.path.split("/")[0]));
+  const strip = tops.size === 1 && files.every((e) => e.path.includes("/")) ? `${[...tops][0]}/` : "";
+  const skipped: string[] = [];
+  const imported: ImportedCommit["files"] = [];
+  for (const e of files) {
+    const path = `/${e.path.slice(strip.length)}`;
+    const content = e.type === "symlink" ? e.linkTarget ?? "" : decodeText(e.data);
+    if (content === null) {
+      skipped.push(path);
+      continue;
+    }
+    const mode = e.type === "symlink" ? "120000" : e.mode & 0o111 ? "100755" : undefined;
+    imported.push({ path, content, ...(mode ? { mode } : {}) });
+  }
+  imported.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  return {
+    commits: [{ sha: "", parents: [], author: { name: "", email: "", time: 0 }, message: "Import from tarball", files: imported }],
+    branches: { main: "" },
+    tags: {},
+    head: "main",
+    skipped,
+    truncated: false,
+  };
+}
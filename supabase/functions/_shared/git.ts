@@ -0,0 +1,252 @@
+/**
+ * Structured git output for the runner's git endpoint and the IDE's git
+ * tools: result types, parsers for the machine-readable formats the runner
+ * asks git for, and ref-name validation.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node (type stripping) and Deno.
+ */
+
+// ─── Types ───
+
+export interface GitStatusEntry {
+  path: string;
+  /** Original path of a rename or copy */
+  from?: string;
+  /** Staged state, git's X column: ".", "M", "A", "D", "R", "C", "T", "U", or "?" for untracked */
+  index: string;
+  /** Worktree state, git's Y column */
+  worktree: string;
+  kind: "changed" | "renamed" | "unmerged" | "untracked";
+}
+
+export interface GitStatus {
+  /** Current branch, null when HEAD is detached */
+  branch: string | null;
+  /** Commit HEAD points at, null before the first commit */
+  head: string | null;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  files: GitStatusEntry[];
+  clean: boolean;
+}
+
+export interface GitDiffFile {
+  path: string;
+  from?: string;
+  added: number;
+  removed: number;
+  binary: boolean;
+}
+
+export interface GitDiff {
+  staged: boolean;
+  files: GitDiffFile[];
+  linesAdded: number;
+  linesRemoved: number;
+  /** Unified diff text, cut at the runner's output cap */
+  patch: string;
+  truncated: boolean;
+}
+
+export interface GitLogEntry {
+  hash: string;
+  parents: string[];
+  author: { name: string; email: string };
+  /** ISO 8601 author date */
+  date: string;
+  subject: string;
+}
+
+export interface GitBranch {
+  name: string;
+  current: boolean;
+  head: string;
+  upstream: string | null;
+}
+
+/** Shape of `FSMStateInputs.repo.diffStatus` */
+export interface GitDiffSummary {
+  clean: boolean;
+  filesChanged: number;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+export type GitResult =
+  | { tool: "git_status"; status: GitStatus }
+  | { tool: "git_diff"; diff: GitDiff }
+  | { tool: "git_log"; commits: GitLogEntry[] }
+  | { tool: "git_branch"; branches: GitBranch[] }
+  | { tool: "git_checkout"; status: GitStatus }
+  | { tool: "git_commit"; commit: GitLogEntry; status: GitStatus };
+
+// ─── Formats ───
+
+// The runner passes these to git so the parsers below get unambiguous fields
+export const GIT_STATUS_ARGS = ["status", "--porcelain=v2", "--branch", "-z"];
+export const GIT_NUMSTAT_ARGS = ["diff", "--numstat", "-z"];
+export const GIT_LOG_FORMAT = "--format=%H%x1f%P%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e";
+export const GIT_BRANCH_FORMAT = "--format=%(HEAD)%1f%(refname:short)%1f%(objectname)%1f%(upstream:short)";
+
+// ─── Parsers ───
+
+/** Parse `git status --porcelain=v2 --branch -z`. */
+export function parseStatus(output: string): GitStatus {
+  const status: GitStatus = { branch: null, head: null, upstream: null, ahead: 0, behind: 0, files: [], clean: true };
+  const fields = output.split("\0");
+
+  for (let i = 0; i < fields.length; i++) {
+    const line = fields[i];
+    if (!line) continue;
+
+    if (line.startsWith("# ")) {
+      const [key, ...rest] = line.slice(2).split(" ");
+      const value = rest.join(" ");
+      if (key === "branch.oid") status.head = value === "(initial)" ? null : value;
+      else if (key === "branch.head") status.branch = value === "(detached)" ? null : value;
+      else if (key === "branch.upstream") status.upstream = value;
+      else if (key === "branch.ab") {
+        const m = value.match(/^\+(\d+) -(\d+)$/);
+        if (m) [status.ahead, status.behind] = [Number(m[1]), Number(m[2])];
+      }
+      continue;
+    }
+
+    const type = line[0];
+    if (type === "?") {
+      status.files.push({ path: line.slice(2), index: "?", worktree: "?", kind: "untracked" });
+    } else if (type === "1" || type === "2" || type === "u") {
+      // Fixed-width fields before the path: 8 for ordinary, 9 for renames, 10 for unmerged
+      const skip = type === "1" ? 8 : type === "2" ? 9 : 10;
+      const parts = line.split(" ");
+      const entry: GitStatusEntry = {
+        path: parts.slice(skip).join(" "),
+        index: parts[1][0],
+        worktree: parts[1][1],
+        kind: type === "2" ? "renamed" : type === "u" ? "unmerged" : "changed",
+      };
+      // With -z the original path of a rename is the next NUL-separated field
+      if (type === "2") entry.from = fields[++i];
+      status.files.push(entry);
+    }
+  }
+
+  status.clean = status.files.length === 0;
+  return status;
+}
+
+/** Parse `git diff --numstat -z`; binary files report `-` for both counts. */
+export function parseNumstat(output: string): GitDiffFile[] {
+  const files: GitDiffFile[] = [];
+  const fields = output.split("\0");
+  for (let i = 0; i < fields.length; i++) {
+    const m = fields[i].replace(/^\n/, "").match(/^(-|\d+)\t(-|\d+)\t(.*)$/);
+    if (!m) continue;
+    const binary = m[1] === "-" && m[2] === "-";
+    const file: GitDiffFile = { path: m[3], added: binary ? 0 : Number(m[1]), removed: binary ? 0 : Number(m[2]), binary };
+    // Renames leave the path empty and put old and new paths in the next two fields
+    if (!m[3]) {
+      file.from = fields[++i];
+      file.path = fields[++i];
+    }
+    files.push(file);
+  }
+  return files;
+}
+
+/** Parse `git log` run with GIT_LOG_FORMAT. */
+export function parseLog(output: string): GitLogEntry[] {
+  return output
+    .split("\x1e")
+    .map((record) => record.replace(/^\n/, ""))
+    .filter(Boolean)
+    .map((record) => {
+      const [hash, parents, name, email, date, subject] = record.split("\x1f");
+      return { hash, parents: parents ? parents.split(" ") : [], author: { name, email }, date, subject: subject ?? "" };
+    });
+}
+
+/** Parse `git for-each-ref refs/heads` run with GIT_BRANCH_FORMAT. */
+export function parseBranches(output: string): GitBranch[] {
+  return output
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [head, name, oid, upstream] = line.split("\x1f");
+      return { name, current: head === "*", head: oid, upstream: upstream || null };
+    });
+}
+
+export function summarizeDiff(status: GitStatus, diffs: GitDiff[]): GitDiffSummary {
+  const stats = diffs.flatMap((d) => d.files);
+  return {
+    clean: status.clean,
+    filesChanged: status.files.length,
+    linesAdded: stats.reduce((n, f) => n + f.added, 0),
+    linesRemoved: stats.reduce((n, f) => n + f.removed, 0),
+  };
+}
+
+// ─── Validation ───
+
+/**
+ * Ref names accepted from tool input. Follows `git check-ref-format` and
+ * additionally refuses a leading `-` so a name can never read as an option.
+ */
+export function isValidRefName(name: string): boolean {
+  if (!name || name.startsWith("-") || name.startsWith("/") || name.endsWith("/") || name.endsWith(".")) return false;
+  if (name === "@" || name.endsWith(".lock") || name.includes("..") || name.includes("@{") || name.includes("//")) return false;
+  // eslint-disable-next-line no-control-regex
+  if (/[\x00-\x20\x7f~^:?*[\\]/.test(name)) return false;
+  return name.split("/").every((part) => part !== "" && !part.startsWith("."));
+}
+
+/**
+ * The ref names a git tool takes from its input, for validation before the
+ * runner calls git. `create` names a branch for git_branch but is a flag for
+ * git_checkout, where the new branch is `ref`.
+ */
+export function gitToolRefs(tool: string, input: Record<string, unknown>): unknown[] {
+  const refs = tool === "git_log" || tool === "git_checkout" ? [input.ref]
+    : tool === "git_branch" ? [input.create, input.start_point]
+    : [];
+  return refs.filter((ref) => ref !== undefined);
+}
+
+/** Arguments for git_checkout: switch to `ref`, or create it first with `-b` */
+export function gitCheckoutArgs(ref: string, create = false): string[] {
+  return create ? ["checkout", "-b", ref] : ["checkout", ref, "--"];
+}
+
+// ─── Formatting ───
+
+/** Plain-text rendering of a result for tool output and agent context. */
+export function formatGitResult(result: GitResult): string {
+  switch (result.tool) {
+    case "git_status":
+    case "git_checkout":
+      return formatStatus(result.status);
+    case "git_diff": {
+      const { diff } = result;
+      if (diff.files.length === 0) return `No ${diff.staged ? "staged" : "unstaged"} changes`;
+      const stats = diff.files.map((f) => `${f.binary ? "bin" : `+${f.added} -${f.removed}`}\t${f.from ? `${f.from} → ` : ""}${f.path}`);
+      return [...stats, "", diff.patch].join("\n").trimEnd();
+    }
+    case "git_log":
+      return result.commits.map((c) => `${c.hash.slice(0, 7)} ${c.subject} (${c.author.name}, ${c.date})`).join("\n") || "No commits";
+    case "git_branch":
+      return result.branches.map((b) => `${b.current ? "*" : " "} ${b.name}${b.upstream ? ` → ${b.upstream}` : ""}`).join("\n") || "No branches";
+    case "git_commit":
+      return `[${result.status.branch ?? "detached HEAD"} ${result.commit.hash.slice(0, 7)}] ${result.commit.subject}`;
+  }
+}
+
+function formatStatus(status: GitStatus): string {
+  const tracking = status.upstream ? ` → ${status.upstream} (+${status.ahead} -${status.behind})` : "";
+  const header = `On ${status.branch ?? `detached HEAD ${status.head?.slice(0, 7) ?? ""}`.trim()}${tracking}`;
+  if (status.clean) return `${header}\nnothing to commit, working tree clean`;
+  const lines = status.files.map((f) => `${f.index}${f.worktree} ${f.from ? `${f.from} → ` : ""}${f.path}`);
+  return [header, ...lines].join("\n");
+}
@@ -0,0 +1,151 @@
+/**
+ * Per-session resource limits for runner processes: clamping requested
+ * limits to what the runner allows, the cgroup v2 and rlimit settings that
+ * enforce them, and classifying how a process that hit one ended.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node (type stripping) and Deno.
+ */
+
+// ─── Types ───
+
+export interface ResourceLimits {
+  cpuCount: number;
+  memoryMb: number;
+  timeoutS: number;
+  /** Workspace disk quota */
+  diskMb: number;
+  /** Largest single file a process may write */
+  fileSizeMb: number;
+  maxProcesses: number;
+  networkEnabled: boolean;
+}
+
+export type LimitKind = "memory" | "pids" | "file_size" | "disk_quota" | "timeout" | "network";
+
+/** Why a process was stopped or refused, reported alongside its exit code. */
+export interface LimitViolation {
+  kind: LimitKind;
+  message: string;
+}
+
+/** What the runner host supports, detected at startup. */
+export interface IsolationSupport {
+  /** `cgroup.procs` of the leaf cgroup the process should join, when cgroups v2 is set up */
+  cgroupProcs?: string;
+  prlimit: boolean;
+  unshare: boolean;
+}
+
+export interface ExitInfo {
+  signal: string | null;
+  timedOut: boolean;
+  diskExceeded: boolean;
+  /** Counters read from the process's cgroup after it exited */
+  oomKills: number;
+  pidsMaxHits: number;
+}
+
+// ─── Defaults ───
+
+export const DEFAULT_RESOURCE_LIMITS: ResourceLimits = {
+  cpuCount: 1,
+  memoryMb: 2048,
+  timeoutS: 600,
+  diskMb: 512,
+  fileSizeMb: 100,
+  maxProcesses: 64,
+  networkEnabled: false,
+};
+
+const MB = 1024 * 1024;
+const CPU_PERIOD_US = 100000;
+
+// ─── Limits ───
+
+function lowerOf(requested: unknown, ceiling: number): number {
+  const n = Number(requested);
+  return Number.isFinite(n) && n > 0 ? Math.min(n, ceiling) : ceiling;
+}
+
+/**
+ * Limits for a session: whatever the client asked for, but never more than
+ * the runner's own limits. Network can be turned off, not on.
+ */
+export function clampLimits(requested: Partial<ResourceLimits> | undefined, runner: ResourceLimits): ResourceLimits {
+  const r = requested ?? {};
+  return {
+    cpuCount: lowerOf(r.cpuCount, runner.cpuCount),
+    memoryMb: lowerOf(r.memoryMb, runner.memoryMb),
+    timeoutS: lowerOf(r.timeoutS, runner.timeoutS),
+    diskMb: lowerOf(r.diskMb, runner.diskMb),
+    fileSizeMb: lowerOf(r.fileSizeMb, runner.fileSizeMb),
+    maxProcesses: Math.floor(lowerOf(r.maxProcesses, runner.maxProcesses)),
+    networkEnabled: runner.networkEnabled && r.networkEnabled !== false,
+  };
+}
+
+/** cgroup v2 interface files to write for a session's cgroup. */
+export function cgroupSettings(limits: ResourceLimits): Record<string, string> {
+  return {
+    "cpu.max": `${Math.round(limits.cpuCount * CPU_PERIOD_US)} ${CPU_PERIOD_US}`,
+    "memory.max": String(Math.round(limits.memoryMb * MB)),
+    "memory.swap.max": "0",
+    "pids.max": String(limits.maxProcesses),
+  };
+}
+
+/**
+ * argv to put in front of a command so it starts inside its cgroup, with
+ * rlimits applied and, when network is off, in an empty network namespace.
+ * Returns a violation instead when a limit is required but the host can't
+ * enforce it. Every session has a process limit, and RLIMIT_NPROC counts all
+ * processes of the runner's user across sessions, so without cgroups nothing
+ * runs.
+ */
+export function isolationPrefix(limits: ResourceLimits, support: IsolationSupport): { prefix: string[] } | { violation: LimitViolation } {
+  if (!limits.networkEnabled && !support.unshare) {
+    return { violation: { kind: "network", message: "Network is disabled for this session but the runner cannot isolate it" } };
+  }
+  if (!support.cgroupProcs) {
+    return { violation: { kind: "pids", message: "The runner cannot enforce this session's process limit without cgroups" } };
+  }
+  const prefix: string[] = [];
+  // The shell writes its own pid before exec, so nothing runs outside the cgroup
+  prefix.push("/bin/sh", "-c", 'echo $$ > "$0" && exec "$@"', support.cgroupProcs);
+  if (support.prlimit) prefix.push("prlimit", `--fsize=${Math.round(limits.fileSizeMb * MB)}`, "--core=0", "--");
+  if (!limits.networkEnabled) prefix.push("unshare", "--net", "--map-root-user", "--");
+  return { prefix };
+}
+
+// ─── Exit classification ───
+
+/** Parse a flat-keyed cgroup file such as `memory.events` or `pids.events`. */
+export function parseCgroupEvents(text: string): Record<string, number> {
+  const events: Record<string, number> = {};
+  for (const line of text.split("\n")) {
+    const [key, value] = line.trim().split(/\s+/);
+    if (key && value !== undefined) events[key] = Number(value);
+  }
+  return events;
+}
+
+/** The limit a finished process ran into, if any; the first match wins. */
+export function classifyExit(exit: ExitInfo, limits: ResourceLimits): LimitViolation | null {
+  if (exit.diskExceeded) {
+    return { kind: "disk_quota", message: `Workspace disk quota exceeded (${limits.diskMb} MB); the process was stopped` };
+  }
+  if (exit.timedOut || exit.signal === "SIGXCPU") {
+    return { kind: "timeout", message: `Time limit exceeded (${limits.timeoutS}s); the process was stopped` };
+  }
+  if (exit.oomKills > 0) {
+    return { kind: "memory", message: `Memory limit exceeded (${limits.memoryMb} MB); the process was OOM-killed` };
+  }
+  if (exit.signal === "SIGXFSZ") {
+    return { kind: "file_size", message: `File size limit exceeded (${limits.fileSizeMb} MB)` };
+  }
+  if (exit.pidsMaxHits > 0) {
+    return { kind: "pids", message: `Process limit reached (${limits.maxProcesses}); some processes could not start` };
+  }
+  return null;
+}
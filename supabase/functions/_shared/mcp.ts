@@ -0,0 +1,684 @@
+/**
+ * Model Context Protocol client: JSON-RPC framing for stdio and SSE streams,
+ * the initialize handshake, and the tools, resources and prompts requests a
+ * client makes of a server. Transports are supplied by the caller, so the
+ * same client drives a stdio process on the runner and a remote Streamable
+ * HTTP or SSE endpoint from the API. The server side answers the same
+ * requests for Started's own endpoint, with the permission rules and project
+ * tokens that guard it.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node (type stripping) and Deno.
+ */
+
+// ─── JSON-RPC ───
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+/** The transport closed before the server answered */
+export const CONNECTION_CLOSED = -32000;
+/** The server didn't answer within the request timeout */
+export const REQUEST_TIMEOUT = -32001;
+
+/** A JSON-RPC error from the server, or a local failure expressed as one */
+export class McpError extends Error {
+  code: number;
+  data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = "McpError";
+    this.code = code;
+    this.data = data;
+  }
+}
+
+export function isJsonRpcResponse(message: JsonRpcMessage): message is JsonRpcResponse {
+  return "id" in message && !("method" in message);
+}
+
+export function isJsonRpcRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+  return "method" in message && "id" in message && message.id !== undefined && message.id !== null;
+}
+
+/** The messages in one JSON-RPC payload, which may be a batch. Anything that isn't one is dropped. */
+export function parseJsonRpcMessages(payload: unknown): JsonRpcMessage[] {
+  const items = Array.isArray(payload) ? payload : [payload];
+  return items.filter((m): m is JsonRpcMessage =>
+    !!m && typeof m === "object" && (m as { jsonrpc?: unknown }).jsonrpc === "2.0" &&
+    (typeof (m as { method?: unknown }).method === "string" || "id" in (m as object)));
+}
+
+// ─── Framing ───
+
+/** One message per line, as stdio servers write them */
+export function encodeLine(message: JsonRpcMessage): string {
+  return `${JSON.stringify(message)}\n`;
+}
+
+/**
+ * Split a stdio stream into messages. Chunks may end mid-line; lines that
+ * aren't JSON-RPC (servers that log to stdout) are skipped.
+ */
+export function createLineDecoder(onMessage: (message: JsonRpcMessage) => void) {
+  let buffer = "";
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+        let payload: unknown;
+        try {
+          payload = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        for (const message of parseJsonRpcMessages(payload)) onMessage(message);
+      }
+    },
+  };
+}
+
+export interface SseEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/** Split a text/event-stream body into events; chunks may end mid-event. */
+export function createSseDecoder(onEvent: (event: SseEvent) => void) {
+  let buffer = "";
+  let event = "message";
+  let data: string[] = [];
+  let id: string | undefined;
+
+  const dispatch = () => {
+    if (data.length) onEvent({ event, data: data.join("\n"), id });
+    event = "message";
+    data = [];
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.search(/\r\n|\r|\n/)) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + (buffer.startsWith("\r\n", newline) ? 2 : 1));
+        if (line === "") {
+          dispatch();
+          continue;
+        }
+        if (line.startsWith(":")) continue;
+        const colon = line.indexOf(":");
+        const field = colon < 0 ? line : line.slice(0, colon);
+        const value = colon < 0 ? "" : line.slice(colon + 1).replace(/^ /, "");
+        if (field === "event") event = value;
+        else if (field === "data") data.push(value);
+        else if (field === "id") id = value;
+      }
+    },
+    /** Dispatch an event the stream ended without a blank line after */
+    end() {
+      if (buffer) this.push("\n");
+      dispatch();
+    },
+  };
+}
+
+// ─── Protocol ───
+
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+/** Versions this client can speak, newest first */
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+export const MCP_REQUEST_TIMEOUT_MS = 60 * 1000;
+/** Stop following list cursors after this many pages */
+export const MAX_LIST_PAGES = 20;
+
+export interface McpImplementation {
+  name: string;
+  version: string;
+  title?: string;
+}
+
+export interface McpServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface McpInitializeResult {
+  protocolVersion: string;
+  capabilities: McpServerCapabilities;
+  serverInfo: McpImplementation;
+  instructions?: string;
+}
+
+export interface McpToolDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+    openWorldHint?: boolean;
+  };
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  /** base64 */
+  blob?: string;
+}
+
+export type McpContent =
+  | { type: "text"; text: string }
+  | { type: "image" | "audio"; data: string; mimeType: string }
+  | { type: "resource"; resource: McpResourceContents }
+  | { type: "resource_link"; uri: string; name?: string; mimeType?: string };
+
+export interface McpCallToolResult {
+  content: McpContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface McpGetPromptResult {
+  description?: string;
+  messages: Array<{ role: "user" | "assistant"; content: McpContent }>;
+}
+
+// ─── Client ───
+
+/**
+ * Carries messages to and from one server. `start` runs before the first
+ * send; `setProtocolVersion` is told the negotiated version so HTTP
+ * transports can send it as a header.
+ */
+export interface McpTransport {
+  start?(): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+  setProtocolVersion?(version: string): void;
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: () => void;
+}
+
+/** Sends one request and resolves with its result */
+export type McpRequester = (method: string, params?: Record<string, unknown>) => Promise<unknown>;
+
+export interface McpClient {
+  /** Run the initialize handshake; every other request must wait for it */
+  connect(): Promise<McpInitializeResult>;
+  request: McpRequester;
+  notify(method: string, params?: Record<string, unknown>): Promise<void>;
+  close(): Promise<void>;
+}
+
+export function createMcpClient(
+  transport: McpTransport,
+  { clientInfo, timeoutMs = MCP_REQUEST_TIMEOUT_MS, capabilities = {} }: {
+    clientInfo: McpImplementation;
+    timeoutMs?: number;
+    capabilities?: Record<string, unknown>;
+  },
+): McpClient {
+  let nextId = 1;
+  let closed = false;
+  const pending = new Map<JsonRpcId, {
+    resolve: (result: unknown) => void;
+    reject: (error: McpError) => void;
+    timer: ReturnType<typeof setTimeout>;
+  }>();
+
+  const failAll = (error: McpError) => {
+    for (const [id, p] of pending) {
+      clearTimeout(p.timer);
+      pending.delete(id);
+      p.reject(error);
+    }
+  };
+
+  transport.onmessage = (message) => {
+    if (isJsonRpcResponse(message)) {
+      const p = message.id === null ? undefined : pending.get(message.id);
+      if (!p) return;
+      clearTimeout(p.timer);
+      pending.delete(message.id as JsonRpcId);
+      if (message.error) p.reject(new McpError(message.error.code, message.error.message, message.error.data));
+      else p.resolve(message.result);
+      return;
+    }
+    // Servers may ask things of the client; this one answers pings and declines the rest
+    if (isJsonRpcRequest(message)) {
+      const reply: JsonRpcResponse = message.method === "ping"
+        ? { jsonrpc: "2.0", id: message.id, result: {} }
+        : { jsonrpc: "2.0", id: message.id, error: { code: METHOD_NOT_FOUND, message: `Client does not support ${message.method}` } };
+      transport.send(reply).catch(() => undefined);
+    }
+  };
+  transport.onclose = () => {
+    closed = true;
+    failAll(new McpError(CONNECTION_CLOSED, "Connection closed"));
+  };
+
+  const request: McpRequester = (method, params) => {
+    if (closed) return Promise.reject(new McpError(CONNECTION_CLOSED, "Connection closed"));
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        transport.send({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: id, reason: "timeout" } })
+          .catch(() => undefined);
+        reject(new McpError(REQUEST_TIMEOUT, `${method} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      pending.set(id, { resolve, reject, timer });
+      const message: JsonRpcRequest = { jsonrpc: "2.0", id, method };
+      if (params) message.params = params;
+      transport.send(message).catch((error) => {
+        clearTimeout(timer);
+        pending.delete(id);
+        reject(error instanceof McpError ? error : new McpError(CONNECTION_CLOSED, String(error?.message || error)));
+      });
+    });
+  };
+
+  const notify = async (method: string, params?: Record<string, unknown>) => {
+    const message: JsonRpcNotification = { jsonrpc: "2.0", method };
+    if (params) message.params = params;
+    await transport.send(message);
+  };
+
+  return {
+    async connect() {
+      await transport.start?.();
+      const result = await request("initialize", {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities,
+        clientInfo,
+      }) as McpInitializeResult;
+      if (!result || !SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+        await transport.close().catch(() => undefined);
+        throw new McpError(INVALID_REQUEST, `Server speaks unsupported protocol version ${result?.protocolVersion}`);
+      }
+      transport.setProtocolVersion?.(result.protocolVersion);
+      await notify("notifications/initialized");
+      return result;
+    },
+    request,
+    notify,
+    async close() {
+      closed = true;
+      failAll(new McpError(CONNECTION_CLOSED, "Connection closed"));
+      await transport.close();
+    },
+  };
+}
+
+// ─── Requests ───
+
+/** Follow `nextCursor` through a paginated list request. */
+async function listAll<T>(request: McpRequester, method: string, key: string): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const result = await request(method, cursor ? { cursor } : undefined) as Record<string, unknown>;
+    items.push(...((result?.[key] as T[]) || []));
+    cursor = typeof result?.nextCursor === "string" ? result.nextCursor : undefined;
+    if (!cursor) break;
+  }
+  return items;
+}
+
+export function listTools(request: McpRequester): Promise<McpToolDefinition[]> {
+  return listAll(request, "tools/list", "tools");
+}
+
+export async function callTool(
+  request: McpRequester,
+  name: string,
+  args: Record<string, unknown> = {},
+): Promise<McpCallToolResult> {
+  return await request("tools/call", { name, arguments: args }) as McpCallToolResult;
+}
+
+export function listResources(request: McpRequester): Promise<McpResource[]> {
+  return listAll(request, "resources/list", "resources");
+}
+
+export function listResourceTemplates(request: McpRequester): Promise<McpResourceTemplate[]> {
+  return listAll(request, "resources/templates/list", "resourceTemplates");
+}
+
+export async function readResource(request: McpRequester, uri: string): Promise<McpResourceContents[]> {
+  const result = await request("resources/read", { uri }) as { contents?: McpResourceContents[] };
+  return result?.contents || [];
+}
+
+export function listPrompts(request: McpRequester): Promise<McpPrompt[]> {
+  return listAll(request, "prompts/list", "prompts");
+}
+
+export async function getPrompt(
+  request: McpRequester,
+  name: string,
+  args: Record<string, string> = {},
+): Promise<McpGetPromptResult> {
+  return await request("prompts/get", { name, arguments: args }) as McpGetPromptResult;
+}
+
+export interface McpCatalog {
+  tools: McpToolDefinition[];
+  resources: McpResource[];
+  resourceTemplates: McpResourceTemplate[];
+  prompts: McpPrompt[];
+}
+
+/** Everything an initialized server offers, asking only for what its capabilities advertise. */
+export async function discoverServer(request: McpRequester, capabilities: McpServerCapabilities): Promise<McpCatalog> {
+  return {
+    tools: capabilities.tools ? await listTools(request) : [],
+    resources: capabilities.resources ? await listResources(request) : [],
+    resourceTemplates: capabilities.resources
+      // Optional even for servers with resources
+      ? await listResourceTemplates(request).catch(() => [])
+      : [],
+    prompts: capabilities.prompts ? await listPrompts(request) : [],
+  };
+}
+
+/** A tool result as text for the model, truncated to `maxChars`. */
+export function toolResultText(result: McpCallToolResult, maxChars = 4000): string {
+  const parts = (result?.content || []).map((c) => {
+    switch (c.type) {
+      case "text": return c.text;
+      case "image":
+      case "audio": return `[${c.type} ${c.mimeType}]`;
+      case "resource": return c.resource.text ?? `[resource ${c.resource.uri}]`;
+      case "resource_link": return `[resource ${c.uri}]`;
+      default: return "";
+    }
+  }).filter(Boolean);
+  if (parts.length === 0 && result?.structuredContent) parts.push(JSON.stringify(result.structuredContent));
+  const text = parts.join("\n");
+  return text.length > maxChars ? `${text.slice(0, maxChars)}\n… (truncated)` : text;
+}
+
+// ─── Server ───
+
+/**
+ * What a server exposes. Throw McpError for protocol errors (unknown tool,
+ * bad arguments); anything else `callTool` throws becomes a tool result with
+ * `isError` so the model can read it.
+ */
+export interface McpServerHandlers {
+  serverInfo: McpImplementation;
+  instructions?: string;
+  listTools(): Promise<McpToolDefinition[]>;
+  callTool(name: string, args: Record<string, unknown>): Promise<McpCallToolResult>;
+  listResources?(): Promise<McpResource[]>;
+  listResourceTemplates?(): Promise<McpResourceTemplate[]>;
+  readResource?(uri: string): Promise<McpResourceContents[]>;
+}
+
+/** The client's version when this side speaks it, otherwise our latest */
+export function negotiateProtocolVersion(requested: unknown): string {
+  return typeof requested === "string" && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : MCP_PROTOCOL_VERSION;
+}
+
+async function dispatchServerRequest(handlers: McpServerHandlers, method: string, params: Record<string, unknown>) {
+  const hasResources = !!(handlers.listResources || handlers.listResourceTemplates || handlers.readResource);
+  switch (method) {
+    case "initialize": {
+      const result: McpInitializeResult = {
+        protocolVersion: negotiateProtocolVersion(params.protocolVersion),
+        capabilities: { tools: {}, ...(hasResources ? { resources: {} } : {}) },
+        serverInfo: handlers.serverInfo,
+      };
+      if (handlers.instructions) result.instructions = handlers.instructions;
+      return result;
+    }
+    case "ping":
+      return {};
+    case "tools/list":
+      return { tools: await handlers.listTools() };
+    case "tools/call": {
+      if (typeof params.name !== "string") throw new McpError(INVALID_PARAMS, "tools/call needs a tool name");
+      const args = params.arguments && typeof params.arguments === "object" ? params.arguments as Record<string, unknown> : {};
+      try {
+        return await handlers.callTool(params.name, args);
+      } catch (error) {
+        if (error instanceof McpError) throw error;
+        return { content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }], isError: true };
+      }
+    }
+    case "resources/list":
+      if (!hasResources) break;
+      return { resources: handlers.listResources ? await handlers.listResources() : [] };
+    case "resources/templates/list":
+      if (!hasResources) break;
+      return { resourceTemplates: handlers.listResourceTemplates ? await handlers.listResourceTemplates() : [] };
+    case "resources/read":
+      if (!handlers.readResource) break;
+      if (typeof params.uri !== "string") throw new McpError(INVALID_PARAMS, "resources/read needs a uri");
+      return { contents: await handlers.readResource(params.uri) };
+  }
+  throw new McpError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+}
+
+/**
+ * Answer one message from a client. Requests get a response, errors
+ * included; notifications and responses get null. Lists come back in a
+ * single page.
+ */
+export async function handleMcpMessage(handlers: McpServerHandlers, message: JsonRpcMessage): Promise<JsonRpcResponse | null> {
+  if (!isJsonRpcRequest(message)) return null;
+  try {
+    const result = await dispatchServerRequest(handlers, message.method, message.params || {});
+    return { jsonrpc: "2.0", id: message.id, result };
+  } catch (error) {
+    const code = error instanceof McpError ? error.code : INTERNAL_ERROR;
+    const text = error instanceof Error ? error.message : String(error);
+    return { jsonrpc: "2.0", id: message.id, error: { code, message: text } };
+  }
+}
+
+// ─── Permissions ───
+
+export type McpRisk = "read" | "simulate" | "write";
+export type PermissionEffect = "allow" | "ask" | "deny";
+
+/** A row of `mcp_permissions` */
+export interface McpPermissionRule {
+  rule_type: string;
+  subject: string;
+  effect: PermissionEffect;
+  reason?: string | null;
+}
+
+/**
+ * Decide a tool call against a project's `mcp_permissions`: a tool deny,
+ * then a tool allow, then a rule for the call's risk, then `prefix:` and
+ * `re:` patterns on the tool name. Reads are allowed and everything else
+ * asks when nothing matches.
+ */
+export function evaluateMcpPermission(
+  rules: McpPermissionRule[],
+  toolName: string,
+  risk: McpRisk,
+): { effect: PermissionEffect; reason: string } {
+  const toolRules = rules.filter((r) => r.rule_type === "tool" && r.subject === toolName);
+  const denyTool = toolRules.find((r) => r.effect === "deny");
+  if (denyTool) return { effect: "deny", reason: denyTool.reason ?? "Denied by tool rule" };
+  const allowTool = toolRules.find((r) => r.effect === "allow");
+  if (allowTool) return { effect: "allow", reason: allowTool.reason ?? "Allowed by tool rule" };
+
+  const riskRule = rules.find((r) => r.rule_type === "risk" && r.subject === risk);
+  if (riskRule) return { effect: riskRule.effect, reason: riskRule.reason ?? `Rule matched risk=${risk}` };
+
+  for (const r of rules) {
+    if (r.rule_type !== "pattern") continue;
+    if (r.subject.startsWith("prefix:")) {
+      const prefix = r.subject.slice("prefix:".length);
+      if (toolName.startsWith(prefix)) return { effect: r.effect, reason: r.reason ?? `Matched prefix ${prefix}` };
+    }
+    if (r.subject.startsWith("re:")) {
+      let matches = false;
+      try { matches = new RegExp(r.subject.slice("re:".length)).test(toolName); } catch { /* ignore bad patterns */ }
+      if (matches) return { effect: r.effect, reason: r.reason ?? "Matched regex" };
+    }
+  }
+
+  if (risk === "read") return { effect: "allow", reason: "Default allow for read" };
+  return { effect: "ask", reason: "Default ask for simulate/write" };
+}
+
+// ─── Project tokens ───
+
+/** Tokens for Started's MCP endpoint are this prefix and 64 hex characters */
+export const MCP_TOKEN_PREFIX = "smcp_";
+
+/** read: files, snapshots, attestations and events; write: files and snapshots; exec: runner commands */
+export type McpTokenScope = "read" | "write" | "exec";
+export const MCP_TOKEN_SCOPES: McpTokenScope[] = ["read", "write", "exec"];
+
+export function isMcpToken(value: unknown): value is string {
+  return typeof value === "string" && new RegExp(`^${MCP_TOKEN_PREFIX}[0-9a-f]{64}$`).test(value);
+}
+
+/** Why a scope list can't be granted, or null when it can */
+export function validateMcpTokenScopes(scopes: unknown): string | null {
+  if (!Array.isArray(scopes) || scopes.length === 0) return "Pick at least one scope";
+  const unknown = scopes.find((s) => !MCP_TOKEN_SCOPES.includes(s));
+  return unknown === undefined ? null : `Unknown scope: ${unknown}`;
+}
+
+/** Names the user started-mcp acts for when it calls a sibling function with the service key */
+export const ACTING_USER_HEADER = "x-started-acting-user";
+
+/** Compare two secrets in time that depends only on their lengths, not on where they differ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+}
+
+/**
+ * The user a call acts for when it carries the service key: started-mcp
+ * names the creator of the project token it was called with. Null for any
+ * other caller, who has to present their own session.
+ */
+export function actingUserId(authorization: string | null, actingUser: string | null, serviceKey: string | undefined): string | null {
+  if (!authorization || !actingUser || !serviceKey) return null;
+  return timingSafeEqual(authorization, `Bearer ${serviceKey}`) ? actingUser : null;
+}
+
+// ─── Server configuration ───
+
+/** stdio runs in the project's runner session; http is Streamable HTTP; sse is the 2024-11-05 transport */
+export type McpTransportKind = "stdio" | "http" | "sse";
+
+export interface McpServerConfig {
+  name: string;
+  transport: McpTransportKind;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+}
+
+/** Why a server configuration can't be used, or null when it can. */
+export function validateMcpServerConfig(config: Partial<McpServerConfig> | null): string | null {
+  if (!config || typeof config !== "object") return "Missing server configuration";
+  if (typeof config.name !== "string" || !/^[\w.-]{1,64}$/.test(config.name)) {
+    return "Server name must be 1-64 letters, digits, '.', '_' or '-'";
+  }
+  if (config.transport === "stdio") {
+    if (typeof config.command !== "string" || !config.command.trim()) return "stdio servers need a command";
+    if (config.args !== undefined && (!Array.isArray(config.args) || !config.args.every((a) => typeof a === "string"))) {
+      return "args must be a list of strings";
+    }
+  } else if (config.transport === "http" || config.transport === "sse") {
+    let url: URL;
+    try {
+      url = new URL(String(config.url));
+    } catch {
+      return "url must be an absolute URL";
+    }
+    if (url.protocol !== "https:") return "url must use https";
+  } else {
+    return "transport must be stdio, http or sse";
+  }
+  for (const [field, value] of [["env", config.env], ["headers", config.headers]] as const) {
+    if (value === undefined) continue;
+    if (!value || typeof value !== "object" || Array.isArray(value) ||
+      !Object.values(value).every((v) => typeof v === "string")) {
+      return `${field} must map names to strings`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,260 @@
+/**
+ * Runner mesh scheduling: how health checks move a node between active,
+ * draining and offline, and how nodes are ranked for a new session from the
+ * load they report on /health, and the enrollment and signed heartbeat
+ * protocol nodes join the mesh with. Used by the runner-mesh function and
+ * the runner service.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node (type stripping) and Deno.
+ */
+
+// ─── Types ───
+
+/** active takes new sessions; draining keeps its sessions but takes none; offline has failed over */
+export type NodeStatus = "active" | "draining" | "offline";
+
+export interface NodeCapabilities {
+  runtimes?: string[];
+  toolchains?: string[];
+  web3?: string[];
+  gpu?: boolean;
+  maxConcurrency?: number;
+}
+
+/** Load a runner reports about itself on /health */
+export interface NodeLoad {
+  activeSessions: number;
+  busySessions: number;
+  /** 1-minute load average */
+  loadAvg: number;
+  cpuCount: number;
+  memFreeMb: number;
+  memTotalMb: number;
+  /** The runner asked not to be given new sessions */
+  draining: boolean;
+}
+
+export interface MeshNode {
+  id: string;
+  name: string;
+  base_url: string;
+  region: string | null;
+  trust_tier: string;
+  capabilities: NodeCapabilities;
+  status: string;
+  last_heartbeat: string | null;
+  load: Partial<NodeLoad> | null;
+  health_failures: number;
+  /** Set once the node has enrolled itself; hand-registered nodes have none */
+  public_key?: string | null;
+}
+
+export interface ScheduleRequest {
+  required_capabilities?: {
+    runtimes?: string[];
+    web3?: string[];
+    gpu?: boolean;
+  };
+  trust_minimum?: string; // tier0, tier1, tier2
+  region?: string;
+  /** Nodes a failing-over session must not land on again */
+  exclude_node_ids?: string[];
+}
+
+// ─── Health ───
+
+/** Metrics older than this are re-measured before scheduling on them */
+export const HEARTBEAT_TTL_MS = 60 * 1000;
+/** Consecutive failed checks that take a draining node offline */
+export const MAX_HEALTH_FAILURES = 3;
+export const DEFAULT_MAX_CONCURRENCY = 4;
+
+const TRUST_ORDER = ["tier0", "tier1", "tier2"];
+
+function count(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : 0;
+}
+
+/** The load in a runner's /health response, or null when it doesn't look like one. */
+export function parseNodeLoad(health: unknown): NodeLoad | null {
+  if (!health || typeof health !== "object") return null;
+  const h = health as Record<string, unknown>;
+  if (h.ok !== true) return null;
+  const load = (h.load && typeof h.load === "object" ? h.load : {}) as Record<string, unknown>;
+  return {
+    activeSessions: count(h.activeSessions),
+    busySessions: count(h.busySessions),
+    loadAvg: count(load.avg1),
+    cpuCount: count(load.cpus) || 1,
+    memFreeMb: count(load.memFreeMb),
+    memTotalMb: count(load.memTotalMb),
+    draining: h.draining === true,
+  };
+}
+
+/**
+ * Status after a health check. A failed check drains the node at once so no
+ * new sessions land on it; enough failures in a row take it offline, and its
+ * sessions fail over. One good check brings it back.
+ */
+export function nextNodeStatus(
+  healthy: boolean,
+  load: NodeLoad | null,
+  failures: number,
+): { status: NodeStatus; failures: number } {
+  if (healthy) return { status: load?.draining ? "draining" : "active", failures: 0 };
+  const next = failures + 1;
+  return { status: next >= MAX_HEALTH_FAILURES ? "offline" : "draining", failures: next };
+}
+
+export function isHeartbeatFresh(node: Pick<MeshNode, "last_heartbeat">, now: number): boolean {
+  if (!node.last_heartbeat) return false;
+  return now - new Date(node.last_heartbeat).getTime() < HEARTBEAT_TTL_MS;
+}
+
+// ─── Scheduling ───
+
+/**
+ * How busy a node is, 0 (idle) to 1 (full), from whichever of its session
+ * slots, CPU and memory is most used. Nodes that never reported load count
+ * as idle.
+ */
+export function nodeUtilization(node: Pick<MeshNode, "capabilities" | "load">): number {
+  const load = node.load || {};
+  const slots = count(load.activeSessions) / (node.capabilities?.maxConcurrency || DEFAULT_MAX_CONCURRENCY);
+  const cpu = count(load.loadAvg) / (count(load.cpuCount) || 1);
+  const memTotal = count(load.memTotalMb);
+  const memory = memTotal > 0 ? 1 - count(load.memFreeMb) / memTotal : 0;
+  return Math.max(slots, cpu, memory);
+}
+
+function meetsRequest(node: MeshNode, req: ScheduleRequest): boolean {
+  const minTrustIdx = TRUST_ORDER.indexOf(req.trust_minimum || "tier0");
+  const tierIdx = TRUST_ORDER.indexOf(node.trust_tier);
+  if (tierIdx < 0 || tierIdx > (minTrustIdx >= 0 ? minTrustIdx : 2)) return false;
+
+  const caps = node.capabilities || {};
+  const wanted = req.required_capabilities;
+  if (wanted?.runtimes?.length && !wanted.runtimes.every((r) => (caps.runtimes || []).includes(r))) return false;
+  if (wanted?.web3?.length && !wanted.web3.every((w) => (caps.web3 || []).includes(w))) return false;
+  if (wanted?.gpu && !caps.gpu) return false;
+  return true;
+}
+
+/**
+ * Nodes that can take a new session, best first: active with fresh metrics,
+ * trusted and capable enough, not full. Same-region nodes come first, then
+ * the least utilized, then the most trusted.
+ */
+export function rankNodes(nodes: MeshNode[], req: ScheduleRequest, now: number): MeshNode[] {
+  const excluded = new Set(req.exclude_node_ids || []);
+  return nodes
+    .filter((n) => n.status === "active" && !excluded.has(n.id) && isHeartbeatFresh(n, now))
+    .filter((n) => meetsRequest(n, req) && nodeUtilization(n) < 1)
+    .map((n) => ({ node: n, utilization: nodeUtilization(n) }))
+    .sort((a, b) => {
+      const region = Number(b.node.region === req.region) - Number(a.node.region === req.region);
+      if (req.region && region !== 0) return region;
+      if (a.utilization !== b.utilization) return a.utilization - b.utilization;
+      return TRUST_ORDER.indexOf(a.node.trust_tier) - TRUST_ORDER.indexOf(b.node.trust_tier);
+    })
+    .map(({ node }) => node);
+}
+
+// ─── Enrollment ───
+
+/** How long a one-time enrollment token can be redeemed */
+export const ENROLLMENT_TOKEN_TTL_MS = 60 * 60 * 1000;
+/** How often an enrolled runner sends a heartbeat; well inside HEARTBEAT_TTL_MS */
+export const HEARTBEAT_INTERVAL_MS = 20 * 1000;
+/** Heartbeats signed further than this from the mesh's clock are rejected */
+export const HEARTBEAT_MAX_SKEW_MS = 5 * 60 * 1000;
+/** Prefixed to every signed heartbeat so the signature can't be reused for anything else */
+export const HEARTBEAT_CONTEXT = "started-runner-heartbeat.v1";
+
+export interface EnrollmentRequest {
+  token: string;
+  name: string;
+  base_url: string;
+  region?: string | null;
+  /** Raw Ed25519 public key, base64; heartbeats must be signed with its private key */
+  public_key: string;
+  capabilities?: NodeCapabilities;
+  fingerprint?: Record<string, unknown>;
+}
+
+/** Why an enrollment request can't be accepted, or null when it can. */
+export function validateEnrollment(req: Partial<EnrollmentRequest> | null): string | null {
+  if (!req || typeof req !== "object") return "Missing enrollment request";
+  if (typeof req.token !== "string" || !req.token) return "Missing enrollment token";
+  if (typeof req.name !== "string" || !/^[\w.-]{1,64}$/.test(req.name)) {
+    return "Node name must be 1-64 letters, digits, '.', '_' or '-'";
+  }
+  let url: URL;
+  try {
+    url = new URL(String(req.base_url));
+  } catch {
+    return "base_url must be an absolute URL";
+  }
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && /^(localhost|127\.0\.0\.1)$/.test(url.hostname))) {
+    return "base_url must use https";
+  }
+  // 32 raw bytes
+  if (typeof req.public_key !== "string" || !/^[A-Za-z0-9+/]{43}=$/.test(req.public_key)) {
+    return "public_key must be a base64 Ed25519 public key";
+  }
+  return null;
+}
+
+// ─── Heartbeats ───
+
+export interface Heartbeat {
+  node_id: string;
+  /** Milliseconds since the epoch on the runner's clock; strictly increasing per node */
+  timestamp: number;
+  /** The runner's /health response */
+  health: Record<string, unknown>;
+  capabilities?: NodeCapabilities;
+  fingerprint?: Record<string, unknown>;
+}
+
+export class HeartbeatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HeartbeatError";
+  }
+}
+
+/** The exact text a heartbeat signature covers. */
+export function heartbeatSigningInput(body: string): string {
+  return `${HEARTBEAT_CONTEXT}\n${body}`;
+}
+
+/**
+ * Parse a heartbeat body whose signature has already been checked. It must
+ * name the node that signed it, be close to the mesh's clock and be newer
+ * than the last one accepted, so a captured heartbeat can't be replayed.
+ */
+export function parseHeartbeat(
+  body: string,
+  { nodeId, now, lastTimestamp }: { nodeId: string; now: number; lastTimestamp: number },
+): Heartbeat {
+  let heartbeat: Heartbeat;
+  try {
+    heartbeat = JSON.parse(body);
+  } catch {
+    throw new HeartbeatError("Heartbeat is not JSON");
+  }
+  if (!heartbeat || typeof heartbeat !== "object") throw new HeartbeatError("Heartbeat is not an object");
+  if (heartbeat.node_id !== nodeId) throw new HeartbeatError("Heartbeat was signed for another node");
+  if (typeof heartbeat.timestamp !== "number" || !Number.isFinite(heartbeat.timestamp)) {
+    throw new HeartbeatError("Heartbeat has no timestamp");
+  }
+  if (Math.abs(now - heartbeat.timestamp) > HEARTBEAT_MAX_SKEW_MS) {
+    throw new HeartbeatError("Heartbeat timestamp is too far from the mesh clock");
+  }
+  if (heartbeat.timestamp <= lastTimestamp) throw new HeartbeatError("Heartbeat is not newer than the last one");
+  if (!heartbeat.health || typeof heartbeat.health !== "object") throw new HeartbeatError("Heartbeat has no health report");
+  return heartbeat;
+}
@@ -0,0 +1,459 @@
+/**
+ * OAuth 2.0 connectors for the built-in MCP servers: per-provider
+ * configuration, authorization URLs with PKCE, and the code exchange,
+ * refresh and revocation requests. Tokens end up as the same vault fields a
+ * pasted token would fill, so the server functions don't change. Used by the
+ * mcp-vault function; HTTP and SHA-256 are passed in.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node (type stripping) and Deno.
+ */
+
+// ─── Types ───
+
+export type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+export type Sha256Fn = (data: Uint8Array) => Promise<Uint8Array>;
+
+/** How a provider revokes a token: RFC 7009, a bearer-authenticated POST, or GitHub's grant deletion */
+export type RevocationStyle = "rfc7009" | "bearer" | "github-grant";
+
+export interface OAuthProvider {
+  /** The built-in MCP server the tokens are for */
+  serverId: string;
+  name: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  scopeSeparator?: " " | ",";
+  /** Send an S256 code challenge and verifier */
+  pkce: boolean;
+  /** Client credentials in the request body, or as HTTP Basic auth */
+  clientAuth: "body" | "basic";
+  /** Token endpoint body encoding; form unless the provider only takes JSON */
+  tokenFormat?: "form" | "json";
+  authorizeParams?: Record<string, string>;
+  /** Vault field the access token is stored in */
+  tokenField: string;
+  /** Other token response properties kept as vault fields, by response property */
+  responseFields?: Record<string, string>;
+  /** Dotted path in the token response naming the connected account */
+  labelPath?: string;
+  /** Fetched with the new access token when the token response doesn't say enough */
+  lookup?: { url: string; fields: Record<string, string>; labelPath?: string };
+  revocation?: { url: string; style: RevocationStyle };
+  /** Callback path the provider's app is registered with */
+  redirectPath: string;
+  /** Function secrets holding the client credentials */
+  clientIdEnv: string;
+  clientSecretEnv: string;
+}
+
+export interface OAuthClient {
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface OAuthTokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  /** Epoch milliseconds, or null when the token doesn't expire */
+  expiresAt: number | null;
+  scopes: string[];
+  /** Vault fields to store, the access token included */
+  fields: Record<string, string>;
+  label?: string;
+}
+
+export class OAuthError extends Error {
+  /** The provider's error code, e.g. invalid_grant, or http_<status> */
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "OAuthError";
+    this.code = code;
+  }
+}
+
+/** Abandoned authorizations are forgotten after this long */
+export const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+/** Tokens this close to expiry are refreshed before use */
+export const REFRESH_SKEW_MS = 60 * 1000;
+export const DEFAULT_REDIRECT_PATH = "/auth/mcp/callback";
+
+// ─── Providers ───
+
+export const OAUTH_PROVIDERS: OAuthProvider[] = [
+  {
+    serverId: "mcp-github",
+    name: "GitHub",
+    authorizeUrl: "https://github.com/login/oauth/authorize",
+    tokenUrl: "https://github.com/login/oauth/access_token",
+    scopes: ["repo", "read:user", "read:org"],
+    pkce: true,
+    clientAuth: "body",
+    tokenField: "github_token",
+    revocation: { url: "https://api.github.com/applications/{client_id}/grant", style: "github-grant" },
+    redirectPath: "/auth/github/callback",
+    clientIdEnv: "GITHUB_CLIENT_ID",
+    clientSecretEnv: "GITHUB_CLIENT_SECRET",
+  },
+  {
+    serverId: "mcp-slack",
+    name: "Slack",
+    authorizeUrl: "https://slack.com/oauth/v2/authorize",
+    tokenUrl: "https://slack.com/api/oauth.v2.access",
+    scopes: ["channels:read", "channels:history", "chat:write", "users:read"],
+    scopeSeparator: ",",
+    pkce: false,
+    clientAuth: "body",
+    tokenField: "slack_token",
+    labelPath: "team.name",
+    revocation: { url: "https://slack.com/api/auth.revoke", style: "bearer" },
+    redirectPath: DEFAULT_REDIRECT_PATH,
+    clientIdEnv: "SLACK_OAUTH_CLIENT_ID",
+    clientSecretEnv: "SLACK_OAUTH_CLIENT_SECRET",
+  },
+  {
+    serverId: "mcp-notion",
+    name: "Notion",
+    authorizeUrl: "https://api.notion.com/v1/oauth/authorize",
+    tokenUrl: "https://api.notion.com/v1/oauth/token",
+    scopes: [],
+    pkce: false,
+    clientAuth: "basic",
+    tokenFormat: "json",
+    authorizeParams: { owner: "user" },
+    tokenField: "notion_token",
+    labelPath: "workspace_name",
+    redirectPath: DEFAULT_REDIRECT_PATH,
+    clientIdEnv: "NOTION_OAUTH_CLIENT_ID",
+    clientSecretEnv: "NOTION_OAUTH_CLIENT_SECRET",
+  },
+  {
+    serverId: "mcp-jira",
+    name: "Jira",
+    authorizeUrl: "https://auth.atlassian.com/authorize",
+    tokenUrl: "https://auth.atlassian.com/oauth/token",
+    scopes: ["read:jira-work", "write:jira-work", "read:jira-user", "offline_access"],
+    pkce: false,
+    clientAuth: "body",
+    tokenFormat: "json",
+    authorizeParams: { audience: "api.atlassian.com", prompt: "consent" },
+    tokenField: "jira_access_token",
+    lookup: {
+      url: "https://api.atlassian.com/oauth/token/accessible-resources",
+      fields: { "0.id": "jira_cloud_id" },
+      labelPath: "0.name",
+    },
+    redirectPath: DEFAULT_REDIRECT_PATH,
+    clientIdEnv: "ATLASSIAN_OAUTH_CLIENT_ID",
+    clientSecretEnv: "ATLASSIAN_OAUTH_CLIENT_SECRET",
+  },
+  {
+    serverId: "mcp-hubspot",
+    name: "HubSpot",
+    authorizeUrl: "https://app.hubspot.com/oauth/authorize",
+    tokenUrl: "https://api.hubapi.com/oauth/v1/token",
+    scopes: ["crm.objects.contacts.read", "crm.objects.contacts.write", "crm.objects.deals.read"],
+    pkce: false,
+    clientAuth: "body",
+    tokenField: "hubspot_token",
+    redirectPath: DEFAULT_REDIRECT_PATH,
+    clientIdEnv: "HUBSPOT_OAUTH_CLIENT_ID",
+    clientSecretEnv: "HUBSPOT_OAUTH_CLIENT_SECRET",
+  },
+  {
+    serverId: "mcp-salesforce",
+    name: "Salesforce",
+    authorizeUrl: "https://login.salesforce.com/services/oauth2/authorize",
+    tokenUrl: "https://login.salesforce.com/services/oauth2/token",
+    scopes: ["api", "refresh_token"],
+    pkce: true,
+    clientAuth: "body",
+    tokenField: "sf_access_token",
+    responseFields: { instance_url: "sf_instance_url" },
+    revocation: { url: "https://login.salesforce.com/services/oauth2/revoke", style: "rfc7009" },
+    redirectPath: DEFAULT_REDIRECT_PATH,
+    clientIdEnv: "SALESFORCE_OAUTH_CLIENT_ID",
+    clientSecretEnv: "SALESFORCE_OAUTH_CLIENT_SECRET",
+  },
+  {
+    serverId: "mcp-google-sheets",
+    name: "Google",
+    authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+    scopes: ["https://www.googleapis.com/auth/spreadsheets"],
+    pkce: true,
+    clientAuth: "body",
+    authorizeParams: { access_type: "offline", prompt: "consent" },
+    tokenField: "google_api_key",
+    revocation: { url: "https://oauth2.googleapis.com/revoke", style: "rfc7009" },
+    redirectPath: DEFAULT_REDIRECT_PATH,
+    clientIdEnv: "GOOGLE_OAUTH_CLIENT_ID",
+    clientSecretEnv: "GOOGLE_OAUTH_CLIENT_SECRET",
+  },
+  {
+    serverId: "mcp-asana",
+    name: "Asana",
+    authorizeUrl: "https://app.asana.com/-/oauth_authorize",
+    tokenUrl: "https://app.asana.com/-/oauth_token",
+    scopes: ["default"],
+    pkce: true,
+    clientAuth: "body",
+    tokenField: "asana_token",
+    labelPath: "data.name",
+    revocation: { url: "https://app.asana.com/-/oauth_revoke", style: "rfc7009" },
+    redirectPath: DEFAULT_REDIRECT_PATH,
+    clientIdEnv: "ASANA_OAUTH_CLIENT_ID",
+    clientSecretEnv: "ASANA_OAUTH_CLIENT_SECRET",
+  },
+  {
+    serverId: "mcp-linkedin",
+    name: "LinkedIn",
+    authorizeUrl: "https://www.linkedin.com/oauth/v2/authorization",
+    tokenUrl: "https://www.linkedin.com/oauth/v2/accessToken",
+    scopes: ["openid", "profile", "w_member_social"],
+    pkce: false,
+    clientAuth: "body",
+    tokenField: "linkedin_token",
+    revocation: { url: "https://www.linkedin.com/oauth/v2/revoke", style: "rfc7009" },
+    redirectPath: DEFAULT_REDIRECT_PATH,
+    clientIdEnv: "LINKEDIN_OAUTH_CLIENT_ID",
+    clientSecretEnv: "LINKEDIN_OAUTH_CLIENT_SECRET",
+  },
+  {
+    serverId: "mcp-airtable",
+    name: "Airtable",
+    authorizeUrl: "https://airtable.com/oauth2/v1/authorize",
+    tokenUrl: "https://airtable.com/oauth2/v1/token",
+    scopes: ["data.records:read", "data.records:write", "schema.bases:read"],
+    pkce: true,
+    clientAuth: "basic",
+    tokenField: "airtable_token",
+    redirectPath: DEFAULT_REDIRECT_PATH,
+    clientIdEnv: "AIRTABLE_OAUTH_CLIENT_ID",
+    clientSecretEnv: "AIRTABLE_OAUTH_CLIENT_SECRET",
+  },
+  {
+    serverId: "mcp-monday",
+    name: "monday.com",
+    authorizeUrl: "https://auth.monday.com/oauth2/authorize",
+    tokenUrl: "https://auth.monday.com/oauth2/token",
+    scopes: ["boards:read", "boards:write", "me:read"],
+    pkce: false,
+    clientAuth: "body",
+    tokenField: "monday_token",
+    redirectPath: DEFAULT_REDIRECT_PATH,
+    clientIdEnv: "MONDAY_OAUTH_CLIENT_ID",
+    clientSecretEnv: "MONDAY_OAUTH_CLIENT_SECRET",
+  },
+  {
+    serverId: "mcp-twitter",
+    name: "X",
+    authorizeUrl: "https://twitter.com/i/oauth2/authorize",
+    tokenUrl: "https://api.twitter.com/2/oauth2/token",
+    scopes: ["tweet.read", "tweet.write", "users.read", "offline.access"],
+    pkce: true,
+    clientAuth: "basic",
+    tokenField: "twitter_bearer_token",
+    revocation: { url: "https://api.twitter.com/2/oauth2/revoke", style: "rfc7009" },
+    redirectPath: DEFAULT_REDIRECT_PATH,
+    clientIdEnv: "X_OAUTH_CLIENT_ID",
+    clientSecretEnv: "X_OAUTH_CLIENT_SECRET",
+  },
+];
+
+export function oauthProvider(serverId: string): OAuthProvider | null {
+  return OAUTH_PROVIDERS.find((p) => p.serverId === serverId) ?? null;
+}
+
+// ─── PKCE ───
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = i + 2 < bytes.length ? 4 : i + 1 < bytes.length ? 3 : 2;
+    for (let c = 0; c < chars; c++) out += alphabet[(n >> (18 - 6 * c)) & 63];
+  }
+  return out;
+}
+
+/** A code verifier from 32 random bytes and its S256 challenge (RFC 7636) */
+export async function createPkcePair(random: Uint8Array, sha256: Sha256Fn): Promise<{ verifier: string; challenge: string }> {
+  const verifier = base64UrlEncode(random);
+  return { verifier, challenge: base64UrlEncode(await sha256(new TextEncoder().encode(verifier))) };
+}
+
+// ─── Requests ───
+
+export function buildAuthorizeUrl(
+  provider: OAuthProvider,
+  params: { clientId: string; redirectUri: string; state: string; codeChallenge?: string },
+): string {
+  const url = new URL(provider.authorizeUrl);
+  url.searchParams.set("client_id", params.clientId);
+  url.searchParams.set("redirect_uri", params.redirectUri);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("state", params.state);
+  if (provider.scopes.length > 0) url.searchParams.set("scope", provider.scopes.join(provider.scopeSeparator ?? " "));
+  if (provider.pkce && params.codeChallenge) {
+    url.searchParams.set("code_challenge", params.codeChallenge);
+    url.searchParams.set("code_challenge_method", "S256");
+  }
+  for (const [key, value] of Object.entries(provider.authorizeParams ?? {})) url.searchParams.set(key, value);
+  return url.toString();
+}
+
+function basicAuth(client: OAuthClient): string {
+  return `Basic ${btoa(`${encodeURIComponent(client.clientId)}:${encodeURIComponent(client.clientSecret)}`)}`;
+}
+
+/** A token endpoint request with the provider's client authentication and body encoding */
+export function tokenRequest(provider: OAuthProvider, client: OAuthClient, params: Record<string, string>): RequestInit {
+  const body: Record<string, string> = { ...params };
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (provider.clientAuth === "basic") headers.Authorization = basicAuth(client);
+  else Object.assign(body, { client_id: client.clientId, client_secret: client.clientSecret });
+
+  if (provider.tokenFormat === "json") {
+    headers["Content-Type"] = "application/json";
+    return { method: "POST", headers, body: JSON.stringify(body) };
+  }
+  headers["Content-Type"] = "application/x-www-form-urlencoded";
+  return { method: "POST", headers, body: new URLSearchParams(body).toString() };
+}
+
+/** A value at a dotted path such as `team.name` or `0.id`, when it's a string or number */
+export function readPath(value: unknown, path: string): string | undefined {
+  let at: unknown = value;
+  for (const key of path.split(".")) {
+    if (at === null || typeof at !== "object") return undefined;
+    at = (at as Record<string, unknown>)[key];
+  }
+  return typeof at === "string" || typeof at === "number" ? String(at) : undefined;
+}
+
+/**
+ * The tokens in a token endpoint response. Providers report errors with an
+ * HTTP error status, an `error` property, or Slack's `ok: false`.
+ */
+export function parseTokenResponse(provider: OAuthProvider, status: number, body: unknown, now: number): OAuthTokenSet {
+  const data = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  if (status >= 400 || data.error || data.ok === false) {
+    const code = typeof data.error === "string" ? data.error : `http_${status}`;
+    const description = typeof data.error_description === "string" ? data.error_description : code;
+    throw new OAuthError(code, `${provider.name}: ${description}`);
+  }
+  const accessToken = data.access_token;
+  if (typeof accessToken !== "string" || !accessToken) {
+    throw new OAuthError("invalid_response", `${provider.name} returned no access token`);
+  }
+
+  const fields: Record<string, string> = { [provider.tokenField]: accessToken };
+  for (const [property, field] of Object.entries(provider.responseFields ?? {})) {
+    const value = readPath(data, property);
+    if (value) fields[field] = value;
+  }
+  const expiresIn = Number(data.expires_in);
+  const scope = typeof data.scope === "string" ? data.scope : "";
+  return {
+    accessToken,
+    refreshToken: typeof data.refresh_token === "string" && data.refresh_token ? data.refresh_token : undefined,
+    expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? now + expiresIn * 1000 : null,
+    scopes: scope ? scope.split(/[\s,]+/).filter(Boolean) : provider.scopes,
+    fields,
+    label: provider.labelPath ? readPath(data, provider.labelPath) : undefined,
+  };
+}
+
+async function readJson(resp: Response): Promise<unknown> {
+  const text = await resp.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    // A few providers answer errors as form-encoded text
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+}
+
+/** Fill in the fields a provider's lookup endpoint supplies, e.g. Jira's cloud id */
+async function applyLookup(provider: OAuthProvider, tokens: OAuthTokenSet, fetchFn: FetchFn): Promise<OAuthTokenSet> {
+  if (!provider.lookup) return tokens;
+  const resp = await fetchFn(provider.lookup.url, {
+    method: "GET",
+    headers: { Authorization: `Bearer ${tokens.accessToken}`, Accept: "application/json" },
+  });
+  const data = await readJson(resp);
+  if (!resp.ok) throw new OAuthError(`http_${resp.status}`, `${provider.name}: account lookup failed`);
+  const fields = { ...tokens.fields };
+  for (const [path, field] of Object.entries(provider.lookup.fields)) {
+    const value = readPath(data, path);
+    if (!value) throw new OAuthError("invalid_response", `${provider.name}: no accessible ${field}`);
+    fields[field] = value;
+  }
+  const label = provider.lookup.labelPath ? readPath(data, provider.lookup.labelPath) : undefined;
+  return { ...tokens, fields, label: tokens.label ?? label };
+}
+
+/** Exchange an authorization code for tokens */
+export async function exchangeCode(
+  provider: OAuthProvider,
+  client: OAuthClient,
+  params: { code: string; redirectUri: string; codeVerifier?: string },
+  fetchFn: FetchFn,
+  now: number,
+): Promise<OAuthTokenSet> {
+  const body: Record<string, string> = { grant_type: "authorization_code", code: params.code, redirect_uri: params.redirectUri };
+  if (provider.pkce && params.codeVerifier) body.code_verifier = params.codeVerifier;
+  const resp = await fetchFn(provider.tokenUrl, tokenRequest(provider, client, body));
+  return applyLookup(provider, parseTokenResponse(provider, resp.status, await readJson(resp), now), fetchFn);
+}
+
+/**
+ * Trade a refresh token for a new access token. Providers that don't rotate
+ * refresh tokens leave it out of the response, so the old one is kept.
+ */
+export async function refreshTokens(
+  provider: OAuthProvider,
+  client: OAuthClient,
+  refreshToken: string,
+  fetchFn: FetchFn,
+  now: number,
+): Promise<OAuthTokenSet> {
+  const resp = await fetchFn(provider.tokenUrl, tokenRequest(provider, client, { grant_type: "refresh_token", refresh_token: refreshToken }));
+  const tokens = parseTokenResponse(provider, resp.status, await readJson(resp), now);
+  return { ...tokens, refreshToken: tokens.refreshToken ?? refreshToken };
+}
+
+/** Revoke a token with the provider; false when it has no revocation endpoint */
+export async function revokeToken(provider: OAuthProvider, client: OAuthClient, token: string, fetchFn: FetchFn): Promise<boolean> {
+  const revocation = provider.revocation;
+  if (!revocation) return false;
+
+  let resp: Response;
+  if (revocation.style === "github-grant") {
+    resp = await fetchFn(revocation.url.replace("{client_id}", encodeURIComponent(client.clientId)), {
+      method: "DELETE",
+      headers: { Authorization: basicAuth(client), Accept: "application/vnd.github+json", "Content-Type": "application/json" },
+      body: JSON.stringify({ access_token: token }),
+    });
+  } else if (revocation.style === "bearer") {
+    resp = await fetchFn(revocation.url, { method: "POST", headers: { Authorization: `Bearer ${token}` } });
+  } else {
+    const init = tokenRequest({ ...provider, tokenFormat: "form" }, client, { token });
+    resp = await fetchFn(revocation.url, init);
+  }
+  if (!resp.ok) {
+    const data = (await readJson(resp)) as Record<string, unknown>;
+    throw new OAuthError(typeof data.error === "string" ? data.error : `http_${resp.status}`, `${provider.name}: revocation failed`);
+  }
+  return true;
+}
+
+/** Whether a token that expires at this time should be refreshed before use */
+export function needsRefresh(expiresAt: string | null, now: number, skewMs = REFRESH_SKEW_MS): boolean {
+  return expiresAt !== null && Date.parse(expiresAt) - skewMs <= now;
+}
@@ -0,0 +1,1226 @@
+/**
+ * Unified diff engine shared by the browser (src/lib/patch-utils.ts),
+ * the Vercel API (api/_lib/patch.ts) and the edge functions.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node and Deno.
+ */
+
+// ─── Types ───
+
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  content: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: DiffLine[];
+}
+
+export type PatchOperation = "modify" | "create" | "delete" | "rename" | "copy";
+
+export interface ParsedPatch {
+  oldFile: string;
+  newFile: string;
+  hunks: DiffHunk[];
+  /** Plain unified diffs infer create/delete from /dev/null; git headers say so explicitly. */
+  operation: PatchOperation;
+  oldMode?: string;
+  newMode?: string;
+  /** "similarity index" percentage on git renames and copies. */
+  similarity?: number;
+  /** "Binary files differ" or a "GIT binary patch" section: content can't be applied as text. */
+  binary?: boolean;
+  /** Raw "GIT binary patch" body (literal/delta blocks), kept for serializing. */
+  binaryPatch?: string;
+  /** Parsed from a `diff --git` header; serialized the same way. */
+  git?: boolean;
+}
+
+export type HunkStatus = "applied" | "applied_with_offset" | "rejected";
+
+export interface HunkResult {
+  index: number;          // position of the hunk within its ParsedPatch
+  status: HunkStatus;
+  offset: number;         // lines between the header position and where it actually applied
+  fuzz: number;           // context lines ignored on each side to make it match
+  appliedAt?: number;     // 1-based line in the original file
+  reason?: string;        // why a rejected hunk did not apply
+}
+
+export interface FilePatchResult {
+  path: string;
+  status: "applied" | "created" | "deleted" | "renamed" | "copied" | "failed";
+  hunks: HunkResult[];
+  /** Source path for renames and copies. */
+  from?: string;
+  /** File mode after the patch, when the patch sets one. */
+  mode?: string;
+  error?: string;
+}
+
+export interface PatchFile {
+  path: string;
+  content: string;
+  mode?: string;
+}
+
+export const DEV_NULL = "/dev/null";
+export const DEFAULT_FILE_MODE = "100644";
+
+// ─── Parsing ───
+
+/**
+ * A bare empty line is read as blank context, which also swallows the
+ * newline that ends the diff. Drop blank context lines the header doesn't
+ * account for so they don't have to match the file.
+ */
+function trimTrailingBlankContext(hunk: DiffHunk) {
+  let oldLines = hunk.lines.filter((l) => l.type !== "add").length;
+  while (oldLines > hunk.oldCount) {
+    const last = hunk.lines[hunk.lines.length - 1];
+    if (!last || last.type !== "context" || last.content !== "") break;
+    hunk.lines.pop();
+    oldLines--;
+  }
+}
+
+function isFileHeader(lines: string[], i: number): boolean {
+  return lines[i]?.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ");
+}
+
+function stripPrefix(path: string, prefix: "a/" | "b/"): string {
+  // Drop a trailing "\t<timestamp>" as written by diff -u
+  const unquoted = path.split("\t")[0].trim().replace(/^"(.*)"$/, "$1");
+  return unquoted.startsWith(prefix) ? unquoted.slice(prefix.length) : unquoted;
+}
+
+/**
+ * Read hunks starting at lines[i]. A hunk ends at the next header; a line
+ * starting with "---" only ends it once the header counts are used up or a
+ * "+++" line follows, so removed lines like "-- comment" survive.
+ */
+function parseHunks(lines: string[], i: number, hunks: DiffHunk[]): number {
+  while (i < lines.length && !lines[i].startsWith("diff --git ") && !isFileHeader(lines, i)) {
+    const match = lines[i].startsWith("@@")
+      ? lines[i].match(/@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/)
+      : null;
+    if (!match) {
+      if (hunks.length > 0 && !lines[i].startsWith("\\") && lines[i] !== "") break;
+      i++;
+      continue;
+    }
+
+    const hunk: DiffHunk = {
+      oldStart: parseInt(match[1], 10),
+      oldCount: parseInt(match[2] ?? "1", 10),
+      newStart: parseInt(match[3], 10),
+      newCount: parseInt(match[4] ?? "1", 10),
+      lines: [],
+    };
+    let oldSeen = 0;
+    let newSeen = 0;
+    i++;
+
+    while (i < lines.length && !lines[i].startsWith("@@") && !lines[i].startsWith("diff --git ")) {
+      const line = lines[i];
+      if (isFileHeader(lines, i)) break;
+      if (line.startsWith("---") && oldSeen >= hunk.oldCount && newSeen >= hunk.newCount) break;
+      if (line.startsWith("+")) {
+        hunk.lines.push({ type: "add", content: line.slice(1) });
+        newSeen++;
+      } else if (line.startsWith("-")) {
+        hunk.lines.push({ type: "remove", content: line.slice(1) });
+        oldSeen++;
+      } else if (line.startsWith(" ") || line === "") {
+        hunk.lines.push({ type: "context", content: line.startsWith(" ") ? line.slice(1) : line });
+        oldSeen++;
+        newSeen++;
+      } else if (!line.startsWith("\\")) {
+        // "\ No newline at end of file" is skipped; anything else ends the hunk
+        break;
+      }
+      i++;
+    }
+
+    trimTrailingBlankContext(hunk);
+    hunks.push(hunk);
+  }
+  return i;
+}
+
+function inferOperation(oldFile: string, newFile: string): PatchOperation {
+  if (oldFile === DEV_NULL) return "create";
+  if (newFile === DEV_NULL) return "delete";
+  return "modify";
+}
+
+/**
+ * Parse one `diff --git` entry: extended headers, then optional file
+ * headers and hunks or a binary section.
+ */
+function parseGitEntry(lines: string[], i: number): { patch: ParsedPatch; next: number } {
+  const header = lines[i].match(/^diff --git ("?a\/.+?"?) ("?b\/.+"?)$/);
+  const patch: ParsedPatch = {
+    oldFile: header ? stripPrefix(header[1], "a/") : "",
+    newFile: header ? stripPrefix(header[2], "b/") : "",
+    hunks: [],
+    operation: "modify",
+    git: true,
+  };
+  i++;
+
+  while (i < lines.length && !lines[i].startsWith("diff --git ")) {
+    const line = lines[i];
+    let m: RegExpMatchArray | null;
+
+    if ((m = line.match(/^old mode (\d+)/))) patch.oldMode = m[1];
+    else if ((m = line.match(/^new mode (\d+)/))) patch.newMode = m[1];
+    else if ((m = line.match(/^deleted file mode (\d+)/))) { patch.operation = "delete"; patch.oldMode = m[1]; }
+    else if ((m = line.match(/^new file mode (\d+)/))) { patch.operation = "create"; patch.newMode = m[1]; }
+    else if ((m = line.match(/^similarity index (\d+)%/))) patch.similarity = parseInt(m[1], 10);
+    else if ((m = line.match(/^rename from (.+)$/))) { patch.operation = "rename"; patch.oldFile = stripPrefix(m[1], "a/"); }
+    else if ((m = line.match(/^rename to (.+)$/))) patch.newFile = stripPrefix(m[1], "b/");
+    else if ((m = line.match(/^copy from (.+)$/))) { patch.operation = "copy"; patch.oldFile = stripPrefix(m[1], "a/"); }
+    else if ((m = line.match(/^copy to (.+)$/))) patch.newFile = stripPrefix(m[1], "b/");
+    else if (line.startsWith("Binary files ")) patch.binary = true;
+    else if (line === "GIT binary patch") {
+      patch.binary = true;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith("diff --git ") && !isFileHeader(lines, i)) {
+        body.push(lines[i]);
+        i++;
+      }
+      while (body.length > 0 && body[body.length - 1] === "") body.pop();
+      patch.binaryPatch = body.join("\n");
+      continue;
+    } else if (isFileHeader(lines, i)) {
+      // Header paths are only authoritative for plain adds/deletes; renames keep their git names
+      const oldFile = stripPrefix(line.slice(4), "a/");
+      const newFile = stripPrefix(lines[i + 1].slice(4), "b/");
+      if (oldFile === DEV_NULL) patch.operation = "create";
+      if (newFile === DEV_NULL) patch.operation = "delete";
+      i = parseHunks(lines, i + 2, patch.hunks);
+      break;
+    } else if (line.startsWith("@@") || (line !== "" && !/^(index |dissimilarity index )/.test(line))) {
+      break;
+    }
+    i++;
+  }
+
+  if (patch.operation === "create") patch.oldFile = DEV_NULL;
+  if (patch.operation === "delete") patch.newFile = DEV_NULL;
+  return { patch, next: i };
+}
+
+/**
+ * Parse a unified diff string into structured patches. Understands plain
+ * `---`/`+++` diffs and git extended headers (renames, copies, deletes,
+ * mode changes and binary sections).
+ */
+export function parseUnifiedDiff(raw: string): ParsedPatch[] {
+  const patches: ParsedPatch[] = [];
+  const lines = raw.split("\n");
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].startsWith("diff --git ")) {
+      const { patch, next } = parseGitEntry(lines, i);
+      patches.push(patch);
+      i = next;
+      continue;
+    }
+
+    if (!isFileHeader(lines, i)) {
+      i++;
+      continue;
+    }
+
+    const oldFile = stripPrefix(lines[i].slice(4), "a/");
+    const newFile = stripPrefix(lines[i + 1].slice(4), "b/");
+    const hunks: DiffHunk[] = [];
+    i = parseHunks(lines, i + 2, hunks);
+
+    if (hunks.length > 0) {
+      patches.push({ oldFile, newFile, hunks, operation: inferOperation(oldFile, newFile) });
+    }
+  }
+
+  return patches;
+}
+
+// ─── Serializing ───
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+function formatPath(path: string, prefix: "a/" | "b/"): string {
+  return path === DEV_NULL ? DEV_NULL : `${prefix}${path.replace(/^\/+/, "")}`;
+}
+
+function needsGitHeader(patch: ParsedPatch): boolean {
+  return !!patch.git || patch.operation === "rename" || patch.operation === "copy" ||
+    !!patch.binary || (!!patch.oldMode && patch.oldMode !== patch.newMode);
+}
+
+function serializeGitHeader(patch: ParsedPatch, out: string[]) {
+  const oldPath = patch.oldFile === DEV_NULL ? patch.newFile : patch.oldFile;
+  const newPath = patch.newFile === DEV_NULL ? patch.oldFile : patch.newFile;
+  out.push(`diff --git ${formatPath(oldPath, "a/")} ${formatPath(newPath, "b/")}`);
+
+  if (patch.operation === "create") {
+    out.push(`new file mode ${patch.newMode || DEFAULT_FILE_MODE}`);
+  } else if (patch.operation === "delete") {
+    out.push(`deleted file mode ${patch.oldMode || DEFAULT_FILE_MODE}`);
+  } else if (patch.oldMode && patch.newMode && patch.oldMode !== patch.newMode) {
+    out.push(`old mode ${patch.oldMode}`);
+    out.push(`new mode ${patch.newMode}`);
+  }
+
+  if (patch.operation === "rename" || patch.operation === "copy") {
+    if (patch.similarity !== undefined) out.push(`similarity index ${patch.similarity}%`);
+    out.push(`${patch.operation} from ${patch.oldFile.replace(/^\/+/, "")}`);
+    out.push(`${patch.operation} to ${patch.newFile.replace(/^\/+/, "")}`);
+  }
+
+  if (patch.binaryPatch !== undefined) {
+    out.push("GIT binary patch");
+    out.push(patch.binaryPatch, "");
+  } else if (patch.binary) {
+    out.push(`Binary files ${formatPath(patch.oldFile, "a/")} and ${formatPath(patch.newFile, "b/")} differ`);
+  }
+}
+
+/**
+ * Render patches back to unified diff text, using git extended headers
+ * where a plain diff can't express the operation.
+ * parseUnifiedDiff(serializePatch(p)) yields the same structure.
+ */
+export function serializePatch(patches: ParsedPatch | ParsedPatch[]): string {
+  const out: string[] = [];
+  for (const patch of Array.isArray(patches) ? patches : [patches]) {
+    if (needsGitHeader(patch)) serializeGitHeader(patch, out);
+    if (patch.hunks.length === 0) continue;
+    out.push(`--- ${formatPath(patch.oldFile, "a/")}`);
+    out.push(`+++ ${formatPath(patch.newFile, "b/")}`);
+    for (const hunk of patch.hunks) {
+      out.push(`@@ -${formatRange(hunk.oldStart, hunk.oldCount)} +${formatRange(hunk.newStart, hunk.newCount)} @@`);
+      for (const line of hunk.lines) {
+        const prefix = line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+        out.push(prefix + line.content);
+      }
+    }
+  }
+  return out.join("\n") + "\n";
+}
+
+// ─── Inverting ───
+
+const INVERSE_OPERATION: Record<PatchOperation, PatchOperation> = {
+  modify: "modify",
+  create: "delete",
+  delete: "create",
+  rename: "rename",
+  copy: "delete",
+};
+
+/**
+ * A GIT binary patch holds the forward block followed by the reverse one;
+ * swapping them gives the inverse. Returns undefined for any other shape.
+ */
+function invertBinaryPatch(body: string): string | undefined {
+  const blocks: string[][] = [];
+  for (const line of body.split("\n")) {
+    if (/^(literal|delta) \d+/.test(line)) blocks.push([]);
+    blocks[blocks.length - 1]?.push(line);
+  }
+  if (blocks.length !== 2) return undefined;
+  const trim = (b: string[]) => b.join("\n").replace(/\n+$/, "");
+  return `${trim(blocks[1])}\n\n${trim(blocks[0])}`;
+}
+
+/**
+ * Build the patch that undoes `patch`: sides swap and additions become
+ * removals. Creates become deletes; undoing a copy deletes the copy.
+ */
+export function invertPatch(patch: ParsedPatch): ParsedPatch {
+  if (patch.operation === "copy") {
+    return {
+      oldFile: patch.newFile,
+      newFile: DEV_NULL,
+      hunks: [],
+      operation: "delete",
+      ...(patch.newMode ? { oldMode: patch.newMode } : {}),
+      ...(patch.git ? { git: true } : {}),
+    };
+  }
+
+  const inverse: ParsedPatch = {
+    oldFile: patch.newFile,
+    newFile: patch.oldFile,
+    hunks: patch.hunks.map((hunk) => ({
+      oldStart: hunk.newStart,
+      oldCount: hunk.newCount,
+      newStart: hunk.oldStart,
+      newCount: hunk.oldCount,
+      lines: hunk.lines.map((line) => ({
+        type: line.type === "add" ? "remove" : line.type === "remove" ? "add" : "context",
+        content: line.content,
+      })),
+    })),
+    operation: INVERSE_OPERATION[patch.operation],
+  };
+  if (patch.newMode) inverse.oldMode = patch.newMode;
+  if (patch.oldMode) inverse.newMode = patch.oldMode;
+  if (patch.similarity !== undefined) inverse.similarity = patch.similarity;
+  if (patch.git) inverse.git = true;
+  if (patch.binary) {
+    inverse.binary = true;
+    const body = patch.binaryPatch !== undefined ? invertBinaryPatch(patch.binaryPatch) : undefined;
+    if (body !== undefined) inverse.binaryPatch = body;
+  }
+  return inverse;
+}
+
+/**
+ * Invert a multi-file patch. Files are listed in reverse order so edits
+ * that build on each other are undone last-first.
+ */
+export function invertPatches(patches: ParsedPatch[]): ParsedPatch[] {
+  return patches.slice().reverse().map(invertPatch);
+}
+
+// ─── Hunk Application ───
+
+export interface ApplyPatchOptions {
+  /** Leading/trailing context lines that may be ignored to make a hunk match (like GNU patch --fuzz). */
+  fuzz?: number;
+  /** How far (in lines) to search from the position in the hunk header. */
+  maxOffset?: number;
+  /** Compare lines with surrounding whitespace trimmed. */
+  ignoreWhitespace?: boolean;
+}
+
+export interface ApplyHunksResult {
+  /** Content with every non-rejected hunk applied. */
+  content: string;
+  hunks: HunkResult[];
+  /** True when no hunk was rejected. */
+  ok: boolean;
+}
+
+const DEFAULT_APPLY_OPTIONS: Required<ApplyPatchOptions> = {
+  fuzz: 2,
+  maxOffset: Infinity,
+  ignoreWhitespace: false,
+};
+
+interface HunkBlock {
+  oldLines: string[];
+  newLines: string[];
+  leadTrim: number;
+}
+
+/**
+ * Split a hunk into the lines it expects to find and the lines it writes,
+ * dropping up to `fuzz` context lines from each end.
+ */
+function hunkBlock(hunk: DiffHunk, fuzz: number): HunkBlock {
+  let lead = 0;
+  while (lead < hunk.lines.length && hunk.lines[lead].type === "context") lead++;
+  let trail = 0;
+  while (trail < hunk.lines.length - lead && hunk.lines[hunk.lines.length - 1 - trail].type === "context") trail++;
+
+  const leadTrim = Math.min(fuzz, lead);
+  const trailTrim = Math.min(fuzz, trail);
+  const body = hunk.lines.slice(leadTrim, hunk.lines.length - trailTrim);
+
+  return {
+    oldLines: body.filter((l) => l.type !== "add").map((l) => l.content),
+    newLines: body.filter((l) => l.type !== "remove").map((l) => l.content),
+    leadTrim,
+  };
+}
+
+function matchesAt(lines: string[], expected: string[], pos: number, ignoreWhitespace: boolean): boolean {
+  if (pos < 0 || pos + expected.length > lines.length) return false;
+  for (let k = 0; k < expected.length; k++) {
+    const a = lines[pos + k];
+    const b = expected[k];
+    if (ignoreWhitespace ? a.trim() !== b.trim() : a !== b) return false;
+  }
+  return true;
+}
+
+/**
+ * Find where a block matches, starting at `expected` and searching outwards
+ * (forward first, then backward) without crossing `floor`.
+ */
+function searchBlock(lines: string[], block: string[], expected: number, floor: number, opts: Required<ApplyPatchOptions>): number | null {
+  const last = lines.length - block.length;
+  const maxOffset = Math.min(opts.maxOffset, Math.max(expected - floor, last - expected, 0));
+  for (let offset = 0; offset <= maxOffset; offset++) {
+    for (const pos of offset === 0 ? [expected] : [expected + offset, expected - offset]) {
+      if (pos < floor || pos > last) continue;
+      if (matchesAt(lines, block, pos, opts.ignoreWhitespace)) return pos;
+    }
+  }
+  return null;
+}
+
+function describeMismatch(lines: string[], hunk: DiffHunk, expected: number): string {
+  const { oldLines } = hunkBlock(hunk, 0);
+  for (let k = 0; k < oldLines.length; k++) {
+    const actual = lines[expected + k];
+    if (actual === undefined) {
+      return `Hunk at line ${hunk.oldStart} runs past end of file`;
+    }
+    if (actual !== oldLines[k]) {
+      return `No match for context near line ${hunk.oldStart}: line ${expected + k + 1} is ${JSON.stringify(actual)}, expected ${JSON.stringify(oldLines[k])}`;
+    }
+  }
+  return `No match for context near line ${hunk.oldStart} (overlaps a previous hunk)`;
+}
+
+/**
+ * Apply hunks the way GNU patch does: each hunk's context and removed lines
+ * must match the file, the nearest matching offset wins, and context may be
+ * fuzzed away when no exact match exists. Rejected hunks are skipped and
+ * reported; the remaining hunks still apply.
+ */
+export function applyHunks(content: string, hunks: DiffHunk[], options: ApplyPatchOptions = {}): ApplyHunksResult {
+  const opts = { ...DEFAULT_APPLY_OPTIONS, ...options };
+  const lines = content.split("\n");
+  const results: HunkResult[] = [];
+  const ordered = hunks.map((hunk, index) => ({ hunk, index })).sort((a, b) => a.hunk.oldStart - b.hunk.oldStart);
+
+  let delta = 0;  // net lines added by hunks applied so far
+  let floor = 0;  // later hunks may not touch lines before this index
+
+  for (const { hunk, index } of ordered) {
+    // A zero-length old range means "insert after line oldStart".
+    const expected = (hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta;
+    let placed: { pos: number; fuzz: number; block: HunkBlock } | null = null;
+
+    let prevSize = -1;
+    for (let fuzz = 0; fuzz <= opts.fuzz && !placed; fuzz++) {
+      const block = hunkBlock(hunk, fuzz);
+      if (block.oldLines.length === 0) {
+        // Pure insertion with no context to verify; never fuzz context away entirely.
+        if (fuzz === 0) placed = { pos: Math.min(Math.max(expected, floor), lines.length), fuzz, block };
+        break;
+      }
+      if (block.oldLines.length === prevSize) break;  // no context left to drop
+      prevSize = block.oldLines.length;
+      const pos = searchBlock(lines, block.oldLines, expected + block.leadTrim, floor, opts);
+      if (pos !== null) placed = { pos, fuzz, block };
+    }
+
+    if (!placed) {
+      results.push({ index, status: "rejected", offset: 0, fuzz: 0, reason: describeMismatch(lines, hunk, expected) });
+      continue;
+    }
+
+    const { pos, fuzz, block } = placed;
+    const offset = pos - block.leadTrim - expected;
+    lines.splice(pos, block.oldLines.length, ...block.newLines);
+    results.push({
+      index,
+      status: offset === 0 && fuzz === 0 ? "applied" : "applied_with_offset",
+      offset,
+      fuzz,
+      appliedAt: pos - block.leadTrim - delta + 1,
+    });
+    delta += block.newLines.length - block.oldLines.length;
+    floor = pos + block.newLines.length;
+  }
+
+  results.sort((a, b) => a.index - b.index);
+  return { content: lines.join("\n"), hunks: results, ok: results.every((r) => r.status !== "rejected") };
+}
+
+/**
+ * Apply a parsed patch to file content.
+ * Returns the new content or null if any hunk was rejected.
+ */
+export function applyPatchToContent(content: string, patch: ParsedPatch, options?: ApplyPatchOptions): string | null {
+  const result = applyHunks(content, patch.hunks, options);
+  return result.ok ? result.content : null;
+}
+
+/**
+ * Content of a file created by a `--- /dev/null` patch.
+ */
+export function buildContentFromNewFilePatch(patch: ParsedPatch): string {
+  return patch.hunks
+    .flatMap((h) => h.lines.filter((l) => l.type !== "remove").map((l) => l.content))
+    .join("\n");
+}
+
+// ─── Line Diff ───
+
+/** Past this many edits the diff gives up on finding matches in the middle. */
+const MAX_DIFF_EDITS = 2000;
+
+/**
+ * Longest common subsequence of two line arrays (Myers' O(ND) algorithm),
+ * as ascending [aIndex, bIndex] pairs of matching lines.
+ */
+function matchLines(a: string[], b: string[]): Array<[number, number]> {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < start; i++) pairs.push([i, i]);
+
+  const n = endA - start;
+  const m = endB - start;
+  const max = Math.min(n + m, MAX_DIFF_EDITS);
+  const v = new Int32Array(2 * max + 3);
+  const off = max + 1;
+  const trace: Int32Array[] = [];
+  let done = n === 0 && m === 0;
+
+  for (let d = 0; d <= max && !done; d++) {
+    trace.push(v.slice(off - d, off + d + 1));  // V as it stood before this round, indexed by k + d
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[off + k - 1] < v[off + k + 1]) ? v[off + k + 1] : v[off + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[start + x] === b[start + y]) { x++; y++; }
+      v[off + k] = x;
+      if (x >= n && y >= m) { done = true; break; }
+    }
+  }
+
+  const middle: Array<[number, number]> = [];
+  if (done) {
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+      const prev = trace[d];
+      const k = x - y;
+      let prevX = 0;
+      let prevY = 0;
+      if (d > 0) {
+        const prevK = k === -d || (k !== d && prev[k - 1 + d] < prev[k + 1 + d]) ? k + 1 : k - 1;
+        prevX = prev[prevK + d];
+        prevY = prevX - prevK;
+      }
+      while (x > prevX && y > prevY) middle.push([start + --x, start + --y]);
+      x = prevX;
+      y = prevY;
+    }
+  }
+  // Too different to diff cheaply: treat the middle as replaced wholesale
+  pairs.push(...middle.reverse());
+
+  for (let i = 0; i < a.length - endA; i++) pairs.push([endA + i, endB + i]);
+  return pairs;
+}
+
+/** Split content into lines, ignoring the empty "line" after a final newline. */
+function contentLines(content: string): string[] {
+  const lines = content.split("\n");
+  if (lines.length > 1 && lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Unified diff hunks turning `oldContent` into `newContent`, with
+ * `context` unchanged lines around each change.
+ */
+export function diffHunks(oldContent: string, newContent: string, context = 3): DiffHunk[] {
+  // Only drop the final newline when both sides have one; otherwise it is a real change
+  const trailing = oldContent.endsWith("\n") && newContent.endsWith("\n");
+  const a = trailing ? contentLines(oldContent) : oldContent.split("\n");
+  const b = trailing ? contentLines(newContent) : newContent.split("\n");
+
+  const ops: Array<DiffLine & { oldIdx: number; newIdx: number }> = [];
+  let i = 0;
+  let j = 0;
+  for (const [ai, bi] of [...matchLines(a, b), [a.length, b.length] as [number, number]]) {
+    while (i < ai) ops.push({ type: "remove", content: a[i], oldIdx: i++, newIdx: j });
+    while (j < bi) ops.push({ type: "add", content: b[j], oldIdx: i, newIdx: j++ });
+    if (ai < a.length) ops.push({ type: "context", content: a[i], oldIdx: i++, newIdx: j++ });
+  }
+
+  const hunks: DiffHunk[] = [];
+  let idx = 0;
+  while (idx < ops.length) {
+    if (ops[idx].type === "context") { idx++; continue; }
+    const first = Math.max(0, idx - context);
+    // Extend while the next change is close enough to share context
+    let last = idx;
+    for (let next = idx + 1; next < ops.length && next - last <= 2 * context + 1; next++) {
+      if (ops[next].type !== "context") last = next;
+    }
+    const end = Math.min(ops.length, last + 1 + context);
+    const lines = ops.slice(first, end).map(({ type, content }) => ({ type, content }));
+    const oldCount = lines.filter((l) => l.type !== "add").length;
+    const newCount = lines.filter((l) => l.type !== "remove").length;
+    hunks.push({
+      // A zero-length range names the line it follows
+      oldStart: oldCount === 0 ? ops[first].oldIdx : ops[first].oldIdx + 1,
+      oldCount,
+      newStart: newCount === 0 ? ops[first].newIdx : ops[first].newIdx + 1,
+      newCount,
+      lines,
+    });
+    idx = end;
+  }
+  return hunks;
+}
+
+// ─── Three-way Merge ───
+
+export interface MergeResult {
+  content: string;
+  /** Number of regions both sides changed differently, marked with <<<<<<< / >>>>>>> */
+  conflicts: number;
+  ok: boolean;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Line-based diff3 merge: keep changes either side made relative to `base`,
+ * and mark regions both changed differently as conflicts.
+ */
+export function merge3(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: { ours: string; theirs: string } = { ours: "ours", theirs: "theirs" },
+): MergeResult {
+  const b = base.split("\n");
+  const o = ours.split("\n");
+  const t = theirs.split("\n");
+  const toOurs = new Int32Array(b.length).fill(-1);
+  const toTheirs = new Int32Array(b.length).fill(-1);
+  for (const [bi, oi] of matchLines(b, o)) toOurs[bi] = oi;
+  for (const [bi, ti] of matchLines(b, t)) toTheirs[bi] = ti;
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  for (;;) {
+    // Next base line both sides kept; everything before it is one unstable region
+    let sync = i;
+    while (sync < b.length && (toOurs[sync] < 0 || toTheirs[sync] < 0)) sync++;
+    const oEnd = sync < b.length ? toOurs[sync] : o.length;
+    const tEnd = sync < b.length ? toTheirs[sync] : t.length;
+    const baseChunk = b.slice(i, sync);
+    const oursChunk = o.slice(j, oEnd);
+    const theirsChunk = t.slice(k, tEnd);
+
+    if (sameLines(oursChunk, baseChunk)) out.push(...theirsChunk);
+    else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) out.push(...oursChunk);
+    else {
+      conflicts++;
+      out.push(`<<<<<<< ${labels.ours}`, ...oursChunk, "=======", ...theirsChunk, `>>>>>>> ${labels.theirs}`);
+    }
+
+    if (sync >= b.length) break;
+    out.push(b[sync]);
+    i = sync + 1;
+    j = oEnd + 1;
+    k = tEnd + 1;
+  }
+
+  return { content: out.join("\n"), conflicts, ok: conflicts === 0 };
+}
+
+// ─── File Sets ───
+
+/** Rooted form used by the IDE file tree: "src/a.ts" → "/src/a.ts". */
+export function rootPath(path: string): string {
+  return path.startsWith("/") ? path : `/${path}`;
+}
+
+export interface ApplyToFilesResult {
+  files: PatchFile[];
+  results: FilePatchResult[];
+  /** True when every file patch applied. */
+  ok: boolean;
+}
+
+const APPLIED_STATUS: Record<PatchOperation, FilePatchResult["status"]> = {
+  modify: "applied",
+  create: "created",
+  delete: "deleted",
+  rename: "renamed",
+  copy: "copied",
+};
+
+function applyFilePatch(byPath: Map<string, PatchFile>, patch: ParsedPatch, options?: ApplyPatchOptions): FilePatchResult {
+  const { operation } = patch;
+  const failed = (path: string, error?: string, hunks: HunkResult[] = []): FilePatchResult =>
+    ({ path, status: "failed", hunks, ...(error ? { error } : {}) });
+
+  // Plain diffs may name the file differently on each side; use whichever exists
+  let sourcePath = operation === "create" ? null : rootPath(patch.oldFile);
+  if (operation === "modify" && !byPath.has(sourcePath!) && byPath.has(rootPath(patch.newFile))) {
+    sourcePath = rootPath(patch.newFile);
+  }
+  const current = sourcePath ? byPath.get(sourcePath) : undefined;
+  if (sourcePath && !current) return failed(sourcePath, "File not found");
+
+  if (operation === "delete") {
+    byPath.delete(sourcePath!);
+    return { path: sourcePath!, status: "deleted", hunks: [] };
+  }
+
+  const targetPath = operation === "modify" ? sourcePath! : rootPath(patch.newFile);
+  if ((operation === "rename" || operation === "copy") && byPath.has(targetPath)) {
+    return failed(targetPath, "Target already exists");
+  }
+  if (patch.binary) return failed(targetPath, "Binary content changes can't be applied to text files");
+
+  let content: string;
+  let hunks: HunkResult[] = [];
+  if (operation === "create") {
+    content = buildContentFromNewFilePatch(patch);
+  } else {
+    const applied = applyHunks(current!.content, patch.hunks, options);
+    if (!applied.ok) return failed(targetPath, undefined, applied.hunks);
+    content = applied.content;
+    hunks = applied.hunks;
+  }
+
+  const mode = patch.newMode ?? current?.mode;
+  if (operation === "rename") byPath.delete(sourcePath!);
+  byPath.set(targetPath, {
+    path: byPath.get(targetPath)?.path ?? (operation === "modify" ? current!.path : targetPath),
+    content,
+    ...(mode ? { mode } : {}),
+  });
+
+  return {
+    path: targetPath,
+    status: APPLIED_STATUS[operation],
+    hunks,
+    ...(operation === "rename" || operation === "copy" ? { from: sourcePath! } : {}),
+    ...(patch.newMode ? { mode: patch.newMode } : {}),
+  };
+}
+
+/**
+ * Apply a multi-file patch to a flat file list, carrying out creates,
+ * deletes, renames, copies and mode changes. Paths are matched with or
+ * without a leading slash; new paths are rooted. A file is only changed
+ * when all of its hunks apply. Results are reported one per patch, in order.
+ */
+export function applyPatchesToFiles(files: PatchFile[], patches: ParsedPatch[], options?: ApplyPatchOptions): ApplyToFilesResult {
+  const byPath = new Map<string, PatchFile>();
+  for (const f of files) byPath.set(rootPath(f.path), { ...f });
+  const results = patches.map((patch) => applyFilePatch(byPath, patch, options));
+
+  return {
+    files: Array.from(byPath.values()),
+    results,
+    ok: results.every((r) => r.status !== "failed"),
+  };
+}
+
+/**
+ * One-line summary of rejected hunks across a patch, or undefined when all applied.
+ */
+export function describePatchFailures(results: FilePatchResult[]): string | undefined {
+  const failed = results.filter((r) => r.status === "failed");
+  if (failed.length === 0) return undefined;
+  const total = results.reduce((n, r) => n + r.hunks.length, 0);
+  const rejected = results.reduce((n, r) => n + r.hunks.filter((h) => h.status === "rejected").length, 0);
+  const paths = failed.map((r) => r.path).join(", ");
+  if (rejected === 0) return `${failed[0].error || "Patch failed"}: ${paths}`;
+  return `${rejected} of ${total} hunk${total !== 1 ? "s" : ""} rejected in ${paths}`;
+}
+
+// ─── Reverting ───
+
+/** A file's content either side of an applied patch; null where it didn't exist. */
+export interface AppliedFileState {
+  path: string;
+  /** Pre-apply path, for renames */
+  from?: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * Record what each successfully patched file looked like before and after,
+ * so a later revert can three-way merge around edits made since.
+ */
+export function recordAppliedFiles(files: PatchFile[], applied: ApplyToFilesResult): AppliedFileState[] {
+  const before = new Map(files.map((f) => [rootPath(f.path), f.content]));
+  const after = new Map(applied.files.map((f) => [rootPath(f.path), f.content]));
+  const states = new Map<string, AppliedFileState>();
+
+  for (const r of applied.results) {
+    if (r.status === "failed" || states.has(r.path)) continue;
+    const source = r.status === "renamed" ? r.from! : r.path;
+    states.set(r.path, {
+      path: r.path,
+      ...(r.status === "renamed" ? { from: r.from } : {}),
+      before: r.status === "copied" ? null : before.get(source) ?? null,
+      after: after.get(r.path) ?? null,
+    });
+  }
+  return Array.from(states.values());
+}
+
+export interface RevertPlan {
+  /** Inverse patches, with hunks rebuilt by three-way merge where the originals no longer apply */
+  patches: ParsedPatch[];
+  conflicts: string[];
+  ok: boolean;
+}
+
+/**
+ * Work out how to undo a patch on the current files. Inverse hunks are tried
+ * first; where later edits stop them applying, the file is three-way merged
+ * (base: post-apply content, ours: current, theirs: pre-apply content) so
+ * unrelated edits survive. Whole-file creates and deletes are only undone if
+ * the file hasn't changed since.
+ */
+export function planRevert(files: PatchFile[], inverse: ParsedPatch[], states: AppliedFileState[]): RevertPlan {
+  const current = new Map(files.map((f) => [rootPath(f.path), f]));
+  const stateAt = new Map(states.map((s) => [s.path, s]));
+  const dryRun = applyPatchesToFiles(files, inverse);
+  const patches: ParsedPatch[] = [];
+  const conflicts: string[] = [];
+
+  inverse.forEach((patch, idx) => {
+    // Inverse patches start from the post-apply path
+    const path = rootPath(patch.operation === "create" ? patch.newFile : patch.oldFile);
+    const state = stateAt.get(path);
+    const file = current.get(path);
+
+    if (patch.operation === "create" || patch.operation === "delete") {
+      if (state && (file?.content ?? null) !== state.after) {
+        conflicts.push(`${path}: changed since the patch was applied`);
+      } else {
+        patches.push(patch);
+      }
+      return;
+    }
+
+    const result = dryRun.results[idx];
+    if (result.status !== "failed") {
+      patches.push(patch);
+      return;
+    }
+    if (!state || !file || state.before === null || state.after === null) {
+      conflicts.push(`${path}: ${result.error || "hunks no longer apply"}`);
+      return;
+    }
+
+    const merged = merge3(state.after, file.content, state.before);
+    if (!merged.ok) {
+      conflicts.push(`${path}: ${merged.conflicts} conflicting region${merged.conflicts !== 1 ? "s" : ""}`);
+      return;
+    }
+    patches.push({ ...patch, hunks: diffHunks(file.content, merged.content) });
+  });
+
+  return { patches, conflicts, ok: conflicts.length === 0 };
+}
+
+// ─── Snapshot Merge ───
+
+export type MergeConflictKind = "content" | "add_add" | "modify_delete" | "delete_modify";
+
+/** A path both sides changed in ways that can't be combined automatically. */
+export interface MergeConflict {
+  path: string;
+  kind: MergeConflictKind;
+  /** Content at the merge base and on each side; null where the file doesn't exist */
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+  /** Suggested starting point for a resolution: the file with conflict markers, or the side that kept it */
+  content: string;
+  mode?: string;
+}
+
+export interface TreeMergeResult {
+  /** Merged files, excluding conflicted paths */
+  files: PatchFile[];
+  conflicts: MergeConflict[];
+  ok: boolean;
+}
+
+/**
+ * Nearest common ancestor of two snapshots, walking parent links (both
+ * parents of merge snapshots) breadth-first from each side in turn.
+ * Returns null when the histories are unrelated or the walk exceeds `maxVisits`.
+ */
+export async function findMergeBase(
+  ours: string,
+  theirs: string,
+  parentsOf: (id: string) => Promise<string[]>,
+  maxVisits = 10000,
+): Promise<string | null> {
+  if (ours === theirs) return ours;
+  const seen = [new Set([ours]), new Set([theirs])];
+  const frontiers = [[ours], [theirs]];
+  let visits = 0;
+
+  while (frontiers[0].length > 0 || frontiers[1].length > 0) {
+    for (const side of [0, 1]) {
+      const next: string[] = [];
+      for (const id of frontiers[side]) {
+        if (++visits > maxVisits) return null;
+        for (const parent of await parentsOf(id)) {
+          if (seen[side].has(parent)) continue;
+          if (seen[1 - side].has(parent)) return parent;
+          seen[side].add(parent);
+          next.push(parent);
+        }
+      }
+      frontiers[side] = next;
+    }
+  }
+  return null;
+}
+
+function sameFile(a: PatchFile | undefined, b: PatchFile | undefined): boolean {
+  if (!a || !b) return a === b;
+  return a.content === b.content && (a.mode ?? DEFAULT_FILE_MODE) === (b.mode ?? DEFAULT_FILE_MODE);
+}
+
+/** Take whichever side changed the mode; ours wins when both did. */
+function mergeMode(base?: string, ours?: string, theirs?: string): string | undefined {
+  return (ours ?? DEFAULT_FILE_MODE) === (base ?? DEFAULT_FILE_MODE) ? theirs : ours;
+}
+
+/**
+ * Three-way merge of whole file sets, path by path: a side's change wins
+ * where the other left the file alone, both sides' edits to the same file
+ * are merged line by line, and anything else is reported as a conflict.
+ */
+export function mergeFileSets(
+  base: PatchFile[],
+  ours: PatchFile[],
+  theirs: PatchFile[],
+  labels: { ours: string; theirs: string } = { ours: "ours", theirs: "theirs" },
+): TreeMergeResult {
+  const byPath = (files: PatchFile[]) => new Map(files.map((f) => [f.path, f]));
+  const b = byPath(base);
+  const o = byPath(ours);
+  const t = byPath(theirs);
+  const paths = [...new Set([...o.keys(), ...t.keys(), ...b.keys()])].sort();
+  const files: PatchFile[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  for (const path of paths) {
+    const bf = b.get(path);
+    const of = o.get(path);
+    const tf = t.get(path);
+
+    let merged: PatchFile | undefined;
+    if (sameFile(of, tf) || sameFile(bf, tf)) merged = of;
+    else if (sameFile(bf, of)) merged = tf;
+    else if (of && tf) {
+      const mode = mergeMode(bf?.mode, of.mode, tf.mode);
+      const result = of.content === tf.content
+        ? { content: of.content, ok: true }
+        : merge3(bf?.content ?? "", of.content, tf.content, labels);
+      // Without a base, only identical additions merge cleanly
+      if (result.ok && (bf || of.content === tf.content)) {
+        merged = { path, content: result.content, ...(mode ? { mode } : {}) };
+      } else {
+        conflicts.push({
+          path,
+          kind: bf ? "content" : "add_add",
+          base: bf?.content ?? null,
+          ours: of.content,
+          theirs: tf.content,
+          content: result.content,
+          ...(mode ? { mode } : {}),
+        });
+        continue;
+      }
+    } else {
+      // One side deleted the file the other changed
+      const kept = (of ?? tf)!;
+      conflicts.push({
+        path,
+        kind: of ? "modify_delete" : "delete_modify",
+        base: bf?.content ?? null,
+        ours: of?.content ?? null,
+        theirs: tf?.content ?? null,
+        content: kept.content,
+        ...(kept.mode ? { mode: kept.mode } : {}),
+      });
+      continue;
+    }
+    if (merged) files.push(merged);
+  }
+
+  return { files, conflicts, ok: conflicts.length === 0 };
+}
+
+export type ReplayResult =
+  | { ok: true; files: PatchFile[]; /** Every change was already on the target */ empty: boolean }
+  | { ok: false; conflicts: MergeConflict[] };
+
+/**
+ * Replay the change a snapshot made (`parent` → `files`) onto `onto`, as
+ * cherry-pick and rebase do: a three-way merge with the snapshot's parent
+ * as the base.
+ */
+export function replaySnapshot(
+  onto: PatchFile[],
+  parent: PatchFile[],
+  files: PatchFile[],
+  labels: { ours: string; theirs: string } = { ours: "ours", theirs: "theirs" },
+): ReplayResult {
+  const merged = mergeFileSets(parent, onto, files, labels);
+  if (!merged.ok) return { ok: false, conflicts: merged.conflicts };
+  const before = new Map(onto.map((f) => [f.path, f]));
+  const empty = merged.files.length === before.size && merged.files.every((f) => sameFile(f, before.get(f.path)));
+  return { ok: true, files: merged.files, empty };
+}
+
+/** Whether content still has unresolved `<<<<<<<` / `>>>>>>>` markers. */
+export function hasConflictMarkers(content: string): boolean {
+  return /^<{7}( |$)/m.test(content) && /^>{7}( |$)/m.test(content);
+}
+
+/**
+ * Complete a conflicted merge: every conflicted path needs a resolution,
+ * either its final content or null to delete it. Returns the paths still
+ * unresolved when some are missing.
+ */
+export function applyMergeResolutions(
+  merged: TreeMergeResult,
+  resolutions: Record<string, string | null>,
+): { ok: true; files: PatchFile[] } | { ok: false; unresolved: string[] } {
+  const unresolved = merged.conflicts.filter((c) => !(c.path in resolutions)).map((c) => c.path);
+  if (unresolved.length > 0) return { ok: false, unresolved };
+
+  const files = [...merged.files];
+  for (const conflict of merged.conflicts) {
+    const content = resolutions[conflict.path];
+    if (content !== null) files.push({ path: conflict.path, content, ...(conflict.mode ? { mode: conflict.mode } : {}) });
+  }
+  files.sort((x, y) => (x.path < y.path ? -1 : x.path > y.path ? 1 : 0));
+  return { ok: true, files };
+}
+
+// ─── Structured Edits ───
+
+export interface EditFileInput {
+  path: string;
+  /** Exact text to replace; must occur once unless replace_all is set */
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+export interface CreateFileInput {
+  path: string;
+  content: string;
+  /** Replace an existing file instead of failing */
+  overwrite?: boolean;
+}
+
+export interface DeleteFileInput {
+  path: string;
+}
+
+export interface MoveFileInput {
+  from: string;
+  to: string;
+}
+
+export type StructuredEdit =
+  | { tool: "edit_file"; input: EditFileInput }
+  | { tool: "create_file"; input: CreateFileInput }
+  | { tool: "delete_file"; input: DeleteFileInput }
+  | { tool: "move_file"; input: MoveFileInput };
+
+export type StructuredEditResult = { ok: true; patch: ParsedPatch } | { ok: false; error: string };
+
+/** Whole-file hunk adding or removing every line of `content`. */
+function wholeFileHunks(content: string, type: "add" | "remove"): DiffHunk[] {
+  if (content === "") return [];
+  const lines = content.split("\n").map((line) => ({ type, content: line }));
+  return [type === "add"
+    ? { oldStart: 0, oldCount: 0, newStart: 1, newCount: lines.length, lines }
+    : { oldStart: 1, oldCount: lines.length, newStart: 0, newCount: 0, lines }];
+}
+
+/**
+ * Turn an edit_file / create_file / delete_file / move_file tool call into
+ * the equivalent patch against `files`, so it can be previewed and applied
+ * like any other diff.
+ */
+export function buildStructuredEdit(files: PatchFile[], edit: StructuredEdit): StructuredEditResult {
+  const byPath = new Map(files.map((f) => [rootPath(f.path), f]));
+  const diffPath = (path: string) => rootPath(path).slice(1);
+  const fail = (error: string): StructuredEditResult => ({ ok: false, error });
+
+  switch (edit.tool) {
+    case "edit_file": {
+      const { path, old_string, new_string, replace_all } = edit.input;
+      const file = byPath.get(rootPath(path));
+      if (!file) return fail(`File not found: ${path}`);
+      if (!old_string) return fail("old_string must not be empty");
+      if (old_string === new_string) return fail("old_string and new_string are identical");
+      const parts = file.content.split(old_string);
+      const count = parts.length - 1;
+      if (count === 0) return fail(`old_string not found in ${path}`);
+      if (count > 1 && !replace_all) {
+        return fail(`old_string matches ${count} times in ${path}; include more surrounding context or set replace_all`);
+      }
+      const content = replace_all ? parts.join(new_string) : file.content.replace(old_string, () => new_string);
+      return { ok: true, patch: { oldFile: diffPath(path), newFile: diffPath(path), operation: "modify", hunks: diffHunks(file.content, content) } };
+    }
+
+    case "create_file": {
+      const { path, content, overwrite } = edit.input;
+      const existing = byPath.get(rootPath(path));
+      if (existing && !overwrite) return fail(`File already exists: ${path}; set overwrite or use edit_file`);
+      if (existing) {
+        if (existing.content === content) return fail(`${path} already has this content`);
+        return { ok: true, patch: { oldFile: diffPath(path), newFile: diffPath(path), operation: "modify", hunks: diffHunks(existing.content, content) } };
+      }
+      return {
+        ok: true,
+        patch: { oldFile: DEV_NULL, newFile: diffPath(path), operation: "create", newMode: DEFAULT_FILE_MODE, git: true, hunks: wholeFileHunks(content, "add") },
+      };
+    }
+
+    case "delete_file": {
+      const { path } = edit.input;
+      const file = byPath.get(rootPath(path));
+      if (!file) return fail(`File not found: ${path}`);
+      return {
+        ok: true,
+        patch: { oldFile: diffPath(path), newFile: DEV_NULL, operation: "delete", oldMode: file.mode || DEFAULT_FILE_MODE, git: true, hunks: wholeFileHunks(file.content, "remove") },
+      };
+    }
+
+    case "move_file": {
+      const { from, to } = edit.input;
+      if (!byPath.has(rootPath(from))) return fail(`File not found: ${from}`);
+      if (rootPath(from) === rootPath(to)) return fail("from and to are the same path");
+      if (byPath.has(rootPath(to))) return fail(`Target already exists: ${to}`);
+      return { ok: true, patch: { oldFile: diffPath(from), newFile: diffPath(to), operation: "rename", similarity: 100, git: true, hunks: [] } };
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Wire protocol for interactive terminals: messages exchanged over the
+ * runner's PTY WebSocket, client message validation, and the scrollback
+ * buffer the runner replays from when a client reconnects.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node (type stripping) and Deno.
+ */
+
+// ─── Types ───
+
+export type PtySignal = "SIGINT" | "SIGQUIT" | "SIGTERM" | "SIGKILL" | "SIGHUP";
+
+export type PtyClientMessage =
+  | { type: "stdin"; data: string }
+  | { type: "resize"; cols: number; rows: number }
+  | { type: "signal"; signal: PtySignal };
+
+export type PtyServerMessage =
+  /** Output produced after `offset - data.length`; `offset` is the scrollback position after it */
+  | { type: "output"; data: string; offset: number }
+  /** Scrollback sent on (re)connect; `truncated` when the requested offset had already been dropped */
+  | { type: "replay"; data: string; offset: number; truncated: boolean }
+  | {
+      type: "exit";
+      exitCode: number;
+      signal: string | null;
+      changedFiles?: Array<{ path: string; content: string }>;
+      /** Same shape as `LimitViolation` in limits.ts */
+      limitExceeded?: { kind: string; message: string };
+    }
+  | { type: "error"; message: string };
+
+/** What the API hands the browser to attach to a runner PTY. */
+export interface PtyTicket {
+  sessionId: string;
+  ptyId: string;
+  /** WebSocket URL, including the per-terminal token */
+  url: string;
+}
+
+// ─── Limits ───
+
+export const PTY_DEFAULT_COLS = 80;
+export const PTY_DEFAULT_ROWS = 24;
+export const PTY_MAX_COLS = 500;
+export const PTY_MAX_ROWS = 200;
+export const PTY_MAX_STDIN_CHARS = 64 * 1024;
+
+export const PTY_SIGNALS: PtySignal[] = ["SIGINT", "SIGQUIT", "SIGTERM", "SIGKILL", "SIGHUP"];
+
+/**
+ * Signals a terminal user can type go through the line discipline so they
+ * reach the foreground process group, not just the shell.
+ */
+export const PTY_SIGNAL_CHARS: Partial<Record<PtySignal, string>> = {
+  SIGINT: "\x03",
+  SIGQUIT: "\x1c",
+};
+
+// ─── Messages ───
+
+function clampDimension(value: unknown, max: number): number | null {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n >= 1 ? Math.min(n, max) : null;
+}
+
+/** Validate a raw client frame; returns null for anything malformed. */
+export function parseClientMessage(raw: string): PtyClientMessage | null {
+  let msg: { type?: unknown; data?: unknown; cols?: unknown; rows?: unknown; signal?: unknown };
+  try {
+    msg = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!msg || typeof msg !== "object") return null;
+
+  switch (msg.type) {
+    case "stdin":
+      if (typeof msg.data !== "string" || msg.data.length > PTY_MAX_STDIN_CHARS) return null;
+      return { type: "stdin", data: msg.data };
+    case "resize": {
+      const cols = clampDimension(msg.cols, PTY_MAX_COLS);
+      const rows = clampDimension(msg.rows, PTY_MAX_ROWS);
+      return cols && rows ? { type: "resize", cols, rows } : null;
+    }
+    case "signal":
+      return PTY_SIGNALS.includes(msg.signal as PtySignal) ? { type: "signal", signal: msg.signal as PtySignal } : null;
+    default:
+      return null;
+  }
+}
+
+// ─── Scrollback ───
+
+export interface Scrollback {
+  append(data: string): number;
+  /** Everything after `offset` that is still buffered */
+  since(offset: number): { data: string; offset: number; truncated: boolean };
+  /** Position after the last appended character */
+  readonly end: number;
+}
+
+/**
+ * Output ring buffer addressed by absolute character offsets, so a client
+ * that remembers how much it has seen can resume without duplicates.
+ */
+export function createScrollback(maxChars: number): Scrollback {
+  let buffer = "";
+  let start = 0;
+
+  return {
+    append(data) {
+      buffer += data;
+      if (buffer.length > maxChars) {
+        const drop = buffer.length - maxChars;
+        buffer = buffer.slice(drop);
+        start += drop;
+      }
+      return start + buffer.length;
+    },
+    since(offset) {
+      const end = start + buffer.length;
+      const from = Math.min(Math.max(offset, 0), end);
+      if (from < start) return { data: buffer, offset: end, truncated: true };
+      return { data: buffer.slice(from - start), offset: end, truncated: false };
+    },
+    get end() {
+      return start + buffer.length;
+    },
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Write rules for content-addressed snapshot refs: who may move a ref,
+ * which refs are protected (merge-only, optionally gated on a passing
+ * attested build), and what a valid tag name looks like.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node (type stripping) and Deno.
+ */
+
+// ─── Types ───
+
+export type ProjectRole = "owner" | "editor" | "viewer";
+
+/** Lowest role allowed to move a ref. Viewers never can. */
+export type RefWriteRole = "owner" | "editor";
+
+export interface RefRule {
+  /** Exact ref name, or a prefix ending in `/*` such as `release/*` */
+  pattern: string;
+  minRole: RefWriteRole;
+  /** Only accept merges, never direct snapshots, patches, cherry-picks or rebases */
+  protected: boolean;
+  /** Merges into the ref need a passing, attested build of the merged snapshot */
+  requirePassingBuild: boolean;
+}
+
+/** How a ref is about to move. */
+export type RefWriteKind = "update" | "merge";
+
+export type RefWriteDenial = {
+  ok: false;
+  code: "not_member" | "forbidden" | "protected" | "build_required";
+  message: string;
+};
+
+export type RefWriteDecision = { ok: true } | RefWriteDenial;
+
+// ─── Rules ───
+
+/** Rule applied to refs no rule matches: any editor may move them. */
+export const DEFAULT_REF_RULE: RefRule = {
+  pattern: "*",
+  minRole: "editor",
+  protected: false,
+  requirePassingBuild: false,
+};
+
+const ROLE_RANK: Record<ProjectRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+function ruleMatches(pattern: string, refName: string): boolean {
+  if (pattern === refName) return true;
+  return pattern.endsWith("/*") && refName.startsWith(pattern.slice(0, -1));
+}
+
+/** The most specific rule for a ref: an exact name beats the longest matching prefix. */
+export function findRefRule(rules: RefRule[], refName: string): RefRule {
+  let best: RefRule | null = null;
+  for (const rule of rules) {
+    if (!ruleMatches(rule.pattern, refName)) continue;
+    if (rule.pattern === refName) return rule;
+    if (!best || rule.pattern.length > best.pattern.length) best = rule;
+  }
+  return best ?? DEFAULT_REF_RULE;
+}
+
+/**
+ * Whether `role` may move `refName`. `hasPassingBuild` only matters for
+ * merges into refs that require one.
+ */
+export function checkRefWrite(
+  rules: RefRule[],
+  refName: string,
+  role: ProjectRole | null,
+  kind: RefWriteKind,
+  hasPassingBuild = false,
+): RefWriteDecision {
+  if (!role) return { ok: false, code: "not_member", message: "You are not a member of this project" };
+
+  const rule = findRefRule(rules, refName);
+  if (ROLE_RANK[role] < ROLE_RANK[rule.minRole]) {
+    return {
+      ok: false,
+      code: "forbidden",
+      message: `Only ${rule.minRole === "owner" ? "the project owner" : "editors and the owner"} can update ${refName}`,
+    };
+  }
+  if (rule.protected && kind !== "merge") {
+    return { ok: false, code: "protected", message: `${refName} is protected; changes must be merged into it` };
+  }
+  if (rule.protected && rule.requirePassingBuild && !hasPassingBuild) {
+    return {
+      ok: false,
+      code: "build_required",
+      message: `${refName} only accepts merges with a passing attested build of the merged snapshot`,
+    };
+  }
+  return { ok: true };
+}
+
+// ─── Names ───
+
+const NAME_MAX = 100;
+
+/**
+ * Validate a ref or tag name with git-like rules: path segments of
+ * letters, digits, `.`, `_` and `-`, no `..`, no leading dot or dash.
+ * Returns an error message, or null when the name is fine.
+ */
+export function validateRefName(name: unknown): string | null {
+  if (typeof name !== "string" || name.length === 0) return "Name is required";
+  if (name.length > NAME_MAX) return `Name is longer than ${NAME_MAX} characters`;
+  if (name.includes("..")) return "Name cannot contain '..'";
+  for (const segment of name.split("/")) {
+    if (!/^[A-Za-z0-9_][A-Za-z0-9._-]*$/.test(segment) || segment.endsWith(".")) {
+      return `Invalid name: ${name}`;
+    }
+  }
+  return null;
+}
+
+/** Validate a rule pattern: a ref name, optionally ending in `/*`. */
+export function validateRefPattern(pattern: unknown): string | null {
+  if (typeof pattern !== "string") return "Pattern is required";
+  return validateRefName(pattern.endsWith("/*") ? pattern.slice(0, -2) : pattern);
+}
@@ -0,0 +1,365 @@
+/**
+ * Glob matching and grep shared by the browser tool executor
+ * (src/lib/tool-executor.ts) and the runner's search endpoint, so the
+ * agent's read-only tools give the same answers locally and remotely.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node (type stripping) and Deno.
+ */
+
+// ─── Types ───
+
+export interface SearchFile {
+  path: string;
+  content: string;
+}
+
+export interface GlobOptions {
+  /** Let `*`, `?` and `**` match names starting with a dot */
+  dot?: boolean;
+  nocase?: boolean;
+}
+
+export interface GrepOptions {
+  pattern: string;
+  /** Only search files matching these globs; `!` negates */
+  paths_glob?: string | string[];
+  /** Defaults to smart case: insensitive unless the pattern has an uppercase letter */
+  case_sensitive?: boolean;
+  /** Treat the pattern as a literal string rather than a regex */
+  fixed_strings?: boolean;
+  /** Lines of context on both sides of each match */
+  context?: number;
+  before_context?: number;
+  after_context?: number;
+  /** Stop after this many matching lines per file */
+  max_count?: number;
+}
+
+// Messages follow `rg --json`; byte offsets are UTF-8, elapsed times are omitted.
+export interface GrepText {
+  text: string;
+}
+
+export interface GrepSubmatch {
+  match: GrepText;
+  start: number;
+  end: number;
+}
+
+export interface GrepStats {
+  searches: number;
+  searches_with_match: number;
+  bytes_searched: number;
+  matched_lines: number;
+  matches: number;
+}
+
+export interface GrepLineData {
+  path: GrepText;
+  lines: GrepText;
+  line_number: number;
+  absolute_offset: number;
+  submatches: GrepSubmatch[];
+}
+
+export type GrepMessage =
+  | { type: "begin"; data: { path: GrepText } }
+  | { type: "match"; data: GrepLineData }
+  | { type: "context"; data: GrepLineData }
+  | { type: "end"; data: { path: GrepText; binary_offset: null; stats: GrepStats } }
+  | { type: "summary"; data: { stats: GrepStats } };
+
+// ─── Brace Expansion ───
+
+/** Split on commas that aren't nested in braces or escaped. */
+function splitAlternatives(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (c === "\\") {
+      current += c + (body[i + 1] ?? "");
+      i++;
+      continue;
+    }
+    if (c === "{") depth++;
+    else if (c === "}") depth--;
+    if (c === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += c;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** `1..3` or `a..c` as a list, or null when the body isn't a range. */
+function expandRange(body: string): string[] | null {
+  const numeric = body.match(/^(-?\d+)\.\.(-?\d+)$/);
+  if (numeric) {
+    const [from, to] = [Number(numeric[1]), Number(numeric[2])];
+    const step = from <= to ? 1 : -1;
+    const out: string[] = [];
+    for (let n = from; n !== to + step; n += step) out.push(String(n));
+    return out;
+  }
+  const alpha = body.match(/^([a-zA-Z])\.\.([a-zA-Z])$/);
+  if (alpha) {
+    const [from, to] = [alpha[1].charCodeAt(0), alpha[2].charCodeAt(0)];
+    const step = from <= to ? 1 : -1;
+    const out: string[] = [];
+    for (let c = from; c !== to + step; c += step) out.push(String.fromCharCode(c));
+    return out;
+  }
+  return null;
+}
+
+/**
+ * Expand `{a,b}` alternatives and `{1..3}` ranges, including nested ones.
+ * Braces with a single alternative (`{a}`) are left as literals.
+ */
+export function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "\\") { i++; continue; }
+    if (c === "{") {
+      if (depth++ === 0) start = i;
+    } else if (c === "}" && depth > 0 && --depth === 0) {
+      const body = pattern.slice(start + 1, i);
+      const alternatives = expandRange(body) ?? splitAlternatives(body);
+      if (alternatives.length > 1) {
+        const pre = pattern.slice(0, start);
+        const post = pattern.slice(i + 1);
+        return alternatives.flatMap((alt) => expandBraces(pre + alt + post));
+      }
+    }
+  }
+  return [pattern];
+}
+
+// ─── Glob ───
+
+const REGEX_SPECIAL = /[.*+?^${}()|[\]\\/]/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(REGEX_SPECIAL, "\\$&");
+}
+
+/** Regex source for one path segment (no `/`, not `**`). */
+function segmentSource(segment: string, dot: boolean): string {
+  let out = "";
+  for (let i = 0; i < segment.length; i++) {
+    const c = segment[i];
+    if (c === "\\") {
+      out += escapeRegExp(segment[i + 1] ?? "\\");
+      i++;
+    } else if (c === "*") {
+      while (segment[i + 1] === "*") i++;
+      out += "[^/]*";
+    } else if (c === "?") {
+      out += "[^/]";
+    } else if (c === "[") {
+      const close = segment.indexOf("]", i + 2);
+      if (close === -1) {
+        out += "\\[";
+        continue;
+      }
+      let body = segment.slice(i + 1, close);
+      const negated = body[0] === "!" || body[0] === "^";
+      if (negated) body = body.slice(1);
+      out += `[${negated ? "^/" : ""}${body}]`;
+      i = close;
+    } else {
+      out += escapeRegExp(c);
+    }
+  }
+  // Wildcards don't match a leading dot unless the pattern spells it out
+  return !dot && /^[*?[]/.test(segment) ? `(?!\\.)${out}` : out;
+}
+
+/**
+ * Translate one glob (no braces or negation) to an anchored regex.
+ * `**` spans directories; a pattern without a `/` matches the file name at
+ * any depth, as in ripgrep and .gitignore.
+ */
+export function globToRegExp(pattern: string, options: GlobOptions = {}): RegExp {
+  const dot = options.dot ?? false;
+  const matchBase = !pattern.includes("/");
+  // A trailing slash names a directory: match everything under it
+  const normalized = pattern.replace(/^\.?\/+/, "").replace(/\/+$/, "/**");
+  const segments = normalized.split("/").filter(Boolean);
+  const anySegment = dot ? "[^/]+" : "(?!\\.)[^/]+";
+
+  let source = "";
+  segments.forEach((segment, i) => {
+    const last = i === segments.length - 1;
+    if (segment === "**") {
+      source += last ? `${anySegment}(?:/${anySegment})*` : `(?:${anySegment}/)*`;
+    } else {
+      source += segmentSource(segment, dot) + (last ? "" : "/");
+    }
+  });
+
+  return new RegExp(`^${matchBase ? "(?:.*/)?" : ""}${source}$`, options.nocase ? "i" : "");
+}
+
+function normalizeSearchPath(path: string): string {
+  return path.replace(/^\.?\/+/, "");
+}
+
+/**
+ * Build a predicate from minimatch-style globs. Patterns starting with `!`
+ * exclude; a path matches when it hits any positive pattern (or there are
+ * none) and no negative one. Leading `/` and `./` are ignored on both sides.
+ */
+export function createGlobMatcher(patterns: string | string[], options: GlobOptions = {}): (path: string) => boolean {
+  const include: RegExp[] = [];
+  const exclude: RegExp[] = [];
+  for (const raw of Array.isArray(patterns) ? patterns : [patterns]) {
+    let pattern = raw.trim();
+    let negated = false;
+    while (pattern.startsWith("!")) {
+      negated = !negated;
+      pattern = pattern.slice(1);
+    }
+    if (!pattern) continue;
+    for (const expanded of expandBraces(pattern)) {
+      (negated ? exclude : include).push(globToRegExp(expanded, options));
+    }
+  }
+
+  return (path: string) => {
+    const p = normalizeSearchPath(path);
+    return (include.length === 0 || include.some((r) => r.test(p))) && !exclude.some((r) => r.test(p));
+  };
+}
+
+function byPath(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Paths matching `glob`, sorted. An empty or missing glob matches everything. */
+export function listFiles(paths: string[], glob?: string | string[]): string[] {
+  const matches = glob && glob.length > 0 ? createGlobMatcher(glob) : () => true;
+  return paths.filter(matches).sort(byPath);
+}
+
+// ─── Grep ───
+
+function utf8Length(text: string): number {
+  let bytes = 0;
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+  }
+  return bytes;
+}
+
+function emptyStats(): GrepStats {
+  return { searches: 0, searches_with_match: 0, bytes_searched: 0, matched_lines: 0, matches: 0 };
+}
+
+/** Build the line regex, applying smart case and fixed-string mode. */
+function grepRegExp(options: GrepOptions): RegExp {
+  const source = options.fixed_strings ? escapeRegExp(options.pattern) : options.pattern;
+  const caseSensitive = options.case_sensitive ?? /[A-Z]/.test(options.pattern);
+  return new RegExp(source, caseSensitive ? "g" : "gi");
+}
+
+function findSubmatches(regex: RegExp, line: string): GrepSubmatch[] {
+  const submatches: GrepSubmatch[] = [];
+  regex.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = regex.exec(line)) !== null) {
+    // Step past empty matches so `^` or `\b` patterns can't loop forever
+    if (m[0] === "") {
+      regex.lastIndex++;
+      if (submatches.length > 0) continue;
+    }
+    const start = utf8Length(line.slice(0, m.index));
+    submatches.push({ match: { text: m[0] }, start, end: start + utf8Length(m[0]) });
+    if (regex.lastIndex > line.length) break;
+  }
+  return submatches;
+}
+
+/**
+ * Search files line by line, ripgrep style. Returns the `rg --json` message
+ * stream: begin / match / context / end per file with matches, then a summary.
+ * Files containing NUL bytes are treated as binary and skipped.
+ */
+export function grepFiles(files: SearchFile[], options: GrepOptions): GrepMessage[] {
+  const regex = grepRegExp(options);
+  const inPaths = options.paths_glob && options.paths_glob.length > 0 ? createGlobMatcher(options.paths_glob) : () => true;
+  const before = options.before_context ?? options.context ?? 0;
+  const after = options.after_context ?? options.context ?? 0;
+  const maxCount = options.max_count ?? Infinity;
+
+  const messages: GrepMessage[] = [];
+  const total = emptyStats();
+
+  for (const file of [...files].sort((a, b) => byPath(a.path, b.path))) {
+    if (!inPaths(file.path) || file.content.includes("\0")) continue;
+
+    const path = { text: file.path };
+    const stats = emptyStats();
+    stats.searches = 1;
+    stats.bytes_searched = utf8Length(file.content);
+
+    const lines = file.content.split("\n");
+    if (lines.length > 1 && lines[lines.length - 1] === "") lines.pop();
+    const hasNewline = (i: number) => i < lines.length - 1 || file.content.endsWith("\n");
+    const offsets: number[] = [];
+    let offset = 0;
+    for (let i = 0; i < lines.length; i++) {
+      offsets.push(offset);
+      offset += utf8Length(lines[i]) + 1;
+    }
+
+    const fileMessages: GrepMessage[] = [];
+    const line = (i: number, submatches: GrepSubmatch[]): GrepLineData => ({
+      path,
+      lines: { text: lines[i] + (hasNewline(i) ? "\n" : "") },
+      line_number: i + 1,
+      absolute_offset: offsets[i],
+      submatches,
+    });
+
+    let lastEmitted = -1;
+    let afterLeft = 0;
+    for (let i = 0; i < lines.length; i++) {
+      const submatches = stats.matched_lines < maxCount ? findSubmatches(regex, lines[i]) : [];
+      if (submatches.length > 0) {
+        for (let j = Math.max(lastEmitted + 1, i - before); j < i; j++) {
+          fileMessages.push({ type: "context", data: line(j, []) });
+        }
+        fileMessages.push({ type: "match", data: line(i, submatches) });
+        stats.matched_lines++;
+        stats.matches += submatches.length;
+        lastEmitted = i;
+        afterLeft = after;
+      } else if (afterLeft > 0) {
+        fileMessages.push({ type: "context", data: line(i, []) });
+        lastEmitted = i;
+        afterLeft--;
+      } else if (stats.matched_lines >= maxCount) {
+        break;
+      }
+    }
+
+    if (stats.matched_lines > 0) {
+      stats.searches_with_match = 1;
+      messages.push({ type: "begin", data: { path } }, ...fileMessages, { type: "end", data: { path, binary_offset: null, stats } });
+    }
+    for (const key of Object.keys(total) as Array<keyof GrepStats>) total[key] += stats[key];
+  }
+
+  messages.push({ type: "summary", data: { stats: total } });
+  return messages;
+}
@@ -0,0 +1,1241 @@
+/**
+ * Input schemas for the built-in MCP tools and their validation. Each tool
+ * takes an object described in the subset of JSON Schema implemented here
+ * (types, required, enums, formats, nested objects and arrays, bounds and
+ * patterns); calls are checked against it before they reach the server's
+ * function, and a rejected call returns a typed error whose issues name the
+ * path and keyword that failed, so a caller, the agent included, can fix the
+ * input and retry. Unknown keywords are ignored, so schemas from connected
+ * servers validate leniently. MCPConfig builds its tool forms from the same
+ * schemas.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node (type stripping) and Deno.
+ */
+
+// ─── Types ───
+
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** false rejects properties not listed; a schema validates them */
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  format?: string;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  /** Valid when any one of these is */
+  anyOf?: JsonSchema[];
+}
+
+/** The schema keyword an input failed */
+export type SchemaIssueCode =
+  | "type" | "required" | "additional_property" | "enum" | "format" | "minimum" | "maximum"
+  | "min_length" | "max_length" | "pattern" | "min_items" | "max_items" | "any_of";
+
+export interface SchemaIssue {
+  /** Dotted path to the value, e.g. `fields.0.name`; empty for the input itself */
+  path: string;
+  code: SchemaIssueCode;
+  message: string;
+}
+
+/** What a tool call with invalid input returns instead of a result */
+export interface ToolInputErrorBody {
+  ok: false;
+  code: "invalid_input";
+  error: string;
+  tool: string;
+  issues: SchemaIssue[];
+}
+
+export class ToolInputError extends Error {
+  tool: string;
+  issues: SchemaIssue[];
+
+  constructor(tool: string, issues: SchemaIssue[]) {
+    super(`Invalid input for ${tool}: ${issues.map((i) => i.message).join("; ")}`);
+    this.name = "ToolInputError";
+    this.tool = tool;
+    this.issues = issues;
+  }
+
+  toJSON(): ToolInputErrorBody {
+    return { ok: false, code: "invalid_input", error: this.message, tool: this.tool, issues: this.issues };
+  }
+}
+
+export function isToolInputErrorBody(value: unknown): value is ToolInputErrorBody {
+  return !!value && typeof value === "object" && (value as ToolInputErrorBody).code === "invalid_input"
+    && Array.isArray((value as ToolInputErrorBody).issues);
+}
+
+// ─── Formats ───
+
+/** Checks for the formats the tool schemas name; other formats aren't checked */
+export const SCHEMA_FORMATS: Record<string, RegExp> = {
+  "date-time": /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:\/\/\S+$/i,
+  "evm-address": /^0x[0-9a-fA-F]{40}$/,
+  "evm-hash": /^0x[0-9a-fA-F]{64}$/,
+  hex: /^0x[0-9a-fA-F]*$/,
+  "solana-address": /^[1-9A-HJ-NP-Za-km-z]{32,44}$/,
+};
+
+// ─── Validation ───
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return (actual === "number" || actual === "integer") && Number.isFinite(value);
+  return actual === type;
+}
+
+function join(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
+
+/** How a path reads in a message: the field name, or "input" for the whole input */
+function subject(path: string): string {
+  return path || "input";
+}
+
+function describeValues(values: unknown[]): string {
+  return values.map((v) => JSON.stringify(v)).join(", ");
+}
+
+/** For anyOf options that only differ in what they require, the field sets needed, e.g. ["id", "symbol"] */
+function requiredAlternatives(schema: JsonSchema): string[] | null {
+  const options = schema.anyOf ?? [];
+  if (options.length === 0 || !options.every((option) => option.required && Object.keys(option).length === 1)) return null;
+  return options.map((option) => option.required!.join(" and "));
+}
+
+function validateAt(schema: JsonSchema, value: unknown, path: string, issues: SchemaIssue[]): void {
+  const issue = (code: SchemaIssueCode, message: string) => issues.push({ path, code, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      issue("type", `${subject(path)} must be ${types.join(" or ")}, not ${typeOf(value) === "integer" ? "number" : typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((v) => v === value)) {
+    issue("enum", `${subject(path)} must be one of ${describeValues(schema.enum)}`);
+  }
+
+  if (schema.anyOf) {
+    const matched = schema.anyOf.some((option) => {
+      const nested: SchemaIssue[] = [];
+      validateAt(option, value, path, nested);
+      return nested.length === 0;
+    });
+    if (!matched) {
+      const needs = requiredAlternatives(schema);
+      issue("any_of", needs
+        ? `${subject(path)} needs ${needs.join(" or ")}`
+        : schema.description
+          ? `${subject(path)} isn't valid (expected: ${schema.description})`
+          : `${subject(path)} doesn't match any of the allowed shapes`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issue("min_length", schema.minLength === 1 ? `${subject(path)} must not be empty` : `${subject(path)} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issue("max_length", `${subject(path)} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issue("pattern", `${subject(path)} must match ${schema.pattern}`);
+    }
+    const format = schema.format && SCHEMA_FORMATS[schema.format];
+    if (format && !format.test(value)) issue("format", `${subject(path)} must be a valid ${schema.format}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) issue("minimum", `${subject(path)} must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) issue("maximum", `${subject(path)} must be at most ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issue("min_items", `${subject(path)} must have at least ${schema.minItems} item${schema.minItems === 1 ? "" : "s"}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issue("max_items", `${subject(path)} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) value.forEach((item, i) => validateAt(schema.items!, item, join(path, i), issues));
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (record[name] === undefined) issues.push({ path: join(path, name), code: "required", message: `${join(path, name)} is required` });
+    }
+    for (const [name, item] of Object.entries(record)) {
+      if (item === undefined) continue;
+      const property = schema.properties?.[name];
+      if (property) validateAt(property, item, join(path, name), issues);
+      else if (schema.additionalProperties === false) {
+        const known = Object.keys(schema.properties ?? {});
+        issues.push({
+          path: join(path, name),
+          code: "additional_property",
+          message: known.length > 0
+            ? `${join(path, name)} isn't a known field (expected ${known.join(", ")})`
+            : `${join(path, name)} isn't a known field (this tool takes no input)`,
+        });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        validateAt(schema.additionalProperties, item, join(path, name), issues);
+      }
+    }
+  }
+}
+
+/** Everything wrong with a value under a schema; empty when it's valid */
+export function validateSchema(schema: JsonSchema, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  validateAt(schema, value, "", issues);
+  return issues;
+}
+
+/** Throw a ToolInputError unless the input is valid for the tool's schema */
+export function assertToolInput(tool: string, schema: JsonSchema, input: unknown): void {
+  const issues = validateSchema(schema, input);
+  if (issues.length > 0) throw new ToolInputError(tool, issues);
+}
+
+// ─── Summaries ───
+
+function describeType(schema: JsonSchema): string {
+  if (schema.enum) return describeValues(schema.enum).replace(/, /g, "|");
+  if (schema.anyOf && !requiredAlternatives(schema)) return schema.anyOf.map(describeType).join("|");
+  if (schema.type === "array") {
+    const item = schema.items ? describeType(schema.items) : "any";
+    return item.includes("|") ? `(${item})[]` : `${item}[]`;
+  }
+  if (schema.format) return schema.format;
+  if (Array.isArray(schema.type)) return schema.type.join("|");
+  return schema.type ?? "any";
+}
+
+/**
+ * A tool input schema in one line for prompts and error feedback, e.g.
+ * `owner*: string, state: "open"|"closed"`; * marks required fields
+ */
+export function describeToolInput(schema: JsonSchema): string {
+  const properties = Object.entries(schema.properties ?? {});
+  if (properties.length === 0) return "no input";
+  const required = new Set(schema.required ?? []);
+  const fields = properties.map(([name, property]) => `${name}${required.has(name) ? "*" : ""}: ${describeType(property)}`).join(", ");
+  const needs = requiredAlternatives(schema);
+  return needs ? `${fields} (needs ${needs.join(" or ")})` : fields;
+}
+
+// ─── Schema builders ───
+
+function described(schema: JsonSchema, description?: string, extra?: JsonSchema): JsonSchema {
+  return { ...schema, ...(description ? { description } : {}), ...extra };
+}
+
+const text = (description?: string, extra?: JsonSchema) => described({ type: "string" }, description, extra);
+/** A name, id or key: a string that can't be empty */
+const id = (description?: string, extra?: JsonSchema) => described({ type: "string", minLength: 1 }, description, extra);
+const int = (description?: string, extra?: JsonSchema) => described({ type: "integer" }, description, extra);
+const num = (description?: string, extra?: JsonSchema) => described({ type: "number" }, description, extra);
+const bool = (description?: string, extra?: JsonSchema) => described({ type: "boolean" }, description, extra);
+const choice = (values: string[], description?: string, extra?: JsonSchema) =>
+  described({ type: "string", enum: values }, description, extra);
+const list = (items: JsonSchema, description?: string, extra?: JsonSchema) =>
+  described({ type: "array", items }, description, extra);
+/** An object passed through to the service as it is */
+const dict = (description?: string, extra?: JsonSchema) => described({ type: "object" }, description, extra);
+/** A page size or result count between 1 and max */
+const count = (max: number, fallback: number, description = "Number of results") =>
+  int(description, { minimum: 1, maximum: max, default: fallback });
+
+/** A tool's input: an object with exactly these properties */
+function input(properties: Record<string, JsonSchema> = {}, required: string[] = []): JsonSchema {
+  return { type: "object", properties, ...(required.length > 0 ? { required } : {}), additionalProperties: false };
+}
+
+/** An input that needs at least one of the given sets of fields */
+function withOneOf(schema: JsonSchema, ...fieldSets: string[][]): JsonSchema {
+  return { ...schema, anyOf: fieldSets.map((required) => ({ required })) };
+}
+
+const evmAddress = (description = "Address (0x…)") => text(description, { format: "evm-address" });
+const evmHash = (description = "Transaction hash (0x…)") => text(description, { format: "evm-hash" });
+const solanaAddress = (description = "Base58 account address") => text(description, { format: "solana-address" });
+const PHONE_NUMBER = (description: string) => text(description, { pattern: "^\\+[1-9]\\d{1,14}$" });
+const DROPLET_ID: JsonSchema = { description: "Droplet id", anyOf: [{ type: "integer" }, { type: "string", pattern: "^\\d+$" }] };
+const AIRTABLE_BASE = id("Base id (app…)", { pattern: "^app[A-Za-z0-9]+$" });
+const AIRTABLE_TABLE = id("Table id (tbl…) or name");
+const JIRA_PROJECT = id("Project key, e.g. ENG", { pattern: "^[A-Z][A-Z0-9_]+$" });
+const JIRA_ISSUE = id("Issue key, e.g. ENG-42", { pattern: "^[A-Z][A-Z0-9_]+-\\d+$" });
+const SF_OBJECT = id("Object API name, e.g. Account or Invoice__c", { pattern: "^[A-Za-z][A-Za-z0-9_]*$" });
+const SF_RECORD = id("Record id (15 or 18 characters)", { pattern: "^[A-Za-z0-9]{15}([A-Za-z0-9]{3})?$" });
+const MONDAY_ID = (description: string) => id(description, { pattern: "^\\d+$" });
+const ASANA_GID = (description: string) => id(description, { pattern: "^\\d+$" });
+const SNOWFLAKE = (description: string) => id(description, { pattern: "^\\d{17,20}$" });
+const TRELLO_POS: JsonSchema = { description: "Position: top, bottom or a number", anyOf: [{ type: "string", enum: ["top", "bottom"] }, { type: "number", minimum: 0 }] };
+const EMAIL = text("Email address", { format: "email" });
+/** Chains the Moralis adapters know; a project's allowed_chains narrows them further */
+const MORALIS_CHAIN = choice(["eth", "base", "polygon", "arbitrum", "optimism", "bsc", "avalanche"], "Chain");
+const SOLANA_SIGNATURE = text("Base58 transaction signature", { pattern: "^[1-9A-HJ-NP-Za-km-z]{64,88}$" });
+const HEX_DATA = (description: string) => text(description, { format: "hex" });
+const BLOCK_TAG: JsonSchema = {
+  description: "Block number (hex) or tag; latest by default",
+  anyOf: [{ type: "string", enum: ["latest", "earliest", "pending", "safe", "finalized"] }, { type: "string", format: "hex" }],
+};
+/** The fields of an EVM call, as eth_call and eth_estimateGas take them */
+const TX_FIELDS: Record<string, JsonSchema> = {
+  from: evmAddress("Sender address"),
+  to: evmAddress("Recipient or contract address"),
+  data: HEX_DATA("Calldata"),
+  value: HEX_DATA("Value in wei (hex)"),
+};
+const AWS_REGION = text("Region, e.g. us-east-1; the stored region by default", { pattern: "^[a-z]{2}(-[a-z]+)+-\\d$" });
+/** Stripe-style metadata: string values by key */
+const METADATA: JsonSchema = { type: "object", description: "Key-value metadata", additionalProperties: { type: "string" } };
+const TELEGRAM_CHAT: JsonSchema = {
+  description: "Chat id or @channel username",
+  anyOf: [{ type: "integer" }, { type: "string", minLength: 1 }],
+};
+/** Rows of cells, each row a list of values */
+const SHEET_ROWS = list(list({ anyOf: [{ type: "string" }, { type: "number" }, { type: "boolean" }] }), "Rows of cell values");
+const SHEET_INPUT_OPTION = choice(["RAW", "USER_ENTERED"], "How values are interpreted", { default: "USER_ENTERED" });
+
+// ─── Built-in tools ───
+
+/** Input schema of every built-in MCP tool, by tool name */
+export const TOOL_INPUT_SCHEMAS = {
+  // ─── GitHub ───
+  github_list_repos: input({ page: int("Page number", { minimum: 1, default: 1 }), per_page: count(100, 30, "Repositories per page") }),
+  github_get_repo: input({ owner: id("Repository owner"), repo: id("Repository name") }, ["owner", "repo"]),
+  github_get_file: input(
+    { owner: id("Repository owner"), repo: id("Repository name"), path: id("File path in the repository"), ref: id("Branch, tag or commit") },
+    ["owner", "repo", "path"],
+  ),
+  github_list_issues: input(
+    { owner: id("Repository owner"), repo: id("Repository name"), state: choice(["open", "closed", "all"], "Issue state", { default: "open" }) },
+    ["owner", "repo"],
+  ),
+  github_create_issue: input(
+    {
+      owner: id("Repository owner"), repo: id("Repository name"), title: id("Issue title"),
+      body: text("Issue body (Markdown)"), labels: list(id(), "Label names"),
+    },
+    ["owner", "repo", "title"],
+  ),
+  github_create_pr: input(
+    {
+      owner: id("Repository owner"), repo: id("Repository name"), title: id("Pull request title"),
+      head: id("Branch with the changes"), base: id("Branch to merge into"), body: text("Description (Markdown)"),
+    },
+    ["owner", "repo", "title", "head", "base"],
+  ),
+  github_list_branches: input({ owner: id("Repository owner"), repo: id("Repository name") }, ["owner", "repo"]),
+  github_create_repo: input(
+    {
+      name: id("Repository name"), description: text("Description"),
+      private: bool("Create it private", { default: true }), auto_init: bool("Start with a README", { default: true }),
+    },
+    ["name"],
+  ),
+  github_list_commits: input(
+    { owner: id("Repository owner"), repo: id("Repository name"), sha: id("Branch or commit to start from"), per_page: count(100, 10, "Commits per page") },
+    ["owner", "repo"],
+  ),
+  github_push_file: input(
+    {
+      owner: id("Repository owner"), repo: id("Repository name"), path: id("File path in the repository"),
+      content: text("New file content"), message: id("Commit message"), branch: id("Branch to commit to"),
+      sha: id("Blob SHA of the file being replaced; required when it exists"),
+    },
+    ["owner", "repo", "path", "content", "message"],
+  ),
+  github_delete_file: input(
+    {
+      owner: id("Repository owner"), repo: id("Repository name"), path: id("File path in the repository"),
+      message: id("Commit message"), sha: id("Blob SHA of the file"), branch: id("Branch to commit to"),
+    },
+    ["owner", "repo", "path", "message", "sha"],
+  ),
+  github_get_user: input(),
+
+  // ─── Vercel ───
+  vercel_list_projects: input({ limit: count(100, 20, "Number of projects") }),
+  vercel_get_project: input({ projectId: id("Project id or name") }, ["projectId"]),
+  vercel_list_deployments: input({ projectId: id("Only this project's deployments"), limit: count(100, 10, "Number of deployments") }),
+  vercel_get_deployment: input({ deploymentId: id("Deployment id or URL") }, ["deploymentId"]),
+  vercel_create_deployment: input(
+    {
+      name: id("Project name"), target: choice(["production", "preview"], "Deployment target"),
+      gitSource: dict("Git source, e.g. { type: \"github\", repoId, ref }"),
+    },
+    ["name"],
+  ),
+  vercel_list_domains: input({ projectId: id("Project id or name") }, ["projectId"]),
+  vercel_add_domain: input({ projectId: id("Project id or name"), domain: id("Domain name, e.g. app.example.com") }, ["projectId", "domain"]),
+  vercel_list_env_vars: input({ projectId: id("Project id or name") }, ["projectId"]),
+  vercel_create_env_var: input(
+    {
+      projectId: id("Project id or name"), key: id("Variable name"), value: id("Variable value"),
+      target: list(choice(["production", "preview", "development"]), "Environments; all three by default", { minItems: 1 }),
+      type: choice(["plain", "encrypted", "sensitive", "secret", "system"], "Variable type", { default: "encrypted" }),
+    },
+    ["projectId", "key", "value"],
+  ),
+
+  // ─── Supabase ───
+  supabase_list_projects: input(),
+  supabase_get_project: input({ ref: id("Project ref") }, ["ref"]),
+  supabase_list_tables: input({ ref: id("Project ref") }, ["ref"]),
+  supabase_get_table_schema: input({ ref: id("Project ref"), table: id("Table in the public schema") }, ["ref", "table"]),
+  supabase_run_query: input({ ref: id("Project ref"), query: id("A read-only SELECT statement", { pattern: "^\\s*[Ss][Ee][Ll][Ee][Cc][Tt]\\b" }) }, ["ref", "query"]),
+  supabase_list_buckets: input({ ref: id("Project ref") }, ["ref"]),
+  supabase_list_users: input(
+    { ref: id("Project ref"), page: int("Page number", { minimum: 1, default: 1 }), per_page: count(1000, 50, "Users per page") },
+    ["ref"],
+  ),
+  supabase_list_functions: input({ ref: id("Project ref") }, ["ref"]),
+  supabase_get_function: input({ ref: id("Project ref"), slug: id("Function slug") }, ["ref", "slug"]),
+
+  // ─── Cloudflare ───
+  cf_verify_token: input(),
+  cf_list_accounts: input(),
+  cf_list_workers: input({ account_id: id("Account id") }, ["account_id"]),
+  cf_get_worker: input({ account_id: id("Account id"), script_name: id("Worker script name") }, ["account_id", "script_name"]),
+  cf_delete_worker: input({ account_id: id("Account id"), script_name: id("Worker script name") }, ["account_id", "script_name"]),
+  cf_list_kv_namespaces: input({ account_id: id("Account id") }, ["account_id"]),
+  cf_create_kv_namespace: input({ account_id: id("Account id"), title: id("Namespace title") }, ["account_id", "title"]),
+  cf_list_kv_keys: input(
+    { account_id: id("Account id"), namespace_id: id("KV namespace id"), limit: int("Number of keys", { minimum: 10, maximum: 1000, default: 100 }) },
+    ["account_id", "namespace_id"],
+  ),
+  cf_get_kv_value: input(
+    { account_id: id("Account id"), namespace_id: id("KV namespace id"), key_name: id("Key") },
+    ["account_id", "namespace_id", "key_name"],
+  ),
+  cf_put_kv_value: input(
+    { account_id: id("Account id"), namespace_id: id("KV namespace id"), key_name: id("Key"), value: text("Value to store") },
+    ["account_id", "namespace_id", "key_name", "value"],
+  ),
+  cf_list_zones: input({ per_page: count(50, 20, "Zones per page") }),
+  cf_list_dns_records: input({ zone_id: id("Zone id") }, ["zone_id"]),
+  cf_create_dns_record: input(
+    {
+      zone_id: id("Zone id"),
+      type: choice(["A", "AAAA", "CNAME", "MX", "TXT", "NS", "SRV", "CAA"], "Record type"),
+      name: id("Record name, e.g. www or example.com"),
+      content: id("Record content, e.g. an IP address or hostname"),
+      ttl: int("TTL in seconds; 1 means automatic", { minimum: 1, maximum: 86400, default: 1 }),
+      proxied: bool("Proxy through Cloudflare", { default: true }),
+    },
+    ["zone_id", "type", "name", "content"],
+  ),
+
+  // ─── AWS ───
+  aws_verify_credentials: input({ region: AWS_REGION }),
+  aws_list_s3_buckets: input({ region: AWS_REGION }),
+  aws_list_s3_objects: input(
+    { bucket: id("Bucket name"), prefix: text("Key prefix"), max_keys: count(1000, 1000, "Number of objects"), region: AWS_REGION },
+    ["bucket"],
+  ),
+  aws_get_s3_object: input({ bucket: id("Bucket name"), key: id("Object key"), region: AWS_REGION }, ["bucket", "key"]),
+  aws_delete_s3_object: input({ bucket: id("Bucket name"), key: id("Object key"), region: AWS_REGION }, ["bucket", "key"]),
+  aws_list_lambda_functions: input({ region: AWS_REGION }),
+  aws_get_lambda_function: input({ function_name: id("Function name or ARN"), region: AWS_REGION }, ["function_name"]),
+  aws_invoke_lambda: input(
+    { function_name: id("Function name or ARN"), payload: { description: "JSON event passed to the function" }, region: AWS_REGION },
+    ["function_name"],
+  ),
+  aws_list_hosted_zones: input({ region: AWS_REGION }),
+  aws_list_dns_records: input({ hosted_zone_id: id("Hosted zone id"), region: AWS_REGION }, ["hosted_zone_id"]),
+
+  // ─── Stripe ───
+  stripe_list_customers: input({ limit: count(100, 10, "Number of customers") }),
+  stripe_get_customer: input({ customer_id: id("Customer id (cus_…)") }, ["customer_id"]),
+  stripe_create_customer: input({ email: text("Email", { format: "email" }), name: text("Full name"), description: text("Description"), metadata: METADATA }),
+  stripe_list_products: input({ limit: count(100, 10, "Number of products") }),
+  stripe_create_product: input({ name: id("Product name"), description: text("Description"), metadata: METADATA }, ["name"]),
+  stripe_list_prices: input({ limit: count(100, 10, "Number of prices"), product: id("Only this product's prices (prod_…)") }),
+  stripe_create_price: input(
+    {
+      unit_amount: int("Amount in the currency's smallest unit, e.g. cents", { minimum: 1 }),
+      currency: id("Three-letter ISO currency code, lowercase", { pattern: "^[a-z]{3}$" }),
+      product: id("Product id (prod_…)"),
+      recurring: {
+        type: "object",
+        description: "Makes it a subscription price",
+        properties: {
+          interval: choice(["day", "week", "month", "year"], "Billing interval"),
+          interval_count: int("Intervals between billings", { minimum: 1 }),
+        },
+        required: ["interval"],
+        additionalProperties: false,
+      },
+    },
+    ["unit_amount", "currency", "product"],
+  ),
+  stripe_list_subscriptions: input({ limit: count(100, 10, "Number of subscriptions"), customer: id("Only this customer's subscriptions (cus_…)") }),
+  stripe_get_subscription: input({ subscription_id: id("Subscription id (sub_…)") }, ["subscription_id"]),
+  stripe_cancel_subscription: input({ subscription_id: id("Subscription id (sub_…)") }, ["subscription_id"]),
+  stripe_list_payment_intents: input({ limit: count(100, 10, "Number of payment intents") }),
+  stripe_get_balance: input(),
+  stripe_list_invoices: input({ limit: count(100, 10, "Number of invoices"), customer: id("Only this customer's invoices (cus_…)") }),
+
+  // ─── Slack ───
+  slack_list_channels: input({
+    limit: count(1000, 100, "Number of channels"),
+    types: text("Comma-separated channel types: public_channel, private_channel, mpim, im", {
+      pattern: "^(public_channel|private_channel|mpim|im)(,(public_channel|private_channel|mpim|im))*$",
+      default: "public_channel,private_channel",
+    }),
+  }),
+  slack_get_channel_info: input({ channel: id("Channel id (C…)") }, ["channel"]),
+  slack_post_message: input(
+    { channel: id("Channel id or name"), text: id("Message text (mrkdwn)"), blocks: list(dict(), "Block Kit blocks") },
+    ["channel", "text"],
+  ),
+  slack_update_message: input({ channel: id("Channel id"), ts: id("Timestamp of the message"), text: id("New message text") }, ["channel", "ts", "text"]),
+  slack_delete_message: input({ channel: id("Channel id"), ts: id("Timestamp of the message") }, ["channel", "ts"]),
+  slack_list_users: input({ limit: count(1000, 100, "Number of users") }),
+  slack_get_user_info: input({ user: id("User id (U…)") }, ["user"]),
+  slack_channel_history: input({ channel: id("Channel id"), limit: count(1000, 20, "Number of messages") }, ["channel"]),
+  slack_set_topic: input({ channel: id("Channel id"), topic: id("New topic") }, ["channel", "topic"]),
+  slack_add_reaction: input(
+    { channel: id("Channel id"), timestamp: id("Timestamp of the message"), name: id("Emoji name without colons, e.g. thumbsup") },
+    ["channel", "timestamp", "name"],
+  ),
+
+  // ─── Notion ───
+  notion_search: input({ query: text("Text to search titles for"), filter: dict("Notion search filter, e.g. { property: \"object\", value: \"page\" }"), page_size: count(100, 20, "Number of results") }),
+  notion_get_page: input({ page_id: id("Page id") }, ["page_id"]),
+  notion_get_page_content: input({ block_id: id("Page or block id"), page_size: count(100, 100, "Number of blocks") }, ["block_id"]),
+  notion_create_page: input(
+    { parent: dict("Parent, e.g. { page_id: \"…\" } or { database_id: \"…\" }"), properties: dict("Page properties"), children: list(dict(), "Content blocks") },
+    ["parent"],
+  ),
+  notion_update_page: input({ page_id: id("Page id"), properties: dict("Properties to change"), archived: bool("Archive the page") }, ["page_id"]),
+  notion_query_database: input(
+    {
+      database_id: id("Database id"),
+      filter: dict("Notion database filter"),
+      sorts: list(dict(), "Sort criteria"),
+      page_size: count(100, 100, "Number of rows"),
+      start_cursor: id("Cursor from the previous page"),
+    },
+    ["database_id"],
+  ),
+  notion_get_database: input({ database_id: id("Database id") }, ["database_id"]),
+  notion_list_databases: input({ page_size: count(100, 100, "Number of databases") }),
+  notion_append_blocks: input({ block_id: id("Page or block id"), children: list(dict(), "Content blocks", { minItems: 1 }) }, ["block_id", "children"]),
+  notion_delete_block: input({ block_id: id("Block id") }, ["block_id"]),
+
+  // ─── n8n ───
+  n8n_list_workflows: input({ limit: count(250, 50, "Number of workflows") }),
+  n8n_get_workflow: input({ workflow_id: id("Workflow id") }, ["workflow_id"]),
+  n8n_activate_workflow: input({ workflow_id: id("Workflow id") }, ["workflow_id"]),
+  n8n_deactivate_workflow: input({ workflow_id: id("Workflow id") }, ["workflow_id"]),
+  n8n_list_executions: input({
+    workflow_id: id("Only this workflow's executions"),
+    limit: count(250, 20, "Number of executions"),
+    status: choice(["error", "success", "waiting"], "Only executions with this status"),
+  }),
+  n8n_get_execution: input({ execution_id: id("Execution id") }, ["execution_id"]),
+  n8n_trigger_webhook: input({ webhook_url: text("Webhook URL", { format: "uri" }), payload: dict("JSON body to send") }, ["webhook_url"]),
+  n8n_list_credentials: input(),
+
+  // ─── Telegram ───
+  telegram_get_me: input(),
+  telegram_send_message: input(
+    { chat_id: TELEGRAM_CHAT, text: id("Message text", { maxLength: 4096 }), parse_mode: choice(["Markdown", "MarkdownV2", "HTML"], "How to format the text") },
+    ["chat_id", "text"],
+  ),
+  telegram_get_updates: input({ limit: count(100, 10, "Number of updates"), offset: int("Id of the first update to return", { default: 0 }) }),
+  telegram_get_chat: input({ chat_id: TELEGRAM_CHAT }, ["chat_id"]),
+  telegram_get_chat_members_count: input({ chat_id: TELEGRAM_CHAT }, ["chat_id"]),
+  telegram_set_webhook: input({ url: text("HTTPS URL Telegram posts updates to", { format: "uri" }) }, ["url"]),
+  telegram_delete_webhook: input(),
+
+  // ─── Google Sheets ───
+  sheets_get_spreadsheet: input({ spreadsheet_id: id("Spreadsheet id") }, ["spreadsheet_id"]),
+  sheets_get_values: input({ spreadsheet_id: id("Spreadsheet id"), range: id("A1 range, e.g. Sheet1!A1:C10") }, ["spreadsheet_id", "range"]),
+  sheets_update_values: input(
+    { spreadsheet_id: id("Spreadsheet id"), range: id("A1 range, e.g. Sheet1!A1:C10"), values: SHEET_ROWS, value_input_option: SHEET_INPUT_OPTION },
+    ["spreadsheet_id", "range", "values"],
+  ),
+  sheets_append_values: input(
+    { spreadsheet_id: id("Spreadsheet id"), range: id("A1 range of the table to append to"), values: SHEET_ROWS, value_input_option: SHEET_INPUT_OPTION },
+    ["spreadsheet_id", "range", "values"],
+  ),
+  sheets_clear_values: input({ spreadsheet_id: id("Spreadsheet id"), range: id("A1 range, e.g. Sheet1!A1:C10") }, ["spreadsheet_id", "range"]),
+  sheets_create_spreadsheet: input({ title: id("Spreadsheet title") }, ["title"]),
+
+  // ─── CoinGecko ───
+  coingecko_ping: input(),
+  coingecko_price: input(
+    {
+      ids: id("Comma-separated coin ids, e.g. bitcoin,ethereum"),
+      vs_currencies: id("Comma-separated quote currencies", { default: "usd" }),
+      include_24hr_change: bool("Include the 24h change", { default: true }),
+    },
+    ["ids"],
+  ),
+  coingecko_coin_detail: input({ id: id("Coin id, e.g. bitcoin") }, ["id"]),
+  coingecko_market_chart: input(
+    { id: id("Coin id, e.g. bitcoin"), vs_currency: id("Quote currency", { default: "usd" }), days: int("Days of history", { minimum: 1, maximum: 365, default: 7 }) },
+    ["id"],
+  ),
+  coingecko_trending: input(),
+  coingecko_markets: input({
+    vs_currency: id("Quote currency", { default: "usd" }),
+    order: choice(["market_cap_desc", "market_cap_asc", "volume_desc", "volume_asc", "id_asc", "id_desc"], "Sort order", { default: "market_cap_desc" }),
+    per_page: count(250, 25, "Coins per page"),
+    page: int("Page number", { minimum: 1, default: 1 }),
+  }),
+  coingecko_search: input({ query: id("Coin name or symbol") }, ["query"]),
+
+  // ─── Alpha Vantage ───
+  av_quote: input({ symbol: id("Ticker symbol, e.g. IBM") }, ["symbol"]),
+  av_search: input({ keywords: id("Company name or partial symbol") }, ["keywords"]),
+  av_time_series_daily: input(
+    { symbol: id("Ticker symbol"), outputsize: choice(["compact", "full"], "compact is the last 100 days", { default: "compact" }) },
+    ["symbol"],
+  ),
+  av_time_series_intraday: input(
+    { symbol: id("Ticker symbol"), interval: choice(["1min", "5min", "15min", "30min", "60min"], "Bar interval", { default: "5min" }) },
+    ["symbol"],
+  ),
+  av_forex_rate: input({ from: id("Currency to convert from, e.g. USD"), to: id("Currency to convert to, e.g. EUR") }, ["from", "to"]),
+  av_crypto_rating: input({ symbol: id("Crypto symbol, e.g. BTC") }, ["symbol"]),
+  av_sma: input(
+    {
+      symbol: id("Ticker symbol"),
+      interval: choice(["1min", "5min", "15min", "30min", "60min", "daily", "weekly", "monthly"], "Bar interval", { default: "daily" }),
+      time_period: int("Bars per average", { minimum: 1, default: 20 }),
+      series_type: choice(["close", "open", "high", "low"], "Price to average", { default: "close" }),
+    },
+    ["symbol"],
+  ),
+
+  // ─── CoinMarketCap ───
+  cmc_listings: input({ limit: count(5000, 25, "Number of listings"), convert: id("Quote currency", { default: "USD" }) }),
+  cmc_quotes: withOneOf(
+    input({ id: id("Comma-separated CoinMarketCap ids"), symbol: id("Comma-separated symbols, e.g. BTC,ETH"), convert: id("Quote currency", { default: "USD" }) }),
+    ["id"],
+    ["symbol"],
+  ),
+  cmc_info: withOneOf(input({ id: id("Comma-separated CoinMarketCap ids"), symbol: id("Comma-separated symbols, e.g. BTC,ETH") }), ["id"], ["symbol"]),
+  cmc_map: input({ limit: count(5000, 100, "Number of entries") }),
+  cmc_global_metrics: input({ convert: id("Quote currency", { default: "USD" }) }),
+
+  // ─── DefiLlama ───
+  defi_protocols: input(),
+  defi_protocol_tvl: input({ protocol: id("Protocol slug, e.g. aave") }, ["protocol"]),
+  defi_tvl_chains: input(),
+  defi_global_tvl: input(),
+  defi_yields: input({ limit: count(500, 25, "Number of pools") }),
+  defi_stablecoins: input(),
+
+  // ─── Hugging Face ───
+  hf_inference: input(
+    {
+      model: id("Model id, e.g. gpt2"),
+      inputs: { description: "Model input: text, or the JSON the model expects", anyOf: [{ type: "string" }, { type: "object" }, { type: "array" }] },
+      parameters: dict("Model parameters"),
+    },
+    ["model", "inputs"],
+  ),
+  hf_list_models: input({
+    search: text("Text to search model ids for"),
+    limit: count(100, 10, "Number of models"),
+    sort: choice(["downloads", "likes", "lastModified", "createdAt", "trendingScore"], "Sort field", { default: "downloads" }),
+  }),
+  hf_model_info: input({ model_id: id("Model id, e.g. meta-llama/Llama-3.1-8B") }, ["model_id"]),
+  hf_text_generation: input(
+    {
+      prompt: id("Prompt"),
+      model: id("Model id", { default: "mistralai/Mistral-7B-Instruct-v0.2" }),
+      max_tokens: int("Maximum new tokens", { minimum: 1, maximum: 4096, default: 256 }),
+      temperature: num("Sampling temperature", { minimum: 0, maximum: 2, default: 0.7 }),
+    },
+    ["prompt"],
+  ),
+  hf_text_classification: input(
+    { text: id("Text to classify"), model: id("Model id", { default: "distilbert-base-uncased-finetuned-sst-2-english" }) },
+    ["text"],
+  ),
+
+  // ─── Docker ───
+  docker_list_containers: input({ all: bool("Include stopped containers", { default: false }) }),
+  docker_inspect_container: input({ container_id: id("Container id or name") }, ["container_id"]),
+  docker_start_container: input({ container_id: id("Container id or name") }, ["container_id"]),
+  docker_stop_container: input({ container_id: id("Container id or name") }, ["container_id"]),
+  docker_list_images: input(),
+  docker_list_networks: input(),
+  docker_list_volumes: input(),
+  docker_system_info: input(),
+
+  // ─── PostgreSQL ───
+  pg_query: input({ query: id("Read-only SQL: SELECT, WITH, EXPLAIN or SHOW") }, ["query"]),
+  pg_list_tables: input(),
+  pg_describe_table: input({ table: id("Table name", { pattern: "^[A-Za-z_][A-Za-z0-9_$]*$" }) }, ["table"]),
+  pg_list_schemas: input(),
+  pg_table_sizes: input({ limit: count(100, 20, "Number of tables") }),
+  pg_active_connections: input({ limit: count(100, 20, "Number of connections") }),
+
+  // ─── DigitalOcean ───
+  do_account: input(),
+  do_list_droplets: input({ per_page: count(200, 25, "Droplets per page") }),
+  do_get_droplet: input({ droplet_id: DROPLET_ID }, ["droplet_id"]),
+  do_droplet_action: input(
+    {
+      droplet_id: DROPLET_ID,
+      action_type: choice(["reboot", "power_cycle", "shutdown", "power_off", "power_on", "enable_backups", "disable_backups", "enable_ipv6"], "Action to run"),
+    },
+    ["droplet_id", "action_type"],
+  ),
+  do_list_databases: input(),
+  do_list_domains: input(),
+  do_list_apps: input(),
+  do_list_volumes: input(),
+
+  // ─── X / Twitter ───
+  twitter_user_lookup: input({ username: id("Handle without the @", { pattern: "^[A-Za-z0-9_]{1,15}$" }) }, ["username"]),
+  twitter_user_tweets: input({ user_id: id("Numeric user id", { pattern: "^\\d+$" }), max_results: count(100, 10, "Number of posts") }, ["user_id"]),
+  twitter_search_recent: input({ query: id("Search query (X search operators allowed)", { maxLength: 512 }), max_results: count(100, 10, "Number of posts") }, ["query"]),
+  twitter_get_tweet: input({ tweet_id: id("Post id", { pattern: "^\\d+$" }) }, ["tweet_id"]),
+  twitter_user_followers: input({ user_id: id("Numeric user id", { pattern: "^\\d+$" }), max_results: count(1000, 100, "Number of followers") }, ["user_id"]),
+  twitter_trending: input({ query: id("Topic to search", { default: "trending" }) }),
+
+  // ─── LinkedIn ───
+  linkedin_me: input(),
+  linkedin_create_post: input(
+    {
+      author: id("Author URN, e.g. urn:li:person:…", { pattern: "^urn:li:(person|organization):" }),
+      text: id("Post text", { maxLength: 3000 }),
+      visibility: choice(["PUBLIC", "CONNECTIONS"], "Who can see the post", { default: "PUBLIC" }),
+    },
+    ["author", "text"],
+  ),
+  linkedin_get_connections: input({ start: int("Offset of the first connection", { minimum: 0, default: 0 }), count: count(500, 50, "Number of connections") }),
+  linkedin_company_info: input({ organization_id: id("Organization id") }, ["organization_id"]),
+  linkedin_company_posts: input({ organization_id: id("Organization id"), count: count(100, 10, "Number of posts") }, ["organization_id"]),
+
+  // ─── Twilio ───
+  twilio_send_sms: input(
+    { to: PHONE_NUMBER("Recipient in E.164 form, e.g. +14155550100"), from: PHONE_NUMBER("Your Twilio number in E.164 form"), body: id("Message text", { maxLength: 1600 }) },
+    ["to", "from", "body"],
+  ),
+  twilio_list_messages: input({ limit: count(1000, 20, "Number of messages") }),
+  twilio_get_message: input({ message_sid: id("Message SID (SM…)") }, ["message_sid"]),
+  twilio_list_phone_numbers: input(),
+  twilio_get_phone_number: input({ phone_sid: id("Phone number SID (PN…)") }, ["phone_sid"]),
+  twilio_list_calls: input({ limit: count(1000, 20, "Number of calls") }),
+  twilio_get_account: input(),
+  twilio_lookup_phone: input({ phone_number: PHONE_NUMBER("Number in E.164 form") }, ["phone_number"]),
+
+  // ─── Zapier ───
+  zapier_trigger_webhook: input({ payload: dict("JSON body to send") }),
+  zapier_trigger_with_data: input({ data: dict("Structured data"), metadata: dict("Metadata sent alongside the data") }, ["data"]),
+  zapier_validate_webhook: input({ webhook_url: text("Webhook URL; the stored one by default", { format: "uri" }) }),
+  zapier_trigger_catch_hook: input({ payload: dict("JSON body to send") }),
+  zapier_multi_trigger: input(
+    { webhook_urls: list(text(undefined, { format: "uri" }), "Webhook URLs", { minItems: 1 }), payload: dict("JSON body to send") },
+    ["webhook_urls"],
+  ),
+
+  // ─── Airtable ───
+  airtable_list_bases: input(),
+  airtable_get_base_schema: input({ base_id: AIRTABLE_BASE }, ["base_id"]),
+  airtable_list_records: input(
+    {
+      base_id: AIRTABLE_BASE,
+      table_id_or_name: AIRTABLE_TABLE,
+      max_records: int("Maximum records to return", { minimum: 1 }),
+      view: id("View name or id"),
+      filter_formula: id("Airtable formula records must satisfy, e.g. {Status}='Done'"),
+    },
+    ["base_id", "table_id_or_name"],
+  ),
+  airtable_get_record: input({ base_id: AIRTABLE_BASE, table_id_or_name: AIRTABLE_TABLE, record_id: id("Record id (rec…)") }, ["base_id", "table_id_or_name", "record_id"]),
+  airtable_create_records: input(
+    { base_id: AIRTABLE_BASE, table_id_or_name: AIRTABLE_TABLE, records: list(dict("Field values by field name"), "Records to create", { minItems: 1, maxItems: 10 }) },
+    ["base_id", "table_id_or_name", "records"],
+  ),
+  airtable_update_records: input(
+    {
+      base_id: AIRTABLE_BASE,
+      table_id_or_name: AIRTABLE_TABLE,
+      records: list(
+        {
+          type: "object",
+          properties: { id: id("Record id (rec…)"), fields: dict("Field values to change") },
+          required: ["id", "fields"],
+          additionalProperties: false,
+        },
+        "Records to update",
+        { minItems: 1, maxItems: 10 },
+      ),
+    },
+    ["base_id", "table_id_or_name", "records"],
+  ),
+  airtable_delete_records: input(
+    { base_id: AIRTABLE_BASE, table_id_or_name: AIRTABLE_TABLE, record_ids: list(id("Record id (rec…)"), "Records to delete", { minItems: 1, maxItems: 10 }) },
+    ["base_id", "table_id_or_name", "record_ids"],
+  ),
+  airtable_create_table: input(
+    {
+      base_id: AIRTABLE_BASE,
+      name: id("Table name"),
+      description: text("Table description"),
+      fields: list(
+        { type: "object", properties: { name: id("Field name"), type: id("Field type, e.g. singleLineText") }, required: ["name", "type"] },
+        "Fields; the first is the primary field",
+        { minItems: 1 },
+      ),
+    },
+    ["base_id", "name", "fields"],
+  ),
+
+  // ─── Jira ───
+  jira_list_projects: input(),
+  jira_get_project: input({ project_key: JIRA_PROJECT }, ["project_key"]),
+  jira_search_issues: withOneOf(
+    input({ jql: id("JQL query"), project_key: JIRA_PROJECT, max_results: count(100, 20, "Number of issues") }),
+    ["jql"],
+    ["project_key"],
+  ),
+  jira_get_issue: input({ issue_key: JIRA_ISSUE }, ["issue_key"]),
+  jira_create_issue: input(
+    {
+      project_key: JIRA_PROJECT,
+      summary: id("Summary", { maxLength: 255 }),
+      issue_type: id("Issue type, e.g. Task, Bug or Story", { default: "Task" }),
+      description: text("Description (plain text)"),
+      assignee: id("Assignee account id"),
+      priority: id("Priority name, e.g. High"),
+      labels: list(id(), "Labels"),
+    },
+    ["project_key", "summary"],
+  ),
+  jira_update_issue: input({ issue_key: JIRA_ISSUE, fields: dict("Fields to change, in Jira's REST format") }, ["issue_key", "fields"]),
+  jira_transition_issue: input({ issue_key: JIRA_ISSUE, transition_id: id("Transition id, from jira_get_transitions") }, ["issue_key", "transition_id"]),
+  jira_get_transitions: input({ issue_key: JIRA_ISSUE }, ["issue_key"]),
+  jira_add_comment: input({ issue_key: JIRA_ISSUE, body: id("Comment text") }, ["issue_key", "body"]),
+  jira_list_sprints: input(
+    { board_id: id("Board id"), state: choice(["active", "future", "closed"], "Sprint state", { default: "active" }) },
+    ["board_id"],
+  ),
+  jira_get_sprint_issues: input({ sprint_id: id("Sprint id"), max_results: count(100, 50, "Number of issues") }, ["sprint_id"]),
+  jira_assign_issue: input({ issue_key: JIRA_ISSUE, account_id: id("Assignee account id") }, ["issue_key", "account_id"]),
+
+  // ─── Salesforce ───
+  sf_query: input({ soql: id("SOQL query, e.g. SELECT Id, Name FROM Account LIMIT 10") }, ["soql"]),
+  sf_get_record: input({ object_type: SF_OBJECT, record_id: SF_RECORD }, ["object_type", "record_id"]),
+  sf_create_record: input({ object_type: SF_OBJECT, fields: dict("Field values by API name") }, ["object_type", "fields"]),
+  sf_update_record: input({ object_type: SF_OBJECT, record_id: SF_RECORD, fields: dict("Field values to change") }, ["object_type", "record_id", "fields"]),
+  sf_delete_record: input({ object_type: SF_OBJECT, record_id: SF_RECORD }, ["object_type", "record_id"]),
+  sf_describe_object: input({ object_type: SF_OBJECT }, ["object_type"]),
+  sf_list_objects: input(),
+  sf_search: input({ sosl: id("SOSL search, e.g. FIND {Acme} IN NAME FIELDS") }, ["sosl"]),
+  sf_list_leads: input({ limit: count(2000, 20, "Number of leads") }),
+  sf_list_contacts: input({ limit: count(2000, 20, "Number of contacts") }),
+  sf_list_opportunities: input({ limit: count(2000, 20, "Number of opportunities") }),
+
+  // ─── HubSpot ───
+  hubspot_list_contacts: input({ limit: count(100, 20, "Number of contacts") }),
+  hubspot_get_contact: input({ contact_id: id("Contact id") }, ["contact_id"]),
+  hubspot_create_contact: input({ properties: dict("Contact properties, e.g. { email, firstname, lastname }") }, ["properties"]),
+  hubspot_update_contact: input({ contact_id: id("Contact id"), properties: dict("Properties to change") }, ["contact_id", "properties"]),
+  hubspot_list_deals: input({ limit: count(100, 20, "Number of deals") }),
+  hubspot_get_deal: input({ deal_id: id("Deal id") }, ["deal_id"]),
+  hubspot_create_deal: input({ properties: dict("Deal properties, e.g. { dealname, amount, dealstage }") }, ["properties"]),
+  hubspot_update_deal: input({ deal_id: id("Deal id"), properties: dict("Properties to change") }, ["deal_id", "properties"]),
+  hubspot_list_companies: input({ limit: count(100, 20, "Number of companies") }),
+  hubspot_create_company: input({ properties: dict("Company properties, e.g. { name, domain }") }, ["properties"]),
+  hubspot_list_pipelines: input({ object_type: choice(["deals", "tickets"], "Pipelines of this object type", { default: "deals" }) }),
+  hubspot_search: input({
+    object_type: choice(["contacts", "companies", "deals", "tickets"], "Object type to search", { default: "contacts" }),
+    query: text("Text to search for"),
+    limit: count(100, 20, "Number of results"),
+    properties: list(id(), "Properties to return"),
+  }),
+  hubspot_list_owners: input({ limit: count(500, 100, "Number of owners") }),
+
+  // ─── Monday.com ───
+  monday_list_boards: input({ limit: count(500, 20, "Number of boards") }),
+  monday_get_board: input({ board_id: MONDAY_ID("Board id") }, ["board_id"]),
+  monday_list_items: input({ board_id: MONDAY_ID("Board id"), limit: count(500, 25, "Number of items") }, ["board_id"]),
+  monday_get_item: input({ item_id: MONDAY_ID("Item id") }, ["item_id"]),
+  monday_create_item: input(
+    { board_id: MONDAY_ID("Board id"), item_name: id("Item name"), group_id: id("Group id; the board's top group by default"), column_values: dict("Column values by column id") },
+    ["board_id", "item_name"],
+  ),
+  monday_update_item: input(
+    { board_id: MONDAY_ID("Board id"), item_id: MONDAY_ID("Item id"), column_values: dict("Column values by column id") },
+    ["board_id", "item_id", "column_values"],
+  ),
+  monday_delete_item: input({ item_id: MONDAY_ID("Item id") }, ["item_id"]),
+  monday_add_update: input({ item_id: MONDAY_ID("Item id"), body: id("Update text (HTML allowed)") }, ["item_id", "body"]),
+  monday_list_groups: input({ board_id: MONDAY_ID("Board id") }, ["board_id"]),
+  monday_create_group: input({ board_id: MONDAY_ID("Board id"), group_name: id("Group name") }, ["board_id", "group_name"]),
+
+  // ─── Asana ───
+  asana_list_workspaces: input(),
+  asana_list_projects: input({ workspace_gid: ASANA_GID("Workspace gid"), limit: count(100, 20, "Number of projects") }),
+  asana_get_project: input({ project_gid: ASANA_GID("Project gid") }, ["project_gid"]),
+  asana_list_tasks: withOneOf(
+    input({
+      project_gid: ASANA_GID("Project gid"),
+      assignee: id("Assignee gid, email or \"me\"; needs workspace_gid"),
+      workspace_gid: ASANA_GID("Workspace gid"),
+      limit: count(100, 25, "Number of tasks"),
+    }),
+    ["project_gid"],
+    ["assignee", "workspace_gid"],
+  ),
+  asana_get_task: input({ task_gid: ASANA_GID("Task gid") }, ["task_gid"]),
+  asana_create_task: input(
+    {
+      name: id("Task name"),
+      projects: list(ASANA_GID("Project gid"), "Projects to add the task to"),
+      assignee: id("Assignee gid, email or \"me\""),
+      due_on: text("Due date", { format: "date" }),
+      notes: text("Description"),
+      workspace_gid: ASANA_GID("Workspace gid, when no project is given"),
+    },
+    ["name"],
+  ),
+  asana_update_task: input({ task_gid: ASANA_GID("Task gid"), fields: dict("Fields to change, e.g. { completed: true }") }, ["task_gid", "fields"]),
+  asana_delete_task: input({ task_gid: ASANA_GID("Task gid") }, ["task_gid"]),
+  asana_add_comment: input({ task_gid: ASANA_GID("Task gid"), text: id("Comment text") }, ["task_gid", "text"]),
+  asana_list_sections: input({ project_gid: ASANA_GID("Project gid") }, ["project_gid"]),
+  asana_search_tasks: input(
+    { workspace_gid: ASANA_GID("Workspace gid"), text: text("Text to search for"), completed: bool("Only completed, or only open, tasks") },
+    ["workspace_gid"],
+  ),
+
+  // ─── Discord ───
+  discord_get_me: input(),
+  discord_list_guilds: input(),
+  discord_get_guild: input({ guild_id: SNOWFLAKE("Server id") }, ["guild_id"]),
+  discord_list_channels: input({ guild_id: SNOWFLAKE("Server id") }, ["guild_id"]),
+  discord_get_channel: input({ channel_id: SNOWFLAKE("Channel id") }, ["channel_id"]),
+  discord_create_channel: input(
+    {
+      guild_id: SNOWFLAKE("Server id"),
+      name: id("Channel name", { maxLength: 100 }),
+      type: int("0 text, 2 voice, 4 category, 5 announcement, 13 stage, 15 forum", { enum: [0, 2, 4, 5, 13, 15], default: 0 }),
+      topic: text("Channel topic", { maxLength: 1024 }),
+      parent_id: SNOWFLAKE("Category to create it in"),
+    },
+    ["guild_id", "name"],
+  ),
+  discord_delete_channel: input({ channel_id: SNOWFLAKE("Channel id") }, ["channel_id"]),
+  discord_send_message: input(
+    { channel_id: SNOWFLAKE("Channel id"), content: id("Message text", { maxLength: 2000 }), embeds: list(dict(), "Embeds", { maxItems: 10 }) },
+    ["channel_id", "content"],
+  ),
+  discord_get_messages: input({ channel_id: SNOWFLAKE("Channel id"), limit: count(100, 50, "Number of messages") }, ["channel_id"]),
+  discord_edit_message: input(
+    { channel_id: SNOWFLAKE("Channel id"), message_id: SNOWFLAKE("Message id"), content: id("New message text", { maxLength: 2000 }) },
+    ["channel_id", "message_id", "content"],
+  ),
+  discord_delete_message: input({ channel_id: SNOWFLAKE("Channel id"), message_id: SNOWFLAKE("Message id") }, ["channel_id", "message_id"]),
+  discord_add_reaction: input(
+    { channel_id: SNOWFLAKE("Channel id"), message_id: SNOWFLAKE("Message id"), emoji: id("Unicode emoji, or name:id for a custom one") },
+    ["channel_id", "message_id", "emoji"],
+  ),
+  discord_list_members: input({ guild_id: SNOWFLAKE("Server id"), limit: count(1000, 100, "Number of members") }, ["guild_id"]),
+  discord_get_member: input({ guild_id: SNOWFLAKE("Server id"), user_id: SNOWFLAKE("User id") }, ["guild_id", "user_id"]),
+
+  // ─── Trello ───
+  trello_list_boards: input(),
+  trello_get_board: input({ board_id: id("Board id") }, ["board_id"]),
+  trello_list_lists: input({ board_id: id("Board id") }, ["board_id"]),
+  trello_create_list: input({ board_id: id("Board id"), name: id("List name"), pos: TRELLO_POS }, ["board_id", "name"]),
+  trello_list_cards: input({ list_id: id("List id") }, ["list_id"]),
+  trello_get_card: input({ card_id: id("Card id") }, ["card_id"]),
+  trello_create_card: input(
+    { list_id: id("List id"), name: id("Card name"), desc: text("Description"), due: text("Due date", { format: "date-time" }), pos: TRELLO_POS },
+    ["list_id", "name"],
+  ),
+  trello_update_card: input({ card_id: id("Card id"), fields: dict("Fields to change, e.g. { closed: true }") }, ["card_id", "fields"]),
+  trello_delete_card: input({ card_id: id("Card id") }, ["card_id"]),
+  trello_move_card: input({ card_id: id("Card id"), list_id: id("Destination list id"), pos: TRELLO_POS }, ["card_id", "list_id"]),
+  trello_add_comment: input({ card_id: id("Card id"), text: id("Comment text") }, ["card_id", "text"]),
+  trello_list_members: input({ board_id: id("Board id") }, ["board_id"]),
+  trello_list_labels: input({ board_id: id("Board id") }, ["board_id"]),
+
+  // ─── SendGrid ───
+  sendgrid_send_email: withOneOf(
+    input(
+      {
+        to: { description: "Recipient email, or a list of them", anyOf: [EMAIL, list(EMAIL, undefined, { minItems: 1, maxItems: 1000 })] },
+        from: {
+          description: "Verified sender email, or { email, name }",
+          anyOf: [EMAIL, { type: "object", properties: { email: EMAIL, name: text() }, required: ["email"], additionalProperties: false }],
+        },
+        subject: id("Subject line"),
+        text: text("Plain-text body"),
+        html: text("HTML body"),
+        template_id: id("Dynamic template id (d-…)"),
+        dynamic_template_data: dict("Values for the template's handlebars fields"),
+      },
+      ["to", "from", "subject"],
+    ),
+    ["text"],
+    ["html"],
+    ["template_id"],
+  ),
+  sendgrid_list_contacts: input({ page_size: count(1000, 50, "Contacts per page") }),
+  sendgrid_search_contacts: input({ query: id("SGQL query, e.g. email LIKE 'ann%'") }, ["query"]),
+  sendgrid_add_contacts: input(
+    {
+      contacts: list({ type: "object", properties: { email: EMAIL }, required: ["email"] }, "Contacts; each needs an email", { minItems: 1, maxItems: 30000 }),
+      list_ids: list(id("List id"), "Lists to add the contacts to"),
+    },
+    ["contacts"],
+  ),
+  sendgrid_delete_contacts: input({ ids: list(id("Contact id"), "Contacts to delete", { minItems: 1, maxItems: 100 }) }, ["ids"]),
+  sendgrid_list_lists: input({ page_size: count(1000, 50, "Lists per page") }),
+  sendgrid_create_list: input({ name: id("List name") }, ["name"]),
+  sendgrid_delete_list: input({ list_id: id("List id") }, ["list_id"]),
+  sendgrid_list_templates: input({
+    generations: choice(["legacy", "dynamic", "legacy,dynamic"], "Template generations", { default: "dynamic" }),
+    page_size: count(200, 50, "Templates per page"),
+  }),
+  sendgrid_get_template: input({ template_id: id("Template id") }, ["template_id"]),
+  sendgrid_get_stats: input(
+    { start_date: text("First day, YYYY-MM-DD", { format: "date" }), end_date: text("Last day, YYYY-MM-DD; today by default", { format: "date" }) },
+    ["start_date"],
+  ),
+  sendgrid_list_senders: input(),
+
+  // ─── Moralis ───
+  "moralis.getWalletTokenBalances": input({ address: evmAddress("Wallet address"), chain: MORALIS_CHAIN }, ["address", "chain"]),
+  "moralis.getWalletNFTs": input(
+    { address: evmAddress("Wallet address"), chain: MORALIS_CHAIN, limit: count(100, 50, "NFTs per page"), cursor: id("Cursor from the previous page") },
+    ["address", "chain"],
+  ),
+  "moralis.getWalletTokenTransfers": input(
+    { address: evmAddress("Wallet address"), chain: MORALIS_CHAIN, limit: count(100, 50, "Transfers per page"), cursor: id("Cursor from the previous page") },
+    ["address", "chain"],
+  ),
+  "moralis.getTokenPrice": input({ address: evmAddress("ERC-20 contract address"), chain: MORALIS_CHAIN }, ["address", "chain"]),
+  "moralis.getNFTMetadata": input(
+    { address: evmAddress("NFT contract address"), token_id: id("Token id", { pattern: "^\\d+$" }), chain: MORALIS_CHAIN },
+    ["address", "token_id", "chain"],
+  ),
+  "moralis.getContractEvents": input(
+    { address: evmAddress("Contract address"), chain: MORALIS_CHAIN, topic: evmHash("Event topic0 (keccak of the signature)"), limit: count(100, 50, "Events per page") },
+    ["address", "chain", "topic"],
+  ),
+  "moralis.getWalletHistory": input(
+    { address: evmAddress("Wallet address"), chain: MORALIS_CHAIN, limit: count(100, 25, "Transactions per page"), cursor: id("Cursor from the previous page") },
+    ["address", "chain"],
+  ),
+  "moralis.resolveENS": input({ address: evmAddress("Address to find the ENS name of") }, ["address"]),
+  "moralis.resolveAddress": input({ address: evmAddress("Address to find the ENS name of") }, ["address"]),
+
+  // ─── Helius ───
+  "helius.getParsedTransaction": input({ signature: SOLANA_SIGNATURE }, ["signature"]),
+  "helius.getAccountState": input({ pubkey: solanaAddress("Account address") }, ["pubkey"]),
+  "helius.getProgramAccounts": input(
+    { programId: solanaAddress("Program id"), filters: list(dict(), "getProgramAccounts filters, e.g. { dataSize: 165 }") },
+    ["programId"],
+  ),
+  "helius.getNFTMetadata": input({ mint: solanaAddress("Mint address") }, ["mint"]),
+  "helius.streamWalletActivity": input(
+    { wallet: solanaAddress("Wallet address"), type: id("Transaction type, e.g. SWAP or NFT_SALE", { pattern: "^[A-Z_]+$" }), cursor: { ...SOLANA_SIGNATURE, description: "Signature to page back from" } },
+    ["wallet"],
+  ),
+  "helius.getBalance": input({ pubkey: solanaAddress("Account address") }, ["pubkey"]),
+  "helius.getTokenAccounts": input({ owner: solanaAddress("Owner address") }, ["owner"]),
+
+  // ─── EVM RPC ───
+  evm_block_number: input(),
+  evm_get_balance: input({ address: evmAddress("Account address"), block: BLOCK_TAG }, ["address"]),
+  evm_call: input(
+    { to: evmAddress("Contract address"), data: HEX_DATA("ABI-encoded calldata"), from: evmAddress("Caller address"), block: BLOCK_TAG },
+    ["to", "data"],
+  ),
+  evm_get_logs: input({
+    address: evmAddress("Contract address"),
+    topics: list({ anyOf: [evmHash("Topic"), { type: "null" }] }, "Topic filters by position; null matches anything", { maxItems: 4 }),
+    fromBlock: BLOCK_TAG,
+    toBlock: BLOCK_TAG,
+  }),
+  evm_get_code: input({ address: evmAddress("Contract address"), block: BLOCK_TAG }, ["address"]),
+  evm_estimate_gas: input({ ...TX_FIELDS }, ["to"]),
+  evm_get_transaction: input({ hash: evmHash() }, ["hash"]),
+  evm_get_transaction_receipt: input({ hash: evmHash() }, ["hash"]),
+  evm_get_block: input({ block: BLOCK_TAG, full_transactions: bool("Include full transactions, not just hashes", { default: false }) }),
+  evm_chain_id: input(),
+  evm_gas_price: input(),
+
+  // ─── Contract intelligence ───
+  contract_get_abi: input({ address: evmAddress("Verified contract address") }, ["address"]),
+  contract_get_source: input({ address: evmAddress("Verified contract address") }, ["address"]),
+  contract_verified_status: input({ address: evmAddress("Contract address") }, ["address"]),
+  contract_decode_calldata: input({ data: HEX_DATA("Calldata to decode"), abi: list(dict(), "Contract ABI") }, ["data"]),
+  contract_get_creation_tx: input({ address: evmAddress("Contract address") }, ["address"]),
+  contract_get_events: input(
+    {
+      address: evmAddress("Contract address"),
+      fromBlock: text("First block number", { pattern: "^\\d+$", default: "0" }),
+      toBlock: text("Last block number, or latest", { pattern: "^(\\d+|latest)$", default: "latest" }),
+      topic0: evmHash("Event topic0 (keccak of the signature)"),
+    },
+    ["address"],
+  ),
+  contract_get_transactions: input(
+    { address: evmAddress("Contract address"), page: int("Page number", { minimum: 1, default: 1 }), offset: count(10000, 20, "Transactions per page") },
+    ["address"],
+  ),
+
+  // ─── Solana ───
+  solana_get_balance: input({ address: solanaAddress("Account address") }, ["address"]),
+  solana_get_account_info: input(
+    { address: solanaAddress("Account address"), encoding: choice(["jsonParsed", "base64", "base58", "base64+zstd"], "Data encoding", { default: "jsonParsed" }) },
+    ["address"],
+  ),
+  solana_get_transaction: input({ signature: SOLANA_SIGNATURE }, ["signature"]),
+  solana_get_signatures: input({ address: solanaAddress("Account address"), limit: count(1000, 10, "Number of signatures") }, ["address"]),
+  solana_get_token_accounts: input(
+    { address: solanaAddress("Owner address"), program_id: solanaAddress("Token program; SPL Token by default") },
+    ["address"],
+  ),
+  solana_get_program_accounts: input(
+    { program_id: solanaAddress("Program id"), limit: count(1000, 10, "Number of accounts"), filters: list(dict(), "getProgramAccounts filters, e.g. { dataSize: 165 }") },
+    ["program_id"],
+  ),
+  solana_get_slot: input(),
+  solana_get_block_height: input(),
+  solana_get_recent_blockhash: input(),
+  solana_get_supply: input(),
+  solana_get_epoch_info: input(),
+  solana_get_nft_metadata: input({ mint: solanaAddress("Mint address") }, ["mint"]),
+
+  // ─── Transaction simulator ───
+  sim_eth_call: input({ ...TX_FIELDS, gas: HEX_DATA("Gas limit (hex)"), block: BLOCK_TAG }, ["to"]),
+  sim_estimate_gas: input({ ...TX_FIELDS }, ["to"]),
+  sim_trace_call: input({ ...TX_FIELDS, block: BLOCK_TAG }, ["to"]),
+  sim_tenderly_simulate: input(
+    {
+      from: evmAddress("Sender address"),
+      to: evmAddress("Recipient or contract address"),
+      data: HEX_DATA("Calldata"),
+      value: text("Value in wei", { default: "0" }),
+      chain_id: { description: "Chain id", anyOf: [{ type: "integer", minimum: 1 }, { type: "string", pattern: "^\\d+$" }], default: "1" },
+      gas: { description: "Gas limit", anyOf: [{ type: "integer", minimum: 1 }, { type: "string", pattern: "^(\\d+|0x[0-9a-fA-F]+)$" }] },
+      save: bool("Save the simulation in Tenderly", { default: false }),
+    },
+    ["from", "to"],
+  ),
+  sim_compare_gas: input(
+    { calls: list({ type: "object", properties: TX_FIELDS, required: ["to"], additionalProperties: false }, "Calls to estimate", { minItems: 1, maxItems: 20 }) },
+    ["calls"],
+  ),
+  sim_decode_revert: input({ ...TX_FIELDS }, ["to"]),
+
+  // ─── Wallet (runs in the browser) ───
+  wallet_get_address: input(),
+  wallet_send_transaction: input(
+    { to: evmAddress("Recipient or contract address"), data: HEX_DATA("Calldata"), value: HEX_DATA("Value in wei (hex)"), gas: HEX_DATA("Gas limit (hex)") },
+    ["to"],
+  ),
+  wallet_sign_message: input({ message: id("Message to sign") }, ["message"]),
+
+  // ─── Firecrawl ───
+  firecrawl_scrape: input(
+    {
+      url: text("Page URL", { format: "uri" }),
+      formats: list(choice(["markdown", "html", "rawHtml", "links", "screenshot"]), "Formats to return", { minItems: 1, default: ["markdown"] }),
+      only_main_content: bool("Drop headers, footers and navigation", { default: true }),
+    },
+    ["url"],
+  ),
+  firecrawl_search: input({ query: id("Search query"), limit: count(100, 10, "Number of results") }, ["query"]),
+  firecrawl_map: input({ url: text("Site URL", { format: "uri" }), limit: count(5000, 100, "Number of URLs") }, ["url"]),
+  firecrawl_crawl: input({ url: text("Site URL to start from", { format: "uri" }), limit: count(1000, 50, "Number of pages") }, ["url"]),
+
+  // ─── Perplexity ───
+  perplexity_search: input(
+    {
+      query: id("Question"),
+      model: choice(["sonar", "sonar-pro", "sonar-reasoning", "sonar-reasoning-pro"], "Model", { default: "sonar" }),
+      recency: choice(["hour", "day", "week", "month", "year"], "Only sources from this period"),
+    },
+    ["query"],
+  ),
+  perplexity_research: input({ query: id("Research question") }, ["query"]),
+  perplexity_reason: input({ query: id("Problem to reason through") }, ["query"]),
+
+  // ─── OpenClaw ───
+  openclaw_status: input(),
+  openclaw_get_config: input(),
+  openclaw_list_skills: input(),
+  openclaw_install_skill: input({ skill_name: id("Skill name") }, ["skill_name"]),
+  openclaw_uninstall_skill: input({ skill_name: id("Skill name") }, ["skill_name"]),
+  openclaw_send_message: input({ message: id("Message"), channel: id("Channel to send on"), thread_id: id("Thread to reply in") }, ["message"]),
+  openclaw_get_conversations: input({ limit: count(100, 20, "Number of conversations") }),
+  openclaw_get_conversation: input({ conversation_id: id("Conversation id") }, ["conversation_id"]),
+  openclaw_run_task: input({ goal: id("What the task should achieve"), max_steps: int("Step budget", { minimum: 1 }) }, ["goal"]),
+  openclaw_list_tasks: input({ limit: count(100, 20, "Number of tasks"), status: id("Only tasks with this status, e.g. running") }),
+  openclaw_get_task: input({ task_id: id("Task id") }, ["task_id"]),
+  openclaw_cancel_task: input({ task_id: id("Task id") }, ["task_id"]),
+  openclaw_search_memory: input({ query: id("Search query"), limit: count(100, 10, "Number of memories") }, ["query"]),
+  openclaw_add_memory: input({ content: id("What to remember"), metadata: dict("Metadata stored with it") }, ["content"]),
+  openclaw_list_channels: input(),
+  openclaw_get_channel: input({ channel_id: id("Channel id") }, ["channel_id"]),
+  openclaw_mcp_invoke: input({ mcp_tool: id("Skill tool name"), mcp_input: dict("The tool's input") }, ["mcp_tool"]),
+} satisfies Record<string, JsonSchema>;
+
+// ─── Lookup ───
+
+/** A built-in tool's input schema; undefined for tools that aren't built in */
+export function toolInputSchema(tool: string): JsonSchema | undefined {
+  return Object.prototype.hasOwnProperty.call(TOOL_INPUT_SCHEMAS, tool)
+    ? (TOOL_INPUT_SCHEMAS as Record<string, JsonSchema>)[tool]
+    : undefined;
+}
+
+/**
+ * Check a built-in tool call before dispatch: the error body to return when
+ * the input is invalid, null when it's valid. Tools without a schema pass, and
+ * their server answers for them. A missing input counts as an empty object.
+ */
+export function checkToolInput(tool: string, input: unknown): ToolInputErrorBody | null {
+  const schema = toolInputSchema(tool);
+  if (!schema) return null;
+  const issues = validateSchema(schema, input ?? {});
+  return issues.length > 0 ? new ToolInputError(tool, issues).toJSON() : null;
+}
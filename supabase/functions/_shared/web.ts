@@ -0,0 +1,396 @@
+/**
+ * web_fetch / web_search helpers shared by the API route and edge functions:
+ * domain policy, HTML → markdown, size-capped fetching, search providers
+ * and a small TTL cache.
+ *
+ * Keep this file free of imports and runtime-specific globals so it loads
+ * unchanged under Vite, Node (type stripping) and Deno. Callers pass in
+ * their own `fetch`.
+ */
+
+// ─── Types ───
+
+export interface WebDomainPolicy {
+  /** Hosts fetched without asking; an entry also covers its subdomains */
+  allowedDomains: string[];
+  /** Hosts never fetched; wins over allowedDomains */
+  deniedDomains: string[];
+}
+
+export type WebDomainDecision = "allow" | "deny" | "ask";
+
+export interface WebFetchOptions {
+  fetch: typeof fetch;
+  policy?: WebDomainPolicy;
+  /** Stop reading the body after this many bytes */
+  maxBytes?: number;
+  /** Truncate the markdown to this many characters */
+  maxChars?: number;
+  maxRedirects?: number;
+  signal?: AbortSignal;
+  /**
+   * Every address a host name resolves to. When given, each hop is refused
+   * if any of them is private, so a public name can't point inside.
+   */
+  resolveHost?: (host: string) => Promise<string[]>;
+}
+
+export interface WebFetchResult {
+  url: string;
+  status: number;
+  contentType: string;
+  title: string;
+  markdown: string;
+  truncated: boolean;
+}
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+export interface WebSearchProvider {
+  name: string;
+  search(query: string, limit: number): Promise<WebSearchResult[]>;
+}
+
+export const WEB_FETCH_MAX_BYTES = 2 * 1024 * 1024;
+export const WEB_FETCH_MAX_CHARS = 40_000;
+export const WEB_SEARCH_MAX_RESULTS = 10;
+
+// ─── Domain Policy ───
+
+function normalizeHost(host: string): string {
+  return host.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+}
+
+/** `example.com` matches itself and any subdomain; `*.example.com` only subdomains. */
+export function matchesDomain(host: string, pattern: string): boolean {
+  const h = normalizeHost(host);
+  const p = normalizeHost(pattern.trim());
+  if (!p) return false;
+  if (p.startsWith("*.")) return h.endsWith(p.slice(1));
+  return h === p || h.endsWith(`.${p}`);
+}
+
+function isPrivateIPv4(host: string): boolean {
+  const m = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (!m) return false;
+  const [a, b] = [Number(m[1]), Number(m[2])];
+  return a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    // Multicast, reserved and broadcast
+    a >= 224;
+}
+
+/** The eight 16-bit groups of an IPv6 address, or null when it isn't one */
+function ipv6Groups(host: string): number[] | null {
+  let text = host.replace(/%.*$/, "");
+  const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const octets = dotted.slice(2).map(Number);
+    if (octets.some((o) => o > 255)) return null;
+    text = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const parse = (part: string) => (part ? part.split(":") : []);
+  const head = parse(halves[0]);
+  const tail = halves.length === 2 ? parse(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every((g) => /^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.map((g) => parseInt(g, 16));
+}
+
+function embeddedIPv4(high: number, low: number): string {
+  return `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+}
+
+function isPrivateIPv6(host: string): boolean {
+  const g = ipv6Groups(host);
+  if (!g) return false;
+  const zeros = (from: number, to: number) => g.slice(from, to).every((x) => x === 0);
+  // Unspecified, loopback and the IPv4-compatible (::a.b.c.d) and IPv4-mapped (::ffff:a.b.c.d) forms
+  if (zeros(0, 6)) return g[6] === 0 && g[7] <= 1 ? true : isPrivateIPv4(embeddedIPv4(g[6], g[7]));
+  if (zeros(0, 5) && g[5] === 0xffff) return isPrivateIPv4(embeddedIPv4(g[6], g[7]));
+  // NAT64 (64:ff9b::/96) and 6to4 (2002::/16) carry an IPv4 address too
+  if (g[0] === 0x64 && g[1] === 0xff9b && zeros(2, 6)) return isPrivateIPv4(embeddedIPv4(g[6], g[7]));
+  if (g[0] === 0x2002) return isPrivateIPv4(embeddedIPv4(g[1], g[2]));
+  // Unique local, link-local and site-local, multicast
+  return (g[0] & 0xfe00) === 0xfc00 || (g[0] & 0xffc0) === 0xfe80 || (g[0] & 0xffc0) === 0xfec0 || (g[0] & 0xff00) === 0xff00;
+}
+
+/**
+ * Loopback, link-local, private and internal-looking hosts. Checked by name
+ * only, so the server must not follow redirects without re-checking, and
+ * should check what a name resolves to as well (see `resolveHost`).
+ */
+export function isPrivateHost(host: string): boolean {
+  const h = normalizeHost(host);
+  if (h === "localhost" || /\.(localhost|local|internal)$/.test(h)) return true;
+  if (isPrivateIPv4(h)) return true;
+  return h.includes(":") && isPrivateIPv6(h);
+}
+
+export function domainDecision(url: string, policy?: WebDomainPolicy): WebDomainDecision {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "deny";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return "deny";
+  if (isPrivateHost(parsed.hostname)) return "deny";
+  if (policy?.deniedDomains.some((d) => matchesDomain(parsed.hostname, d))) return "deny";
+  if (policy?.allowedDomains.some((d) => matchesDomain(parsed.hostname, d))) return "allow";
+  return "ask";
+}
+
+// ─── HTML → Markdown ───
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+  mdash: "—", ndash: "–", hellip: "…", copy: "©", reg: "®", trade: "™",
+  laquo: "«", raquo: "»", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : whole;
+    }
+    return ENTITIES[name.toLowerCase()] ?? whole;
+  });
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, "");
+}
+
+function attr(tag: string, name: string): string {
+  const m = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return m ? decodeEntities(m[2] ?? m[3] ?? m[4] ?? "") : "";
+}
+
+function resolveUrl(href: string, baseUrl?: string): string {
+  if (!baseUrl) return href;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Regex-based conversion good enough for reading docs and articles: keeps
+ * headings, links, lists, code and emphasis, and drops scripts, styles and
+ * page chrome. Prefers `<main>` / `<article>` when the page has one.
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): { title: string; markdown: string } {
+  const title = decodeEntities(stripTags(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? "")).trim();
+
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|svg|template|iframe|head|title|nav|footer|form)\b[\s\S]*?<\/\1>/gi, "");
+  const main = body.match(/<(main|article)\b[^>]*>([\s\S]*?)<\/\1>/i);
+  if (main) body = main[2];
+
+  // Preformatted blocks are set aside so whitespace collapsing leaves them alone
+  const blocks: string[] = [];
+  const keep = (text: string) => `\uE000${blocks.push(text) - 1}\uE000`;
+  body = body.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, inner: string) => {
+    const lang = inner.match(/<code\b[^>]*class\s*=\s*["'][^"']*language-([\w+-]+)/i)?.[1] ?? "";
+    const code = decodeEntities(stripTags(inner)).replace(/\n+$/, "");
+    return `\n\n${keep("```" + lang + "\n" + code + "\n```")}\n\n`;
+  });
+  body = body.replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_, inner: string) =>
+    keep("`" + decodeEntities(stripTags(inner)).replace(/\s+/g, " ") + "`"));
+
+  body = body
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+      `\n\n${"#".repeat(Number(level))} ${stripTags(inner).replace(/\s+/g, " ").trim()}\n\n`)
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi, (_, attrs: string, inner: string) => {
+      const href = attr(` ${attrs}`, "href");
+      const text = inner.replace(/\s+/g, " ").trim();
+      if (!href || href.startsWith("#") || href.startsWith("javascript:")) return text;
+      return `[${text || href}](${resolveUrl(href, baseUrl)})`;
+    })
+    .replace(/<img\b[^>]*>/gi, (tag) => {
+      const src = attr(tag, "src");
+      return src ? `![${attr(tag, "alt")}](${resolveUrl(src, baseUrl)})` : "";
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, "**$2**")
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, "_$2_")
+    .replace(/<blockquote\b[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, inner: string) =>
+      `\n\n${stripTags(inner).trim().split(/\n+/).map((l) => `> ${l.trim()}`).join("\n")}\n\n`)
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<hr\b[^>]*>/gi, "\n\n---\n\n")
+    .replace(/<\/t[dh]>/gi, " | ")
+    .replace(/<\/?(p|div|section|header|ul|ol|table|tr|dl|dt|dd|figure|figcaption)\b[^>]*>/gi, "\n\n");
+
+  const markdown = decodeEntities(stripTags(body))
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/\uE000(\d+)\uE000/g, (_, i: string) => blocks[Number(i)])
+    .trim();
+
+  return { title, markdown };
+}
+
+// ─── Fetching ───
+
+async function readCapped(response: Response, maxBytes: number): Promise<{ text: string; truncated: boolean }> {
+  if (!response.body) return { text: "", truncated: false };
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (size + value.byteLength > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  const bytes = new Uint8Array(chunks.reduce((n, c) => n + c.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { text: new TextDecoder().decode(bytes), truncated };
+}
+
+/**
+ * Fetch a page and return it as markdown. Redirects are followed by hand
+ * so every hop goes through the domain policy.
+ */
+export async function fetchReadable(url: string, options: WebFetchOptions): Promise<WebFetchResult> {
+  const maxBytes = options.maxBytes ?? WEB_FETCH_MAX_BYTES;
+  const maxChars = options.maxChars ?? WEB_FETCH_MAX_CHARS;
+  const maxRedirects = options.maxRedirects ?? 5;
+
+  let current = url;
+  for (let hop = 0; ; hop++) {
+    if (domainDecision(current, options.policy) === "deny") {
+      throw new Error(`Fetching ${current} is not allowed`);
+    }
+    if (options.resolveHost) {
+      const host = new URL(current).hostname;
+      if ((await options.resolveHost(normalizeHost(host))).some(isPrivateHost)) {
+        throw new Error(`Fetching ${current} is not allowed: ${host} resolves to a private address`);
+      }
+    }
+    const response = await options.fetch(current, {
+      redirect: "manual",
+      headers: { Accept: "text/html, text/markdown, text/plain, application/json;q=0.9, */*;q=0.1" },
+      signal: options.signal,
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (hop >= maxRedirects) throw new Error(`Too many redirects fetching ${url}`);
+      current = new URL(location, current).toString();
+      continue;
+    }
+    if (!response.ok) throw new Error(`HTTP ${response.status} fetching ${current}`);
+
+    const contentType = (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+    const isHtml = contentType === "text/html" || contentType === "application/xhtml+xml";
+    if (contentType && !isHtml && !contentType.startsWith("text/") && !/[/+]json$/.test(contentType)) {
+      throw new Error(`Unsupported content type: ${contentType}`);
+    }
+
+    const body = await readCapped(response, maxBytes);
+    const page = isHtml ? htmlToMarkdown(body.text, current) : { title: "", markdown: body.text.trim() };
+    let markdown = page.markdown;
+    let truncated = body.truncated;
+    if (markdown.length > maxChars) {
+      markdown = markdown.slice(0, maxChars);
+      truncated = true;
+    }
+    if (truncated) markdown += "\n\n[…truncated]";
+
+    return { url: current, status: response.status, contentType, title: page.title, markdown, truncated };
+  }
+}
+
+// ─── Search ───
+
+/**
+ * Offline provider for tests and local development. A query returns its own
+ * fixture entry when there is one, otherwise every fixture result whose
+ * title or snippet contains all the query's words.
+ */
+export function createFixtureSearchProvider(fixtures: Record<string, WebSearchResult[]>): WebSearchProvider {
+  const normalize = (q: string) => q.trim().toLowerCase().replace(/\s+/g, " ");
+  const byQuery = new Map(Object.entries(fixtures).map(([q, results]) => [normalize(q), results]));
+  return {
+    name: "fixture",
+    async search(query, limit) {
+      const key = normalize(query);
+      const exact = byQuery.get(key);
+      if (exact) return exact.slice(0, limit);
+      const words = key.split(" ").filter(Boolean);
+      const seen = new Set<string>();
+      const results: WebSearchResult[] = [];
+      for (const result of [...byQuery.values()].flat()) {
+        const haystack = `${result.title} ${result.snippet}`.toLowerCase();
+        if (seen.has(result.url) || !words.every((w) => haystack.includes(w))) continue;
+        seen.add(result.url);
+        results.push(result);
+      }
+      return results.slice(0, limit);
+    },
+  };
+}
+
+export function formatSearchResults(query: string, results: WebSearchResult[]): string {
+  if (results.length === 0) return `No results for "${query}".`;
+  return results
+    .map((r, i) => `${i + 1}. [${r.title}](${r.url})${r.snippet ? `\n   ${r.snippet.replace(/\s+/g, " ").trim()}` : ""}`)
+    .join("\n");
+}
+
+// ─── Cache ───
+
+export interface TtlCache<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T): void;
+}
+
+/** Least-recently-used map whose entries also expire after `ttlMs`. */
+export function createTtlCache<T>(ttlMs: number, maxEntries = 100, now: () => number = Date.now): TtlCache<T> {
+  const entries = new Map<string, { value: T; expires: number }>();
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expires <= now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expires: now() + ttlMs });
+      while (entries.size > maxEntries) entries.delete(entries.keys().next().value as string);
+    },
+  };
+}
@@ -28,7 +28,7 @@ CAPABILITIES
 - PATCH: Create/modify/delete files using unified diffs. You can create entire projects from scratch.
 - RUN: Execute shell commands (npm install, npm test, npm run build, etc.) for verification.
 - MCP_CALL: Invoke MCP tools (GitHub, Slack, databases, APIs, blockchain, etc.) for external data/actions.
-- FILE_OPS: Create new files with full content. Delete files by patching to /dev/null.
+- FILE_OPS: Create new files with full content. Delete files by patching to +++ /dev/null. Rename or move files with a git header (diff --git a/old b/new, rename from old, rename to new), optionally followed by hunks.
 - MULTI-FILE: Apply changes across multiple files in a single patch. Include ALL downstream updates.
 
 CODE QUALITY (mandatory)
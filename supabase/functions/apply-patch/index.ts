@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { applyPatchesToFiles, parseUnifiedDiff } from "../_shared/patch.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -22,65 +23,6 @@ function isPathForbidden(path: string): boolean {
   return FORBIDDEN_PATHS.some((p) => p.test(cleaned));
 }
 
-// ─── Diff parsing ───
-interface DiffLine { type: "context" | "add" | "remove"; content: string; }
-interface DiffHunk { oldStart: number; oldCount: number; newStart: number; newCount: number; lines: DiffLine[]; }
-interface ParsedPatch { oldFile: string; newFile: string; hunks: DiffHunk[]; }
-
-function parseUnifiedDiff(raw: string): ParsedPatch[] {
-  const patches: ParsedPatch[] = [];
-  const lines = raw.split("\n");
-  let i = 0;
-  while (i < lines.length) {
-    if (lines[i]?.startsWith("---")) {
-      const oldFile = lines[i].replace(/^---\s+(a\/)?/, "").trim();
-      i++;
-      if (i >= lines.length || !lines[i]?.startsWith("+++")) { i++; continue; }
-      const newFile = lines[i].replace(/^\+\+\+\s+(b\/)?/, "").trim();
-      i++;
-      const hunks: DiffHunk[] = [];
-      while (i < lines.length && !lines[i]?.startsWith("---")) {
-        if (lines[i]?.startsWith("@@")) {
-          const m = lines[i].match(/@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
-          if (m) {
-            const hunk: DiffHunk = {
-              oldStart: parseInt(m[1], 10), oldCount: parseInt(m[2] ?? "1", 10),
-              newStart: parseInt(m[3], 10), newCount: parseInt(m[4] ?? "1", 10),
-              lines: [],
-            };
-            i++;
-            while (i < lines.length && !lines[i]?.startsWith("@@") && !lines[i]?.startsWith("---")) {
-              const line = lines[i];
-              if (line.startsWith("+")) hunk.lines.push({ type: "add", content: line.slice(1) });
-              else if (line.startsWith("-")) hunk.lines.push({ type: "remove", content: line.slice(1) });
-              else if (line.startsWith(" ") || line === "") hunk.lines.push({ type: "context", content: line.startsWith(" ") ? line.slice(1) : line });
-              else break;
-              i++;
-            }
-            hunks.push(hunk);
-          } else { i++; }
-        } else { i++; }
-      }
-      if (hunks.length > 0) patches.push({ oldFile, newFile, hunks });
-    } else { i++; }
-  }
-  return patches;
-}
-
-function applyPatchToContent(content: string, patch: ParsedPatch): string | null {
-  const lines = content.split("\n");
-  const sorted = [...patch.hunks].sort((a, b) => b.oldStart - a.oldStart);
-  for (const hunk of sorted) {
-    const startIdx = hunk.oldStart - 1;
-    const newLines: string[] = [];
-    for (const line of hunk.lines) {
-      if (line.type === "add" || line.type === "context") newLines.push(line.content);
-    }
-    lines.splice(startIdx, hunk.oldCount, ...newLines);
-  }
-  return lines.join("\n");
-}
-
 // ─── Auth helper ───
 async function getUser(req: Request) {
   const authHeader = req.headers.get("Authorization");
@@ -130,46 +72,24 @@ serve(async (req) => {
 
     // ─── Create snapshot before applying ───
     const snapshot = files.map((f: { path: string; content: string }) => ({ ...f }));
-    const results: Array<{ path: string; status: "applied" | "created" | "failed"; error?: string }> = [];
-    const updatedFiles = [...files];
+
+    const applied = applyPatchesToFiles(files, patches);
+    const results = applied.results;
+    const updatedFiles = applied.files;
     let linesAdded = 0;
     let linesRemoved = 0;
-
-    for (const patch of patches) {
-      const isNewFile = patch.oldFile === "/dev/null";
-      if (isNewFile) {
-        const newContent = patch.hunks
-          .flatMap((h) => h.lines.filter((l) => l.type === "add").map((l) => l.content))
-          .join("\n");
-        const path = patch.newFile.startsWith("/") ? patch.newFile : `/${patch.newFile}`;
-        updatedFiles.push({ path, content: newContent });
-        results.push({ path, status: "created" });
-        linesAdded += newContent.split("\n").length;
-      } else {
-        const targetPath = patch.newFile.startsWith("/") ? patch.newFile : `/${patch.newFile}`;
-        const fileIdx = updatedFiles.findIndex((f: { path: string }) => f.path === targetPath);
-        if (fileIdx === -1) {
-          results.push({ path: targetPath, status: "failed", error: "File not found" });
-          continue;
+    // applyPatchesToFiles reports one result per patch, in order
+    patches.forEach((patch, idx) => {
+      if (results[idx].status === "failed") return;
+      for (const hunk of patch.hunks) {
+        for (const line of hunk.lines) {
+          if (line.type === "add") linesAdded++;
+          if (line.type === "remove") linesRemoved++;
         }
-        const newContent = applyPatchToContent(updatedFiles[fileIdx].content, patch);
-        if (newContent === null) {
-          results.push({ path: targetPath, status: "failed", error: "Hunk could not be applied" });
-          continue;
-        }
-        // Count lines
-        for (const hunk of patch.hunks) {
-          for (const line of hunk.lines) {
-            if (line.type === "add") linesAdded++;
-            if (line.type === "remove") linesRemoved++;
-          }
-        }
-        updatedFiles[fileIdx] = { ...updatedFiles[fileIdx], content: newContent };
-        results.push({ path: targetPath, status: "applied" });
       }
-    }
+    });
 
-    const allOk = results.every((r) => r.status !== "failed");
+    const allOk = applied.ok;
 
     // ─── Persist snapshot to DB if project_id provided ───
     if (project_id && allOk) {
@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildProvenanceStatement, canonicalJSON, compareStatements, createEnvelope, openEnvelope, verifyEnvelope,
+  bytesToBase64, base64ToBytes, AttestationFormatError, MAX_LOG_CHARS, MAX_ARTIFACTS,
+  type BuildArtifact, type BuildFacts, type DsseEnvelope, type InTotoStatement,
+} from "../_shared/attestation.ts";
+import { ACTING_USER_HEADER, actingUserId } from "../_shared/mcp.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,19 +13,14 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-async function sha256(data: string): Promise<string> {
-  const encoded = new TextEncoder().encode(data);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", encoded);
-  return Array.from(new Uint8Array(hashBuffer))
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes))
     .map((b) => b.toString(16).padStart(2, "0"))
     .join("");
 }
 
-function canonicalJSON(obj: unknown): string {
-  if (obj === null || typeof obj !== "object") return JSON.stringify(obj);
-  if (Array.isArray(obj)) return "[" + obj.map(canonicalJSON).join(",") + "]";
-  const sorted = Object.keys(obj as Record<string, unknown>).sort();
-  return "{" + sorted.map((k) => JSON.stringify(k) + ":" + canonicalJSON((obj as Record<string, unknown>)[k])).join(",") + "}";
+async function sha256(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data)));
 }
 
 function getServiceClient() {
@@ -29,6 +30,8 @@ function getServiceClient() {
 async function getUser(req: Request) {
   const authHeader = req.headers.get("Authorization");
   if (!authHeader) return null;
+  const actingUser = actingUserId(authHeader, req.headers.get(ACTING_USER_HEADER), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+  if (actingUser) return { id: actingUser };
   const supabase = createClient(
     Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!,
     { global: { headers: { Authorization: authHeader } } }
@@ -43,6 +46,184 @@ function json(body: unknown, status = 200) {
   });
 }
 
+async function isProjectMember(db: ReturnType<typeof createClient>, userId: string, projectId: string): Promise<boolean> {
+  const { data } = await db.rpc("is_project_member", { _user_id: userId, _project_id: projectId });
+  return data === true;
+}
+
+// ─── Signing keys ───
+
+interface SigningKey {
+  key_id: string;
+  public_key: string;
+  encrypted_private_key: string;
+}
+
+/** AES-GCM key that wraps project private keys, derived from the function secret. */
+async function wrappingKey(): Promise<CryptoKey> {
+  const secret = Deno.env.get("ATTESTATION_SIGNING_SECRET");
+  if (!secret) throw new Error("ATTESTATION_SIGNING_SECRET is not configured");
+  const material = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+  return crypto.subtle.importKey("raw", material, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+async function generateSigningKey(db: ReturnType<typeof createClient>, projectId: string): Promise<SigningKey> {
+  const pair = await crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"]) as CryptoKeyPair;
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey("raw", pair.publicKey));
+  const privateKey = await crypto.subtle.exportKey("pkcs8", pair.privateKey);
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const sealed = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, await wrappingKey(), privateKey));
+  const wrapped = new Uint8Array(iv.length + sealed.length);
+  wrapped.set(iv);
+  wrapped.set(sealed, iv.length);
+
+  const key: SigningKey = {
+    key_id: `ed25519:${toHex(await crypto.subtle.digest("SHA-256", publicKey)).slice(0, 32)}`,
+    public_key: bytesToBase64(publicKey),
+    encrypted_private_key: bytesToBase64(wrapped),
+  };
+  const { error } = await db.from("attestation_signing_keys").insert({ project_id: projectId, ...key });
+  if (error) {
+    // Another request created the project's key first
+    if (error.code === "23505") return (await activeSigningKey(db, projectId))!;
+    throw new Error(error.message);
+  }
+  return key;
+}
+
+async function activeSigningKey(db: ReturnType<typeof createClient>, projectId: string): Promise<SigningKey | null> {
+  const { data } = await db
+    .from("attestation_signing_keys")
+    .select("key_id, public_key, encrypted_private_key")
+    .eq("project_id", projectId)
+    .is("revoked_at", null)
+    .maybeSingle();
+  return data as SigningKey | null;
+}
+
+/** The project's signing key, created on first use. */
+async function projectSigningKey(db: ReturnType<typeof createClient>, projectId: string): Promise<SigningKey> {
+  return (await activeSigningKey(db, projectId)) ?? (await generateSigningKey(db, projectId));
+}
+
+async function signer(key: SigningKey): Promise<(message: Uint8Array) => Promise<Uint8Array>> {
+  const wrapped = base64ToBytes(key.encrypted_private_key);
+  const pkcs8 = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: wrapped.subarray(0, 12) }, await wrappingKey(), wrapped.subarray(12),
+  );
+  const privateKey = await crypto.subtle.importKey("pkcs8", pkcs8, { name: "Ed25519" }, false, ["sign"]);
+  return async (message) => new Uint8Array(await crypto.subtle.sign("Ed25519", privateKey, message));
+}
+
+async function verifySignature(publicKey: string, signature: Uint8Array, message: Uint8Array): Promise<boolean> {
+  const key = await crypto.subtle.importKey("raw", base64ToBytes(publicKey), { name: "Ed25519" }, false, ["verify"]);
+  return crypto.subtle.verify("Ed25519", key, signature, message);
+}
+
+// ─── Provenance ───
+
+interface BuildRunRow {
+  id: string;
+  project_id: string;
+  command: string;
+  input_snapshot_id: string | null;
+  output_snapshot_id: string | null;
+  exit_code: number | null;
+  duration_ms: number | null;
+  stdout_trunc: string | null;
+  stderr_trunc: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+function parseArtifacts(value: unknown): BuildArtifact[] | string {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return "artifacts must be an array";
+  if (value.length > MAX_ARTIFACTS) return `At most ${MAX_ARTIFACTS} artifacts per run`;
+  const artifacts: BuildArtifact[] = [];
+  for (const item of value) {
+    const { path, sha256: digest, size } = (item || {}) as Record<string, unknown>;
+    if (typeof path !== "string" || !path) return "Each artifact needs a path";
+    if (typeof digest !== "string" || !/^[0-9a-f]{64}$/.test(digest)) return `Invalid sha256 for artifact ${path}`;
+    if (size !== undefined && (typeof size !== "number" || !Number.isInteger(size) || size < 0)) {
+      return `Invalid size for artifact ${path}`;
+    }
+    artifacts.push(size === undefined ? { path, sha256: digest } : { path, sha256: digest, size });
+  }
+  return artifacts;
+}
+
+/**
+ * The files an artifact capture stored, claimed for the run. Refused when the
+ * capture is another project's, already another run's, or older than the run.
+ */
+async function capturedArtifacts(
+  db: ReturnType<typeof createClient>,
+  run: { id: string; project_id: string; created_at: string },
+  captureId: string,
+): Promise<BuildArtifact[] | { error: string; status: number }> {
+  const { data: capture } = await db
+    .from("artifact_captures")
+    .select("id, project_id, build_run_id, created_at, build_artifacts(path, blob_hash, byte_size)")
+    .eq("id", captureId)
+    .maybeSingle();
+  if (!capture || capture.project_id !== run.project_id) return { error: "Artifact capture not found", status: 404 };
+  if (capture.build_run_id && capture.build_run_id !== run.id) {
+    return { error: "Artifact capture belongs to another run", status: 409 };
+  }
+  if (new Date(capture.created_at).getTime() < new Date(run.created_at).getTime()) {
+    return { error: "Artifact capture predates this run", status: 409 };
+  }
+  // Claim it, unless a concurrent completion got there first
+  if (!capture.build_run_id) {
+    const { data: claimed } = await db
+      .from("artifact_captures")
+      .update({ build_run_id: run.id })
+      .eq("id", captureId)
+      .is("build_run_id", null)
+      .select("id");
+    if ((claimed || []).length !== 1) return { error: "Artifact capture belongs to another run", status: 409 };
+  }
+  return ((capture.build_artifacts || []) as Array<{ path: string; blob_hash: string; byte_size: number }>)
+    .map((a) => ({ path: a.path, sha256: a.blob_hash, size: a.byte_size }));
+}
+
+/**
+ * What the statement for a run should say, from the stored run, its
+ * snapshots' tree roots and the fingerprint and artifacts recorded with it.
+ */
+async function loadBuildFacts(
+  db: ReturnType<typeof createClient>,
+  run: BuildRunRow,
+  runnerFingerprint: Record<string, unknown>,
+  artifacts: BuildArtifact[],
+): Promise<BuildFacts> {
+  const ids = [run.input_snapshot_id, run.output_snapshot_id].filter(Boolean);
+  const { data: snapshots } = ids.length > 0
+    ? await db.from("ca_snapshots").select("id, root_tree_hash").in("id", ids)
+    : { data: [] };
+  const rootOf = (id: string | null) => {
+    const snapshot = (snapshots || []).find((s: { id: string }) => s.id === id);
+    return snapshot ? { id: snapshot.id, rootTreeHash: snapshot.root_tree_hash } : null;
+  };
+
+  return {
+    buildRunId: run.id,
+    projectId: run.project_id,
+    command: run.command,
+    inputSnapshot: rootOf(run.input_snapshot_id),
+    outputSnapshot: rootOf(run.output_snapshot_id),
+    runnerFingerprint,
+    logDigests: { stdout: await sha256(run.stdout_trunc || ""), stderr: await sha256(run.stderr_trunc || "") },
+    artifacts,
+    exitCode: run.exit_code ?? null,
+    durationMs: run.duration_ms ?? null,
+    startedAt: run.started_at,
+    finishedAt: run.finished_at,
+  };
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
 
@@ -83,18 +264,40 @@ serve(async (req) => {
         return json({ ok: true, build_run_id: run.id });
       }
 
-      // ─── Complete build run + create attestation ───
+      // ─── Complete build run + create signed attestation ───
       case "complete_run": {
-        const { build_run_id, exit_code, stdout_trunc, stderr_trunc, output_snapshot_id, runner_fingerprint, duration_ms } = body;
+        const {
+          build_run_id, exit_code, stdout_trunc, stderr_trunc, output_snapshot_id, runner_fingerprint, duration_ms,
+          artifact_capture_id,
+        } = body;
         if (!build_run_id) return json({ error: "Missing build_run_id" }, 400);
+        if (artifact_capture_id && body.artifacts) return json({ error: "Pass artifacts or artifact_capture_id, not both" }, 400);
+        let artifacts = parseArtifacts(body.artifacts);
+        if (typeof artifacts === "string") return json({ error: artifacts }, 400);
+
+        const { data: pending } = await db
+          .from("build_runs")
+          .select("id, project_id, created_at, build_attestations(id)")
+          .eq("id", build_run_id)
+          .single();
+        if (!pending) return json({ error: "Run not found" }, 404);
+        if (!(await isProjectMember(db, user.id, pending.project_id))) return json({ error: "Forbidden" }, 403);
+        if ((pending.build_attestations || []).length > 0) return json({ error: "Run is already attested" }, 409);
+
+        // Files the runner captured after the build, rather than a list the caller vouches for
+        if (artifact_capture_id) {
+          const captured = await capturedArtifacts(db, pending, artifact_capture_id);
+          if (!Array.isArray(captured)) return json({ error: captured.error }, captured.status);
+          artifacts = captured;
+        }
 
         const status = exit_code === 0 ? "ok" : "error";
 
         await db.from("build_runs").update({
           status,
           exit_code,
-          stdout_trunc: (stdout_trunc || "").slice(0, 10000),
-          stderr_trunc: (stderr_trunc || "").slice(0, 10000),
+          stdout_trunc: (stdout_trunc || "").slice(0, MAX_LOG_CHARS),
+          stderr_trunc: (stderr_trunc || "").slice(0, MAX_LOG_CHARS),
           output_snapshot_id: output_snapshot_id || null,
           finished_at: new Date().toISOString(),
           duration_ms,
@@ -104,36 +307,28 @@ serve(async (req) => {
         const { data: run } = await db.from("build_runs").select("*").eq("id", build_run_id).single();
         if (!run) return json({ error: "Run not found" }, 404);
 
-        // Create attestation
-        const commandHash = await sha256(run.command);
-        const stdoutHash = await sha256(stdout_trunc || "");
-        const stderrHash = await sha256(stderr_trunc || "");
+        // The statement is built from what was stored, so verify_attestation can rebuild it
+        const runnerFingerprint = runner_fingerprint || { os: "deno", nodeVersion: Deno.version.deno };
+        const facts = await loadBuildFacts(db, run, runnerFingerprint, artifacts);
+        const statement = buildProvenanceStatement(facts);
+        const attestationHash = await sha256(canonicalJSON(statement));
 
-        const snapshotHash = run.input_snapshot_id
-          ? await sha256(`${run.input_snapshot_id}`)
-          : await sha256("no-snapshot");
+        const key = await projectSigningKey(db, run.project_id);
+        const envelope = await createEnvelope(statement, key.key_id, await signer(key));
 
-        const attestationData = {
-          build_run_id,
-          snapshot_hash: snapshotHash,
-          command_hash: commandHash,
-          runner_fingerprint: runner_fingerprint || { os: "deno", nodeVersion: Deno.version.deno },
-          logs_hashes: { stdout_hash: stdoutHash, stderr_hash: stderrHash },
-          exit_code,
-          duration_ms,
-        };
-
-        const attestationHash = await sha256(canonicalJSON(attestationData));
-
-        await db.from("build_attestations").insert({
+        const { error } = await db.from("build_attestations").insert({
           build_run_id,
           attestation_hash: attestationHash,
-          snapshot_hash: snapshotHash,
-          command_hash: commandHash,
-          runner_fingerprint: attestationData.runner_fingerprint,
-          logs_hashes: attestationData.logs_hashes,
-          artifacts_hashes: [],
+          snapshot_hash: facts.inputSnapshot?.rootTreeHash ?? "",
+          command_hash: await sha256(run.command),
+          runner_fingerprint: runnerFingerprint,
+          logs_hashes: { stdout_hash: facts.logDigests.stdout, stderr_hash: facts.logDigests.stderr },
+          artifacts_hashes: artifacts,
+          statement,
+          envelope,
+          key_id: key.key_id,
         });
+        if (error) return json({ error: error.message }, 500);
 
         // Emit event
         await db.from("project_events").insert({
@@ -145,11 +340,88 @@ serve(async (req) => {
             build_run_id,
             exit_code,
             attestation_hash: attestationHash,
+            key_id: key.key_id,
             duration_ms,
           },
         });
 
-        return json({ ok: true, attestation_hash: attestationHash });
+        return json({ ok: true, attestation_hash: attestationHash, key_id: key.key_id, envelope });
+      }
+
+      // ─── Verify an attestation's signature and content ───
+      case "verify_attestation": {
+        const { build_run_id } = body;
+        if (!build_run_id) return json({ error: "Missing build_run_id" }, 400);
+
+        const { data: run } = await db.from("build_runs").select("*").eq("id", build_run_id).single();
+        if (!run) return json({ error: "Run not found" }, 404);
+        if (!(await isProjectMember(db, user.id, run.project_id))) return json({ error: "Forbidden" }, 403);
+
+        const { data: attestation } = await db
+          .from("build_attestations")
+          .select("*")
+          .eq("build_run_id", build_run_id)
+          .maybeSingle();
+        if (!attestation) return json({ error: "Run has no attestation" }, 404);
+
+        const unverified = (reason: string) =>
+          json({ ok: true, verified: false, signature_valid: false, content_valid: false, mismatches: [], reason });
+        if (!attestation.envelope) return unverified("Attestation is not signed");
+
+        const envelope = attestation.envelope as DsseEnvelope;
+        let statement: InTotoStatement;
+        try {
+          statement = openEnvelope(envelope);
+        } catch (e) {
+          if (e instanceof AttestationFormatError) return unverified(e.message);
+          throw e;
+        }
+
+        // Revoked keys still verify what they signed before rotation
+        const { data: keys } = await db
+          .from("attestation_signing_keys")
+          .select("key_id, public_key")
+          .eq("project_id", run.project_id);
+        const signatureValid = await verifyEnvelope(envelope, async (keyId, signature, message) => {
+          const key = (keys || []).find((k: { key_id: string }) => k.key_id === keyId);
+          return key ? verifySignature(key.public_key, signature, message) : false;
+        });
+
+        // Rebuild the statement from the run, snapshots and recorded facts as they are now
+        const expected = buildProvenanceStatement(
+          await loadBuildFacts(db, run, attestation.runner_fingerprint, attestation.artifacts_hashes),
+        );
+        const mismatches = compareStatements(statement, expected);
+        if ((await sha256(canonicalJSON(statement))) !== attestation.attestation_hash) {
+          mismatches.push("attestation_hash");
+        }
+
+        const signingKey = (keys || []).find((k: { key_id: string }) => k.key_id === attestation.key_id);
+        return json({
+          ok: true,
+          verified: signatureValid && mismatches.length === 0,
+          signature_valid: signatureValid,
+          content_valid: mismatches.length === 0,
+          mismatches,
+          key_id: attestation.key_id,
+          public_key: signingKey?.public_key ?? null,
+          statement,
+        });
+      }
+
+      // ─── Public keys that sign a project's attestations ───
+      case "get_signing_keys": {
+        const { project_id } = body;
+        if (!project_id) return json({ error: "Missing project_id" }, 400);
+        if (!(await isProjectMember(db, user.id, project_id))) return json({ error: "Forbidden" }, 403);
+
+        const { data: keys } = await db
+          .from("attestation_signing_keys")
+          .select("key_id, algorithm, public_key, created_at, revoked_at")
+          .eq("project_id", project_id)
+          .order("created_at", { ascending: false });
+
+        return json({ ok: true, keys: keys || [] });
       }
 
       // ─── Get attestation for a run ───
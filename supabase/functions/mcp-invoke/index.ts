@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.1";
+import { evaluateMcpPermission, type McpPermissionRule, type McpRisk } from "../_shared/mcp.ts";
+import { checkToolInput, toolInputSchema } from "../_shared/tool-schemas.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -18,74 +20,23 @@ function stableHash(obj: unknown): string {
   return `fnv1a_${(h >>> 0).toString(16)}`;
 }
 
-// ─── Input Validation ───
-
-interface JsonSchema {
-  type: "object";
-  required?: string[];
-  properties: Record<string, { type: string }>;
-}
-
-function assertInput(schema: JsonSchema, input: Record<string, unknown>) {
-  if (typeof input !== "object" || input === null) throw new Error("invalid_input:type");
-  for (const k of schema.required ?? []) {
-    if (!(k in input)) throw new Error(`invalid_input:missing:${k}`);
-  }
-  for (const [k, v] of Object.entries(schema.properties)) {
-    if (!(k in input)) continue;
-    const t = typeof input[k];
-    if (v.type === "number" && t !== "number") throw new Error(`invalid_input:type:${k}`);
-    if (v.type === "string" && t !== "string") throw new Error(`invalid_input:type:${k}`);
-    if (v.type === "boolean" && t !== "boolean") throw new Error(`invalid_input:type:${k}`);
-  }
-}
-
 // ─── Permission Evaluation ───
 
-type Effect = "allow" | "ask" | "deny";
-type Risk = "read" | "simulate" | "write";
+type Risk = McpRisk;
 
 async function evalPermission(args: {
   supabase: ReturnType<typeof createClient>;
   project_id: string;
   tool_name: string;
   risk: Risk;
-}): Promise<{ effect: Effect; reason?: string }> {
+}) {
   const { supabase, project_id, tool_name, risk } = args;
   const { data: rules } = await supabase
     .from("mcp_permissions")
     .select("rule_type,subject,effect,reason")
     .eq("project_id", project_id);
 
-  const list = (rules ?? []) as Array<{ rule_type: string; subject: string; effect: Effect; reason?: string }>;
-
-  // 1) explicit tool deny/allow
-  const toolRules = list.filter(r => r.rule_type === "tool" && r.subject === tool_name);
-  const denyTool = toolRules.find(r => r.effect === "deny");
-  if (denyTool) return { effect: "deny", reason: denyTool.reason ?? "Denied by tool rule" };
-  const allowTool = toolRules.find(r => r.effect === "allow");
-  if (allowTool) return { effect: "allow", reason: allowTool.reason ?? "Allowed by tool rule" };
-
-  // 2) risk rule
-  const riskRule = list.find(r => r.rule_type === "risk" && r.subject === risk);
-  if (riskRule) return { effect: riskRule.effect as Effect, reason: riskRule.reason ?? `Rule matched risk=${risk}` };
-
-  // 3) pattern rules
-  const patterns = list.filter(r => r.rule_type === "pattern");
-  for (const r of patterns) {
-    if (r.subject.startsWith("prefix:")) {
-      const pref = r.subject.slice("prefix:".length);
-      if (tool_name.startsWith(pref)) return { effect: r.effect as Effect, reason: r.reason ?? `Matched prefix ${pref}` };
-    }
-    if (r.subject.startsWith("re:")) {
-      const re = new RegExp(r.subject.slice("re:".length));
-      if (re.test(tool_name)) return { effect: r.effect as Effect, reason: r.reason ?? `Matched regex` };
-    }
-  }
-
-  // default
-  if (risk === "read") return { effect: "allow", reason: "Default allow for read" };
-  return { effect: "ask", reason: "Default ask for simulate/write" };
+  return evaluateMcpPermission((rules ?? []) as McpPermissionRule[], tool_name, risk);
 }
 
 // ─── Moralis Adapter ───
@@ -112,42 +63,9 @@ async function moralisGet(url: string) {
   try { return JSON.parse(t); } catch { return t; }
 }
 
-const moralisSchemas: Record<string, JsonSchema> = {
-  "moralis.getWalletTokenBalances": {
-    type: "object", required: ["address", "chain"],
-    properties: { address: { type: "string" }, chain: { type: "string" }, cursor: { type: "string" } },
-  },
-  "moralis.getWalletNFTs": {
-    type: "object", required: ["address", "chain"],
-    properties: { address: { type: "string" }, chain: { type: "string" }, cursor: { type: "string" }, limit: { type: "number" } },
-  },
-  "moralis.getWalletTokenTransfers": {
-    type: "object", required: ["address", "chain"],
-    properties: { address: { type: "string" }, chain: { type: "string" }, cursor: { type: "string" }, limit: { type: "number" } },
-  },
-  "moralis.getTokenPrice": {
-    type: "object", required: ["address", "chain"],
-    properties: { address: { type: "string" }, chain: { type: "string" } },
-  },
-  "moralis.getNFTMetadata": {
-    type: "object", required: ["address", "token_id", "chain"],
-    properties: { address: { type: "string" }, token_id: { type: "string" }, chain: { type: "string" } },
-  },
-  "moralis.getContractEvents": {
-    type: "object", required: ["address", "chain", "topic"],
-    properties: { address: { type: "string" }, chain: { type: "string" }, topic: { type: "string" }, limit: { type: "number" } },
-  },
-  "moralis.resolveAddress": {
-    type: "object", required: ["address"],
-    properties: { address: { type: "string" } },
-  },
-};
-
 async function invokeMoralisTool(args: { tool_name: string; input: Record<string, unknown>; config: Cfg }) {
   const { tool_name, input, config } = args;
-  const schema = moralisSchemas[tool_name];
-  if (!schema) throw new Error(`unknown_tool:${tool_name}`);
-  assertInput(schema, input);
+  if (!tool_name.startsWith("moralis.") || !toolInputSchema(tool_name)) throw new Error(`unknown_tool:${tool_name}`);
 
   const cfg = config ?? {};
   const maxPage = cfg.max_page_size ?? 100;
@@ -245,6 +163,9 @@ serve(async (req) => {
 
   if (!pms || !pms.is_enabled) return json({ ok: false, error: "server_disabled" }, 403);
 
+  const invalidInput = checkToolInput(tool_name, input);
+  if (invalidInput) return json(invalidInput, 400);
+
   // Permission
   const perm = await evalPermission({ supabase, project_id, tool_name, risk: risk as Risk });
   const inputHash = stableHash({ project_id, server_key, tool_name, risk, input });
@@ -9,20 +9,24 @@ serve(async (req) => {
   if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
 
   try {
-    const { tool, input, jira_email, jira_api_token, jira_domain } = await req.json();
-    if (!jira_email || !jira_api_token || !jira_domain) {
+    const { tool, input, jira_email, jira_api_token, jira_domain, jira_access_token, jira_cloud_id } = await req.json();
+    // An OAuth connection reaches the site through the Atlassian API gateway; an API token goes to the site itself
+    const oauth = Boolean(jira_access_token && jira_cloud_id);
+    if (!oauth && (!jira_email || !jira_api_token || !jira_domain)) {
       return new Response(JSON.stringify({ ok: false, error: "Missing jira_email, jira_api_token, or jira_domain" }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 400,
       });
     }
 
-    const baseUrl = jira_domain.startsWith("http") ? jira_domain : `https://${jira_domain}.atlassian.net`;
-    const auth = btoa(`${jira_email}:${jira_api_token}`);
+    const baseUrl = oauth
+      ? `https://api.atlassian.com/ex/jira/${jira_cloud_id}`
+      : jira_domain.startsWith("http") ? jira_domain : `https://${jira_domain}.atlassian.net`;
+    const auth = oauth ? `Bearer ${jira_access_token}` : `Basic ${btoa(`${jira_email}:${jira_api_token}`)}`;
 
     async function jiraFetch(path: string, opts: RequestInit = {}) {
       const res = await fetch(`${baseUrl}/rest/api/3${path}`, {
         ...opts,
-        headers: { Authorization: `Basic ${auth}`, "Content-Type": "application/json", ...(opts.headers || {}) },
+        headers: { Authorization: auth, "Content-Type": "application/json", ...(opts.headers || {}) },
       });
       const text = await res.text();
       let parsed;
@@ -33,7 +37,7 @@ serve(async (req) => {
 
     async function agile(path: string) {
       const res = await fetch(`${baseUrl}/rest/agile/1.0${path}`, {
-        headers: { Authorization: `Basic ${auth}`, "Content-Type": "application/json" },
+        headers: { Authorization: auth, "Content-Type": "application/json" },
       });
       const text = await res.text();
       let parsed;
@@ -0,0 +1,522 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  DEFAULT_CREDENTIAL_ROLES, VaultKeyError, canUseCredential, connectionSecretsAad, credentialAad, credentialSources,
+  isVaultServer, normalizeCredentialFields, parseVaultKeyring, requestFields, validateCredentialFields, validateCredentialRoles,
+  vaultKey, type CredentialRole, type VaultKeyring,
+} from "../_shared/vault.ts";
+import {
+  OAUTH_PROVIDERS, OAUTH_STATE_TTL_MS, OAuthError, base64UrlEncode, buildAuthorizeUrl, createPkcePair, exchangeCode,
+  needsRefresh, oauthProvider, refreshTokens, revokeToken, type OAuthClient, type OAuthProvider, type OAuthTokenSet,
+} from "../_shared/oauth.ts";
+import { bytesToBase64, base64ToBytes } from "../_shared/attestation.ts";
+import { checkToolInput } from "../_shared/tool-schemas.ts";
+import { timingSafeEqual } from "../_shared/mcp.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+/** Columns a member may see; the sealed values and wrapped key never leave this function */
+const CREDENTIAL_COLUMNS =
+  "id, server_id, field_names, auth_type, scopes, account_label, expires_at, allowed_roles, key_version, created_by, updated_by, created_at, updated_at, rotated_at, last_used_at, last_used_by";
+
+type Db = ReturnType<typeof createClient>;
+
+function getServiceClient() {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+}
+
+async function getUser(req: Request) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+  const { data: { user } } = await supabase.auth.getUser();
+  return user;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status, headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** The caller's role on the project, or null when they aren't a member */
+async function projectRole(db: Db, userId: string, projectId: string): Promise<CredentialRole | null> {
+  const { data: project } = await db.from("projects").select("owner_id").eq("id", projectId).maybeSingle();
+  if (!project) return null;
+  if (project.owner_id === userId) return "owner";
+  const { data: collaborator } = await db
+    .from("project_collaborators")
+    .select("role")
+    .eq("project_id", projectId)
+    .eq("user_id", userId)
+    .eq("accepted", true)
+    .maybeSingle();
+  return (collaborator?.role as CredentialRole | undefined) ?? null;
+}
+
+// ─── Envelope encryption ───
+
+interface SealedCredential {
+  key_version: number;
+  wrapped_key: string;
+  ciphertext: string;
+}
+
+function keyring(): VaultKeyring {
+  return parseVaultKeyring(Deno.env.get("MCP_VAULT_KEYS"));
+}
+
+/** AES-256-GCM key for a vault key version, derived from its secret */
+async function keyEncryptionKey(ring: VaultKeyring, version: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(vaultKey(ring, version)));
+  return crypto.subtle.importKey("raw", material, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+/** Encrypt with a fresh IV, returned as base64 of IV followed by ciphertext */
+async function encrypt(key: CryptoKey, plaintext: Uint8Array, aad: Uint8Array): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const sealed = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: aad }, key, plaintext));
+  const out = new Uint8Array(iv.length + sealed.length);
+  out.set(iv);
+  out.set(sealed, iv.length);
+  return bytesToBase64(out);
+}
+
+async function decrypt(key: CryptoKey, text: string, aad: Uint8Array): Promise<Uint8Array> {
+  const bytes = base64ToBytes(text);
+  return new Uint8Array(await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: bytes.subarray(0, 12), additionalData: aad }, key, bytes.subarray(12),
+  ));
+}
+
+/** Seal a JSON value under a new data key, wrapped by the current vault key */
+async function sealValue(ring: VaultKeyring, aadText: string, value: unknown): Promise<SealedCredential> {
+  const aad = new TextEncoder().encode(aadText);
+  const dataKey = crypto.getRandomValues(new Uint8Array(32));
+  const key = await crypto.subtle.importKey("raw", dataKey, "AES-GCM", false, ["encrypt"]);
+  return {
+    key_version: ring.current,
+    wrapped_key: await encrypt(await keyEncryptionKey(ring, ring.current), dataKey, aad),
+    ciphertext: await encrypt(key, new TextEncoder().encode(JSON.stringify(value)), aad),
+  };
+}
+
+async function openValue<T>(ring: VaultKeyring, aadText: string, sealed: SealedCredential): Promise<T> {
+  const aad = new TextEncoder().encode(aadText);
+  const dataKey = await decrypt(await keyEncryptionKey(ring, sealed.key_version), sealed.wrapped_key, aad);
+  const key = await crypto.subtle.importKey("raw", dataKey, "AES-GCM", false, ["decrypt"]);
+  return JSON.parse(new TextDecoder().decode(await decrypt(key, sealed.ciphertext, aad)));
+}
+
+/** Seal field values under a new data key, wrapped by the current vault key */
+function seal(ring: VaultKeyring, projectId: string, serverId: string, fields: Record<string, string>): Promise<SealedCredential> {
+  return sealValue(ring, credentialAad(projectId, serverId), fields);
+}
+
+function open(ring: VaultKeyring, projectId: string, serverId: string, sealed: SealedCredential): Promise<Record<string, string>> {
+  return openValue(ring, credentialAad(projectId, serverId), sealed);
+}
+
+async function loadSealed(db: Db, projectId: string, serverId: string) {
+  const { data } = await db
+    .from("mcp_credentials")
+    .select("id, allowed_roles, auth_type, expires_at, key_version, wrapped_key, ciphertext")
+    .eq("project_id", projectId)
+    .eq("server_id", serverId)
+    .maybeSingle();
+  return data as (SealedCredential & { id: string; allowed_roles: string[]; auth_type: string; expires_at: string | null }) | null;
+}
+
+// ─── OAuth connections ───
+
+/** The provider's client credentials, or null when its app isn't configured */
+function oauthClient(provider: OAuthProvider): OAuthClient | null {
+  const clientId = Deno.env.get(provider.clientIdEnv);
+  const clientSecret = Deno.env.get(provider.clientSecretEnv);
+  return clientId && clientSecret ? { clientId, clientSecret } : null;
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+}
+
+async function hashState(state: string): Promise<string> {
+  return base64UrlEncode(await sha256(new TextEncoder().encode(state)));
+}
+
+/** Sealed fields for a token set: what the server reads, plus the refresh token */
+function oauthFields(tokens: OAuthTokenSet): Record<string, string> {
+  return tokens.refreshToken ? { ...tokens.fields, oauth_refresh_token: tokens.refreshToken } : tokens.fields;
+}
+
+function oauthColumns(tokens: OAuthTokenSet, fields: Record<string, string>) {
+  return {
+    auth_type: "oauth",
+    field_names: Object.keys(fields),
+    expires_at: tokens.expiresAt === null ? null : new Date(tokens.expiresAt).toISOString(),
+    scopes: tokens.scopes,
+  };
+}
+
+/**
+ * Swap an expiring OAuth connection's tokens for fresh ones and reseal them.
+ * When that fails the stored tokens are used as they are and the server
+ * reports the provider's rejection.
+ */
+async function refreshConnection(
+  db: Db, ring: VaultKeyring, projectId: string, serverId: string, id: string, fields: Record<string, string>,
+): Promise<Record<string, string>> {
+  const provider = oauthProvider(serverId);
+  const client = provider && oauthClient(provider);
+  if (!provider || !client || !fields.oauth_refresh_token) return fields;
+  try {
+    const tokens = await refreshTokens(provider, client, fields.oauth_refresh_token, fetch, Date.now());
+    // Keep fields the refresh response doesn't carry, such as Jira's cloud id
+    const refreshed = { ...fields, ...oauthFields(tokens) };
+    await db.from("mcp_credentials")
+      .update({
+        ...(await seal(ring, projectId, serverId, refreshed)),
+        ...oauthColumns(tokens, refreshed),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id);
+    return refreshed;
+  } catch (e) {
+    console.error(`mcp-vault: refreshing ${serverId} failed:`, e);
+    return fields;
+  }
+}
+
+/** Revoke a connection's tokens with the provider before it's forgotten, as far as the provider allows */
+async function revokeConnection(projectId: string, serverId: string, sealed: SealedCredential): Promise<void> {
+  const provider = oauthProvider(serverId);
+  const client = provider && oauthClient(provider);
+  if (!provider || !client) return;
+  try {
+    const fields = await open(keyring(), projectId, serverId, sealed);
+    // Revoking an RFC 7009 refresh token ends the whole grant; the other styles only take the access token
+    const token = provider.revocation?.style === "rfc7009" ? fields.oauth_refresh_token ?? fields[provider.tokenField] : fields[provider.tokenField];
+    await revokeToken(provider, client, token, fetch);
+  } catch (e) {
+    console.error(`mcp-vault: revoking ${serverId} failed:`, e);
+  }
+}
+
+// ─── Tool calls ───
+
+/**
+ * Call a built-in server's function with the project's stored credentials
+ * filled in, as the caller. Credentials the caller's role may not use are
+ * left out, and the server answers as it would without them.
+ */
+async function invoke(
+  db: Db, req: Request, userId: string, role: CredentialRole, projectId: string, serverId: string,
+  tool: string, input: Record<string, unknown>,
+): Promise<Response> {
+  const body: Record<string, unknown> = { tool, input, project_id: projectId };
+  const sources = credentialSources(serverId, tool);
+  const used: string[] = [];
+  let ring: VaultKeyring | null = null;
+  for (const source of sources) {
+    const sealed = await loadSealed(db, projectId, source);
+    if (!sealed || !canUseCredential(role, sealed.allowed_roles)) continue;
+    ring ??= keyring();
+    let fields = await open(ring, projectId, source, sealed);
+    if (sealed.auth_type === "oauth" && needsRefresh(sealed.expires_at, Date.now())) {
+      fields = await refreshConnection(db, ring, projectId, source, sealed.id, fields);
+    }
+    for (const [name, value] of Object.entries(requestFields(fields))) {
+      if (!(name in body)) body[name] = value;
+    }
+    used.push(sealed.id);
+  }
+  if (used.length > 0) {
+    await db.from("mcp_credentials")
+      .update({ last_used_at: new Date().toISOString(), last_used_by: userId })
+      .in("id", used);
+  }
+
+  const resp = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/${serverId}`, {
+    method: "POST",
+    headers: {
+      Authorization: req.headers.get("Authorization")!,
+      apikey: Deno.env.get("SUPABASE_ANON_KEY")!,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+  return new Response(await resp.text(), {
+    status: resp.status,
+    headers: { ...corsHeaders, "Content-Type": resp.headers.get("content-type") || "application/json" },
+  });
+}
+
+/** Reseal every credential not under the current vault key, after a new key version is added */
+async function rekey(db: Db): Promise<number> {
+  const ring = keyring();
+  const { data: rows } = await db
+    .from("mcp_credentials")
+    .select("id, project_id, server_id, key_version, wrapped_key, ciphertext")
+    .lt("key_version", ring.current);
+  for (const row of rows || []) {
+    const fields = await open(ring, row.project_id, row.server_id, row as SealedCredential);
+    await db.from("mcp_credentials")
+      .update({ ...(await seal(ring, row.project_id, row.server_id, fields)), updated_at: new Date().toISOString() })
+      .eq("id", row.id);
+  }
+  return (rows?.length ?? 0) + await rekeyConnectionSecrets(db, ring);
+}
+
+/**
+ * Reseal external connections' headers and environment under the current
+ * key, including rows still in plaintext from before they were sealed.
+ */
+async function rekeyConnectionSecrets(db: Db, ring: VaultKeyring): Promise<number> {
+  const { data: rows } = await db
+    .from("mcp_connection_secrets")
+    .select("connection_id, key_version, wrapped_key, ciphertext, headers, env, mcp_connections(project_id)")
+    .or(`key_version.is.null,key_version.lt.${ring.current}`);
+  for (const row of rows || []) {
+    const { project_id: projectId } = row.mcp_connections as unknown as { project_id: string };
+    const aad = connectionSecretsAad(projectId, row.connection_id);
+    const secrets = row.ciphertext
+      ? await openValue(ring, aad, row as SealedCredential)
+      : { headers: row.headers ?? {}, env: row.env ?? {} };
+    await db.from("mcp_connection_secrets")
+      .update({ ...(await sealValue(ring, aad, secrets)), headers: null, env: null })
+      .eq("connection_id", row.connection_id);
+  }
+  return rows?.length ?? 0;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const db = getServiceClient();
+    const body = await req.json();
+    const { action, project_id, server_id } = body;
+
+    // Key rotation runs across projects, with the service key
+    if (action === "rekey") {
+      const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+      if (!serviceKey || !timingSafeEqual(req.headers.get("Authorization") ?? "", `Bearer ${serviceKey}`)) {
+        return json({ error: "Unauthorized" }, 401);
+      }
+      return json({ ok: true, resealed: await rekey(db) });
+    }
+
+    const user = await getUser(req);
+    if (!user) return json({ error: "Unauthorized" }, 401);
+    if (!project_id) return json({ error: "Missing project_id" }, 400);
+    const role = await projectRole(db, user.id, project_id);
+    if (!role) return json({ error: "Forbidden" }, 403);
+
+    switch (action) {
+      // ─── What's stored, never the values ───
+      case "list": {
+        const { data: credentials } = await db
+          .from("mcp_credentials")
+          .select(CREDENTIAL_COLUMNS)
+          .eq("project_id", project_id)
+          .order("server_id");
+
+        return json({ ok: true, role, credentials: credentials || [] });
+      }
+
+      // ─── Call a built-in server with the stored credentials ───
+      case "invoke": {
+        const { tool, input = {} } = body;
+        if (typeof server_id !== "string" || !isVaultServer(server_id)) return json({ error: `Unknown MCP server: ${server_id}` }, 400);
+        if (typeof tool !== "string" || !tool) return json({ error: "Missing tool" }, 400);
+        const invalidInput = checkToolInput(tool, input);
+        if (invalidInput) return json(invalidInput, 400);
+        return await invoke(db, req, user.id, role, project_id, server_id, tool, input);
+      }
+
+      // ─── Store or replace a server's credentials (owner) ───
+      case "set":
+      case "rotate": {
+        if (role !== "owner") return json({ error: "Only the project owner can change MCP credentials" }, 403);
+        if (typeof server_id !== "string") return json({ error: "Missing server_id" }, 400);
+        const existing = await loadSealed(db, project_id, server_id);
+        if (action === "rotate" && !existing) return json({ error: "No credentials stored for that server" }, 404);
+
+        const ring = keyring();
+        let fields: Record<string, string>;
+        if (action === "rotate" && !body.fields) {
+          // No new values: reseal the same ones under a fresh data key and the current vault key
+          fields = await open(ring, project_id, server_id, existing!);
+        } else {
+          const invalid = validateCredentialFields(server_id, body.fields);
+          if (invalid) return json({ error: invalid }, 400);
+          fields = normalizeCredentialFields(server_id, body.fields);
+        }
+        const allowedRoles = body.allowed_roles ?? existing?.allowed_roles ?? DEFAULT_CREDENTIAL_ROLES;
+        const invalidRoles = validateCredentialRoles(allowedRoles);
+        if (invalidRoles) return json({ error: invalidRoles }, 400);
+
+        const now = new Date().toISOString();
+        const { data: credential, error } = await db
+          .from("mcp_credentials")
+          .upsert({
+            project_id,
+            server_id,
+            ...(await seal(ring, project_id, server_id, fields)),
+            field_names: Object.keys(fields),
+            allowed_roles: [...new Set(allowedRoles)],
+            // Pasted values replace an OAuth connection; resealing one keeps it
+            ...(body.fields ? { auth_type: "token", expires_at: null, scopes: [], account_label: null } : {}),
+            updated_by: user.id,
+            updated_at: now,
+            ...(existing ? { rotated_at: now } : { created_by: user.id }),
+          }, { onConflict: "project_id,server_id" })
+          .select(CREDENTIAL_COLUMNS)
+          .single();
+        if (error) return json({ error: error.message }, 500);
+
+        return json({ ok: true, credential });
+      }
+
+      // ─── Which collaborators' calls may use them (owner) ───
+      case "set_access": {
+        if (role !== "owner") return json({ error: "Only the project owner can change MCP credentials" }, 403);
+        const invalid = validateCredentialRoles(body.allowed_roles);
+        if (invalid) return json({ error: invalid }, 400);
+
+        const { data: credential } = await db
+          .from("mcp_credentials")
+          .update({ allowed_roles: [...new Set(body.allowed_roles as string[])], updated_by: user.id, updated_at: new Date().toISOString() })
+          .eq("project_id", project_id)
+          .eq("server_id", server_id)
+          .select(CREDENTIAL_COLUMNS)
+          .maybeSingle();
+        if (!credential) return json({ error: "No credentials stored for that server" }, 404);
+
+        return json({ ok: true, credential });
+      }
+
+      // ─── Forget them (owner) ───
+      case "delete": {
+        if (role !== "owner") return json({ error: "Only the project owner can change MCP credentials" }, 403);
+        const existing = typeof server_id === "string" ? await loadSealed(db, project_id, server_id) : null;
+        if (existing?.auth_type === "oauth") await revokeConnection(project_id, server_id, existing);
+        const { data: deleted } = await db
+          .from("mcp_credentials")
+          .delete()
+          .eq("project_id", project_id)
+          .eq("server_id", server_id)
+          .select("id");
+        if (!deleted?.length) return json({ error: "No credentials stored for that server" }, 404);
+
+        return json({ ok: true });
+      }
+
+      // ─── Providers whose OAuth apps are configured ───
+      case "oauth_providers": {
+        const providers = OAUTH_PROVIDERS
+          .filter((p) => oauthClient(p))
+          .map((p) => ({ server_id: p.serverId, name: p.name, scopes: p.scopes }));
+        return json({ ok: true, providers });
+      }
+
+      // ─── Send the owner to the provider to authorize (owner) ───
+      case "oauth_start": {
+        if (role !== "owner") return json({ error: "Only the project owner can change MCP credentials" }, 403);
+        const provider = typeof server_id === "string" ? oauthProvider(server_id) : null;
+        const client = provider && oauthClient(provider);
+        if (!provider || !client) return json({ error: `OAuth isn't configured for ${server_id}` }, 400);
+        let origin: string;
+        try {
+          origin = new URL(body.origin).origin;
+        } catch {
+          return json({ error: "Missing origin" }, 400);
+        }
+        // Providers only redirect to the callback URLs registered with the app, so the origin needs no allowlist here
+        const redirectUri = `${origin}${provider.redirectPath}`;
+        const state = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+        const pkce = provider.pkce ? await createPkcePair(crypto.getRandomValues(new Uint8Array(32)), sha256) : null;
+
+        await db.from("mcp_oauth_states").delete().lt("expires_at", new Date().toISOString());
+        const { error } = await db.from("mcp_oauth_states").insert({
+          state_hash: await hashState(state),
+          project_id,
+          server_id,
+          user_id: user.id,
+          code_verifier: pkce?.verifier ?? null,
+          redirect_uri: redirectUri,
+          expires_at: new Date(Date.now() + OAUTH_STATE_TTL_MS).toISOString(),
+        });
+        if (error) return json({ error: error.message }, 500);
+
+        const url = buildAuthorizeUrl(provider, { clientId: client.clientId, redirectUri, state, codeChallenge: pkce?.challenge });
+        return json({ ok: true, url });
+      }
+
+      // ─── Exchange the code from the callback and store the tokens (owner) ───
+      case "oauth_finish": {
+        if (role !== "owner") return json({ error: "Only the project owner can change MCP credentials" }, 403);
+        const provider = typeof server_id === "string" ? oauthProvider(server_id) : null;
+        const client = provider && oauthClient(provider);
+        if (!provider || !client) return json({ error: `OAuth isn't configured for ${server_id}` }, 400);
+        if (typeof body.state !== "string" || typeof body.code !== "string") return json({ error: "Missing state or code" }, 400);
+
+        // Each state is good for one callback, from the user who started it
+        const { data: pending } = await db
+          .from("mcp_oauth_states")
+          .delete()
+          .eq("state_hash", await hashState(body.state))
+          .eq("project_id", project_id)
+          .eq("server_id", server_id)
+          .eq("user_id", user.id)
+          .gt("expires_at", new Date().toISOString())
+          .select("code_verifier, redirect_uri")
+          .maybeSingle();
+        if (!pending) return json({ error: "This authorization has expired; connect again" }, 400);
+
+        const tokens = await exchangeCode(
+          provider, client,
+          { code: body.code, redirectUri: pending.redirect_uri, codeVerifier: pending.code_verifier ?? undefined },
+          fetch, Date.now(),
+        );
+        const ring = keyring();
+        const existing = await loadSealed(db, project_id, server_id);
+        const fields = oauthFields(tokens);
+        const now = new Date().toISOString();
+        const { data: credential, error } = await db
+          .from("mcp_credentials")
+          .upsert({
+            project_id,
+            server_id,
+            ...(await seal(ring, project_id, server_id, fields)),
+            ...oauthColumns(tokens, fields),
+            account_label: tokens.label ?? null,
+            allowed_roles: existing?.allowed_roles ?? DEFAULT_CREDENTIAL_ROLES,
+            updated_by: user.id,
+            updated_at: now,
+            ...(existing ? { rotated_at: now } : { created_by: user.id }),
+          }, { onConflict: "project_id,server_id" })
+          .select(CREDENTIAL_COLUMNS)
+          .single();
+        if (error) return json({ error: error.message }, 500);
+
+        return json({ ok: true, credential });
+      }
+
+      default:
+        return json({ error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (e) {
+    console.error("mcp-vault error:", e);
+    if (e instanceof VaultKeyError) return json({ error: "vault_unavailable", detail: e.message }, 503);
+    if (e instanceof OAuthError) return json({ error: e.message, code: e.code }, 502);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ACTING_USER_HEADER, actingUserId } from "../_shared/mcp.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -47,6 +48,8 @@ function executeBuiltin(cmd: string, cwd: string): { handled: boolean; stdout?:
 async function getUser(req: Request) {
   const authHeader = req.headers.get("Authorization");
   if (!authHeader) return null;
+  const actingUser = actingUserId(authHeader, req.headers.get(ACTING_USER_HEADER), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+  if (actingUser) return { id: actingUser };
   const supabase = createClient(
     Deno.env.get("SUPABASE_URL")!,
     Deno.env.get("SUPABASE_ANON_KEY")!,
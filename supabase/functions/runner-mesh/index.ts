@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  isHeartbeatFresh, nextNodeStatus, parseNodeLoad, rankNodes, validateEnrollment, parseHeartbeat, heartbeatSigningInput,
+  HeartbeatError, ENROLLMENT_TOKEN_TTL_MS, HEARTBEAT_INTERVAL_MS,
+  type EnrollmentRequest, type MeshNode, type ScheduleRequest,
+} from "../_shared/mesh.ts";
+import { base64ToBytes } from "../_shared/attestation.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,6 +13,10 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
+const NODE_TIMEOUT_MS = 5000;
+/** Files per /sync call when restoring a workspace, well under the runner's body limit */
+const RESTORE_BATCH = 200;
+
 function getServiceClient() {
   return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
 }
@@ -28,168 +38,432 @@ function json(body: unknown, status = 200) {
   });
 }
 
-// ─── Node Scheduler ───
+async function isProjectMember(db: ReturnType<typeof createClient>, userId: string, projectId: string): Promise<boolean> {
+  const { data } = await db.rpc("is_project_member", { _user_id: userId, _project_id: projectId });
+  return data === true;
+}
 
-interface ScheduleRequest {
-  project_id: string;
-  required_capabilities?: {
-    runtimes?: string[];
-    web3?: string[];
-    gpu?: boolean;
-  };
-  trust_minimum?: string; // tier0, tier1, tier2
-  region?: string;
+// ─── Node credentials ───
+
+function toHex(buf: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buf)).map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
-async function scheduleNode(
-  db: ReturnType<typeof createClient>,
-  req: ScheduleRequest
-): Promise<{ node_id: string; name: string; base_url: string; trust_tier: string } | null> {
-  const trustOrder = ["tier0", "tier1", "tier2"];
-  const minTrustIdx = trustOrder.indexOf(req.trust_minimum || "tier0");
+async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data)));
+}
+
+/**
+ * The bearer credential the mesh presents to an enrolled node. It is derived
+ * from RUNNER_MESH_SECRET rather than stored, and handed to the node once at
+ * enrollment.
+ */
+async function nodeCredential(nodeId: string): Promise<string> {
+  const secret = Deno.env.get("RUNNER_MESH_SECRET");
+  if (!secret) throw new Error("RUNNER_MESH_SECRET is not configured");
+  const key = await crypto.subtle.importKey(
+    "raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"],
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`runner-node:${nodeId}`)));
+}
+
+/** Headers for calling a node: its own credential once enrolled, the shared secret for hand-registered nodes. */
+async function nodeHeaders(node: MeshNode, userId?: string, projectId?: string): Promise<Record<string, string>> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const secret = node.public_key ? await nodeCredential(node.id) : Deno.env.get("RUNNER_SHARED_SECRET");
+  if (secret) headers["Authorization"] = `Bearer ${secret}`;
+  if (userId) headers["x-user-id"] = userId;
+  if (projectId) headers["x-project-id"] = projectId;
+  return headers;
+}
+
+async function verifyNodeSignature(publicKey: string, signature: string, message: string): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey("raw", base64ToBytes(publicKey), { name: "Ed25519" }, false, ["verify"]);
+    return await crypto.subtle.verify("Ed25519", key, base64ToBytes(signature), new TextEncoder().encode(message));
+  } catch {
+    return false;
+  }
+}
+
+const NODE_COLUMNS =
+  "id, name, base_url, region, trust_tier, capabilities, status, last_heartbeat, load, health_failures, public_key";
+
+// ─── Health ───
+
+/** Probe a node's /health, record its load and move it between active, draining and offline. */
+async function checkNode(db: ReturnType<typeof createClient>, node: MeshNode): Promise<MeshNode> {
+  let load = null;
+  try {
+    const resp = await fetch(`${node.base_url}/health`, { signal: AbortSignal.timeout(NODE_TIMEOUT_MS) });
+    if (resp.ok) load = parseNodeLoad(await resp.json().catch(() => null));
+  } catch { /* timeout or network error */ }
+
+  const healthy = load !== null;
+  const { status, failures } = nextNodeStatus(healthy, load, node.health_failures || 0);
+  const update: Record<string, unknown> = { status, health_failures: failures };
+  if (healthy) {
+    update.load = load;
+    update.last_heartbeat = new Date().toISOString();
+  }
+  await db.from("runner_nodes").update(update).eq("id", node.id);
+  return { ...node, ...update } as MeshNode;
+}
 
-  // Get active nodes
-  const { data: nodes } = await db
+// ─── Node Scheduler ───
+
+/**
+ * The least loaded node that can take the session, or null when none can.
+ * Nodes whose metrics have gone stale are probed first rather than trusted.
+ */
+async function scheduleNode(db: ReturnType<typeof createClient>, req: ScheduleRequest): Promise<MeshNode | null> {
+  const { data } = await db
     .from("runner_nodes")
-    .select("*")
-    .eq("status", "active");
+    .select(NODE_COLUMNS)
+    .neq("status", "offline");
 
-  if (!nodes || nodes.length === 0) return null;
+  if (!data || data.length === 0) return null;
 
-  // Filter by trust tier
-  const eligible = nodes.filter((n) => {
-    const tierIdx = trustOrder.indexOf(n.trust_tier);
-    return tierIdx >= 0 && tierIdx <= (minTrustIdx >= 0 ? minTrustIdx : 2);
-  });
+  const now = Date.now();
+  const excluded = new Set(req.exclude_node_ids || []);
+  const nodes = await Promise.all((data as MeshNode[]).map((n) =>
+    excluded.has(n.id) || isHeartbeatFresh(n, now) ? n : checkNode(db, n)
+  ));
+  return rankNodes(nodes, req, Date.now())[0] || null;
+}
 
-  // Filter by capabilities
-  const matching = eligible.filter((n) => {
-    const caps = n.capabilities as {
-      runtimes?: string[];
-      web3?: string[];
-      gpu?: boolean;
-      maxConcurrency?: number;
-    };
-
-    if (req.required_capabilities?.runtimes?.length) {
-      const nodeRuntimes = caps.runtimes || [];
-      if (!req.required_capabilities.runtimes.every((r) => nodeRuntimes.includes(r))) return false;
-    }
-    if (req.required_capabilities?.web3?.length) {
-      const nodeWeb3 = caps.web3 || [];
-      if (!req.required_capabilities.web3.every((w) => nodeWeb3.includes(w))) return false;
-    }
-    if (req.required_capabilities?.gpu && !caps.gpu) return false;
-    return true;
+function nodeSummary(node: MeshNode) {
+  return { node_id: node.id, name: node.name, base_url: node.base_url, trust_tier: node.trust_tier, region: node.region };
+}
+
+// ─── Sessions ───
+
+class NodeError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+/** Whether the node still holds the session; false when it restarted or can't be reached. */
+async function remoteSessionAlive(node: MeshNode, remoteSessionId: string): Promise<boolean> {
+  try {
+    const resp = await fetch(`${node.base_url}/v1/sessions/${remoteSessionId}`, {
+      headers: await nodeHeaders(node), signal: AbortSignal.timeout(NODE_TIMEOUT_MS),
+    });
+    return resp.ok;
+  } catch {
+    return false;
+  }
+}
+
+async function createRemoteSession(
+  node: MeshNode,
+  { projectId, userId, runtimeType }: { projectId: string; userId: string; runtimeType: string },
+): Promise<string> {
+  let resp: Response;
+  try {
+    resp = await fetch(`${node.base_url}/v1/sessions`, {
+      method: "POST",
+      headers: await nodeHeaders(node, userId, projectId),
+      body: JSON.stringify({ project_id: projectId, runtime_type: runtimeType, user_id: userId }),
+      signal: AbortSignal.timeout(NODE_TIMEOUT_MS),
+    });
+  } catch {
+    throw new NodeError(502, "node_unreachable", `Runner node ${node.name} is unreachable`);
+  }
+  const data = await resp.json().catch(() => null) as { session_id?: string; error?: string; code?: string } | null;
+  if (!resp.ok || !data?.session_id) {
+    throw new NodeError(
+      resp.ok ? 502 : resp.status,
+      data?.code || "node_unreachable",
+      data?.error || `Runner node ${node.name} returned ${resp.status}`,
+    );
+  }
+  return data.session_id;
+}
+
+/**
+ * Sync the project's latest snapshot into a fresh session, so a session that
+ * failed over picks up where the workspace was last captured. Returns the
+ * snapshot restored, or null when the project has none.
+ */
+async function restoreWorkspace(
+  db: ReturnType<typeof createClient>,
+  node: MeshNode,
+  remoteSessionId: string,
+  { projectId, userId }: { projectId: string; userId: string },
+): Promise<string | null> {
+  const { data: snapshot } = await db
+    .from("ca_snapshots")
+    .select("id")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (!snapshot) return null;
+
+  const { data: entries } = await db
+    .from("ca_path_index")
+    .select("path, ca_blobs(content, encoding)")
+    .eq("snapshot_id", snapshot.id);
+  const files = (entries || [])
+    .map((e) => ({ path: e.path as string, blob: e.ca_blobs as { content: string; encoding: string } | null }))
+    .filter((e) => e.blob && e.blob.encoding !== "base64")
+    .map((e) => ({ path: e.path, content: e.blob!.content }));
+
+  const headers = await nodeHeaders(node, userId, projectId);
+  for (let i = 0; i < files.length; i += RESTORE_BATCH) {
+    const resp = await fetch(`${node.base_url}/v1/sessions/${remoteSessionId}/sync`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ files: files.slice(i, i + RESTORE_BATCH) }),
+    });
+    if (!resp.ok) throw new NodeError(502, "restore_failed", `Restoring the workspace failed with ${resp.status}`);
+  }
+  return snapshot.id;
+}
+
+// ─── Enrollment & heartbeats ───
+
+const TRUST_TIERS = ["tier0", "tier1", "tier2"];
+
+/** Register a node that presents an unused enrollment token. The token is spent whether or not the node ever heartbeats. */
+async function enrollNode(db: ReturnType<typeof createClient>, body: Partial<EnrollmentRequest>): Promise<Response> {
+  const invalid = validateEnrollment(body);
+  if (invalid) return json({ error: invalid }, 400);
+  if (!Deno.env.get("RUNNER_MESH_SECRET")) return json({ error: "Runner enrollment is not configured" }, 503);
+  const enrollment = body as EnrollmentRequest;
+
+  // Checking and spending the token is one update, so it can only be redeemed once
+  const now = new Date().toISOString();
+  const { data: token } = await db
+    .from("runner_enrollment_tokens")
+    .update({ used_at: now })
+    .eq("token_hash", await sha256Hex(enrollment.token))
+    .is("used_at", null)
+    .gt("expires_at", now)
+    .select("id, created_by, trust_tier, region")
+    .maybeSingle();
+  if (!token) return json({ error: "Invalid or expired enrollment token" }, 401);
+
+  // No heartbeat yet, so nothing is scheduled on it until it reports in
+  const { data: node, error } = await db.from("runner_nodes").insert({
+    name: enrollment.name,
+    base_url: enrollment.base_url,
+    region: token.region ?? enrollment.region ?? null,
+    trust_tier: token.trust_tier,
+    capabilities: enrollment.capabilities,
+    fingerprint: enrollment.fingerprint,
+    public_key: enrollment.public_key,
+    owner_id: token.created_by,
+    enrolled_at: now,
+  }).select("id").single();
+  if (error) return json({ error: error.message }, 500);
+  await db.from("runner_enrollment_tokens").update({ node_id: node.id }).eq("id", token.id);
+
+  return json({
+    ok: true,
+    node_id: node.id,
+    node_secret: await nodeCredential(node.id),
+    heartbeat_interval_ms: HEARTBEAT_INTERVAL_MS,
   });
+}
 
-  if (matching.length === 0) return eligible.length > 0
-    ? { node_id: eligible[0].id, name: eligible[0].name, base_url: eligible[0].base_url, trust_tier: eligible[0].trust_tier }
-    : null;
-
-  // Prefer region match, then tier0
-  const regionMatch = req.region
-    ? matching.find((n) => n.region === req.region)
-    : null;
-
-  const selected = regionMatch || matching.sort((a, b) => {
-    const aIdx = trustOrder.indexOf(a.trust_tier);
-    const bIdx = trustOrder.indexOf(b.trust_tier);
-    return aIdx - bIdx;
-  })[0];
-
-  return {
-    node_id: selected.id,
-    name: selected.name,
-    base_url: selected.base_url,
-    trust_tier: selected.trust_tier,
-  };
+/** Record a heartbeat signed with the key the node enrolled with. */
+async function acceptHeartbeat(
+  db: ReturnType<typeof createClient>,
+  { node_id, body, signature }: { node_id?: string; body?: string; signature?: string },
+): Promise<Response> {
+  if (!node_id || typeof body !== "string" || typeof signature !== "string") {
+    return json({ error: "Missing node_id, body or signature" }, 400);
+  }
+  const { data: node } = await db
+    .from("runner_nodes")
+    .select(`${NODE_COLUMNS}, last_heartbeat_ts`)
+    .eq("id", node_id)
+    .maybeSingle();
+  if (!node?.public_key || !(await verifyNodeSignature(node.public_key, signature, heartbeatSigningInput(body)))) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  let heartbeat;
+  try {
+    heartbeat = parseHeartbeat(body, { nodeId: node.id, now: Date.now(), lastTimestamp: Number(node.last_heartbeat_ts) || 0 });
+  } catch (e) {
+    if (e instanceof HeartbeatError) return json({ error: e.message }, 409);
+    throw e;
+  }
+
+  const load = parseNodeLoad(heartbeat.health);
+  const { status, failures } = nextNodeStatus(load !== null, load, node.health_failures || 0);
+  const update: Record<string, unknown> = { status, health_failures: failures, last_heartbeat_ts: heartbeat.timestamp };
+  if (load) {
+    update.load = load;
+    update.last_heartbeat = new Date().toISOString();
+  }
+  if (heartbeat.capabilities) update.capabilities = heartbeat.capabilities;
+  if (heartbeat.fingerprint) update.fingerprint = heartbeat.fingerprint;
+
+  // Conditional on the stored timestamp so two copies of one heartbeat can't both land
+  const { data: updated } = await db
+    .from("runner_nodes")
+    .update(update)
+    .eq("id", node.id)
+    .lt("last_heartbeat_ts", heartbeat.timestamp)
+    .select("id")
+    .maybeSingle();
+  if (!updated) return json({ error: "Heartbeat is not newer than the last one" }, 409);
+
+  return json({ ok: true, status, heartbeat_interval_ms: HEARTBEAT_INTERVAL_MS });
 }
 
 serve(async (req) => {
   if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
 
   try {
-    const user = await getUser(req);
-    if (!user) return json({ error: "Unauthorized" }, 401);
-
     const body = await req.json();
     const { action } = body;
     const db = getServiceClient();
 
+    // Nodes authenticate themselves: with a one-time token to enroll, then by signature
+    if (action === "enroll") return await enrollNode(db, body);
+    if (action === "heartbeat") return await acceptHeartbeat(db, body);
+
+    const user = await getUser(req);
+    if (!user) return json({ error: "Unauthorized" }, 401);
+
     switch (action) {
       // ─── List nodes ───
       case "list_nodes": {
         const { data: nodes } = await db
           .from("runner_nodes")
-          .select("id, name, base_url, region, trust_tier, capabilities, pricing, status, last_heartbeat")
+          .select("id, name, base_url, region, trust_tier, capabilities, pricing, status, last_heartbeat, load, health_failures")
           .order("trust_tier")
           .order("name");
 
         return json({ ok: true, nodes: nodes || [] });
       }
 
+      // ─── One-time token a new node enrolls with ───
+      case "create_enrollment_token": {
+        const { trust_tier = "tier2", region } = body;
+        if (!TRUST_TIERS.includes(trust_tier)) return json({ error: "Invalid trust_tier" }, 400);
+        // Anyone may contribute community nodes; only mesh admins vouch for higher tiers
+        const admins = (Deno.env.get("RUNNER_MESH_ADMIN_IDS") || "").split(",").map((id) => id.trim());
+        if (trust_tier !== "tier2" && !admins.includes(user.id)) {
+          return json({ error: "Only mesh admins can enroll tier0 or tier1 nodes" }, 403);
+        }
+
+        const token = `srn_${toHex(crypto.getRandomValues(new Uint8Array(32)).buffer)}`;
+        const expiresAt = new Date(Date.now() + ENROLLMENT_TOKEN_TTL_MS).toISOString();
+        const { error } = await db.from("runner_enrollment_tokens").insert({
+          token_hash: await sha256Hex(token),
+          created_by: user.id,
+          trust_tier,
+          region: region || null,
+          expires_at: expiresAt,
+        });
+        if (error) return json({ error: error.message }, 500);
+
+        return json({ ok: true, token, trust_tier, expires_at: expiresAt });
+      }
+
       // ─── Schedule a node for a project ───
       case "schedule": {
-        const { project_id, required_capabilities, trust_minimum, region } = body;
+        const { project_id, required_capabilities, trust_minimum, region, exclude_node_ids } = body;
         if (!project_id) return json({ error: "Missing project_id" }, 400);
 
-        const node = await scheduleNode(db, { project_id, required_capabilities, trust_minimum, region });
-        if (!node) return json({ error: "No suitable runner node available" }, 503);
+        const node = await scheduleNode(db, { required_capabilities, trust_minimum, region, exclude_node_ids });
+        if (!node) return json({ error: "No healthy runner node available", code: "no_healthy_node" }, 503);
 
-        return json({ ok: true, node });
+        return json({ ok: true, node: nodeSummary(node) });
       }
 
-      // ─── Create/get session on a node ───
+      // ─── Create/get session on a node, failing over when its node is gone ───
       case "get_session": {
-        const { project_id, runner_node_id } = body;
-        if (!project_id || !runner_node_id) return json({ error: "Missing fields" }, 400);
+        const { project_id, runner_node_id, runtime_type, required_capabilities, trust_minimum, region } = body;
+        if (!project_id) return json({ error: "Missing project_id" }, 400);
+        if (!(await isProjectMember(db, user.id, project_id))) return json({ error: "Forbidden" }, 403);
 
-        // Check existing session
-        const { data: existing } = await db
+        let existingQuery = db
           .from("runner_sessions")
           .select("*")
           .eq("project_id", project_id)
-          .eq("runner_node_id", runner_node_id)
-          .single();
+          .eq("status", "active");
+        if (runner_node_id) existingQuery = existingQuery.eq("runner_node_id", runner_node_id);
+        const { data: existing } = await existingQuery
+          .order("updated_at", { ascending: false })
+          .limit(1)
+          .maybeSingle();
 
         if (existing) {
-          return json({ ok: true, session: existing, reused: true });
+          const { data: node } = await db.from("runner_nodes").select(NODE_COLUMNS).eq("id", existing.runner_node_id).single();
+          // Draining nodes keep serving the sessions they have
+          if (node && node.status !== "offline" && await remoteSessionAlive(node as MeshNode, existing.remote_session_id)) {
+            const { data: session } = await db
+              .from("runner_sessions")
+              .update({ updated_at: new Date().toISOString() })
+              .eq("id", existing.id)
+              .select("*")
+              .single();
+            return json({ ok: true, session: session || existing, node: nodeSummary(node as MeshNode), reused: true });
+          }
         }
 
-        // Get node
-        const { data: node } = await db
-          .from("runner_nodes")
-          .select("base_url")
-          .eq("id", runner_node_id)
-          .single();
-
-        if (!node) return json({ error: "Node not found" }, 404);
+        let target: MeshNode | null;
+        if (runner_node_id && !existing) {
+          const { data: node } = await db.from("runner_nodes").select(NODE_COLUMNS).eq("id", runner_node_id).single();
+          if (!node) return json({ error: "Node not found" }, 404);
+          target = node as MeshNode;
+        } else {
+          target = await scheduleNode(db, {
+            required_capabilities, trust_minimum, region,
+            exclude_node_ids: existing ? [existing.runner_node_id] : [],
+          });
+        }
+        if (!target) return json({ error: "No healthy runner node available", code: "no_healthy_node" }, 503);
 
-        // Create remote session (best-effort call to node API)
-        let remoteSessionId = `session-${Date.now()}`;
         try {
-          const resp = await fetch(`${node.base_url}/v1/sessions`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ projectId: project_id }),
+          const remoteSessionId = await createRemoteSession(target, {
+            projectId: project_id, userId: user.id, runtimeType: runtime_type || "node",
           });
-          if (resp.ok) {
-            const data = await resp.json();
-            remoteSessionId = data.session_id || remoteSessionId;
+          const restoredSnapshotId = existing
+            ? await restoreWorkspace(db, target, remoteSessionId, { projectId: project_id, userId: user.id })
+            : null;
+
+          if (existing) await db.from("runner_sessions").update({ status: "failed_over" }).eq("id", existing.id);
+          const { data: session, error } = await db.from("runner_sessions").upsert({
+            project_id,
+            runner_node_id: target.id,
+            remote_session_id: remoteSessionId,
+            status: "active",
+            failed_over_from: existing ? existing.runner_node_id : null,
+            restored_snapshot_id: restoredSnapshotId,
+            updated_at: new Date().toISOString(),
+          }, { onConflict: "project_id,runner_node_id" }).select("*").single();
+          if (error) return json({ error: error.message }, 500);
+
+          if (existing) {
+            await db.from("project_events").insert({
+              project_id,
+              actor_type: "system",
+              actor_id: null,
+              event_type: "runner.failover",
+              payload: {
+                from_node_id: existing.runner_node_id,
+                to_node_id: target.id,
+                to_node_name: target.name,
+                restored_snapshot_id: restoredSnapshotId,
+              },
+            });
           }
-        } catch {
-          // Node may not be reachable yet; use generated ID
+          return json({ ok: true, session, node: nodeSummary(target), reused: false, failed_over: Boolean(existing) });
+        } catch (e) {
+          if (!(e instanceof NodeError)) throw e;
+          // A node that can't open sessions shouldn't be picked again before its next check
+          if (e.code === "node_unreachable") await checkNode(db, target);
+          return json({ error: e.message, code: e.code }, e.status);
         }
-
-        const { data: session, error } = await db.from("runner_sessions").insert({
-          project_id,
-          runner_node_id,
-          remote_session_id: remoteSessionId,
-        }).select("*").single();
-
-        if (error) return json({ error: error.message }, 500);
-        return json({ ok: true, session, reused: false });
       }
 
       // ─── Node health check ───
@@ -197,38 +471,32 @@ serve(async (req) => {
         const { node_id } = body;
         if (!node_id) return json({ error: "Missing node_id" }, 400);
 
-        const { data: node } = await db
-          .from("runner_nodes")
-          .select("base_url, name, status")
-          .eq("id", node_id)
-          .single();
-
+        const { data: node } = await db.from("runner_nodes").select(NODE_COLUMNS).eq("id", node_id).single();
         if (!node) return json({ error: "Node not found" }, 404);
 
-        let healthy = false;
+        const checked = await checkNode(db, node as MeshNode);
+        const healthy = checked.health_failures === 0;
         let fingerprint = null;
-        try {
-          const resp = await fetch(`${node.base_url}/v1/health`, { signal: AbortSignal.timeout(5000) });
-          healthy = resp.ok;
-          if (resp.ok) {
-            try {
-              const fpResp = await fetch(`${node.base_url}/v1/fingerprint`, { signal: AbortSignal.timeout(5000) });
-              if (fpResp.ok) fingerprint = await fpResp.json();
-            } catch { /* ignore */ }
-          }
-        } catch { /* timeout or network error */ }
-
-        // Update heartbeat
         if (healthy) {
-          await db.from("runner_nodes").update({
-            last_heartbeat: new Date().toISOString(),
-            status: "active",
-          }).eq("id", node_id);
-        } else {
-          await db.from("runner_nodes").update({ status: "degraded" }).eq("id", node_id);
+          try {
+            const fpResp = await fetch(`${checked.base_url}/v1/fingerprint`, {
+              headers: await nodeHeaders(checked), signal: AbortSignal.timeout(NODE_TIMEOUT_MS),
+            });
+            if (fpResp.ok) fingerprint = await fpResp.json();
+          } catch { /* ignore */ }
         }
 
-        return json({ ok: true, healthy, fingerprint, node_name: node.name });
+        return json({ ok: true, healthy, status: checked.status, load: checked.load, fingerprint, node_name: checked.name });
+      }
+
+      // ─── Check every node ───
+      case "check_nodes": {
+        const { data: nodes } = await db.from("runner_nodes").select(NODE_COLUMNS);
+        const checked = await Promise.all(((nodes || []) as MeshNode[]).map((n) => checkNode(db, n)));
+        return json({
+          ok: true,
+          nodes: checked.map((n) => ({ ...nodeSummary(n), status: n.status, load: n.load, health_failures: n.health_failures })),
+        });
       }
 
       // ─── Node fingerprint ───
@@ -236,11 +504,13 @@ serve(async (req) => {
         const { node_id } = body;
         if (!node_id) return json({ error: "Missing node_id" }, 400);
 
-        const { data: node } = await db.from("runner_nodes").select("base_url").eq("id", node_id).single();
+        const { data: node } = await db.from("runner_nodes").select(NODE_COLUMNS).eq("id", node_id).single();
         if (!node) return json({ error: "Node not found" }, 404);
 
         try {
-          const resp = await fetch(`${node.base_url}/v1/fingerprint`, { signal: AbortSignal.timeout(5000) });
+          const resp = await fetch(`${node.base_url}/v1/fingerprint`, {
+            headers: await nodeHeaders(node as MeshNode), signal: AbortSignal.timeout(NODE_TIMEOUT_MS),
+          });
           if (!resp.ok) return json({ error: "Fingerprint unavailable" }, 502);
           const data = await resp.json();
           return json({ ok: true, fingerprint: data });
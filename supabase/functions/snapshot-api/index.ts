@@ -1,5 +1,42 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  applyPatchesToFiles,
+  parseUnifiedDiff,
+  findMergeBase,
+  mergeFileSets,
+  applyMergeResolutions,
+  replaySnapshot,
+  DEFAULT_FILE_MODE,
+  type PatchFile,
+  type TreeMergeResult,
+} from "../_shared/patch.ts";
+import {
+  checkRefWrite,
+  findRefRule,
+  validateRefName,
+  validateRefPattern,
+  type ProjectRole,
+  type RefRule,
+  type RefWriteKind,
+} from "../_shared/refs.ts";
+import {
+  exportBundle,
+  importRepository,
+  GitFormatError,
+  type ExportCommit,
+  type GitPerson,
+  type ImportedRepository,
+} from "../_shared/git-bundle.ts";
+import { ACTING_USER_HEADER, actingUserId } from "../_shared/mcp.ts";
+import {
+  attestsPassingBuild,
+  base64ToBytes,
+  openEnvelope,
+  verifyEnvelope,
+  AttestationFormatError,
+  type DsseEnvelope,
+} from "../_shared/attestation.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -55,6 +92,8 @@ function getServiceClient() {
 async function getUser(req: Request) {
   const authHeader = req.headers.get("Authorization");
   if (!authHeader) return null;
+  const actingUser = actingUserId(authHeader, req.headers.get(ACTING_USER_HEADER), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+  if (actingUser) return { id: actingUser };
   const supabase = createClient(
     Deno.env.get("SUPABASE_URL")!,
     Deno.env.get("SUPABASE_ANON_KEY")!,
@@ -77,11 +116,24 @@ interface TreeEntry {
   name: string;
   type: "blob" | "tree";
   hash: string;
+  // Only recorded for non-default blob modes, so existing tree hashes stay stable
+  mode?: string;
 }
 
+/** Mode field to store alongside a file, omitted for the default mode */
+function modeField(mode?: string): { mode?: string } {
+  return mode && mode !== DEFAULT_FILE_MODE ? { mode } : {};
+}
+
+/**
+ * Hash and store a file set's blobs and trees. `written` collects hashes
+ * already stored by this request, so a batch of related snapshots (an
+ * import) doesn't upsert the same objects over and over.
+ */
 async function buildMerkleDAG(
   db: ReturnType<typeof createClient>,
-  files: Array<{ path: string; content: string }>
+  files: PatchFile[],
+  written?: Set<string>
 ): Promise<{ rootHash: string; blobHashes: Map<string, string>; treeHashes: Map<string, string> }> {
   const blobHashes = new Map<string, string>();
   const treeHashes = new Map<string, string>();
@@ -97,7 +149,7 @@ async function buildMerkleDAG(
 
   // Deduplicate blobs
   const uniqueBlobs = new Map<string, typeof blobInserts[0]>();
-  for (const b of blobInserts) uniqueBlobs.set(b.hash, b);
+  for (const b of blobInserts) if (!written?.has(b.hash)) uniqueBlobs.set(b.hash, b);
 
   if (uniqueBlobs.size > 0) {
     // Upsert blobs (ignore conflicts on hash PK)
@@ -106,12 +158,13 @@ async function buildMerkleDAG(
       { onConflict: "hash", ignoreDuplicates: true }
     );
     if (error) console.error("Blob upsert error:", error);
+    else for (const hash of uniqueBlobs.keys()) written?.add(hash);
   }
 
   // 2. Build directory structure
   interface DirNode {
     children: Map<string, DirNode>;
-    files: Map<string, string>; // name -> blob hash
+    files: Map<string, { hash: string; mode?: string }>;
   }
 
   const root: DirNode = { children: new Map(), files: new Map() };
@@ -127,7 +180,7 @@ async function buildMerkleDAG(
       }
       current = current.children.get(dir)!;
     }
-    current.files.set(fileName, blobHashes.get(normalizePath(f.path))!);
+    current.files.set(fileName, { hash: blobHashes.get(normalizePath(f.path))!, ...modeField(f.mode) });
   }
 
   // 3. Recursively hash trees (bottom-up)
@@ -135,8 +188,8 @@ async function buildMerkleDAG(
     const entries: TreeEntry[] = [];
 
     // Files
-    for (const [name, hash] of node.files) {
-      entries.push({ name, type: "blob", hash });
+    for (const [name, { hash, mode }] of node.files) {
+      entries.push({ name, type: "blob", hash, ...modeField(mode) });
     }
 
     // Sub-directories
@@ -153,10 +206,13 @@ async function buildMerkleDAG(
     treeHashes.set(dirPath || "/", hash);
 
     // Insert tree
-    await db.from("ca_trees").upsert(
-      { hash, entries },
-      { onConflict: "hash", ignoreDuplicates: true }
-    );
+    if (!written?.has(hash)) {
+      await db.from("ca_trees").upsert(
+        { hash, entries },
+        { onConflict: "hash", ignoreDuplicates: true }
+      );
+      written?.add(hash);
+    }
 
     return hash;
   }
@@ -170,11 +226,11 @@ async function buildMerkleDAG(
 async function checkoutSnapshot(
   db: ReturnType<typeof createClient>,
   snapshotId: string
-): Promise<Array<{ path: string; content: string }>> {
+): Promise<PatchFile[]> {
   // Fast path: use path index
   const { data: indexed } = await db
     .from("ca_path_index")
-    .select("path, blob_hash")
+    .select("path, blob_hash, mode")
     .eq("snapshot_id", snapshotId);
 
   if (indexed && indexed.length > 0) {
@@ -188,6 +244,7 @@ async function checkoutSnapshot(
     return indexed.map((i) => ({
       path: i.path,
       content: blobMap.get(i.blob_hash) || "",
+      ...modeField(i.mode),
     }));
   }
 
@@ -200,7 +257,7 @@ async function checkoutSnapshot(
 
   if (!snapshot) return [];
 
-  const files: Array<{ path: string; content: string }> = [];
+  const files: PatchFile[] = [];
 
   async function walkTree(treeHash: string, prefix: string) {
     const { data: tree } = await db
@@ -220,7 +277,7 @@ async function checkoutSnapshot(
           .select("content")
           .eq("hash", entry.hash)
           .single();
-        if (blob) files.push({ path: fullPath, content: blob.content });
+        if (blob) files.push({ path: fullPath, content: blob.content, ...modeField(entry.mode) });
       } else {
         await walkTree(entry.hash, fullPath);
       }
@@ -241,8 +298,10 @@ async function diffSnapshots(
   const oldFiles = await checkoutSnapshot(db, oldSnapshotId);
   const newFiles = await checkoutSnapshot(db, newSnapshotId);
 
-  const oldMap = new Map(oldFiles.map((f) => [f.path, f.content]));
-  const newMap = new Map(newFiles.map((f) => [f.path, f.content]));
+  // A mode change counts as a modification
+  const key = (f: PatchFile) => `${f.mode ?? DEFAULT_FILE_MODE}:${f.content}`;
+  const oldMap = new Map(oldFiles.map((f) => [f.path, key(f)]));
+  const newMap = new Map(newFiles.map((f) => [f.path, key(f)]));
 
   const added: string[] = [];
   const modified: string[] = [];
@@ -260,6 +319,371 @@ async function diffSnapshots(
   return { added, modified, deleted };
 }
 
+// ─── Refs and merge snapshots ───
+
+async function getRefSnapshot(
+  db: ReturnType<typeof createClient>,
+  projectId: string,
+  refName: string
+): Promise<string | null> {
+  const { data: ref } = await db
+    .from("ca_refs")
+    .select("snapshot_id")
+    .eq("project_id", projectId)
+    .eq("ref_name", refName)
+    .single();
+  return ref?.snapshot_id ?? null;
+}
+
+async function setRef(
+  db: ReturnType<typeof createClient>,
+  projectId: string,
+  refName: string,
+  snapshotId: string,
+  userId: string
+) {
+  await db.from("ca_refs").upsert({
+    project_id: projectId,
+    ref_name: refName,
+    snapshot_id: snapshotId,
+    updated_by: userId,
+    updated_at: new Date().toISOString(),
+  }, { onConflict: "project_id,ref_name" });
+}
+
+async function snapshotParents(db: ReturnType<typeof createClient>, snapshotId: string): Promise<string[]> {
+  const { data } = await db
+    .from("ca_snapshots")
+    .select("parent_snapshot_id, merge_parent_snapshot_id")
+    .eq("id", snapshotId)
+    .single();
+  if (!data) return [];
+  return [data.parent_snapshot_id, data.merge_parent_snapshot_id].filter(Boolean) as string[];
+}
+
+interface SnapshotMeta {
+  id: string;
+  project_id: string;
+  parent_snapshot_id: string | null;
+  label: string | null;
+}
+
+async function getSnapshotMeta(db: ReturnType<typeof createClient>, snapshotId: string): Promise<SnapshotMeta | null> {
+  const { data } = await db
+    .from("ca_snapshots")
+    .select("id, project_id, parent_snapshot_id, label")
+    .eq("id", snapshotId)
+    .single();
+  return data ?? null;
+}
+
+/** Longest chain of snapshots a single rebase will replay. */
+const MAX_REBASE_SNAPSHOTS = 200;
+
+/** Three-way merge of two snapshots' files; an unknown base merges as if both sides added everything. */
+async function mergeSnapshots(
+  db: ReturnType<typeof createClient>,
+  baseId: string | null,
+  oursId: string,
+  theirsId: string,
+  labels: { ours: string; theirs: string }
+): Promise<TreeMergeResult> {
+  const base = baseId ? await checkoutSnapshot(db, baseId) : [];
+  const ours = await checkoutSnapshot(db, oursId);
+  const theirs = await checkoutSnapshot(db, theirsId);
+  return mergeFileSets(base, ours, theirs, labels);
+}
+
+interface SnapshotLinks {
+  parentId: string | null;
+  /** Second parent, for merges */
+  mergeParentId?: string;
+  /** Snapshot this one was cherry-picked or rebased from */
+  originId?: string;
+  label: string;
+}
+
+/** Store a file set as a new snapshot with the given parents, without moving any ref. */
+async function insertSnapshot(
+  db: ReturnType<typeof createClient>,
+  projectId: string,
+  files: PatchFile[],
+  links: SnapshotLinks,
+  userId: string,
+  written?: Set<string>
+): Promise<string | null> {
+  const { rootHash, blobHashes } = await buildMerkleDAG(db, files, written);
+
+  const { data: snapshot } = await db
+    .from("ca_snapshots")
+    .insert({
+      project_id: projectId,
+      root_tree_hash: rootHash,
+      parent_snapshot_id: links.parentId,
+      merge_parent_snapshot_id: links.mergeParentId ?? null,
+      origin_snapshot_id: links.originId ?? null,
+      label: links.label,
+      created_by: userId,
+    })
+    .select("id")
+    .single();
+
+  if (!snapshot) return null;
+
+  const pathEntries = files.map((f) => ({
+    project_id: projectId,
+    snapshot_id: snapshot.id,
+    path: normalizePath(f.path),
+    blob_hash: blobHashes.get(normalizePath(f.path))!,
+    mode: f.mode || DEFAULT_FILE_MODE,
+  }));
+  if (pathEntries.length > 0) await db.from("ca_path_index").insert(pathEntries);
+
+  return snapshot.id;
+}
+
+// ─── Ref permissions ───
+
+async function getProjectRole(
+  db: ReturnType<typeof createClient>,
+  projectId: string,
+  userId: string
+): Promise<ProjectRole | null> {
+  const { data: project } = await db.from("projects").select("owner_id").eq("id", projectId).single();
+  if (!project) return null;
+  if (project.owner_id === userId) return "owner";
+
+  const { data: collaborator } = await db
+    .from("project_collaborators")
+    .select("role")
+    .eq("project_id", projectId)
+    .eq("user_id", userId)
+    .eq("accepted", true)
+    .maybeSingle();
+  return (collaborator?.role as ProjectRole | undefined) ?? null;
+}
+
+async function loadRefRules(db: ReturnType<typeof createClient>, projectId: string): Promise<RefRule[]> {
+  const { data } = await db
+    .from("ca_ref_rules")
+    .select("pattern, min_role, protected, require_passing_build")
+    .eq("project_id", projectId);
+  return (data || []).map((r) => ({
+    pattern: r.pattern,
+    minRole: r.min_role,
+    protected: r.protected,
+    requirePassingBuild: r.require_passing_build,
+  }));
+}
+
+async function verifySignature(publicKey: string, signature: Uint8Array, message: Uint8Array): Promise<boolean> {
+  const key = await crypto.subtle.importKey("raw", base64ToBytes(publicKey), { name: "Ed25519" }, false, ["verify"]);
+  return crypto.subtle.verify("Ed25519", key, signature, message);
+}
+
+/**
+ * Whether this snapshot has a successful build that stands up on its own: an
+ * attestation signed with one of the project's keys, saying this run built
+ * this snapshot and exited 0, for a run whose artifacts the runner captured
+ * or that a replay reproduced. A build_runs row alone is whatever a project
+ * member reported through complete_run.
+ */
+async function hasPassingBuild(db: ReturnType<typeof createClient>, projectId: string, snapshotId: string): Promise<boolean> {
+  const { data: snapshot } = await db
+    .from("ca_snapshots")
+    .select("root_tree_hash")
+    .eq("id", snapshotId)
+    .eq("project_id", projectId)
+    .maybeSingle();
+  if (!snapshot) return false;
+
+  const { data: runs } = await db
+    .from("build_runs")
+    .select("id, build_attestations!inner(envelope), artifact_captures(id), build_replays(id)")
+    .eq("project_id", projectId)
+    .eq("input_snapshot_id", snapshotId)
+    .eq("status", "ok")
+    .eq("exit_code", 0)
+    .eq("build_replays.status", "done")
+    .eq("build_replays.verdict", "reproducible");
+  const evidenced = (runs || []).filter((r) => r.artifact_captures.length > 0 || r.build_replays.length > 0);
+  if (evidenced.length === 0) return false;
+
+  // Revoked keys still verify what they signed before rotation, as in verify_attestation
+  const { data: keys } = await db
+    .from("attestation_signing_keys")
+    .select("key_id, public_key")
+    .eq("project_id", projectId);
+  const verify = async (keyId: string, signature: Uint8Array, message: Uint8Array) => {
+    const key = (keys || []).find((k: { key_id: string }) => k.key_id === keyId);
+    return key ? verifySignature(key.public_key, signature, message) : false;
+  };
+
+  for (const run of evidenced) {
+    for (const { envelope } of run.build_attestations as { envelope: DsseEnvelope | null }[]) {
+      if (!envelope) continue;
+      try {
+        const statement = openEnvelope(envelope);
+        const expected = { buildRunId: run.id, projectId, snapshotId, rootTreeHash: snapshot.root_tree_hash };
+        if (attestsPassingBuild(statement, expected) && (await verifyEnvelope(envelope, verify))) return true;
+      } catch (e) {
+        if (!(e instanceof AttestationFormatError)) throw e;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Check the user may move `refName`; returns the error response when not.
+ * Merges pass the snapshot being merged so build requirements can be checked.
+ */
+async function authorizeRefWrite(
+  db: ReturnType<typeof createClient>,
+  projectId: string,
+  userId: string,
+  refName: string,
+  kind: RefWriteKind,
+  mergedSnapshotId?: string
+): Promise<Response | null> {
+  const role = await getProjectRole(db, projectId, userId);
+  const rules = await loadRefRules(db, projectId);
+  const rule = findRefRule(rules, refName);
+  const passing = kind === "merge" && rule.requirePassingBuild && mergedSnapshotId
+    ? await hasPassingBuild(db, projectId, mergedSnapshotId)
+    : false;
+  const decision = checkRefWrite(rules, refName, role, kind, passing);
+  if (decision.ok) return null;
+  return json({ error: decision.message, code: decision.code, ref_name: refName }, 403);
+}
+
+// ─── Storage accounting ───
+
+/** How long a measured storage_mb is trusted before snapshot writes re-measure it. */
+const STORAGE_REFRESH_MS = 15 * 60 * 1000;
+const DEFAULT_STORAGE_MB = 500;
+const DEFAULT_RETENTION_DAYS = 30;
+
+interface ProjectStorage {
+  project_id: string;
+  snapshots: number;
+  path_index_rows: number;
+  blobs: number;
+  blob_bytes: number;
+}
+
+function currentPeriod(): { start: string; end: string } {
+  const now = new Date();
+  return {
+    start: `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, "0")}-01`,
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).toISOString().slice(0, 10),
+  };
+}
+
+async function projectStorage(db: ReturnType<typeof createClient>, projectId: string): Promise<ProjectStorage> {
+  const { data, error } = await db.rpc("ca_project_storage", { _project_id: projectId });
+  if (error) throw new Error(`Storage accounting failed: ${error.message}`);
+  return data as ProjectStorage;
+}
+
+/**
+ * The project owner's storage for this billing period and their plan's quota.
+ * Re-measures every owned project and records storage_mb on the usage ledger
+ * when the last measurement is stale (or `force` is set).
+ */
+async function ownerStorageUsage(
+  db: ReturnType<typeof createClient>,
+  projectId: string,
+  force = false
+): Promise<{ ownerId: string; storageMb: number; limitMb: number; planKey: string } | null> {
+  const { data: project } = await db.from("projects").select("owner_id").eq("id", projectId).single();
+  if (!project) return null;
+  const ownerId = project.owner_id as string;
+  const period = currentPeriod();
+
+  const { data: ledger } = await db
+    .from("api_usage_ledger")
+    .select("id, storage_mb, storage_measured_at, plan_key")
+    .eq("owner_id", ownerId)
+    .eq("period_start", period.start)
+    .eq("period_end", period.end)
+    .maybeSingle();
+  const planKey = ledger?.plan_key || "free";
+
+  let storageMb = Number(ledger?.storage_mb ?? 0);
+  const measuredAt = ledger?.storage_measured_at ? Date.parse(ledger.storage_measured_at) : 0;
+  if (force || Date.now() - measuredAt > STORAGE_REFRESH_MS) {
+    const { data: projects } = await db.from("projects").select("id").eq("owner_id", ownerId);
+    let bytes = 0;
+    for (const p of projects || []) bytes += Number((await projectStorage(db, p.id)).blob_bytes);
+    storageMb = Math.round((bytes / (1024 * 1024)) * 100) / 100;
+
+    const measurement = { storage_mb: storageMb, storage_measured_at: new Date().toISOString() };
+    if (ledger) {
+      await db.from("api_usage_ledger").update(measurement).eq("id", ledger.id);
+    } else {
+      await db.from("api_usage_ledger").insert({
+        owner_id: ownerId, period_start: period.start, period_end: period.end, plan_key: planKey, ...measurement,
+      });
+    }
+  }
+
+  const { data: plan } = await db
+    .from("billing_plans")
+    .select("included_storage_mb")
+    .eq("key", planKey)
+    .maybeSingle();
+
+  return { ownerId, storageMb, limitMb: plan?.included_storage_mb ?? DEFAULT_STORAGE_MB, planKey };
+}
+
+/** Refuse writes that add content once the owner is over their plan's storage; returns the 402 response. */
+async function checkStorageQuota(db: ReturnType<typeof createClient>, projectId: string): Promise<Response | null> {
+  const usage = await ownerStorageUsage(db, projectId);
+  if (!usage || usage.storageMb < usage.limitMb) return null;
+  return json({
+    error: `Storage quota exceeded (${usage.storageMb} of ${usage.limitMb} MB on the ${usage.planKey} plan). Collect old snapshots or upgrade your plan.`,
+    code: "storage_quota",
+    storage_mb: usage.storageMb,
+    limit_mb: usage.limitMb,
+  }, 402);
+}
+
+// ─── Git import/export ───
+
+const DEFAULT_EXPORT_COMMITS = 500;
+const MAX_EXPORT_COMMITS = 2000;
+const MAX_IMPORT_COMMITS = 500;
+const MAX_IMPORT_BYTES = 25 * 1024 * 1024;
+
+function base64ToBytes(data: string): Uint8Array {
+  return Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+}
+
+/** Git identities for users, from their profile name and account email. */
+async function gitIdentities(
+  db: ReturnType<typeof createClient>,
+  userIds: string[]
+): Promise<Map<string, Omit<GitPerson, "time">>> {
+  const ids = [...new Set(userIds.filter(Boolean))];
+  const { data: profiles } = ids.length > 0
+    ? await db.from("profiles").select("id, display_name").in("id", ids)
+    : { data: [] };
+  const names = new Map((profiles || []).map((p) => [p.id, p.display_name as string | null]));
+
+  const identities = new Map<string, Omit<GitPerson, "time">>();
+  for (const id of ids) {
+    const { data } = await db.auth.admin.getUserById(id);
+    const email = data?.user?.email ?? "";
+    identities.set(id, { name: names.get(id) || email.split("@")[0] || id, email });
+  }
+  return identities;
+}
+
+function firstLine(message: string): string {
+  return message.trim().split("\n")[0].slice(0, 200);
+}
+
 // ─── Emit project event ───
 
 async function emitEvent(
@@ -304,6 +728,11 @@ serve(async (req) => {
           if (!validatePath(f.path)) return json({ error: `Invalid path: ${f.path}` }, 400);
         }
 
+        const denied = await authorizeRefWrite(db, project_id, user.id, ref_name || "main", "update");
+        if (denied) return denied;
+        const overQuota = await checkStorageQuota(db, project_id);
+        if (overQuota) return overQuota;
+
         // Get current ref for parent pointer
         const { data: currentRef } = await db
           .from("ca_refs")
@@ -331,11 +760,12 @@ serve(async (req) => {
         if (snapErr) return json({ error: snapErr.message }, 500);
 
         // Build path index
-        const pathEntries = files.map((f: { path: string }) => ({
+        const pathEntries = files.map((f: PatchFile) => ({
           project_id,
           snapshot_id: snapshot.id,
           path: normalizePath(f.path),
           blob_hash: blobHashes.get(normalizePath(f.path))!,
+          mode: f.mode || DEFAULT_FILE_MODE,
         }));
 
         if (pathEntries.length > 0) {
@@ -367,10 +797,18 @@ serve(async (req) => {
 
       // ─── Checkout snapshot ───
       case "checkout": {
-        const { snapshot_id, project_id, ref_name } = body;
+        const { snapshot_id, project_id, ref_name, tag } = body;
         let targetSnapshotId = snapshot_id;
 
-        if (!targetSnapshotId && project_id) {
+        if (!targetSnapshotId && project_id && tag) {
+          const { data: tagRow } = await db
+            .from("ca_tags")
+            .select("snapshot_id")
+            .eq("project_id", project_id)
+            .eq("tag_name", tag)
+            .maybeSingle();
+          targetSnapshotId = tagRow?.snapshot_id;
+        } else if (!targetSnapshotId && project_id) {
           const { data: ref } = await db
             .from("ca_refs")
             .select("snapshot_id")
@@ -400,6 +838,11 @@ serve(async (req) => {
         const { project_id, diff, ref_name } = body;
         if (!project_id || !diff) return json({ error: "Missing project_id or diff" }, 400);
 
+        const denied = await authorizeRefWrite(db, project_id, user.id, ref_name || "main", "update");
+        if (denied) return denied;
+        const overQuota = await checkStorageQuota(db, project_id);
+        if (overQuota) return overQuota;
+
         // Checkout current
         const { data: currentRef } = await db
           .from("ca_refs")
@@ -412,33 +855,16 @@ serve(async (req) => {
 
         const currentFiles = await checkoutSnapshot(db, currentRef.snapshot_id);
 
-        // Parse and apply diff (reuse existing apply-patch logic inline)
+        // Parse and apply diff with the shared patch engine
         const patches = parseUnifiedDiff(diff);
         if (patches.length === 0) return json({ error: "No valid patches" }, 400);
 
-        const updatedFiles = [...currentFiles];
-        const changedPaths: string[] = [];
-
-        for (const patch of patches) {
-          const isNew = patch.oldFile === "/dev/null";
-          if (isNew) {
-            const content = patch.hunks
-              .flatMap((h) => h.lines.filter((l) => l.type === "add").map((l) => l.content))
-              .join("\n");
-            const path = patch.newFile.startsWith("/") ? patch.newFile : `/${patch.newFile}`;
-            updatedFiles.push({ path, content });
-            changedPaths.push(path);
-          } else {
-            const targetPath = patch.newFile.startsWith("/") ? patch.newFile : `/${patch.newFile}`;
-            const idx = updatedFiles.findIndex((f) => f.path === targetPath);
-            if (idx === -1) continue;
-            const newContent = applyHunks(updatedFiles[idx].content, patch.hunks);
-            if (newContent !== null) {
-              updatedFiles[idx] = { ...updatedFiles[idx], content: newContent };
-              changedPaths.push(targetPath);
-            }
-          }
-        }
+        const applied = applyPatchesToFiles(currentFiles, patches);
+        const updatedFiles = applied.files;
+        // Renames touch both their old and new paths
+        const changedPaths = applied.results
+          .filter((r) => r.status !== "failed")
+          .flatMap((r) => (r.status === "renamed" && r.from ? [r.from, r.path] : [r.path]));
 
         // Create new snapshot from updated files
         const { rootHash, blobHashes } = await buildMerkleDAG(db, updatedFiles);
@@ -463,6 +889,7 @@ serve(async (req) => {
           snapshot_id: newSnapshot.id,
           path: normalizePath(f.path),
           blob_hash: blobHashes.get(normalizePath(f.path))!,
+          mode: f.mode || DEFAULT_FILE_MODE,
         }));
         if (pathEntries.length > 0) await db.from("ca_path_index").insert(pathEntries);
 
@@ -486,6 +913,7 @@ serve(async (req) => {
           ok: true,
           snapshot_id: newSnapshot.id,
           changed_paths: changedPaths,
+          results: applied.results,
           files: updatedFiles,
         });
       }
@@ -500,7 +928,111 @@ serve(async (req) => {
           .select("ref_name, snapshot_id, updated_at, updated_by")
           .eq("project_id", project_id);
 
-        return json({ ok: true, refs: refs || [] });
+        const { data: tags } = await db
+          .from("ca_tags")
+          .select("tag_name, snapshot_id, message, tagged_by, created_at")
+          .eq("project_id", project_id)
+          .order("created_at", { ascending: false });
+
+        // Each ref carries the rule that applies to it, so clients can show what's allowed
+        const rules = await loadRefRules(db, project_id);
+        const role = await getProjectRole(db, project_id, user.id);
+
+        return json({
+          ok: true,
+          role,
+          rules,
+          refs: (refs || []).map((ref) => ({ ...ref, rule: findRefRule(rules, ref.ref_name) })),
+          tags: tags || [],
+        });
+      }
+
+      // ─── Tags ───
+      case "create_tag": {
+        const { project_id, tag_name, snapshot_id, ref_name, message } = body;
+        if (!project_id || !tag_name) return json({ error: "Missing project_id or tag_name" }, 400);
+        const invalid = validateRefName(tag_name);
+        if (invalid) return json({ error: invalid }, 400);
+
+        const role = await getProjectRole(db, project_id, user.id);
+        if (!role || role === "viewer") return json({ error: "Only editors and the owner can create tags", code: "forbidden" }, 403);
+
+        const targetId = snapshot_id || await getRefSnapshot(db, project_id, ref_name || "main");
+        const target = targetId ? await getSnapshotMeta(db, targetId) : null;
+        if (!target || target.project_id !== project_id) return json({ error: "Snapshot not found" }, 404);
+
+        // Tags never move: an existing name is an error, not an update
+        const { error: tagErr } = await db.from("ca_tags").insert({
+          project_id,
+          tag_name,
+          snapshot_id: target.id,
+          message: typeof message === "string" ? message : null,
+          tagged_by: user.id,
+        });
+        if (tagErr) {
+          return tagErr.code === "23505"
+            ? json({ error: `Tag ${tag_name} already exists; tags are immutable`, code: "tag_exists" }, 409)
+            : json({ error: tagErr.message }, 500);
+        }
+
+        await emitEvent(db, project_id, "tag.created", {
+          tag_name,
+          snapshot_id: target.id,
+          message: message || null,
+        }, "user", user.id);
+
+        return json({ ok: true, tag_name, snapshot_id: target.id });
+      }
+
+      // ─── Ref rules (owner only) ───
+      case "set_ref_rule": {
+        const { project_id, pattern, min_role, protected: isProtected, require_passing_build } = body;
+        if (!project_id || !pattern) return json({ error: "Missing project_id or pattern" }, 400);
+        const invalid = validateRefPattern(pattern);
+        if (invalid) return json({ error: invalid }, 400);
+        if (min_role !== undefined && min_role !== "owner" && min_role !== "editor") {
+          return json({ error: "min_role must be 'owner' or 'editor'" }, 400);
+        }
+
+        if (await getProjectRole(db, project_id, user.id) !== "owner") {
+          return json({ error: "Only the project owner can change ref rules", code: "forbidden" }, 403);
+        }
+
+        const rule = {
+          project_id,
+          pattern,
+          min_role: min_role || "editor",
+          protected: Boolean(isProtected),
+          // A build requirement only means something on a merge-only ref
+          require_passing_build: Boolean(isProtected) && Boolean(require_passing_build),
+          created_by: user.id,
+          updated_at: new Date().toISOString(),
+        };
+        const { error: ruleErr } = await db.from("ca_ref_rules").upsert(rule, { onConflict: "project_id,pattern" });
+        if (ruleErr) return json({ error: ruleErr.message }, 500);
+
+        await emitEvent(db, project_id, "ref_rule.updated", {
+          pattern,
+          min_role: rule.min_role,
+          protected: rule.protected,
+          require_passing_build: rule.require_passing_build,
+        }, "user", user.id);
+
+        return json({ ok: true });
+      }
+
+      case "delete_ref_rule": {
+        const { project_id, pattern } = body;
+        if (!project_id || !pattern) return json({ error: "Missing project_id or pattern" }, 400);
+
+        if (await getProjectRole(db, project_id, user.id) !== "owner") {
+          return json({ error: "Only the project owner can change ref rules", code: "forbidden" }, 403);
+        }
+
+        await db.from("ca_ref_rules").delete().eq("project_id", project_id).eq("pattern", pattern);
+        await emitEvent(db, project_id, "ref_rule.deleted", { pattern }, "user", user.id);
+
+        return json({ ok: true });
       }
 
       // ─── Snapshot history ───
@@ -510,7 +1042,7 @@ serve(async (req) => {
 
         const { data: snapshots } = await db
           .from("ca_snapshots")
-          .select("id, root_tree_hash, parent_snapshot_id, label, created_by, created_at")
+          .select("id, root_tree_hash, parent_snapshot_id, merge_parent_snapshot_id, origin_snapshot_id, label, created_by, created_at")
           .eq("project_id", project_id)
           .order("created_at", { ascending: false })
           .limit(limit || 50);
@@ -525,31 +1057,583 @@ serve(async (req) => {
 
         const targetRefName = target_ref || "main";
 
-        const { data: sourceRef } = await db
-          .from("ca_refs")
-          .select("snapshot_id")
+        const { data: pending } = await db
+          .from("ca_merges")
+          .select("id")
           .eq("project_id", project_id)
-          .eq("ref_name", source_ref)
-          .single();
+          .eq("target_ref", targetRefName)
+          .eq("status", "in_progress")
+          .maybeSingle();
+        if (pending) return json({ error: `A merge into ${targetRefName} is already in progress`, merge_id: pending.id }, 409);
 
-        if (!sourceRef) return json({ error: "Source ref not found" }, 404);
+        const sourceId = await getRefSnapshot(db, project_id, source_ref);
+        if (!sourceId) return json({ error: "Source ref not found" }, 404);
+        const targetId = await getRefSnapshot(db, project_id, targetRefName);
 
-        // Fast-forward: just update main to point to source snapshot
-        await db.from("ca_refs").upsert({
-          project_id,
-          ref_name: targetRefName,
-          snapshot_id: sourceRef.snapshot_id,
-          updated_by: user.id,
-          updated_at: new Date().toISOString(),
-        }, { onConflict: "project_id,ref_name" });
+        const denied = await authorizeRefWrite(db, project_id, user.id, targetRefName, "merge", sourceId);
+        if (denied) return denied;
+
+        const baseId = targetId ? await findMergeBase(targetId, sourceId, (id) => snapshotParents(db, id)) : null;
+
+        if (targetId && baseId === sourceId) {
+          return json({ ok: true, status: "up_to_date", merged_snapshot_id: targetId });
+        }
+
+        // Target hasn't moved since the source branched off (or doesn't exist yet): fast-forward
+        if (!targetId || baseId === targetId) {
+          await setRef(db, project_id, targetRefName, sourceId, user.id);
+          await emitEvent(db, project_id, "ref.merged", {
+            source_ref: source_ref,
+            target_ref: targetRefName,
+            snapshot_id: sourceId,
+            fast_forward: true,
+          }, "user", user.id);
+          return json({ ok: true, status: "fast_forward", merged_snapshot_id: sourceId });
+        }
+
+        const merged = await mergeSnapshots(db, baseId, targetId, sourceId, { ours: targetRefName, theirs: source_ref });
+
+        if (!merged.ok) {
+          const { data: merge, error: mergeErr } = await db
+            .from("ca_merges")
+            .insert({
+              project_id,
+              source_ref,
+              target_ref: targetRefName,
+              base_snapshot_id: baseId,
+              ours_snapshot_id: targetId,
+              theirs_snapshot_id: sourceId,
+              conflicts: merged.conflicts,
+              created_by: user.id,
+            })
+            .select("id")
+            .single();
+          if (mergeErr || !merge) return json({ error: mergeErr?.message || "Failed to record merge" }, 500);
 
+          await emitEvent(db, project_id, "merge.conflicted", {
+            merge_id: merge.id,
+            source_ref: source_ref,
+            target_ref: targetRefName,
+            paths: merged.conflicts.map((c) => c.path),
+          }, "user", user.id);
+
+          return json({ ok: true, status: "conflicted", merge_id: merge.id, conflicts: merged.conflicts });
+        }
+
+        const mergedId = await insertSnapshot(db, project_id, merged.files, {
+          parentId: targetId,
+          mergeParentId: sourceId,
+          label: `Merge ${source_ref} into ${targetRefName}`,
+        }, user.id);
+        if (!mergedId) return json({ error: "Failed to create snapshot" }, 500);
+
+        await setRef(db, project_id, targetRefName, mergedId, user.id);
         await emitEvent(db, project_id, "ref.merged", {
           source_ref: source_ref,
           target_ref: targetRefName,
-          snapshot_id: sourceRef.snapshot_id,
+          snapshot_id: mergedId,
+          base_snapshot_id: baseId,
+        }, "user", user.id);
+
+        return json({ ok: true, status: "merged", merged_snapshot_id: mergedId });
+      }
+
+      // ─── Merge in progress for a ref ───
+      case "get_merge": {
+        const { project_id, target_ref } = body;
+        if (!project_id) return json({ error: "Missing project_id" }, 400);
+
+        const { data: merge } = await db
+          .from("ca_merges")
+          .select("id, source_ref, target_ref, base_snapshot_id, ours_snapshot_id, theirs_snapshot_id, conflicts, created_at")
+          .eq("project_id", project_id)
+          .eq("target_ref", target_ref || "main")
+          .eq("status", "in_progress")
+          .maybeSingle();
+
+        return json({ ok: true, merge: merge || null });
+      }
+
+      // ─── Finish a conflicted merge ───
+      case "resolve_merge": {
+        const { merge_id, resolutions } = body;
+        if (!merge_id || !resolutions || typeof resolutions !== "object") {
+          return json({ error: "Missing merge_id or resolutions" }, 400);
+        }
+        if (!Object.values(resolutions).every((v) => v === null || typeof v === "string")) {
+          return json({ error: "Each resolution must be the file content, or null to delete the file" }, 400);
+        }
+
+        const { data: merge } = await db
+          .from("ca_merges")
+          .select("id, project_id, source_ref, target_ref, base_snapshot_id, ours_snapshot_id, theirs_snapshot_id, status")
+          .eq("id", merge_id)
+          .single();
+        if (!merge) return json({ error: "Merge not found" }, 404);
+        if (merge.status !== "in_progress") return json({ error: `Merge is already ${merge.status}` }, 409);
+
+        const denied = await authorizeRefWrite(
+          db, merge.project_id, user.id, merge.target_ref, "merge", merge.theirs_snapshot_id
+        );
+        if (denied) return denied;
+
+        const merged = await mergeSnapshots(db, merge.base_snapshot_id, merge.ours_snapshot_id, merge.theirs_snapshot_id, {
+          ours: merge.target_ref,
+          theirs: merge.source_ref,
+        });
+        const resolved = applyMergeResolutions(merged, resolutions);
+        if (!resolved.ok) return json({ error: "Unresolved conflicts", unresolved: resolved.unresolved }, 400);
+
+        for (const f of resolved.files) {
+          if (!validatePath(f.path)) return json({ error: `Invalid path: ${f.path}` }, 400);
+        }
+
+        // The target may have moved (e.g. auto-sync) while conflicts were resolved; carry those edits over
+        const targetId = await getRefSnapshot(db, merge.project_id, merge.target_ref);
+        if (!targetId) return json({ error: `${merge.target_ref} no longer exists` }, 409);
+        let files = resolved.files;
+        if (targetId !== merge.ours_snapshot_id) {
+          const ours = await checkoutSnapshot(db, merge.ours_snapshot_id);
+          const current = await checkoutSnapshot(db, targetId);
+          const caughtUp = mergeFileSets(ours, current, resolved.files);
+          if (!caughtUp.ok) {
+            return json({
+              error: `${merge.target_ref} changed the same files since the merge started; abort and merge again`,
+              paths: caughtUp.conflicts.map((c) => c.path),
+            }, 409);
+          }
+          files = caughtUp.files;
+        }
+
+        const mergedId = await insertSnapshot(db, merge.project_id, files, {
+          parentId: targetId,
+          mergeParentId: merge.theirs_snapshot_id,
+          label: `Merge ${merge.source_ref} into ${merge.target_ref}`,
+        }, user.id);
+        if (!mergedId) return json({ error: "Failed to create snapshot" }, 500);
+
+        await setRef(db, merge.project_id, merge.target_ref, mergedId, user.id);
+        await db
+          .from("ca_merges")
+          .update({ status: "completed", merged_snapshot_id: mergedId, updated_at: new Date().toISOString() })
+          .eq("id", merge.id);
+
+        await emitEvent(db, merge.project_id, "ref.merged", {
+          source_ref: merge.source_ref,
+          target_ref: merge.target_ref,
+          snapshot_id: mergedId,
+          base_snapshot_id: merge.base_snapshot_id,
+          merge_id: merge.id,
+          resolved_paths: Object.keys(resolutions),
         }, "user", user.id);
 
-        return json({ ok: true, merged_snapshot_id: sourceRef.snapshot_id });
+        return json({ ok: true, status: "merged", merged_snapshot_id: mergedId });
+      }
+
+      // ─── Abandon a conflicted merge ───
+      case "abort_merge": {
+        const { merge_id } = body;
+        if (!merge_id) return json({ error: "Missing merge_id" }, 400);
+
+        const { data: pending } = await db
+          .from("ca_merges")
+          .select("id, project_id, target_ref")
+          .eq("id", merge_id)
+          .eq("status", "in_progress")
+          .maybeSingle();
+        if (!pending) return json({ error: "No merge in progress with that id" }, 404);
+
+        const role = await getProjectRole(db, pending.project_id, user.id);
+        if (!role || role === "viewer") return json({ error: "Only editors and the owner can abort merges", code: "forbidden" }, 403);
+
+        const { data: merge } = await db
+          .from("ca_merges")
+          .update({ status: "aborted", updated_at: new Date().toISOString() })
+          .eq("id", merge_id)
+          .eq("status", "in_progress")
+          .select("id, project_id, source_ref, target_ref")
+          .maybeSingle();
+        if (!merge) return json({ error: "No merge in progress with that id" }, 404);
+
+        await emitEvent(db, merge.project_id, "merge.aborted", {
+          merge_id: merge.id,
+          source_ref: merge.source_ref,
+          target_ref: merge.target_ref,
+        }, "user", user.id);
+
+        return json({ ok: true });
+      }
+
+      // ─── Replay one snapshot's change onto a ref ───
+      case "cherry_pick": {
+        const { project_id, snapshot_id, target_ref } = body;
+        if (!project_id || !snapshot_id) return json({ error: "Missing project_id or snapshot_id" }, 400);
+
+        const targetRefName = target_ref || "main";
+        const picked = await getSnapshotMeta(db, snapshot_id);
+        if (!picked || picked.project_id !== project_id) return json({ error: "Snapshot not found" }, 404);
+        const targetId = await getRefSnapshot(db, project_id, targetRefName);
+        if (!targetId) return json({ error: "Target ref not found" }, 404);
+
+        const denied = await authorizeRefWrite(db, project_id, user.id, targetRefName, "update");
+        if (denied) return denied;
+
+        const replayed = replaySnapshot(
+          await checkoutSnapshot(db, targetId),
+          picked.parent_snapshot_id ? await checkoutSnapshot(db, picked.parent_snapshot_id) : [],
+          await checkoutSnapshot(db, snapshot_id),
+          { ours: targetRefName, theirs: picked.label || snapshot_id }
+        );
+        if (!replayed.ok) return json({ ok: true, status: "conflicted", conflicts: replayed.conflicts });
+        if (replayed.empty) return json({ ok: true, status: "empty", snapshot_id: targetId });
+
+        const newId = await insertSnapshot(db, project_id, replayed.files, {
+          parentId: targetId,
+          originId: snapshot_id,
+          label: `Cherry-pick: ${picked.label || "Snapshot"}`,
+        }, user.id);
+        if (!newId) return json({ error: "Failed to create snapshot" }, 500);
+
+        await setRef(db, project_id, targetRefName, newId, user.id);
+        await emitEvent(db, project_id, "snapshot.cherry_picked", {
+          snapshot_id: newId,
+          origin_snapshot_id: snapshot_id,
+          target_ref: targetRefName,
+        }, "user", user.id);
+
+        return json({ ok: true, status: "picked", snapshot_id: newId });
+      }
+
+      // ─── Replay a ref's snapshots onto a newer ref ───
+      case "rebase_ref": {
+        const { project_id, source_ref, onto_ref } = body;
+        if (!project_id || !source_ref) return json({ error: "Missing fields" }, 400);
+
+        const ontoRefName = onto_ref || "main";
+        if (source_ref === ontoRefName) return json({ error: "Cannot rebase a ref onto itself" }, 400);
+
+        const sourceId = await getRefSnapshot(db, project_id, source_ref);
+        if (!sourceId) return json({ error: "Source ref not found" }, 404);
+        const ontoId = await getRefSnapshot(db, project_id, ontoRefName);
+        if (!ontoId) return json({ error: "Target ref not found" }, 404);
+
+        // Rebasing rewrites the source ref
+        const denied = await authorizeRefWrite(db, project_id, user.id, source_ref, "update");
+        if (denied) return denied;
+
+        const baseId = await findMergeBase(sourceId, ontoId, (id) => snapshotParents(db, id));
+        if (baseId === ontoId) return json({ ok: true, status: "up_to_date", snapshot_id: sourceId });
+
+        // The ref's own snapshots since it branched off, oldest first, following first parents
+        const chain: SnapshotMeta[] = [];
+        for (let id: string | null = sourceId; id && id !== baseId;) {
+          if (chain.length >= MAX_REBASE_SNAPSHOTS) {
+            return json({ error: `More than ${MAX_REBASE_SNAPSHOTS} snapshots to replay; merge instead` }, 400);
+          }
+          const meta = await getSnapshotMeta(db, id);
+          if (!meta) break;
+          chain.push(meta);
+          id = meta.parent_snapshot_id;
+        }
+        chain.reverse();
+
+        // Replay everything before writing, so a conflict leaves the ref where it was
+        const planned: Array<{ originId: string; label: string; files: PatchFile[] }> = [];
+        let current = await checkoutSnapshot(db, ontoId);
+        let parentFiles = chain[0]?.parent_snapshot_id ? await checkoutSnapshot(db, chain[0].parent_snapshot_id) : [];
+        for (const step of chain) {
+          const files = await checkoutSnapshot(db, step.id);
+          const replayed = replaySnapshot(current, parentFiles, files, { ours: ontoRefName, theirs: step.label || step.id });
+          if (!replayed.ok) {
+            return json({ ok: true, status: "conflicted", snapshot_id: step.id, conflicts: replayed.conflicts });
+          }
+          // Changes main already has are dropped rather than recorded as empty snapshots
+          if (!replayed.empty) {
+            planned.push({ originId: step.id, label: step.label || "Snapshot", files: replayed.files });
+            current = replayed.files;
+          }
+          parentFiles = files;
+        }
+
+        let headId = ontoId;
+        for (const step of planned) {
+          const newId = await insertSnapshot(db, project_id, step.files, {
+            parentId: headId,
+            originId: step.originId,
+            label: step.label,
+          }, user.id);
+          if (!newId) return json({ error: "Failed to create snapshot" }, 500);
+          headId = newId;
+        }
+
+        await setRef(db, project_id, source_ref, headId, user.id);
+        await emitEvent(db, project_id, "ref.rebased", {
+          source_ref: source_ref,
+          onto_ref: ontoRefName,
+          old_snapshot_id: sourceId,
+          snapshot_id: headId,
+          replayed: planned.length,
+          skipped: chain.length - planned.length,
+        }, "user", user.id);
+
+        return json({
+          ok: true,
+          status: "rebased",
+          snapshot_id: headId,
+          replayed: planned.length,
+          skipped: chain.length - planned.length,
+        });
+      }
+
+      // ─── Storage usage ───
+      case "storage_usage": {
+        const { project_id } = body;
+        if (!project_id) return json({ error: "Missing project_id" }, 400);
+        if (!await getProjectRole(db, project_id, user.id)) {
+          return json({ error: "You are not a member of this project", code: "not_member" }, 403);
+        }
+
+        const project = await projectStorage(db, project_id);
+        const owner = await ownerStorageUsage(db, project_id);
+        return json({
+          ok: true,
+          project,
+          owner: owner && { storage_mb: owner.storageMb, limit_mb: owner.limitMb, plan_key: owner.planKey },
+        });
+      }
+
+      // ─── Garbage collection (owner only) ───
+      case "gc": {
+        const { project_id, retention_days, dry_run } = body;
+        if (!project_id) return json({ error: "Missing project_id" }, 400);
+        if (await getProjectRole(db, project_id, user.id) !== "owner") {
+          return json({ error: "Only the project owner can collect snapshots", code: "forbidden" }, 403);
+        }
+
+        const days = retention_days === undefined ? DEFAULT_RETENTION_DAYS : Number(retention_days);
+        if (!Number.isFinite(days) || days < 0) return json({ error: "retention_days must be a non-negative number" }, 400);
+        const retainSince = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+        // Collecting is destructive, so only an explicit dry_run: false deletes
+        const dryRun = dry_run !== false;
+
+        const { data: result, error: gcErr } = await db.rpc("ca_gc_project", {
+          _project_id: project_id,
+          _retain_since: retainSince,
+          _dry_run: dryRun,
+        });
+        if (gcErr) return json({ error: gcErr.message }, 500);
+
+        if (!dryRun) {
+          await ownerStorageUsage(db, project_id, true);
+          await emitEvent(db, project_id, "snapshot.gc", { ...result, retention_days: days }, "user", user.id);
+        }
+
+        return json({ ok: true, retention_days: days, ...result });
+      }
+
+      // ─── Export a ref's history as a git bundle ───
+      case "export_git": {
+        const { project_id, ref_name, max_commits } = body;
+        if (!project_id) return json({ error: "Missing project_id" }, 400);
+        if (!await getProjectRole(db, project_id, user.id)) {
+          return json({ error: "You are not a member of this project", code: "not_member" }, 403);
+        }
+
+        const refName = ref_name || "main";
+        const tipId = await getRefSnapshot(db, project_id, refName);
+        if (!tipId) return json({ error: "Ref not found" }, 404);
+        const limit = Math.min(Math.max(Number(max_commits) || DEFAULT_EXPORT_COMMITS, 1), MAX_EXPORT_COMMITS);
+
+        // Newest snapshots first, through both merge parents; what doesn't fit becomes a shallow cut
+        const rows = new Map<string, {
+          id: string;
+          parent_snapshot_id: string | null;
+          merge_parent_snapshot_id: string | null;
+          label: string | null;
+          created_by: string | null;
+          created_at: string;
+        }>();
+        let frontier = [tipId];
+        while (frontier.length > 0 && rows.size < limit) {
+          const batch = frontier.slice(0, limit - rows.size);
+          const { data } = await db
+            .from("ca_snapshots")
+            .select("id, parent_snapshot_id, merge_parent_snapshot_id, label, created_by, created_at")
+            .eq("project_id", project_id)
+            .in("id", batch);
+          const next = frontier.slice(batch.length);
+          for (const row of data || []) {
+            rows.set(row.id, row);
+            for (const parent of [row.parent_snapshot_id, row.merge_parent_snapshot_id]) {
+              if (parent && !rows.has(parent) && !next.includes(parent) && !batch.includes(parent)) next.push(parent);
+            }
+          }
+          frontier = next;
+        }
+        const truncated = frontier.length > 0;
+
+        const { data: tags } = await db
+          .from("ca_tags")
+          .select("tag_name, snapshot_id, message, tagged_by, created_at")
+          .eq("project_id", project_id);
+        const exportedTags = (tags || []).filter((t) => rows.has(t.snapshot_id));
+
+        const identities = await gitIdentities(db, [
+          ...[...rows.values()].map((r) => r.created_by || ""),
+          ...exportedTags.map((t) => t.tagged_by || ""),
+        ]);
+        const personAt = (userId: string | null, createdAt: string): GitPerson => ({
+          ...(userId && identities.get(userId) || { name: "Started", email: "" }),
+          time: Date.parse(createdAt) / 1000,
+        });
+
+        const commits: ExportCommit[] = [];
+        for (const row of rows.values()) {
+          commits.push({
+            id: row.id,
+            parentIds: [row.parent_snapshot_id, row.merge_parent_snapshot_id].filter(Boolean) as string[],
+            files: await checkoutSnapshot(db, row.id),
+            author: personAt(row.created_by, row.created_at),
+            message: `${row.label || "Snapshot"}\n\nStarted-Snapshot: ${row.id}\n`,
+          });
+        }
+
+        const { bundle } = exportBundle(
+          commits,
+          [{ name: refName, commitId: tipId }],
+          exportedTags.map((t) => ({
+            name: t.tag_name,
+            commitId: t.snapshot_id,
+            message: t.message,
+            tagger: personAt(t.tagged_by, t.created_at),
+          })),
+        );
+
+        await emitEvent(db, project_id, "git.exported", {
+          ref_name: refName,
+          snapshot_id: tipId,
+          commits: commits.length,
+          tags: exportedTags.length,
+          truncated,
+        }, "user", user.id);
+
+        return new Response(bundle, {
+          headers: {
+            ...corsHeaders,
+            "Access-Control-Expose-Headers": "Content-Disposition, X-Git-Commits, X-Git-Truncated",
+            "Content-Type": "application/x-git-bundle",
+            "Content-Disposition": `attachment; filename="${refName.replace(/\//g, "-")}.bundle"`,
+            "X-Git-Commits": String(commits.length),
+            "X-Git-Truncated": String(truncated),
+          },
+        });
+      }
+
+      // ─── Import a git bundle or repository tarball ───
+      case "import_git": {
+        const { project_id, data, ref_prefix } = body;
+        if (!project_id || typeof data !== "string") return json({ error: "Missing project_id or data" }, 400);
+        const prefix = typeof ref_prefix === "string" ? ref_prefix : "";
+        if (prefix && (!prefix.endsWith("/") || validateRefName(prefix.slice(0, -1)))) {
+          return json({ error: "ref_prefix must be a ref name followed by '/'" }, 400);
+        }
+
+        const role = await getProjectRole(db, project_id, user.id);
+        if (!role || role === "viewer") return json({ error: "Only editors and the owner can import", code: "forbidden" }, 403);
+
+        let bytes: Uint8Array;
+        try {
+          bytes = base64ToBytes(data);
+        } catch {
+          return json({ error: "data must be base64" }, 400);
+        }
+        if (bytes.length > MAX_IMPORT_BYTES) {
+          return json({ error: `Import is larger than ${MAX_IMPORT_BYTES / 1024 / 1024} MB` }, 400);
+        }
+        const overQuota = await checkStorageQuota(db, project_id);
+        if (overQuota) return overQuota;
+
+        let repo: ImportedRepository;
+        try {
+          repo = importRepository(bytes, MAX_IMPORT_COMMITS);
+        } catch (e) {
+          if (e instanceof GitFormatError) return json({ error: e.message }, 400);
+          throw e;
+        }
+
+        // Decide every ref before writing anything; existing refs are never moved by an import
+        const refs: Array<{ ref_name: string; sha: string }> = [];
+        const skippedRefs: Array<{ ref_name: string; reason: string }> = [];
+        for (const [branch, sha] of Object.entries(repo.branches)) {
+          const refName = prefix + branch;
+          const invalid = validateRefName(refName);
+          if (invalid) {
+            skippedRefs.push({ ref_name: refName, reason: invalid });
+          } else if (await getRefSnapshot(db, project_id, refName)) {
+            skippedRefs.push({ ref_name: refName, reason: "Ref already exists" });
+          } else {
+            const denied = await authorizeRefWrite(db, project_id, user.id, refName, "update");
+            if (denied) return denied;
+            refs.push({ ref_name: refName, sha });
+          }
+        }
+
+        const snapshotIds = new Map<string, string>();
+        const skippedPaths = [...repo.skipped];
+        const written = new Set<string>();
+        for (const commit of repo.commits) {
+          const files = commit.files.filter((f) => validatePath(f.path));
+          for (const f of commit.files) if (!validatePath(f.path)) skippedPaths.push(f.path);
+          // Octopus merges keep their first two parents
+          const id = await insertSnapshot(db, project_id, files, {
+            parentId: snapshotIds.get(commit.parents[0]) ?? null,
+            mergeParentId: commit.parents[1] ? snapshotIds.get(commit.parents[1]) : undefined,
+            label: firstLine(commit.message) || "Imported commit",
+          }, user.id, written);
+          if (!id) return json({ error: "Failed to create snapshot" }, 500);
+          snapshotIds.set(commit.sha, id);
+        }
+
+        for (const ref of refs) await setRef(db, project_id, ref.ref_name, snapshotIds.get(ref.sha)!, user.id);
+
+        const tags: string[] = [];
+        const skippedTags: Array<{ tag_name: string; reason: string }> = [];
+        for (const [tagName, tag] of Object.entries(repo.tags)) {
+          const invalid = validateRefName(tagName);
+          if (invalid) {
+            skippedTags.push({ tag_name: tagName, reason: invalid });
+            continue;
+          }
+          const { error: tagErr } = await db.from("ca_tags").insert({
+            project_id,
+            tag_name: tagName,
+            snapshot_id: snapshotIds.get(tag.sha),
+            message: tag.message,
+            tagged_by: user.id,
+          });
+          if (tagErr) skippedTags.push({ tag_name: tagName, reason: tagErr.code === "23505" ? "Tag already exists" : tagErr.message });
+          else tags.push(tagName);
+        }
+
+        await emitEvent(db, project_id, "git.imported", {
+          commits: repo.commits.length,
+          refs: refs.map((r) => r.ref_name),
+          tags,
+          skipped_paths: skippedPaths.length,
+          truncated: repo.truncated,
+        }, "user", user.id);
+
+        return json({
+          ok: true,
+          commits: repo.commits.length,
+          refs: refs.map((r) => ({ ref_name: r.ref_name, snapshot_id: snapshotIds.get(r.sha) })),
+          tags,
+          head: repo.head ? prefix + repo.head : null,
+          skipped_refs: skippedRefs,
+          skipped_tags: skippedTags,
+          skipped_paths: skippedPaths,
+          truncated: repo.truncated,
+        });
       }
 
       default:
@@ -560,63 +1644,3 @@ serve(async (req) => {
     return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
   }
 });
-
-// ─── Minimal diff parser (same logic as apply-patch) ───
-
-interface DiffLine { type: "context" | "add" | "remove"; content: string; }
-interface DiffHunk { oldStart: number; oldCount: number; newStart: number; newCount: number; lines: DiffLine[]; }
-interface ParsedPatch { oldFile: string; newFile: string; hunks: DiffHunk[]; }
-
-function parseUnifiedDiff(raw: string): ParsedPatch[] {
-  const patches: ParsedPatch[] = [];
-  const lines = raw.split("\n");
-  let i = 0;
-  while (i < lines.length) {
-    if (lines[i]?.startsWith("---")) {
-      const oldFile = lines[i].replace(/^---\s+(a\/)?/, "").trim();
-      i++;
-      if (i >= lines.length || !lines[i]?.startsWith("+++")) { i++; continue; }
-      const newFile = lines[i].replace(/^\+\+\+\s+(b\/)?/, "").trim();
-      i++;
-      const hunks: DiffHunk[] = [];
-      while (i < lines.length && !lines[i]?.startsWith("---")) {
-        if (lines[i]?.startsWith("@@")) {
-          const m = lines[i].match(/@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
-          if (m) {
-            const hunk: DiffHunk = {
-              oldStart: parseInt(m[1], 10), oldCount: parseInt(m[2] ?? "1", 10),
-              newStart: parseInt(m[3], 10), newCount: parseInt(m[4] ?? "1", 10),
-              lines: [],
-            };
-            i++;
-            while (i < lines.length && !lines[i]?.startsWith("@@") && !lines[i]?.startsWith("---")) {
-              const line = lines[i];
-              if (line.startsWith("+")) hunk.lines.push({ type: "add", content: line.slice(1) });
-              else if (line.startsWith("-")) hunk.lines.push({ type: "remove", content: line.slice(1) });
-              else if (line.startsWith(" ") || line === "") hunk.lines.push({ type: "context", content: line.startsWith(" ") ? line.slice(1) : line });
-              else break;
-              i++;
-            }
-            hunks.push(hunk);
-          } else { i++; }
-        } else { i++; }
-      }
-      if (hunks.length > 0) patches.push({ oldFile, newFile, hunks });
-    } else { i++; }
-  }
-  return patches;
-}
-
-function applyHunks(content: string, hunks: DiffHunk[]): string | null {
-  const lines = content.split("\n");
-  const sorted = [...hunks].sort((a, b) => b.oldStart - a.oldStart);
-  for (const hunk of sorted) {
-    const startIdx = hunk.oldStart - 1;
-    const newLines: string[] = [];
-    for (const line of hunk.lines) {
-      if (line.type === "add" || line.type === "context") newLines.push(line.content);
-    }
-    lines.splice(startIdx, hunk.oldCount, ...newLines);
-  }
-  return lines.join("\n");
-}
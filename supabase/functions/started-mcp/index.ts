@@ -0,0 +1,735 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  handleMcpMessage, parseJsonRpcMessages, evaluateMcpPermission, createSseDecoder, isMcpToken, validateMcpTokenScopes,
+  McpError, INVALID_PARAMS, PARSE_ERROR, SUPPORTED_PROTOCOL_VERSIONS, MCP_TOKEN_PREFIX, ACTING_USER_HEADER,
+  type JsonRpcResponse, type McpCallToolResult, type McpPermissionRule, type McpResourceContents, type McpRisk,
+  type McpServerHandlers, type McpTokenScope, type McpToolDefinition, type PermissionEffect,
+} from "../_shared/mcp.ts";
+import { createGlobMatcher } from "../_shared/search.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, mcp-protocol-version, mcp-session-id, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const SERVER_INFO = { name: "started", title: "Started", version: "1.0.0" };
+const INSTRUCTIONS =
+  "Tools act on one Started project as the user who created the token. Writes and commands follow the " +
+  "project's permission rules; a blocked call says which rule to change. Snapshot before risky edits.";
+/** Longest output a tool returns before truncating */
+const MAX_OUTPUT_CHARS = 100_000;
+const MAX_LISTED_FILES = 1000;
+const COMMAND_TIMEOUT_S = 120;
+
+type Db = ReturnType<typeof createClient>;
+
+function getServiceClient() {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+}
+
+async function getUser(req: Request) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+  const { data: { user } } = await supabase.auth.getUser();
+  return user;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status, headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+}
+
+async function isProjectMember(db: Db, userId: string, projectId: string): Promise<boolean> {
+  const { data } = await db.rpc("is_project_member", { _user_id: userId, _project_id: projectId });
+  return data === true;
+}
+
+async function isProjectOwner(db: Db, userId: string, projectId: string): Promise<boolean> {
+  const { data: project } = await db.from("projects").select("owner_id").eq("id", projectId).maybeSingle();
+  return project?.owner_id === userId;
+}
+
+function toHex(buf: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buf)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data)));
+}
+
+// ─── Project tokens ───
+
+interface ProjectToken {
+  id: string;
+  project_id: string;
+  created_by: string;
+  scopes: McpTokenScope[];
+}
+
+/** The live token behind a bearer value, as long as its creator still belongs to the project */
+async function authenticateToken(db: Db, bearer: string): Promise<ProjectToken | null> {
+  if (!isMcpToken(bearer)) return null;
+  const { data: token } = await db
+    .from("project_mcp_tokens")
+    .select("id, project_id, created_by, scopes, expires_at, revoked_at")
+    .eq("token_hash", await sha256Hex(bearer))
+    .maybeSingle();
+  if (!token || token.revoked_at) return null;
+  if (token.expires_at && new Date(token.expires_at).getTime() <= Date.now()) return null;
+  if (!(await isProjectMember(db, token.created_by, token.project_id))) return null;
+
+  db.from("project_mcp_tokens").update({ last_used_at: new Date().toISOString() }).eq("id", token.id)
+    .then(() => {}).catch(() => {});
+  return { id: token.id, project_id: token.project_id, created_by: token.created_by, scopes: token.scopes };
+}
+
+// ─── Sibling functions ───
+
+/** Call another function as the token's creator, so its own checks apply to them */
+function callFunction(name: string, userId: string, body: Record<string, unknown>) {
+  return fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/${name}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+      [ACTING_USER_HEADER]: userId,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function callFunctionJson(name: string, userId: string, body: Record<string, unknown>) {
+  const resp = await callFunction(name, userId, body);
+  const data = await resp.json().catch(() => null);
+  if (!resp.ok || !data) throw new Error(data?.error || `${name} returned HTTP ${resp.status}`);
+  return data;
+}
+
+interface CommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  cwd?: string;
+  durationMs?: number;
+  requiresApproval?: boolean;
+  reason?: string;
+}
+
+/** run-command answers with JSON or an SSE stream of output events; either way, collect the whole run */
+async function runCommand(userId: string, projectId: string, args: Record<string, unknown>, files: ProjectFile[]) {
+  const resp = await callFunction("run-command", userId, {
+    project_id: projectId,
+    command: args.command,
+    cwd: args.cwd,
+    timeout_s: Math.min(Number(args.timeout_s) || 60, COMMAND_TIMEOUT_S),
+    files,
+  });
+  if (!(resp.headers.get("content-type") || "").includes("text/event-stream")) {
+    const data = await resp.json().catch(() => null);
+    if (!data) throw new Error(`run-command returned HTTP ${resp.status}`);
+    if (data.error) throw new Error(data.error);
+    return {
+      exitCode: data.exitCode ?? 1, stdout: data.stdout || "", stderr: data.stderr || "", cwd: data.cwd,
+      durationMs: data.durationMs, requiresApproval: data.requiresApproval, reason: data.reason,
+    } as CommandResult;
+  }
+
+  const result: CommandResult = { exitCode: 1, stdout: "", stderr: "" };
+  const decoder = createSseDecoder(({ data }) => {
+    let event: { type?: string; data?: string; exitCode?: number; cwd?: string; durationMs?: number };
+    try { event = JSON.parse(data); } catch { return; }
+    if (event.type === "stdout") result.stdout += event.data || "";
+    else if (event.type === "stderr") result.stderr += event.data || "";
+    else if (event.type === "done") {
+      result.exitCode = event.exitCode ?? 1;
+      result.cwd = event.cwd;
+      result.durationMs = event.durationMs;
+    }
+  });
+  const reader = resp.body!.getReader();
+  const text = new TextDecoder();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    decoder.push(text.decode(value, { stream: true }));
+  }
+  decoder.end();
+  return result;
+}
+
+// ─── Project files ───
+
+interface ProjectFile {
+  path: string;
+  content: string;
+}
+
+async function loadFiles(db: Db, projectId: string): Promise<ProjectFile[]> {
+  const { data } = await db.from("project_files").select("path, content").eq("project_id", projectId).order("path");
+  return data || [];
+}
+
+function normalizeFilePath(path: unknown): string {
+  if (typeof path !== "string" || !path.trim()) throw new McpError(INVALID_PARAMS, "path is required");
+  const normalized = "/" + path.trim().replace(/^\/+/, "");
+  if (normalized.split("/").includes("..")) throw new McpError(INVALID_PARAMS, `Invalid path: ${path}`);
+  return normalized;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}\n… (truncated)` : text;
+}
+
+// ─── Guardrails ───
+
+/**
+ * `project_permissions` rules the in-IDE agent is held to that apply beyond
+ * commands (run-command checks those itself): `tool_name` on the tool and
+ * `file_pattern` on the file it writes. Newest matching rule wins.
+ */
+async function checkProjectPermission(
+  db: Db,
+  projectId: string,
+  toolName: string,
+  path: string | null,
+): Promise<{ effect: PermissionEffect; reason?: string }> {
+  const { data: rules } = await db
+    .from("project_permissions")
+    .select("rule_type, subject, effect, reason")
+    .eq("project_id", projectId)
+    .in("rule_type", ["tool_name", "file_pattern"])
+    .order("created_at", { ascending: false });
+
+  for (const rule of rules || []) {
+    const matches = rule.rule_type === "tool_name"
+      ? rule.subject === toolName
+      : path !== null && createGlobMatcher(rule.subject)(path);
+    if (matches) return { effect: rule.effect as PermissionEffect, reason: rule.reason || undefined };
+  }
+  return { effect: "allow" };
+}
+
+async function checkMcpPermission(db: Db, projectId: string, toolName: string, risk: McpRisk) {
+  const { data: rules } = await db
+    .from("mcp_permissions")
+    .select("rule_type, subject, effect, reason")
+    .eq("project_id", projectId);
+  return evaluateMcpPermission((rules || []) as McpPermissionRule[], toolName, risk);
+}
+
+// ─── Tools ───
+
+interface ToolContext {
+  db: Db;
+  token: ProjectToken;
+}
+
+interface StartedTool {
+  scope: McpTokenScope;
+  risk: McpRisk;
+  definition: McpToolDefinition;
+  /** The file a call writes, for `file_pattern` rules */
+  writesPath?: (args: Record<string, unknown>) => string;
+  run(ctx: ToolContext, args: Record<string, unknown>): Promise<McpCallToolResult>;
+}
+
+function textResult(text: string): McpCallToolResult {
+  return { content: [{ type: "text", text: truncate(text) }] };
+}
+
+function dataResult(data: Record<string, unknown>): McpCallToolResult {
+  return { content: [{ type: "text", text: truncate(JSON.stringify(data, null, 2)) }], structuredContent: data };
+}
+
+const objectSchema = (properties: Record<string, unknown>, required: string[] = []) =>
+  ({ type: "object", properties, ...(required.length ? { required } : {}) });
+
+const TOOLS: StartedTool[] = [
+  {
+    scope: "read",
+    risk: "read",
+    definition: {
+      name: "list_files",
+      description: "List the project's file paths and sizes, optionally under a directory.",
+      inputSchema: objectSchema({ prefix: { type: "string", description: "Directory, e.g. /src" } }),
+      annotations: { readOnlyHint: true },
+    },
+    async run({ db, token }, args) {
+      const prefix = typeof args.prefix === "string" && args.prefix ? normalizeFilePath(args.prefix).replace(/\/?$/, "/") : "/";
+      const files = (await loadFiles(db, token.project_id)).filter((f) => f.path.startsWith(prefix));
+      return dataResult({
+        files: files.slice(0, MAX_LISTED_FILES).map((f) => ({ path: f.path, size: f.content.length })),
+        truncated: files.length > MAX_LISTED_FILES,
+      });
+    },
+  },
+  {
+    scope: "read",
+    risk: "read",
+    definition: {
+      name: "read_file",
+      description: "Read one project file.",
+      inputSchema: objectSchema({ path: { type: "string" } }, ["path"]),
+      annotations: { readOnlyHint: true },
+    },
+    async run({ db, token }, args) {
+      const path = normalizeFilePath(args.path);
+      const { data: file } = await db
+        .from("project_files")
+        .select("content")
+        .eq("project_id", token.project_id)
+        .eq("path", path)
+        .maybeSingle();
+      if (!file) throw new Error(`No such file: ${path}`);
+      return textResult(file.content);
+    },
+  },
+  {
+    scope: "write",
+    risk: "write",
+    definition: {
+      name: "write_file",
+      description: "Create or overwrite a project file.",
+      inputSchema: objectSchema({ path: { type: "string" }, content: { type: "string" } }, ["path", "content"]),
+      annotations: { destructiveHint: true, idempotentHint: true },
+    },
+    writesPath: (args) => normalizeFilePath(args.path),
+    async run({ db, token }, args) {
+      const path = normalizeFilePath(args.path);
+      if (typeof args.content !== "string") throw new McpError(INVALID_PARAMS, "content must be a string");
+      const { error } = await db.from("project_files").upsert(
+        { project_id: token.project_id, path, content: args.content, updated_at: new Date().toISOString() },
+        { onConflict: "project_id,path" },
+      );
+      if (error) throw new Error(error.message);
+      await db.from("project_events").insert({
+        project_id: token.project_id, actor_type: "user", actor_id: token.created_by,
+        event_type: "file.written", payload: { path, size: args.content.length, mcp_token_id: token.id },
+      });
+      return textResult(`Wrote ${path} (${args.content.length} chars)`);
+    },
+  },
+  {
+    scope: "write",
+    risk: "write",
+    definition: {
+      name: "delete_file",
+      description: "Delete a project file.",
+      inputSchema: objectSchema({ path: { type: "string" } }, ["path"]),
+      annotations: { destructiveHint: true, idempotentHint: true },
+    },
+    writesPath: (args) => normalizeFilePath(args.path),
+    async run({ db, token }, args) {
+      const path = normalizeFilePath(args.path);
+      const { error, count } = await db
+        .from("project_files")
+        .delete({ count: "exact" })
+        .eq("project_id", token.project_id)
+        .eq("path", path);
+      if (error) throw new Error(error.message);
+      if (!count) throw new Error(`No such file: ${path}`);
+      await db.from("project_events").insert({
+        project_id: token.project_id, actor_type: "user", actor_id: token.created_by,
+        event_type: "file.deleted", payload: { path, mcp_token_id: token.id },
+      });
+      return textResult(`Deleted ${path}`);
+    },
+  },
+  {
+    scope: "read",
+    risk: "read",
+    definition: {
+      name: "list_snapshots",
+      description: "Recent snapshots of the project, newest first.",
+      inputSchema: objectSchema({ limit: { type: "number", description: "At most 200, default 20" } }),
+      annotations: { readOnlyHint: true },
+    },
+    async run({ token }, args) {
+      const data = await callFunctionJson("snapshot-api", token.created_by, {
+        action: "history", project_id: token.project_id, limit: Math.min(Number(args.limit) || 20, 200),
+      });
+      return dataResult({ snapshots: data.snapshots });
+    },
+  },
+  {
+    scope: "read",
+    risk: "read",
+    definition: {
+      name: "diff_snapshots",
+      description: "Files added, removed and modified between two snapshots.",
+      inputSchema: objectSchema(
+        { old_snapshot_id: { type: "string" }, new_snapshot_id: { type: "string" } },
+        ["old_snapshot_id", "new_snapshot_id"],
+      ),
+      annotations: { readOnlyHint: true },
+    },
+    async run({ db, token }, args) {
+      await assertOwnSnapshots(db, token, [args.old_snapshot_id, args.new_snapshot_id]);
+      const data = await callFunctionJson("snapshot-api", token.created_by, {
+        action: "diff", old_snapshot_id: args.old_snapshot_id, new_snapshot_id: args.new_snapshot_id,
+      });
+      return dataResult({ diff: data.diff });
+    },
+  },
+  {
+    scope: "write",
+    risk: "write",
+    definition: {
+      name: "create_snapshot",
+      description: "Snapshot the project's current files onto a ref (main by default).",
+      inputSchema: objectSchema({ label: { type: "string" }, ref_name: { type: "string" } }),
+    },
+    async run({ db, token }, args) {
+      const files = await loadFiles(db, token.project_id);
+      const data = await callFunctionJson("snapshot-api", token.created_by, {
+        action: "create_snapshot", project_id: token.project_id, files,
+        label: typeof args.label === "string" ? args.label : "MCP snapshot",
+        ref_name: typeof args.ref_name === "string" ? args.ref_name : undefined,
+      });
+      return dataResult({ snapshot_id: data.snapshot_id, root_tree_hash: data.root_tree_hash, file_count: files.length });
+    },
+  },
+  {
+    scope: "exec",
+    risk: "write",
+    definition: {
+      name: "run_command",
+      description: "Run a shell command in the project's runner workspace, synced with the project's files.",
+      inputSchema: objectSchema(
+        { command: { type: "string" }, cwd: { type: "string" }, timeout_s: { type: "number" } },
+        ["command"],
+      ),
+      annotations: { openWorldHint: true },
+    },
+    async run({ db, token }, args) {
+      if (typeof args.command !== "string" || !args.command.trim()) throw new McpError(INVALID_PARAMS, "command is required");
+      const result = await runCommand(token.created_by, token.project_id, args, await loadFiles(db, token.project_id));
+      if (result.requiresApproval) {
+        return { ...textResult(`Command needs approval under the project's permission rules: ${result.reason}`), isError: true };
+      }
+      const data = {
+        exit_code: result.exitCode, stdout: truncate(result.stdout), stderr: truncate(result.stderr),
+        cwd: result.cwd, duration_ms: result.durationMs,
+      };
+      return { ...dataResult(data), isError: result.exitCode !== 0 };
+    },
+  },
+  {
+    scope: "read",
+    risk: "read",
+    definition: {
+      name: "list_builds",
+      description: "Recent build runs with their attestation hashes.",
+      inputSchema: objectSchema({ limit: { type: "number", description: "At most 100, default 20" } }),
+      annotations: { readOnlyHint: true },
+    },
+    async run({ token }, args) {
+      const data = await callFunctionJson("build-attestation", token.created_by, {
+        action: "list_runs", project_id: token.project_id, limit: Math.min(Number(args.limit) || 20, 100),
+      });
+      return dataResult({ runs: data.runs });
+    },
+  },
+  {
+    scope: "read",
+    risk: "read",
+    definition: {
+      name: "verify_attestation",
+      description: "Check a build's signed attestation against its run, snapshots and signing keys.",
+      inputSchema: objectSchema({ build_run_id: { type: "string" } }, ["build_run_id"]),
+      annotations: { readOnlyHint: true },
+    },
+    async run({ db, token }, args) {
+      await assertOwnBuild(db, token, args.build_run_id);
+      const verdict = await callFunctionJson("build-attestation", token.created_by, {
+        action: "verify_attestation", build_run_id: args.build_run_id,
+      });
+      return dataResult(verdict);
+    },
+  },
+  {
+    scope: "read",
+    risk: "read",
+    definition: {
+      name: "list_events",
+      description: "The project's event timeline, newest first.",
+      inputSchema: objectSchema({
+        event_type: { type: "string", description: "Exact type, or a prefix ending in '.', e.g. snapshot." },
+        since: { type: "string", description: "ISO timestamp" },
+        limit: { type: "number", description: "At most 200, default 50" },
+      }),
+      annotations: { readOnlyHint: true },
+    },
+    async run({ db, token }, args) {
+      return dataResult({ events: await loadEvents(db, token.project_id, args) });
+    },
+  },
+];
+
+async function assertOwnBuild(db: Db, token: ProjectToken, buildRunId: unknown) {
+  if (typeof buildRunId !== "string") throw new McpError(INVALID_PARAMS, "build_run_id is required");
+  const { data: run } = await db.from("build_runs").select("project_id").eq("id", buildRunId).maybeSingle();
+  if (!run || run.project_id !== token.project_id) throw new Error(`No such build run: ${buildRunId}`);
+}
+
+/** snapshot-api and build-attestation look these up by id alone; keep the token inside its project */
+async function assertOwnSnapshots(db: Db, token: ProjectToken, snapshotIds: unknown[]) {
+  if (!snapshotIds.every((id) => typeof id === "string")) throw new McpError(INVALID_PARAMS, "snapshot ids are required");
+  const { data } = await db.from("ca_snapshots").select("id").eq("project_id", token.project_id).in("id", snapshotIds);
+  if ((data || []).length !== new Set(snapshotIds).size) throw new Error("No such snapshot in this project");
+}
+
+async function loadEvents(db: Db, projectId: string, args: Record<string, unknown>) {
+  let q = db
+    .from("project_events")
+    .select("id, actor_type, actor_id, event_type, payload, created_at")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .limit(Math.min(Number(args.limit) || 50, 200));
+  if (typeof args.event_type === "string" && args.event_type) {
+    q = args.event_type.endsWith(".") ? q.like("event_type", `${args.event_type}%`) : q.eq("event_type", args.event_type);
+  }
+  if (typeof args.since === "string" && args.since) q = q.gte("created_at", args.since);
+  const { data } = await q;
+  return data || [];
+}
+
+function toolsFor(token: ProjectToken) {
+  return TOOLS.filter((t) => token.scopes.includes(t.scope));
+}
+
+/** Run one tool call through the token's scopes and the project's rules, auditing the outcome */
+async function callStartedTool(ctx: ToolContext, name: string, args: Record<string, unknown>): Promise<McpCallToolResult> {
+  const tool = toolsFor(ctx.token).find((t) => t.definition.name === name);
+  if (!tool) throw new McpError(INVALID_PARAMS, `Unknown tool: ${name}`);
+
+  const { db, token } = ctx;
+  const audit = {
+    project_id: token.project_id, user_id: token.created_by, server_key: "started",
+    tool_name: name, risk: tool.risk, input_hash: await sha256Hex(JSON.stringify(args)),
+  };
+
+  const path = tool.writesPath ? tool.writesPath(args) : null;
+  const rule = await checkProjectPermission(db, token.project_id, name, path);
+  const decision = rule.effect === "allow" ? await checkMcpPermission(db, token.project_id, name, tool.risk) : rule;
+  if (decision.effect !== "allow") {
+    await db.from("mcp_audit_log").insert({ ...audit, status: "blocked", error: `needs_${decision.effect}` });
+    const why = decision.effect === "deny" ? "denied" : "needs approval";
+    return {
+      ...textResult(
+        `${name} ${why} by the project's permission rules${decision.reason ? ` (${decision.reason})` : ""}. ` +
+        `A project owner can allow it with a rule for tool "${name}" or risk "${tool.risk}".`,
+      ),
+      isError: true,
+    };
+  }
+
+  const startedAt = Date.now();
+  try {
+    const result = await tool.run(ctx, args);
+    await db.from("mcp_audit_log").insert({
+      ...audit, status: result.isError ? "error" : "ok", latency_ms: Date.now() - startedAt,
+      output_hash: await sha256Hex(JSON.stringify(result.content)),
+    });
+    return result;
+  } catch (e) {
+    await db.from("mcp_audit_log").insert({ ...audit, status: "error", latency_ms: Date.now() - startedAt, error: String(e) });
+    throw e;
+  }
+}
+
+// ─── Resources ───
+
+const FILE_URI = "started://files";
+
+async function readStartedResource(ctx: ToolContext, uri: string): Promise<McpResourceContents[]> {
+  const { db, token } = ctx;
+  const asJson = (data: unknown): McpResourceContents[] =>
+    [{ uri, mimeType: "application/json", text: JSON.stringify(data, null, 2) }];
+
+  if (uri.startsWith(`${FILE_URI}/`)) {
+    const path = normalizeFilePath(decodeURI(uri.slice(FILE_URI.length)));
+    const { data: file } = await db
+      .from("project_files")
+      .select("content")
+      .eq("project_id", token.project_id)
+      .eq("path", path)
+      .maybeSingle();
+    if (!file) throw new McpError(INVALID_PARAMS, `Resource not found: ${uri}`);
+    return [{ uri, mimeType: "text/plain", text: file.content }];
+  }
+  if (uri === "started://events") return asJson(await loadEvents(db, token.project_id, {}));
+  if (uri === "started://snapshots") {
+    const data = await callFunctionJson("snapshot-api", token.created_by, { action: "history", project_id: token.project_id });
+    return asJson(data.snapshots);
+  }
+  const build = uri.match(/^started:\/\/builds\/([^/]+)\/attestation$/);
+  if (build) {
+    await assertOwnBuild(db, token, build[1]);
+    const data = await callFunctionJson("build-attestation", token.created_by, { action: "get_attestation", build_run_id: build[1] });
+    return asJson({ run: data.run, attestation: data.attestation });
+  }
+  throw new McpError(INVALID_PARAMS, `Resource not found: ${uri}`);
+}
+
+function startedServer(ctx: ToolContext): McpServerHandlers {
+  return {
+    serverInfo: SERVER_INFO,
+    instructions: INSTRUCTIONS,
+    listTools: async () => toolsFor(ctx.token).map((t) => t.definition),
+    callTool: (name, args) => callStartedTool(ctx, name, args),
+    // Without the read scope a token only reaches what its tools do
+    ...(ctx.token.scopes.includes("read")
+      ? {
+        listResources: async () => {
+          const files = await loadFiles(ctx.db, ctx.token.project_id);
+          return [
+            { uri: "started://events", name: "events", title: "Project events", mimeType: "application/json" },
+            { uri: "started://snapshots", name: "snapshots", title: "Snapshot history", mimeType: "application/json" },
+            ...files.slice(0, MAX_LISTED_FILES).map((f) => ({
+              uri: `${FILE_URI}${encodeURI(f.path)}`, name: f.path, mimeType: "text/plain",
+            })),
+          ];
+        },
+        listResourceTemplates: async () => [
+          { uriTemplate: `${FILE_URI}/{+path}`, name: "file", title: "Project file", mimeType: "text/plain" },
+          {
+            uriTemplate: "started://builds/{build_run_id}/attestation", name: "attestation",
+            title: "Build run and its attestation", mimeType: "application/json",
+          },
+        ],
+        readResource: (uri: string) => readStartedResource(ctx, uri),
+      }
+      : {}),
+  };
+}
+
+// ─── Streamable HTTP ───
+
+/**
+ * One POST carries one message or a batch. Answers go back as a single JSON
+ * body; nothing is pushed later, so there are no sessions and no GET stream.
+ */
+async function serveMcp(req: Request, db: Db, bearer: string): Promise<Response> {
+  const token = await authenticateToken(db, bearer);
+  if (!token) {
+    return json({ error: "Invalid, expired or revoked token" }, 401, { "WWW-Authenticate": 'Bearer error="invalid_token"' });
+  }
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405, { Allow: "POST" });
+
+  const version = req.headers.get("mcp-protocol-version");
+  if (version && !SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+    return json({ error: `Unsupported MCP-Protocol-Version: ${version}` }, 400);
+  }
+
+  let payload: unknown;
+  try {
+    payload = await req.json();
+  } catch {
+    return json({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } }, 400);
+  }
+
+  const server = startedServer({ db, token });
+  const replies: JsonRpcResponse[] = [];
+  for (const message of parseJsonRpcMessages(payload)) {
+    const reply = await handleMcpMessage(server, message);
+    if (reply) replies.push(reply);
+  }
+  if (replies.length === 0) return new Response(null, { status: 202, headers: corsHeaders });
+  return json(Array.isArray(payload) ? replies : replies[0]);
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const db = getServiceClient();
+    const bearer = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+    // External agents speak MCP with a project token; the IDE manages tokens with a user session
+    if (bearer.startsWith(MCP_TOKEN_PREFIX)) return await serveMcp(req, db, bearer);
+
+    const user = await getUser(req);
+    if (!user) return json({ error: "Unauthorized" }, 401);
+
+    const body = await req.json();
+    const { action, project_id } = body;
+    if (!project_id) return json({ error: "Missing project_id" }, 400);
+    if (!(await isProjectMember(db, user.id, project_id))) return json({ error: "Forbidden" }, 403);
+
+    switch (action) {
+      // ─── Tokens on the project, never their values ───
+      case "list_tokens": {
+        const { data: tokens } = await db
+          .from("project_mcp_tokens")
+          .select("id, name, token_prefix, scopes, created_by, created_at, last_used_at, expires_at, revoked_at")
+          .eq("project_id", project_id)
+          .order("created_at", { ascending: false });
+
+        return json({ ok: true, tokens: tokens || [] });
+      }
+
+      // ─── New token, shown once ───
+      case "create_token": {
+        const { name, scopes = ["read"], expires_in_days } = body;
+        if (typeof name !== "string" || !name.trim()) return json({ error: "Missing name" }, 400);
+        const invalid = validateMcpTokenScopes(scopes);
+        if (invalid) return json({ error: invalid }, 400);
+        if (!(await isProjectOwner(db, user.id, project_id))) {
+          return json({ error: "Only the project owner can create MCP tokens" }, 403);
+        }
+
+        const token = `${MCP_TOKEN_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(32)).buffer)}`;
+        const days = Number(expires_in_days);
+        const { data: row, error } = await db
+          .from("project_mcp_tokens")
+          .insert({
+            project_id,
+            name: name.trim(),
+            token_hash: await sha256Hex(token),
+            token_prefix: token.slice(0, MCP_TOKEN_PREFIX.length + 8),
+            scopes: [...new Set(scopes)],
+            created_by: user.id,
+            expires_at: days > 0 ? new Date(Date.now() + days * 86_400_000).toISOString() : null,
+          })
+          .select("id, name, token_prefix, scopes, created_by, created_at, last_used_at, expires_at, revoked_at")
+          .single();
+        if (error) return json({ error: error.message }, 500);
+
+        return json({ ok: true, token, record: row });
+      }
+
+      // ─── Revoke ───
+      case "revoke_token": {
+        const { token_id } = body;
+        if (!token_id) return json({ error: "Missing token_id" }, 400);
+        if (!(await isProjectOwner(db, user.id, project_id))) {
+          return json({ error: "Only the project owner can revoke MCP tokens" }, 403);
+        }
+
+        const { data: revoked } = await db
+          .from("project_mcp_tokens")
+          .update({ revoked_at: new Date().toISOString() })
+          .eq("project_id", project_id)
+          .eq("id", token_id)
+          .is("revoked_at", null)
+          .select("id");
+        if (!revoked?.length) return json({ error: "Token not found" }, 404);
+
+        return json({ ok: true });
+      }
+
+      default:
+        return json({ error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (e) {
+    console.error("started-mcp error:", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,4 @@
+
+-- Track git file modes (e.g. 100755 for executables) per path in a snapshot
+ALTER TABLE public.ca_path_index
+  ADD COLUMN mode text NOT NULL DEFAULT '100644';
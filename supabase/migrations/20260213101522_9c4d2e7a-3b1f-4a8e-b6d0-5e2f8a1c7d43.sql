@@ -0,0 +1,29 @@
+-- Merge snapshots record the merged-in side as a second parent
+ALTER TABLE public.ca_snapshots
+  ADD COLUMN merge_parent_snapshot_id uuid REFERENCES public.ca_snapshots(id);
+
+-- Merges that stopped on conflicts, waiting for the user to resolve them
+CREATE TABLE public.ca_merges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  source_ref text NOT NULL,
+  target_ref text NOT NULL,
+  base_snapshot_id uuid REFERENCES public.ca_snapshots(id),
+  ours_snapshot_id uuid NOT NULL REFERENCES public.ca_snapshots(id),
+  theirs_snapshot_id uuid NOT NULL REFERENCES public.ca_snapshots(id),
+  conflicts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  status text NOT NULL DEFAULT 'in_progress',
+  merged_snapshot_id uuid REFERENCES public.ca_snapshots(id),
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (status IN ('in_progress', 'completed', 'aborted'))
+);
+ALTER TABLE public.ca_merges ENABLE ROW LEVEL SECURITY;
+
+-- At most one merge in progress per target ref
+CREATE UNIQUE INDEX idx_ca_merges_in_progress ON public.ca_merges(project_id, target_ref)
+  WHERE status = 'in_progress';
+
+CREATE POLICY "Members can read merges" ON public.ca_merges FOR SELECT TO authenticated
+  USING (is_project_member(auth.uid(), project_id));
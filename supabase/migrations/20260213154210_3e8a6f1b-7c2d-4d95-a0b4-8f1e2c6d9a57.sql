@@ -0,0 +1,6 @@
+-- Cherry-picked and rebased snapshots point back at the snapshot they replay
+ALTER TABLE public.ca_snapshots
+  ADD COLUMN origin_snapshot_id uuid REFERENCES public.ca_snapshots(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_ca_snapshots_origin ON public.ca_snapshots(origin_snapshot_id)
+  WHERE origin_snapshot_id IS NOT NULL;
@@ -0,0 +1,37 @@
+-- Per-ref write rules: who may move a ref and whether it only accepts merges
+CREATE TABLE public.ca_ref_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- Exact ref name, or a prefix ending in /* (e.g. release/*)
+  pattern text NOT NULL,
+  min_role text NOT NULL DEFAULT 'editor',
+  protected boolean NOT NULL DEFAULT false,
+  require_passing_build boolean NOT NULL DEFAULT false,
+  created_by uuid,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(project_id, pattern),
+  CHECK (min_role IN ('owner', 'editor'))
+);
+ALTER TABLE public.ca_ref_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read ref rules" ON public.ca_ref_rules FOR SELECT TO authenticated
+  USING (is_project_member(auth.uid(), project_id));
+
+-- Annotated tags: immutable names for a snapshot (e.g. release-1.4)
+CREATE TABLE public.ca_tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  tag_name text NOT NULL,
+  snapshot_id uuid NOT NULL REFERENCES public.ca_snapshots(id),
+  message text,
+  tagged_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(project_id, tag_name)
+);
+ALTER TABLE public.ca_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read tags" ON public.ca_tags FOR SELECT TO authenticated
+  USING (is_project_member(auth.uid(), project_id));
+
+-- Refs are only moved by snapshot-api, which enforces ca_ref_rules
+DROP POLICY IF EXISTS "Members can manage refs" ON public.ca_refs;
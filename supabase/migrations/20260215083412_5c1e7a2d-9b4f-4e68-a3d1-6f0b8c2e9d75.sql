@@ -0,0 +1,141 @@
+-- Storage quota per plan, enforced by snapshot-api against api_usage_ledger.storage_mb
+ALTER TABLE public.billing_plans
+  ADD COLUMN included_storage_mb integer NOT NULL DEFAULT 500;
+
+-- When storage_mb was last measured, so it can be refreshed lazily
+ALTER TABLE public.api_usage_ledger
+  ADD COLUMN storage_measured_at timestamptz;
+
+-- Blob lookups by hash for the GC liveness check
+CREATE INDEX idx_ca_path_index_blob ON public.ca_path_index(blob_hash);
+
+-- Bytes of distinct content a project's snapshots reference. Blobs are shared
+-- between projects, so each project is charged for everything it references.
+CREATE OR REPLACE FUNCTION public.ca_project_storage(_project_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT jsonb_build_object(
+    'project_id', _project_id,
+    'snapshots', (SELECT count(*) FROM ca_snapshots WHERE project_id = _project_id),
+    'path_index_rows', (SELECT count(*) FROM ca_path_index WHERE project_id = _project_id),
+    'blobs', count(*),
+    'blob_bytes', coalesce(sum(b.byte_size), 0)
+  )
+  FROM ca_blobs b
+  WHERE b.hash IN (SELECT blob_hash FROM ca_path_index WHERE project_id = _project_id);
+$$;
+
+-- Garbage-collect a project's snapshots. Snapshots are kept when reachable
+-- (through both merge parents) from a ref, a tag, an in-progress merge, a
+-- build run, or any snapshot created at or after _retain_since. The rest are
+-- deleted with their path index rows, then trees and blobs nothing else
+-- references. With _dry_run nothing is deleted; the counts say what would be.
+--
+-- Writers don't take the GC lock: a snapshot being written at the same moment
+-- whose content exactly matches swept content can lose a blob. Collections are
+-- owner-triggered and rare, and the retention window keeps recent work safe.
+CREATE OR REPLACE FUNCTION public.ca_gc_project(_project_id uuid, _retain_since timestamptz, _dry_run boolean DEFAULT true)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  result jsonb;
+BEGIN
+  -- Trees and blobs are shared across projects, so collections never overlap
+  PERFORM pg_advisory_xact_lock(hashtext('ca_gc'));
+
+  CREATE TEMP TABLE gc_snapshots ON COMMIT DROP AS
+  WITH RECURSIVE roots(id) AS (
+    SELECT snapshot_id FROM ca_refs WHERE project_id = _project_id
+    UNION SELECT snapshot_id FROM ca_tags WHERE project_id = _project_id
+    UNION SELECT id FROM ca_snapshots WHERE project_id = _project_id AND created_at >= _retain_since
+    UNION SELECT unnest(ARRAY[base_snapshot_id, ours_snapshot_id, theirs_snapshot_id])
+      FROM ca_merges WHERE project_id = _project_id AND status = 'in_progress'
+    UNION SELECT unnest(ARRAY[input_snapshot_id, output_snapshot_id]) FROM build_runs WHERE project_id = _project_id
+  ), reachable(id) AS (
+    SELECT id FROM roots WHERE id IS NOT NULL
+    UNION
+    SELECT p.id
+    FROM reachable r
+    JOIN ca_snapshots s ON s.id = r.id,
+    LATERAL (VALUES (s.parent_snapshot_id), (s.merge_parent_snapshot_id)) AS p(id)
+    WHERE p.id IS NOT NULL
+  )
+  SELECT s.id, s.root_tree_hash
+  FROM ca_snapshots s
+  WHERE s.project_id = _project_id
+    AND NOT EXISTS (SELECT 1 FROM reachable r WHERE r.id = s.id);
+
+  -- Every tree a remaining snapshot reaches, in any project
+  CREATE TEMP TABLE gc_live_trees ON COMMIT DROP AS
+  WITH RECURSIVE live(hash) AS (
+    SELECT s.root_tree_hash FROM ca_snapshots s
+    WHERE NOT EXISTS (SELECT 1 FROM gc_snapshots g WHERE g.id = s.id)
+    UNION
+    SELECT e->>'hash' FROM live t JOIN ca_trees ct ON ct.hash = t.hash, jsonb_array_elements(ct.entries) e
+    WHERE e->>'type' = 'tree'
+  )
+  SELECT hash FROM live;
+
+  CREATE TEMP TABLE gc_trees ON COMMIT DROP AS
+  WITH RECURSIVE swept(hash) AS (
+    SELECT root_tree_hash FROM gc_snapshots
+    UNION
+    SELECT e->>'hash' FROM swept t JOIN ca_trees ct ON ct.hash = t.hash, jsonb_array_elements(ct.entries) e
+    WHERE e->>'type' = 'tree'
+  )
+  SELECT hash FROM swept WHERE NOT EXISTS (SELECT 1 FROM gc_live_trees l WHERE l.hash = swept.hash);
+
+  -- Blobs under swept trees that no live tree or remaining path index row points at
+  CREATE TEMP TABLE gc_blobs ON COMMIT DROP AS
+  SELECT DISTINCT e->>'hash' AS hash
+  FROM ca_trees ct, jsonb_array_elements(ct.entries) e
+  WHERE ct.hash IN (SELECT hash FROM gc_trees) AND e->>'type' = 'blob'
+  EXCEPT
+  SELECT e->>'hash'
+  FROM ca_trees ct, jsonb_array_elements(ct.entries) e
+  WHERE ct.hash IN (SELECT hash FROM gc_live_trees) AND e->>'type' = 'blob';
+
+  DELETE FROM gc_blobs b
+  WHERE EXISTS (
+    SELECT 1 FROM ca_path_index pi
+    WHERE pi.blob_hash = b.hash AND pi.snapshot_id NOT IN (SELECT id FROM gc_snapshots)
+  );
+
+  SELECT jsonb_build_object(
+    'dry_run', _dry_run,
+    'snapshots', (SELECT count(*) FROM gc_snapshots),
+    'path_index_rows', (SELECT count(*) FROM ca_path_index WHERE snapshot_id IN (SELECT id FROM gc_snapshots)),
+    'trees', (SELECT count(*) FROM gc_trees),
+    'blobs', (SELECT count(*) FROM gc_blobs),
+    'reclaimed_bytes',
+      coalesce((SELECT sum(byte_size) FROM ca_blobs WHERE hash IN (SELECT hash FROM gc_blobs)), 0)
+      + coalesce((SELECT sum(octet_length(entries::text)) FROM ca_trees WHERE hash IN (SELECT hash FROM gc_trees)), 0)
+  ) INTO result;
+
+  IF NOT _dry_run THEN
+    -- Finished merge records only exist for history; they don't keep snapshots alive
+    DELETE FROM ca_merges
+    WHERE project_id = _project_id AND status <> 'in_progress'
+      AND (base_snapshot_id IN (SELECT id FROM gc_snapshots)
+        OR ours_snapshot_id IN (SELECT id FROM gc_snapshots)
+        OR theirs_snapshot_id IN (SELECT id FROM gc_snapshots)
+        OR merged_snapshot_id IN (SELECT id FROM gc_snapshots));
+    DELETE FROM ca_snapshots WHERE id IN (SELECT id FROM gc_snapshots);
+    DELETE FROM ca_trees WHERE hash IN (SELECT hash FROM gc_trees);
+    DELETE FROM ca_blobs WHERE hash IN (SELECT hash FROM gc_blobs);
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+-- Only snapshot-api (service role) runs these
+REVOKE EXECUTE ON FUNCTION public.ca_project_storage(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ca_gc_project(uuid, timestamptz, boolean) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,24 @@
+-- Per-project Ed25519 keys that sign build attestations. The private key is
+-- PKCS#8, AES-GCM encrypted under ATTESTATION_SIGNING_SECRET (iv || ciphertext,
+-- base64); only build-attestation (service role) ever reads this table.
+CREATE TABLE public.attestation_signing_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  key_id text NOT NULL UNIQUE,
+  algorithm text NOT NULL DEFAULT 'ed25519',
+  public_key text NOT NULL,
+  encrypted_private_key text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  revoked_at timestamptz
+);
+ALTER TABLE public.attestation_signing_keys ENABLE ROW LEVEL SECURITY;
+
+-- One active key per project; revoked keys stay so old attestations still verify
+CREATE UNIQUE INDEX idx_attestation_signing_keys_active
+  ON public.attestation_signing_keys(project_id) WHERE revoked_at IS NULL;
+
+-- The signed in-toto statement alongside the summary columns
+ALTER TABLE public.build_attestations
+  ADD COLUMN statement jsonb,
+  ADD COLUMN envelope jsonb,
+  ADD COLUMN key_id text;
@@ -0,0 +1,26 @@
+-- Re-executions of attested build runs in a fresh runner workspace, and how
+-- their outcome compared with the attestation
+CREATE TABLE public.build_replays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  build_run_id uuid NOT NULL REFERENCES public.build_runs(id) ON DELETE CASCADE,
+  user_id uuid,
+  status text NOT NULL DEFAULT 'running',   -- running | done | error
+  verdict text,                             -- reproducible | diverged | not_reproducible
+  exit_code integer,
+  stdout_hash text,
+  stderr_hash text,
+  duration_ms integer,
+  runner_fingerprint jsonb NOT NULL DEFAULT '{}',
+  mismatches jsonb NOT NULL DEFAULT '[]',
+  environment_drift jsonb NOT NULL DEFAULT '[]',
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz
+);
+ALTER TABLE public.build_replays ENABLE ROW LEVEL SECURITY;
+CREATE INDEX idx_build_replays_run ON public.build_replays(build_run_id, created_at DESC);
+
+-- Written only by the replay endpoint
+CREATE POLICY "Members can read build replays" ON public.build_replays FOR SELECT TO authenticated
+  USING (is_project_member(auth.uid(), project_id));
@@ -0,0 +1,170 @@
+-- Build artifacts: files a run produced that match the project's artifact
+-- globs, captured by the runner after the run and stored as content-addressed
+-- blobs. Attestations can record a capture as their artifacts_hashes.
+ALTER TABLE public.projects
+  ADD COLUMN artifact_globs text[] NOT NULL DEFAULT '{}';
+
+-- Artifacts are often binary; their blobs hold base64 and hash the raw bytes
+ALTER TABLE public.ca_blobs
+  ADD COLUMN encoding text NOT NULL DEFAULT 'utf8' CHECK (encoding IN ('utf8', 'base64'));
+
+CREATE TABLE public.artifact_captures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  build_run_id uuid REFERENCES public.build_runs(id) ON DELETE SET NULL,
+  user_id uuid,
+  command text,
+  globs text[] NOT NULL DEFAULT '{}',
+  file_count integer NOT NULL DEFAULT 0,
+  total_bytes bigint NOT NULL DEFAULT 0,
+  skipped jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+ALTER TABLE public.artifact_captures ENABLE ROW LEVEL SECURITY;
+CREATE INDEX idx_artifact_captures_project ON public.artifact_captures(project_id, created_at DESC);
+CREATE INDEX idx_artifact_captures_run ON public.artifact_captures(build_run_id);
+
+CREATE TABLE public.build_artifacts (
+  capture_id uuid NOT NULL REFERENCES public.artifact_captures(id) ON DELETE CASCADE,
+  path text NOT NULL,
+  blob_hash text NOT NULL REFERENCES public.ca_blobs(hash),
+  byte_size bigint NOT NULL,
+  PRIMARY KEY (capture_id, path)
+);
+ALTER TABLE public.build_artifacts ENABLE ROW LEVEL SECURITY;
+CREATE INDEX idx_build_artifacts_blob ON public.build_artifacts(blob_hash);
+
+-- Written only by the artifacts endpoint; contents are downloaded through it too
+CREATE POLICY "Members can read artifact captures" ON public.artifact_captures FOR SELECT TO authenticated
+  USING (is_project_member(auth.uid(), project_id));
+CREATE POLICY "Members can read build artifacts" ON public.build_artifacts FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM artifact_captures c
+    WHERE c.id = build_artifacts.capture_id AND is_project_member(auth.uid(), c.project_id)
+  ));
+
+-- Storage counts artifact blobs alongside snapshot content
+CREATE OR REPLACE FUNCTION public.ca_project_storage(_project_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT jsonb_build_object(
+    'project_id', _project_id,
+    'snapshots', (SELECT count(*) FROM ca_snapshots WHERE project_id = _project_id),
+    'path_index_rows', (SELECT count(*) FROM ca_path_index WHERE project_id = _project_id),
+    'blobs', count(*),
+    'blob_bytes', coalesce(sum(b.byte_size), 0)
+  )
+  FROM ca_blobs b
+  WHERE b.hash IN (SELECT blob_hash FROM ca_path_index WHERE project_id = _project_id)
+     OR b.hash IN (
+       SELECT a.blob_hash FROM build_artifacts a JOIN artifact_captures c ON c.id = a.capture_id
+       WHERE c.project_id = _project_id
+     );
+$$;
+
+-- Same collection as before, except blobs a captured artifact points at stay
+CREATE OR REPLACE FUNCTION public.ca_gc_project(_project_id uuid, _retain_since timestamptz, _dry_run boolean DEFAULT true)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  result jsonb;
+BEGIN
+  -- Trees and blobs are shared across projects, so collections never overlap
+  PERFORM pg_advisory_xact_lock(hashtext('ca_gc'));
+
+  CREATE TEMP TABLE gc_snapshots ON COMMIT DROP AS
+  WITH RECURSIVE roots(id) AS (
+    SELECT snapshot_id FROM ca_refs WHERE project_id = _project_id
+    UNION SELECT snapshot_id FROM ca_tags WHERE project_id = _project_id
+    UNION SELECT id FROM ca_snapshots WHERE project_id = _project_id AND created_at >= _retain_since
+    UNION SELECT unnest(ARRAY[base_snapshot_id, ours_snapshot_id, theirs_snapshot_id])
+      FROM ca_merges WHERE project_id = _project_id AND status = 'in_progress'
+    UNION SELECT unnest(ARRAY[input_snapshot_id, output_snapshot_id]) FROM build_runs WHERE project_id = _project_id
+  ), reachable(id) AS (
+    SELECT id FROM roots WHERE id IS NOT NULL
+    UNION
+    SELECT p.id
+    FROM reachable r
+    JOIN ca_snapshots s ON s.id = r.id,
+    LATERAL (VALUES (s.parent_snapshot_id), (s.merge_parent_snapshot_id)) AS p(id)
+    WHERE p.id IS NOT NULL
+  )
+  SELECT s.id, s.root_tree_hash
+  FROM ca_snapshots s
+  WHERE s.project_id = _project_id
+    AND NOT EXISTS (SELECT 1 FROM reachable r WHERE r.id = s.id);
+
+  -- Every tree a remaining snapshot reaches, in any project
+  CREATE TEMP TABLE gc_live_trees ON COMMIT DROP AS
+  WITH RECURSIVE live(hash) AS (
+    SELECT s.root_tree_hash FROM ca_snapshots s
+    WHERE NOT EXISTS (SELECT 1 FROM gc_snapshots g WHERE g.id = s.id)
+    UNION
+    SELECT e->>'hash' FROM live t JOIN ca_trees ct ON ct.hash = t.hash, jsonb_array_elements(ct.entries) e
+    WHERE e->>'type' = 'tree'
+  )
+  SELECT hash FROM live;
+
+  CREATE TEMP TABLE gc_trees ON COMMIT DROP AS
+  WITH RECURSIVE swept(hash) AS (
+    SELECT root_tree_hash FROM gc_snapshots
+    UNION
+    SELECT e->>'hash' FROM swept t JOIN ca_trees ct ON ct.hash = t.hash, jsonb_array_elements(ct.entries) e
+    WHERE e->>'type' = 'tree'
+  )
+  SELECT hash FROM swept WHERE NOT EXISTS (SELECT 1 FROM gc_live_trees l WHERE l.hash = swept.hash);
+
+  -- Blobs under swept trees that no live tree or remaining path index row points at
+  CREATE TEMP TABLE gc_blobs ON COMMIT DROP AS
+  SELECT DISTINCT e->>'hash' AS hash
+  FROM ca_trees ct, jsonb_array_elements(ct.entries) e
+  WHERE ct.hash IN (SELECT hash FROM gc_trees) AND e->>'type' = 'blob'
+  EXCEPT
+  SELECT e->>'hash'
+  FROM ca_trees ct, jsonb_array_elements(ct.entries) e
+  WHERE ct.hash IN (SELECT hash FROM gc_live_trees) AND e->>'type' = 'blob';
+
+  DELETE FROM gc_blobs b
+  WHERE EXISTS (
+    SELECT 1 FROM ca_path_index pi
+    WHERE pi.blob_hash = b.hash AND pi.snapshot_id NOT IN (SELECT id FROM gc_snapshots)
+  );
+
+  -- Captured build artifacts live outside snapshots and keep their blobs
+  DELETE FROM gc_blobs b
+  WHERE EXISTS (SELECT 1 FROM build_artifacts a WHERE a.blob_hash = b.hash);
+
+  SELECT jsonb_build_object(
+    'dry_run', _dry_run,
+    'snapshots', (SELECT count(*) FROM gc_snapshots),
+    'path_index_rows', (SELECT count(*) FROM ca_path_index WHERE snapshot_id IN (SELECT id FROM gc_snapshots)),
+    'trees', (SELECT count(*) FROM gc_trees),
+    'blobs', (SELECT count(*) FROM gc_blobs),
+    'reclaimed_bytes',
+      coalesce((SELECT sum(byte_size) FROM ca_blobs WHERE hash IN (SELECT hash FROM gc_blobs)), 0)
+      + coalesce((SELECT sum(octet_length(entries::text)) FROM ca_trees WHERE hash IN (SELECT hash FROM gc_trees)), 0)
+  ) INTO result;
+
+  IF NOT _dry_run THEN
+    -- Finished merge records only exist for history; they don't keep snapshots alive
+    DELETE FROM ca_merges
+    WHERE project_id = _project_id AND status <> 'in_progress'
+      AND (base_snapshot_id IN (SELECT id FROM gc_snapshots)
+        OR ours_snapshot_id IN (SELECT id FROM gc_snapshots)
+        OR theirs_snapshot_id IN (SELECT id FROM gc_snapshots)
+        OR merged_snapshot_id IN (SELECT id FROM gc_snapshots));
+    DELETE FROM ca_snapshots WHERE id IN (SELECT id FROM gc_snapshots);
+    DELETE FROM ca_trees WHERE hash IN (SELECT hash FROM gc_trees);
+    DELETE FROM ca_blobs WHERE hash IN (SELECT hash FROM gc_blobs);
+  END IF;
+
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,19 @@
+-- Load-aware runner scheduling: nodes carry the load they last reported and
+-- how many health checks in a row they have failed. Status is active,
+-- draining (keeps its sessions, takes no new ones) or offline.
+ALTER TABLE public.runner_nodes
+  ADD COLUMN load jsonb NOT NULL DEFAULT '{}',
+  ADD COLUMN health_failures integer NOT NULL DEFAULT 0;
+
+UPDATE public.runner_nodes SET status = 'draining' WHERE status = 'degraded';
+ALTER TABLE public.runner_nodes
+  ADD CONSTRAINT runner_nodes_status_check CHECK (status IN ('active', 'draining', 'offline'));
+
+-- Sessions that moved off a failed node keep a record of where they came from
+-- and which snapshot their workspace was restored from
+ALTER TABLE public.runner_sessions
+  ADD COLUMN status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'failed_over')),
+  ADD COLUMN failed_over_from uuid REFERENCES public.runner_nodes(id),
+  ADD COLUMN restored_snapshot_id uuid REFERENCES public.ca_snapshots(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_runner_sessions_project ON public.runner_sessions(project_id, updated_at DESC);
@@ -0,0 +1,28 @@
+-- Runner nodes enroll themselves with a one-time token instead of being
+-- inserted by hand. An enrolled node registers an Ed25519 public key that
+-- its heartbeats are signed with; the mesh calls it back with a credential
+-- derived from RUNNER_MESH_SECRET, so neither side's secret is stored here.
+ALTER TABLE public.runner_nodes
+  ADD COLUMN public_key text,
+  ADD COLUMN fingerprint jsonb NOT NULL DEFAULT '{}',
+  ADD COLUMN owner_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Runner clock of the last accepted heartbeat; older ones are replays
+  ADD COLUMN last_heartbeat_ts bigint NOT NULL DEFAULT 0,
+  ADD COLUMN enrolled_at timestamptz;
+
+CREATE TABLE public.runner_enrollment_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- sha256 of the token; the token itself is shown once when created
+  token_hash text NOT NULL UNIQUE,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  trust_tier text NOT NULL DEFAULT 'tier2' CHECK (trust_tier IN ('tier0', 'tier1', 'tier2')),
+  region text,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  node_id uuid REFERENCES public.runner_nodes(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+ALTER TABLE public.runner_enrollment_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their enrollment tokens" ON public.runner_enrollment_tokens FOR SELECT TO authenticated
+  USING (created_by = auth.uid());
@@ -0,0 +1,39 @@
+-- External MCP servers a project connects to: stdio processes the runner
+-- starts in the project's session, or remote Streamable HTTP / SSE
+-- endpoints. The catalog is what the server listed at its last refresh.
+CREATE TABLE public.mcp_connections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  transport text NOT NULL CHECK (transport IN ('stdio', 'http', 'sse')),
+  command text,
+  args text[] NOT NULL DEFAULT '{}',
+  url text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'connected', 'error')),
+  last_error text,
+  server_info jsonb,
+  protocol_version text,
+  capabilities jsonb NOT NULL DEFAULT '{}',
+  instructions text,
+  tools jsonb NOT NULL DEFAULT '[]',
+  resources jsonb NOT NULL DEFAULT '[]',
+  resource_templates jsonb NOT NULL DEFAULT '[]',
+  prompts jsonb NOT NULL DEFAULT '[]',
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (project_id, name),
+  CHECK ((transport = 'stdio' AND command IS NOT NULL) OR (transport <> 'stdio' AND url IS NOT NULL))
+);
+ALTER TABLE public.mcp_connections ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Project members can read mcp_connections" ON public.mcp_connections
+  FOR SELECT USING (is_project_member(auth.uid(), project_id));
+
+-- Headers and environment for a connection, e.g. API tokens. No policies:
+-- only the API reads them, and the IDE only ever sees their names.
+CREATE TABLE public.mcp_connection_secrets (
+  connection_id uuid PRIMARY KEY REFERENCES public.mcp_connections(id) ON DELETE CASCADE,
+  headers jsonb NOT NULL DEFAULT '{}',
+  env jsonb NOT NULL DEFAULT '{}'
+);
+ALTER TABLE public.mcp_connection_secrets ENABLE ROW LEVEL SECURITY;
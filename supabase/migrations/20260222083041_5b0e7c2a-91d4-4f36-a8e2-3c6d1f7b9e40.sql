@@ -0,0 +1,22 @@
+-- Tokens external agents use to reach a project through the started-mcp
+-- endpoint. A token acts as the member who created it, within its scopes:
+-- read (files, snapshots, attestations, events), write (files, snapshots)
+-- and exec (runner commands).
+CREATE TABLE public.project_mcp_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- sha256 of the token; the token itself is shown once when created
+  token_hash text NOT NULL UNIQUE,
+  token_prefix text NOT NULL,
+  scopes text[] NOT NULL DEFAULT '{read}' CHECK (scopes <@ ARRAY['read', 'write', 'exec'] AND cardinality(scopes) > 0),
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_used_at timestamptz,
+  expires_at timestamptz,
+  revoked_at timestamptz
+);
+CREATE INDEX idx_project_mcp_tokens_project ON public.project_mcp_tokens(project_id, created_at);
+ALTER TABLE public.project_mcp_tokens ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Project members can read project_mcp_tokens" ON public.project_mcp_tokens
+  FOR SELECT USING (is_project_member(auth.uid(), project_id));
@@ -0,0 +1,32 @@
+-- Credentials for the built-in MCP servers, one row per project and server.
+-- The field values are sealed with a per-row data key (AES-256-GCM), and the
+-- data key is wrapped by the mcp-vault function's vault key of key_version;
+-- both are bound to the row's project and server. Nothing here is readable
+-- without that function, which resolves credentials by server_id when it
+-- forwards a tool call, for members whose role is in allowed_roles.
+CREATE TABLE public.mcp_credentials (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  server_id text NOT NULL,
+  -- names of the sealed fields, e.g. {aws_access_key_id,aws_secret_access_key,aws_region}
+  field_names text[] NOT NULL DEFAULT '{}',
+  key_version integer NOT NULL CHECK (key_version > 0),
+  wrapped_key text NOT NULL,
+  ciphertext text NOT NULL,
+  allowed_roles text[] NOT NULL DEFAULT '{owner,editor}'
+    CHECK (allowed_roles <@ ARRAY['owner', 'editor', 'viewer'] AND 'owner' = ANY(allowed_roles)),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  rotated_at timestamptz,
+  last_used_at timestamptz,
+  last_used_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE(project_id, server_id)
+);
+CREATE INDEX idx_mcp_credentials_key_version ON public.mcp_credentials(key_version);
+-- No policies: only the service role reaches these rows
+ALTER TABLE public.mcp_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Superseded by mcp_credentials; it held plaintext values and was never read
+DROP TABLE IF EXISTS public.mcp_tokens;
@@ -0,0 +1,27 @@
+-- OAuth connections for the built-in MCP servers. The tokens are sealed in
+-- mcp_credentials like a pasted token, with the refresh token among the
+-- sealed fields; these columns describe the connection so it can be shown
+-- and refreshed without opening it.
+ALTER TABLE public.mcp_credentials
+  ADD COLUMN auth_type text NOT NULL DEFAULT 'token' CHECK (auth_type IN ('token', 'oauth')),
+  ADD COLUMN expires_at timestamptz,
+  ADD COLUMN scopes text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN account_label text;
+
+-- Authorizations in flight, from the redirect to the provider until the
+-- callback. Only a hash of the state parameter is kept; the PKCE verifier
+-- stays here and never reaches the browser.
+CREATE TABLE public.mcp_oauth_states (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  state_hash text NOT NULL UNIQUE,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  server_id text NOT NULL,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_verifier text,
+  redirect_uri text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+CREATE INDEX idx_mcp_oauth_states_expires_at ON public.mcp_oauth_states(expires_at);
+-- No policies: only the service role reaches these rows
+ALTER TABLE public.mcp_oauth_states ENABLE ROW LEVEL SECURITY;
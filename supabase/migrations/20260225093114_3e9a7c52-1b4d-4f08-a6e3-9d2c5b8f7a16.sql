@@ -0,0 +1,26 @@
+-- Seal external MCP connections' headers and environment like mcp_credentials:
+-- a per-row data key (AES-256-GCM) wrapped by the vault key of key_version,
+-- bound to the connection's project and id. Only the names stay readable, for
+-- the IDE. Rows stored before this keep their plaintext until the API opens
+-- them or mcp-vault's rekey runs, either of which seals them and clears it.
+ALTER TABLE public.mcp_connection_secrets
+  ADD COLUMN header_names text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN env_names text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN key_version integer CHECK (key_version > 0),
+  ADD COLUMN wrapped_key text,
+  ADD COLUMN ciphertext text,
+  ALTER COLUMN headers DROP NOT NULL,
+  ALTER COLUMN headers DROP DEFAULT,
+  ALTER COLUMN env DROP NOT NULL,
+  ALTER COLUMN env DROP DEFAULT;
+
+UPDATE public.mcp_connection_secrets
+SET header_names = coalesce((SELECT array_agg(k ORDER BY k) FROM jsonb_object_keys(headers) k), '{}'),
+    env_names = coalesce((SELECT array_agg(k ORDER BY k) FROM jsonb_object_keys(env) k), '{}');
+
+ALTER TABLE public.mcp_connection_secrets
+  ADD CONSTRAINT mcp_connection_secrets_sealed CHECK (
+    (key_version IS NOT NULL AND wrapped_key IS NOT NULL AND ciphertext IS NOT NULL AND headers IS NULL AND env IS NULL)
+    OR (key_version IS NULL AND wrapped_key IS NULL AND ciphertext IS NULL AND headers IS NOT NULL AND env IS NOT NULL)
+  );
+CREATE INDEX idx_mcp_connection_secrets_key_version ON public.mcp_connection_secrets(key_version);